@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview Executable entry point of the wiil CLI.
+ * @module cli/bin
+ */
+
+import { run } from './cli';
+
+run(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
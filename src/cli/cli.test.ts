@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Tests for the wiil CLI.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import nock from 'nock';
+import { WiilClient } from '../client/WiilClient';
+import { redactId } from '../client/logger';
+import { MockWiilServer } from '../testing/MockWiilServer';
+import { CliContext, run } from './cli';
+
+const BASE_URL = 'https://api.wiil.io/v1';
+
+describe('wiil CLI', () => {
+  let directory: string;
+  let server: MockWiilServer;
+  let stdout: string[];
+  let stderr: string[];
+  let context: CliContext;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'wiil-cli-'));
+    server = new MockWiilServer({ apiKey: 'key-prod' });
+    stdout = [];
+    stderr = [];
+    context = {
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+      env: { WIIL_CONFIG: join(directory, 'config.json') },
+      createClient: (config) => new WiilClient({ ...config, transport: server.transport }),
+      promptSecret: async () => '',
+    };
+  });
+
+  afterEach(async () => {
+    nock.cleanAll();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should manage profiles and use the default one', async () => {
+    expect(await run(['profiles', 'add', 'prod', '--api-key', 'key-prod'], context)).toBe(0);
+    expect(await run(['profiles', 'add', 'staging', '--api-key', 'key-staging-1234'], context)).toBe(0);
+    expect(await run(['profiles', 'list'], context)).toBe(0);
+
+    expect(stdout.at(-1)!.split('\n')).toEqual([
+      'NAME     DEFAULT  APIKEY',
+      'prod     *        ****',
+      'staging           ****1234',
+    ]);
+
+    expect(await run(['customers', 'list'], context)).toBe(0);
+    expect(await run(['profiles', 'use', 'staging'], context)).toBe(0);
+    expect(await run(['customers', 'list'], context)).toBe(1);
+    expect(stderr.at(-1)).toMatch(/^Error: .*\(UNAUTHORIZED, HTTP 401, request req_mock_\d+\)$/);
+  });
+
+  it('should take the profile API key from WIIL_API_KEY or a prompt', async () => {
+    const questions: string[] = [];
+    context.promptSecret = async (question) => {
+      questions.push(question);
+      return ' key-prompted \n';
+    };
+
+    expect(await run(['profiles', 'add', 'prod'], { ...context, env: { ...context.env, WIIL_API_KEY: 'key-env' } })).toBe(0);
+    expect(await run(['profiles', 'add', 'staging'], context)).toBe(0);
+    expect(await run(['profiles', 'list', '-o', 'json'], context)).toBe(0);
+
+    expect(questions).toEqual(['API key for profile "staging": ']);
+    expect(JSON.parse(stdout.at(-1)!).map((profile: { apiKey: string }) => profile.apiKey)).toEqual([
+      redactId('key-env'),
+      redactId('key-prompted'),
+    ]);
+
+    context.promptSecret = async () => '';
+    expect(await run(['profiles', 'add', 'empty'], context)).toBe(2);
+  });
+
+  it('should create, list, get, and delete resources', async () => {
+    context.env.WIIL_API_KEY = 'key-prod';
+    const customer = { firstname: 'Ada', lastname: 'Lovelace', phone_number: '+14155550100' };
+
+    expect(await run(['customers', 'create', '--data', JSON.stringify(customer), '-o', 'json'], context)).toBe(0);
+    const created = JSON.parse(stdout.at(-1)!);
+
+    expect(await run(['customers', 'list'], context)).toBe(0);
+    expect(stdout.at(-1)).toContain('Ada');
+    expect(stdout.at(-1)).toContain('Page 1 of 1 (1 total)');
+
+    expect(await run(['customers', 'get', created.id, '--output', 'json'], context)).toBe(0);
+    expect(JSON.parse(stdout.at(-1)!)).toMatchObject(customer);
+
+    expect(await run(['customers', 'delete', created.id], context)).toBe(0);
+    expect(stdout.at(-1)).toBe(`Deleted ${created.id}`);
+    expect(server.records('customers')).toHaveLength(0);
+  });
+
+  it('should report usage errors with exit code 2', async () => {
+    context.env.WIIL_API_KEY = 'key-prod';
+
+    expect(await run(['widgets', 'list'], context)).toBe(2);
+    expect(await run(['phone-configs', 'create'], context)).toBe(2);
+    expect(stderr.at(-1)).toBe('Error: Usage: wiil phone-configs <list|get|delete>');
+    expect(await run(['customers', 'create', '--data', '{'], context)).toBe(2);
+    expect(await run(['customers', 'create', '--data', '[]'], context)).toBe(1);
+    expect(stderr.at(-1)).toMatch(/^Error: Request validation failed\n/);
+    expect(await run(['customers', 'list', '--unknown'], context)).toBe(2);
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('should print help and the SDK version', async () => {
+    expect(await run([], context)).toBe(0);
+    expect(stdout.at(-1)).toContain('wiil <resource> list');
+    expect(await run(['--version'], context)).toBe(0);
+    expect(stdout.at(-1)).toMatch(/^\d+\.\d+\.\d+/);
+  });
+
+  it('should create a phone agent and print setup progress to stderr', async () => {
+    context.env.WIIL_API_KEY = 'key-prod';
+    context.createClient = (config) => new WiilClient({ ...config, baseUrl: BASE_URL });
+    nock(BASE_URL)
+      .post('/dynamic-setup/phone-agent', (body) => body.assistantName === 'Alex' && body.capabilities.length === 2)
+      .reply(200, {
+        success: true,
+        data: {
+          id: 'setup_1',
+          processingState: { status: 'completed', progressPercentage: 100 },
+          success: true,
+          agentConfigurationId: 'agent_1',
+          phoneNumber: '+15551234567',
+        },
+        metadata: { timestamp: Date.now(), version: 'v1' },
+      });
+
+    const code = await run(
+      ['agents', 'create-phone', '--name', 'Alex', '--capability', 'a', '--capability', 'b', '-o', 'json'],
+      context
+    );
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout.at(-1)!)).toMatchObject({ agentConfigurationId: 'agent_1' });
+    expect(stderr.join('\n')).toContain('+15551234567');
+  });
+});
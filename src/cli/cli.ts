@@ -0,0 +1,591 @@
+/**
+ * @fileoverview Command runner for the wiil CLI.
+ * @module cli/cli
+ */
+
+import { readFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { Writable } from 'node:stream';
+import { parseArgs } from 'node:util';
+import { DynamicPhoneAgentSetup } from 'wiil-core-js';
+import { WiilClient } from '../client/WiilClient';
+import { WiilLogger, redactId } from '../client/logger';
+import { WiilClientConfig } from '../client/types';
+import { WiilAPIError, WiilValidationError } from '../errors/WiilError';
+import { CliListParams, RESOURCE_ACTIONS, RESOURCE_COMMANDS, ResourceAction } from './commands';
+import { OutputFormat, formatOutput, formatTable } from './output';
+import { DEFAULT_PROFILE, configPath, loadConfig, resolveProfile, saveConfig } from './profiles';
+
+/**
+ * Input, output, and client construction used by the CLI.
+ *
+ * @remarks
+ * Replaced in tests to capture output and serve requests from a mock server.
+ *
+ * @internal
+ */
+export interface CliContext {
+  /**
+   * Writes command results.
+   */
+  stdout: (text: string) => void;
+
+  /**
+   * Writes progress, warnings, and errors.
+   */
+  stderr: (text: string) => void;
+
+  /**
+   * Environment variables.
+   */
+  env: NodeJS.ProcessEnv;
+
+  /**
+   * Creates the client used by resource commands.
+   */
+  createClient: (config: WiilClientConfig) => WiilClient;
+
+  /**
+   * Asks for a secret without echoing the answer.
+   */
+  promptSecret: (question: string) => Promise<string>;
+}
+
+/**
+ * Exit code for failed commands.
+ *
+ * @internal
+ */
+const EXIT_FAILURE = 1;
+
+/**
+ * Exit code for invalid command lines.
+ *
+ * @internal
+ */
+const EXIT_USAGE = 2;
+
+/**
+ * Command-line options accepted by every command.
+ *
+ * @internal
+ */
+const OPTIONS = {
+  output: { type: 'string', short: 'o' },
+  profile: { type: 'string', short: 'p' },
+  project: { type: 'string' },
+  data: { type: 'string', short: 'd' },
+  file: { type: 'string', short: 'f' },
+  page: { type: 'string' },
+  'page-size': { type: 'string' },
+  'sort-by': { type: 'string' },
+  'sort-direction': { type: 'string' },
+  columns: { type: 'string' },
+  'api-key': { type: 'string' },
+  'base-url': { type: 'string' },
+  default: { type: 'boolean' },
+  name: { type: 'string' },
+  language: { type: 'string' },
+  capability: { type: 'string', multiple: true },
+  role: { type: 'string' },
+  'no-wait': { type: 'boolean' },
+  'poll-timeout': { type: 'string' },
+  debug: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+} as const;
+
+/**
+ * Parsed command-line option values.
+ *
+ * @internal
+ */
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+/**
+ * Error for invalid command lines, reported with the usage exit code.
+ *
+ * @internal
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * General help text.
+ *
+ * @internal
+ */
+const HELP = `Usage: wiil <command> [options]
+
+Resource commands:
+${Object.entries(RESOURCE_COMMANDS)
+  .map(([name, command]) => `  wiil ${name.padEnd(14)} ${command.description}`)
+  .join('\n')}
+
+  wiil <resource> list [--page <n>] [--page-size <n>] [--sort-by <field>] [--sort-direction asc|desc]
+  wiil <resource> get <id>
+  wiil <resource> create (--data <json> | --file <path>)
+  wiil <resource> delete <id>
+
+Agent setup:
+  wiil agents create-phone --name <name> --capability <capability> --role <template>
+                           [--language <code>] [--data <json> | --file <path>]
+                           [--no-wait] [--poll-timeout <seconds>]
+
+Profiles:
+  wiil profiles list
+  wiil profiles add <name> [--base-url <url>] [--project <id>] [--default]
+  wiil profiles use <name>
+  wiil profiles remove <name>
+
+Options:
+  -o, --output json|table   Output format (default: table)
+  -p, --profile <name>      Profile to use (default: WIIL_API_KEY, then the default profile)
+      --project <id>        Project to scope requests to
+      --columns <a,b,c>     Columns to print in table output
+      --debug               Log every request to stderr
+  -h, --help                Show help
+  -v, --version             Show the SDK version
+
+Profiles are stored in ~/.wiil/config.json, or in the file named by WIIL_CONFIG.
+\`profiles add\` reads the API key from WIIL_API_KEY, or asks for it. Avoid --api-key <key>:
+the key stays in your shell history.`;
+
+/**
+ * Runs a CLI command.
+ *
+ * @param argv - Command-line arguments, without the executable and script path
+ * @param context - Input, output, and client construction
+ * @returns Process exit code
+ *
+ * @internal
+ */
+export async function run(argv: string[], context: CliContext = defaultContext()): Promise<number> {
+  try {
+    const { values, positionals } = parseCommandLine(argv);
+    const [command, action, ...args] = positionals;
+
+    if (values.version) {
+      context.stdout(readVersion());
+      return 0;
+    }
+    if (!command || values.help) {
+      context.stdout(HELP);
+      return 0;
+    }
+
+    if (command === 'profiles') {
+      await runProfiles(action, args, values, context);
+      return 0;
+    }
+    if (command === 'agents' && action === 'create-phone') {
+      await createPhoneAgent(values, context);
+      return 0;
+    }
+
+    await runResource(command, action, args, values, context);
+    return 0;
+  } catch (error) {
+    context.stderr(formatError(error));
+    return error instanceof UsageError ? EXIT_USAGE : EXIT_FAILURE;
+  }
+}
+
+/**
+ * Runs a list, get, create, or delete command.
+ *
+ * @param name - Resource command name
+ * @param action - Action name
+ * @param args - Remaining positional arguments
+ * @param values - Option values
+ * @param context - CLI context
+ */
+async function runResource(
+  name: string,
+  action: string | undefined,
+  args: string[],
+  values: CliOptions,
+  context: CliContext
+): Promise<void> {
+  const resource = RESOURCE_COMMANDS[name];
+  if (!resource) {
+    throw new UsageError(`Unknown command "${name}". Run \`wiil --help\` for the list of commands.`);
+  }
+  if (!RESOURCE_ACTIONS.includes(action as ResourceAction) || !resource[action as ResourceAction]) {
+    const supported = RESOURCE_ACTIONS.filter((candidate) => resource[candidate]);
+    throw new UsageError(`Usage: wiil ${name} <${supported.join('|')}>`);
+  }
+  const verb = action as ResourceAction;
+
+  const format = outputFormat(values);
+  const columns = values.columns ? values.columns.split(',').map((column) => column.trim()) : resource.columns;
+  const client = await createClient(values, context);
+
+  switch (verb) {
+    case 'list': {
+      const result = await resource.list!(client, listParams(values));
+      context.stdout(formatOutput(result, format, columns));
+      break;
+    }
+    case 'get': {
+      const result = await resource.get!(client, requireId(name, verb, args));
+      context.stdout(formatOutput(result, format, columns));
+      break;
+    }
+    case 'create': {
+      const result = await resource.create!(client, await readData(values, true));
+      context.stdout(formatOutput(result, format, columns));
+      break;
+    }
+    case 'delete': {
+      const id = requireId(name, verb, args);
+      const deleted = await resource.delete!(client, id);
+      context.stdout(
+        format === 'json' ? formatOutput({ id, deleted }, format) : `${deleted ? 'Deleted' : 'Did not delete'} ${id}`
+      );
+      break;
+    }
+  }
+}
+
+/**
+ * Creates a dynamic phone agent and waits for setup to finish, printing progress to stderr.
+ *
+ * @param values - Option values
+ * @param context - CLI context
+ */
+async function createPhoneAgent(values: CliOptions, context: CliContext): Promise<void> {
+  const format = outputFormat(values);
+  const data = {
+    ...((await readData(values, false)) as Record<string, unknown>),
+    ...definedEntries({
+      assistantName: values.name,
+      language: values.language,
+      capabilities: values.capability,
+      role_template_identifier: values.role,
+    }),
+  };
+  if (!data.assistantName) {
+    throw new UsageError('Usage: wiil agents create-phone --name <name> [options]');
+  }
+
+  const client = await createClient(values, context);
+  const result = await client.dynamicPhoneAgent.create(data as DynamicPhoneAgentSetup, {
+    pollUntilComplete: !values['no-wait'],
+    pollTimeout: values['poll-timeout'] ? positiveInteger('--poll-timeout', values['poll-timeout']) * 1000 : undefined,
+  });
+
+  context.stdout(formatOutput(result, format));
+}
+
+/**
+ * Runs a `profiles` subcommand.
+ *
+ * @param action - Subcommand name
+ * @param args - Remaining positional arguments
+ * @param values - Option values
+ * @param context - CLI context
+ */
+async function runProfiles(
+  action: string | undefined,
+  args: string[],
+  values: CliOptions,
+  context: CliContext
+): Promise<void> {
+  const path = configPath(context.env);
+  const config = await loadConfig(path);
+  const defaultProfile = config.defaultProfile ?? DEFAULT_PROFILE;
+  const [name] = args;
+
+  switch (action) {
+    case 'list': {
+      const rows = Object.entries(config.profiles).map(([profileName, profile]) => ({
+        name: profileName,
+        default: profileName === defaultProfile ? '*' : '',
+        apiKey: redactId(profile.apiKey),
+        baseUrl: profile.baseUrl,
+        projectId: profile.projectId,
+      }));
+      context.stdout(
+        outputFormat(values) === 'json'
+          ? formatOutput(rows, 'json')
+          : formatTable(rows, ['name', 'default', 'apiKey', 'baseUrl', 'projectId'])
+      );
+      return;
+    }
+    case 'add': {
+      if (!name) {
+        throw new UsageError('Usage: wiil profiles add <name> [--base-url <url>] [--project <id>] [--default]');
+      }
+      const apiKey = (
+        values['api-key'] ??
+        context.env.WIIL_API_KEY ??
+        (await context.promptSecret(`API key for profile "${name}": `))
+      ).trim();
+      if (!apiKey) {
+        throw new UsageError('An API key is required. Set WIIL_API_KEY or enter the key when asked.');
+      }
+      config.profiles[name] = {
+        apiKey,
+        ...definedEntries({ baseUrl: values['base-url'], projectId: values.project }),
+      };
+      if (values.default || Object.keys(config.profiles).length === 1) {
+        config.defaultProfile = name;
+      }
+      await saveConfig(path, config);
+      context.stdout(`Saved profile "${name}"`);
+      return;
+    }
+    case 'use':
+    case 'remove': {
+      if (!name) {
+        throw new UsageError(`Usage: wiil profiles ${action} <name>`);
+      }
+      if (!config.profiles[name]) {
+        throw new UsageError(`Profile "${name}" not found`);
+      }
+      if (action === 'use') {
+        config.defaultProfile = name;
+      } else {
+        delete config.profiles[name];
+        if (config.defaultProfile === name) {
+          delete config.defaultProfile;
+        }
+      }
+      await saveConfig(path, config);
+      context.stdout(action === 'use' ? `Using profile "${name}"` : `Removed profile "${name}"`);
+      return;
+    }
+    default:
+      throw new UsageError('Usage: wiil profiles <list|add|use|remove>');
+  }
+}
+
+/**
+ * Creates a client from the selected profile.
+ *
+ * @param values - Option values
+ * @param context - CLI context
+ * @returns Client for resource commands
+ */
+async function createClient(values: CliOptions, context: CliContext): Promise<WiilClient> {
+  const config = await loadConfig(configPath(context.env));
+  const profile = resolveProfile(config, context.env, values.profile);
+
+  return context.createClient({
+    apiKey: profile.apiKey,
+    baseUrl: profile.baseUrl,
+    projectId: values.project ?? profile.projectId,
+    logger: stderrLogger(context),
+    debug: values.debug ?? false,
+  });
+}
+
+/**
+ * Parses command-line arguments.
+ *
+ * @param argv - Command-line arguments
+ * @returns Option values and positional arguments
+ *
+ * @throws {UsageError} When an option is unknown or missing its value
+ */
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+/**
+ * Reads the JSON body of a create command from `--data` or `--file`.
+ *
+ * @param values - Option values
+ * @param required - Whether a body must be given
+ * @returns Parsed JSON body, or an empty object when optional and not given
+ *
+ * @throws {UsageError} When the body is missing or not valid JSON
+ */
+async function readData(values: CliOptions, required: boolean): Promise<unknown> {
+  const text = values.file ? await readFile(values.file, 'utf8') : values.data;
+  if (text === undefined) {
+    if (required) {
+      throw new UsageError('Provide the request body with --data <json> or --file <path>');
+    }
+    return {};
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UsageError(`Invalid JSON in ${values.file ?? '--data'}`);
+  }
+}
+
+/**
+ * Builds list parameters from the pagination options.
+ *
+ * @param values - Option values
+ * @returns Parameters for list methods
+ */
+function listParams(values: CliOptions): CliListParams {
+  const direction = values['sort-direction'];
+  if (direction !== undefined && direction !== 'asc' && direction !== 'desc') {
+    throw new UsageError('--sort-direction must be asc or desc');
+  }
+
+  return definedEntries({
+    page: values.page ? positiveInteger('--page', values.page) : undefined,
+    pageSize: values['page-size'] ? positiveInteger('--page-size', values['page-size']) : undefined,
+    sortBy: values['sort-by'],
+    sortDirection: direction,
+  });
+}
+
+/**
+ * Returns the output format option.
+ *
+ * @param values - Option values
+ * @returns Output format; `table` by default
+ *
+ * @throws {UsageError} When the format is not supported
+ */
+function outputFormat(values: CliOptions): OutputFormat {
+  const format = values.output ?? 'table';
+  if (format !== 'json' && format !== 'table') {
+    throw new UsageError('--output must be json or table');
+  }
+  return format;
+}
+
+/**
+ * Returns the ID argument of a get or delete command.
+ *
+ * @param name - Resource command name
+ * @param action - Action name
+ * @param args - Positional arguments after the action
+ * @returns Resource ID
+ *
+ * @throws {UsageError} When no ID is given
+ */
+function requireId(name: string, action: string, args: string[]): string {
+  if (!args[0]) {
+    throw new UsageError(`Usage: wiil ${name} ${action} <id>`);
+  }
+  return args[0];
+}
+
+/**
+ * Parses a positive integer option.
+ *
+ * @param option - Option name, for the error message
+ * @param value - Option value
+ * @returns Parsed integer
+ *
+ * @throws {UsageError} When the value is not a positive integer
+ */
+function positiveInteger(option: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new UsageError(`${option} must be a positive integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Removes entries whose value is undefined.
+ *
+ * @param values - Object to filter
+ * @returns Object without undefined values
+ */
+function definedEntries<T extends Record<string, unknown>>(values: T): T {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * Formats an error for stderr.
+ *
+ * @param error - Thrown error
+ * @returns Error message with API details and validation issues
+ */
+function formatError(error: unknown): string {
+  if (error instanceof WiilAPIError) {
+    const details = [error.code, error.statusCode && `HTTP ${error.statusCode}`, error.requestId && `request ${error.requestId}`]
+      .filter(Boolean)
+      .join(', ');
+    return `Error: ${error.message}${details ? ` (${details})` : ''}`;
+  }
+  if (error instanceof WiilValidationError && Array.isArray(error.details)) {
+    const issues = (error.details as { path?: PropertyKey[]; message: string }[]).map(
+      (issue) => `  ${issue.path?.join('.') || '(root)'}: ${issue.message}`
+    );
+    return [`Error: ${error.message}`, ...issues].join('\n');
+  }
+  return `Error: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Creates a logger that writes SDK output, such as agent setup progress, to stderr.
+ *
+ * @param context - CLI context
+ * @returns Logger for the client
+ */
+function stderrLogger(context: CliContext): WiilLogger {
+  const write = (message: string) => context.stderr(message);
+  return { debug: write, info: write, warn: write, error: write };
+}
+
+/**
+ * Reads the SDK version from package.json.
+ *
+ * @returns Package version
+ */
+function readVersion(): string {
+  const manifest = JSON.parse(readFileSync(join(__dirname, '..', '..', 'package.json'), 'utf8')) as {
+    version: string;
+  };
+  return manifest.version;
+}
+
+/**
+ * Returns the context used when the CLI runs as a process.
+ *
+ * @returns Context writing to the process streams
+ */
+function defaultContext(): CliContext {
+  return {
+    stdout: (text) => process.stdout.write(`${text}\n`),
+    stderr: (text) => process.stderr.write(`${text}\n`),
+    env: process.env,
+    createClient: (config) => new WiilClient(config),
+    promptSecret,
+  };
+}
+
+/**
+ * Reads a line from stdin without echoing it.
+ *
+ * @param question - Prompt written to stderr
+ * @returns Entered line, or an empty string when stdin closes first
+ */
+async function promptSecret(question: string): Promise<string> {
+  process.stderr.write(question);
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const prompt = createInterface({ input: process.stdin, output: muted, terminal: process.stdin.isTTY === true });
+
+  try {
+    return await new Promise<string>((resolve) => {
+      prompt.question('', resolve);
+      prompt.once('close', () => resolve(''));
+    });
+  } finally {
+    prompt.close();
+    process.stderr.write('\n');
+  }
+}
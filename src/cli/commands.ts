@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Resources managed by the wiil CLI.
+ * @module cli/commands
+ */
+
+import { ZodType } from 'zod';
+import {
+  CreateAgentConfigurationSchema,
+  CreateCallRequestSchema,
+  CreateCustomerSchema,
+  CreateDeploymentChannelSchema,
+  CreateEmailRequestSchema,
+  CreateProjectSchema,
+  CreateSmsRequestSchema,
+} from 'wiil-core-js';
+import { WiilClient } from '../client/WiilClient';
+import { ListParams } from '../client/query';
+import { WiilValidationError } from '../errors/WiilError';
+
+/**
+ * Pagination and sorting options accepted by `list` commands.
+ *
+ * @internal
+ */
+export type CliListParams = ListParams<Record<string, unknown>>;
+
+/**
+ * Actions a CLI resource supports, each mapped to a resource method.
+ *
+ * @internal
+ */
+export interface ResourceCommand {
+  /**
+   * Description shown in help output.
+   */
+  description: string;
+
+  /**
+   * Columns printed by `list` in table format.
+   */
+  columns: string[];
+
+  list?: (client: WiilClient, params: CliListParams) => Promise<unknown>;
+  get?: (client: WiilClient, id: string) => Promise<unknown>;
+  create?: (client: WiilClient, data: unknown) => Promise<unknown>;
+  delete?: (client: WiilClient, id: string) => Promise<boolean>;
+}
+
+/**
+ * Wraps a create method so the JSON body is checked against the resource's input schema first.
+ *
+ * @typeParam T - Input type of the create method
+ * @param schema - Schema for the create input
+ * @param create - Create method called with the parsed input
+ * @returns Create action that accepts the body parsed from `--data` or `--file`
+ *
+ * @throws {@link WiilValidationError} - From the returned action, when the body does not match the schema
+ *
+ * @internal
+ */
+function validated<T>(
+  schema: ZodType<T>,
+  create: (client: WiilClient, data: T) => Promise<unknown>
+): (client: WiilClient, data: unknown) => Promise<unknown> {
+  return async (client, data) => {
+    const validation = schema.safeParse(data);
+    if (!validation.success) {
+      throw new WiilValidationError('Request validation failed', validation.error.issues);
+    }
+    return create(client, validation.data);
+  };
+}
+
+/**
+ * Actions supported by resource commands.
+ *
+ * @internal
+ */
+export const RESOURCE_ACTIONS = ['list', 'get', 'create', 'delete'] as const;
+
+/**
+ * Action supported by resource commands.
+ *
+ * @internal
+ */
+export type ResourceAction = (typeof RESOURCE_ACTIONS)[number];
+
+/**
+ * Resources managed by the CLI, keyed by command name.
+ *
+ * @internal
+ */
+export const RESOURCE_COMMANDS: Record<string, ResourceCommand> = {
+  projects: {
+    description: 'Projects in the organization',
+    columns: ['id', 'name', 'isDefault'],
+    list: (client, params) => client.projects.list(params),
+    get: (client, id) => client.projects.get(id),
+    create: validated(CreateProjectSchema, (client, data) => client.projects.create(data)),
+    delete: (client, id) => client.projects.delete(id),
+  },
+  agents: {
+    description: 'Agent configurations',
+    columns: ['id', 'name', 'assistantType', 'modelId'],
+    list: (client, params) => client.agentConfigs.list(params),
+    get: (client, id) => client.agentConfigs.get(id),
+    create: validated(CreateAgentConfigurationSchema, (client, data) => client.agentConfigs.create(data)),
+    delete: (client, id) => client.agentConfigs.delete(id),
+  },
+  channels: {
+    description: 'Deployment channels',
+    columns: ['id', 'channelName', 'deploymentType', 'channelIdentifier'],
+    list: (client, params) => client.deploymentChannels.list(params),
+    get: (client, id) => client.deploymentChannels.get(id),
+    create: validated(CreateDeploymentChannelSchema, (client, data) => client.deploymentChannels.create(data)),
+    delete: (client, id) => client.deploymentChannels.delete(id),
+  },
+  'phone-configs': {
+    description: 'Phone configurations (create them with `wiil agents create-phone`)',
+    columns: ['id', 'phoneNumber', 'status', 'voiceChannelId', 'smsChannelId'],
+    list: (client, params) => client.phoneConfigs.list(params),
+    get: (client, id) => client.phoneConfigs.get(id),
+    delete: (client, id) => client.phoneConfigs.delete(id),
+  },
+  customers: {
+    description: 'Customers',
+    columns: ['id', 'firstname', 'lastname', 'phone_number', 'email'],
+    list: (client, params) => client.customers.list(params),
+    get: (client, id) => client.customers.get(id),
+    create: validated(CreateCustomerSchema, (client, data) => client.customers.create(data)),
+    delete: (client, id) => client.customers.delete(id),
+  },
+  calls: {
+    description: 'Outbound call requests',
+    columns: ['id', 'status', 'agentConfigurationId', 'createdAt'],
+    list: (client, params) => client.outboundCalls.list(params),
+    get: (client, id) => client.outboundCalls.get(id),
+    create: validated(CreateCallRequestSchema, (client, data) => client.outboundCalls.create(data)),
+    delete: (client, id) => client.outboundCalls.delete(id),
+  },
+  emails: {
+    description: 'Outbound email requests',
+    columns: ['id', 'status', 'templateId', 'createdAt'],
+    list: (client, params) => client.outboundEmails.list(params),
+    get: (client, id) => client.outboundEmails.get(id),
+    create: validated(CreateEmailRequestSchema, (client, data) => client.outboundEmails.create(data)),
+    delete: (client, id) => client.outboundEmails.delete(id),
+  },
+  sms: {
+    description: 'Outbound SMS requests',
+    columns: ['id', 'status', 'templateId', 'createdAt'],
+    list: (client, params) => client.outboundSms.list(params),
+    get: (client, id) => client.outboundSms.get(id),
+    create: validated(CreateSmsRequestSchema, (client, data) => client.outboundSms.create(data)),
+    delete: (client, id) => client.outboundSms.delete(id),
+  },
+};
@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Tests for CLI output formatting.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatOutput, formatTable } from './output';
+
+describe('CLI output', () => {
+  it('should print paginated results as a table with a page summary', () => {
+    const page = {
+      data: [
+        { id: 'proj_1', name: 'Production', isDefault: true, settings: { region: 'us' } },
+        { id: 'proj_2', name: 'Staging', isDefault: false },
+      ],
+      meta: { page: 1, pageSize: 2, totalCount: 3, totalPages: 2, hasNextPage: true, hasPreviousPage: false },
+    };
+
+    expect(formatOutput(page, 'table', ['id', 'name', 'isDefault', 'description'])).toBe(
+      [
+        'ID      NAME        ISDEFAULT',
+        'proj_1  Production  true',
+        'proj_2  Staging     false',
+        '',
+        'Page 1 of 2 (3 total)',
+      ].join('\n')
+    );
+  });
+
+  it('should fall back to scalar fields when no preferred column is present', () => {
+    const rows = [{ key: 'a', nested: { deep: true }, count: 2 }];
+
+    expect(formatTable(rows, ['id'])).toBe('KEY  COUNT\na    2');
+  });
+
+  it('should print objects one field per row and truncate long values', () => {
+    const output = formatOutput({ id: 'cust_1', notes: 'x'.repeat(80), tags: ['vip'] }, 'table');
+
+    expect(output.split('\n')).toEqual([
+      'id     cust_1',
+      `notes  ${'x'.repeat(59)}…`,
+      'tags   ["vip"]',
+    ]);
+  });
+
+  it('should print JSON unchanged', () => {
+    expect(JSON.parse(formatOutput({ id: 'proj_1' }, 'json'))).toEqual({ id: 'proj_1' });
+    expect(formatOutput([], 'table')).toBe('No results');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Output formatting for the wiil CLI.
+ * @module cli/output
+ */
+
+/**
+ * Output formats supported by the CLI.
+ */
+export type OutputFormat = 'json' | 'table';
+
+/**
+ * Maximum width of a table cell before it is truncated.
+ *
+ * @internal
+ */
+const MAX_CELL_WIDTH = 60;
+
+/**
+ * Number of fields shown when none of the preferred columns are present.
+ *
+ * @internal
+ */
+const MAX_FALLBACK_COLUMNS = 6;
+
+/**
+ * Formats a command result for printing.
+ *
+ * @param value - Command result
+ * @param format - Output format
+ * @param columns - Preferred table columns for lists; columns missing from every row are dropped
+ * @returns Text to print
+ *
+ * @remarks
+ * In table format, paginated results print their items followed by a page
+ * summary, arrays print one row per item, and objects print one row per field.
+ *
+ * @internal
+ */
+export function formatOutput(value: unknown, format: OutputFormat, columns: string[] = []): string {
+  if (format === 'json') {
+    return JSON.stringify(value, null, 2);
+  }
+
+  if (isPaginated(value)) {
+    const { page, totalPages, totalCount } = value.meta;
+    return `${formatTable(value.data, columns)}\n\nPage ${page} of ${totalPages} (${totalCount} total)`;
+  }
+  if (Array.isArray(value)) {
+    return formatTable(value as Record<string, unknown>[], columns);
+  }
+  if (typeof value === 'object' && value !== null) {
+    const rows = Object.entries(value).map(([field, fieldValue]) => ({ field, value: fieldValue }));
+    return formatTable(rows, ['field', 'value'], false);
+  }
+  return String(value);
+}
+
+/**
+ * Formats rows as a text table with aligned columns.
+ *
+ * @param rows - Rows to print
+ * @param columns - Preferred columns
+ * @param header - Whether to print the header row
+ * @returns Table text, or `No results` when there are no rows
+ *
+ * @internal
+ */
+export function formatTable(rows: Record<string, unknown>[], columns: string[], header = true): string {
+  if (rows.length === 0) {
+    return 'No results';
+  }
+
+  let shown = columns.filter((column) => rows.some((row) => row[column] !== undefined));
+  if (shown.length === 0) {
+    shown = Object.keys(rows[0])
+      .filter((field) => !isNested(rows[0][field]))
+      .slice(0, MAX_FALLBACK_COLUMNS);
+  }
+
+  const cells = rows.map((row) => shown.map((column) => formatCell(row[column])));
+  const lines = header ? [shown.map((column) => column.toUpperCase()), ...cells] : cells;
+  const widths = shown.map((_, index) => Math.max(...lines.map((line) => line[index].length)));
+
+  return lines
+    .map((line) => line.map((cell, index) => cell.padEnd(widths[index])).join('  ').trimEnd())
+    .join('\n');
+}
+
+/**
+ * Formats a value for a table cell.
+ *
+ * @param value - Field value
+ * @returns Single-line text, truncated to the maximum cell width
+ */
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = isNested(value) ? JSON.stringify(value) : String(value).replace(/\s+/g, ' ');
+  return text.length > MAX_CELL_WIDTH ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…` : text;
+}
+
+/**
+ * Checks whether a value is an object or array.
+ *
+ * @param value - Value to check
+ * @returns True for objects and arrays
+ */
+function isNested(value: unknown): boolean {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Checks whether a value is a paginated result.
+ *
+ * @param value - Value to check
+ * @returns True for objects with a `data` array and pagination `meta`
+ */
+function isPaginated(
+  value: unknown
+): value is { data: Record<string, unknown>[]; meta: { page: number; totalPages: number; totalCount: number } } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as { data?: unknown }).data) &&
+    typeof (value as { meta?: unknown }).meta === 'object'
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Tests for CLI profile storage.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { configPath, loadConfig, resolveProfile, saveConfig } from './profiles';
+import { WiilConfigurationError } from '../errors/WiilError';
+
+describe('CLI profiles', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'wiil-cli-'));
+    path = join(directory, 'nested', 'config.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store profiles in a file only the user can read', async () => {
+    await saveConfig(path, { defaultProfile: 'prod', profiles: { prod: { apiKey: 'key-prod' } } });
+
+    expect(await loadConfig(path)).toEqual({ defaultProfile: 'prod', profiles: { prod: { apiKey: 'key-prod' } } });
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+  });
+
+  it('should treat a missing file as empty and reject invalid JSON', async () => {
+    expect(await loadConfig(path)).toEqual({ profiles: {} });
+
+    await saveConfig(path, { profiles: {} });
+    await writeFile(path, '{ not json');
+    await expect(loadConfig(path)).rejects.toThrow(WiilConfigurationError);
+  });
+
+  it('should select the named profile, then WIIL_API_KEY, then the default profile', () => {
+    const config = {
+      defaultProfile: 'prod',
+      profiles: { prod: { apiKey: 'key-prod' }, staging: { apiKey: 'key-staging', baseUrl: 'https://staging' } },
+    };
+
+    expect(resolveProfile(config, { WIIL_API_KEY: 'key-env' }, 'staging').apiKey).toBe('key-staging');
+    expect(resolveProfile(config, { WIIL_API_KEY: 'key-env' })).toEqual({ apiKey: 'key-env', baseUrl: undefined });
+    expect(resolveProfile(config, { WIIL_PROFILE: 'staging' }).apiKey).toBe('key-staging');
+    expect(resolveProfile(config, {}).apiKey).toBe('key-prod');
+  });
+
+  it('should explain how to configure credentials when none are found', () => {
+    expect(() => resolveProfile({ profiles: {} }, {})).toThrow(/WIIL_API_KEY/);
+    expect(() => resolveProfile({ profiles: {} }, {}, 'missing')).toThrow('Profile "missing" not found');
+  });
+
+  it('should read the configuration path from WIIL_CONFIG', () => {
+    expect(configPath({ WIIL_CONFIG: '/etc/wiil.json' })).toBe('/etc/wiil.json');
+    expect(configPath({})).toMatch(/\.wiil[\\/]config\.json$/);
+  });
+});
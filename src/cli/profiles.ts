@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Profile storage for the wiil CLI.
+ * @module cli/profiles
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { WiilConfigurationError } from '../errors/WiilError';
+
+/**
+ * Name of the profile used when none is selected.
+ *
+ * @internal
+ */
+export const DEFAULT_PROFILE = 'default';
+
+/**
+ * Credentials and settings stored under a profile name.
+ *
+ * @internal
+ */
+export interface CliProfile {
+  /**
+   * API key used by the profile.
+   */
+  apiKey: string;
+
+  /**
+   * API base URL, for non-production environments.
+   */
+  baseUrl?: string;
+
+  /**
+   * Project that requests are scoped to.
+   */
+  projectId?: string;
+}
+
+/**
+ * Contents of the CLI configuration file.
+ *
+ * @internal
+ */
+export interface CliConfigFile {
+  /**
+   * Profile used when none is selected.
+   */
+  defaultProfile?: string;
+
+  /**
+   * Profiles by name.
+   */
+  profiles: Record<string, CliProfile>;
+}
+
+/**
+ * Returns the path of the CLI configuration file.
+ *
+ * @param env - Environment variables
+ * @returns `WIIL_CONFIG` when set, otherwise `~/.wiil/config.json`
+ *
+ * @internal
+ */
+export function configPath(env: NodeJS.ProcessEnv): string {
+  return env.WIIL_CONFIG || join(homedir(), '.wiil', 'config.json');
+}
+
+/**
+ * Reads the CLI configuration file.
+ *
+ * @param path - Configuration file path
+ * @returns Stored configuration; empty when the file does not exist
+ *
+ * @throws {@link WiilConfigurationError} - When the file is not valid JSON
+ *
+ * @internal
+ */
+export async function loadConfig(path: string): Promise<CliConfigFile> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { profiles: {} };
+    }
+    throw error;
+  }
+
+  try {
+    const config = JSON.parse(text) as Partial<CliConfigFile>;
+    return { ...config, profiles: config.profiles ?? {} };
+  } catch {
+    throw new WiilConfigurationError(`Invalid CLI configuration file: ${path}`);
+  }
+}
+
+/**
+ * Writes the CLI configuration file, readable only by the current user.
+ *
+ * @param path - Configuration file path
+ * @param config - Configuration to store
+ *
+ * @internal
+ */
+export async function saveConfig(path: string, config: CliConfigFile): Promise<void> {
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await writeFile(path, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 });
+}
+
+/**
+ * Selects the credentials for a command.
+ *
+ * @param config - Stored configuration
+ * @param env - Environment variables
+ * @param name - Profile named with `--profile`
+ * @returns Selected profile
+ *
+ * @throws {@link WiilConfigurationError} - When the named profile does not exist or no API key is available
+ *
+ * @remarks
+ * A profile named with `--profile` wins. Otherwise `WIIL_API_KEY` (with
+ * `WIIL_BASE_URL`) is used when set, then the profile named by `WIIL_PROFILE`,
+ * the configured default profile, and finally the `default` profile.
+ *
+ * @internal
+ */
+export function resolveProfile(config: CliConfigFile, env: NodeJS.ProcessEnv, name?: string): CliProfile {
+  if (name) {
+    const profile = config.profiles[name];
+    if (!profile) {
+      throw new WiilConfigurationError(`Profile "${name}" not found. Run \`wiil profiles list\` to see profiles.`);
+    }
+    return profile;
+  }
+
+  if (env.WIIL_API_KEY) {
+    return { apiKey: env.WIIL_API_KEY, baseUrl: env.WIIL_BASE_URL || undefined };
+  }
+
+  const selected = env.WIIL_PROFILE || config.defaultProfile || DEFAULT_PROFILE;
+  const profile = config.profiles[selected];
+  if (!profile) {
+    throw new WiilConfigurationError(
+      'No API key configured. Set WIIL_API_KEY, or run `wiil profiles add <name>` and enter the key when asked.'
+    );
+  }
+  return profile;
+}
@@ -0,0 +1,78 @@
+/**
+ * @fileoverview Axios-based transport for the HTTP client.
+ * @module client/AxiosTransport
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  createTransportError,
+  toHeaderRecord,
+} from './transport';
+
+/**
+ * Transport that sends requests with axios.
+ *
+ * @remarks
+ * This is the default transport. Every HTTP status resolves as a response so
+ * the SDK can map API errors itself.
+ *
+ * @example
+ * ```typescript
+ * import axios from 'axios';
+ *
+ * // Reuse an axios instance configured with a proxy or custom agent
+ * const client = new WiilClient({
+ *   apiKey: 'your-api-key',
+ *   transport: new AxiosTransport(axios.create({ proxy: { host: 'proxy.local', port: 8080 } }))
+ * });
+ * ```
+ */
+export class AxiosTransport implements Transport {
+  private readonly client: AxiosInstance;
+
+  /**
+   * Creates a new AxiosTransport instance.
+   *
+   * @param client - Optional axios instance to send requests with
+   */
+  constructor(client?: AxiosInstance) {
+    this.client = client ?? axios.create();
+  }
+
+  /**
+   * Sends a request with axios.
+   *
+   * @param request - Request to send
+   * @returns Promise resolving to the response
+   */
+  public async request(request: TransportRequest): Promise<TransportResponse> {
+    try {
+      const response = await this.client.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.body,
+        timeout: request.timeout,
+        signal: request.signal,
+        validateStatus: () => true,
+      });
+
+      return {
+        status: response.status,
+        headers: toHeaderRecord(response.headers, true),
+        data: response.data,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw createTransportError(
+          error.message || 'Network error occurred',
+          error.code ?? 'ERR_NETWORK'
+        );
+      }
+      throw error;
+    }
+  }
+}
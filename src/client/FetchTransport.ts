@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Fetch-based transport for the HTTP client.
+ * @module client/FetchTransport
+ */
+
+import { WiilConfigurationError } from '../errors/WiilError';
+import {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  createTransportError,
+} from './transport';
+
+/**
+ * Options for {@link FetchTransport}.
+ */
+export interface FetchTransportOptions {
+  /**
+   * Fetch implementation to use.
+   *
+   * @defaultValue globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Transport that sends requests with the native `fetch` API.
+ *
+ * @remarks
+ * Use this transport in runtimes without Node.js networking, such as
+ * Cloudflare Workers, Deno, and Bun. Timeouts are enforced with an
+ * `AbortController` and surface as {@link WiilNetworkError} exactly like
+ * the axios transport.
+ *
+ * @example
+ * ```typescript
+ * const client = new WiilClient({
+ *   apiKey: env.WIIL_API_KEY,
+ *   transport: 'fetch'
+ * });
+ * ```
+ */
+export class FetchTransport implements Transport {
+  private readonly fetch: typeof fetch;
+
+  /**
+   * Creates a new FetchTransport instance.
+   *
+   * @param options - Transport options
+   *
+   * @throws {@link WiilConfigurationError} - When no fetch implementation is available
+   */
+  constructor(options: FetchTransportOptions = {}) {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    if (typeof fetchImpl !== 'function') {
+      throw new WiilConfigurationError(
+        'The fetch transport requires a global fetch implementation. Provide one with the fetch option.'
+      );
+    }
+    this.fetch = fetchImpl;
+  }
+
+  /**
+   * Sends a request with fetch.
+   *
+   * @param request - Request to send
+   * @returns Promise resolving to the response
+   */
+  public async request(request: TransportRequest): Promise<TransportResponse> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), request.timeout);
+    const onAbort = () => controller.abort();
+    if (request.signal?.aborted) {
+      controller.abort();
+    }
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await this.fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: serializeBody(request.body),
+        signal: controller.signal,
+      });
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      return {
+        status: response.status,
+        headers,
+        data: parseBody(await response.text()),
+      };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw createTransportError('Request aborted', 'ERR_CANCELED');
+      }
+
+      if (controller.signal.aborted) {
+        throw createTransportError(
+          `timeout of ${request.timeout}ms exceeded`,
+          'ECONNABORTED'
+        );
+      }
+
+      // Runtimes report the underlying socket error either directly or as the cause
+      const failure = error as { code?: unknown; message?: string; cause?: unknown };
+      const source = (
+        typeof failure.code !== 'string' && failure.cause instanceof Error ? failure.cause : failure
+      ) as { code?: unknown; message?: string };
+      const code = typeof source.code === 'string' ? source.code : 'ERR_NETWORK';
+
+      throw createTransportError(
+        source.message || failure.message || 'Network error occurred',
+        code
+      );
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/**
+ * Serializes a request payload for fetch.
+ *
+ * @param body - Request payload
+ * @returns Form data unchanged, a JSON string, or undefined when there is no payload
+ *
+ * @internal
+ */
+function serializeBody(body: unknown): FormData | string | undefined {
+  if (body === undefined) {
+    return undefined;
+  }
+  if (body instanceof FormData) {
+    return body;
+  }
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+/**
+ * Parses a response body, falling back to the raw text when it is not JSON.
+ *
+ * @param text - Response body text
+ * @returns Parsed value or raw text
+ *
+ * @internal
+ */
+function parseBody(text: string): unknown {
+  if (text.length === 0) {
+    return text;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,1071 @@
+/**
+ * @fileoverview Tests for HttpClient.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import nock from 'nock';
+import { z } from 'zod';
+import { HttpClient } from './HttpClient';
+import {
+  WiilAPIError,
+  WiilConfigurationError,
+  WiilNetworkError,
+  WiilValidationError,
+  WiilAbortError,
+  WiilAuthenticationError,
+  WiilNotFoundError,
+  WiilSlotUnavailableError,
+} from '../errors/WiilError';
+import { Transport } from './transport';
+
+const BASE_URL = 'https://api.wiil.io/v1';
+const API_KEY = 'test-api-key';
+
+const success = <T>(data: T) => ({
+  success: true,
+  data,
+  metadata: { timestamp: Date.now(), version: 'v1' },
+});
+
+const failure = (status: number, code: string) => ({
+  success: false,
+  status,
+  code,
+  message: 'Request failed',
+  timestamp: new Date().toISOString(),
+});
+
+const networkError = (code: string, message: string) =>
+  Object.assign(new Error(message), { code });
+
+describe('HttpClient', () => {
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  describe('retry', () => {
+    it('should not retry when no retry policy is configured', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+
+      nock(BASE_URL).get('/projects').reply(503, failure(503, 'UNAVAILABLE'));
+
+      await expect(http.get('/projects')).rejects.toThrow(WiilAPIError);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should retry retryable status codes and report each attempt', async () => {
+      const onRetry = vi.fn();
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { maxAttempts: 3, baseDelayMs: 1, jitter: false, onRetry },
+      });
+
+      nock(BASE_URL)
+        .get('/projects')
+        .reply(503, failure(503, 'UNAVAILABLE'))
+        .get('/projects')
+        .reply(500, failure(500, 'INTERNAL_ERROR'))
+        .get('/projects')
+        .reply(200, success({ id: 'proj_123' }));
+
+      const result = await http.get<{ id: string }>('/projects');
+
+      expect(result.id).toBe('proj_123');
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[0][0]).toMatchObject({
+        method: 'GET',
+        path: '/projects',
+        attempt: 2,
+        maxAttempts: 3,
+        delayMs: 1,
+      });
+      expect(onRetry.mock.calls[1][0]).toMatchObject({ attempt: 3, delayMs: 2 });
+    });
+
+    it('should stop after maxAttempts and throw the last error', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { maxAttempts: 2, baseDelayMs: 1 },
+      });
+
+      nock(BASE_URL)
+        .get('/projects')
+        .times(2)
+        .reply(502, failure(502, 'BAD_GATEWAY'));
+
+      await expect(http.get('/projects')).rejects.toMatchObject({ statusCode: 502 });
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should not retry non-retryable status codes', async () => {
+      const onRetry = vi.fn();
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { baseDelayMs: 1, onRetry },
+      });
+
+      nock(BASE_URL).get('/projects/missing').reply(404, failure(404, 'NOT_FOUND'));
+
+      await expect(http.get('/projects/missing')).rejects.toThrow(WiilAPIError);
+      expect(onRetry).not.toHaveBeenCalled();
+    });
+
+    it('should not retry POST requests without an idempotency key', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { baseDelayMs: 1 },
+        autoIdempotencyKeys: false,
+      });
+
+      nock(BASE_URL).post('/projects').reply(503, failure(503, 'UNAVAILABLE'));
+
+      await expect(http.post('/projects', { name: 'Test' })).rejects.toThrow(WiilAPIError);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should retry POST requests when the method is opted in', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { baseDelayMs: 1, retryableMethods: ['POST'] },
+        autoIdempotencyKeys: false,
+      });
+
+      nock(BASE_URL)
+        .post('/projects')
+        .reply(503, failure(503, 'UNAVAILABLE'))
+        .post('/projects')
+        .reply(200, success({ id: 'proj_123' }));
+
+      const result = await http.post<{ name: string }, { id: string }>('/projects', { name: 'Test' });
+
+      expect(result.id).toBe('proj_123');
+    });
+
+    it('should honor the Retry-After header', async () => {
+      const onRetry = vi.fn();
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { baseDelayMs: 1, onRetry },
+      });
+
+      nock(BASE_URL)
+        .get('/projects')
+        .reply(429, failure(429, 'RATE_LIMITED'), { 'Retry-After': '0.01' })
+        .get('/projects')
+        .reply(200, success([]));
+
+      await http.get('/projects');
+
+      expect(onRetry.mock.calls[0][0].delayMs).toBe(10);
+    });
+
+    it('should give up when Retry-After exceeds maxDelayMs', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { baseDelayMs: 1, maxDelayMs: 1000 },
+      });
+
+      nock(BASE_URL)
+        .get('/projects')
+        .reply(429, failure(429, 'RATE_LIMITED'), { 'Retry-After': '120' });
+
+      await expect(http.get('/projects')).rejects.toMatchObject({
+        statusCode: 429,
+        retryAfter: 120000,
+      });
+    });
+
+    it('should retry retryable network errors', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { baseDelayMs: 1 },
+      });
+
+      nock(BASE_URL)
+        .get('/projects')
+        .replyWithError(networkError('ECONNRESET', 'socket hang up'))
+        .get('/projects')
+        .reply(200, success([]));
+
+      await expect(http.get('/projects')).resolves.toEqual([]);
+    });
+
+    it('should not retry network errors with non-retryable codes', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { baseDelayMs: 1 },
+      });
+
+      nock(BASE_URL)
+        .get('/projects')
+        .replyWithError(networkError('ENOTFOUND', 'getaddrinfo ENOTFOUND'));
+
+      await expect(http.get('/projects')).rejects.toThrow(WiilNetworkError);
+    });
+  });
+
+  describe('idempotency keys', () => {
+    it('should generate an Idempotency-Key header for POST requests', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+
+      nock(BASE_URL)
+        .post('/customers')
+        .matchHeader('Idempotency-Key', /^[0-9a-f-]{36}$/)
+        .reply(200, success({ id: 'cust_123' }));
+
+      await http.post('/customers', { firstname: 'John' });
+
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should generate a new key for each call', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+      const keys: string[] = [];
+
+      nock(BASE_URL)
+        .post('/customers')
+        .times(2)
+        .reply(function () {
+          keys.push(this.req.headers['idempotency-key'] as string);
+          return [200, success({ id: 'cust_123' })];
+        });
+
+      await http.post('/customers', { firstname: 'John' });
+      await http.post('/customers', { firstname: 'John' });
+
+      expect(keys).toHaveLength(2);
+      expect(keys[0]).not.toBe(keys[1]);
+    });
+
+    it('should send a caller-provided key', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        autoIdempotencyKeys: false,
+      });
+
+      nock(BASE_URL)
+        .post('/service-appointments')
+        .matchHeader('Idempotency-Key', 'booking-42')
+        .reply(200, success({ id: 'appt_123' }));
+
+      await http.post('/service-appointments', { customerId: 'cust_1' }, undefined, {
+        idempotencyKey: 'booking-42',
+      });
+
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should not send a key when automatic generation is disabled', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        autoIdempotencyKeys: false,
+      });
+
+      nock(BASE_URL)
+        .post('/customers')
+        .reply(function () {
+          return [200, success({ key: this.req.headers['idempotency-key'] ?? null })];
+        });
+
+      const result = await http.post<object, { key: string | null }>('/customers', {});
+
+      expect(result.key).toBeNull();
+    });
+
+    it('should reuse the same key when retrying a POST request', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { baseDelayMs: 1 },
+      });
+      const keys: string[] = [];
+
+      nock(BASE_URL)
+        .post('/outbound-calls')
+        .reply(function () {
+          keys.push(this.req.headers['idempotency-key'] as string);
+          return [503, failure(503, 'UNAVAILABLE')];
+        })
+        .post('/outbound-calls')
+        .reply(function () {
+          keys.push(this.req.headers['idempotency-key'] as string);
+          return [200, success({ id: 'call_123' })];
+        });
+
+      await http.post('/outbound-calls', { to: '+12125551234' });
+
+      expect(keys).toHaveLength(2);
+      expect(keys[0]).toBe(keys[1]);
+    });
+  });
+
+  describe('middleware', () => {
+    const createClient = () =>
+      new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+
+    it('should let middleware add headers and rewrite paths', async () => {
+      const http = createClient();
+      http.use({
+        onRequest: (request) => ({
+          ...request,
+          path: request.path.replace('/v0/', '/'),
+          headers: { ...request.headers, 'X-Correlation-Id': 'corr_123' },
+        }),
+      });
+
+      nock(BASE_URL)
+        .get('/customers/cust_123')
+        .matchHeader('X-Correlation-Id', 'corr_123')
+        .matchHeader('X-Wiil-Api-Key', API_KEY)
+        .reply(200, success({ id: 'cust_123' }));
+
+      const result = await http.get<{ id: string }>('/v0/customers/cust_123');
+
+      expect(result.id).toBe('cust_123');
+    });
+
+    it('should run onRequest in order and onResponse in reverse order', async () => {
+      const http = createClient();
+      const calls: string[] = [];
+      http.use({
+        onRequest: () => { calls.push('first:request'); },
+        onResponse: () => { calls.push('first:response'); },
+      });
+      http.use({
+        onRequest: () => { calls.push('second:request'); },
+        onResponse: () => { calls.push('second:response'); },
+      });
+
+      nock(BASE_URL).get('/projects').reply(200, success([]));
+
+      await http.get('/projects');
+
+      expect(calls).toEqual([
+        'first:request',
+        'second:request',
+        'second:response',
+        'first:response',
+      ]);
+    });
+
+    it('should share context between stages', async () => {
+      const http = createClient();
+      let elapsed: number | undefined;
+      http.use({
+        onRequest: (request) => {
+          request.context.startedAt = Date.now();
+        },
+        onResponse: (_response, request) => {
+          elapsed = Date.now() - (request.context.startedAt as number);
+        },
+      });
+
+      nock(BASE_URL).get('/projects').reply(200, success([]));
+
+      await http.get('/projects');
+
+      expect(elapsed).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should short-circuit with a response returned from onRequest', async () => {
+      const http = createClient();
+      const onResponse = vi.fn();
+      http.use({
+        onRequest: () => ({ status: 200, headers: {}, data: success({ id: 'cached' }) }),
+        onResponse,
+      });
+
+      const result = await http.get<{ id: string }>('/projects/proj_123');
+
+      expect(result.id).toBe('cached');
+      expect(onResponse).toHaveBeenCalledOnce();
+    });
+
+    it('should let onResponse replace the response', async () => {
+      const http = createClient();
+      http.use({
+        onResponse: (response) => ({
+          ...response,
+          data: { ...response.data, data: { id: 'replaced' } },
+        }),
+      });
+
+      nock(BASE_URL).get('/projects/proj_123').reply(200, success({ id: 'proj_123' }));
+
+      const result = await http.get<{ id: string }>('/projects/proj_123');
+
+      expect(result.id).toBe('replaced');
+    });
+
+    it('should pass mapped errors to onError', async () => {
+      const http = createClient();
+      const onError = vi.fn();
+      http.use({ onError });
+
+      nock(BASE_URL).get('/projects/missing').reply(404, failure(404, 'NOT_FOUND'));
+
+      await expect(http.get('/projects/missing')).rejects.toThrow(WiilAPIError);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(WiilAPIError);
+      expect(onError.mock.calls[0][1]).toMatchObject({ method: 'GET', path: '/projects/missing' });
+    });
+
+    it('should let onError recover with a response or replace the error', async () => {
+      const http = createClient();
+      http.use({
+        onError: (error) => new Error(`wrapped: ${error.message}`),
+      });
+      http.use({
+        onError: (error, request) =>
+          request.path === '/projects/fallback'
+            ? { status: 200, headers: {}, data: success({ id: 'fallback' }) }
+            : error,
+      });
+
+      nock(BASE_URL)
+        .get('/projects/fallback')
+        .reply(503, failure(503, 'UNAVAILABLE'))
+        .get('/projects/other')
+        .reply(503, failure(503, 'UNAVAILABLE'));
+
+      await expect(http.get('/projects/fallback')).resolves.toEqual({ id: 'fallback' });
+      await expect(http.get('/projects/other')).rejects.toThrow('wrapped: Request failed');
+    });
+
+    it('should run middleware for each retry attempt', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { baseDelayMs: 1 },
+      });
+      const attempts: number[] = [];
+      http.use({ onRequest: (request) => { attempts.push(request.attempt); } });
+
+      nock(BASE_URL)
+        .get('/projects')
+        .reply(503, failure(503, 'UNAVAILABLE'))
+        .get('/projects')
+        .reply(200, success([]));
+
+      await http.get('/projects');
+
+      expect(attempts).toEqual([1, 2]);
+    });
+  });
+
+  describe.each(['axios', 'fetch'] as const)('%s transport', (transport) => {
+    const createClient = (timeout = 5000) =>
+      new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout, transport });
+
+    it('should send the API key and JSON payload and unwrap the response', async () => {
+      const http = createClient();
+
+      nock(BASE_URL)
+        .post('/projects', { name: 'Production' })
+        .matchHeader('X-Wiil-Api-Key', API_KEY)
+        .matchHeader('Content-Type', 'application/json')
+        .reply(201, success({ id: 'proj_123', name: 'Production' }));
+
+      const result = await http.post<{ name: string }, { id: string }>('/projects', {
+        name: 'Production',
+      });
+
+      expect(result.id).toBe('proj_123');
+    });
+
+    it('should send form data as multipart', async () => {
+      const http = createClient();
+
+      nock(BASE_URL)
+        .post('/uploads', (body: string) => body.includes('filename="faq.md"') && body.includes('# FAQ'))
+        .matchHeader('Content-Type', /^multipart\/form-data; boundary=/)
+        .reply(201, success({ id: 'upload_123' }));
+
+      const form = new FormData();
+      form.append('file', new Blob(['# FAQ'], { type: 'text/markdown' }), 'faq.md');
+      const result = await http.postForm<{ id: string }>('/uploads', form);
+
+      expect(result.id).toBe('upload_123');
+    });
+
+    it('should map API error responses to WiilAPIError', async () => {
+      const http = createClient();
+
+      nock(BASE_URL)
+        .get('/projects/missing')
+        .reply(404, { ...failure(404, 'NOT_FOUND'), meta: { id: 'missing' } }, { 'Retry-After': '2' });
+
+      const error = await http.get('/projects/missing').catch((e) => e);
+
+      expect(error).toBeInstanceOf(WiilAPIError);
+      expect(error).toMatchObject({
+        message: 'Request failed',
+        statusCode: 404,
+        code: 'NOT_FOUND',
+        details: { id: 'missing' },
+        retryAfter: 2000,
+      });
+    });
+
+    it('should map non-standard error responses to WiilAPIError', async () => {
+      const http = createClient();
+
+      nock(BASE_URL).get('/projects').reply(502);
+
+      const error = await http.get('/projects').catch((e) => e);
+
+      expect(error).toBeInstanceOf(WiilAPIError);
+      expect(error).toMatchObject({
+        message: 'Request failed with status 502',
+        statusCode: 502,
+        code: 'UNKNOWN_ERROR',
+      });
+    });
+
+    it('should map unsuccessful 2xx responses to WiilAPIError', async () => {
+      const http = createClient();
+
+      nock(BASE_URL).get('/projects').reply(200, failure(422, 'INVALID_STATE'));
+
+      await expect(http.get('/projects')).rejects.toMatchObject({
+        statusCode: 422,
+        code: 'INVALID_STATE',
+      });
+    });
+
+    it('should attach the request ID to API errors', async () => {
+      const http = createClient();
+
+      nock(BASE_URL)
+        .get('/projects/missing')
+        .reply(404, failure(404, 'NOT_FOUND'), { 'X-Request-Id': 'req_abc123' });
+
+      await expect(http.get('/projects/missing')).rejects.toMatchObject({ requestId: 'req_abc123' });
+    });
+
+    it('should map error responses to the matching error subclass', async () => {
+      const http = createClient();
+
+      nock(BASE_URL)
+        .get('/customers/missing')
+        .reply(404, failure(404, 'NOT_FOUND'))
+        .get('/customers')
+        .reply(401, { message: 'Unauthorized' });
+
+      await expect(http.get('/customers/missing')).rejects.toBeInstanceOf(WiilNotFoundError);
+      await expect(http.get('/customers')).rejects.toBeInstanceOf(WiilAuthenticationError);
+    });
+
+    it('should map unsuccessful 2xx responses to the matching error subclass', async () => {
+      const http = createClient();
+
+      nock(BASE_URL)
+        .post('/service-appointments')
+        .reply(200, {
+          ...failure(409, 'SLOT_UNAVAILABLE'),
+          meta: { errors: [{ field: 'startTime', message: 'Slot is already booked' }] },
+        });
+
+      const error = await http.post('/service-appointments', {}).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WiilSlotUnavailableError);
+      expect(error.fieldErrors).toEqual([{ field: 'startTime', message: 'Slot is already booked' }]);
+    });
+
+    it('should map connection failures to WiilNetworkError', async () => {
+      const http = createClient();
+
+      nock(BASE_URL)
+        .get('/projects')
+        .replyWithError(networkError('ECONNRESET', 'socket hang up'));
+
+      const error = await http.get('/projects').catch((e) => e);
+
+      expect(error).toBeInstanceOf(WiilNetworkError);
+      expect(error.details).toMatchObject({ code: 'ECONNRESET' });
+    });
+
+    it('should map timeouts to WiilNetworkError', async () => {
+      const http = createClient(20);
+
+      nock(BASE_URL).get('/projects').delay(200).reply(200, success([]));
+
+      const error = await http.get('/projects').catch((e) => e);
+
+      expect(error).toBeInstanceOf(WiilNetworkError);
+      expect(error.message).toBe('Request timeout');
+      expect(error.details).toMatchObject({ code: 'ECONNABORTED' });
+    });
+  });
+
+  describe('custom transport', () => {
+    it('should send requests through a custom transport', async () => {
+      const transport: Transport = {
+        request: vi.fn().mockResolvedValue({
+          status: 200,
+          headers: {},
+          data: success({ id: 'proj_123' }),
+        }),
+      };
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000, transport });
+
+      const result = await http.get<{ id: string }>('/projects/proj_123', { timeout: 1000 });
+
+      expect(result.id).toBe('proj_123');
+      expect(transport.request).toHaveBeenCalledWith({
+        method: 'GET',
+        url: `${BASE_URL}/projects/proj_123`,
+        headers: { 'X-Wiil-Api-Key': API_KEY },
+        body: undefined,
+        timeout: 1000,
+      });
+    });
+
+    it('should reject unknown transport names', () => {
+      expect(
+        () => new HttpClient({
+          apiKey: API_KEY,
+          baseUrl: BASE_URL,
+          timeout: 5000,
+          transport: 'xhr' as never,
+        })
+      ).toThrow(WiilConfigurationError);
+    });
+  });
+
+  describe('response validation', () => {
+    const ProjectSchema = z.object({
+      id: z.string(),
+      createdAt: z.coerce.date(),
+      isDefault: z.boolean().default(false),
+    });
+
+    const driftingProject = { id: 123, createdAt: 1700000000000 };
+
+    it('should return responses unchanged when validation is off', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+
+      nock(BASE_URL).get('/projects/proj_123').reply(200, success(driftingProject));
+
+      const result = await http.get('/projects/proj_123', { responseSchema: ProjectSchema });
+
+      expect(result).toEqual(driftingProject);
+    });
+
+    it('should apply parsed dates and defaults to valid responses', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        validateResponses: 'strict',
+      });
+
+      nock(BASE_URL)
+        .get('/projects/proj_123')
+        .reply(200, success({ id: 'proj_123', createdAt: 1700000000000 }));
+
+      const result = await http.get<z.infer<typeof ProjectSchema>>('/projects/proj_123', {
+        responseSchema: ProjectSchema,
+      });
+
+      expect(result.createdAt).toEqual(new Date(1700000000000));
+      expect(result.isDefault).toBe(false);
+    });
+
+    it('should report drift and return the raw response in warn mode', async () => {
+      const onResponseDrift = vi.fn();
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        validateResponses: 'warn',
+        onResponseDrift,
+      });
+
+      nock(BASE_URL).get('/projects/proj_123').reply(200, success(driftingProject));
+
+      const result = await http.get('/projects/proj_123', { responseSchema: ProjectSchema });
+
+      expect(result).toEqual(driftingProject);
+      expect(onResponseDrift).toHaveBeenCalledTimes(1);
+      expect(onResponseDrift).toHaveBeenCalledWith({
+        method: 'GET',
+        path: '/projects/proj_123',
+        issues: [expect.objectContaining({ path: ['id'] })],
+        data: driftingProject,
+      });
+    });
+
+    it('should log drift with console.warn when no hook is configured', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        validateResponses: 'warn',
+      });
+
+      nock(BASE_URL).get('/projects/proj_123').reply(200, success(driftingProject));
+
+      await http.get('/projects/proj_123', { responseSchema: ProjectSchema });
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+
+    it('should reject drifting responses in strict mode', async () => {
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        validateResponses: 'strict',
+        onResponseDrift: () => undefined,
+      });
+
+      nock(BASE_URL)
+        .post('/projects')
+        .reply(200, success(driftingProject));
+
+      await expect(
+        http.post('/projects', { name: 'Demo' }, undefined, { responseSchema: ProjectSchema })
+      ).rejects.toThrow(WiilValidationError);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should reject without sending when the signal is already aborted', async () => {
+      const request = vi.fn();
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        transport: { request },
+      });
+
+      const controller = new AbortController();
+      controller.abort('shutting down');
+
+      const error = await http.get('/projects', { signal: controller.signal }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(WiilAbortError);
+      expect(error.details).toBe('shutting down');
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it.each(['axios', 'fetch'] as const)('should abort an in-flight %s request', async (transport) => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000, transport });
+
+      nock(BASE_URL).get('/projects').delay(1000).reply(200, success([]));
+
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(http.get('/projects', { signal: controller.signal })).rejects.toThrow(
+        WiilAbortError
+      );
+    });
+
+    it('should stop waiting between retries when aborted', async () => {
+      const onRetry = vi.fn();
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        retry: { maxAttempts: 3, baseDelayMs: 10000, jitter: false, onRetry },
+      });
+
+      nock(BASE_URL).get('/projects').reply(503, failure(503, 'UNAVAILABLE'));
+
+      const controller = new AbortController();
+      const pending = http.get('/projects', { signal: controller.signal });
+      await vi.waitFor(() => expect(onRetry).toHaveBeenCalledTimes(1));
+      controller.abort();
+
+      await expect(pending).rejects.toThrow(WiilAbortError);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should send per-call headers and timeout to the transport', async () => {
+      const transport: Transport = {
+        request: vi.fn().mockResolvedValue({ status: 200, headers: {}, data: success([]) }),
+      };
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000, transport });
+      const controller = new AbortController();
+
+      await http.get('/projects', {
+        signal: controller.signal,
+        timeout: 250,
+        headers: { 'X-Request-Source': 'checkout' },
+      });
+
+      expect(transport.request).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: { 'X-Request-Source': 'checkout', 'X-Wiil-Api-Key': API_KEY },
+          timeout: 250,
+          signal: controller.signal,
+        })
+      );
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should attach rate-limit headers to errors and remember the latest state', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+
+      nock(BASE_URL)
+        .get('/projects')
+        .reply(429, failure(429, 'RATE_LIMITED'), {
+          'X-RateLimit-Limit': '100',
+          'X-RateLimit-Remaining': '0',
+          'X-RateLimit-Reset': '1700000000',
+          'Retry-After': '3',
+        });
+
+      const error = await http.get('/projects').catch((e) => e);
+
+      expect(error).toBeInstanceOf(WiilAPIError);
+      expect(error.rateLimit).toEqual({
+        limit: 100,
+        remaining: 0,
+        resetAt: 1700000000000,
+        retryAfter: 3000,
+      });
+      expect(http.rateLimit).toEqual(error.rateLimit);
+    });
+
+    it('should expose rate-limit headers on responses seen by middleware', async () => {
+      const onResponse = vi.fn();
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+      http.use({ onResponse });
+
+      nock(BASE_URL)
+        .get('/projects')
+        .reply(200, success([]), { 'X-RateLimit-Limit': '100', 'X-RateLimit-Remaining': '99' });
+
+      await http.get('/projects');
+
+      expect(onResponse.mock.calls[0][0].rateLimit).toMatchObject({ limit: 100, remaining: 99 });
+    });
+
+    it('should queue requests beyond the client-side limit instead of failing them', async () => {
+      const request = vi.fn().mockResolvedValue({ status: 200, headers: {}, data: success([]) });
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        transport: { request },
+        rateLimit: { requestsPerSecond: 20, burst: 1 },
+      });
+
+      const startedAt = Date.now();
+      await Promise.all([http.get('/projects'), http.get('/projects'), http.get('/projects')]);
+
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+    });
+  });
+
+  describe('logging', () => {
+    const createLoggerSpy = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+    it('should not log requests unless debug is enabled', async () => {
+      const logger = createLoggerSpy();
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000, logger });
+
+      nock(BASE_URL).get('/projects').reply(200, success([]));
+
+      await http.get('/projects');
+
+      expect(logger.debug).not.toHaveBeenCalled();
+    });
+
+    it('should log method, path, status, latency, and a masked request ID in debug mode', async () => {
+      const logger = createLoggerSpy();
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000, logger, debug: true });
+
+      nock(BASE_URL)
+        .get('/projects')
+        .reply(200, success([]), { 'X-Request-Id': 'req_8f14e45fceea167a' });
+
+      await http.get('/projects');
+
+      expect(logger.debug).toHaveBeenCalledTimes(1);
+      const [message, fields] = logger.debug.mock.calls[0];
+      expect(message).toMatch(/^GET \/projects 200 \d+ms$/);
+      expect(fields).toMatchObject({ method: 'GET', path: '/projects', status: 200, requestId: '****167a' });
+      expect(fields.durationMs).toEqual(expect.any(Number));
+    });
+
+    it('should log the route instead of identifiers in the path', async () => {
+      const logger = createLoggerSpy();
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000, logger, debug: true });
+
+      nock(BASE_URL).get('/customers/by-email/jane@example.com').reply(200, success({}));
+
+      await http.get('/customers/by-email/jane@example.com');
+
+      const [message, fields] = logger.debug.mock.calls[0];
+      expect(message).toMatch(/^GET \/customers\/by-email\/:id 200 \d+ms$/);
+      expect(fields.path).toBe('/customers/by-email/:id');
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain('jane@example.com');
+    });
+
+    it('should never include the API key in log output', async () => {
+      const logger = createLoggerSpy();
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000, logger, debug: true });
+      http.use({
+        onRequest: (request) => {
+          http.logger.debug(`sending with ${API_KEY}`, { headers: { 'X-Wiil-Api-Key': API_KEY } });
+          return request;
+        },
+      });
+
+      nock(BASE_URL).get('/projects').reply(200, success([]));
+
+      await http.get('/projects');
+
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain(API_KEY);
+    });
+
+    it('should report response drift through the logger', async () => {
+      const logger = createLoggerSpy();
+      const http = new HttpClient({
+        apiKey: API_KEY,
+        baseUrl: BASE_URL,
+        timeout: 5000,
+        logger,
+        validateResponses: 'warn',
+      });
+
+      nock(BASE_URL).get('/projects/1').reply(200, success({ id: 1 }));
+
+      await http.get('/projects/1', { responseSchema: z.object({ id: z.string() }) });
+
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+      expect(logger.warn.mock.calls[0][0]).toContain('/projects/:id');
+    });
+  });
+
+  describe('request URLs', () => {
+    it('should accept absolute URLs on the API origin', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+
+      const scope = nock('https://api.wiil.io', { reqheaders: { 'X-Wiil-Api-Key': API_KEY } })
+        .get('/v1/customers')
+        .query({ page: '2' })
+        .reply(200, success([]));
+
+      await http.get('https://api.wiil.io/v1/customers?page=2');
+
+      expect(scope.isDone()).toBe(true);
+    });
+
+    it('should refuse absolute URLs on another origin without sending the API key', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+
+      const scope = nock('https://evil.example.com').get('/collect').reply(200, success([]));
+
+      await expect(http.get('https://evil.example.com/collect')).rejects.toBeInstanceOf(WiilConfigurationError);
+      expect(scope.isDone()).toBe(false);
+    });
+  });
+
+  describe('project scoping', () => {
+    it('should send the configured project with every request', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000, projectId: 'proj_1' });
+
+      const scope = nock(BASE_URL, { reqheaders: { 'X-Wiil-Project-Id': 'proj_1' } })
+        .get('/customers')
+        .reply(200, success([]));
+
+      await http.get('/customers');
+
+      expect(scope.isDone()).toBe(true);
+    });
+
+    it('should scope only requests made through the project view', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+      const scoped = http.withProject('proj_2');
+
+      const scopedRequest = nock(BASE_URL, { reqheaders: { 'X-Wiil-Project-Id': 'proj_2' } })
+        .get('/customers')
+        .reply(200, success([]));
+      const unscopedRequest = nock(BASE_URL, { badheaders: ['X-Wiil-Project-Id'] })
+        .get('/customers')
+        .reply(200, success([]));
+
+      await scoped.get('/customers');
+      await http.get('/customers');
+
+      expect(scopedRequest.isDone()).toBe(true);
+      expect(unscopedRequest.isDone()).toBe(true);
+    });
+
+    it('should resolve a lazy project once', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+      const resolveProject = vi.fn(async () => 'proj_default');
+      const scoped = http.withProject(resolveProject);
+
+      const scope = nock(BASE_URL, { reqheaders: { 'X-Wiil-Project-Id': 'proj_default' } })
+        .get('/customers')
+        .times(2)
+        .reply(200, success([]));
+
+      await Promise.all([scoped.get('/customers'), scoped.get('/customers')]);
+
+      expect(scope.isDone()).toBe(true);
+      expect(resolveProject).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve a lazy project again after it fails', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 });
+      const resolveProject = vi
+        .fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new Error('lookup failed'))
+        .mockResolvedValueOnce('proj_default');
+      const scoped = http.withProject(resolveProject);
+
+      nock(BASE_URL).get('/customers').reply(200, success([]));
+
+      await expect(scoped.get('/customers')).rejects.toThrow('lookup failed');
+      await scoped.get('/customers');
+
+      expect(resolveProject).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let a request override the project header', async () => {
+      const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000, projectId: 'proj_1' });
+
+      const scope = nock(BASE_URL, { reqheaders: { 'X-Wiil-Project-Id': 'proj_other' } })
+        .get('/customers')
+        .reply(200, success([]));
+
+      await http.get('/customers', { headers: { 'X-Wiil-Project-Id': 'proj_other' } });
+
+      expect(scope.isDone()).toBe(true);
+    });
+  });
+});
@@ -3,14 +3,79 @@
  * @module client/HttpClient
  */
 
-import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from 'axios';
 import { ZodType } from 'zod';
 import {
+  WiilError,
   WiilAPIError,
+  WiilConfigurationError,
   WiilNetworkError,
   WiilValidationError,
+  WiilAbortError,
+  WiilAuthenticationError,
+  createAPIError,
 } from '../errors/WiilError';
-import { WiilClientConfig, APIResponse, APIErrorResponse } from './types';
+import {
+  ResolvedClientConfig,
+  APIResponse,
+  APIErrorResponse,
+  HttpMethod,
+  RequestOptions,
+  ResponseDriftEvent,
+  ResponseValidationMode,
+  RateLimitInfo,
+} from './types';
+import {
+  RetryPolicy,
+  resolveRetryPolicy,
+  isRetryableError,
+  getRetryDelay,
+  parseRetryAfter,
+} from './retry';
+import { sleep, throwIfAborted } from './abort';
+import { RateLimiter, parseRateLimitHeaders } from './rate-limit';
+import { WiilLogger, REQUEST_ID_HEADER, createLogger, redactId, redactPath } from './logger';
+import { CredentialCache, activeCredentials } from './credentials';
+import { Telemetry } from './telemetry';
+import { IDEMPOTENCY_KEY_HEADER, generateIdempotencyKey } from './idempotency';
+import {
+  WiilMiddleware,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  isMiddlewareResponse,
+} from './middleware';
+import {
+  Transport,
+  TransportResponse,
+  createTransport,
+  toHeaderRecord,
+} from './transport';
+
+/**
+ * Request header carrying the project a request is scoped to.
+ *
+ * @internal
+ */
+export const PROJECT_ID_HEADER = 'X-Wiil-Project-Id';
+
+/**
+ * Request configuration accepted by the HTTP client methods.
+ */
+export interface HttpRequestConfig extends RequestOptions {
+  /**
+   * Schema for the response data, applied according to the client's
+   * `validateResponses` mode.
+   *
+   * @internal
+   */
+  responseSchema?: ZodType;
+}
+
+/**
+ * Request configuration including the payload.
+ *
+ * @internal
+ */
+type RequestConfig = HttpRequestConfig & { data?: unknown };
 
 /**
  * HTTP client for communicating with the WIIL Platform API.
@@ -23,8 +88,33 @@ import { WiilClientConfig, APIResponse, APIErrorResponse } from './types';
  * @internal
  */
 export class HttpClient {
-  private readonly client: AxiosInstance;
-  private readonly apiKey: string;
+  private readonly transport: Transport;
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+  private readonly credentials: CredentialCache;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly autoIdempotencyKeys: boolean;
+  private readonly middleware: WiilMiddleware[] = [];
+  private readonly validateResponses: ResponseValidationMode;
+  private readonly onResponseDrift: (event: ResponseDriftEvent) => void;
+  private readonly rateLimiter?: RateLimiter;
+  private lastRateLimit?: RateLimitInfo;
+  private responseListener?: (response: MiddlewareResponse) => void;
+  private resolveProjectId?: () => Promise<string>;
+
+  /**
+   * Logger with debug gating and API key redaction applied.
+   *
+   * @internal
+   */
+  public readonly logger: WiilLogger;
+
+  /**
+   * OpenTelemetry instrumentation, when configured.
+   *
+   * @internal
+   */
+  public readonly telemetry?: Telemetry;
 
   /**
    * Creates a new HttpClient instance.
@@ -33,156 +123,600 @@ export class HttpClient {
    *
    * @internal
    */
-  constructor(config: Required<WiilClientConfig>) {
-    this.apiKey = config.apiKey;
-
-    this.client = axios.create({
-      baseURL: config.baseUrl,
-      timeout: config.timeout,
-      headers: {
-        'X-Wiil-Api-Key': this.apiKey,
-      },
+  constructor(config: ResolvedClientConfig) {
+    // The client validates that one of these is set
+    this.credentials = new CredentialCache(config.credentials ?? config.apiKey!);
+    this.baseUrl = config.baseUrl;
+    this.timeout = config.timeout;
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.autoIdempotencyKeys = config.autoIdempotencyKeys ?? true;
+    this.transport = createTransport(config.transport);
+    this.validateResponses = config.validateResponses ?? 'off';
+    this.logger = createLogger(config.logger, {
+      debug: config.debug ?? false,
+      secrets: () => [
+        ...(config.apiKey ? [config.apiKey] : []),
+        ...activeCredentials(this.credentials).secrets(),
+      ],
     });
-
-    this.setupInterceptors();
+    this.onResponseDrift = config.onResponseDrift ?? ((event) => this.reportResponseDrift(event));
+    this.rateLimiter = config.rateLimit ? new RateLimiter(config.rateLimit) : undefined;
+    this.telemetry = config.telemetry ? new Telemetry(config.telemetry) : undefined;
+    if (config.projectId) {
+      const projectId = config.projectId;
+      this.resolveProjectId = async () => projectId;
+    }
   }
 
   /**
-   * Sets up axios request and response interceptors.
+   * Rate-limit state from the most recent response that reported it.
    *
-   * @remarks
-   * - Request interceptor: Ensures API key header is present
-   * - Response interceptor: Transforms API responses and handles errors
-   *
-   * @private
+   * @internal
    */
-  private setupInterceptors(): void {
-    // Request interceptor
-    this.client.interceptors.request.use(
-      (config) => {
-        // Ensure API key is always present
-        config.headers['X-Wiil-Api-Key'] = this.apiKey;
-        return config;
-      },
-      (error) => {
-        return Promise.reject(this.handleError(error));
-      }
-    );
-
-    // Response interceptor
-    this.client.interceptors.response.use(
-      (response) => {
-        // Check if the response has success: false even with 2xx status code
-        if (response.data && !response.data.success) {
-          // Create an error from the successful HTTP response with unsuccessful API result
-          const errorData = response.data as APIErrorResponse;
-          const error = new WiilAPIError(
-            errorData.message || 'Request failed',
-            errorData.status || response.status,
-            errorData.code || 'API_ERROR',
-            errorData.meta
-          );
-          return Promise.reject(error);
-        }
-        return response;
-      },
-      (error) => {
-        return Promise.reject(this.handleError(error));
-      }
-    );
+  public get rateLimit(): RateLimitInfo | undefined {
+    return this.lastRateLimit;
   }
 
   /**
-   * Handles errors from axios requests.
+   * Maps a transport response to the API response, or to an error when the
+   * request failed.
    *
-   * @param error - Error from axios
-   * @returns Transformed WiilError
+   * @param response - Response from the transport
+   * @param rateLimit - Rate-limit state parsed from the response headers
+   * @returns The API response
+   *
+   * @throws {@link WiilAPIError} - When the status is not 2xx or the API result is unsuccessful,
+   * as the subclass matching the error code or status
    *
    * @private
    */
-  private handleError(error: unknown): Error {
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError<APIErrorResponse>;
-
-      // Network errors (no response received)
-      if (!axiosError.response) {
-        if (axiosError.code === 'ECONNABORTED') {
-          return new WiilNetworkError('Request timeout', {
-            originalError: axiosError.message,
-          });
-        }
-
-        return new WiilNetworkError(
-          axiosError.message || 'Network error occurred',
-          {
-            code: axiosError.code,
-            originalError: axiosError.message,
-          }
-        );
-      }
+  private handleResponse(
+    response: TransportResponse,
+    rateLimit?: RateLimitInfo
+  ): MiddlewareResponse {
+    const { status, headers } = response;
+    const requestId = headers[REQUEST_ID_HEADER];
 
-      // API errors (response received with error status)
-      const { status, data } = axiosError.response;
+    if (status < 200 || status >= 300) {
+      const data = response.data as APIErrorResponse | undefined;
+      const retryAfter = parseRetryAfter(headers['retry-after']);
 
       if (data && !data.success) {
-        return new WiilAPIError(
+        throw createAPIError(
           data.message || 'Request failed',
           data.status || status,
           data.code || 'API_ERROR',
-          data.meta
+          data.meta,
+          { retryAfter, rateLimit, requestId }
         );
       }
 
       // Fallback for non-standard error responses
-      return new WiilAPIError(
+      throw createAPIError(
         `Request failed with status ${status}`,
         status,
         'UNKNOWN_ERROR',
-        data
+        data,
+        { retryAfter, rateLimit, requestId }
       );
     }
 
-    // Non-axios errors
-    if (error instanceof Error) {
+    // Check if the response has success: false even with 2xx status code
+    const data = response.data as APIResponse<unknown> | APIErrorResponse;
+    if (data && !data.success) {
+      // Create an error from the successful HTTP response with unsuccessful API result
+      const errorData = data as APIErrorResponse;
+      throw createAPIError(
+        errorData.message || 'Request failed',
+        errorData.status || status,
+        errorData.code || 'API_ERROR',
+        errorData.meta,
+        { rateLimit, requestId }
+      );
+    }
+
+    return { status, headers, data: data as APIResponse<unknown>, rateLimit };
+  }
+
+  /**
+   * Handles errors thrown by the transport.
+   *
+   * @param error - Error from the transport
+   * @returns Transformed WiilError
+   *
+   * @private
+   */
+  private handleError(error: unknown): Error {
+    if (error instanceof WiilError) {
       return error;
     }
 
+    // Network errors (no response received)
+    if (error instanceof Error) {
+      const code = (error as { code?: string }).code;
+
+      if (code === 'ECONNABORTED') {
+        return new WiilNetworkError('Request timeout', {
+          code,
+          originalError: error.message,
+        });
+      }
+
+      return new WiilNetworkError(error.message || 'Network error occurred', {
+        code,
+        originalError: error.message,
+      });
+    }
+
     return new WiilAPIError('An unknown error occurred', undefined, 'UNKNOWN_ERROR', error);
   }
 
   /**
-   * Makes a GET request to the API.
+   * Default response drift handler used when none is configured.
+   *
+   * @param event - Response drift details
+   *
+   * @private
+   */
+  private reportResponseDrift(event: ResponseDriftEvent): void {
+    this.logger.warn(
+      `[wiil-js] Response from ${event.method} ${redactPath(event.path)} does not match the expected schema`,
+      { issues: event.issues }
+    );
+  }
+
+  /**
+   * Creates a view of this client that reports each successful response.
+   *
+   * @param listener - Called with every response received through the view
+   * @returns Client sharing this client's configuration, middleware, and rate-limit state
+   *
+   * @internal
+   */
+  public withResponseListener(listener: (response: MiddlewareResponse) => void): HttpClient {
+    return this.createView({ responseListener: { value: listener } });
+  }
+
+  /**
+   * Creates a view of this client whose requests are scoped to a project.
+   *
+   * @param projectId - Project ID, or a function resolving it before the first request
+   * @returns Client sharing this client's configuration, middleware, and rate-limit state
+   *
+   * @remarks
+   * A resolver is called once; if it fails, the next request calls it again.
+   *
+   * @internal
+   */
+  public withProject(projectId: string | (() => Promise<string>)): HttpClient {
+    if (typeof projectId === 'string') {
+      return this.createView({ resolveProjectId: { value: async () => projectId } });
+    }
+
+    let resolved: Promise<string> | undefined;
+    const resolveProjectId = () => {
+      resolved ??= projectId().catch((error) => {
+        resolved = undefined;
+        throw error;
+      });
+      return resolved;
+    };
+    return this.createView({ resolveProjectId: { value: resolveProjectId } });
+  }
+
+  /**
+   * Creates a view of this client with some fields overridden.
+   *
+   * @param properties - Property descriptors of the overridden fields
+   * @returns Client inheriting every other field from this client
+   *
+   * @private
+   */
+  private createView(properties: PropertyDescriptorMap): HttpClient {
+    return Object.create(this, {
+      ...properties,
+      // Keep rate-limit state on this client so the view's responses update it
+      lastRateLimit: {
+        get: () => this.lastRateLimit,
+        set: (value?: RateLimitInfo) => {
+          this.lastRateLimit = value;
+        },
+      },
+    });
+  }
+
+  /**
+   * Registers a middleware in the request pipeline.
+   *
+   * @param middleware - Middleware to add after any already registered
+   *
+   * @internal
+   */
+  public use(middleware: WiilMiddleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Sends a request, retrying failed attempts according to the retry policy.
    *
    * @typeParam T - Expected response data type
+   * @param method - HTTP method
    * @param path - API endpoint path
-   * @param config - Optional axios request configuration
-   * @returns Promise resolving to the response data
+   * @param config - Optional request configuration
+   * @returns Promise resolving to the API response
+   *
+   * @remarks
+   * POST requests are only retried when they carry an idempotency key, unless
+   * the retry policy explicitly lists POST as retryable. The middleware
+   * pipeline runs once per attempt.
+   * When telemetry is configured, the outcome and retry count are recorded
+   * once per request.
+   *
+   * @private
+   */
+  private async request<T>(
+    method: HttpMethod,
+    path: string,
+    config?: RequestConfig
+  ): Promise<MiddlewareResponse<T>> {
+    const policy = this.retryPolicy;
+    const { idempotencyKey, headers, data, timeout, signal } = config ?? {};
+    const projectId = await this.resolveProjectId?.();
+    const requestHeaders: Record<string, string> = {
+      ...(projectId ? { [PROJECT_ID_HEADER]: projectId } : {}),
+      ...toHeaderRecord(headers),
+    };
+    if (idempotencyKey) {
+      requestHeaders[IDEMPOTENCY_KEY_HEADER] = idempotencyKey;
+    }
+
+    const startedAt = Date.now();
+    let attempt = 0;
+    let status: number | undefined;
+    let failure: unknown;
+
+    try {
+      for (attempt = 1; ; attempt++) {
+        throwIfAborted(signal);
+
+        try {
+          const response = await this.sendAuthenticated<T>(
+            {
+              method,
+              path,
+              headers: { ...requestHeaders },
+              data,
+              attempt,
+              context: {},
+            },
+            timeout ?? this.timeout,
+            signal
+          );
+          status = response.status;
+          this.responseListener?.(response);
+          return response;
+        } catch (error) {
+          if (
+            error instanceof WiilAbortError ||
+            attempt >= policy.maxAttempts ||
+            !isRetryableError(error, method, policy, idempotencyKey !== undefined)
+          ) {
+            throw error;
+          }
+
+          const delayMs = getRetryDelay(attempt, error, policy);
+          if (delayMs === null) {
+            throw error;
+          }
+
+          policy.onRetry?.({
+            method,
+            path,
+            attempt: attempt + 1,
+            maxAttempts: policy.maxAttempts,
+            delayMs,
+            error: error as Error,
+          });
+
+          await sleep(delayMs, signal);
+        }
+      }
+    } catch (error) {
+      failure = error;
+      status = error instanceof WiilAPIError ? error.statusCode : undefined;
+      throw error;
+    } finally {
+      this.telemetry?.recordRequest({
+        method,
+        path,
+        status,
+        attempts: attempt,
+        durationMs: Date.now() - startedAt,
+        error: failure,
+      });
+    }
+  }
+
+  /**
+   * Sends a single attempt with the active credentials.
+   *
+   * @typeParam T - Expected response data type
+   * @param request - Request before middleware runs
+   * @param timeout - Request timeout in milliseconds
+   * @param signal - Optional signal that cancels the request
+   * @returns Promise resolving to the API response
+   *
+   * @remarks
+   * When the API rejects the key with `401` and the credential provider
+   * returns a different key, the attempt is sent once more with that key.
+   *
+   * @private
+   */
+  private async sendAuthenticated<T>(
+    request: MiddlewareRequest,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<MiddlewareResponse<T>> {
+    const credentials = activeCredentials(this.credentials);
+    const apiKey = await credentials.get();
+
+    try {
+      return await this.send<T>(request, apiKey, timeout, signal);
+    } catch (error) {
+      if (!(error instanceof WiilAuthenticationError) || !(await credentials.refresh(apiKey))) {
+        throw error;
+      }
+
+      this.logger.debug(`${request.method} ${request.path} retrying with refreshed credentials`);
+      const refreshedKey = await credentials.get();
+      return this.send<T>(
+        { ...request, headers: { ...request.headers } },
+        refreshedKey,
+        timeout,
+        signal
+      );
+    }
+  }
+
+  /**
+   * Sends a single attempt through the middleware pipeline.
+   *
+   * @typeParam T - Expected response data type
+   * @param initial - Request before middleware runs
+   * @param apiKey - API key sent with the request
+   * @param timeout - Request timeout in milliseconds
+   * @param signal - Optional signal that cancels the request
+   * @returns Promise resolving to the API response
+   *
+   * @private
+   */
+  private async send<T>(
+    initial: MiddlewareRequest,
+    apiKey: string,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<MiddlewareResponse<T>> {
+    let request = initial;
+    let shortCircuit: MiddlewareResponse | undefined;
+
+    for (const middleware of this.middleware) {
+      const result = await middleware.onRequest?.(request);
+      if (isMiddlewareResponse(result)) {
+        shortCircuit = result;
+        break;
+      }
+      if (result) {
+        request = result;
+      }
+    }
+
+    const reversed = [...this.middleware].reverse();
+
+    try {
+      let response: MiddlewareResponse =
+        shortCircuit ?? (await this.dispatch(request, apiKey, timeout, signal));
+
+      for (const middleware of reversed) {
+        const result = await middleware.onResponse?.(response, request);
+        if (result) {
+          response = result;
+        }
+      }
+
+      return response as MiddlewareResponse<T>;
+    } catch (error) {
+      let failure = error as Error;
+
+      for (const middleware of reversed) {
+        const result = await middleware.onError?.(failure, request);
+        if (isMiddlewareResponse(result)) {
+          return result as MiddlewareResponse<T>;
+        }
+        if (result) {
+          failure = result;
+        }
+      }
+
+      throw failure;
+    }
+  }
+
+  /**
+   * Sends a request to the API through the transport.
+   *
+   * @param request - Request after middleware has run
+   * @param apiKey - API key sent with the request
+   * @param timeout - Request timeout in milliseconds
+   * @param signal - Optional signal that cancels the request
+   * @returns Promise resolving to the API response
    *
    * @throws {@link WiilAPIError} - When the API returns an error response
    * @throws {@link WiilNetworkError} - When network communication fails
+   * @throws {@link WiilAbortError} - When the signal is aborted
+   * @throws {@link WiilConfigurationError} - When the path is an absolute URL on another origin than the base URL
    *
-   * @internal
+   * @remarks
+   * When a client-side rate limiter is configured, the request waits for a
+   * token before it is sent.
+   *
+   * @private
    */
-  public async get<T>(
-    path: string,
-    config?: AxiosRequestConfig
-  ): Promise<T> {
-    const response = await this.client.get<APIResponse<T>>(path, config);
+  private async dispatch(
+    request: MiddlewareRequest,
+    apiKey: string,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<MiddlewareResponse> {
+    const url = joinUrl(this.baseUrl, request.path);
+    await this.rateLimiter?.acquire(request.path, signal);
+
+    const headers: Record<string, string> = {
+      ...request.headers,
+      // Ensure API key is always present
+      'X-Wiil-Api-Key': apiKey,
+    };
+    this.telemetry?.injectContext(headers);
+
+    const startedAt = Date.now();
+    let response: TransportResponse;
+    try {
+      response = await this.transport.request({
+        method: request.method,
+        url,
+        headers,
+        body: request.data,
+        timeout,
+        signal,
+      });
+    } catch (error) {
+      const route = redactPath(request.path);
+      this.logger.debug(`${request.method} ${route} failed after ${Date.now() - startedAt}ms`, {
+        method: request.method,
+        path: route,
+        durationMs: Date.now() - startedAt,
+        error: (error as { code?: string }).code ?? (error as Error).message,
+      });
+      throwIfAborted(signal);
+      throw this.handleError(error);
+    }
 
+    const durationMs = Date.now() - startedAt;
+    const route = redactPath(request.path);
+    this.logger.debug(`${request.method} ${route} ${response.status} ${durationMs}ms`, {
+      method: request.method,
+      path: route,
+      status: response.status,
+      durationMs,
+      requestId: redactId(response.headers[REQUEST_ID_HEADER]),
+    });
+
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    if (rateLimit) {
+      this.lastRateLimit = rateLimit;
+      if (response.status === 429 && rateLimit.retryAfter !== undefined) {
+        this.rateLimiter?.pause(request.path, rateLimit.retryAfter);
+      }
+    }
+
+    return this.handleResponse(response, rateLimit);
+  }
+
+  /**
+   * Extracts the data payload from an API response.
+   *
+   * @typeParam T - Expected response data type
+   * @param response - API response wrapping the envelope
+   * @returns The response data
+   *
+   * @throws {@link WiilAPIError} - When the API response is unsuccessful
+   *
+   * @private
+   */
+  private unwrap<T>(response: MiddlewareResponse<T>): T {
     // Check if the response was successful
     if (!response.data.success) {
-      // This should have been caught by the interceptor, but handle it just in case
-      throw new WiilAPIError(
+      // This should have been caught by handleResponse, but handle it just in case
+      throw createAPIError(
         'Request failed',
         response.status,
         'REQUEST_FAILED',
-        response.data
+        response.data,
+        { requestId: response.headers[REQUEST_ID_HEADER] }
       );
     }
 
     return response.data.data;
   }
 
+  /**
+   * Validates response data against its schema according to the
+   * `validateResponses` mode.
+   *
+   * @typeParam T - Expected response data type
+   * @param method - HTTP method of the request
+   * @param path - API endpoint path of the request
+   * @param data - Response data
+   * @param schema - Schema for the response data
+   * @returns The parsed data when valid, otherwise the data as received
+   *
+   * @throws {@link WiilValidationError} - When the response does not match the schema in `'strict'` mode
+   *
+   * @private
+   */
+  private parseResponse<T>(
+    method: HttpMethod,
+    path: string,
+    data: T,
+    schema?: ZodType
+  ): T {
+    if (!schema || this.validateResponses === 'off') {
+      return data;
+    }
+
+    const validation = schema.safeParse(data);
+    if (validation.success) {
+      return validation.data as T;
+    }
+
+    this.onResponseDrift({ method, path, issues: validation.error.issues, data });
+
+    if (this.validateResponses === 'strict') {
+      throw new WiilValidationError(
+        'Response validation failed',
+        validation.error.issues
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Makes a GET request to the API.
+   *
+   * @typeParam T - Expected response data type
+   * @param path - API endpoint path
+   * @param config - Optional request configuration
+   * @returns Promise resolving to the response data
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error response
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @internal
+   */
+  public async get<T>(
+    path: string,
+    config?: HttpRequestConfig
+  ): Promise<T> {
+    const response = await this.request<T>('GET', path, config);
+
+    return this.parseResponse(
+      'GET',
+      path,
+      this.unwrap(response),
+      config?.responseSchema
+    );
+  }
+
   /**
    * Makes a POST request to the API with request validation.
    *
@@ -191,7 +725,7 @@ export class HttpClient {
    * @param path - API endpoint path
    * @param data - Request payload
    * @param schema - Zod schema for validating the request payload
-   * @param config - Optional axios request configuration
+   * @param config - Optional request configuration
    * @returns Promise resolving to the response data
    *
    * @throws {@link WiilValidationError} - When request validation fails
@@ -204,7 +738,7 @@ export class HttpClient {
     path: string,
     data: TRequest,
     schema?: ZodType<TRequest>,
-    config?: AxiosRequestConfig
+    config?: HttpRequestConfig
   ): Promise<TResponse> {
     // Validate request if schema provided
     if (schema) {
@@ -217,30 +751,62 @@ export class HttpClient {
       }
     }
 
-    const response = await this.client.post<APIResponse<TResponse>>(
-      path,
+    const response = await this.request<TResponse>('POST', path, {
+      ...config,
+      idempotencyKey: config?.idempotencyKey ??
+        (this.autoIdempotencyKeys ? generateIdempotencyKey() : undefined),
       data,
-      {
-        ...config,
-        headers: {
-          'Content-Type': 'application/json',
-          ...config?.headers,
-        },
-      }
+      headers: {
+        'Content-Type': 'application/json',
+        ...config?.headers,
+      },
+    });
+
+    return this.parseResponse(
+      'POST',
+      path,
+      this.unwrap(response),
+      config?.responseSchema
     );
+  }
 
-    // Check if the response was successful
-    if (!response.data.success) {
-      // This should have been caught by the interceptor, but handle it just in case
-      throw new WiilAPIError(
-        'Request failed',
-        response.status,
-        'REQUEST_FAILED',
-        response.data
-      );
-    }
+  /**
+   * Makes a POST request with a `multipart/form-data` body.
+   *
+   * @typeParam TResponse - Expected response data type
+   * @param path - API endpoint path
+   * @param form - Form fields and files
+   * @param config - Optional request configuration
+   * @returns Promise resolving to the response data
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error response
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * No `Content-Type` header is set, so the transport can add the multipart
+   * boundary. Build the form from in-memory values so it can be sent again on
+   * retry.
+   *
+   * @internal
+   */
+  public async postForm<TResponse>(
+    path: string,
+    form: FormData,
+    config?: HttpRequestConfig
+  ): Promise<TResponse> {
+    const response = await this.request<TResponse>('POST', path, {
+      ...config,
+      idempotencyKey: config?.idempotencyKey ??
+        (this.autoIdempotencyKeys ? generateIdempotencyKey() : undefined),
+      data: form,
+    });
 
-    return response.data.data;
+    return this.parseResponse(
+      'POST',
+      path,
+      this.unwrap(response),
+      config?.responseSchema
+    );
   }
 
   /**
@@ -251,7 +817,7 @@ export class HttpClient {
    * @param path - API endpoint path
    * @param data - Request payload
    * @param schema - Zod schema for validating the request payload
-   * @param config - Optional axios request configuration
+   * @param config - Optional request configuration
    * @returns Promise resolving to the response data
    *
    * @throws {@link WiilValidationError} - When request validation fails
@@ -264,7 +830,7 @@ export class HttpClient {
     path: string,
     data: TRequest,
     schema?: ZodType<TRequest>,
-    config?: AxiosRequestConfig
+    config?: HttpRequestConfig
   ): Promise<TResponse> {
     // Validate request if schema provided
     if (schema) {
@@ -277,30 +843,21 @@ export class HttpClient {
       }
     }
 
-    const response = await this.client.put<APIResponse<TResponse>>(
-      path,
+    const response = await this.request<TResponse>('PUT', path, {
+      ...config,
       data,
-      {
-        ...config,
-        headers: {
-          'Content-Type': 'application/json',
-          ...config?.headers,
-        },
-      }
-    );
-
-    // Check if the response was successful
-    if (!response.data.success) {
-      // This should have been caught by the interceptor, but handle it just in case
-      throw new WiilAPIError(
-        'Request failed',
-        response.status,
-        'REQUEST_FAILED',
-        response.data
-      );
-    }
+      headers: {
+        'Content-Type': 'application/json',
+        ...config?.headers,
+      },
+    });
 
-    return response.data.data;
+    return this.parseResponse(
+      'PUT',
+      path,
+      this.unwrap(response),
+      config?.responseSchema
+    );
   }
 
   /**
@@ -309,7 +866,7 @@ export class HttpClient {
    * @param path - API endpoint path
    * @param data - Request payload
    * @param schema - Zod schema for validating the request payload
-   * @param config - Optional axios request configuration
+   * @param config - Optional request configuration
    * @returns Promise resolving to the response data
    *
    * @throws {@link WiilValidationError} - When request validation fails
@@ -322,7 +879,7 @@ export class HttpClient {
     path: string,
     data: TRequest,
     schema?: ZodType<TRequest>,
-    config?: AxiosRequestConfig
+    config?: HttpRequestConfig
   ): Promise<TResponse> {
     // Validate request if schema provided
     if (schema) {
@@ -335,37 +892,28 @@ export class HttpClient {
       }
     }
 
-    const response = await this.client.patch<APIResponse<TResponse>>(
-      path,
+    const response = await this.request<TResponse>('PATCH', path, {
+      ...config,
       data,
-      {
-        ...config,
-        headers: {
-          'Content-Type': 'application/json',
-          ...config?.headers,
-        },
-      }
-    );
-
-    // Check if the response was successful
-    if (!response.data.success) {
-      // This should have been caught by the interceptor, but handle it just in case
-      throw new WiilAPIError(
-        'Request failed',
-        response.status,
-        'REQUEST_FAILED',
-        response.data
-      );
-    }
+      headers: {
+        'Content-Type': 'application/json',
+        ...config?.headers,
+      },
+    });
 
-    return response.data.data;
+    return this.parseResponse(
+      'PATCH',
+      path,
+      this.unwrap(response),
+      config?.responseSchema
+    );
   }
 
   /**
    * Makes a DELETE request to the API.
    *
    * @param path - API endpoint path
-   * @param config - Optional axios request configuration
+   * @param config - Optional request configuration
    * @returns Promise resolving to the response data or void
    *
    * @throws {@link WiilAPIError} - When the API returns an error response
@@ -375,21 +923,39 @@ export class HttpClient {
    */
   public async delete<TResponse = void>(
     path: string,
-    config?: AxiosRequestConfig
+    config?: HttpRequestConfig
   ): Promise<TResponse> {
-    const response = await this.client.delete<APIResponse<TResponse>>(path, config);
+    const response = await this.request<TResponse>('DELETE', path, config);
 
-    // Check if the response was successful
-    if (!response.data.success) {
-      // This should have been caught by the interceptor, but handle it just in case
-      throw new WiilAPIError(
-        'Request failed',
-        response.status,
-        'REQUEST_FAILED',
-        response.data
-      );
-    }
+    return this.parseResponse(
+      'DELETE',
+      path,
+      this.unwrap(response),
+      config?.responseSchema
+    );
+  }
+}
 
-    return response.data.data;
+/**
+ * Joins the base URL and a request path.
+ *
+ * @param baseUrl - Base URL of the API
+ * @param path - Request path, or an absolute URL on the same origin as `baseUrl`
+ * @returns Absolute request URL
+ *
+ * @throws {@link WiilConfigurationError} - When `path` is an absolute URL on another origin, which
+ * would receive the API key
+ *
+ * @internal
+ */
+function joinUrl(baseUrl: string, path: string): string {
+  if (/^[a-z][a-z\d+\-.]*:\/\//i.test(path)) {
+    const origin = new URL(baseUrl).origin;
+    const target = new URL(path).origin;
+    if (target !== origin) {
+      throw new WiilConfigurationError(`Refusing to send a request to ${target}, which is not the API origin ${origin}`);
+    }
+    return path;
   }
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
 }
@@ -3,8 +3,13 @@
  * @module client/WiilClient
  */
 
-import { WiilClientConfig } from './types';
+import { WiilClientConfig, ResolvedClientConfig, RateLimitInfo } from './types';
 import { HttpClient } from './HttpClient';
+import { validateRetryConfig } from './retry';
+import { validateResponseValidationMode } from './validation';
+import { validateRateLimitConfig } from './rate-limit';
+import { validateCredentials } from './credentials';
+import { WiilMiddleware } from './middleware';
 import { OrganizationsResource, ProjectsResource } from '../resources/account';
 import {
   BusinessLocationsResource,
@@ -84,6 +89,23 @@ const DEFAULT_CONFIG = {
   timeout: 30000, // 30 seconds
 } as const;
 
+/**
+ * Configuration key holding the HTTP client of a client built by
+ * {@link WiilClient.withHttp}.
+ *
+ * @internal
+ */
+const SHARED_HTTP = Symbol('wiil.sharedHttp');
+
+/**
+ * Client configuration with an existing HTTP client to use.
+ *
+ * @internal
+ */
+interface SharedHttpConfig extends WiilClientConfig {
+  [SHARED_HTTP]?: HttpClient;
+}
+
 /**
  * Main client for interacting with the WIIL Platform API.
  *
@@ -765,6 +787,7 @@ export class WiilClient {
    */
   public readonly outboundTemplates: OutboundTemplatesResource;
 
+  private readonly config: WiilClientConfig;
   private readonly http: HttpClient;
 
   /**
@@ -792,15 +815,18 @@ export class WiilClient {
    * ```
    */
   constructor(config: WiilClientConfig) {
-    this.validateConfig(config);
+    const { [SHARED_HTTP]: http, ...settings } = config as SharedHttpConfig;
+
+    this.validateConfig(settings);
+    this.config = settings;
 
-    const fullConfig: Required<WiilClientConfig> = {
-      apiKey: config.apiKey,
-      baseUrl: config.baseUrl ?? DEFAULT_CONFIG.baseUrl,
-      timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
+    const fullConfig: ResolvedClientConfig = {
+      ...settings,
+      baseUrl: settings.baseUrl ?? DEFAULT_CONFIG.baseUrl,
+      timeout: settings.timeout ?? DEFAULT_CONFIG.timeout,
     };
 
-    this.http = new HttpClient(fullConfig);
+    this.http = http ?? new HttpClient(fullConfig);
 
     // Account resources
     this.organizations = new OrganizationsResource(this.http);
@@ -871,6 +897,103 @@ export class WiilClient {
     this.outboundEmails = new OutboundEmailsResource(this.http);
     this.outboundSms = new OutboundSmsResource(this.http);
     this.outboundTemplates = new OutboundTemplatesResource(this.http);
+
+    // Trace every resource method when telemetry is configured
+    this.http.telemetry?.instrumentResources(this, [this.http]);
+  }
+
+  /**
+   * Registers a middleware for every request made by this client.
+   *
+   * @param middleware - Middleware with optional `onRequest`, `onResponse`, and `onError` stages
+   * @returns This client, for chaining
+   *
+   * @remarks
+   * Middleware applies to all resources on the client. `onRequest` handlers run
+   * in registration order; `onResponse` and `onError` handlers run in reverse.
+   *
+   * @example
+   * ```typescript
+   * client
+   *   .use({
+   *     name: 'correlation-id',
+   *     onRequest: (request) => ({
+   *       ...request,
+   *       headers: { ...request.headers, 'X-Correlation-Id': getCorrelationId() }
+   *     })
+   *   })
+   *   .use({
+   *     name: 'logging',
+   *     onError: (error, request) => {
+   *       logger.warn(`${request.method} ${request.path} failed`, error);
+   *     }
+   *   });
+   * ```
+   */
+  public use(middleware: WiilMiddleware): this {
+    this.http.use(middleware);
+    return this;
+  }
+
+  /**
+   * Creates a client whose requests are all scoped to a project.
+   *
+   * @param projectId - Project ID; defaults to the organization's default project
+   * @returns Client sending the project with every request
+   *
+   * @remarks
+   * The returned client shares this client's configuration, middleware, and
+   * rate-limit state. When no project ID is given, the default project is
+   * looked up with {@link ProjectsResource.getDefault} before the first request
+   * and reused afterwards.
+   *
+   * @example
+   * ```typescript
+   * const staging = client.forProject('proj_staging');
+   * const agents = await staging.agentConfigs.list();
+   *
+   * // Scope requests to the default project
+   * const defaults = client.forProject();
+   * ```
+   */
+  public forProject(projectId?: string): WiilClient {
+    const project =
+      projectId ?? (async () => (await this.projects.getDefault()).id);
+    return WiilClient.withHttp(this.config, this.http.withProject(project));
+  }
+
+  /**
+   * Creates a client that uses an existing HTTP client instead of its own.
+   *
+   * @param config - Client configuration
+   * @param http - HTTP client to use
+   * @returns Client sending its requests through `http`
+   */
+  private static withHttp(config: WiilClientConfig, http: HttpClient): WiilClient {
+    return new WiilClient({ ...config, [SHARED_HTTP]: http } as SharedHttpConfig);
+  }
+
+  /**
+   * Rate-limit state reported by the most recent response that included
+   * rate-limit headers.
+   *
+   * @remarks
+   * Use this to slow down bulk jobs before the API starts rejecting requests.
+   *
+   * @example
+   * ```typescript
+   * for (const request of requests) {
+   *   await client.outboundCalls.create(request);
+   *
+   *   const { remaining, resetAt } = client.rateLimit ?? {};
+   *   if (remaining === 0 && resetAt) {
+   *     await new Promise((resolve) => setTimeout(resolve, resetAt - Date.now()));
+   *   }
+   * }
+   * ```
+   */
+  public get rateLimit(): RateLimitInfo | undefined {
+    return this.http.rateLimit;
   }
 
   /**
@@ -882,17 +1005,7 @@ export class WiilClient {
    * @private
    */
   private validateConfig(config: WiilClientConfig): void {
-    if (!config.apiKey) {
-      throw new WiilConfigurationError(
-        'API key is required. Please provide a valid API key in the configuration.'
-      );
-    }
-
-    if (config.apiKey.trim().length === 0) {
-      throw new WiilConfigurationError(
-        'API key cannot be empty. Please provide a valid API key.'
-      );
-    }
+    validateCredentials(config.credentials ?? config.apiKey);
 
     if (config.baseUrl !== undefined) {
       try {
@@ -911,5 +1024,9 @@ export class WiilClient {
         );
       }
     }
+
+    validateRetryConfig(config.retry);
+    validateResponseValidationMode(config.validateResponses);
+    validateRateLimitConfig(config.rateLimit);
   }
 }
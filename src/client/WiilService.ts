@@ -3,13 +3,17 @@
  * @module client/WiilService
  */
 
-import { AxiosRequestConfig } from 'axios';
 import { ZodType } from 'zod';
 import { WiilConfigurationError } from '../errors/WiilError';
 import { MessagingService } from '../services/messaging';
 import { OttService } from '../services/ott';
-import { HttpClient } from './HttpClient';
-import { WiilClientConfig } from './types';
+import { HttpClient, HttpRequestConfig } from './HttpClient';
+import { validateRetryConfig } from './retry';
+import { validateResponseValidationMode } from './validation';
+import { validateRateLimitConfig } from './rate-limit';
+import { validateCredentials } from './credentials';
+import { WiilMiddleware } from './middleware';
+import { WiilClientConfig, ResolvedClientConfig } from './types';
 
 /**
  * Configuration options for {@link WiilService}.
@@ -74,7 +78,7 @@ export class WiilService {
   /**
    * Resolved service configuration.
    */
-  public readonly config: Required<WiilClientConfig>;
+  public readonly config: ResolvedClientConfig;
 
   /**
    * Creates a new WiilService instance.
@@ -92,12 +96,29 @@ export class WiilService {
 
     this.http = new HttpClient(this.config);
     this.apiHttp = new HttpClient({
-      apiKey: this.config.apiKey,
+      ...this.config,
       baseUrl: config.apiBaseUrl ?? DEFAULT_API_BASE_URL,
-      timeout: this.config.timeout,
     });
     this.ott = new OttService(this.http);
     this.messaging = new MessagingService(this.apiHttp);
+
+    // Trace every service method when telemetry is configured
+    this.http.telemetry?.instrumentResources(this, [this.http, this.apiHttp]);
+  }
+
+  /**
+   * Registers a middleware for every request made by this service.
+   *
+   * @param middleware - Middleware with optional `onRequest`, `onResponse`, and `onError` stages
+   * @returns This service, for chaining
+   *
+   * @remarks
+   * The middleware applies to both OTT and messaging requests.
+   */
+  public use(middleware: WiilMiddleware): this {
+    this.http.use(middleware);
+    this.apiHttp.use(middleware);
+    return this;
   }
 
   /**
@@ -105,7 +126,7 @@ export class WiilService {
    */
   public async get<TResponse>(
     path: string,
-    requestConfig?: AxiosRequestConfig
+    requestConfig?: HttpRequestConfig
   ): Promise<TResponse> {
     return this.http.get<TResponse>(path, requestConfig);
   }
@@ -117,7 +138,7 @@ export class WiilService {
     path: string,
     data: TRequest,
     schema?: ZodType<TRequest>,
-    requestConfig?: AxiosRequestConfig
+    requestConfig?: HttpRequestConfig
   ): Promise<TResponse> {
     return this.http.post<TRequest, TResponse>(path, data, schema, requestConfig);
   }
@@ -129,7 +150,7 @@ export class WiilService {
     path: string,
     data: TRequest,
     schema?: ZodType<TRequest>,
-    requestConfig?: AxiosRequestConfig
+    requestConfig?: HttpRequestConfig
   ): Promise<TResponse> {
     return this.http.put<TRequest, TResponse>(path, data, schema, requestConfig);
   }
@@ -141,7 +162,7 @@ export class WiilService {
     path: string,
     data: TRequest,
     schema?: ZodType<TRequest>,
-    requestConfig?: AxiosRequestConfig
+    requestConfig?: HttpRequestConfig
   ): Promise<TResponse> {
     return this.http.patch<TRequest, TResponse>(path, data, schema, requestConfig);
   }
@@ -151,7 +172,7 @@ export class WiilService {
    */
   public async delete<TResponse = void>(
     path: string,
-    requestConfig?: AxiosRequestConfig
+    requestConfig?: HttpRequestConfig
   ): Promise<TResponse> {
     return this.http.delete<TResponse>(path, requestConfig);
   }
@@ -160,17 +181,7 @@ export class WiilService {
    * Validates the service configuration.
    */
   private validateConfig(config: WiilServiceConfig): void {
-    if (!config.apiKey) {
-      throw new WiilConfigurationError(
-        'API key is required. Please provide a valid API key in the configuration.'
-      );
-    }
-
-    if (config.apiKey.trim().length === 0) {
-      throw new WiilConfigurationError(
-        'API key cannot be empty. Please provide a valid API key.'
-      );
-    }
+    validateCredentials(config.credentials ?? config.apiKey);
 
     if (config.baseUrl !== undefined) {
       try {
@@ -197,5 +208,9 @@ export class WiilService {
         'Timeout must be a positive number in milliseconds.'
       );
     }
+
+    validateRetryConfig(config.retry);
+    validateResponseValidationMode(config.validateResponses);
+    validateRateLimitConfig(config.rateLimit);
   }
 }
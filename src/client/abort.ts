@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Cancellation helpers for requests and polling loops.
+ * @module client/abort
+ */
+
+import { WiilAbortError } from '../errors/WiilError';
+
+/**
+ * Throws when the signal has been aborted.
+ *
+ * @param signal - Optional abort signal
+ *
+ * @throws {@link WiilAbortError} - When the signal is aborted
+ *
+ * @internal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new WiilAbortError(undefined, signal.reason);
+  }
+}
+
+/**
+ * Sleeps for the specified duration, waking early when the signal is aborted.
+ *
+ * @param ms - Duration to sleep in milliseconds
+ * @param signal - Optional abort signal
+ *
+ * @throws {@link WiilAbortError} - When the signal is aborted before or during the sleep
+ *
+ * @internal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new WiilAbortError(undefined, signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new WiilAbortError(undefined, signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Waits for a promise, rejecting early when the signal is aborted.
+ *
+ * @typeParam T - Type of the value the promise resolves to
+ * @param promise - Promise to wait for, which keeps running after an abort
+ * @param signal - Optional abort signal of this wait only
+ * @returns Promise settling like `promise`, unless the signal is aborted first
+ *
+ * @throws {@link WiilAbortError} - When the signal is aborted before the promise settles
+ *
+ * @internal
+ */
+export function waitFor<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new WiilAbortError(undefined, signal.reason));
+      return;
+    }
+
+    const onAbort = () => reject(new WiilAbortError(undefined, signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Tests for the chunked batch helper.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { runBatch } from './batch';
+import { RequestOptions } from './types';
+import { WiilAPIError, WiilAbortError, WiilValidationError } from '../errors/WiilError';
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+const echo = async (chunk: number[]) => ({
+  data: chunk.map((value) => ({ id: `item_${value}` })),
+  meta: {
+    page: 1,
+    pageSize: chunk.length,
+    totalCount: chunk.length,
+    totalPages: 1,
+    hasNextPage: false,
+    hasPreviousPage: false,
+  },
+});
+
+describe('runBatch', () => {
+  it('should split items into chunks and merge the results in input order', async () => {
+    const send = vi.fn(echo);
+
+    const result = await runBatch(range(120), { chunkSize: 50, send });
+
+    expect(send.mock.calls.map(([chunk]) => chunk.length)).toEqual([50, 50, 20]);
+    expect(result.results).toHaveLength(120);
+    expect(result.failures).toEqual([]);
+    expect(result.successes[119]).toEqual({ index: 119, input: 119, success: true, data: { id: 'item_119' } });
+  });
+
+  it('should accept batch requests that resolve to arrays', async () => {
+    const result = await runBatch(range(3), {
+      chunkSize: 2,
+      send: async (chunk) => chunk.map((value) => value * 10),
+    });
+
+    expect(result.successes.map((success) => success.data)).toEqual([0, 10, 20]);
+  });
+
+  it('should report every item of a failed chunk with its original index and continue', async () => {
+    const failure = new WiilAPIError('Batch rejected', 400, 'VALIDATION_ERROR');
+    const send = vi.fn(async (chunk: number[]) => {
+      if (chunk[0] === 2) {
+        throw failure;
+      }
+      return echo(chunk);
+    });
+
+    const result = await runBatch(range(6), { chunkSize: 2, send });
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(result.successes.map((success) => success.index)).toEqual([0, 1, 4, 5]);
+    expect(result.failures).toEqual([
+      { index: 2, input: 2, success: false, error: failure },
+      { index: 3, input: 3, success: false, error: failure },
+    ]);
+  });
+
+  it('should report invalid items without sending them', async () => {
+    const send = vi.fn(echo);
+
+    const result = await runBatch([1, -1, 2], { chunkSize: 10, schema: z.number().positive(), send });
+
+    expect(send).toHaveBeenCalledWith([1, 2], expect.anything());
+    expect(result.failures).toHaveLength(1);
+    expect(result.failures[0].index).toBe(1);
+    expect(result.failures[0].error).toBeInstanceOf(WiilValidationError);
+    expect(result.successes.map((success) => success.data)).toEqual([{ id: 'item_1' }, { id: 'item_2' }]);
+  });
+
+  it('should keep at most `concurrency` batch requests in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const send = async (chunk: number[]) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return echo(chunk);
+    };
+
+    await runBatch(range(10), { chunkSize: 1, send }, { concurrency: 3 });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should report progress after each chunk', async () => {
+    const onProgress = vi.fn();
+
+    await runBatch(range(5), { chunkSize: 2, send: echo }, { concurrency: 1, onProgress });
+
+    expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { completed: 2, total: 5 },
+      { completed: 4, total: 5 },
+      { completed: 5, total: 5 },
+    ]);
+  });
+
+  it('should pass request options and give each chunk its own idempotency key', async () => {
+    const calls: RequestOptions[] = [];
+    const headers = { 'X-Import-Id': 'import_1' };
+
+    await runBatch(
+      range(4),
+      {
+        chunkSize: 2,
+        send: async (chunk, options) => {
+          calls.push(options);
+          return echo(chunk);
+        },
+      },
+      { concurrency: 1, idempotencyKey: 'import_1', headers }
+    );
+
+    expect(calls).toEqual([
+      { idempotencyKey: 'import_1:0', headers },
+      { idempotencyKey: 'import_1:1', headers },
+    ]);
+  });
+
+  it('should report unsent items as aborted once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const send = vi.fn(async (chunk: number[]) => {
+      controller.abort();
+      return echo(chunk);
+    });
+
+    const result = await runBatch(range(4), { chunkSize: 2, send }, { concurrency: 1, signal: controller.signal });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(result.successes.map((success) => success.index)).toEqual([0, 1]);
+    expect(result.failures.map((failure) => failure.error)).toEqual([
+      expect.any(WiilAbortError),
+      expect.any(WiilAbortError),
+    ]);
+  });
+
+  it('should reject an invalid concurrency', async () => {
+    await expect(runBatch(range(1), { chunkSize: 1, send: echo }, { concurrency: 0 })).rejects.toBeInstanceOf(
+      WiilValidationError
+    );
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Chunked batch helpers for batch create methods.
+ * @module client/batch
+ */
+
+import { PaginatedResultType } from 'wiil-core-js';
+import { ZodType } from 'zod';
+import { WiilAbortError, WiilError, WiilValidationError } from '../errors/WiilError';
+import { RequestOptions } from './types';
+
+/**
+ * Default number of batch requests in flight at once.
+ *
+ * @internal
+ */
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Options for chunked batch methods.
+ *
+ * @remarks
+ * Request options such as `signal` apply to every batch request. An
+ * `idempotencyKey` is suffixed with the chunk number so each batch request
+ * has its own key.
+ *
+ * @example
+ * ```typescript
+ * const result = await client.customers.createBatchChunked(rows, {
+ *   concurrency: 2,
+ *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`)
+ * });
+ * ```
+ */
+export interface BatchOptions extends RequestOptions {
+  /**
+   * Maximum number of batch requests in flight at once.
+   *
+   * @defaultValue 4
+   */
+  concurrency?: number;
+
+  /**
+   * Called after each batch request settles.
+   */
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+/**
+ * Progress of a chunked batch operation.
+ */
+export interface BatchProgress {
+  /**
+   * Number of items whose outcome is known.
+   */
+  completed: number;
+
+  /**
+   * Total number of items.
+   */
+  total: number;
+}
+
+/**
+ * Item that was created.
+ *
+ * @typeParam TInput - Type of the input items
+ * @typeParam TOutput - Type of the created items
+ */
+export interface BatchItemSuccess<TInput, TOutput> {
+  /**
+   * Position of the item in the input array.
+   */
+  index: number;
+
+  /**
+   * Input item.
+   */
+  input: TInput;
+
+  /**
+   * Always true for created items.
+   */
+  success: true;
+
+  /**
+   * Created item returned by the API.
+   */
+  data: TOutput;
+}
+
+/**
+ * Item that was not created.
+ *
+ * @typeParam TInput - Type of the input items
+ */
+export interface BatchItemFailure<TInput> {
+  /**
+   * Position of the item in the input array.
+   */
+  index: number;
+
+  /**
+   * Input item.
+   */
+  input: TInput;
+
+  /**
+   * Always false for items that were not created.
+   */
+  success: false;
+
+  /**
+   * Validation error of the item, or the error of the batch request it was sent in.
+   */
+  error: Error;
+}
+
+/**
+ * Outcome of a single item in a chunked batch operation.
+ *
+ * @typeParam TInput - Type of the input items
+ * @typeParam TOutput - Type of the created items
+ */
+export type BatchItemResult<TInput, TOutput> =
+  | BatchItemSuccess<TInput, TOutput>
+  | BatchItemFailure<TInput>;
+
+/**
+ * Merged result of a chunked batch operation.
+ *
+ * @typeParam TInput - Type of the input items
+ * @typeParam TOutput - Type of the created items
+ *
+ * @example
+ * ```typescript
+ * const result = await client.customers.createBatchChunked(rows);
+ *
+ * // Retry only the rows that failed
+ * const retry = result.failures.map((failure) => rows[failure.index]);
+ * ```
+ */
+export interface BatchResult<TInput, TOutput> {
+  /**
+   * Outcome of every item, in input order.
+   */
+  results: BatchItemResult<TInput, TOutput>[];
+
+  /**
+   * Items that were created, in input order.
+   */
+  successes: BatchItemSuccess<TInput, TOutput>[];
+
+  /**
+   * Items that were not created, in input order.
+   */
+  failures: BatchItemFailure<TInput>[];
+}
+
+/**
+ * How a chunked batch operation validates and sends its items.
+ *
+ * @typeParam TInput - Type of the input items
+ * @typeParam TOutput - Type of the created items
+ *
+ * @internal
+ */
+export interface BatchConfig<TInput, TOutput> {
+  /**
+   * Maximum number of items the API accepts in one batch request.
+   */
+  chunkSize: number;
+
+  /**
+   * Schema each item is validated against before it is sent.
+   */
+  schema?: ZodType;
+
+  /**
+   * Sends one batch request.
+   */
+  send: (
+    chunk: TInput[],
+    options: RequestOptions
+  ) => Promise<PaginatedResultType<TOutput> | TOutput[]>;
+}
+
+/**
+ * Creates any number of items through a batch endpoint.
+ *
+ * @typeParam TInput - Type of the input items
+ * @typeParam TOutput - Type of the created items
+ * @param items - Items to create
+ * @param config - Chunk size, item schema, and batch request
+ * @param options - Concurrency, progress, and request options
+ * @returns Promise resolving to the outcome of every item
+ *
+ * @remarks
+ * Invalid items are reported without being sent. Valid items are split into
+ * chunks of `chunkSize` and sent with bounded concurrency. When a batch request
+ * fails, every item in it is reported with that error; other chunks continue.
+ * Once the signal is aborted, items not yet sent are reported with a
+ * {@link WiilAbortError}.
+ *
+ * @internal
+ */
+export async function runBatch<TInput, TOutput>(
+  items: TInput[],
+  config: BatchConfig<TInput, TOutput>,
+  options?: BatchOptions
+): Promise<BatchResult<TInput, TOutput>> {
+  const { concurrency = DEFAULT_CONCURRENCY, onProgress, ...requestOptions } = options ?? {};
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new WiilValidationError('Batch concurrency must be a positive integer', [
+      { path: ['concurrency'], message: `Expected a positive integer, received ${concurrency}` },
+    ]);
+  }
+
+  const results: BatchItemResult<TInput, TOutput>[] = new Array(items.length);
+  let completed = 0;
+  const settle = (result: BatchItemResult<TInput, TOutput>) => {
+    results[result.index] = result;
+    completed++;
+  };
+
+  const valid: number[] = [];
+  items.forEach((input, index) => {
+    const validation = config.schema?.safeParse(input);
+    if (validation && !validation.success) {
+      settle({
+        index,
+        input,
+        success: false,
+        error: new WiilValidationError(`Validation failed for item at index ${index}`, validation.error.issues),
+      });
+    } else {
+      valid.push(index);
+    }
+  });
+
+  const chunks: number[][] = [];
+  for (let start = 0; start < valid.length; start += config.chunkSize) {
+    chunks.push(valid.slice(start, start + config.chunkSize));
+  }
+
+  const sendChunk = async (indexes: number[], chunkNumber: number) => {
+    const chunk = indexes.map((index) => items[index]);
+
+    try {
+      if (requestOptions.signal?.aborted) {
+        throw new WiilAbortError(undefined, requestOptions.signal.reason);
+      }
+
+      const response = await config.send(chunk, {
+        ...requestOptions,
+        idempotencyKey: requestOptions.idempotencyKey && `${requestOptions.idempotencyKey}:${chunkNumber}`,
+      });
+      const created = Array.isArray(response) ? response : response.data;
+
+      indexes.forEach((index, position) => {
+        if (position < created.length) {
+          settle({ index, input: items[index], success: true, data: created[position] });
+        } else {
+          settle({
+            index,
+            input: items[index],
+            success: false,
+            error: new WiilError('The batch response did not include this item'),
+          });
+        }
+      });
+    } catch (error) {
+      for (const index of indexes) {
+        settle({ index, input: items[index], success: false, error: error as Error });
+      }
+    }
+
+    onProgress?.({ completed, total: items.length });
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const chunkNumber = next++;
+      await sendChunk(chunks[chunkNumber], chunkNumber);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+  return {
+    results,
+    successes: results.filter((result): result is BatchItemSuccess<TInput, TOutput> => result.success),
+    failures: results.filter((result): result is BatchItemFailure<TInput> => !result.success),
+  };
+}
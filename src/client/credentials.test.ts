@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Tests for credential providers.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import nock from 'nock';
+import { HttpClient } from './HttpClient';
+import { CredentialCache, runWithCredentials } from './credentials';
+import { WiilAuthenticationError, WiilConfigurationError } from '../errors/WiilError';
+import { CredentialProvider, CredentialsConfig } from './types';
+
+const BASE_URL = 'https://api.wiil.io/v1';
+
+const success = <T>(data: T) => ({
+  success: true,
+  data,
+  metadata: { timestamp: Date.now(), version: 'v1' },
+});
+
+const unauthorized = {
+  success: false,
+  status: 401,
+  code: 'UNAUTHORIZED',
+  message: 'Invalid API key',
+  timestamp: new Date().toISOString(),
+};
+
+const createHttp = (credentials: CredentialProvider | CredentialsConfig) =>
+  new HttpClient({ credentials, baseUrl: BASE_URL, timeout: 5000 });
+
+describe('Credentials', () => {
+  afterEach(() => {
+    nock.cleanAll();
+    vi.useRealTimers();
+  });
+
+  it('should send the key returned by the provider and cache it', async () => {
+    const provider = vi.fn(async () => 'key-1');
+    const http = createHttp(provider);
+
+    const scope = nock(BASE_URL, { reqheaders: { 'X-Wiil-Api-Key': 'key-1' } })
+      .get('/projects')
+      .times(3)
+      .reply(200, success([]));
+
+    await Promise.all([http.get('/projects'), http.get('/projects')]);
+    await http.get('/projects');
+
+    expect(scope.isDone()).toBe(true);
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve a new key after a 401 and resend the request once', async () => {
+    const provider = vi
+      .fn<CredentialProvider>()
+      .mockResolvedValueOnce('old-key')
+      .mockResolvedValueOnce('new-key');
+    const http = createHttp(provider);
+
+    nock(BASE_URL, { reqheaders: { 'X-Wiil-Api-Key': 'old-key' } })
+      .get('/projects')
+      .reply(401, unauthorized);
+    const retried = nock(BASE_URL, { reqheaders: { 'X-Wiil-Api-Key': 'new-key' } })
+      .get('/projects')
+      .times(2)
+      .reply(200, success([]));
+
+    await http.get('/projects');
+    await http.get('/projects');
+
+    expect(retried.isDone()).toBe(true);
+    expect(provider).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not resend when the provider returns the rejected key again', async () => {
+    const provider = vi.fn(async () => 'revoked-key');
+    const http = createHttp(provider);
+
+    nock(BASE_URL).get('/projects').reply(401, unauthorized);
+
+    await expect(http.get('/projects')).rejects.toThrow(WiilAuthenticationError);
+    expect(provider).toHaveBeenCalledTimes(2);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  it('should not refresh when refreshOnUnauthorized is disabled', async () => {
+    const provider = vi.fn(async () => 'key-1');
+    const http = createHttp({ provider, refreshOnUnauthorized: false });
+
+    nock(BASE_URL).get('/projects').reply(401, unauthorized);
+
+    await expect(http.get('/projects')).rejects.toThrow(WiilAuthenticationError);
+    expect(provider).toHaveBeenCalledTimes(1);
+  });
+
+  it('should call the provider again once the key expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const provider = vi
+      .fn<CredentialProvider>()
+      .mockResolvedValueOnce({ apiKey: 'key-1', expiresAt: Date.now() + 1000 })
+      .mockResolvedValueOnce({ apiKey: 'key-2' });
+    const credentials = new CredentialCache(provider);
+
+    expect(await credentials.get()).toBe('key-1');
+    vi.setSystemTime(Date.now() + 1000);
+    expect(await credentials.get()).toBe('key-2');
+  });
+
+  it('should call the provider again once the cache TTL elapses', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const provider = vi
+      .fn<CredentialProvider>()
+      .mockResolvedValueOnce('key-1')
+      .mockResolvedValueOnce('key-2');
+    const credentials = new CredentialCache({ provider, cacheTtlMs: 60_000 });
+
+    expect(await credentials.get()).toBe('key-1');
+    vi.setSystemTime(Date.now() + 30_000);
+    expect(await credentials.get()).toBe('key-1');
+    vi.setSystemTime(Date.now() + 30_000);
+    expect(await credentials.get()).toBe('key-2');
+  });
+
+  it('should reject when the provider returns no key', async () => {
+    const credentials = new CredentialCache(async () => '');
+
+    await expect(credentials.get()).rejects.toThrow(WiilConfigurationError);
+  });
+
+  it('should use scoped credentials for requests made inside runWithCredentials', async () => {
+    const http = new HttpClient({ apiKey: 'default-key', baseUrl: BASE_URL, timeout: 5000 });
+
+    const tenantA = nock(BASE_URL, { reqheaders: { 'X-Wiil-Api-Key': 'tenant-a-key' } })
+      .get('/projects')
+      .reply(200, success([]));
+    const tenantB = nock(BASE_URL, { reqheaders: { 'X-Wiil-Api-Key': 'tenant-b-key' } })
+      .get('/projects')
+      .reply(200, success([]));
+    const unscoped = nock(BASE_URL, { reqheaders: { 'X-Wiil-Api-Key': 'default-key' } })
+      .get('/projects')
+      .reply(200, success([]));
+
+    await Promise.all([
+      runWithCredentials('tenant-a-key', () => http.get('/projects')),
+      runWithCredentials(async () => 'tenant-b-key', () => http.get('/projects')),
+    ]);
+    await http.get('/projects');
+
+    expect(tenantA.isDone()).toBe(true);
+    expect(tenantB.isDone()).toBe(true);
+    expect(unscoped.isDone()).toBe(true);
+  });
+
+  it('should remember only the current and previous key for redaction', async () => {
+    const provider = vi
+      .fn<CredentialProvider>()
+      .mockResolvedValueOnce('key-1')
+      .mockResolvedValueOnce('key-2')
+      .mockResolvedValueOnce('key-3');
+    const credentials = new CredentialCache({ provider, cacheTtlMs: 0 });
+
+    await credentials.get();
+    await credentials.get();
+    await credentials.get();
+
+    expect(credentials.secrets()).toEqual(['key-3', 'key-2']);
+  });
+
+  it('should redact the scoped key from log output', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const http = new HttpClient({ apiKey: 'default-key', baseUrl: BASE_URL, timeout: 5000, logger });
+
+    nock(BASE_URL).get('/projects').reply(200, success([]));
+
+    await runWithCredentials('tenant-key', async () => {
+      await http.get('/projects');
+      http.logger.warn('using tenant-key and default-key');
+    });
+
+    expect(logger.warn).toHaveBeenCalledWith('using **** and ****');
+  });
+
+  it('should reject invalid scoped credentials', () => {
+    expect(() => runWithCredentials('  ', () => undefined)).toThrow(WiilConfigurationError);
+  });
+});
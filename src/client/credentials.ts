@@ -0,0 +1,211 @@
+/**
+ * @fileoverview API key resolution, caching, and per-request credential scopes.
+ * @module client/credentials
+ */
+
+import type { AsyncLocalStorage } from 'node:async_hooks';
+import { WiilConfigurationError } from '../errors/WiilError';
+import { CredentialProvider, CredentialsConfig, WiilCredentials } from './types';
+
+/**
+ * Credentials in effect for the current async context, set by {@link runWithCredentials}.
+ *
+ * @remarks
+ * Created on the first call to {@link runWithCredentials}, so runtimes without
+ * `node:async_hooks` can use the SDK as long as they do not scope credentials.
+ *
+ * @internal
+ */
+let scopedCredentials: AsyncLocalStorage<CredentialCache> | undefined;
+
+/**
+ * Resolves and caches the API key from a fixed key or a provider.
+ *
+ * @remarks
+ * Concurrent requests share one provider call. A key is cached until its
+ * `expiresAt`, until `cacheTtlMs` elapses, or until it is rejected by the API.
+ *
+ * @internal
+ */
+export class CredentialCache {
+  private readonly provider: CredentialProvider;
+  private readonly cacheTtlMs?: number;
+  private readonly refreshable: boolean;
+  private cached?: { apiKey: string; expiresAt: number };
+  private pending?: Promise<string>;
+  private recentKeys: string[] = [];
+
+  /**
+   * Creates a new CredentialCache instance.
+   *
+   * @param source - Fixed API key, provider, or provider with caching options
+   */
+  constructor(source: string | CredentialProvider | CredentialsConfig) {
+    if (typeof source === 'string') {
+      this.provider = () => source;
+      this.refreshable = false;
+    } else if (typeof source === 'function') {
+      this.provider = source;
+      this.refreshable = true;
+    } else {
+      this.provider = source.provider;
+      this.cacheTtlMs = source.cacheTtlMs;
+      this.refreshable = source.refreshOnUnauthorized ?? true;
+    }
+  }
+
+  /**
+   * Returns the cached API key, calling the provider when there is none.
+   *
+   * @returns Promise resolving to the API key
+   *
+   * @throws {@link WiilConfigurationError} - When the provider returns no key
+   */
+  public async get(): Promise<string> {
+    if (this.cached && Date.now() < this.cached.expiresAt) {
+      return this.cached.apiKey;
+    }
+
+    this.pending ??= this.resolve().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  /**
+   * Returns the API keys this cache resolved most recently, for redaction from
+   * log output.
+   *
+   * @returns The current key and the one it replaced, if any
+   */
+  public secrets(): string[] {
+    return this.recentKeys;
+  }
+
+  /**
+   * Drops a rejected API key so the next request resolves a new one.
+   *
+   * @param rejectedKey - API key the API rejected
+   * @returns True when a different key is now available
+   */
+  public async refresh(rejectedKey: string): Promise<boolean> {
+    if (!this.refreshable) {
+      return false;
+    }
+
+    if (this.cached?.apiKey === rejectedKey) {
+      this.cached = undefined;
+    }
+    return (await this.get()) !== rejectedKey;
+  }
+
+  /**
+   * Calls the provider and caches its key.
+   *
+   * @returns Promise resolving to the API key
+   */
+  private async resolve(): Promise<string> {
+    const result = await this.provider();
+    const credentials: WiilCredentials = typeof result === 'string' ? { apiKey: result } : result;
+
+    if (!credentials?.apiKey || credentials.apiKey.trim().length === 0) {
+      throw new WiilConfigurationError('Credential provider did not return an API key.');
+    }
+
+    const expiries = [
+      credentials.expiresAt !== undefined ? new Date(credentials.expiresAt).getTime() : Infinity,
+      this.cacheTtlMs !== undefined ? Date.now() + this.cacheTtlMs : Infinity,
+    ];
+    this.cached = { apiKey: credentials.apiKey, expiresAt: Math.min(...expiries) };
+    if (this.recentKeys[0] !== credentials.apiKey) {
+      this.recentKeys = [credentials.apiKey, ...this.recentKeys.slice(0, 1)];
+    }
+    return credentials.apiKey;
+  }
+}
+
+/**
+ * Runs a function with its own credentials for every request it makes.
+ *
+ * @typeParam T - Result type of the function
+ * @param credentials - API key, provider, or provider with caching options
+ * @param fn - Function whose requests use the credentials
+ * @returns Result of the function
+ *
+ * @remarks
+ * The credentials follow the async context, so concurrent calls for different
+ * tenants can share one client. They apply to every client and service used
+ * inside the function, overriding each one's configured credentials.
+ * Requires `AsyncLocalStorage` from `node:async_hooks` (Node.js, or the
+ * Node.js compatibility flag on Cloudflare Workers).
+ *
+ * @example
+ * ```typescript
+ * app.use((req, res, next) => {
+ *   runWithCredentials(() => tenantKeys.get(req.tenantId), next);
+ * });
+ *
+ * // Later, in a handler for the same request
+ * const customers = await client.customers.list();
+ * ```
+ */
+export function runWithCredentials<T>(
+  credentials: string | CredentialProvider | CredentialsConfig,
+  fn: () => T
+): T {
+  validateCredentials(credentials);
+  if (!scopedCredentials) {
+    const { AsyncLocalStorage } = require('node:async_hooks') as typeof import('node:async_hooks');
+    scopedCredentials = new AsyncLocalStorage<CredentialCache>();
+  }
+  return scopedCredentials.run(new CredentialCache(credentials), fn);
+}
+
+/**
+ * Returns the credentials in effect for the current async context.
+ *
+ * @param fallback - Credentials configured on the client
+ * @returns Scoped credentials, or the fallback when none are set
+ *
+ * @internal
+ */
+export function activeCredentials(fallback: CredentialCache): CredentialCache {
+  return scopedCredentials?.getStore() ?? fallback;
+}
+
+/**
+ * Validates the credentials of a client configuration.
+ *
+ * @param credentials - Fixed API key, provider, or provider with caching options
+ *
+ * @throws {@link WiilConfigurationError} - When no usable credentials are given
+ *
+ * @internal
+ */
+export function validateCredentials(
+  credentials: string | CredentialProvider | CredentialsConfig | undefined
+): void {
+  if (credentials === undefined || credentials === '') {
+    throw new WiilConfigurationError(
+      'API key is required. Please provide a valid API key in the configuration.'
+    );
+  }
+
+  if (typeof credentials === 'string' && credentials.trim().length === 0) {
+    throw new WiilConfigurationError(
+      'API key cannot be empty. Please provide a valid API key.'
+    );
+  }
+
+  if (typeof credentials === 'object' && typeof credentials.provider !== 'function') {
+    throw new WiilConfigurationError('Credentials provider must be a function.');
+  }
+
+  if (
+    typeof credentials === 'object' &&
+    credentials.cacheTtlMs !== undefined &&
+    !(credentials.cacheTtlMs >= 0)
+  ) {
+    throw new WiilConfigurationError('Credentials cacheTtlMs must be a non-negative number.');
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Idempotency key generation for the HTTP client.
+ * @module client/idempotency
+ */
+
+/**
+ * Header used to send idempotency keys to the API.
+ *
+ * @internal
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Generates a new idempotency key.
+ *
+ * @returns A random UUID v4 string
+ *
+ * @remarks
+ * Uses the Web Crypto API when it is available. Node's `crypto` module is
+ * loaded only as a fallback on Node.js versions without the global, so edge
+ * runtimes and bundles never load it.
+ *
+ * @internal
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+
+  const { randomUUID } = require('node:crypto') as typeof import('node:crypto');
+  return randomUUID();
+}
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Tests for the SDK logger.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createLogger, pinoLogger, redactId, redactPath } from './logger';
+
+const createLoggerSpy = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+describe('createLogger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should drop debug messages unless debug is enabled', () => {
+    const target = createLoggerSpy();
+
+    createLogger(target, { debug: false, secrets: () => [] }).debug('hidden');
+    createLogger(target, { debug: true, secrets: () => [] }).debug('shown');
+
+    expect(target.debug).toHaveBeenCalledTimes(1);
+    expect(target.debug).toHaveBeenCalledWith('shown');
+  });
+
+  it('should always forward info, warn, and error messages', () => {
+    const target = createLoggerSpy();
+    const logger = createLogger(target, { debug: false, secrets: () => [] });
+
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(target.info).toHaveBeenCalledWith('info');
+    expect(target.warn).toHaveBeenCalledWith('warn');
+    expect(target.error).toHaveBeenCalledWith('error');
+  });
+
+  it('should redact secrets from messages and structured fields', () => {
+    const target = createLoggerSpy();
+    const logger = createLogger(target, { debug: false, secrets: () => ['sk_live_secret'] });
+
+    logger.warn('key sk_live_secret rejected', {
+      headers: { 'X-Wiil-Api-Key': 'sk_live_secret' },
+      values: ['sk_live_secret'],
+      error: new Error('bad key sk_live_secret'),
+    });
+
+    const [message, fields] = target.warn.mock.calls[0];
+    expect(message).toBe('key **** rejected');
+    expect(fields.headers['X-Wiil-Api-Key']).toBe('****');
+    expect(fields.values).toEqual(['****']);
+    expect(fields.error).toBeInstanceOf(Error);
+    expect(fields.error.message).toBe('bad key ****');
+  });
+
+  it('should write to the console when no logger is configured', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    createLogger(undefined, { debug: false, secrets: () => [] }).warn('drift', { path: '/projects' });
+
+    expect(warn).toHaveBeenCalledWith('drift', { path: '/projects' });
+  });
+});
+
+describe('redactId', () => {
+  it('should keep only the last four characters', () => {
+    expect(redactId('req_8f14e45fceea167a')).toBe('****167a');
+  });
+
+  it('should fully mask short identifiers', () => {
+    expect(redactId('abc')).toBe('****');
+  });
+
+  it('should return undefined when there is no identifier', () => {
+    expect(redactId(undefined)).toBeUndefined();
+  });
+});
+
+describe('redactPath', () => {
+  it('should replace IDs, phone numbers, and email addresses with a placeholder', () => {
+    expect(redactPath('/customers/cust_123')).toBe('/customers/:id');
+    expect(redactPath('/customers/by-phone/+12125551234')).toBe('/customers/by-phone/:id');
+    expect(redactPath('/customers/by-email/jane@example.com')).toBe('/customers/by-email/:id');
+  });
+
+  it('should drop the query string', () => {
+    expect(redactPath('/customers?email=jane@example.com&page=2')).toBe('/customers');
+  });
+});
+
+describe('pinoLogger', () => {
+  it('should pass structured fields before the message', () => {
+    const target = createLoggerSpy();
+    const logger = createLogger(pinoLogger(target), { debug: true, secrets: () => ['sk_live_secret'] });
+
+    logger.debug('GET /projects 200 12ms', { method: 'GET', status: 200 });
+    logger.info('Setup complete');
+    logger.error('key sk_live_secret rejected', new Error('bad key'));
+
+    expect(target.debug).toHaveBeenCalledWith({ method: 'GET', status: 200 }, 'GET /projects 200 12ms');
+    expect(target.info).toHaveBeenCalledWith('Setup complete');
+    expect(target.error).toHaveBeenCalledWith({ err: expect.any(Error) }, 'key **** rejected');
+  });
+});
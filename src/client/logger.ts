@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Pluggable logging for the WIIL SDK.
+ * @module client/logger
+ */
+
+/**
+ * Logger used by the SDK.
+ *
+ * @remarks
+ * Each method receives a message followed by an optional object of structured
+ * fields, so winston and `console` can be passed directly. Loggers that take
+ * the fields first, such as pino and bunyan, are wrapped with
+ * {@link pinoLogger}.
+ *
+ * @example
+ * ```typescript
+ * import winston from 'winston';
+ *
+ * const client = new WiilClient({
+ *   apiKey: process.env.WIIL_API_KEY!,
+ *   logger: winston.createLogger({ transports: [new winston.transports.Console()] }),
+ *   debug: true
+ * });
+ * ```
+ */
+export interface WiilLogger {
+  /**
+   * Logs request details when debug mode is enabled.
+   */
+  debug(message: string, ...args: unknown[]): void;
+
+  /**
+   * Logs progress of long-running operations such as agent setup.
+   */
+  info(message: string, ...args: unknown[]): void;
+
+  /**
+   * Logs recoverable problems such as response schema drift.
+   */
+  warn(message: string, ...args: unknown[]): void;
+
+  /**
+   * Logs failures.
+   */
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Logger that takes structured fields before the message, such as pino and bunyan.
+ */
+export interface PinoLikeLogger {
+  debug(fields: object, message?: string): void;
+  debug(message: string): void;
+  info(fields: object, message?: string): void;
+  info(message: string): void;
+  warn(fields: object, message?: string): void;
+  warn(message: string): void;
+  error(fields: object, message?: string): void;
+  error(message: string): void;
+}
+
+/**
+ * Adapts a logger that takes structured fields first, such as pino or bunyan.
+ *
+ * @param logger - Logger to write to
+ * @returns Logger to pass as the `logger` option
+ *
+ * @remarks
+ * Structured fields are passed as the first argument and the message as the
+ * second. Messages logged without fields are passed on their own.
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ *
+ * const client = new WiilClient({
+ *   apiKey: process.env.WIIL_API_KEY!,
+ *   logger: pinoLogger(pino()),
+ *   debug: true
+ * });
+ * ```
+ */
+export function pinoLogger(logger: PinoLikeLogger): WiilLogger {
+  const forward =
+    (level: keyof PinoLikeLogger) =>
+    (message: string, ...args: unknown[]) => {
+      const [fields] = args;
+      if (fields instanceof Error) {
+        logger[level]({ err: fields }, message);
+      } else if (fields !== null && typeof fields === 'object') {
+        logger[level](fields, message);
+      } else {
+        logger[level](message);
+      }
+    };
+
+  return { debug: forward('debug'), info: forward('info'), warn: forward('warn'), error: forward('error') };
+}
+
+/**
+ * Response header carrying the API request ID.
+ *
+ * @internal
+ */
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+/**
+ * Placeholder written in place of secrets.
+ *
+ * @internal
+ */
+const REDACTED = '****';
+
+/**
+ * Logger writing to the console, used when no logger is configured.
+ *
+ * @internal
+ */
+const consoleLogger: WiilLogger = {
+  debug: (message, ...args) => console.debug(message, ...args),
+  info: (message, ...args) => console.info(message, ...args),
+  warn: (message, ...args) => console.warn(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
+};
+
+/**
+ * Options for {@link createLogger}.
+ *
+ * @internal
+ */
+export interface LoggerOptions {
+  /**
+   * Whether debug messages are forwarded.
+   */
+  debug: boolean;
+
+  /**
+   * Returns the values that must never appear in log output, such as the API key.
+   *
+   * @remarks
+   * Called on every log call, in the caller's async context, so credentials
+   * resolved later or scoped to the current request are redacted too.
+   */
+  secrets: () => string[];
+}
+
+/**
+ * Wraps the configured logger so debug output is gated and secrets are redacted.
+ *
+ * @param logger - Logger from the client configuration; defaults to the console
+ * @param options - Debug mode and secrets to redact
+ * @returns Logger used internally by the SDK
+ *
+ * @internal
+ */
+export function createLogger(logger: WiilLogger | undefined, options: LoggerOptions): WiilLogger {
+  const target = logger ?? consoleLogger;
+  const scrub = (value: unknown) =>
+    redactSecrets(value, options.secrets().filter((secret) => secret.length > 0));
+
+  return {
+    debug: (message, ...args) => {
+      if (options.debug) {
+        target.debug(scrub(message) as string, ...args.map(scrub));
+      }
+    },
+    info: (message, ...args) => target.info(scrub(message) as string, ...args.map(scrub)),
+    warn: (message, ...args) => target.warn(scrub(message) as string, ...args.map(scrub)),
+    error: (message, ...args) => target.error(scrub(message) as string, ...args.map(scrub)),
+  };
+}
+
+/**
+ * Masks an identifier, keeping only its last four characters.
+ *
+ * @param value - Identifier such as a request ID
+ * @returns Masked identifier, or undefined when there is no value
+ *
+ * @example
+ * ```typescript
+ * redactId('req_8f14e45fceea167a'); // '****167a'
+ * ```
+ *
+ * @internal
+ */
+export function redactId(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return value.length > 8 ? `${REDACTED}${value.slice(-4)}` : REDACTED;
+}
+
+/**
+ * Hides the identifiers and other values in a request path, such as IDs,
+ * phone numbers, and email addresses, leaving its route.
+ *
+ * @param path - Request path, with or without a query string
+ * @returns Path with every segment that is not a plain lower-case word
+ * replaced by `:id`, and without the query string
+ *
+ * @example
+ * ```typescript
+ * redactPath('/customers/by-email/jane@example.com'); // '/customers/by-email/:id'
+ * ```
+ *
+ * @internal
+ */
+export function redactPath(path: string): string {
+  return path
+    .split('?')[0]
+    .split('/')
+    .map((segment) => (segment === '' || /^[a-z]+(-[a-z]+)*$/.test(segment) ? segment : ':id'))
+    .join('/');
+}
+
+/**
+ * Replaces every occurrence of the secrets in a log argument.
+ *
+ * @param value - Message or structured field value
+ * @param secrets - Values to redact
+ * @returns Value with secrets replaced
+ *
+ * @internal
+ */
+function redactSecrets(value: unknown, secrets: string[]): unknown {
+  if (secrets.length === 0) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value);
+  }
+
+  if (value instanceof Error) {
+    const redacted = new Error(redactSecrets(value.message, secrets) as string);
+    redacted.name = value.name;
+    return redacted;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item, secrets));
+  }
+
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactSecrets(item, secrets)])
+    );
+  }
+
+  return value;
+}
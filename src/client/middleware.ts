@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Request/response middleware types for the WIIL SDK.
+ * @module client/middleware
+ */
+
+import { APIResponse, HttpMethod, RateLimitInfo } from './types';
+
+/**
+ * Outgoing request as seen by middleware.
+ *
+ * @remarks
+ * Middleware may return a modified copy of the request from
+ * {@link WiilMiddleware.onRequest} to add headers or rewrite the path.
+ */
+export interface MiddlewareRequest {
+  /**
+   * HTTP method.
+   */
+  method: HttpMethod;
+
+  /**
+   * API endpoint path relative to the base URL, including any query string.
+   */
+  path: string;
+
+  /**
+   * Request headers added by the SDK and middleware.
+   *
+   * @remarks
+   * The API key header is applied after middleware runs and is never exposed here.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Request payload for POST, PUT, and PATCH requests.
+   */
+  data?: unknown;
+
+  /**
+   * Attempt number, starting at 1 and incremented on each retry.
+   */
+  attempt: number;
+
+  /**
+   * Per-request state shared between middleware stages.
+   *
+   * @remarks
+   * Use this to carry values such as start times from `onRequest` to
+   * `onResponse` or `onError`.
+   */
+  context: Record<string, unknown>;
+}
+
+/**
+ * API response as seen by middleware.
+ *
+ * @typeParam T - The type of data contained in the response
+ */
+export interface MiddlewareResponse<T = unknown> {
+  /**
+   * HTTP status code.
+   */
+  status: number;
+
+  /**
+   * Response headers with lower-cased names.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Full API response envelope.
+   */
+  data: APIResponse<T>;
+
+  /**
+   * Rate-limit state reported in the response headers, if any.
+   */
+  rateLimit?: RateLimitInfo;
+}
+
+/**
+ * Middleware that can observe and modify requests made by the SDK.
+ *
+ * @remarks
+ * `onRequest` handlers run in registration order. `onResponse` and `onError`
+ * handlers run in reverse registration order, so the first middleware
+ * registered wraps all others.
+ *
+ * Every stage is optional and may be async.
+ *
+ * @example
+ * ```typescript
+ * // Time every request
+ * client.use({
+ *   name: 'timing',
+ *   onRequest: (request) => {
+ *     request.context.startedAt = Date.now();
+ *   },
+ *   onResponse: (response, request) => {
+ *     const elapsed = Date.now() - (request.context.startedAt as number);
+ *     console.log(`${request.method} ${request.path} ${response.status} ${elapsed}ms`);
+ *   }
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Serve repeated GET requests from a cache
+ * const cache = new Map<string, MiddlewareResponse>();
+ *
+ * client.use({
+ *   name: 'cache',
+ *   onRequest: (request) => request.method === 'GET' ? cache.get(request.path) : undefined,
+ *   onResponse: (response, request) => {
+ *     if (request.method === 'GET') cache.set(request.path, response);
+ *   }
+ * });
+ * ```
+ */
+export interface WiilMiddleware {
+  /**
+   * Optional name used to identify the middleware.
+   */
+  name?: string;
+
+  /**
+   * Called before a request is sent.
+   *
+   * @remarks
+   * Return a modified request to replace it, or a {@link MiddlewareResponse}
+   * to short-circuit the request without contacting the API. Return nothing
+   * to continue with the request unchanged.
+   */
+  onRequest?: (
+    request: MiddlewareRequest
+  ) => MiddlewareRequest | MiddlewareResponse | void | Promise<MiddlewareRequest | MiddlewareResponse | void>;
+
+  /**
+   * Called after a successful response is received.
+   *
+   * @remarks
+   * Return a modified response to replace it, or nothing to keep it unchanged.
+   */
+  onResponse?: (
+    response: MiddlewareResponse,
+    request: MiddlewareRequest
+  ) => MiddlewareResponse | void | Promise<MiddlewareResponse | void>;
+
+  /**
+   * Called when a request fails.
+   *
+   * @remarks
+   * Return a {@link MiddlewareResponse} to recover from the error, a different
+   * error to replace it, or nothing to propagate it unchanged.
+   */
+  onError?: (
+    error: Error,
+    request: MiddlewareRequest
+  ) => MiddlewareResponse | Error | void | Promise<MiddlewareResponse | Error | void>;
+}
+
+/**
+ * Determines whether a middleware result is a response.
+ *
+ * @param value - Value returned by a middleware stage
+ * @returns True if the value is a {@link MiddlewareResponse}
+ *
+ * @internal
+ */
+export function isMiddlewareResponse(value: unknown): value is MiddlewareResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'status' in value &&
+    'data' in value &&
+    !('method' in value)
+  );
+}
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Tests for pagination helpers.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PaginatedResultType } from 'wiil-core-js';
+import { PageIterator, paginate } from './pagination';
+
+const createPage = (page: number, totalPages: number, pageSize = 2): PaginatedResultType<number> => ({
+  data: Array.from({ length: pageSize }, (_, i) => (page - 1) * pageSize + i + 1),
+  meta: {
+    page,
+    pageSize,
+    totalCount: totalPages * pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPreviousPage: page > 1,
+  },
+});
+
+describe('pagination', () => {
+  it('should yield every item across all pages', async () => {
+    const fetchPage = vi.fn(async (params: { page?: number; pageSize?: number }) =>
+      createPage(params.page!, 3)
+    );
+
+    const items = await paginate(fetchPage, { pageSize: 2 }).toArray();
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(fetchPage.mock.calls.map(([params]) => params)).toEqual([
+      { pageSize: 2, page: 1 },
+      { pageSize: 2, page: 2 },
+      { pageSize: 2, page: 3 },
+    ]);
+  });
+
+  it('should start from the requested page', async () => {
+    const fetchPage = vi.fn(async (params: { page?: number }) => createPage(params.page!, 3));
+
+    const items = await paginate(fetchPage, { page: 2 }).toArray();
+
+    expect(items).toEqual([3, 4, 5, 6]);
+  });
+
+  it('should stop fetching when iteration ends early', async () => {
+    const fetchPage = vi.fn(async (params: { page?: number }) => createPage(params.page!, 10));
+
+    const seen: number[] = [];
+    for await (const item of paginate(fetchPage)) {
+      seen.push(item);
+      if (item === 3) break;
+    }
+
+    expect(seen).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop on an empty page', async () => {
+    const fetchPage = vi.fn(async () => ({
+      data: [],
+      meta: { page: 1, pageSize: 20, totalCount: 0, totalPages: 0, hasNextPage: false, hasPreviousPage: false },
+    }));
+
+    expect(await paginate(fetchPage).toArray()).toEqual([]);
+    expect(fetchPage).toHaveBeenCalledOnce();
+  });
+
+  it('should prefetch pages ahead while yielding them in order', async () => {
+    const started: number[] = [];
+    const fetchPage = vi.fn(async (page: number) => {
+      started.push(page);
+      // Later pages resolve first to verify ordering
+      await new Promise((resolve) => setTimeout(resolve, 10 - page));
+      return createPage(page, 4);
+    });
+    const iterator = new PageIterator(fetchPage, 1, { prefetch: 2 });
+
+    const pages = iterator.pages();
+    const first = await pages.next();
+
+    expect(first.value?.meta.page).toBe(1);
+    expect(started).toEqual([1, 2, 3]);
+
+    const rest: number[] = [];
+    for await (const page of pages) {
+      rest.push(page.meta.page);
+    }
+
+    expect(rest).toEqual([2, 3, 4]);
+    expect(fetchPage).toHaveBeenCalledTimes(4);
+  });
+
+  it('should rethrow a failed prefetched page in order without an unhandled rejection', async () => {
+    const unhandled = vi.fn();
+    process.on('unhandledRejection', unhandled);
+    // A plain function: vi.fn would attach its own handler to the promise
+    const fetchPage = async (page: number) => {
+      if (page === 2) throw new Error('page 2 failed');
+      return createPage(page, 3);
+    };
+    const iterator = new PageIterator(fetchPage, 1, { prefetch: 2 });
+
+    const seen: number[] = [];
+    try {
+      await expect(
+        (async () => {
+          for await (const page of iterator.pages()) {
+            seen.push(page.meta.page);
+            // Let the prefetched failure settle while the consumer is busy
+            await new Promise((resolve) => setTimeout(resolve, 10));
+          }
+        })()
+      ).rejects.toThrow('page 2 failed');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+
+    expect(seen).toEqual([1]);
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+
+  it('should propagate errors from page requests', async () => {
+    const fetchPage = vi.fn(async (params: { page?: number }) => {
+      if (params.page === 2) throw new Error('boom');
+      return createPage(params.page!, 3);
+    });
+
+    await expect(paginate(fetchPage).toArray()).rejects.toThrow('boom');
+  });
+});
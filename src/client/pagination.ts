@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Auto-pagination helpers for paginated list methods.
+ * @module client/pagination
+ */
+
+import { PaginatedResultType } from 'wiil-core-js';
+import { RequestOptions } from './types';
+
+/**
+ * Options for iterating over paginated results.
+ *
+ * @remarks
+ * Request options such as `signal` apply to every page request.
+ *
+ * @example
+ * ```typescript
+ * // Fetch up to two pages ahead while processing the current one
+ * for await (const customer of client.customers.iterate({ pageSize: 100 }, undefined, { prefetch: 2 })) {
+ *   await syncCustomer(customer);
+ * }
+ * ```
+ */
+export interface PaginateOptions extends RequestOptions {
+  /**
+   * Number of pages to request ahead of the page being consumed.
+   *
+   * @defaultValue 0 (pages are fetched one at a time)
+   *
+   * @remarks
+   * Prefetching starts once the first page has reported the total page count
+   * and never requests pages beyond it. Pages are always yielded in order.
+   */
+  prefetch?: number;
+}
+
+/**
+ * Async iterator over every item of a paginated list.
+ *
+ * @typeParam T - The type of items in each page
+ *
+ * @remarks
+ * Pages are fetched lazily as the iterator is consumed, so breaking out of a
+ * `for await` loop stops further requests.
+ *
+ * @example
+ * ```typescript
+ * // Iterate item by item
+ * for await (const appointment of client.serviceAppointments.iterateByCustomer('cust_123')) {
+ *   if (appointment.status === 'cancelled') break;
+ * }
+ *
+ * // Iterate page by page
+ * for await (const page of client.serviceAppointments.iterate({ pageSize: 50 }).pages()) {
+ *   console.log(`Page ${page.meta.page} of ${page.meta.totalPages}`);
+ * }
+ *
+ * // Collect everything into an array
+ * const all = await client.serviceAppointments.iterate().toArray();
+ * ```
+ */
+export class PageIterator<T> implements AsyncIterable<T> {
+  private readonly fetchPage: (page: number) => Promise<PaginatedResultType<T>>;
+  private readonly startPage: number;
+  private readonly prefetch: number;
+
+  /**
+   * Creates a new PageIterator instance.
+   *
+   * @param fetchPage - Function fetching a single page by number
+   * @param startPage - First page to fetch
+   * @param options - Iteration options
+   *
+   * @internal
+   */
+  constructor(
+    fetchPage: (page: number) => Promise<PaginatedResultType<T>>,
+    startPage = 1,
+    options?: PaginateOptions
+  ) {
+    this.fetchPage = fetchPage;
+    this.startPage = startPage;
+    this.prefetch = Math.max(0, Math.floor(options?.prefetch ?? 0));
+  }
+
+  /**
+   * Iterates over the pages of the list.
+   *
+   * @returns Async generator yielding each page in order
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public async *pages(): AsyncGenerator<PaginatedResultType<T>, void, undefined> {
+    const inFlight: Promise<PaginatedResultType<T>>[] = [];
+    let nextPage = this.startPage;
+
+    for (;;) {
+      if (inFlight.length === 0) {
+        inFlight.push(this.fetchPage(nextPage++));
+      }
+
+      const page = await inFlight.shift()!;
+
+      if (page.data.length === 0 || !page.meta.hasNextPage) {
+        yield page;
+        return;
+      }
+
+      // Request upcoming pages before handing this one to the consumer. A
+      // failure is marked as handled now and rethrown when its turn comes,
+      // so it cannot surface as an unhandled rejection while the consumer
+      // is still working or after an early break.
+      while (inFlight.length < this.prefetch && nextPage <= page.meta.totalPages) {
+        const pending = this.fetchPage(nextPage++);
+        pending.catch(() => undefined);
+        inFlight.push(pending);
+      }
+
+      yield page;
+    }
+  }
+
+  /**
+   * Iterates over every item across all pages.
+   *
+   * @returns Async iterator yielding each item in order
+   */
+  public async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.data;
+    }
+  }
+
+  /**
+   * Collects every item across all pages into an array.
+   *
+   * @returns Promise resolving to all items
+   *
+   * @remarks
+   * Loads the entire list into memory. Iterate with `for await` to process
+   * large lists incrementally.
+   */
+  public async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
+
+/**
+ * Creates an iterator over every page of a paginated method.
+ *
+ * @typeParam T - The type of items in each page
+ * @typeParam P - Pagination parameters accepted by the method
+ * @param fetchPage - Method fetching a single page with the given parameters
+ * @param params - Initial parameters; `page` sets the starting page
+ * @param options - Iteration options
+ * @returns Iterator over every item
+ *
+ * @internal
+ */
+export function paginate<T, P extends { page?: number }>(
+  fetchPage: (params: P) => Promise<PaginatedResultType<T>>,
+  params?: P,
+  options?: PaginateOptions
+): PageIterator<T> {
+  return new PageIterator<T>(
+    (page) => fetchPage({ ...params, page } as P),
+    params?.page ?? 1,
+    options
+  );
+}
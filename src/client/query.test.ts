@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Tests for the shared query string builder.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildQueryString } from './query';
+
+describe('buildQueryString', () => {
+  it('should return an empty string when no parameters are set', () => {
+    expect(buildQueryString()).toBe('');
+    expect(buildQueryString(undefined, {})).toBe('');
+  });
+
+  it('should merge parameters from every source', () => {
+    expect(buildQueryString({ page: 2, pageSize: 50 }, { search: 'jane' })).toBe(
+      '?page=2&pageSize=50&search=jane'
+    );
+  });
+
+  it('should omit undefined, null, and empty values', () => {
+    expect(buildQueryString({ page: 1, sortBy: undefined, search: '', status: null })).toBe('?page=1');
+  });
+
+  it('should keep falsy values that are set', () => {
+    expect(buildQueryString({ page: 0, includeDeleted: false })).toBe('?page=0&includeDeleted=false');
+  });
+
+  it('should send arrays as repeated parameters', () => {
+    expect(buildQueryString({ tags: ['vip', 'new'] })).toBe('?tags=vip&tags=new');
+  });
+
+  it('should send dates as millisecond timestamps', () => {
+    expect(buildQueryString({ startDate: new Date(1700000000000) })).toBe('?startDate=1700000000000');
+  });
+
+  it('should let later sources override earlier ones', () => {
+    expect(buildQueryString({ status: 'pending' }, { status: 'confirmed' })).toBe('?status=confirmed');
+  });
+
+  it('should encode special characters', () => {
+    expect(buildQueryString({ search: 'a&b c' })).toBe('?search=a%26b+c');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Shared query string builder for list endpoints.
+ * @module client/query
+ */
+
+import { PaginationRequest } from 'wiil-core-js';
+
+/**
+ * Field names of an entity that can be used for sorting.
+ *
+ * @typeParam T - Entity type
+ */
+export type SortField<T> = Extract<keyof T, string>;
+
+/**
+ * Pagination and sorting parameters accepted by list methods.
+ *
+ * @typeParam T - Entity type returned by the list method
+ *
+ * @remarks
+ * `sortBy` is restricted to the fields of the entity, so sorting by a
+ * field that does not exist is rejected at compile time.
+ *
+ * @example
+ * ```typescript
+ * const page = await client.customers.list({
+ *   page: 1,
+ *   pageSize: 50,
+ *   sortBy: 'lastName',
+ *   sortDirection: 'asc'
+ * });
+ * ```
+ */
+export interface ListParams<T> {
+  /**
+   * Page number, starting at 1.
+   */
+  page?: number;
+
+  /**
+   * Number of items per page.
+   */
+  pageSize?: number;
+
+  /**
+   * Entity field to sort by.
+   */
+  sortBy?: SortField<T>;
+
+  /**
+   * Sort direction.
+   */
+  sortDirection?: PaginationRequest['sortDirection'];
+}
+
+/**
+ * Date range filters shared by time-based list endpoints.
+ */
+export interface DateRangeFilters {
+  /** Range start timestamp */
+  startDate?: number;
+  /** Range end timestamp */
+  endDate?: number;
+}
+
+/**
+ * Value types that can be serialized into a query string.
+ *
+ * @internal
+ */
+type QueryValue = string | number | boolean | Date | null | undefined | ReadonlyArray<string | number>;
+
+/**
+ * Builds a query string from one or more parameter objects.
+ *
+ * @param sources - Parameter objects such as pagination params and filters; later sources win
+ * @returns Query string including the leading `?`, or an empty string when no parameters are set
+ *
+ * @remarks
+ * - `undefined`, `null`, and empty string values are omitted
+ * - Arrays are sent as repeated parameters (`tags=a&tags=b`)
+ * - Dates are sent as millisecond timestamps
+ *
+ * @internal
+ */
+export function buildQueryString(...sources: Array<object | undefined>): string {
+  const values: Record<string, QueryValue> = {};
+  for (const source of sources) {
+    Object.assign(values, source);
+  }
+
+  const queryParams = new URLSearchParams();
+
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined || value === null || value === '') continue;
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => queryParams.append(name, String(item)));
+    } else if (value instanceof Date) {
+      queryParams.append(name, value.getTime().toString());
+    } else {
+      queryParams.append(name, String(value));
+    }
+  }
+
+  const query = queryParams.toString();
+  return query ? `?${query}` : '';
+}
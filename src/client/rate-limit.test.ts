@@ -0,0 +1,149 @@
+/**
+ * @fileoverview Tests for rate-limit parsing and client-side throttling.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { WiilAbortError, WiilConfigurationError } from '../errors/WiilError';
+import {
+  RateLimiter,
+  TokenBucket,
+  parseRateLimitHeaders,
+  validateRateLimitConfig,
+} from './rate-limit';
+
+describe('parseRateLimitHeaders', () => {
+  it('should return undefined when no rate-limit headers are present', () => {
+    expect(parseRateLimitHeaders({ 'content-type': 'application/json' })).toBeUndefined();
+  });
+
+  it('should parse X-RateLimit headers with an epoch reset', () => {
+    expect(
+      parseRateLimitHeaders({
+        'x-ratelimit-limit': '100',
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': '1700000000',
+        'retry-after': '2',
+      })
+    ).toEqual({ limit: 100, remaining: 0, resetAt: 1700000000000, retryAfter: 2000 });
+  });
+
+  it('should parse RateLimit headers with a delta reset', () => {
+    vi.useFakeTimers({ now: 1000 });
+
+    expect(
+      parseRateLimitHeaders({ 'ratelimit-limit': '10', 'ratelimit-remaining': '4', 'ratelimit-reset': '30' })
+    ).toEqual({ limit: 10, remaining: 4, resetAt: 31000 });
+
+    vi.useRealTimers();
+  });
+
+  it('should ignore values that are not numeric', () => {
+    expect(parseRateLimitHeaders({ 'x-ratelimit-limit': 'unlimited', 'x-ratelimit-remaining': '5' })).toEqual({
+      remaining: 5,
+    });
+  });
+});
+
+describe('validateRateLimitConfig', () => {
+  it('should accept a valid configuration', () => {
+    expect(() =>
+      validateRateLimitConfig({
+        requestsPerSecond: 10,
+        burst: 20,
+        routes: { '/outbound-calls': { requestsPerSecond: 1 } },
+      })
+    ).not.toThrow();
+  });
+
+  it('should reject non-positive rates, invalid bursts, and relative route prefixes', () => {
+    expect(() => validateRateLimitConfig({ requestsPerSecond: 0 })).toThrow(WiilConfigurationError);
+    expect(() => validateRateLimitConfig({ requestsPerSecond: 5, burst: 0.5 })).toThrow(WiilConfigurationError);
+    expect(() => validateRateLimitConfig({ routes: { 'outbound-calls': { requestsPerSecond: 1 } } })).toThrow(
+      WiilConfigurationError
+    );
+  });
+});
+
+describe('TokenBucket', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should release a burst immediately and queue the rest in order', async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket({ requestsPerSecond: 2, burst: 2 });
+    const released: number[] = [];
+
+    const waits = [1, 2, 3, 4].map((n) => bucket.acquire().then(() => released.push(n)));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(released).toEqual([1, 2]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(released).toEqual([1, 2, 3]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(waits);
+    expect(released).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should reject queued callers when their signal is aborted', async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket({ requestsPerSecond: 1, burst: 1 });
+    const controller = new AbortController();
+
+    await bucket.acquire();
+    const pending = bucket.acquire(controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toThrow(WiilAbortError);
+  });
+
+  it('should hold callers while paused', async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket({ requestsPerSecond: 10, burst: 10 });
+    const released = vi.fn();
+
+    bucket.pause(1000);
+    const pending = bucket.acquire().then(released);
+
+    await vi.advanceTimersByTimeAsync(900);
+    expect(released).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(200);
+    await pending;
+    expect(released).toHaveBeenCalled();
+  });
+});
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should apply the most specific route group in addition to the client limit', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({
+      requestsPerSecond: 100,
+      routes: {
+        '/business-requests': { requestsPerSecond: 10 },
+        '/business-requests/sms': { requestsPerSecond: 1, burst: 1 },
+      },
+    });
+    const released: string[] = [];
+
+    const waits = [
+      limiter.acquire('/business-requests/sms').then(() => released.push('sms-1')),
+      limiter.acquire('/business-requests/sms/batch').then(() => released.push('sms-2')),
+      limiter.acquire('/business-requests/calls').then(() => released.push('call')),
+      limiter.acquire('/customers?page=1').then(() => released.push('customers')),
+    ];
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(released).toEqual(['sms-1', 'call', 'customers']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(waits);
+    expect(released).toContain('sms-2');
+  });
+});
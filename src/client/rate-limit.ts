@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Rate-limit header parsing and client-side throttling.
+ * @module client/rate-limit
+ */
+
+import { WiilAbortError, WiilConfigurationError } from '../errors/WiilError';
+import { throwIfAborted } from './abort';
+import { parseRetryAfter } from './retry';
+import { RateLimitConfig, RateLimitInfo, RateLimitRule } from './types';
+
+/**
+ * Values above this are treated as Unix timestamps in seconds rather than
+ * delays in seconds when parsing reset headers.
+ *
+ * @internal
+ */
+const EPOCH_SECONDS_THRESHOLD = 1_000_000_000;
+
+/**
+ * Parses rate-limit headers from a response.
+ *
+ * @param headers - Response headers with lower-cased names
+ * @returns Rate-limit information, or undefined when no rate-limit headers are present
+ *
+ * @internal
+ */
+export function parseRateLimitHeaders(headers: Record<string, string>): RateLimitInfo | undefined {
+  const header = (name: string) => headers[`x-ratelimit-${name}`] ?? headers[`ratelimit-${name}`];
+
+  const limit = parseNumber(header('limit'));
+  const remaining = parseNumber(header('remaining'));
+  const reset = parseNumber(header('reset'));
+  const retryAfter = parseRetryAfter(headers['retry-after']);
+
+  if (limit === undefined && remaining === undefined && reset === undefined && retryAfter === undefined) {
+    return undefined;
+  }
+
+  const info: RateLimitInfo = {};
+  if (limit !== undefined) info.limit = limit;
+  if (remaining !== undefined) info.remaining = remaining;
+  if (reset !== undefined) {
+    info.resetAt = reset > EPOCH_SECONDS_THRESHOLD ? reset * 1000 : Date.now() + reset * 1000;
+  }
+  if (retryAfter !== undefined) info.retryAfter = retryAfter;
+
+  return info;
+}
+
+/**
+ * Parses a numeric header value.
+ *
+ * @param value - Header value
+ * @returns Parsed number, or undefined if the value is missing or not numeric
+ *
+ * @internal
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim().length === 0) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Validates the client-side rate limiter configuration.
+ *
+ * @param config - Rate limiter configuration to validate
+ *
+ * @throws {@link WiilConfigurationError} - When a rate limit option is invalid
+ *
+ * @internal
+ */
+export function validateRateLimitConfig(config?: RateLimitConfig): void {
+  if (!config) {
+    return;
+  }
+
+  validateRateLimitRule('Rate limit', config);
+
+  for (const [prefix, rule] of Object.entries(config.routes ?? {})) {
+    if (!prefix.startsWith('/')) {
+      throw new WiilConfigurationError(
+        `Rate limit route "${prefix}" must be a path prefix starting with "/".`
+      );
+    }
+    validateRateLimitRule(`Rate limit for route "${prefix}"`, rule);
+  }
+}
+
+/**
+ * Validates a single rate limit rule.
+ *
+ * @param label - Label used in error messages
+ * @param rule - Rule to validate
+ *
+ * @throws {@link WiilConfigurationError} - When the rule is invalid
+ *
+ * @internal
+ */
+function validateRateLimitRule(label: string, rule: Partial<RateLimitRule>): void {
+  if (rule.requestsPerSecond !== undefined && !(rule.requestsPerSecond > 0)) {
+    throw new WiilConfigurationError(`${label} requestsPerSecond must be a positive number.`);
+  }
+
+  if (rule.burst !== undefined && (!Number.isInteger(rule.burst) || rule.burst < 1)) {
+    throw new WiilConfigurationError(`${label} burst must be a positive integer.`);
+  }
+}
+
+/**
+ * Request waiting for a token.
+ *
+ * @internal
+ */
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket that queues callers until a token is available.
+ *
+ * @remarks
+ * Tokens refill continuously at `requestsPerSecond` up to `burst`. Waiters are
+ * released in FIFO order.
+ *
+ * @internal
+ */
+export class TokenBucket {
+  private readonly rate: number;
+  private readonly capacity: number;
+  private tokens: number;
+  private updatedAt: number;
+  private pausedUntil = 0;
+  private readonly queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Creates a new TokenBucket instance.
+   *
+   * @param rule - Refill rate and capacity
+   */
+  constructor(rule: RateLimitRule) {
+    this.rate = rule.requestsPerSecond;
+    this.capacity = rule.burst ?? Math.max(1, Math.ceil(rule.requestsPerSecond));
+    this.tokens = this.capacity;
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Waits for a token.
+   *
+   * @param signal - Optional signal that cancels the wait
+   * @returns Promise resolving once a token has been taken
+   *
+   * @throws {@link WiilAbortError} - When the signal is aborted while waiting
+   */
+  public acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      try {
+        throwIfAborted(signal);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+          }
+          reject(new WiilAbortError(undefined, signal.reason));
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Holds all waiters until the given delay has passed.
+   *
+   * @param ms - Delay in milliseconds, typically from a `Retry-After` header
+   */
+  public pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.drain();
+  }
+
+  /**
+   * Releases as many waiters as there are tokens and schedules the next release.
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const now = Date.now();
+    if (now >= this.pausedUntil) {
+      const from = Math.max(this.updatedAt, this.pausedUntil);
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - from) / 1000) * this.rate);
+    }
+    this.updatedAt = now;
+
+    while (this.queue.length > 0 && now >= this.pausedUntil && this.tokens >= 1) {
+      this.tokens -= 1;
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      }
+      waiter.resolve();
+    }
+
+    if (this.queue.length > 0) {
+      const wait = now < this.pausedUntil
+        ? this.pausedUntil - now
+        : ((1 - this.tokens) / this.rate) * 1000;
+      this.timer = setTimeout(() => this.drain(), Math.max(1, Math.ceil(wait)));
+    }
+  }
+}
+
+/**
+ * Client-side rate limiter with a client-wide bucket and optional route buckets.
+ *
+ * @internal
+ */
+export class RateLimiter {
+  private readonly global?: TokenBucket;
+  private readonly routes: Array<{ prefix: string; bucket: TokenBucket }>;
+
+  /**
+   * Creates a new RateLimiter instance.
+   *
+   * @param config - Rate limiter configuration
+   */
+  constructor(config: RateLimitConfig) {
+    this.global = config.requestsPerSecond !== undefined
+      ? new TokenBucket({ requestsPerSecond: config.requestsPerSecond, burst: config.burst })
+      : undefined;
+
+    // Longest prefix first so the most specific route group wins
+    this.routes = Object.entries(config.routes ?? {})
+      .sort(([a], [b]) => b.length - a.length)
+      .map(([prefix, rule]) => ({ prefix, bucket: new TokenBucket(rule) }));
+  }
+
+  /**
+   * Waits until the request may be sent.
+   *
+   * @param path - API endpoint path of the request
+   * @param signal - Optional signal that cancels the wait
+   *
+   * @throws {@link WiilAbortError} - When the signal is aborted while waiting
+   */
+  public async acquire(path: string, signal?: AbortSignal): Promise<void> {
+    await this.global?.acquire(signal);
+    await this.findRoute(path)?.acquire(signal);
+  }
+
+  /**
+   * Holds requests to the path's buckets after the API reported a rate limit.
+   *
+   * @param path - API endpoint path of the throttled request
+   * @param ms - Delay in milliseconds
+   */
+  public pause(path: string, ms: number): void {
+    this.global?.pause(ms);
+    this.findRoute(path)?.pause(ms);
+  }
+
+  /**
+   * Finds the bucket of the route group matching the path.
+   *
+   * @param path - API endpoint path
+   * @returns Matching bucket, or undefined when no route group matches
+   */
+  private findRoute(path: string): TokenBucket | undefined {
+    return this.routes.find(
+      ({ prefix }) =>
+        path === prefix || path.startsWith(`${prefix}/`) || path.startsWith(`${prefix}?`)
+    )?.bucket;
+  }
+}
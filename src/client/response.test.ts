@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Tests for resource views that return response metadata.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import nock from 'nock';
+import { HttpClient } from './HttpClient';
+import { WithResponse, withResponse } from './response';
+import { WiilError } from '../errors/WiilError';
+
+const BASE_URL = 'https://api.wiil.io/v1';
+const API_KEY = 'test-api-key';
+
+const envelope = <T>(data: T, timestamp = 1704067200000) => ({
+  success: true,
+  data,
+  metadata: { timestamp, version: 'v1' },
+});
+
+class CustomersResource {
+  constructor(private readonly http: HttpClient) {}
+
+  withResponse(): WithResponse<CustomersResource> {
+    return withResponse(this.http, (http) => new CustomersResource(http));
+  }
+
+  async get(id: string): Promise<{ id: string }> {
+    return this.http.get<{ id: string }>(`/customers/${id}`);
+  }
+
+  async getWithHistory(id: string): Promise<{ id: string }> {
+    await this.http.get(`/customers/${id}/history`);
+    return this.get(id);
+  }
+
+  async describe(id: string): Promise<string> {
+    return `customer ${id}`;
+  }
+
+  async *iterate(ids: string[]): AsyncGenerator<{ id: string }> {
+    for (const id of ids) {
+      yield await this.get(id);
+    }
+  }
+}
+
+const createCustomers = () =>
+  new CustomersResource(new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000 }));
+
+describe('withResponse', () => {
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it('should return the data with status, headers, metadata, and request ID', async () => {
+    nock(BASE_URL)
+      .get('/customers/cust_123')
+      .reply(200, envelope({ id: 'cust_123' }), { 'X-Request-Id': 'req_abc123', 'X-Api-Version': '2024-01' });
+
+    const result = await createCustomers().withResponse().get('cust_123');
+
+    expect(result).toMatchObject({
+      data: { id: 'cust_123' },
+      status: 200,
+      requestId: 'req_abc123',
+      metadata: { timestamp: 1704067200000, version: 'v1' },
+    });
+    expect(result.headers['x-api-version']).toBe('2024-01');
+  });
+
+  it('should describe the last request and list every response when a method sends several', async () => {
+    nock(BASE_URL)
+      .get('/customers/cust_123/history')
+      .reply(200, envelope([]), { 'X-Request-Id': 'req_first' })
+      .get('/customers/cust_123')
+      .reply(200, envelope({ id: 'cust_123' }), { 'X-Request-Id': 'req_last' });
+
+    const result = await createCustomers().withResponse().getWithHistory('cust_123');
+
+    expect(result.requestId).toBe('req_last');
+    expect(result.responses.map((response) => response.requestId)).toEqual(['req_first', 'req_last']);
+  });
+
+  it('should list the single response of a method that sends one request', async () => {
+    nock(BASE_URL).get('/customers/cust_123').reply(200, envelope({ id: 'cust_123' }), { 'X-Request-Id': 'req_abc123' });
+
+    const result = await createCustomers().withResponse().get('cust_123');
+
+    expect(result.responses).toEqual([
+      { status: 200, requestId: 'req_abc123', headers: result.headers, metadata: result.metadata },
+    ]);
+  });
+
+  it('should pass through methods that do not return a promise', async () => {
+    nock(BASE_URL)
+      .get('/customers/a')
+      .reply(200, envelope({ id: 'a' }))
+      .get('/customers/b')
+      .reply(200, envelope({ id: 'b' }));
+
+    const customers: { id: string }[] = [];
+    for await (const customer of createCustomers().withResponse().iterate(['a', 'b'])) {
+      customers.push(customer);
+    }
+
+    expect(customers).toEqual([{ id: 'a' }, { id: 'b' }]);
+  });
+
+  it('should keep concurrent calls separate', async () => {
+    nock(BASE_URL)
+      .get('/customers/a')
+      .delay(30)
+      .reply(200, envelope({ id: 'a' }), { 'X-Request-Id': 'req_a' })
+      .get('/customers/b')
+      .reply(200, envelope({ id: 'b' }), { 'X-Request-Id': 'req_b' });
+
+    const view = createCustomers().withResponse();
+    const [a, b] = await Promise.all([view.get('a'), view.get('b')]);
+
+    expect(a.requestId).toBe('req_a');
+    expect(b.requestId).toBe('req_b');
+  });
+
+  it('should not change the return value of the resource itself', async () => {
+    nock(BASE_URL).get('/customers/cust_123').reply(200, envelope({ id: 'cust_123' }));
+
+    await expect(createCustomers().get('cust_123')).resolves.toEqual({ id: 'cust_123' });
+  });
+
+  it('should reject when the method sends no request', async () => {
+    await expect(createCustomers().withResponse().describe('cust_123')).rejects.toBeInstanceOf(WiilError);
+  });
+
+  it('should not be mistaken for a promise', async () => {
+    const view = createCustomers().withResponse();
+
+    await expect(Promise.resolve(view)).resolves.toBe(view);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Resource views that return response metadata with the data.
+ * @module client/response
+ */
+
+import { WiilError } from '../errors/WiilError';
+import { HttpClient } from './HttpClient';
+import { REQUEST_ID_HEADER } from './logger';
+import { MiddlewareResponse } from './middleware';
+import { WiilResponse, WiilResponseDetails } from './types';
+
+/**
+ * Resource view whose async methods resolve to {@link WiilResponse} objects.
+ *
+ * @typeParam T - Resource type
+ *
+ * @remarks
+ * Methods that do not return a promise, such as `iterate()`, are passed
+ * through unchanged.
+ */
+export type WithResponse<T> = {
+  [K in keyof T as T[K] extends (...args: any[]) => unknown ? K : never]: T[K] extends (
+    ...args: infer A
+  ) => Promise<infer R>
+    ? (...args: A) => Promise<WiilResponse<R>>
+    : T[K];
+};
+
+/**
+ * Creates a resource view whose methods return the response metadata with the data.
+ *
+ * @typeParam T - Resource type
+ * @param http - HTTP client of the resource
+ * @param create - Creates a resource instance bound to the given HTTP client
+ * @returns Resource view
+ *
+ * @remarks
+ * Each call runs on its own resource instance, so concurrent calls through the
+ * same view never see each other's responses.
+ *
+ * @internal
+ */
+export function withResponse<T extends object>(
+  http: HttpClient,
+  create: (http: HttpClient) => T
+): WithResponse<T> {
+  const template = create(http);
+
+  return new Proxy({} as WithResponse<T>, {
+    get: (_target, property) => {
+      if (typeof Reflect.get(template, property) !== 'function') {
+        return undefined;
+      }
+
+      return (...args: unknown[]) => {
+        const responses: MiddlewareResponse[] = [];
+        const resource = create(http.withResponseListener((response) => responses.push(response)));
+
+        const method = Reflect.get(resource, property) as (...args: unknown[]) => unknown;
+        const result = method.apply(resource, args);
+        if (typeof (result as PromiseLike<unknown> | undefined)?.then !== 'function') {
+          return result;
+        }
+
+        return Promise.resolve(result).then((data) => {
+          const last = responses.at(-1);
+          if (!last) {
+            throw new WiilError(`${String(property)} completed without sending a request`);
+          }
+          return {
+            data,
+            ...describeResponse(last),
+            responses: responses.map(describeResponse),
+          } satisfies WiilResponse<unknown>;
+        });
+      };
+    },
+  });
+}
+
+/**
+ * Picks the fields of a response that are returned to the caller.
+ *
+ * @param response - Response received by the HTTP client
+ * @returns Status, headers, metadata, and request ID of the response
+ *
+ * @internal
+ */
+function describeResponse(response: MiddlewareResponse): WiilResponseDetails {
+  return {
+    metadata: response.data.metadata,
+    headers: response.headers,
+    status: response.status,
+    requestId: response.headers[REQUEST_ID_HEADER],
+  };
+}
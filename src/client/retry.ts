@@ -0,0 +1,204 @@
+/**
+ * @fileoverview Retry policy helpers for the HTTP client.
+ * @module client/retry
+ */
+
+import {
+  WiilAPIError,
+  WiilConfigurationError,
+  WiilNetworkError,
+  RETRYABLE_NETWORK_ERROR_CODES,
+  RETRYABLE_STATUS_CODES,
+} from '../errors/WiilError';
+import { HttpMethod, RetryConfig, RetryEvent } from './types';
+
+/**
+ * Retry policy with defaults applied.
+ *
+ * @internal
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  retryableStatusCodes: number[];
+  retryableErrorCodes: string[];
+  retryableMethods: HttpMethod[];
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * Default retry policy values.
+ *
+ * @internal
+ */
+const DEFAULT_RETRY_POLICY: Omit<RetryPolicy, 'onRetry'> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  jitter: true,
+  retryableStatusCodes: [...RETRYABLE_STATUS_CODES],
+  retryableErrorCodes: [...RETRYABLE_NETWORK_ERROR_CODES],
+  retryableMethods: ['GET', 'PUT', 'DELETE'],
+};
+
+/**
+ * Policy used when retries are not configured: every request is attempted once.
+ *
+ * @internal
+ */
+export const NO_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 1,
+};
+
+/**
+ * Applies default values to a retry configuration.
+ *
+ * @param config - Retry configuration from the client options
+ * @returns Resolved retry policy
+ *
+ * @internal
+ */
+export function resolveRetryPolicy(config?: RetryConfig): RetryPolicy {
+  if (!config) {
+    return NO_RETRY_POLICY;
+  }
+
+  return {
+    maxAttempts: config.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    baseDelayMs: config.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: config.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: config.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    retryableStatusCodes: config.retryableStatusCodes ?? DEFAULT_RETRY_POLICY.retryableStatusCodes,
+    retryableErrorCodes: config.retryableErrorCodes ?? DEFAULT_RETRY_POLICY.retryableErrorCodes,
+    retryableMethods: config.retryableMethods ?? DEFAULT_RETRY_POLICY.retryableMethods,
+    onRetry: config.onRetry,
+  };
+}
+
+/**
+ * Validates a retry configuration.
+ *
+ * @param config - Retry configuration to validate
+ *
+ * @throws {@link WiilConfigurationError} - When a retry option is invalid
+ *
+ * @internal
+ */
+export function validateRetryConfig(config?: RetryConfig): void {
+  if (!config) {
+    return;
+  }
+
+  if (
+    config.maxAttempts !== undefined &&
+    (!Number.isInteger(config.maxAttempts) || config.maxAttempts < 1)
+  ) {
+    throw new WiilConfigurationError(
+      'Retry maxAttempts must be a positive integer.'
+    );
+  }
+
+  if (config.baseDelayMs !== undefined && config.baseDelayMs < 0) {
+    throw new WiilConfigurationError(
+      'Retry baseDelayMs must be zero or a positive number in milliseconds.'
+    );
+  }
+
+  if (config.maxDelayMs !== undefined && config.maxDelayMs < 0) {
+    throw new WiilConfigurationError(
+      'Retry maxDelayMs must be zero or a positive number in milliseconds.'
+    );
+  }
+}
+
+/**
+ * Determines whether a failed request may be retried under the given policy.
+ *
+ * @param error - Error thrown by the failed attempt
+ * @param method - HTTP method of the request
+ * @param policy - Resolved retry policy
+ * @param idempotent - Whether the request carries an idempotency key
+ * @returns True if the request should be retried
+ *
+ * @internal
+ */
+export function isRetryableError(
+  error: unknown,
+  method: HttpMethod,
+  policy: RetryPolicy,
+  idempotent = false
+): boolean {
+  if (!idempotent && !policy.retryableMethods.includes(method)) {
+    return false;
+  }
+
+  if (error instanceof WiilNetworkError) {
+    const code = (error.details as { code?: string } | undefined)?.code;
+    return code !== undefined && policy.retryableErrorCodes.includes(code);
+  }
+
+  if (error instanceof WiilAPIError) {
+    return (
+      error.statusCode !== undefined &&
+      policy.retryableStatusCodes.includes(error.statusCode)
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Computes the delay before the next attempt.
+ *
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param error - Error thrown by the failed attempt
+ * @param policy - Resolved retry policy
+ * @returns Delay in milliseconds, or null if the server asked to wait longer than allowed
+ *
+ * @internal
+ */
+export function getRetryDelay(
+  attempt: number,
+  error: unknown,
+  policy: RetryPolicy
+): number | null {
+  if (error instanceof WiilAPIError && error.retryAfter !== undefined) {
+    return error.retryAfter <= policy.maxDelayMs ? error.retryAfter : null;
+  }
+
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * Math.pow(2, attempt - 1)
+  );
+
+  return policy.jitter ? Math.floor(Math.random() * exponential) : exponential;
+}
+
+/**
+ * Parses a `Retry-After` header value.
+ *
+ * @param value - Header value, either delay seconds or an HTTP date
+ * @returns Delay in milliseconds, or undefined if the value cannot be parsed
+ *
+ * @internal
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
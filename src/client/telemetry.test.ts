@@ -0,0 +1,338 @@
+/**
+ * @fileoverview Tests for OpenTelemetry instrumentation.
+ */
+
+import { describe, it, expect, afterEach, beforeAll, afterAll, vi } from 'vitest';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import nock from 'nock';
+import {
+  Context,
+  ContextManager,
+  ROOT_CONTEXT,
+  Span,
+  SpanOptions,
+  SpanStatusCode,
+  TextMapPropagator,
+  Tracer,
+  context,
+  propagation,
+  trace,
+} from '@opentelemetry/api';
+import { HttpClient } from './HttpClient';
+import { TelemetryConfig } from './types';
+
+const BASE_URL = 'https://api.wiil.io/v1';
+const API_KEY = 'test-api-key';
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c';
+
+const success = <T>(data: T) => ({
+  success: true,
+  data,
+  metadata: { timestamp: Date.now(), version: 'v1' },
+});
+
+const failure = (status: number, code: string) => ({
+  success: false,
+  status,
+  code,
+  message: 'Request failed',
+  timestamp: new Date().toISOString(),
+});
+
+class TestContextManager implements ContextManager {
+  private readonly storage = new AsyncLocalStorage<Context>();
+
+  active(): Context {
+    return this.storage.getStore() ?? ROOT_CONTEXT;
+  }
+
+  with<A extends unknown[], F extends (...args: A) => ReturnType<F>>(
+    ctx: Context,
+    fn: F,
+    thisArg?: ThisParameterType<F>,
+    ...args: A
+  ): ReturnType<F> {
+    return this.storage.run(ctx, () => fn.apply(thisArg, args));
+  }
+
+  bind<T>(_ctx: Context, target: T): T {
+    return target;
+  }
+
+  enable(): this {
+    return this;
+  }
+
+  disable(): this {
+    this.storage.disable();
+    return this;
+  }
+}
+
+const traceparentPropagator: TextMapPropagator = {
+  inject: (ctx, carrier) => {
+    const span = trace.getSpan(ctx);
+    if (span) {
+      const { traceId, spanId } = span.spanContext();
+      (carrier as Record<string, string>).traceparent = `00-${traceId}-${spanId}-01`;
+    }
+  },
+  extract: (ctx) => ctx,
+  fields: () => ['traceparent'],
+};
+
+interface RecordedSpan {
+  name: string;
+  options: SpanOptions;
+  attributes: Record<string, unknown>;
+  status?: { code: SpanStatusCode; message?: string };
+  exceptions: unknown[];
+  ended: boolean;
+}
+
+const createTracer = () => {
+  const spans: RecordedSpan[] = [];
+
+  const tracer = {
+    startActiveSpan: (name: string, options: SpanOptions, fn: (span: Span) => unknown) => {
+      const recorded: RecordedSpan = {
+        name,
+        options,
+        attributes: { ...options.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+
+      const spanId = String(spans.length).padStart(16, '0');
+      const span = {
+        spanContext: () => ({ traceId: TRACE_ID, spanId, traceFlags: 1 }),
+        setAttributes: (attributes: Record<string, unknown>) => {
+          Object.assign(recorded.attributes, attributes);
+          return span;
+        },
+        setStatus: (status: RecordedSpan['status']) => {
+          recorded.status = status;
+          return span;
+        },
+        recordException: (exception: unknown) => {
+          recorded.exceptions.push(exception);
+        },
+        end: () => {
+          recorded.ended = true;
+        },
+      } as unknown as Span;
+
+      return context.with(trace.setSpan(context.active(), span), () => fn(span));
+    },
+  } as unknown as Tracer;
+
+  return { tracer, spans };
+};
+
+const createMeter = () => {
+  const counters: Record<string, ReturnType<typeof vi.fn>> = {};
+  const histograms: Record<string, ReturnType<typeof vi.fn>> = {};
+
+  const meter = {
+    createCounter: (name: string) => {
+      counters[name] = vi.fn();
+      return { add: counters[name] };
+    },
+    createHistogram: (name: string) => {
+      histograms[name] = vi.fn();
+      return { record: histograms[name] };
+    },
+  } as unknown as NonNullable<TelemetryConfig['meter']>;
+
+  return { meter, counters, histograms };
+};
+
+class CustomersResource {
+  constructor(private readonly http: HttpClient) {}
+
+  async get(id: string): Promise<{ id: string }> {
+    return this.http.get<{ id: string }>(`/customers/${id}`);
+  }
+
+  getByEmail(email: string): Promise<{ id: string }> {
+    return this.http.get<{ id: string }>(`/customers/by-email/${email}`);
+  }
+
+  async listAll(): Promise<{ id: string }[]> {
+    return [await this.get('cust_1'), await this.get('cust_2')];
+  }
+
+  describe(id: string): string {
+    return `customer ${id}`;
+  }
+}
+
+const createCustomers = (telemetry: TelemetryConfig, retry?: { baseDelayMs: number }) => {
+  const http = new HttpClient({ apiKey: API_KEY, baseUrl: BASE_URL, timeout: 5000, telemetry, retry });
+  return http.telemetry!.instrument('customers', new CustomersResource(http));
+};
+
+describe('Telemetry', () => {
+  beforeAll(() => {
+    context.setGlobalContextManager(new TestContextManager());
+    propagation.setGlobalPropagator(traceparentPropagator);
+  });
+
+  afterAll(() => {
+    context.disable();
+    propagation.disable();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it('should run each resource method in a span named after the resource and method', async () => {
+    const { tracer, spans } = createTracer();
+    const customers = createCustomers({ tracer });
+
+    nock(BASE_URL).get('/customers/cust_123').reply(200, success({ id: 'cust_123' }));
+
+    await customers.get('cust_123');
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].name).toBe('wiil.customers.get');
+    expect(spans[0].ended).toBe(true);
+    expect(spans[0].attributes).toMatchObject({
+      'wiil.operation': 'customers.get',
+      'wiil.resource.id': 'cust_123',
+      'http.request.method': 'GET',
+      'http.response.status_code': 200,
+      'url.path': '/customers/:id',
+      'wiil.retry_count': 0,
+    });
+  });
+
+  it('should trace methods that return a promise without being async', async () => {
+    const { tracer, spans } = createTracer();
+    const customers = createCustomers({ tracer });
+
+    nock(BASE_URL).get('/customers/by-email/jane@example.com').reply(200, success({ id: 'cust_123' }));
+
+    await customers.getByEmail('jane@example.com');
+
+    expect(spans).toHaveLength(1);
+    expect(spans[0].name).toBe('wiil.customers.getByEmail');
+    expect(spans[0].ended).toBe(true);
+    expect(spans[0].attributes['wiil.resource.id']).toBeUndefined();
+  });
+
+  it('should end the span of a synchronous method when it returns', () => {
+    const { tracer, spans } = createTracer();
+    const customers = createCustomers({ tracer });
+
+    expect(customers.describe('cust_123')).toBe('customer cust_123');
+    expect(spans).toHaveLength(1);
+    expect(spans[0].ended).toBe(true);
+    expect(spans[0].attributes['wiil.resource.id']).toBeUndefined();
+  });
+
+  it('should run methods called by another method in the outer span', async () => {
+    const { tracer, spans } = createTracer();
+    const customers = createCustomers({ tracer });
+
+    nock(BASE_URL)
+      .get('/customers/cust_1')
+      .reply(200, success({ id: 'cust_1' }))
+      .get('/customers/cust_2')
+      .reply(200, success({ id: 'cust_2' }));
+
+    await customers.listAll();
+
+    expect(spans.map((span) => span.name)).toEqual(['wiil.customers.listAll']);
+  });
+
+  it('should record the retry count', async () => {
+    const { tracer, spans } = createTracer();
+    const customers = createCustomers({ tracer }, { baseDelayMs: 1 });
+
+    nock(BASE_URL)
+      .get('/customers/cust_123')
+      .reply(503, failure(503, 'SERVICE_UNAVAILABLE'))
+      .get('/customers/cust_123')
+      .reply(200, success({ id: 'cust_123' }));
+
+    await customers.get('cust_123');
+
+    expect(spans[0].attributes['wiil.retry_count']).toBe(1);
+  });
+
+  it('should mark the span as failed when the method throws', async () => {
+    const { tracer, spans } = createTracer();
+    const customers = createCustomers({ tracer });
+
+    nock(BASE_URL).get('/customers/missing').reply(404, failure(404, 'NOT_FOUND'));
+
+    await expect(customers.get('missing')).rejects.toThrow();
+
+    expect(spans[0].status?.code).toBe(SpanStatusCode.ERROR);
+    expect(spans[0].exceptions).toHaveLength(1);
+    expect(spans[0].attributes).toMatchObject({ 'http.response.status_code': 404, 'error.type': '404' });
+    expect(spans[0].ended).toBe(true);
+  });
+
+  it('should propagate trace context headers', async () => {
+    const { tracer } = createTracer();
+    const customers = createCustomers({ tracer });
+
+    const scope = nock(BASE_URL, {
+      reqheaders: { traceparent: `00-${TRACE_ID}-0000000000000001-01` },
+    })
+      .get('/customers/cust_123')
+      .reply(200, success({ id: 'cust_123' }));
+
+    await customers.get('cust_123');
+
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it('should not propagate trace context when disabled', async () => {
+    const { tracer } = createTracer();
+    const customers = createCustomers({ tracer, propagateContext: false });
+
+    const scope = nock(BASE_URL, { badheaders: ['traceparent'] })
+      .get('/customers/cust_123')
+      .reply(200, success({ id: 'cust_123' }));
+
+    await customers.get('cust_123');
+
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it('should record request count, latency, and errors when a meter is supplied', async () => {
+    const { tracer } = createTracer();
+    const { meter, counters, histograms } = createMeter();
+    const customers = createCustomers({ tracer, meter });
+
+    nock(BASE_URL)
+      .get('/customers/cust_123')
+      .reply(200, success({ id: 'cust_123' }))
+      .get('/customers/missing')
+      .reply(404, failure(404, 'NOT_FOUND'));
+
+    await customers.get('cust_123');
+    await expect(customers.get('missing')).rejects.toThrow();
+
+    expect(counters['wiil.client.requests']).toHaveBeenCalledTimes(2);
+    expect(counters['wiil.client.requests']).toHaveBeenCalledWith(1, {
+      'http.request.method': 'GET',
+      'wiil.operation': 'customers.get',
+      'http.response.status_code': 200,
+    });
+    expect(histograms['wiil.client.request.duration']).toHaveBeenCalledWith(
+      expect.any(Number),
+      expect.objectContaining({ 'wiil.operation': 'customers.get' })
+    );
+    expect(counters['wiil.client.errors']).toHaveBeenCalledTimes(1);
+    expect(counters['wiil.client.errors']).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ 'error.type': '404' })
+    );
+  });
+});
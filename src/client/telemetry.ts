@@ -0,0 +1,360 @@
+/**
+ * @fileoverview OpenTelemetry tracing and metrics for the WIIL SDK.
+ * @module client/telemetry
+ */
+
+import type { Attributes, Counter, Histogram, Span, Tracer } from '@opentelemetry/api';
+import { WiilAPIError, WiilConfigurationError } from '../errors/WiilError';
+import { redactPath } from './logger';
+import { HttpMethod, TelemetryConfig } from './types';
+
+/**
+ * OpenTelemetry API module, loaded only when telemetry is configured.
+ *
+ * @internal
+ */
+type OpenTelemetryApi = typeof import('@opentelemetry/api');
+
+/**
+ * Instrumentation scope name used for the default tracer.
+ *
+ * @internal
+ */
+const INSTRUMENTATION_NAME = 'wiil-js';
+
+/**
+ * Description of the context key holding the resource operation in progress.
+ *
+ * @internal
+ */
+const OPERATION_KEY_NAME = 'wiil.operation';
+
+/**
+ * Resource methods whose first argument is the ID of the resource, recorded
+ * as `wiil.resource.id`. Other arguments, such as phone numbers and email
+ * addresses, are never recorded.
+ *
+ * @internal
+ */
+const RESOURCE_ID_METHODS = new Set([
+  'get',
+  'delete',
+  'getGraph',
+  'retry',
+  'cancel',
+  'approve',
+  'activate',
+  'deactivate',
+  'poll',
+]);
+
+/**
+ * Resource operation stored in the active context.
+ *
+ * @internal
+ */
+interface Operation {
+  /**
+   * Operation name, such as `serviceAppointments.create`.
+   */
+  name: string;
+
+  /**
+   * Span of the operation.
+   */
+  span: Span;
+}
+
+/**
+ * Outcome of a request, including its retries.
+ *
+ * @internal
+ */
+export interface RequestTelemetryEvent {
+  /**
+   * HTTP method of the request.
+   */
+  method: HttpMethod;
+
+  /**
+   * API endpoint path of the request.
+   */
+  path: string;
+
+  /**
+   * HTTP status of the final attempt, when a response was received.
+   */
+  status?: number;
+
+  /**
+   * Number of attempts made, including the first.
+   */
+  attempts: number;
+
+  /**
+   * Total time in milliseconds, including retry delays.
+   */
+  durationMs: number;
+
+  /**
+   * Error the request failed with.
+   */
+  error?: unknown;
+}
+
+/**
+ * Creates spans for resource operations and records request metrics.
+ *
+ * @remarks
+ * Spans are made active through the OpenTelemetry context API, so requests
+ * are only linked to their operation when a context manager is registered,
+ * as the OpenTelemetry SDK does on start.
+ *
+ * @internal
+ */
+export class Telemetry {
+  private readonly api: OpenTelemetryApi;
+  private readonly operationKey: symbol;
+  private readonly tracer: Tracer;
+  private readonly propagateContext: boolean;
+  private readonly requestCounter?: Counter;
+  private readonly errorCounter?: Counter;
+  private readonly durationHistogram?: Histogram;
+
+  /**
+   * Creates a new Telemetry instance.
+   *
+   * @param config - Telemetry configuration
+   *
+   * @throws {@link WiilConfigurationError} - When `@opentelemetry/api` is not installed
+   */
+  constructor(config: TelemetryConfig) {
+    this.api = loadOpenTelemetry();
+    this.operationKey = this.api.createContextKey(OPERATION_KEY_NAME);
+    this.tracer = config.tracer ?? this.api.trace.getTracer(INSTRUMENTATION_NAME);
+    this.propagateContext = config.propagateContext ?? true;
+
+    if (config.meter) {
+      this.requestCounter = config.meter.createCounter('wiil.client.requests', {
+        description: 'Number of requests sent to the WIIL API',
+      });
+      this.errorCounter = config.meter.createCounter('wiil.client.errors', {
+        description: 'Number of requests to the WIIL API that failed',
+      });
+      this.durationHistogram = config.meter.createHistogram('wiil.client.request.duration', {
+        description: 'Duration of requests to the WIIL API, including retries',
+        unit: 'ms',
+      });
+    }
+  }
+
+  /**
+   * Wraps every resource object on the owner so its methods are traced.
+   *
+   * @param owner - Client or service holding the resources as properties
+   * @param exclude - Property values that are not resources, such as the HTTP client
+   */
+  public instrumentResources(owner: object, exclude: unknown[] = []): void {
+    const properties = owner as Record<string, unknown>;
+
+    for (const [name, value] of Object.entries(properties)) {
+      if (
+        value !== null &&
+        typeof value === 'object' &&
+        Object.getPrototypeOf(value) !== Object.prototype &&
+        !exclude.includes(value)
+      ) {
+        properties[name] = this.instrument(name, value);
+      }
+    }
+  }
+
+  /**
+   * Wraps a resource so each method call runs in its own span.
+   *
+   * @typeParam T - Resource type
+   * @param resourceName - Resource name used in span names, such as `serviceAppointments`
+   * @param resource - Resource to wrap
+   * @returns Resource whose methods are traced
+   *
+   * @remarks
+   * Every function-valued property is wrapped, whether or not it is declared
+   * `async`. Spans of methods that return a promise end when it settles.
+   * Methods called while another operation is in progress, such as `list`
+   * inside `listAll`, run in the span of the outer operation.
+   */
+  public instrument<T extends object>(resourceName: string, resource: T): T {
+    const wrapped = new Map<PropertyKey, unknown>();
+
+    return new Proxy(resource, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof property !== 'string' || property === 'constructor' || typeof value !== 'function') {
+          return value;
+        }
+
+        if (!wrapped.has(property)) {
+          const telemetry = this;
+          wrapped.set(property, function (this: unknown, ...args: unknown[]) {
+            return telemetry.trace(`${resourceName}.${property}`, args, () => value.apply(this, args));
+          });
+        }
+        return wrapped.get(property);
+      },
+    });
+  }
+
+  /**
+   * Runs an operation in a new active span, unless another operation is in
+   * progress.
+   *
+   * @param name - Operation name, such as `serviceAppointments.create`
+   * @param args - Arguments of the resource method
+   * @param operation - Resource method call
+   * @returns Result of the operation
+   */
+  private trace(name: string, args: unknown[], operation: () => unknown): unknown {
+    const { context, SpanKind } = this.api;
+    if (context.active().getValue(this.operationKey) !== undefined) {
+      return operation();
+    }
+
+    const attributes: Attributes = { 'wiil.operation': name };
+    const method = name.slice(name.lastIndexOf('.') + 1);
+    if (RESOURCE_ID_METHODS.has(method) && typeof args[0] === 'string') {
+      attributes['wiil.resource.id'] = args[0];
+    }
+
+    return this.tracer.startActiveSpan(`wiil.${name}`, { kind: SpanKind.CLIENT, attributes }, (span) => {
+      const active = context.active().setValue(this.operationKey, { name, span } satisfies Operation);
+      let result: unknown;
+      try {
+        result = context.with(active, operation);
+      } catch (error) {
+        this.fail(span, error);
+        span.end();
+        throw error;
+      }
+
+      if (!isPromiseLike(result)) {
+        span.end();
+        return result;
+      }
+      return Promise.resolve(result).then(
+        (value) => {
+          span.end();
+          return value;
+        },
+        (error: unknown) => {
+          this.fail(span, error);
+          span.end();
+          throw error;
+        }
+      );
+    });
+  }
+
+  /**
+   * Marks a span as failed.
+   *
+   * @param span - Operation span
+   * @param error - Error the operation failed with
+   */
+  private fail(span: Span, error: unknown): void {
+    span.recordException(error as Error);
+    span.setStatus({ code: this.api.SpanStatusCode.ERROR, message: (error as Error).message });
+  }
+
+  /**
+   * Adds trace context headers for the active span.
+   *
+   * @param headers - Request headers to add the trace context to
+   */
+  public injectContext(headers: Record<string, string>): void {
+    if (this.propagateContext) {
+      this.api.propagation.inject(this.api.context.active(), headers);
+    }
+  }
+
+  /**
+   * Records a finished request on the operation span and in the metrics.
+   *
+   * @param event - Outcome of the request
+   */
+  public recordRequest(event: RequestTelemetryEvent): void {
+    const operation = this.api.context.active().getValue(this.operationKey) as Operation | undefined;
+
+    const attributes: Attributes = { 'http.request.method': event.method };
+    if (operation) {
+      attributes['wiil.operation'] = operation.name;
+    }
+    if (event.status !== undefined) {
+      attributes['http.response.status_code'] = event.status;
+    }
+    if (event.error !== undefined) {
+      attributes['error.type'] = errorType(event.error);
+    }
+
+    this.requestCounter?.add(1, attributes);
+    this.durationHistogram?.record(event.durationMs, attributes);
+    if (event.error !== undefined) {
+      this.errorCounter?.add(1, attributes);
+    }
+
+    operation?.span.setAttributes({
+      ...attributes,
+      'url.path': redactPath(event.path),
+      'wiil.retry_count': event.attempts - 1,
+    });
+  }
+}
+
+/**
+ * Loads the OpenTelemetry API, which is an optional peer dependency.
+ *
+ * @returns OpenTelemetry API module
+ *
+ * @throws {@link WiilConfigurationError} - When `@opentelemetry/api` is not installed
+ *
+ * @internal
+ */
+function loadOpenTelemetry(): OpenTelemetryApi {
+  try {
+    return require('@opentelemetry/api') as OpenTelemetryApi;
+  } catch {
+    throw new WiilConfigurationError(
+      'Telemetry requires the @opentelemetry/api package; install it to enable telemetry'
+    );
+  }
+}
+
+/**
+ * Checks whether a value is a promise or another thenable.
+ *
+ * @param value - Value to check
+ * @returns True if the value has a `then` method
+ *
+ * @internal
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    (typeof value === 'object' || typeof value === 'function') &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === 'function'
+  );
+}
+
+/**
+ * Describes an error for the `error.type` attribute.
+ *
+ * @param error - Error the request failed with
+ * @returns HTTP status for API errors, otherwise the error name
+ *
+ * @internal
+ */
+function errorType(error: unknown): string {
+  if (error instanceof WiilAPIError && error.statusCode !== undefined) {
+    return String(error.statusCode);
+  }
+  return error instanceof Error ? error.name : '_OTHER';
+}
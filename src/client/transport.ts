@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Transport abstraction used by the HTTP client.
+ * @module client/transport
+ */
+
+import { WiilConfigurationError } from '../errors/WiilError';
+import { AxiosTransport } from './AxiosTransport';
+import { FetchTransport } from './FetchTransport';
+import { HttpMethod } from './types';
+
+/**
+ * Request handed to a transport.
+ *
+ * @remarks
+ * The URL is absolute and all SDK headers, including authentication, have
+ * already been applied.
+ */
+export interface TransportRequest {
+  /**
+   * HTTP method.
+   */
+  method: HttpMethod;
+
+  /**
+   * Absolute request URL, including any query string.
+   */
+  url: string;
+
+  /**
+   * Request headers.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Request payload, serialized as JSON by the transport. `FormData` payloads
+   * are sent as `multipart/form-data`; their request has no `Content-Type`
+   * header so the transport can set the boundary.
+   */
+  body?: unknown;
+
+  /**
+   * Request timeout in milliseconds.
+   */
+  timeout: number;
+
+  /**
+   * Signal that cancels the request when aborted.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Response returned by a transport.
+ */
+export interface TransportResponse {
+  /**
+   * HTTP status code.
+   */
+  status: number;
+
+  /**
+   * Response headers with lower-cased names.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Parsed JSON body, the raw text when the body is not JSON, or an empty
+   * string when there is no body.
+   */
+  data: unknown;
+}
+
+/**
+ * Sends HTTP requests on behalf of the SDK.
+ *
+ * @remarks
+ * A transport only moves bytes; the SDK maps responses and failures to
+ * {@link WiilAPIError} and {@link WiilNetworkError} the same way for every
+ * transport. To keep that mapping consistent, a transport must:
+ *
+ * - Resolve with a {@link TransportResponse} for every HTTP status, including 4xx and 5xx
+ * - Reject with an `Error` carrying a `code` property (such as `ECONNRESET`) when no response is received
+ * - Use the code `ECONNABORTED` when the request exceeds its timeout
+ * - Stop the request when `signal` is aborted; the SDK reports it as a {@link WiilAbortError}
+ *
+ * @example
+ * ```typescript
+ * const transport: Transport = {
+ *   async request(request) {
+ *     const response = await myHttpLibrary.send(request);
+ *     return { status: response.status, headers: response.headers, data: response.json };
+ *   }
+ * };
+ *
+ * const client = new WiilClient({ apiKey: 'your-api-key', transport });
+ * ```
+ */
+export interface Transport {
+  /**
+   * Sends a request and resolves with the response.
+   *
+   * @param request - Request to send
+   * @returns Promise resolving to the response
+   */
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Names of the transports bundled with the SDK.
+ *
+ * @remarks
+ * - `'axios'` - Uses axios; the default
+ * - `'fetch'` - Uses the global `fetch`, for edge runtimes such as Cloudflare Workers, Deno, and Bun
+ */
+export type TransportName = 'axios' | 'fetch';
+
+/**
+ * Creates the transport selected in the client configuration.
+ *
+ * @param transport - Transport name or custom transport instance
+ * @returns Transport instance
+ *
+ * @throws {@link WiilConfigurationError} - When the transport option is invalid
+ *
+ * @internal
+ */
+export function createTransport(transport: TransportName | Transport = 'axios'): Transport {
+  if (transport === 'axios') {
+    return new AxiosTransport();
+  }
+
+  if (transport === 'fetch') {
+    return new FetchTransport();
+  }
+
+  if (typeof transport === 'object' && transport !== null && typeof transport.request === 'function') {
+    return transport;
+  }
+
+  throw new WiilConfigurationError(
+    `Invalid transport: ${String(transport)}. Use 'axios', 'fetch', or an object implementing Transport.`
+  );
+}
+
+/**
+ * Creates an error describing a request that received no response.
+ *
+ * @param message - Error message
+ * @param code - Error code, such as `ECONNRESET` or `ECONNABORTED`
+ * @returns Error with a `code` property
+ *
+ * @internal
+ */
+export function createTransportError(message: string, code: string): Error & { code: string } {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Converts a headers object into a plain record of string values.
+ *
+ * @param headers - Headers from a transport or request configuration
+ * @param lowerCase - Whether to lower-case header names
+ * @returns Headers with string values
+ *
+ * @internal
+ */
+export function toHeaderRecord(headers: unknown, lowerCase = false): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!headers || typeof headers !== 'object') {
+    return record;
+  }
+
+  const source =
+    typeof (headers as { toJSON?: unknown }).toJSON === 'function'
+      ? (headers as { toJSON: () => Record<string, unknown> }).toJSON()
+      : (headers as Record<string, unknown>);
+
+  for (const [name, value] of Object.entries(source)) {
+    if (value === undefined || value === null) continue;
+    record[lowerCase ? name.toLowerCase() : name] = Array.isArray(value)
+      ? value.join(', ')
+      : String(value);
+  }
+
+  return record;
+}
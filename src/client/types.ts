@@ -3,6 +3,10 @@
  * @module client/types
  */
 
+import type { Meter, Tracer } from '@opentelemetry/api';
+import { Transport, TransportName } from './transport';
+import { WiilLogger } from './logger';
+
 /**
  * Configuration options for the WIIL SDK client.
  *
@@ -23,10 +27,33 @@ export interface WiilClientConfig {
    * API key for authentication with the WIIL Platform.
    *
    * @remarks
-   * This is required for all API requests. You can obtain an API key
-   * from your WIIL Platform dashboard.
+   * Either this or {@link WiilClientConfig.credentials} is required. You can
+   * obtain an API key from your WIIL Platform dashboard.
    */
-  apiKey: string;
+  apiKey?: string;
+
+  /**
+   * Provider of the API key, used instead of a fixed `apiKey`.
+   *
+   * @defaultValue undefined (the `apiKey` is sent with every request)
+   *
+   * @remarks
+   * The provider is called before the first request and its key is cached.
+   * When a request is rejected with `401`, the cached key is dropped, the
+   * provider is called again, and the request is sent once more with the new
+   * key. This lets keys be rotated without recreating the client.
+   *
+   * @example
+   * ```typescript
+   * const client = new WiilClient({
+   *   credentials: {
+   *     provider: async () => (await secrets.getSecretValue({ SecretId: 'wiil' })).SecretString!,
+   *     cacheTtlMs: 15 * 60 * 1000
+   *   }
+   * });
+   * ```
+   */
+  credentials?: CredentialProvider | CredentialsConfig;
 
   /**
    * Base URL for the WIIL Platform API.
@@ -47,6 +74,546 @@ export interface WiilClientConfig {
    * Requests that exceed this timeout will throw a {@link WiilNetworkError}.
    */
   timeout?: number;
+
+  /**
+   * Project that every request is scoped to.
+   *
+   * @defaultValue undefined (requests use the organization's default project)
+   *
+   * @remarks
+   * Sent as the `X-Wiil-Project-Id` header. Use {@link WiilClient.forProject}
+   * to work with several projects from one client.
+   */
+  projectId?: string;
+
+  /**
+   * Automatic retry policy for failed requests.
+   *
+   * @defaultValue undefined (each request is attempted once)
+   *
+   * @remarks
+   * When set, requests that fail with a {@link WiilNetworkError} or a retryable
+   * {@link WiilAPIError} status are retried with exponential backoff. Pass an
+   * empty object to enable retries with the default policy.
+   *
+   * @example
+   * ```typescript
+   * const client = new WiilClient({
+   *   apiKey: 'your-api-key',
+   *   retry: {
+   *     maxAttempts: 4,
+   *     onRetry: (event) => console.warn(`Retrying ${event.method} ${event.path}`, event.error)
+   *   }
+   * });
+   * ```
+   */
+  retry?: RetryConfig;
+
+  /**
+   * Whether to generate an `Idempotency-Key` header for POST requests.
+   *
+   * @defaultValue true
+   *
+   * @remarks
+   * A key is generated once per logical operation and reused on every retry,
+   * so the API can discard duplicates when a timeout occurs after the request
+   * was accepted. POST requests that carry a key are eligible for retries.
+   * A key passed through {@link RequestOptions.idempotencyKey} is always sent,
+   * even when automatic generation is disabled.
+   */
+  autoIdempotencyKeys?: boolean;
+
+  /**
+   * Transport used to send HTTP requests.
+   *
+   * @defaultValue 'axios'
+   *
+   * @remarks
+   * Use `'fetch'` to send requests with the native `fetch` API in edge runtimes
+   * such as Cloudflare Workers, Deno, and Bun, or pass your own {@link Transport}.
+   * Errors are mapped to {@link WiilAPIError} and {@link WiilNetworkError}
+   * identically for every transport.
+   *
+   * @example
+   * ```typescript
+   * export default {
+   *   async fetch(request: Request, env: Env) {
+   *     const client = new WiilClient({ apiKey: env.WIIL_API_KEY, transport: 'fetch' });
+   *     // ...
+   *   }
+   * };
+   * ```
+   */
+  transport?: TransportName | Transport;
+
+  /**
+   * How API responses are checked against the wiil-core-js schemas.
+   *
+   * @defaultValue 'off'
+   *
+   * @remarks
+   * - `'off'` - Responses are returned as received
+   * - `'warn'` - Responses are validated; valid responses are returned with
+   *   dates and defaults applied, and drift is reported through
+   *   {@link WiilClientConfig.onResponseDrift} while the raw response is returned
+   * - `'strict'` - Responses that do not match the schema are rejected with
+   *   a {@link WiilValidationError}
+   *
+   * @example
+   * ```typescript
+   * const client = new WiilClient({
+   *   apiKey: 'your-api-key',
+   *   validateResponses: 'warn',
+   *   onResponseDrift: (event) => metrics.increment('wiil.drift', { path: event.path })
+   * });
+   * ```
+   */
+  validateResponses?: ResponseValidationMode;
+
+  /**
+   * Callback invoked when a response does not match its schema in `'warn'` mode.
+   *
+   * @remarks
+   * Defaults to logging the drift as a warning through {@link WiilClientConfig.logger}. Also invoked before
+   * the error is thrown in `'strict'` mode.
+   */
+  onResponseDrift?: (event: ResponseDriftEvent) => void;
+
+  /**
+   * Client-side rate limiter that queues requests instead of sending them
+   * faster than the API allows.
+   *
+   * @defaultValue undefined (no client-side limit)
+   *
+   * @remarks
+   * Requests wait for a token from the client-wide bucket and, when the path
+   * matches a route group, from that group's bucket. Waiting requests are
+   * released in order and can be cancelled with a per-call `signal`. When the
+   * API responds with `429` and a `Retry-After` header, the matching buckets
+   * are held until the delay has passed.
+   *
+   * @example
+   * ```typescript
+   * const client = new WiilClient({
+   *   apiKey: 'your-api-key',
+   *   rateLimit: {
+   *     requestsPerSecond: 20,
+   *     routes: {
+   *       '/outbound-calls': { requestsPerSecond: 2 },
+   *       '/business-requests/sms': { requestsPerSecond: 5, burst: 10 }
+   *     }
+   *   }
+   * });
+   * ```
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Logger for SDK output.
+   *
+   * @defaultValue `console`
+   *
+   * @remarks
+   * Receives agent setup progress, response drift warnings, and, in debug
+   * mode, one line per request. The API key is redacted from every message.
+   */
+  logger?: WiilLogger;
+
+  /**
+   * Whether to log every request at debug level.
+   *
+   * @defaultValue false
+   *
+   * @remarks
+   * Each entry includes the method, path, status, latency in milliseconds,
+   * and the API request ID with all but its last four characters redacted.
+   */
+  debug?: boolean;
+
+  /**
+   * OpenTelemetry instrumentation.
+   *
+   * @defaultValue undefined (no spans or metrics are recorded)
+   *
+   * @remarks
+   * When set, every resource method runs in a span named after the resource
+   * and method, such as `wiil.serviceAppointments.create`, and trace context
+   * headers are sent with each request. Metrics are recorded when a meter is
+   * supplied. Requires the optional `@opentelemetry/api` peer dependency.
+   *
+   * @example
+   * ```typescript
+   * import { trace, metrics } from '@opentelemetry/api';
+   *
+   * const client = new WiilClient({
+   *   apiKey: 'your-api-key',
+   *   telemetry: {
+   *     tracer: trace.getTracer('my-service'),
+   *     meter: metrics.getMeter('my-service')
+   *   }
+   * });
+   * ```
+   */
+  telemetry?: TelemetryConfig;
+}
+
+/**
+ * API key returned by a {@link CredentialProvider}, with its expiry.
+ */
+export interface WiilCredentials {
+  /**
+   * API key sent with each request.
+   */
+  apiKey: string;
+
+  /**
+   * Time the key expires, after which the provider is called again.
+   */
+  expiresAt?: Date | number;
+}
+
+/**
+ * Function that resolves the API key, such as a lookup in a secrets manager.
+ */
+export type CredentialProvider = () =>
+  | string
+  | WiilCredentials
+  | Promise<string | WiilCredentials>;
+
+/**
+ * Credential provider with caching options.
+ *
+ * @example
+ * ```typescript
+ * const credentials: CredentialsConfig = {
+ *   provider: () => vault.read('secret/wiil').then((secret) => secret.data.apiKey),
+ *   cacheTtlMs: 5 * 60 * 1000
+ * };
+ * ```
+ */
+export interface CredentialsConfig {
+  /**
+   * Resolves the API key.
+   */
+  provider: CredentialProvider;
+
+  /**
+   * How long a resolved key is reused, in milliseconds.
+   *
+   * @defaultValue undefined (the key is reused until it expires or is rejected)
+   */
+  cacheTtlMs?: number;
+
+  /**
+   * Whether a `401` response drops the cached key and resends the request
+   * once with a freshly resolved key.
+   *
+   * @defaultValue true
+   */
+  refreshOnUnauthorized?: boolean;
+}
+
+/**
+ * Per-call request options.
+ *
+ * @remarks
+ * Every resource method accepts these options as its last argument.
+ *
+ * @example
+ * ```typescript
+ * // Tie the operation to your own booking ID so it is never executed twice
+ * const appointment = await client.serviceAppointments.create(data, {
+ *   idempotencyKey: `booking-${booking.id}`
+ * });
+ *
+ * // Stop waiting when the incoming HTTP request is aborted
+ * const controller = new AbortController();
+ * req.on('close', () => controller.abort());
+ * const customer = await client.customers.get('cust_123', { signal: controller.signal });
+ * ```
+ */
+export interface RequestOptions {
+  /**
+   * Signal that cancels the operation when aborted.
+   *
+   * @remarks
+   * Cancels the request in flight, any pending retry, and any polling wait.
+   * The operation rejects with a {@link WiilAbortError}.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout for each request in milliseconds, overriding the client timeout.
+   */
+  timeout?: number;
+
+  /**
+   * Additional request headers.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Idempotency key for the operation.
+   *
+   * @remarks
+   * Overrides the automatically generated key. Reusing the same key for the
+   * same operation lets the API return the original result instead of
+   * executing it again.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Client configuration with defaults applied.
+ *
+ * @internal
+ */
+export type ResolvedClientConfig = WiilClientConfig &
+  Required<Pick<WiilClientConfig, 'baseUrl' | 'timeout'>>;
+
+/**
+ * HTTP methods used by the SDK.
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Retry policy options.
+ *
+ * @remarks
+ * Delays grow exponentially from `baseDelayMs` and are capped at `maxDelayMs`.
+ * When the API responds with a `Retry-After` header, that delay is used instead;
+ * if it exceeds `maxDelayMs` the error is surfaced without further retries.
+ */
+export interface RetryConfig {
+  /**
+   * Total number of attempts, including the initial request.
+   *
+   * @defaultValue 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds.
+   *
+   * @defaultValue 500
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for any single retry delay in milliseconds.
+   *
+   * @defaultValue 30000
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Whether to apply full jitter to backoff delays.
+   *
+   * @defaultValue true
+   */
+  jitter?: boolean;
+
+  /**
+   * HTTP status codes that trigger a retry.
+   *
+   * @defaultValue [408, 429, 500, 502, 503, 504]
+   */
+  retryableStatusCodes?: number[];
+
+  /**
+   * Network error codes that trigger a retry.
+   *
+   * @defaultValue ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ERR_NETWORK']
+   */
+  retryableErrorCodes?: string[];
+
+  /**
+   * HTTP methods that may be retried.
+   *
+   * @defaultValue ['GET', 'PUT', 'DELETE']
+   *
+   * @remarks
+   * Only idempotent methods are retried by default so that a request the
+   * server has already accepted is not executed twice. POST requests that
+   * carry an `Idempotency-Key` header are retried regardless of this list.
+   */
+  retryableMethods?: HttpMethod[];
+
+  /**
+   * Callback invoked before each retry attempt.
+   */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * Details about a retry attempt, passed to {@link RetryConfig.onRetry}.
+ */
+export interface RetryEvent {
+  /**
+   * HTTP method of the request being retried.
+   */
+  method: HttpMethod;
+
+  /**
+   * API endpoint path of the request being retried.
+   */
+  path: string;
+
+  /**
+   * Number of the attempt that is about to start (2 for the first retry).
+   */
+  attempt: number;
+
+  /**
+   * Total number of attempts allowed by the policy.
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay in milliseconds before the next attempt starts.
+   */
+  delayMs: number;
+
+  /**
+   * Error that caused the retry.
+   */
+  error: Error;
+}
+
+/**
+ * Token bucket settings for a rate limit.
+ */
+export interface RateLimitRule {
+  /**
+   * Sustained number of requests allowed per second.
+   */
+  requestsPerSecond: number;
+
+  /**
+   * Maximum number of requests that may be sent at once after a quiet period.
+   *
+   * @defaultValue `requestsPerSecond`, rounded up
+   */
+  burst?: number;
+}
+
+/**
+ * Client-side rate limiter options.
+ *
+ * @see {@link WiilClientConfig.rateLimit}
+ */
+export interface RateLimitConfig extends Partial<RateLimitRule> {
+  /**
+   * Additional limits for route groups, keyed by path prefix such as `'/outbound-calls'`.
+   *
+   * @remarks
+   * The longest matching prefix applies. Route limits are enforced in addition
+   * to the client-wide limit.
+   */
+  routes?: Record<string, RateLimitRule>;
+}
+
+/**
+ * OpenTelemetry instrumentation options.
+ *
+ * @see {@link WiilClientConfig.telemetry}
+ */
+export interface TelemetryConfig {
+  /**
+   * Tracer used to create spans.
+   *
+   * @defaultValue The global tracer provider's `wiil-js` tracer
+   */
+  tracer?: Tracer;
+
+  /**
+   * Meter used to record request count, latency, and error metrics.
+   *
+   * @defaultValue undefined (no metrics are recorded)
+   */
+  meter?: Meter;
+
+  /**
+   * Whether to send trace context headers such as `traceparent` with each
+   * request, using the globally registered propagator.
+   *
+   * @defaultValue true
+   */
+  propagateContext?: boolean;
+}
+
+/**
+ * Rate-limit state reported by the API in response headers.
+ *
+ * @remarks
+ * Parsed from `X-RateLimit-Limit`, `X-RateLimit-Remaining`, and
+ * `X-RateLimit-Reset` (or their unprefixed `RateLimit-*` equivalents) and
+ * `Retry-After`. Fields are omitted when the API did not send the header.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.outboundCalls.create(data);
+ * } catch (error) {
+ *   if (error instanceof WiilAPIError && error.rateLimit) {
+ *     console.log(`Limit resets at ${new Date(error.rateLimit.resetAt!)}`);
+ *   }
+ * }
+ * ```
+ */
+export interface RateLimitInfo {
+  /**
+   * Maximum number of requests allowed in the current window.
+   */
+  limit?: number;
+
+  /**
+   * Number of requests remaining in the current window.
+   */
+  remaining?: number;
+
+  /**
+   * Time at which the current window resets, as a Unix timestamp in milliseconds.
+   */
+  resetAt?: number;
+
+  /**
+   * Delay in milliseconds requested by the `Retry-After` header.
+   */
+  retryAfter?: number;
+}
+
+/**
+ * Response validation modes.
+ *
+ * @see {@link WiilClientConfig.validateResponses}
+ */
+export type ResponseValidationMode = 'off' | 'warn' | 'strict';
+
+/**
+ * Details about a response that does not match its schema, passed to
+ * {@link WiilClientConfig.onResponseDrift}.
+ */
+export interface ResponseDriftEvent {
+  /**
+   * HTTP method of the request.
+   */
+  method: HttpMethod;
+
+  /**
+   * API endpoint path of the request.
+   */
+  path: string;
+
+  /**
+   * Schema issues reported by Zod.
+   */
+  issues: unknown[];
+
+  /**
+   * Response data as received from the API.
+   */
+  data: unknown;
 }
 
 /**
@@ -109,6 +676,59 @@ export interface APIResponse<T> {
   };
 }
 
+/**
+ * Status, headers, and metadata of a single API response.
+ */
+export interface WiilResponseDetails {
+  /**
+   * Metadata from the API response envelope.
+   */
+  metadata: APIResponse<unknown>['metadata'];
+
+  /**
+   * Response headers with lower-cased names.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * HTTP status code.
+   */
+  status: number;
+
+  /**
+   * API request ID from the `X-Request-Id` header, for support tickets and audit logs.
+   */
+  requestId?: string;
+}
+
+/**
+ * Result of a resource method called through `withResponse()`.
+ *
+ * @typeParam T - Type of the data returned by the method
+ *
+ * @remarks
+ * When a method sends several requests, such as `listAll` or an agent setup
+ * that polls for completion, the response fields describe the last request
+ * and `responses` lists every request in the order they completed.
+ *
+ * @example
+ * ```typescript
+ * const { data, requestId, metadata } = await client.customers.withResponse().get('cust_123');
+ * console.log(`Fetched ${data.id} (request ${requestId}, API ${metadata.version})`);
+ * ```
+ */
+export interface WiilResponse<T> extends WiilResponseDetails {
+  /**
+   * Data returned by the method.
+   */
+  data: T;
+
+  /**
+   * Every response the method received, oldest first.
+   */
+  responses: WiilResponseDetails[];
+}
+
 /**
  * Error response from the API.
  *
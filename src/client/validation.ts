@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Response schema validation helpers for the HTTP client.
+ * @module client/validation
+ */
+
+import { z, ZodType } from 'zod';
+import { WiilConfigurationError } from '../errors/WiilError';
+import { ResponseValidationMode } from './types';
+
+/**
+ * Supported response validation modes.
+ *
+ * @internal
+ */
+const RESPONSE_VALIDATION_MODES: ResponseValidationMode[] = ['off', 'warn', 'strict'];
+
+/**
+ * Schema for the metadata of a paginated result.
+ *
+ * @internal
+ */
+const PaginationMetaSchema = z.object({
+  page: z.number(),
+  pageSize: z.number(),
+  totalCount: z.number(),
+  totalPages: z.number(),
+  hasNextPage: z.boolean(),
+  hasPreviousPage: z.boolean(),
+});
+
+/**
+ * Creates a schema for a paginated result of the given item schema.
+ *
+ * @typeParam T - Item schema type
+ * @param itemSchema - Schema for each item in the page
+ * @returns Schema for `PaginatedResultType` of the item
+ *
+ * @internal
+ */
+export function paginatedResultSchema<T extends ZodType>(itemSchema: T) {
+  return z.object({
+    data: z.array(itemSchema),
+    meta: PaginationMetaSchema,
+  });
+}
+
+/**
+ * Validates the response validation mode option.
+ *
+ * @param mode - Response validation mode to validate
+ *
+ * @throws {@link WiilConfigurationError} - When the mode is not supported
+ *
+ * @internal
+ */
+export function validateResponseValidationMode(mode?: ResponseValidationMode): void {
+  if (mode !== undefined && !RESPONSE_VALIDATION_MODES.includes(mode)) {
+    throw new WiilConfigurationError(
+      `Invalid validateResponses mode: ${String(mode)}. Use 'off', 'warn', or 'strict'.`
+    );
+  }
+}
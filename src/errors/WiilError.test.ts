@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Tests for the error classes and API error mapping.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  WiilAPIError,
+  WiilAbortError,
+  WiilAuthenticationError,
+  WiilConflictError,
+  WiilNetworkError,
+  WiilNotFoundError,
+  WiilPermissionError,
+  WiilRateLimitError,
+  WiilSlotUnavailableError,
+  WiilValidationError,
+  createAPIError,
+  isAPIError,
+  isConflictError,
+  isNotFoundError,
+  isRateLimitError,
+  isSlotUnavailableError,
+  isWiilError,
+} from './WiilError';
+
+describe('createAPIError', () => {
+  it.each([
+    [401, WiilAuthenticationError],
+    [403, WiilPermissionError],
+    [404, WiilNotFoundError],
+    [409, WiilConflictError],
+    [429, WiilRateLimitError],
+  ])('should map status %i to its error class', (status, ErrorClass) => {
+    const error = createAPIError('Request failed', status, 'API_ERROR');
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(WiilAPIError);
+    expect(error.name).toBe(ErrorClass.name);
+    expect(error.statusCode).toBe(status);
+  });
+
+  it('should prefer the error code over the status', () => {
+    const error = createAPIError('Slot taken', 400, 'SLOT_UNAVAILABLE');
+
+    expect(error).toBeInstanceOf(WiilSlotUnavailableError);
+    expect(error).toBeInstanceOf(WiilConflictError);
+    expect(error.code).toBe('SLOT_UNAVAILABLE');
+  });
+
+  it('should return a plain WiilAPIError for other failures', () => {
+    const error = createAPIError('Bad request', 400, 'VALIDATION_ERROR');
+
+    expect(error.constructor).toBe(WiilAPIError);
+  });
+
+  it('should keep the retry delay and rate-limit state', () => {
+    const error = createAPIError('Slow down', 429, 'RATE_LIMIT_EXCEEDED', undefined, {
+      retryAfter: 2000,
+      rateLimit: { limit: 100, remaining: 0 },
+    });
+
+    expect(error.retryAfter).toBe(2000);
+    expect(error.rateLimit).toEqual({ limit: 100, remaining: 0 });
+  });
+});
+
+describe('isRetryable', () => {
+  it('should be true for transient API errors and rate limits', () => {
+    expect(createAPIError('Unavailable', 503).isRetryable).toBe(true);
+    expect(createAPIError('Slow down', 400, 'RATE_LIMIT_EXCEEDED').isRetryable).toBe(true);
+  });
+
+  it('should be false for client errors', () => {
+    expect(createAPIError('Missing', 404).isRetryable).toBe(false);
+    expect(createAPIError('Invalid', 400, 'VALIDATION_ERROR').isRetryable).toBe(false);
+  });
+
+  it('should depend on the network error code', () => {
+    expect(new WiilNetworkError('Reset', { code: 'ECONNRESET' }).isRetryable).toBe(true);
+    expect(new WiilNetworkError('Unknown host', { code: 'ENOTFOUND' }).isRetryable).toBe(false);
+  });
+
+  it('should be false for validation and abort errors', () => {
+    expect(new WiilValidationError('Invalid').isRetryable).toBe(false);
+    expect(new WiilAbortError().isRetryable).toBe(false);
+  });
+});
+
+describe('fieldErrors', () => {
+  it('should read a single field error from meta', () => {
+    const error = createAPIError('Invalid', 400, 'VALIDATION_ERROR', {
+      field: 'companyName',
+      issue: 'Must be at least 2 characters',
+    });
+
+    expect(error.fieldErrors).toEqual([
+      { field: 'companyName', message: 'Must be at least 2 characters' },
+    ]);
+  });
+
+  it('should read a list of field errors with paths and codes', () => {
+    const error = createAPIError('Invalid', 400, 'VALIDATION_ERROR', {
+      errors: [
+        { path: ['address', 'postalCode'], message: 'Required', code: 'invalid_type' },
+        { field: 'email', message: 'Invalid email' },
+        'ignored',
+      ],
+    });
+
+    expect(error.fieldErrors).toEqual([
+      { field: 'address.postalCode', message: 'Required', code: 'invalid_type' },
+      { field: 'email', message: 'Invalid email' },
+    ]);
+  });
+
+  it('should be empty when meta has no field errors', () => {
+    expect(createAPIError('Missing', 404, 'NOT_FOUND', { resource: 'customer' }).fieldErrors).toEqual([]);
+    expect(createAPIError('Missing', 404).fieldErrors).toEqual([]);
+  });
+});
+
+describe('type guards', () => {
+  it('should narrow errors by class', () => {
+    const slot = createAPIError('Slot taken', 409, 'SLOT_UNAVAILABLE');
+
+    expect(isWiilError(slot)).toBe(true);
+    expect(isAPIError(slot)).toBe(true);
+    expect(isConflictError(slot)).toBe(true);
+    expect(isSlotUnavailableError(slot)).toBe(true);
+    expect(isNotFoundError(slot)).toBe(false);
+    expect(isRateLimitError(new Error('plain'))).toBe(false);
+    expect(isWiilError(undefined)).toBe(false);
+  });
+});
@@ -3,6 +3,30 @@
  * @module errors/WiilError
  */
 
+import { RateLimitInfo } from '../client/types';
+
+/**
+ * HTTP status codes of API errors that are safe to retry.
+ *
+ * @internal
+ */
+export const RETRYABLE_STATUS_CODES: readonly number[] = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Network error codes of transient failures that are safe to retry.
+ *
+ * @internal
+ */
+export const RETRYABLE_NETWORK_ERROR_CODES: readonly string[] = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ERR_NETWORK',
+];
+
 /**
  * Base error class for all WIIL SDK errors.
  *
@@ -27,18 +51,32 @@ export class WiilError extends Error {
    */
   public readonly details?: unknown;
 
+  /**
+   * API request ID from the `X-Request-Id` response header, when a response was received.
+   */
+  public readonly requestId?: string;
+
   /**
    * Creates a new WiilError instance.
    *
    * @param message - Human-readable error message
    * @param details - Additional error context or details
+   * @param requestId - API request ID of the failed request
    */
-  constructor(message: string, details?: unknown) {
+  constructor(message: string, details?: unknown, requestId?: string) {
     super(message);
     this.name = 'WiilError';
     this.details = details;
+    this.requestId = requestId;
     Object.setPrototypeOf(this, WiilError.prototype);
   }
+
+  /**
+   * Whether the failed operation may succeed if it is sent again unchanged.
+   */
+  public get isRetryable(): boolean {
+    return false;
+  }
 }
 
 /**
@@ -47,6 +85,8 @@ export class WiilError extends Error {
  * @remarks
  * This error is thrown for HTTP 4xx and 5xx responses from the WIIL Platform API.
  * It includes the HTTP status code and error code from the API response.
+ * Common failures are thrown as subclasses such as {@link WiilNotFoundError}
+ * and {@link WiilRateLimitError}.
  *
  * @example
  * ```typescript
@@ -56,6 +96,10 @@ export class WiilError extends Error {
  *   if (error instanceof WiilAPIError) {
  *     console.error(`API Error ${error.statusCode}:`, error.message);
  *     console.error('Error Code:', error.code);
+ *     console.error('Request ID:', error.requestId);
+ *     for (const fieldError of error.fieldErrors) {
+ *       console.error(`${fieldError.field}: ${fieldError.message}`);
+ *     }
  *   }
  * }
  * ```
@@ -71,6 +115,21 @@ export class WiilAPIError extends WiilError {
    */
   public readonly code?: string;
 
+  /**
+   * Delay in milliseconds requested by the API's `Retry-After` header, if any.
+   */
+  public readonly retryAfter?: number;
+
+  /**
+   * Rate-limit state reported in the error response headers, if any.
+   */
+  public readonly rateLimit?: RateLimitInfo;
+
+  /**
+   * Field-level validation errors reported in the error response `meta`.
+   */
+  public readonly fieldErrors: WiilFieldError[];
+
   /**
    * Creates a new WiilAPIError instance.
    *
@@ -78,19 +137,74 @@ export class WiilAPIError extends WiilError {
    * @param statusCode - HTTP status code
    * @param code - Error code from API
    * @param details - Additional error context
+   * @param options - Additional response information
    */
   constructor(
     message: string,
     statusCode?: number,
     code?: string,
-    details?: unknown
+    details?: unknown,
+    options?: WiilAPIErrorOptions
   ) {
-    super(message, details);
+    super(message, details, options?.requestId);
     this.name = 'WiilAPIError';
     this.statusCode = statusCode;
     this.code = code;
+    this.retryAfter = options?.retryAfter;
+    this.rateLimit = options?.rateLimit;
+    this.fieldErrors = parseFieldErrors(details);
     Object.setPrototypeOf(this, WiilAPIError.prototype);
   }
+
+  /**
+   * Whether the failed operation may succeed if it is sent again unchanged.
+   *
+   * @remarks
+   * True for timeouts, rate limits, and transient server errors.
+   */
+  public get isRetryable(): boolean {
+    return this.statusCode !== undefined && RETRYABLE_STATUS_CODES.includes(this.statusCode);
+  }
+}
+
+/**
+ * Validation error for a single request field.
+ */
+export interface WiilFieldError {
+  /**
+   * Path of the invalid field, such as `address.postalCode`.
+   */
+  field: string;
+
+  /**
+   * Human-readable description of the problem.
+   */
+  message: string;
+
+  /**
+   * Error code for the field, when the API provides one.
+   */
+  code?: string;
+}
+
+/**
+ * Additional response information attached to a {@link WiilAPIError}.
+ */
+export interface WiilAPIErrorOptions {
+  /**
+   * Delay in milliseconds requested by the API's `Retry-After` header.
+   */
+  retryAfter?: number;
+
+  /**
+   * Rate-limit state reported in the response headers.
+   */
+  rateLimit?: RateLimitInfo;
+
+  /**
+   * API request ID from the `X-Request-Id` response header.
+   */
+  requestId?: string;
 }
 
 /**
@@ -157,6 +271,17 @@ export class WiilNetworkError extends WiilError {
     this.name = 'WiilNetworkError';
     Object.setPrototypeOf(this, WiilNetworkError.prototype);
   }
+
+  /**
+   * Whether the failed operation may succeed if it is sent again unchanged.
+   *
+   * @remarks
+   * True for connection resets, refusals, and timeouts.
+   */
+  public get isRetryable(): boolean {
+    const code = (this.details as { code?: string } | undefined)?.code;
+    return code !== undefined && RETRYABLE_NETWORK_ERROR_CODES.includes(code);
+  }
 }
 
 /**
@@ -189,3 +314,538 @@ export class WiilConfigurationError extends WiilError {
     Object.setPrototypeOf(this, WiilConfigurationError.prototype);
   }
 }
+
+/**
+ * Error thrown when an operation is cancelled through an `AbortSignal`.
+ *
+ * @remarks
+ * Thrown when the signal passed in the request options is aborted before or
+ * while a request is in flight, including during retry backoff and polling
+ * waits. Aborted requests are never retried.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * req.on('close', () => controller.abort());
+ *
+ * try {
+ *   await client.dynamicAgentStatus.poll('setup_123', { signal: controller.signal });
+ * } catch (error) {
+ *   if (error instanceof WiilAbortError) {
+ *     console.log('Polling stopped:', error.details);
+ *   }
+ * }
+ * ```
+ */
+export class WiilAbortError extends WiilError {
+  /**
+   * Creates a new WiilAbortError instance.
+   *
+   * @param message - Human-readable error message
+   * @param details - Abort reason from the signal
+   */
+  constructor(message = 'The operation was aborted', details?: unknown) {
+    super(message, details);
+    this.name = 'WiilAbortError';
+    Object.setPrototypeOf(this, WiilAbortError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a webhook request is not signed by the WIIL Platform.
+ *
+ * @remarks
+ * Thrown when the signature header is missing or malformed, when no
+ * signature matches the webhook secret, or when the signature timestamp is
+ * outside the allowed tolerance. Respond with HTTP 400 and do not process the
+ * payload.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   const event = constructWebhookEvent(rawBody, req.headers['x-wiil-signature'], secret);
+ * } catch (error) {
+ *   if (error instanceof WiilWebhookSignatureError) {
+ *     res.statusCode = 400;
+ *   }
+ * }
+ * ```
+ */
+export class WiilWebhookSignatureError extends WiilError {
+  /**
+   * Creates a new WiilWebhookSignatureError instance.
+   *
+   * @param message - Human-readable error message
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = 'WiilWebhookSignatureError';
+    Object.setPrototypeOf(this, WiilWebhookSignatureError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the API key is missing, invalid, or revoked.
+ *
+ * @remarks
+ * Mapped from HTTP 401 responses and authentication error codes.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.projects.list();
+ * } catch (error) {
+ *   if (isAuthenticationError(error)) {
+ *     console.error('Check the WIIL_API_KEY environment variable');
+ *   }
+ * }
+ * ```
+ */
+export class WiilAuthenticationError extends WiilAPIError {
+  /**
+   * Creates a new WiilAuthenticationError instance.
+   *
+   * @param message - Human-readable error message
+   * @param statusCode - HTTP status code
+   * @param code - Error code from API
+   * @param details - Additional error context
+   * @param options - Additional response information
+   */
+  constructor(
+    message: string,
+    statusCode?: number,
+    code?: string,
+    details?: unknown,
+    options?: WiilAPIErrorOptions
+  ) {
+    super(message, statusCode, code, details, options);
+    this.name = 'WiilAuthenticationError';
+    Object.setPrototypeOf(this, WiilAuthenticationError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the API key is not allowed to perform the operation.
+ *
+ * @remarks
+ * Mapped from HTTP 403 responses and permission error codes.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.organizations.get();
+ * } catch (error) {
+ *   if (isPermissionError(error)) {
+ *     console.error('This API key cannot access the organization');
+ *   }
+ * }
+ * ```
+ */
+export class WiilPermissionError extends WiilAPIError {
+  /**
+   * Creates a new WiilPermissionError instance.
+   *
+   * @param message - Human-readable error message
+   * @param statusCode - HTTP status code
+   * @param code - Error code from API
+   * @param details - Additional error context
+   * @param options - Additional response information
+   */
+  constructor(
+    message: string,
+    statusCode?: number,
+    code?: string,
+    details?: unknown,
+    options?: WiilAPIErrorOptions
+  ) {
+    super(message, statusCode, code, details, options);
+    this.name = 'WiilPermissionError';
+    Object.setPrototypeOf(this, WiilPermissionError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the requested resource does not exist.
+ *
+ * @remarks
+ * Mapped from HTTP 404 responses and not-found error codes.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.customers.get('cust_123');
+ * } catch (error) {
+ *   if (isNotFoundError(error)) {
+ *     return null;
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class WiilNotFoundError extends WiilAPIError {
+  /**
+   * Creates a new WiilNotFoundError instance.
+   *
+   * @param message - Human-readable error message
+   * @param statusCode - HTTP status code
+   * @param code - Error code from API
+   * @param details - Additional error context
+   * @param options - Additional response information
+   */
+  constructor(
+    message: string,
+    statusCode?: number,
+    code?: string,
+    details?: unknown,
+    options?: WiilAPIErrorOptions
+  ) {
+    super(message, statusCode, code, details, options);
+    this.name = 'WiilNotFoundError';
+    Object.setPrototypeOf(this, WiilNotFoundError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the request conflicts with the current state of a resource,
+ * such as a duplicate or a concurrent change.
+ *
+ * @remarks
+ * Mapped from HTTP 409 responses and conflict error codes.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.customers.create(data);
+ * } catch (error) {
+ *   if (isConflictError(error)) {
+ *     console.error('A customer with this email already exists');
+ *   }
+ * }
+ * ```
+ */
+export class WiilConflictError extends WiilAPIError {
+  /**
+   * Creates a new WiilConflictError instance.
+   *
+   * @param message - Human-readable error message
+   * @param statusCode - HTTP status code
+   * @param code - Error code from API
+   * @param details - Additional error context
+   * @param options - Additional response information
+   */
+  constructor(
+    message: string,
+    statusCode?: number,
+    code?: string,
+    details?: unknown,
+    options?: WiilAPIErrorOptions
+  ) {
+    super(message, statusCode, code, details, options);
+    this.name = 'WiilConflictError';
+    Object.setPrototypeOf(this, WiilConflictError.prototype);
+  }
+}
+
+/**
+ * Error thrown when a booking targets a time slot that is no longer available.
+ *
+ * @remarks
+ * Mapped from slot availability error codes. As a conflict, it is also a
+ * {@link WiilConflictError}.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.serviceAppointments.create(data);
+ * } catch (error) {
+ *   if (isSlotUnavailableError(error)) {
+ *     console.log('That time was just taken, please pick another slot');
+ *   }
+ * }
+ * ```
+ */
+export class WiilSlotUnavailableError extends WiilConflictError {
+  /**
+   * Creates a new WiilSlotUnavailableError instance.
+   *
+   * @param message - Human-readable error message
+   * @param statusCode - HTTP status code
+   * @param code - Error code from API
+   * @param details - Additional error context
+   * @param options - Additional response information
+   */
+  constructor(
+    message: string,
+    statusCode?: number,
+    code?: string,
+    details?: unknown,
+    options?: WiilAPIErrorOptions
+  ) {
+    super(message, statusCode, code, details, options);
+    this.name = 'WiilSlotUnavailableError';
+    Object.setPrototypeOf(this, WiilSlotUnavailableError.prototype);
+  }
+}
+
+/**
+ * Error thrown when the API rejected the request because of a rate limit.
+ *
+ * @remarks
+ * Mapped from HTTP 429 responses and rate-limit error codes. The delay
+ * requested by the API is available as {@link WiilAPIError.retryAfter}.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.outboundSms.send(data);
+ * } catch (error) {
+ *   if (isRateLimitError(error)) {
+ *     await sleep(error.retryAfter ?? 1000);
+ *   }
+ * }
+ * ```
+ */
+export class WiilRateLimitError extends WiilAPIError {
+  /**
+   * Creates a new WiilRateLimitError instance.
+   *
+   * @param message - Human-readable error message
+   * @param statusCode - HTTP status code
+   * @param code - Error code from API
+   * @param details - Additional error context
+   * @param options - Additional response information
+   */
+  constructor(
+    message: string,
+    statusCode?: number,
+    code?: string,
+    details?: unknown,
+    options?: WiilAPIErrorOptions
+  ) {
+    super(message, statusCode, code, details, options);
+    this.name = 'WiilRateLimitError';
+    Object.setPrototypeOf(this, WiilRateLimitError.prototype);
+  }
+
+  /**
+   * Rate-limited requests can always be retried after waiting.
+   */
+  public get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Checks whether a value is an error thrown by the WIIL SDK.
+ *
+ * @param error - Value to check
+ * @returns True if the value is a {@link WiilError}
+ */
+export function isWiilError(error: unknown): error is WiilError {
+  return error instanceof WiilError;
+}
+
+/**
+ * Checks whether a value is an error returned by the WIIL Platform API.
+ *
+ * @param error - Value to check
+ * @returns True if the value is a {@link WiilAPIError}
+ */
+export function isAPIError(error: unknown): error is WiilAPIError {
+  return error instanceof WiilAPIError;
+}
+
+/**
+ * Checks whether a value is an authentication error.
+ *
+ * @param error - Value to check
+ * @returns True if the value is a {@link WiilAuthenticationError}
+ */
+export function isAuthenticationError(error: unknown): error is WiilAuthenticationError {
+  return error instanceof WiilAuthenticationError;
+}
+
+/**
+ * Checks whether a value is a permission error.
+ *
+ * @param error - Value to check
+ * @returns True if the value is a {@link WiilPermissionError}
+ */
+export function isPermissionError(error: unknown): error is WiilPermissionError {
+  return error instanceof WiilPermissionError;
+}
+
+/**
+ * Checks whether a value is a not-found error.
+ *
+ * @param error - Value to check
+ * @returns True if the value is a {@link WiilNotFoundError}
+ */
+export function isNotFoundError(error: unknown): error is WiilNotFoundError {
+  return error instanceof WiilNotFoundError;
+}
+
+/**
+ * Checks whether a value is a conflict error, including slot conflicts.
+ *
+ * @param error - Value to check
+ * @returns True if the value is a {@link WiilConflictError}
+ */
+export function isConflictError(error: unknown): error is WiilConflictError {
+  return error instanceof WiilConflictError;
+}
+
+/**
+ * Checks whether a value is a slot availability error.
+ *
+ * @param error - Value to check
+ * @returns True if the value is a {@link WiilSlotUnavailableError}
+ */
+export function isSlotUnavailableError(error: unknown): error is WiilSlotUnavailableError {
+  return error instanceof WiilSlotUnavailableError;
+}
+
+/**
+ * Checks whether a value is a rate-limit error.
+ *
+ * @param error - Value to check
+ * @returns True if the value is a {@link WiilRateLimitError}
+ */
+export function isRateLimitError(error: unknown): error is WiilRateLimitError {
+  return error instanceof WiilRateLimitError;
+}
+
+/**
+ * Checks whether a value is a webhook signature error.
+ *
+ * @param error - Value to check
+ * @returns True if the value is a {@link WiilWebhookSignatureError}
+ */
+export function isWebhookSignatureError(error: unknown): error is WiilWebhookSignatureError {
+  return error instanceof WiilWebhookSignatureError;
+}
+
+/**
+ * Constructor shared by {@link WiilAPIError} and its subclasses.
+ *
+ * @internal
+ */
+type WiilAPIErrorClass = new (
+  message: string,
+  statusCode?: number,
+  code?: string,
+  details?: unknown,
+  options?: WiilAPIErrorOptions
+) => WiilAPIError;
+
+/**
+ * Error classes for API error codes, checked before the HTTP status.
+ *
+ * @internal
+ */
+const ERROR_CODE_CLASSES: Record<string, WiilAPIErrorClass> = {
+  UNAUTHORIZED: WiilAuthenticationError,
+  AUTHENTICATION_ERROR: WiilAuthenticationError,
+  INVALID_API_KEY: WiilAuthenticationError,
+  FORBIDDEN: WiilPermissionError,
+  PERMISSION_DENIED: WiilPermissionError,
+  NOT_FOUND: WiilNotFoundError,
+  RESOURCE_NOT_FOUND: WiilNotFoundError,
+  CONFLICT: WiilConflictError,
+  ALREADY_EXISTS: WiilConflictError,
+  DUPLICATE_RESOURCE: WiilConflictError,
+  SLOT_UNAVAILABLE: WiilSlotUnavailableError,
+  SLOT_NOT_AVAILABLE: WiilSlotUnavailableError,
+  TIME_SLOT_UNAVAILABLE: WiilSlotUnavailableError,
+  RATE_LIMIT_EXCEEDED: WiilRateLimitError,
+  TOO_MANY_REQUESTS: WiilRateLimitError,
+};
+
+/**
+ * Error classes for HTTP statuses, used when the error code is not recognized.
+ *
+ * @internal
+ */
+const STATUS_CODE_CLASSES: Record<number, WiilAPIErrorClass> = {
+  401: WiilAuthenticationError,
+  403: WiilPermissionError,
+  404: WiilNotFoundError,
+  409: WiilConflictError,
+  429: WiilRateLimitError,
+};
+
+/**
+ * Creates the most specific API error for an error code and HTTP status.
+ *
+ * @param message - Human-readable error message
+ * @param statusCode - HTTP status code
+ * @param code - Error code from API
+ * @param details - Additional error context, typically the error response `meta`
+ * @param options - Additional response information
+ * @returns A {@link WiilAPIError} subclass, or a plain WiilAPIError for other failures
+ *
+ * @internal
+ */
+export function createAPIError(
+  message: string,
+  statusCode?: number,
+  code?: string,
+  details?: unknown,
+  options?: WiilAPIErrorOptions
+): WiilAPIError {
+  const ErrorClass =
+    (code !== undefined ? ERROR_CODE_CLASSES[code] : undefined) ??
+    (statusCode !== undefined ? STATUS_CODE_CLASSES[statusCode] : undefined) ??
+    WiilAPIError;
+
+  return new ErrorClass(message, statusCode, code, details, options);
+}
+
+/**
+ * Reads field-level validation errors from error response metadata.
+ *
+ * @remarks
+ * Accepts a list under `errors`, `fieldErrors`, or `issues` whose entries
+ * name the field as `field` or `path`, or a single `field` with an `issue` or
+ * `message`.
+ *
+ * @param meta - Error response metadata
+ * @returns Field errors, empty when the metadata has none
+ *
+ * @internal
+ */
+function parseFieldErrors(meta: unknown): WiilFieldError[] {
+  if (!isRecord(meta)) {
+    return [];
+  }
+
+  const list = meta.errors ?? meta.fieldErrors ?? meta.issues;
+  const entries = Array.isArray(list) ? list : [meta];
+
+  return entries.flatMap((entry): WiilFieldError[] => {
+    if (!isRecord(entry)) {
+      return [];
+    }
+
+    const path = entry.field ?? entry.path;
+    const field = Array.isArray(path) ? path.join('.') : path;
+    const message = entry.message ?? entry.issue;
+    if (typeof field !== 'string' || typeof message !== 'string') {
+      return [];
+    }
+
+    return [typeof entry.code === 'string' ? { field, message, code: entry.code } : { field, message }];
+  });
+}
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - Value to check
+ * @returns True if the value is a non-null, non-array object
+ *
+ * @internal
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -35,11 +35,73 @@ export { WiilService } from './client/WiilService';
 
 // Configuration types
 export type { WiilServiceConfig } from './client/WiilService';
-export type { WiilClientConfig, APIResponse, APIErrorResponse } from './client/types';
+export type {
+  WiilClientConfig,
+  RetryConfig,
+  RetryEvent,
+  ResponseValidationMode,
+  ResponseDriftEvent,
+  RateLimitConfig,
+  RateLimitRule,
+  RateLimitInfo,
+  TelemetryConfig,
+  CredentialProvider,
+  CredentialsConfig,
+  WiilCredentials,
+  HttpMethod,
+  RequestOptions,
+  WiilResponse,
+  WiilResponseDetails,
+  APIResponse,
+  APIErrorResponse,
+} from './client/types';
+export type {
+  WiilMiddleware,
+  MiddlewareRequest,
+  MiddlewareResponse,
+} from './client/middleware';
+export type { WiilLogger, PinoLikeLogger } from './client/logger';
+export { pinoLogger } from './client/logger';
+export type { WithResponse } from './client/response';
+export type {
+  BatchOptions,
+  BatchProgress,
+  BatchResult,
+  BatchItemResult,
+  BatchItemSuccess,
+  BatchItemFailure,
+} from './client/batch';
+export type {
+  Transport,
+  TransportName,
+  TransportRequest,
+  TransportResponse,
+} from './client/transport';
+export type { FetchTransportOptions } from './client/FetchTransport';
+export type { HttpRequestConfig } from './client/HttpClient';
+
+export type { PaginateOptions } from './client/pagination';
+export type { ListParams, SortField, DateRangeFilters } from './client/query';
+
+// Pagination
+export { PageIterator } from './client/pagination';
+
+// Credentials
+export { runWithCredentials } from './client/credentials';
+
+// Transports
+export { AxiosTransport } from './client/AxiosTransport';
+export { FetchTransport } from './client/FetchTransport';
 
 // Service layer
 export * from './services';
 
+// Webhooks
+export * from './webhooks';
+
+// Agent stacks
+export * from './stacks';
+
 // Error classes
 export {
   WiilError,
@@ -47,7 +109,26 @@ export {
   WiilValidationError,
   WiilNetworkError,
   WiilConfigurationError,
+  WiilAbortError,
+  WiilWebhookSignatureError,
+  WiilAuthenticationError,
+  WiilPermissionError,
+  WiilNotFoundError,
+  WiilConflictError,
+  WiilSlotUnavailableError,
+  WiilRateLimitError,
+  isWiilError,
+  isAPIError,
+  isAuthenticationError,
+  isPermissionError,
+  isNotFoundError,
+  isConflictError,
+  isSlotUnavailableError,
+  isRateLimitError,
+  isWebhookSignatureError,
 } from './errors/WiilError';
+export type { WiilAPIErrorOptions, WiilFieldError } from './errors/WiilError';
+export { PollTimeoutError } from './resources/service-mgt/dynamic-agent-status';
 
 // Re-export commonly used types from wiil-core-js
 export type {
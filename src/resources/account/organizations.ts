@@ -5,8 +5,11 @@
 
 import {
   Organization,
+  OrganizationSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
 
 /**
  * Resource class for reading organization information in the WIIL Platform.
@@ -40,9 +43,20 @@ export class OrganizationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<OrganizationsResource> {
+    return withResponse(this.http, (http) => new OrganizationsResource(http));
+  }
+
   /**
    * Retrieves the organization that owns the API key.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the organization
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -58,7 +72,10 @@ export class OrganizationsResource {
    * console.log('Service Status:', org.serviceStatus);
    * ```
    */
-  public async get(): Promise<Organization> {
-    return this.http.get<Organization>('/organizations');
+  public async get(options?: RequestOptions): Promise<Organization> {
+    return this.http.get<Organization>(
+      '/organizations',
+      { ...options, responseSchema: OrganizationSchema }
+    );
   }
 }
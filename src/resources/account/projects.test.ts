@@ -111,6 +111,37 @@ describe('ProjectsResource', () => {
         client.projects.get('invalid_id')
       ).rejects.toThrow(WiilAPIError);
     });
+
+    it('should return response metadata through withResponse', async () => {
+      const mockResponse: Project = {
+        id: 'proj_123',
+        name: 'Production Environment',
+        isDefault: true,
+        serviceStatus: ServiceStatus.ACTIVE,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+
+      nock(BASE_URL)
+        .get('/projects/proj_123')
+        .reply(
+          200,
+          {
+            success: true,
+            data: mockResponse,
+            metadata: { timestamp: 1704067200000, version: 'v1' },
+          },
+          { 'X-Request-Id': 'req_abc123' }
+        );
+
+      const result = await client.projects.withResponse().get('proj_123');
+
+      expect(result.data.id).toBe('proj_123');
+      expect(result.status).toBe(200);
+      expect(result.requestId).toBe('req_abc123');
+      expect(result.metadata).toEqual({ timestamp: 1704067200000, version: 'v1' });
+      expect(result.headers['x-request-id']).toBe('req_abc123');
+    });
   });
 
   describe('update', () => {
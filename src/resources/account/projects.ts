@@ -10,9 +10,14 @@ import {
   UpdateProjectSchema,
   UpdateProject,
   PaginatedResultType,
-  PaginationRequest,
+  ProjectSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
 
 /**
  * Resource class for managing projects in the WIIL Platform.
@@ -73,10 +78,21 @@ export class ProjectsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ProjectsResource> {
+    return withResponse(this.http, (http) => new ProjectsResource(http));
+  }
+
   /**
    * Creates a new project.
    *
    * @param data - Project data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created project
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -97,11 +113,12 @@ export class ProjectsResource {
    * console.log('Created project:', project.id);
    * ```
    */
-  public async create(data: CreateProject): Promise<Project> {
+  public async create(data: CreateProject, options?: RequestOptions): Promise<Project> {
     return this.http.post<CreateProject, Project>(
       this.resource_path,
       data,
-      CreateProjectSchema
+      CreateProjectSchema,
+      { ...options, responseSchema: ProjectSchema }
     );
   }
 
@@ -109,6 +126,7 @@ export class ProjectsResource {
    * Retrieves a project by ID.
    *
    * @param id - Project ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the project
    *
    * @throws {@link WiilAPIError} - When the project is not found or API returns an error
@@ -121,13 +139,17 @@ export class ProjectsResource {
    * console.log('Is Default:', project.isDefault);
    * ```
    */
-  public async get(id: string): Promise<Project> {
-    return this.http.get<Project>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<Project> {
+    return this.http.get<Project>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ProjectSchema }
+    );
   }
 
   /**
    * Retrieves the default project for the current organization.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default project
    *
    * @throws {@link WiilAPIError} - When the default project is not found or API returns an error
@@ -144,14 +166,18 @@ export class ProjectsResource {
    * console.log('Project ID:', defaultProject.id);
    * ```
    */
-  public async getDefault(): Promise<Project> {
-    return this.http.get<Project>(`${this.resource_path}/default`);
+  public async getDefault(options?: RequestOptions): Promise<Project> {
+    return this.http.get<Project>(
+      `${this.resource_path}/default`,
+      { ...options, responseSchema: ProjectSchema }
+    );
   }
 
   /**
    * Updates an existing project.
    *
    * @param data - Project update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated project
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -172,11 +198,12 @@ export class ProjectsResource {
    * console.log('Updated project:', updated.name);
    * ```
    */
-  public async update(data: UpdateProject): Promise<Project> {
+  public async update(data: UpdateProject, options?: RequestOptions): Promise<Project> {
     return this.http.patch<UpdateProject, Project>(
       this.resource_path,
       data,
-      UpdateProjectSchema
+      UpdateProjectSchema,
+      { ...options, responseSchema: ProjectSchema }
     );
   }
 
@@ -184,6 +211,7 @@ export class ProjectsResource {
    * Deletes a project.
    *
    * @param id - Project ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the project is not found or API returns an error
@@ -202,14 +230,15 @@ export class ProjectsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists projects with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of projects
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -236,17 +265,63 @@ export class ProjectsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<Project>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Project>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-    if (params?.sortBy) queryParams.append('sortBy', params.sortBy);
-    if (params?.sortDirection) queryParams.append('sortDirection', params.sortDirection);
+    return this.http.get<PaginatedResultType<Project>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProjectSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ProjectsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.projects.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<Project>,
+    options?: PaginateOptions
+  ): PageIterator<Project> {
+    return paginate((params) => this.list(params, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<Project>>(path);
+  /**
+   * Retrieves every item of {@link ProjectsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ProjectsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.projects.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<Project>,
+    options?: PaginateOptions
+  ): Promise<Project[]> {
+    return this.iterate(params, options).toArray();
   }
 }
@@ -10,9 +10,15 @@ import {
   UpdateCustomerGroup,
   UpdateCustomerGroupSchema,
   PaginatedResultType,
-  PaginationRequest,
+  CustomerGroupSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
@@ -74,10 +80,21 @@ export class CustomerGroupsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<CustomerGroupsResource> {
+    return withResponse(this.http, (http) => new CustomerGroupsResource(http));
+  }
+
   /**
    * Creates a new customer group.
    *
    * @param data - Customer group data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created customer group
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -95,11 +112,12 @@ export class CustomerGroupsResource {
    * console.log('Created group:', group.id);
    * ```
    */
-  public async create(data: CreateCustomerGroup): Promise<CustomerGroup> {
+  public async create(data: CreateCustomerGroup, options?: RequestOptions): Promise<CustomerGroup> {
     return this.http.post<CreateCustomerGroup, CustomerGroup>(
       this.resource_path,
       data,
-      CreateCustomerGroupSchema
+      CreateCustomerGroupSchema,
+      { ...options, responseSchema: CustomerGroupSchema }
     );
   }
 
@@ -107,6 +125,7 @@ export class CustomerGroupsResource {
    * Retrieves a customer group by ID.
    *
    * @param id - Customer group ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the customer group
    *
    * @throws {@link WiilAPIError} - When the group is not found or API returns an error
@@ -120,14 +139,18 @@ export class CustomerGroupsResource {
    * console.log('Is Default:', group.isDefault);
    * ```
    */
-  public async get(id: string): Promise<CustomerGroup> {
-    return this.http.get<CustomerGroup>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<CustomerGroup> {
+    return this.http.get<CustomerGroup>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: CustomerGroupSchema }
+    );
   }
 
   /**
    * Retrieves a customer group by code.
    *
    * @param code - Customer group code (e.g., 'VIP', 'WS', 'GOLD')
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the customer group or null if not found
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -141,13 +164,17 @@ export class CustomerGroupsResource {
    * }
    * ```
    */
-  public async getByCode(code: string): Promise<CustomerGroup | null> {
-    return this.http.get<CustomerGroup | null>(`${this.resource_path}/code/${encodeURIComponent(code)}`);
+  public async getByCode(code: string, options?: RequestOptions): Promise<CustomerGroup | null> {
+    return this.http.get<CustomerGroup | null>(
+      `${this.resource_path}/code/${encodeURIComponent(code)}`,
+      { ...options, responseSchema: CustomerGroupSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves the default customer group.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default customer group or null if none set
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -161,8 +188,11 @@ export class CustomerGroupsResource {
    * }
    * ```
    */
-  public async getDefault(): Promise<CustomerGroup | null> {
-    return this.http.get<CustomerGroup | null>(`${this.resource_path}/default`);
+  public async getDefault(options?: RequestOptions): Promise<CustomerGroup | null> {
+    return this.http.get<CustomerGroup | null>(
+      `${this.resource_path}/default`,
+      { ...options, responseSchema: CustomerGroupSchema.nullable() }
+    );
   }
 
   /**
@@ -170,6 +200,7 @@ export class CustomerGroupsResource {
    *
    * @param id - Customer group ID
    * @param data - Customer group update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated customer group
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -186,11 +217,16 @@ export class CustomerGroupsResource {
    * console.log('Updated group:', updated.name);
    * ```
    */
-  public async update(id: string, data: UpdateCustomerGroup): Promise<CustomerGroup> {
+  public async update(
+    id: string,
+    data: UpdateCustomerGroup,
+    options?: RequestOptions
+  ): Promise<CustomerGroup> {
     return this.http.patch<UpdateCustomerGroup, CustomerGroup>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateCustomerGroupSchema
+      UpdateCustomerGroupSchema,
+      { ...options, responseSchema: CustomerGroupSchema }
     );
   }
 
@@ -198,6 +234,7 @@ export class CustomerGroupsResource {
    * Deletes a customer group.
    *
    * @param id - Customer group ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the group is not found or API returns an error
@@ -215,14 +252,15 @@ export class CustomerGroupsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists customer groups with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of customer groups
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -246,22 +284,71 @@ export class CustomerGroupsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<CustomerGroup>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<CustomerGroup>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<CustomerGroup>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(CustomerGroupSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link CustomerGroupsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.customerGroups.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<CustomerGroup>,
+    options?: PaginateOptions
+  ): PageIterator<CustomerGroup> {
+    return paginate((params) => this.list(params, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<CustomerGroup>>(path);
+  /**
+   * Retrieves every item of {@link CustomerGroupsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link CustomerGroupsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.customerGroups.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<CustomerGroup>,
+    options?: PaginateOptions
+  ): Promise<CustomerGroup[]> {
+    return this.iterate(params, options).toArray();
   }
 
   /**
    * Creates multiple customer groups in a single batch request.
    *
    * @param data - Array of customer group data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created customer groups
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -279,7 +366,8 @@ export class CustomerGroupsResource {
    * ```
    */
   public async createBatch(
-    data: CreateCustomerGroup[]
+    data: CreateCustomerGroup[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<CustomerGroup>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -300,7 +388,39 @@ export class CustomerGroupsResource {
 
     return this.http.post<CreateCustomerGroup[], PaginatedResultType<CustomerGroup>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(CustomerGroupSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link CustomerGroupsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of customer group data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.customerGroups.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateCustomerGroup[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateCustomerGroup, CustomerGroup>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateCustomerGroupSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
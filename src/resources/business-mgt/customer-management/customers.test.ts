@@ -500,4 +500,97 @@ describe('CustomersResource', () => {
       expect(result.meta.hasPreviousPage).toBe(true);
     });
   });
+
+  describe('listAll', () => {
+    const pageOf = (ids: string[], page: number, totalPages: number) => ({
+      success: true,
+      data: {
+        data: ids.map((id) => ({
+          id,
+          phone_number: '+12125551111',
+          firstname: id,
+          preferred_language: 'en',
+          preferred_contact_method: PreferredContactMethod.EMAIL,
+          isValidatedNames: true,
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        })),
+        meta: {
+          page,
+          pageSize: 2,
+          totalCount: 3,
+          totalPages,
+          hasNextPage: page < totalPages,
+          hasPreviousPage: page > 1,
+        },
+      },
+      metadata: { timestamp: Date.now(), version: 'v1' },
+    });
+
+    it('should fetch every page of customers', async () => {
+      nock(BASE_URL)
+        .get('/customers')
+        .query({ page: '1', pageSize: '2' })
+        .reply(200, pageOf(['cust_1', 'cust_2'], 1, 2))
+        .get('/customers')
+        .query({ page: '2', pageSize: '2' })
+        .reply(200, pageOf(['cust_3'], 2, 2));
+
+      const customers = await client.customers.listAll({ pageSize: 2 });
+
+      expect(customers.map((customer) => customer.id)).toEqual(['cust_1', 'cust_2', 'cust_3']);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should stop requesting pages when iteration breaks early', async () => {
+      nock(BASE_URL)
+        .get('/customers')
+        .query({ page: '1', pageSize: '2' })
+        .reply(200, pageOf(['cust_1', 'cust_2'], 1, 2));
+
+      for await (const customer of client.customers.iterate({ pageSize: 2 })) {
+        expect(customer.id).toBe('cust_1');
+        break;
+      }
+
+      expect(nock.isDone()).toBe(true);
+    });
+  });
+
+  describe('createBatchChunked', () => {
+    it('should split large imports into batches of 50 and report failures by index', async () => {
+      const rows = Array.from({ length: 120 }, (_, i) => ({
+        phone_number: `+1212555${String(i).padStart(4, '0')}`,
+        firstname: 'Customer',
+        lastname: String(i),
+      }));
+      const created = (start: number, count: number) =>
+        rows.slice(start, start + count).map((row, i) => ({ ...row, id: `cust_${start + i}` }));
+      const page = (data: unknown[]) => ({
+        success: true,
+        data: {
+          data,
+          meta: { page: 1, pageSize: data.length, totalCount: data.length, totalPages: 1, hasNextPage: false, hasPreviousPage: false },
+        },
+        metadata: { timestamp: Date.now(), version: 'v1' },
+      });
+
+      nock(BASE_URL)
+        .post('/customers/batch', (body) => body.length === 50 && body[0].lastname === '0')
+        .reply(200, page(created(0, 50)))
+        .post('/customers/batch', (body) => body.length === 50 && body[0].lastname === '50')
+        .reply(400, { success: false, status: 400, code: 'VALIDATION_ERROR', message: 'Duplicate phone number' })
+        .post('/customers/batch', (body) => body.length === 20)
+        .reply(200, page(created(100, 20)));
+
+      const result = await client.customers.createBatchChunked(rows, { concurrency: 1 });
+
+      expect(result.successes).toHaveLength(70);
+      expect(result.failures).toHaveLength(50);
+      expect(result.failures[0].index).toBe(50);
+      expect(result.failures[0].error).toBeInstanceOf(WiilAPIError);
+      expect(result.results[100]).toMatchObject({ index: 100, success: true, data: { id: 'cust_100' } });
+      expect(nock.isDone()).toBe(true);
+    });
+  });
 });
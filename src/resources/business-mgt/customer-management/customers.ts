@@ -10,13 +10,31 @@ import {
   UpdateCustomer,
   UpdateCustomerSchema,
   PaginatedResultType,
-  PaginationRequest,
+  CustomerSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing customers.
+ */
+export interface CustomerFilters {
+  /** Text search across name, email, and phone number */
+  search?: string;
+  /** Filter by tags; matches customers with any of the tags */
+  tags?: string[];
+  /** Filter by acquisition channel ID */
+  channelId?: string;
+}
+
 /**
  * Resource class for managing customers in the WIIL Platform.
  *
@@ -77,10 +95,21 @@ export class CustomersResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<CustomersResource> {
+    return withResponse(this.http, (http) => new CustomersResource(http));
+  }
+
   /**
    * Creates a new customer.
    *
    * @param data - Customer data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created customer
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -102,11 +131,12 @@ export class CustomersResource {
    * console.log('Created customer:', customer.id);
    * ```
    */
-  public async create(data: CreateCustomer): Promise<Customer> {
+  public async create(data: CreateCustomer, options?: RequestOptions): Promise<Customer> {
     return this.http.post<CreateCustomer, Customer>(
       this.resource_path,
       data,
-      CreateCustomerSchema
+      CreateCustomerSchema,
+      { ...options, responseSchema: CustomerSchema }
     );
   }
 
@@ -114,6 +144,7 @@ export class CustomersResource {
    * Retrieves a customer by ID.
    *
    * @param id - Customer ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the customer
    *
    * @throws {@link WiilAPIError} - When the customer is not found or API returns an error
@@ -127,14 +158,18 @@ export class CustomersResource {
    * console.log('Phone:', customer.phoneNumber);
    * ```
    */
-  public async get(id: string): Promise<Customer> {
-    return this.http.get<Customer>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<Customer> {
+    return this.http.get<Customer>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: CustomerSchema }
+    );
   }
 
   /**
    * Retrieves a customer by phone number.
    *
    * @param phoneNumber - Customer phone number
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the customer or null if not found
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -150,14 +185,18 @@ export class CustomersResource {
    * }
    * ```
    */
-  public async getByPhone(phoneNumber: string): Promise<Customer | null> {
-    return this.http.get<Customer | null>(`${this.resource_path}/phone/${encodeURIComponent(phoneNumber)}`);
+  public async getByPhone(phoneNumber: string, options?: RequestOptions): Promise<Customer | null> {
+    return this.http.get<Customer | null>(
+      `${this.resource_path}/phone/${encodeURIComponent(phoneNumber)}`,
+      { ...options, responseSchema: CustomerSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves a customer by email address.
    *
    * @param email - Customer email address
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the customer or null if not found
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -171,8 +210,11 @@ export class CustomersResource {
    * }
    * ```
    */
-  public async getByEmail(email: string): Promise<Customer | null> {
-    return this.http.get<Customer | null>(`${this.resource_path}/email/${encodeURIComponent(email)}`);
+  public async getByEmail(email: string, options?: RequestOptions): Promise<Customer | null> {
+    return this.http.get<Customer | null>(
+      `${this.resource_path}/email/${encodeURIComponent(email)}`,
+      { ...options, responseSchema: CustomerSchema.nullable() }
+    );
   }
 
   /**
@@ -180,6 +222,7 @@ export class CustomersResource {
    *
    * @param query - Search query string
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated search results
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -203,17 +246,34 @@ export class CustomersResource {
    */
   public async search(
     query: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<Customer>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Customer>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('query', query);
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/search${buildQueryString(params, { query })}`;
 
-    const path = `${this.resource_path}/search?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<Customer>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(CustomerSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<Customer>>(path);
+  /**
+   * Iterates over every page of {@link CustomersResource.search}, yielding each item.
+   *
+   * @param query - Search query string
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateSearch(
+    query: string,
+    params?: ListParams<Customer>,
+    options?: PaginateOptions
+  ): PageIterator<Customer> {
+    return paginate((params) => this.search(query, params, options), params, options);
   }
 
   /**
@@ -221,6 +281,7 @@ export class CustomersResource {
    *
    * @param id - Customer ID
    * @param data - Customer update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated customer
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -240,11 +301,16 @@ export class CustomersResource {
    * console.log('Updated customer:', updated.email);
    * ```
    */
-  public async update(id: string, data: UpdateCustomer): Promise<Customer> {
+  public async update(
+    id: string,
+    data: UpdateCustomer,
+    options?: RequestOptions
+  ): Promise<Customer> {
     return this.http.patch<UpdateCustomer, Customer>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateCustomerSchema
+      UpdateCustomerSchema,
+      { ...options, responseSchema: CustomerSchema }
     );
   }
 
@@ -252,6 +318,7 @@ export class CustomersResource {
    * Deletes a customer.
    *
    * @param id - Customer ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the customer is not found or API returns an error
@@ -269,14 +336,16 @@ export class CustomersResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists customers with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of customers
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -301,22 +370,76 @@ export class CustomersResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<Customer>,
+    filters?: CustomerFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Customer>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<Customer>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(CustomerSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link CustomersResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.customers.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<Customer>,
+    filters?: CustomerFilters,
+    options?: PaginateOptions
+  ): PageIterator<Customer> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<Customer>>(path);
+  /**
+   * Retrieves every item of {@link CustomersResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link CustomersResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.customers.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<Customer>,
+    filters?: CustomerFilters,
+    options?: PaginateOptions
+  ): Promise<Customer[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple customers in a single batch request.
    *
    * @param data - Array of customer data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created customers
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -333,7 +456,8 @@ export class CustomersResource {
    * ```
    */
   public async createBatch(
-    data: CreateCustomer[]
+    data: CreateCustomer[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Customer>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -354,7 +478,39 @@ export class CustomersResource {
 
     return this.http.post<CreateCustomer[], PaginatedResultType<Customer>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(CustomerSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link CustomersResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of customer data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.customers.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateCustomer[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateCustomer, Customer>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateCustomerSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -10,13 +10,27 @@ import {
   UpdateShippingAddress,
   UpdateShippingAddressSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ShippingAddressSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing shipping addresses.
+ */
+export interface ShippingAddressFilters {
+  /** Filter by customer ID */
+  customerId?: string;
+}
+
 /**
  * Resource class for managing shipping addresses in the WIIL Platform.
  *
@@ -77,10 +91,21 @@ export class ShippingAddressesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ShippingAddressesResource> {
+    return withResponse(this.http, (http) => new ShippingAddressesResource(http));
+  }
+
   /**
    * Creates a new shipping address.
    *
    * @param data - Shipping address data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created shipping address
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -105,11 +130,12 @@ export class ShippingAddressesResource {
    * console.log('Created address:', address.id);
    * ```
    */
-  public async create(data: CreateShippingAddress): Promise<ShippingAddress> {
+  public async create(data: CreateShippingAddress, options?: RequestOptions): Promise<ShippingAddress> {
     return this.http.post<CreateShippingAddress, ShippingAddress>(
       this.resource_path,
       data,
-      CreateShippingAddressSchema
+      CreateShippingAddressSchema,
+      { ...options, responseSchema: ShippingAddressSchema }
     );
   }
 
@@ -117,6 +143,7 @@ export class ShippingAddressesResource {
    * Retrieves a shipping address by ID.
    *
    * @param id - Shipping address ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the shipping address
    *
    * @throws {@link WiilAPIError} - When the address is not found or API returns an error
@@ -130,8 +157,11 @@ export class ShippingAddressesResource {
    * console.log('Is Primary:', address.isPrimary);
    * ```
    */
-  public async get(id: string): Promise<ShippingAddress> {
-    return this.http.get<ShippingAddress>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ShippingAddress> {
+    return this.http.get<ShippingAddress>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ShippingAddressSchema }
+    );
   }
 
   /**
@@ -139,6 +169,7 @@ export class ShippingAddressesResource {
    *
    * @param customerId - Customer ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of shipping addresses
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -159,22 +190,41 @@ export class ShippingAddressesResource {
    */
   public async getByCustomer(
     customerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ShippingAddress>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ShippingAddress>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-customer/${customerId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-customer/${customerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ShippingAddress>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ShippingAddressSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ShippingAddress>>(path);
+  /**
+   * Iterates over every page of {@link ShippingAddressesResource.getByCustomer}, yielding each item.
+   *
+   * @param customerId - Customer ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByCustomer(
+    customerId: string,
+    params?: ListParams<ShippingAddress>,
+    options?: PaginateOptions
+  ): PageIterator<ShippingAddress> {
+    return paginate((params) => this.getByCustomer(customerId, params, options), params, options);
   }
 
   /**
    * Retrieves the primary shipping address for a customer.
    *
    * @param customerId - Customer ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the primary shipping address or null if none set
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -188,8 +238,14 @@ export class ShippingAddressesResource {
    * }
    * ```
    */
-  public async getPrimary(customerId: string): Promise<ShippingAddress | null> {
-    return this.http.get<ShippingAddress | null>(`${this.resource_path}/primary/${customerId}`);
+  public async getPrimary(
+    customerId: string,
+    options?: RequestOptions
+  ): Promise<ShippingAddress | null> {
+    return this.http.get<ShippingAddress | null>(
+      `${this.resource_path}/primary/${customerId}`,
+      { ...options, responseSchema: ShippingAddressSchema.nullable() }
+    );
   }
 
   /**
@@ -197,6 +253,7 @@ export class ShippingAddressesResource {
    *
    * @param id - Shipping address ID
    * @param data - Shipping address update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated shipping address
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -213,11 +270,16 @@ export class ShippingAddressesResource {
    * console.log('Updated address:', updated.street);
    * ```
    */
-  public async update(id: string, data: UpdateShippingAddress): Promise<ShippingAddress> {
+  public async update(
+    id: string,
+    data: UpdateShippingAddress,
+    options?: RequestOptions
+  ): Promise<ShippingAddress> {
     return this.http.patch<UpdateShippingAddress, ShippingAddress>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateShippingAddressSchema
+      UpdateShippingAddressSchema,
+      { ...options, responseSchema: ShippingAddressSchema }
     );
   }
 
@@ -225,6 +287,7 @@ export class ShippingAddressesResource {
    * Sets a shipping address as primary for a customer.
    *
    * @param id - Shipping address ID to set as primary
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated shipping address
    *
    * @throws {@link WiilAPIError} - When the address is not found or API returns an error
@@ -240,10 +303,12 @@ export class ShippingAddressesResource {
    * console.log('New primary address:', primary.street);
    * ```
    */
-  public async setPrimary(id: string): Promise<ShippingAddress> {
+  public async setPrimary(id: string, options?: RequestOptions): Promise<ShippingAddress> {
     return this.http.post<Record<string, never>, ShippingAddress>(
       `${this.resource_path}/${id}/set-primary`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: ShippingAddressSchema }
     );
   }
 
@@ -251,6 +316,7 @@ export class ShippingAddressesResource {
    * Deletes a shipping address.
    *
    * @param id - Shipping address ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the address is not found or API returns an error
@@ -268,14 +334,16 @@ export class ShippingAddressesResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists shipping addresses with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of shipping addresses
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -299,22 +367,76 @@ export class ShippingAddressesResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ShippingAddress>,
+    filters?: ShippingAddressFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ShippingAddress>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ShippingAddress>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ShippingAddressSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ShippingAddressesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.shippingAddresses.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<ShippingAddress>,
+    filters?: ShippingAddressFilters,
+    options?: PaginateOptions
+  ): PageIterator<ShippingAddress> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ShippingAddress>>(path);
+  /**
+   * Retrieves every item of {@link ShippingAddressesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ShippingAddressesResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.shippingAddresses.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<ShippingAddress>,
+    filters?: ShippingAddressFilters,
+    options?: PaginateOptions
+  ): Promise<ShippingAddress[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple shipping addresses in a single batch request.
    *
    * @param data - Array of shipping address data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created shipping addresses
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -347,7 +469,8 @@ export class ShippingAddressesResource {
    * ```
    */
   public async createBatch(
-    data: CreateShippingAddress[]
+    data: CreateShippingAddress[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ShippingAddress>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -368,7 +491,39 @@ export class ShippingAddressesResource {
 
     return this.http.post<CreateShippingAddress[], PaginatedResultType<ShippingAddress>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ShippingAddressSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ShippingAddressesResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of shipping address data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.shippingAddresses.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateShippingAddress[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateShippingAddress, ShippingAddress>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateShippingAddressSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
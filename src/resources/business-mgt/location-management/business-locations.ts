@@ -11,9 +11,15 @@ import {
   UpdateBusinessLocationSchema,
   BusinessLocationStatus,
   PaginatedResultType,
-  PaginationRequest,
+  BusinessLocationSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
@@ -88,10 +94,21 @@ export class BusinessLocationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<BusinessLocationsResource> {
+    return withResponse(this.http, (http) => new BusinessLocationsResource(http));
+  }
+
   /**
    * Creates a new business location.
    *
    * @param data - Business location data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created business location
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -120,11 +137,12 @@ export class BusinessLocationsResource {
    * console.log('Created location:', location.id);
    * ```
    */
-  public async create(data: CreateBusinessLocation): Promise<BusinessLocation> {
+  public async create(data: CreateBusinessLocation, options?: RequestOptions): Promise<BusinessLocation> {
     return this.http.post<CreateBusinessLocation, BusinessLocation>(
       this.resource_path,
       data,
-      CreateBusinessLocationSchema
+      CreateBusinessLocationSchema,
+      { ...options, responseSchema: BusinessLocationSchema }
     );
   }
 
@@ -132,6 +150,7 @@ export class BusinessLocationsResource {
    * Retrieves a business location by ID.
    *
    * @param id - Business location ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the business location
    *
    * @throws {@link WiilAPIError} - When the location is not found or API returns an error
@@ -145,14 +164,18 @@ export class BusinessLocationsResource {
    * console.log('Primary:', location.isPrimary);
    * ```
    */
-  public async get(id: string): Promise<BusinessLocation> {
-    return this.http.get<BusinessLocation>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<BusinessLocation> {
+    return this.http.get<BusinessLocation>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: BusinessLocationSchema }
+    );
   }
 
   /**
    * Retrieves a business location by code.
    *
    * @param code - Business location code
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the business location or null if not found
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -166,14 +189,18 @@ export class BusinessLocationsResource {
    * }
    * ```
    */
-  public async getByCode(code: string): Promise<BusinessLocation | null> {
-    return this.http.get<BusinessLocation | null>(`${this.resource_path}/code/${code}`);
+  public async getByCode(code: string, options?: RequestOptions): Promise<BusinessLocation | null> {
+    return this.http.get<BusinessLocation | null>(
+      `${this.resource_path}/code/${code}`,
+      { ...options, responseSchema: BusinessLocationSchema.nullable() }
+    );
   }
 
   /**
    * Updates an existing business location.
    *
    * @param data - Business location update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated business location
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -191,11 +218,15 @@ export class BusinessLocationsResource {
    * console.log('Updated location:', updated.name);
    * ```
    */
-  public async update(data: UpdateBusinessLocation): Promise<BusinessLocation> {
+  public async update(
+    data: UpdateBusinessLocation,
+    options?: RequestOptions
+  ): Promise<BusinessLocation> {
     return this.http.patch<UpdateBusinessLocation, BusinessLocation>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateBusinessLocationSchema
+      UpdateBusinessLocationSchema,
+      { ...options, responseSchema: BusinessLocationSchema }
     );
   }
 
@@ -203,6 +234,7 @@ export class BusinessLocationsResource {
    * Deletes a business location.
    *
    * @param id - Business location ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the location is not found or API returns an error
@@ -220,8 +252,8 @@ export class BusinessLocationsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
@@ -229,6 +261,7 @@ export class BusinessLocationsResource {
    *
    * @param params - Pagination parameters
    * @param filters - Optional filters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of business locations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -252,26 +285,76 @@ export class BusinessLocationsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>,
-    filters?: BusinessLocationFilters
+    params?: ListParams<BusinessLocation>,
+    filters?: BusinessLocationFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessLocation>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-    if (filters?.status) queryParams.append('status', filters.status);
-    if (filters?.isPrimary !== undefined) queryParams.append('isPrimary', filters.isPrimary.toString());
-    if (filters?.search) queryParams.append('search', filters.search);
+    return this.http.get<PaginatedResultType<BusinessLocation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(BusinessLocationSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link BusinessLocationsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters for status, primary flag, and search text
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.businessLocations.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<BusinessLocation>,
+    filters?: BusinessLocationFilters,
+    options?: PaginateOptions
+  ): PageIterator<BusinessLocation> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<BusinessLocation>>(path);
+  /**
+   * Retrieves every item of {@link BusinessLocationsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters for status, primary flag, and search text
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link BusinessLocationsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.businessLocations.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<BusinessLocation>,
+    filters?: BusinessLocationFilters,
+    options?: PaginateOptions
+  ): Promise<BusinessLocation[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Gets active business locations.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active business locations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -286,21 +369,38 @@ export class BusinessLocationsResource {
    * ```
    */
   public async getActive(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<BusinessLocation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessLocation>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/active${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/active${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<BusinessLocation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(BusinessLocationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<BusinessLocation>>(path);
+  /**
+   * Iterates over every page of {@link BusinessLocationsResource.getActive}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    params?: ListParams<BusinessLocation>,
+    options?: PaginateOptions
+  ): PageIterator<BusinessLocation> {
+    return paginate((params) => this.getActive(params, options), params, options);
   }
 
   /**
    * Gets the primary business location for the organization.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the primary business location or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -314,14 +414,18 @@ export class BusinessLocationsResource {
    * }
    * ```
    */
-  public async getPrimary(): Promise<BusinessLocation | null> {
-    return this.http.get<BusinessLocation | null>(`${this.resource_path}/primary`);
+  public async getPrimary(options?: RequestOptions): Promise<BusinessLocation | null> {
+    return this.http.get<BusinessLocation | null>(
+      `${this.resource_path}/primary`,
+      { ...options, responseSchema: BusinessLocationSchema.nullable() }
+    );
   }
 
   /**
    * Creates multiple business locations in a single batch request.
    *
    * @param data - Array of business location data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created business locations
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -338,7 +442,8 @@ export class BusinessLocationsResource {
    * ```
    */
   public async createBatch(
-    data: CreateBusinessLocation[]
+    data: CreateBusinessLocation[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessLocation>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -359,7 +464,39 @@ export class BusinessLocationsResource {
 
     return this.http.post<CreateBusinessLocation[], PaginatedResultType<BusinessLocation>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(BusinessLocationSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link BusinessLocationsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of business location data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.businessLocations.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateBusinessLocation[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateBusinessLocation, BusinessLocation>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateBusinessLocationSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
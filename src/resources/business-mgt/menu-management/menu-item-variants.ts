@@ -10,8 +10,13 @@ import {
   UpdateMenuItemVariant,
   UpdateMenuItemVariantSchema,
   PaginatedResultType,
+  MenuItemVariantSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 100;
@@ -40,21 +45,33 @@ export class MenuItemVariantsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<MenuItemVariantsResource> {
+    return withResponse(this.http, (http) => new MenuItemVariantsResource(http));
+  }
+
   /**
    * Creates a new menu item variant.
    *
    * @param data - Menu item variant data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created menu item variant
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateMenuItemVariant): Promise<MenuItemVariant> {
+  public async create(data: CreateMenuItemVariant, options?: RequestOptions): Promise<MenuItemVariant> {
     return this.http.post<CreateMenuItemVariant, MenuItemVariant>(
       this.resource_path,
       data,
-      CreateMenuItemVariantSchema
+      CreateMenuItemVariantSchema,
+      { ...options, responseSchema: MenuItemVariantSchema }
     );
   }
 
@@ -62,26 +79,37 @@ export class MenuItemVariantsResource {
    * Retrieves a menu item variant by ID.
    *
    * @param id - Menu item variant ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the menu item variant
    *
    * @throws {@link WiilAPIError} - When the variant is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<MenuItemVariant> {
-    return this.http.get<MenuItemVariant>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<MenuItemVariant> {
+    return this.http.get<MenuItemVariant>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: MenuItemVariantSchema }
+    );
   }
 
   /**
    * Retrieves the default variant for a menu item.
    *
    * @param menuItemId - Parent menu item ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default variant or null if none set
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getDefault(menuItemId: string): Promise<MenuItemVariant | null> {
-    return this.http.get<MenuItemVariant | null>(`${this.resource_path}/default/${menuItemId}`);
+  public async getDefault(
+    menuItemId: string,
+    options?: RequestOptions
+  ): Promise<MenuItemVariant | null> {
+    return this.http.get<MenuItemVariant | null>(
+      `${this.resource_path}/default/${menuItemId}`,
+      { ...options, responseSchema: MenuItemVariantSchema.nullable() }
+    );
   }
 
   /**
@@ -89,17 +117,23 @@ export class MenuItemVariantsResource {
    *
    * @param id - Menu item variant ID
    * @param data - Menu item variant update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated menu item variant
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the variant is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateMenuItemVariant): Promise<MenuItemVariant> {
+  public async update(
+    id: string,
+    data: UpdateMenuItemVariant,
+    options?: RequestOptions
+  ): Promise<MenuItemVariant> {
     return this.http.patch<UpdateMenuItemVariant, MenuItemVariant>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateMenuItemVariantSchema
+      UpdateMenuItemVariantSchema,
+      { ...options, responseSchema: MenuItemVariantSchema }
     );
   }
 
@@ -107,19 +141,21 @@ export class MenuItemVariantsResource {
    * Deletes a menu item variant.
    *
    * @param id - Menu item variant ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the variant is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Creates multiple menu item variants in a single batch request.
    *
    * @param data - Array of menu item variant data (maximum 100 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created menu item variants
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -127,7 +163,8 @@ export class MenuItemVariantsResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateMenuItemVariant[]
+    data: CreateMenuItemVariant[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuItemVariant>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -148,7 +185,39 @@ export class MenuItemVariantsResource {
 
     return this.http.post<CreateMenuItemVariant[], PaginatedResultType<MenuItemVariant>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(MenuItemVariantSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link MenuItemVariantsResource.createBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param data - Array of menu item variant data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.menuItemVariants.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateMenuItemVariant[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateMenuItemVariant, MenuItemVariant>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateMenuItemVariantSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
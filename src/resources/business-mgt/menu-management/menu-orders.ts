@@ -10,10 +10,27 @@ import {
   UpdateMenuOrder,
   UpdateMenuOrderSchema,
   PaginatedResultType,
-  PaginationRequest,
   UpdateMenuOrderStatus,
+  MenuOrderSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
+
+/**
+ * Filters for listing menu orders.
+ */
+export interface MenuOrderFilters extends DateRangeFilters {
+  /** Filter by order status */
+  status?: MenuOrder['status'];
+  /** Filter by payment status */
+  paymentStatus?: MenuOrder['paymentStatus'];
+  /** Filter by customer ID */
+  customerId?: string;
+}
 
 /**
  * Resource class for managing menu orders in the WIIL Platform.
@@ -26,68 +43,118 @@ export class MenuOrdersResource {
     this.http = http;
   }
 
-  public async create(data: CreateMenuOrder): Promise<MenuOrder> {
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<MenuOrdersResource> {
+    return withResponse(this.http, (http) => new MenuOrdersResource(http));
+  }
+
+  public async create(data: CreateMenuOrder, options?: RequestOptions): Promise<MenuOrder> {
     return this.http.post<CreateMenuOrder, MenuOrder>(
       this.resource_path,
       data,
-      CreateMenuOrderSchema
+      CreateMenuOrderSchema,
+      { ...options, responseSchema: MenuOrderSchema }
     );
   }
 
-  public async get(id: string): Promise<MenuOrder> {
-    return this.http.get<MenuOrder>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<MenuOrder> {
+    return this.http.get<MenuOrder>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: MenuOrderSchema }
+    );
   }
 
   public async getByCustomer(
     customerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MenuOrder>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuOrder>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-customer/${customerId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-customer/${customerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MenuOrder>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuOrderSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MenuOrder>>(path);
+  public iterateByCustomer(
+    customerId: string,
+    params?: ListParams<MenuOrder>,
+    options?: PaginateOptions
+  ): PageIterator<MenuOrder> {
+    return paginate((params) => this.getByCustomer(customerId, params, options), params, options);
   }
 
-  public async update(data: UpdateMenuOrder): Promise<MenuOrder> {
+  public async update(data: UpdateMenuOrder, options?: RequestOptions): Promise<MenuOrder> {
     return this.http.patch<UpdateMenuOrder, MenuOrder>(
       this.resource_path,
       data,
-      UpdateMenuOrderSchema
+      UpdateMenuOrderSchema,
+      { ...options, responseSchema: MenuOrderSchema }
     );
   }
 
-  public async updateStatus(id: string, data: UpdateMenuOrderStatus): Promise<MenuOrder> {
+  public async updateStatus(
+    id: string,
+    data: UpdateMenuOrderStatus,
+    options?: RequestOptions
+  ): Promise<MenuOrder> {
     return this.http.patch<{ status: string }, MenuOrder>(
       `${this.resource_path}/${id}/status`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: MenuOrderSchema }
     );
   }
 
-  public async cancel(id: string, data: { cancelReason: string }): Promise<MenuOrder> {
+  public async cancel(
+    id: string,
+    data: { cancelReason: string },
+    options?: RequestOptions
+  ): Promise<MenuOrder> {
     return this.http.post<{ cancelReason: string }, MenuOrder>(
       `${this.resource_path}/${id}/cancel`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: MenuOrderSchema }
     );
   }
 
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MenuOrder>,
+    filters?: MenuOrderFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuOrder>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<MenuOrder>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuOrderSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  public iterate(
+    params?: ListParams<MenuOrder>,
+    filters?: MenuOrderFilters,
+    options?: PaginateOptions
+  ): PageIterator<MenuOrder> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<MenuOrder>>(path);
+  public async listAll(
+    params?: ListParams<MenuOrder>,
+    filters?: MenuOrderFilters,
+    options?: PaginateOptions
+  ): Promise<MenuOrder[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
@@ -10,13 +10,31 @@ import {
   UpdateMenuPricingRule,
   UpdateMenuPricingRuleSchema,
   PaginatedResultType,
-  PaginationRequest,
+  MenuPricingRuleSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing menu pricing rules.
+ */
+export interface MenuPricingRuleFilters {
+  /** Filter by menu set ID */
+  menuSetId?: string;
+  /** Filter by discount ID */
+  discountId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing menu pricing rules in the WIIL Platform.
  *
@@ -41,21 +59,33 @@ export class MenuPricingRulesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<MenuPricingRulesResource> {
+    return withResponse(this.http, (http) => new MenuPricingRulesResource(http));
+  }
+
   /**
    * Creates a new menu pricing rule.
    *
    * @param data - Menu pricing rule data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created menu pricing rule
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateMenuPricingRule): Promise<MenuPricingRule> {
+  public async create(data: CreateMenuPricingRule, options?: RequestOptions): Promise<MenuPricingRule> {
     return this.http.post<CreateMenuPricingRule, MenuPricingRule>(
       this.resource_path,
       data,
-      CreateMenuPricingRuleSchema
+      CreateMenuPricingRuleSchema,
+      { ...options, responseSchema: MenuPricingRuleSchema }
     );
   }
 
@@ -63,13 +93,17 @@ export class MenuPricingRulesResource {
    * Retrieves a menu pricing rule by ID.
    *
    * @param id - Menu pricing rule ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the menu pricing rule
    *
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<MenuPricingRule> {
-    return this.http.get<MenuPricingRule>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<MenuPricingRule> {
+    return this.http.get<MenuPricingRule>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: MenuPricingRuleSchema }
+    );
   }
 
   /**
@@ -77,6 +111,7 @@ export class MenuPricingRulesResource {
    *
    * @param menuSetId - Menu set ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of pricing rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -84,16 +119,34 @@ export class MenuPricingRulesResource {
    */
   public async getByMenuSet(
     menuSetId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MenuPricingRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuPricingRule>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-menu-set/${menuSetId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-menu-set/${menuSetId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MenuPricingRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuPricingRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MenuPricingRule>>(path);
+  /**
+   * Iterates over every page of {@link MenuPricingRulesResource.getByMenuSet}, yielding each item.
+   *
+   * @param menuSetId - Menu set ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByMenuSet(
+    menuSetId: string,
+    params?: ListParams<MenuPricingRule>,
+    options?: PaginateOptions
+  ): PageIterator<MenuPricingRule> {
+    return paginate((params) => this.getByMenuSet(menuSetId, params, options), params, options);
   }
 
   /**
@@ -101,6 +154,7 @@ export class MenuPricingRulesResource {
    *
    * @param discountId - Discount ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of pricing rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -108,16 +162,34 @@ export class MenuPricingRulesResource {
    */
   public async getByDiscount(
     discountId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MenuPricingRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuPricingRule>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-discount/${discountId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-discount/${discountId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MenuPricingRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuPricingRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MenuPricingRule>>(path);
+  /**
+   * Iterates over every page of {@link MenuPricingRulesResource.getByDiscount}, yielding each item.
+   *
+   * @param discountId - Discount ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByDiscount(
+    discountId: string,
+    params?: ListParams<MenuPricingRule>,
+    options?: PaginateOptions
+  ): PageIterator<MenuPricingRule> {
+    return paginate((params) => this.getByDiscount(discountId, params, options), params, options);
   }
 
   /**
@@ -125,6 +197,7 @@ export class MenuPricingRulesResource {
    *
    * @param timestamp - Unix timestamp to check effectiveness
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active pricing rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -132,17 +205,34 @@ export class MenuPricingRulesResource {
    */
   public async getActive(
     timestamp?: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MenuPricingRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuPricingRule>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/active${buildQueryString(params, { effectiveAt: timestamp })}`;
 
-    if (timestamp) queryParams.append('effectiveAt', timestamp.toString());
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/active${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MenuPricingRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuPricingRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MenuPricingRule>>(path);
+  /**
+   * Iterates over every page of {@link MenuPricingRulesResource.getActive}, yielding each item.
+   *
+   * @param timestamp - Unix timestamp to check effectiveness
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    timestamp?: number,
+    params?: ListParams<MenuPricingRule>,
+    options?: PaginateOptions
+  ): PageIterator<MenuPricingRule> {
+    return paginate((params) => this.getActive(timestamp, params, options), params, options);
   }
 
   /**
@@ -150,17 +240,23 @@ export class MenuPricingRulesResource {
    *
    * @param id - Menu pricing rule ID
    * @param data - Menu pricing rule update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated menu pricing rule
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateMenuPricingRule): Promise<MenuPricingRule> {
+  public async update(
+    id: string,
+    data: UpdateMenuPricingRule,
+    options?: RequestOptions
+  ): Promise<MenuPricingRule> {
     return this.http.patch<UpdateMenuPricingRule, MenuPricingRule>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateMenuPricingRuleSchema
+      UpdateMenuPricingRuleSchema,
+      { ...options, responseSchema: MenuPricingRuleSchema }
     );
   }
 
@@ -168,41 +264,86 @@ export class MenuPricingRulesResource {
    * Deletes a menu pricing rule.
    *
    * @param id - Menu pricing rule ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists menu pricing rules with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of menu pricing rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MenuPricingRule>,
+    filters?: MenuPricingRuleFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuPricingRule>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<MenuPricingRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuPricingRuleSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link MenuPricingRulesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<MenuPricingRule>,
+    filters?: MenuPricingRuleFilters,
+    options?: PaginateOptions
+  ): PageIterator<MenuPricingRule> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<MenuPricingRule>>(path);
+  /**
+   * Retrieves every item of {@link MenuPricingRulesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link MenuPricingRulesResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<MenuPricingRule>,
+    filters?: MenuPricingRuleFilters,
+    options?: PaginateOptions
+  ): Promise<MenuPricingRule[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple menu pricing rules in a single batch request.
    *
    * @param data - Array of menu pricing rule data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created menu pricing rules
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -210,7 +351,8 @@ export class MenuPricingRulesResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateMenuPricingRule[]
+    data: CreateMenuPricingRule[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuPricingRule>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -231,7 +373,39 @@ export class MenuPricingRulesResource {
 
     return this.http.post<CreateMenuPricingRule[], PaginatedResultType<MenuPricingRule>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(MenuPricingRuleSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link MenuPricingRulesResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of menu pricing rule data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.menuPricingRules.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateMenuPricingRule[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateMenuPricingRule, MenuPricingRule>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateMenuPricingRuleSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
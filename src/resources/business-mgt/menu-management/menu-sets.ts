@@ -10,13 +10,27 @@ import {
   UpdateMenuSet,
   UpdateMenuSetSchema,
   PaginatedResultType,
-  PaginationRequest,
+  MenuSetSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing menu sets.
+ */
+export interface MenuSetFilters {
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing menu sets in the WIIL Platform.
  *
@@ -41,21 +55,33 @@ export class MenuSetsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<MenuSetsResource> {
+    return withResponse(this.http, (http) => new MenuSetsResource(http));
+  }
+
   /**
    * Creates a new menu set.
    *
    * @param data - Menu set data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created menu set
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateMenuSet): Promise<MenuSet> {
+  public async create(data: CreateMenuSet, options?: RequestOptions): Promise<MenuSet> {
     return this.http.post<CreateMenuSet, MenuSet>(
       this.resource_path,
       data,
-      CreateMenuSetSchema
+      CreateMenuSetSchema,
+      { ...options, responseSchema: MenuSetSchema }
     );
   }
 
@@ -63,48 +89,73 @@ export class MenuSetsResource {
    * Retrieves a menu set by ID.
    *
    * @param id - Menu set ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the menu set
    *
    * @throws {@link WiilAPIError} - When the set is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<MenuSet> {
-    return this.http.get<MenuSet>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<MenuSet> {
+    return this.http.get<MenuSet>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: MenuSetSchema }
+    );
   }
 
   /**
    * Retrieves a menu set by code.
    *
    * @param code - Menu set internal code
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the menu set or null if not found
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getByCode(code: string): Promise<MenuSet | null> {
-    return this.http.get<MenuSet | null>(`${this.resource_path}/code/${encodeURIComponent(code)}`);
+  public async getByCode(code: string, options?: RequestOptions): Promise<MenuSet | null> {
+    return this.http.get<MenuSet | null>(
+      `${this.resource_path}/code/${encodeURIComponent(code)}`,
+      { ...options, responseSchema: MenuSetSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves active menu sets with optional pagination.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active menu sets
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async getActive(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MenuSet>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuSet>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/active${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/active${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MenuSet>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuSetSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MenuSet>>(path);
+  /**
+   * Iterates over every page of {@link MenuSetsResource.getActive}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    params?: ListParams<MenuSet>,
+    options?: PaginateOptions
+  ): PageIterator<MenuSet> {
+    return paginate((params) => this.getActive(params, options), params, options);
   }
 
   /**
@@ -112,17 +163,19 @@ export class MenuSetsResource {
    *
    * @param id - Menu set ID
    * @param data - Menu set update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated menu set
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the set is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateMenuSet): Promise<MenuSet> {
+  public async update(id: string, data: UpdateMenuSet, options?: RequestOptions): Promise<MenuSet> {
     return this.http.patch<UpdateMenuSet, MenuSet>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateMenuSetSchema
+      UpdateMenuSetSchema,
+      { ...options, responseSchema: MenuSetSchema }
     );
   }
 
@@ -130,41 +183,86 @@ export class MenuSetsResource {
    * Deletes a menu set.
    *
    * @param id - Menu set ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the set is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists menu sets with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of menu sets
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MenuSet>,
+    filters?: MenuSetFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuSet>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<MenuSet>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuSetSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link MenuSetsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<MenuSet>,
+    filters?: MenuSetFilters,
+    options?: PaginateOptions
+  ): PageIterator<MenuSet> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<MenuSet>>(path);
+  /**
+   * Retrieves every item of {@link MenuSetsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link MenuSetsResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<MenuSet>,
+    filters?: MenuSetFilters,
+    options?: PaginateOptions
+  ): Promise<MenuSet[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple menu sets in a single batch request.
    *
    * @param data - Array of menu set data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created menu sets
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -172,7 +270,8 @@ export class MenuSetsResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateMenuSet[]
+    data: CreateMenuSet[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuSet>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -193,7 +292,39 @@ export class MenuSetsResource {
 
     return this.http.post<CreateMenuSet[], PaginatedResultType<MenuSet>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(MenuSetSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link MenuSetsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of menu set data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.menuSets.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateMenuSet[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateMenuSet, MenuSet>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateMenuSetSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
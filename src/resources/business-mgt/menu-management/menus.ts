@@ -16,9 +16,16 @@ import {
   UpdateBusinessMenuItemSchema,
   MenuItemCatalog,
   PaginatedResultType,
-  PaginationRequest,
+  MenuCategorySchema,
+  MenuItemCatalogSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const CATEGORY_BATCH_LIMIT = 50;
@@ -47,77 +54,128 @@ export class MenusResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<MenusResource> {
+    return withResponse(this.http, (http) => new MenusResource(http));
+  }
+
   // =============== Menu Category Methods ===============
 
   /**
    * Creates a new menu category.
    */
-  public async createCategory(data: CreateMenuCategory): Promise<MenuCategory> {
+  public async createCategory(data: CreateMenuCategory, options?: RequestOptions): Promise<MenuCategory> {
     return this.http.post<CreateMenuCategory, MenuCategory>(
       `${this.resource_path}/categories`,
       data,
-      CreateMenuCategorySchema
+      CreateMenuCategorySchema,
+      { ...options, responseSchema: MenuCategorySchema }
     );
   }
 
   /**
    * Retrieves a menu category by ID.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async getCategory(id: string): Promise<MenuCategory> {
-    return this.http.get<MenuCategory>(`${this.resource_path}/categories/${id}`);
+  public async getCategory(id: string, options?: RequestOptions): Promise<MenuCategory> {
+    return this.http.get<MenuCategory>(
+      `${this.resource_path}/categories/${id}`,
+      { ...options, responseSchema: MenuCategorySchema }
+    );
   }
 
   /**
    * Lists all menu categories with optional pagination.
+   *
+   * @param options - Optional request options such as an abort signal
    */
   public async listCategories(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MenuCategory>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuCategory>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/categories${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/categories${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MenuCategory>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuCategorySchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MenuCategory>>(path);
+  /**
+   * Iterates over every page of {@link MenusResource.listCategories}, yielding each item.
+   */
+  public iterateCategories(
+    params?: ListParams<MenuCategory>,
+    options?: PaginateOptions
+  ): PageIterator<MenuCategory> {
+    return paginate((params) => this.listCategories(params, options), params, options);
   }
 
   /**
    * Updates a menu category.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async updateCategory(data: UpdateMenuCategory): Promise<MenuCategory> {
+  public async updateCategory(
+    data: UpdateMenuCategory,
+    options?: RequestOptions
+  ): Promise<MenuCategory> {
     return this.http.patch<UpdateMenuCategory, MenuCategory>(
       `${this.resource_path}/categories`,
       data,
-      UpdateMenuCategorySchema
+      UpdateMenuCategorySchema,
+      { ...options, responseSchema: MenuCategorySchema }
     );
   }
 
   /**
    * Deletes a menu category.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async deleteCategory(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/categories/${id}`);
+  public async deleteCategory(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/categories/${id}`, options);
   }
 
   /**
    * Sets the display order for a menu category.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async setCategoryDisplayOrder(id: string, displayOrder: number): Promise<MenuCategory> {
+  public async setCategoryDisplayOrder(
+    id: string,
+    displayOrder: number,
+    options?: RequestOptions
+  ): Promise<MenuCategory> {
     return this.http.patch<{ displayOrder: number }, MenuCategory>(
       `${this.resource_path}/categories/${id}/display-order`,
-      { displayOrder }
+      { displayOrder },
+      undefined,
+      { ...options, responseSchema: MenuCategorySchema }
     );
   }
 
   /**
    * Reorders menu items within a category.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async reorderItems(categoryId: string, itemIds: string[]): Promise<boolean> {
+  public async reorderItems(
+    categoryId: string,
+    itemIds: string[],
+    options?: RequestOptions
+  ): Promise<boolean> {
     return this.http.post<{ itemIds: string[] }, boolean>(
       `${this.resource_path}/categories/${categoryId}/reorder-items`,
-      { itemIds }
+      { itemIds },
+      undefined,
+      options
     );
   }
 
@@ -126,129 +184,199 @@ export class MenusResource {
   /**
    * Creates a new menu item.
    */
-  public async createItem(data: CreateBusinessMenuItem): Promise<MenuItemCatalog> {
+  public async createItem(data: CreateBusinessMenuItem, options?: RequestOptions): Promise<MenuItemCatalog> {
     return this.http.post<CreateBusinessMenuItem, MenuItemCatalog>(
       `${this.resource_path}/items`,
       data,
-      CreateBusinessMenuItemSchema
+      CreateBusinessMenuItemSchema,
+      { ...options, responseSchema: MenuItemCatalogSchema }
     );
   }
 
   /**
    * Retrieves a menu item by ID.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async getItem(id: string): Promise<MenuItemCatalog> {
-    return this.http.get<MenuItemCatalog>(`${this.resource_path}/items/${id}`);
+  public async getItem(id: string, options?: RequestOptions): Promise<MenuItemCatalog> {
+    return this.http.get<MenuItemCatalog>(
+      `${this.resource_path}/items/${id}`,
+      { ...options, responseSchema: MenuItemCatalogSchema }
+    );
   }
 
   /**
    * Lists menu items with pagination.
+   *
+   * @param options - Optional request options such as an abort signal
    */
   public async listItems(
-    params?: Partial<PaginationRequest & { includeDeleted?: boolean }>
+    params?: ListParams<MenuItemCatalog> & { includeDeleted?: boolean },
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuItemCatalog>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-    if (params?.includeDeleted !== undefined) queryParams.append('includeDeleted', params.includeDeleted.toString());
+    const path = `${this.resource_path}/items${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/items${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MenuItemCatalog>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuItemCatalogSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MenuItemCatalog>>(path);
+  /**
+   * Iterates over every page of {@link MenusResource.listItems}, yielding each item.
+   */
+  public iterateItems(
+    params?: ListParams<MenuItemCatalog> & { includeDeleted?: boolean },
+    options?: PaginateOptions
+  ): PageIterator<MenuItemCatalog> {
+    return paginate((params) => this.listItems(params, options), params, options);
   }
 
   /**
    * Retrieves menu items by category with optional pagination.
+   *
+   * @param options - Optional request options such as an abort signal
    */
   public async getItemsByCategory(
     categoryId: string,
-    params?: Partial<PaginationRequest & { includeUnavailable?: boolean }>
+    params?: ListParams<MenuItemCatalog> & { includeUnavailable?: boolean },
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuItemCatalog>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-    if (params?.includeUnavailable !== undefined) queryParams.append('includeUnavailable', params.includeUnavailable.toString());
+    const path = `${this.resource_path}/items/by-category/${categoryId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/items/by-category/${categoryId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MenuItemCatalog>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuItemCatalogSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MenuItemCatalog>>(path);
+  /**
+   * Iterates over every page of {@link MenusResource.getItemsByCategory}, yielding each item.
+   */
+  public iterateItemsByCategory(
+    categoryId: string,
+    params?: ListParams<MenuItemCatalog> & { includeUnavailable?: boolean },
+    options?: PaginateOptions
+  ): PageIterator<MenuItemCatalog> {
+    return paginate((params) => this.getItemsByCategory(categoryId, params, options), params, options);
   }
 
   /**
    * Retrieves popular menu items with optional pagination.
+   *
+   * @param options - Optional request options such as an abort signal
    */
   public async getPopularItems(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MenuItemCatalog>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuItemCatalog>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/items/popular${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/items/popular${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MenuItemCatalog>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MenuItemCatalogSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MenuItemCatalog>>(path);
+  /**
+   * Iterates over every page of {@link MenusResource.getPopularItems}, yielding each item.
+   */
+  public iteratePopularItems(
+    params?: ListParams<MenuItemCatalog>,
+    options?: PaginateOptions
+  ): PageIterator<MenuItemCatalog> {
+    return paginate((params) => this.getPopularItems(params, options), params, options);
   }
 
   /**
    * Updates a menu item.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async updateItem(data: UpdateBusinessMenuItem): Promise<MenuItemCatalog> {
+  public async updateItem(
+    data: UpdateBusinessMenuItem,
+    options?: RequestOptions
+  ): Promise<MenuItemCatalog> {
     return this.http.patch<UpdateBusinessMenuItem, MenuItemCatalog>(
       `${this.resource_path}/items`,
       data,
-      UpdateBusinessMenuItemSchema
+      UpdateBusinessMenuItemSchema,
+      { ...options, responseSchema: MenuItemCatalogSchema }
     );
   }
 
   /**
    * Deletes a menu item.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async deleteItem(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/items/${id}`);
+  public async deleteItem(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/items/${id}`, options);
   }
 
   /**
    * Toggles the active status of a menu item.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async toggleItemActive(id: string): Promise<MenuItemCatalog> {
+  public async toggleItemActive(id: string, options?: RequestOptions): Promise<MenuItemCatalog> {
     return this.http.patch<Record<string, never>, MenuItemCatalog>(
       `${this.resource_path}/items/${id}/toggle-active`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: MenuItemCatalogSchema }
     );
   }
 
   /**
    * Toggles the availability status of a menu item.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async toggleItemAvailability(id: string): Promise<MenuItemCatalog> {
+  public async toggleItemAvailability(
+    id: string,
+    options?: RequestOptions
+  ): Promise<MenuItemCatalog> {
     return this.http.patch<Record<string, never>, MenuItemCatalog>(
       `${this.resource_path}/items/${id}/toggle-availability`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: MenuItemCatalogSchema }
     );
   }
 
   /**
    * Sets the display order for a menu item.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async setItemDisplayOrder(id: string, displayOrder: number): Promise<MenuItemCatalog> {
+  public async setItemDisplayOrder(
+    id: string,
+    displayOrder: number,
+    options?: RequestOptions
+  ): Promise<MenuItemCatalog> {
     return this.http.patch<{ displayOrder: number }, MenuItemCatalog>(
       `${this.resource_path}/items/${id}/display-order`,
-      { displayOrder }
+      { displayOrder },
+      undefined,
+      { ...options, responseSchema: MenuItemCatalogSchema }
     );
   }
 
   /**
    * Updates availability for multiple menu items in bulk.
+   *
+   * @param options - Optional request options such as an abort signal
    */
   public async updateItemsAvailabilityBulk(
-    data: { itemIds: string[]; isAvailable: boolean }
+    data: { itemIds: string[]; isAvailable: boolean },
+    options?: RequestOptions
   ): Promise<{ updated: number }> {
     return this.http.patch<{ itemIds: string[]; isAvailable: boolean }, { updated: number }>(
       `${this.resource_path}/items/availability/bulk`,
-      data
+      data,
+      undefined,
+      options
     );
   }
 
@@ -256,6 +384,7 @@ export class MenusResource {
    * Creates multiple menu categories in a single batch request.
    *
    * @param data - Array of menu category data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created menu categories
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -263,7 +392,8 @@ export class MenusResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createCategoryBatch(
-    data: CreateMenuCategory[]
+    data: CreateMenuCategory[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuCategory>> {
     if (data.length > CATEGORY_BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -284,7 +414,39 @@ export class MenusResource {
 
     return this.http.post<CreateMenuCategory[], PaginatedResultType<MenuCategory>>(
       `${this.resource_path}/categories/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(MenuCategorySchema) }
+    );
+  }
+
+  /**
+   * Runs {@link MenusResource.createCategoryBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of menu category data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.menus.createCategoryBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createCategoryBatchChunked(
+    data: CreateMenuCategory[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateMenuCategory, MenuCategory>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: CATEGORY_BATCH_LIMIT,
+        schema: CreateMenuCategorySchema,
+        send: (chunk, chunkOptions) => this.createCategoryBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 
@@ -292,6 +454,7 @@ export class MenusResource {
    * Creates multiple menu items in a single batch request.
    *
    * @param data - Array of menu item data (maximum 100 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created menu items
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -299,7 +462,8 @@ export class MenusResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createItemBatch(
-    data: CreateBusinessMenuItem[]
+    data: CreateBusinessMenuItem[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MenuItemCatalog>> {
     if (data.length > ITEM_BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -320,7 +484,39 @@ export class MenusResource {
 
     return this.http.post<CreateBusinessMenuItem[], PaginatedResultType<MenuItemCatalog>>(
       `${this.resource_path}/items/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(MenuItemCatalogSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link MenusResource.createItemBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param data - Array of menu item data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.menus.createItemBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createItemBatchChunked(
+    data: CreateBusinessMenuItem[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateBusinessMenuItem, MenuItemCatalog>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: ITEM_BATCH_LIMIT,
+        schema: CreateBusinessMenuItemSchema,
+        send: (chunk, chunkOptions) => this.createItemBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -20,9 +20,17 @@ import {
   UpdateItemModifierBinding,
   UpdateItemModifierBindingSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ItemModifierBindingSchema,
+  ModifierGroupSchema,
+  ModifierOptionSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const GROUP_BATCH_LIMIT = 50;
@@ -52,23 +60,35 @@ export class ModifiersResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ModifiersResource> {
+    return withResponse(this.http, (http) => new ModifiersResource(http));
+  }
+
   // =============== Modifier Group Methods ===============
 
   /**
    * Creates a new modifier group.
    *
    * @param data - Modifier group data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created modifier group
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async createGroup(data: CreateModifierGroup): Promise<ModifierGroup> {
+  public async createGroup(data: CreateModifierGroup, options?: RequestOptions): Promise<ModifierGroup> {
     return this.http.post<CreateModifierGroup, ModifierGroup>(
       `${this.resource_path}/groups`,
       data,
-      CreateModifierGroupSchema
+      CreateModifierGroupSchema,
+      { ...options, responseSchema: ModifierGroupSchema }
     );
   }
 
@@ -76,35 +96,56 @@ export class ModifiersResource {
    * Retrieves a modifier group by ID.
    *
    * @param id - Modifier group ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the modifier group
    *
    * @throws {@link WiilAPIError} - When the group is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getGroup(id: string): Promise<ModifierGroup> {
-    return this.http.get<ModifierGroup>(`${this.resource_path}/groups/${id}`);
+  public async getGroup(id: string, options?: RequestOptions): Promise<ModifierGroup> {
+    return this.http.get<ModifierGroup>(
+      `${this.resource_path}/groups/${id}`,
+      { ...options, responseSchema: ModifierGroupSchema }
+    );
   }
 
   /**
    * Lists modifier groups with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of modifier groups
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async listGroups(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ModifierGroup>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ModifierGroup>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/groups${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/groups${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ModifierGroup>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ModifierGroupSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ModifierGroup>>(path);
+  /**
+   * Iterates over every page of {@link ModifiersResource.listGroups}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateGroups(
+    params?: ListParams<ModifierGroup>,
+    options?: PaginateOptions
+  ): PageIterator<ModifierGroup> {
+    return paginate((params) => this.listGroups(params, options), params, options);
   }
 
   /**
@@ -112,17 +153,23 @@ export class ModifiersResource {
    *
    * @param id - Modifier group ID
    * @param data - Modifier group update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated modifier group
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the group is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async updateGroup(id: string, data: UpdateModifierGroup): Promise<ModifierGroup> {
+  public async updateGroup(
+    id: string,
+    data: UpdateModifierGroup,
+    options?: RequestOptions
+  ): Promise<ModifierGroup> {
     return this.http.patch<UpdateModifierGroup, ModifierGroup>(
       `${this.resource_path}/groups/${id}`,
       data,
-      UpdateModifierGroupSchema
+      UpdateModifierGroupSchema,
+      { ...options, responseSchema: ModifierGroupSchema }
     );
   }
 
@@ -130,19 +177,21 @@ export class ModifiersResource {
    * Deletes a modifier group.
    *
    * @param id - Modifier group ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the group is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async deleteGroup(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/groups/${id}`);
+  public async deleteGroup(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/groups/${id}`, options);
   }
 
   /**
    * Creates multiple modifier groups in a single batch request.
    *
    * @param data - Array of modifier group data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created modifier groups
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -150,7 +199,8 @@ export class ModifiersResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createGroupBatch(
-    data: CreateModifierGroup[]
+    data: CreateModifierGroup[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ModifierGroup>> {
     if (data.length > GROUP_BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -171,7 +221,39 @@ export class ModifiersResource {
 
     return this.http.post<CreateModifierGroup[], PaginatedResultType<ModifierGroup>>(
       `${this.resource_path}/groups/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ModifierGroupSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ModifiersResource.createGroupBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of modifier group data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.modifiers.createGroupBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createGroupBatchChunked(
+    data: CreateModifierGroup[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateModifierGroup, ModifierGroup>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: GROUP_BATCH_LIMIT,
+        schema: CreateModifierGroupSchema,
+        send: (chunk, chunkOptions) => this.createGroupBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 
@@ -181,17 +263,19 @@ export class ModifiersResource {
    * Creates a new modifier option.
    *
    * @param data - Modifier option data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created modifier option
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async createOption(data: CreateModifierOption): Promise<ModifierOption> {
+  public async createOption(data: CreateModifierOption, options?: RequestOptions): Promise<ModifierOption> {
     return this.http.post<CreateModifierOption, ModifierOption>(
       `${this.resource_path}/options`,
       data,
-      CreateModifierOptionSchema
+      CreateModifierOptionSchema,
+      { ...options, responseSchema: ModifierOptionSchema }
     );
   }
 
@@ -199,13 +283,17 @@ export class ModifiersResource {
    * Retrieves a modifier option by ID.
    *
    * @param id - Modifier option ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the modifier option
    *
    * @throws {@link WiilAPIError} - When the option is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getOption(id: string): Promise<ModifierOption> {
-    return this.http.get<ModifierOption>(`${this.resource_path}/options/${id}`);
+  public async getOption(id: string, options?: RequestOptions): Promise<ModifierOption> {
+    return this.http.get<ModifierOption>(
+      `${this.resource_path}/options/${id}`,
+      { ...options, responseSchema: ModifierOptionSchema }
+    );
   }
 
   /**
@@ -213,6 +301,7 @@ export class ModifiersResource {
    *
    * @param modifierGroupId - Parent modifier group ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of modifier options
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -220,38 +309,73 @@ export class ModifiersResource {
    */
   public async getOptionsByGroup(
     modifierGroupId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ModifierOption>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ModifierOption>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/options/by-group/${modifierGroupId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/options/by-group/${modifierGroupId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ModifierOption>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ModifierOptionSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ModifierOption>>(path);
+  /**
+   * Iterates over every page of {@link ModifiersResource.getOptionsByGroup}, yielding each item.
+   *
+   * @param modifierGroupId - Parent modifier group ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateOptionsByGroup(
+    modifierGroupId: string,
+    params?: ListParams<ModifierOption>,
+    options?: PaginateOptions
+  ): PageIterator<ModifierOption> {
+    return paginate((params) => this.getOptionsByGroup(modifierGroupId, params, options), params, options);
   }
 
   /**
    * Lists modifier options with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of modifier options
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async listOptions(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ModifierOption>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ModifierOption>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/options${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/options${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ModifierOption>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ModifierOptionSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ModifierOption>>(path);
+  /**
+   * Iterates over every page of {@link ModifiersResource.listOptions}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateOptions(
+    params?: ListParams<ModifierOption>,
+    options?: PaginateOptions
+  ): PageIterator<ModifierOption> {
+    return paginate((params) => this.listOptions(params, options), params, options);
   }
 
   /**
@@ -259,17 +383,23 @@ export class ModifiersResource {
    *
    * @param id - Modifier option ID
    * @param data - Modifier option update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated modifier option
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the option is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async updateOption(id: string, data: UpdateModifierOption): Promise<ModifierOption> {
+  public async updateOption(
+    id: string,
+    data: UpdateModifierOption,
+    options?: RequestOptions
+  ): Promise<ModifierOption> {
     return this.http.patch<UpdateModifierOption, ModifierOption>(
       `${this.resource_path}/options/${id}`,
       data,
-      UpdateModifierOptionSchema
+      UpdateModifierOptionSchema,
+      { ...options, responseSchema: ModifierOptionSchema }
     );
   }
 
@@ -277,19 +407,21 @@ export class ModifiersResource {
    * Deletes a modifier option.
    *
    * @param id - Modifier option ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the option is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async deleteOption(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/options/${id}`);
+  public async deleteOption(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/options/${id}`, options);
   }
 
   /**
    * Creates multiple modifier options in a single batch request.
    *
    * @param data - Array of modifier option data (maximum 100 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created modifier options
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -297,7 +429,8 @@ export class ModifiersResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createOptionBatch(
-    data: CreateModifierOption[]
+    data: CreateModifierOption[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ModifierOption>> {
     if (data.length > OPTION_BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -318,7 +451,39 @@ export class ModifiersResource {
 
     return this.http.post<CreateModifierOption[], PaginatedResultType<ModifierOption>>(
       `${this.resource_path}/options/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ModifierOptionSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ModifiersResource.createOptionBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param data - Array of modifier option data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.modifiers.createOptionBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createOptionBatchChunked(
+    data: CreateModifierOption[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateModifierOption, ModifierOption>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: OPTION_BATCH_LIMIT,
+        schema: CreateModifierOptionSchema,
+        send: (chunk, chunkOptions) => this.createOptionBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 
@@ -328,17 +493,19 @@ export class ModifiersResource {
    * Creates a new item modifier binding.
    *
    * @param data - Item modifier binding data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created binding
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async createBinding(data: CreateItemModifierBinding): Promise<ItemModifierBinding> {
+  public async createBinding(data: CreateItemModifierBinding, options?: RequestOptions): Promise<ItemModifierBinding> {
     return this.http.post<CreateItemModifierBinding, ItemModifierBinding>(
       `${this.resource_path}/bindings`,
       data,
-      CreateItemModifierBindingSchema
+      CreateItemModifierBindingSchema,
+      { ...options, responseSchema: ItemModifierBindingSchema }
     );
   }
 
@@ -346,13 +513,17 @@ export class ModifiersResource {
    * Retrieves an item modifier binding by ID.
    *
    * @param id - Item modifier binding ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the binding
    *
    * @throws {@link WiilAPIError} - When the binding is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getBinding(id: string): Promise<ItemModifierBinding> {
-    return this.http.get<ItemModifierBinding>(`${this.resource_path}/bindings/${id}`);
+  public async getBinding(id: string, options?: RequestOptions): Promise<ItemModifierBinding> {
+    return this.http.get<ItemModifierBinding>(
+      `${this.resource_path}/bindings/${id}`,
+      { ...options, responseSchema: ItemModifierBindingSchema }
+    );
   }
 
   /**
@@ -360,6 +531,7 @@ export class ModifiersResource {
    *
    * @param menuItemId - Menu item ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of bindings
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -367,16 +539,34 @@ export class ModifiersResource {
    */
   public async getBindingsByMenuItem(
     menuItemId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ItemModifierBinding>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ItemModifierBinding>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/bindings/by-menu-item/${menuItemId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/bindings/by-menu-item/${menuItemId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ItemModifierBinding>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ItemModifierBindingSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ItemModifierBinding>>(path);
+  /**
+   * Iterates over every page of {@link ModifiersResource.getBindingsByMenuItem}, yielding each item.
+   *
+   * @param menuItemId - Menu item ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateBindingsByMenuItem(
+    menuItemId: string,
+    params?: ListParams<ItemModifierBinding>,
+    options?: PaginateOptions
+  ): PageIterator<ItemModifierBinding> {
+    return paginate((params) => this.getBindingsByMenuItem(menuItemId, params, options), params, options);
   }
 
   /**
@@ -384,6 +574,7 @@ export class ModifiersResource {
    *
    * @param menuSetId - Menu set ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of bindings
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -391,38 +582,73 @@ export class ModifiersResource {
    */
   public async getBindingsByMenuSet(
     menuSetId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ItemModifierBinding>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ItemModifierBinding>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/bindings/by-menu-set/${menuSetId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/bindings/by-menu-set/${menuSetId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ItemModifierBinding>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ItemModifierBindingSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ItemModifierBinding>>(path);
+  /**
+   * Iterates over every page of {@link ModifiersResource.getBindingsByMenuSet}, yielding each item.
+   *
+   * @param menuSetId - Menu set ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateBindingsByMenuSet(
+    menuSetId: string,
+    params?: ListParams<ItemModifierBinding>,
+    options?: PaginateOptions
+  ): PageIterator<ItemModifierBinding> {
+    return paginate((params) => this.getBindingsByMenuSet(menuSetId, params, options), params, options);
   }
 
   /**
    * Lists item modifier bindings with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of bindings
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async listBindings(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ItemModifierBinding>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ItemModifierBinding>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/bindings${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/bindings${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ItemModifierBinding>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ItemModifierBindingSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ItemModifierBinding>>(path);
+  /**
+   * Iterates over every page of {@link ModifiersResource.listBindings}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateBindings(
+    params?: ListParams<ItemModifierBinding>,
+    options?: PaginateOptions
+  ): PageIterator<ItemModifierBinding> {
+    return paginate((params) => this.listBindings(params, options), params, options);
   }
 
   /**
@@ -430,17 +656,23 @@ export class ModifiersResource {
    *
    * @param id - Item modifier binding ID
    * @param data - Binding update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated binding
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the binding is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async updateBinding(id: string, data: UpdateItemModifierBinding): Promise<ItemModifierBinding> {
+  public async updateBinding(
+    id: string,
+    data: UpdateItemModifierBinding,
+    options?: RequestOptions
+  ): Promise<ItemModifierBinding> {
     return this.http.patch<UpdateItemModifierBinding, ItemModifierBinding>(
       `${this.resource_path}/bindings/${id}`,
       data,
-      UpdateItemModifierBindingSchema
+      UpdateItemModifierBindingSchema,
+      { ...options, responseSchema: ItemModifierBindingSchema }
     );
   }
 
@@ -448,19 +680,21 @@ export class ModifiersResource {
    * Deletes an item modifier binding.
    *
    * @param id - Item modifier binding ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the binding is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async deleteBinding(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/bindings/${id}`);
+  public async deleteBinding(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/bindings/${id}`, options);
   }
 
   /**
    * Creates multiple item modifier bindings in a single batch request.
    *
    * @param data - Array of binding data (maximum 100 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created bindings
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -468,7 +702,8 @@ export class ModifiersResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBindingBatch(
-    data: CreateItemModifierBinding[]
+    data: CreateItemModifierBinding[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ItemModifierBinding>> {
     if (data.length > BINDING_BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -489,7 +724,39 @@ export class ModifiersResource {
 
     return this.http.post<CreateItemModifierBinding[], PaginatedResultType<ItemModifierBinding>>(
       `${this.resource_path}/bindings/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ItemModifierBindingSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ModifiersResource.createBindingBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param data - Array of binding data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.modifiers.createBindingBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBindingBatchChunked(
+    data: CreateItemModifierBinding[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateItemModifierBinding, ItemModifierBinding>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BINDING_BATCH_LIMIT,
+        schema: CreateItemModifierBindingSchema,
+        send: (chunk, chunkOptions) => this.createBindingBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
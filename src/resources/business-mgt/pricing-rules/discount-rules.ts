@@ -12,13 +12,33 @@ import {
   DiscountScope,
   DiscountType,
   PaginatedResultType,
-  PaginationRequest,
+  DiscountRuleSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing discount rules.
+ */
+export interface DiscountRuleFilters {
+  /** Filter by discount scope */
+  scope?: DiscountScope;
+  /** Filter by discount type */
+  type?: DiscountType;
+  /** Filter by business location ID */
+  locationId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing discount rules in the WIIL Platform.
  *
@@ -63,10 +83,21 @@ export class DiscountRulesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<DiscountRulesResource> {
+    return withResponse(this.http, (http) => new DiscountRulesResource(http));
+  }
+
   /**
    * Creates a new discount rule.
    *
    * @param data - Discount rule data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created discount rule
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -89,11 +120,12 @@ export class DiscountRulesResource {
    * console.log('Created discount rule:', rule.id);
    * ```
    */
-  public async create(data: CreateDiscountRule): Promise<DiscountRule> {
+  public async create(data: CreateDiscountRule, options?: RequestOptions): Promise<DiscountRule> {
     return this.http.post<CreateDiscountRule, DiscountRule>(
       this.resource_path,
       data,
-      CreateDiscountRuleSchema
+      CreateDiscountRuleSchema,
+      { ...options, responseSchema: DiscountRuleSchema }
     );
   }
 
@@ -101,6 +133,7 @@ export class DiscountRulesResource {
    * Retrieves a discount rule by ID.
    *
    * @param id - Discount rule ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the discount rule
    *
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
@@ -113,8 +146,11 @@ export class DiscountRulesResource {
    * console.log('Value:', rule.value);
    * ```
    */
-  public async get(id: string): Promise<DiscountRule> {
-    return this.http.get<DiscountRule>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<DiscountRule> {
+    return this.http.get<DiscountRule>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: DiscountRuleSchema }
+    );
   }
 
   /**
@@ -122,6 +158,7 @@ export class DiscountRulesResource {
    *
    * @param locationId - Location ID (null for global rules)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of discount rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -135,22 +172,41 @@ export class DiscountRulesResource {
    */
   public async getByLocation(
     locationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DiscountRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DiscountRule>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-location/${locationId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-location/${locationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<DiscountRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DiscountRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<DiscountRule>>(path);
+  /**
+   * Iterates over every page of {@link DiscountRulesResource.getByLocation}, yielding each item.
+   *
+   * @param locationId - Location ID (null for global rules)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByLocation(
+    locationId: string,
+    params?: ListParams<DiscountRule>,
+    options?: PaginateOptions
+  ): PageIterator<DiscountRule> {
+    return paginate((params) => this.getByLocation(locationId, params, options), params, options);
   }
 
   /**
    * Retrieves a discount rule by promo code.
    *
    * @param code - Discount promo code
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the discount rule
    *
    * @throws {@link WiilAPIError} - When the code is not found or API returns an error
@@ -164,8 +220,11 @@ export class DiscountRulesResource {
    * }
    * ```
    */
-  public async getByCode(code: string): Promise<DiscountRule> {
-    return this.http.get<DiscountRule>(`${this.resource_path}/by-code/${code}`);
+  public async getByCode(code: string, options?: RequestOptions): Promise<DiscountRule> {
+    return this.http.get<DiscountRule>(
+      `${this.resource_path}/by-code/${code}`,
+      { ...options, responseSchema: DiscountRuleSchema }
+    );
   }
 
   /**
@@ -173,6 +232,7 @@ export class DiscountRulesResource {
    *
    * @param scope - Discount scope (ORDER, ITEM, CATEGORY)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of discount rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -186,17 +246,34 @@ export class DiscountRulesResource {
    */
   public async getByScope(
     scope: DiscountScope,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DiscountRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DiscountRule>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('scope', scope);
+    const path = `${this.resource_path}/by-scope${buildQueryString(params, { scope })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-scope?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<DiscountRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DiscountRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<DiscountRule>>(path);
+  /**
+   * Iterates over every page of {@link DiscountRulesResource.getByScope}, yielding each item.
+   *
+   * @param scope - Discount scope (ORDER, ITEM, CATEGORY)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByScope(
+    scope: DiscountScope,
+    params?: ListParams<DiscountRule>,
+    options?: PaginateOptions
+  ): PageIterator<DiscountRule> {
+    return paginate((params) => this.getByScope(scope, params, options), params, options);
   }
 
   /**
@@ -204,6 +281,7 @@ export class DiscountRulesResource {
    *
    * @param type - Discount type (PERCENTAGE, FIXED)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of discount rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -217,23 +295,41 @@ export class DiscountRulesResource {
    */
   public async getByType(
     type: DiscountType,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DiscountRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DiscountRule>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('type', type);
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-type${buildQueryString(params, { type })}`;
 
-    const path = `${this.resource_path}/by-type?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<DiscountRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DiscountRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<DiscountRule>>(path);
+  /**
+   * Iterates over every page of {@link DiscountRulesResource.getByType}, yielding each item.
+   *
+   * @param type - Discount type (PERCENTAGE, FIXED)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByType(
+    type: DiscountType,
+    params?: ListParams<DiscountRule>,
+    options?: PaginateOptions
+  ): PageIterator<DiscountRule> {
+    return paginate((params) => this.getByType(type, params, options), params, options);
   }
 
   /**
    * Retrieves active discount rules.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active discount rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -246,23 +342,39 @@ export class DiscountRulesResource {
    * ```
    */
   public async getActive(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DiscountRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DiscountRule>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('isActive', 'true');
+    const path = `${this.resource_path}/active${buildQueryString(params, { isActive: true })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/active?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<DiscountRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DiscountRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<DiscountRule>>(path);
+  /**
+   * Iterates over every page of {@link DiscountRulesResource.getActive}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    params?: ListParams<DiscountRule>,
+    options?: PaginateOptions
+  ): PageIterator<DiscountRule> {
+    return paginate((params) => this.getActive(params, options), params, options);
   }
 
   /**
    * Retrieves stackable discount rules.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of stackable discount rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -275,23 +387,39 @@ export class DiscountRulesResource {
    * ```
    */
   public async getStackable(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DiscountRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DiscountRule>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('isStackable', 'true');
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/stackable${buildQueryString(params, { isStackable: true })}`;
 
-    const path = `${this.resource_path}/stackable?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<DiscountRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DiscountRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<DiscountRule>>(path);
+  /**
+   * Iterates over every page of {@link DiscountRulesResource.getStackable}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateStackable(
+    params?: ListParams<DiscountRule>,
+    options?: PaginateOptions
+  ): PageIterator<DiscountRule> {
+    return paginate((params) => this.getStackable(params, options), params, options);
   }
 
   /**
    * Updates an existing discount rule.
    *
    * @param data - Discount rule update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated discount rule
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -308,11 +436,12 @@ export class DiscountRulesResource {
    * console.log('Updated discount value:', updated.value);
    * ```
    */
-  public async update(data: UpdateDiscountRule): Promise<DiscountRule> {
+  public async update(data: UpdateDiscountRule, options?: RequestOptions): Promise<DiscountRule> {
     return this.http.patch<UpdateDiscountRule, DiscountRule>(
       this.resource_path,
       data,
-      UpdateDiscountRuleSchema
+      UpdateDiscountRuleSchema,
+      { ...options, responseSchema: DiscountRuleSchema }
     );
   }
 
@@ -320,6 +449,7 @@ export class DiscountRulesResource {
    * Deletes a discount rule.
    *
    * @param id - Discount rule ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
@@ -336,14 +466,16 @@ export class DiscountRulesResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists discount rules with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of discount rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -359,22 +491,76 @@ export class DiscountRulesResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DiscountRule>,
+    filters?: DiscountRuleFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DiscountRule>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<DiscountRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DiscountRuleSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link DiscountRulesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.discountRules.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<DiscountRule>,
+    filters?: DiscountRuleFilters,
+    options?: PaginateOptions
+  ): PageIterator<DiscountRule> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<DiscountRule>>(path);
+  /**
+   * Retrieves every item of {@link DiscountRulesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link DiscountRulesResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.discountRules.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<DiscountRule>,
+    filters?: DiscountRuleFilters,
+    options?: PaginateOptions
+  ): Promise<DiscountRule[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple discount rules in a single batch request.
    *
    * @param data - Array of discount rule data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created discount rules
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -406,7 +592,8 @@ export class DiscountRulesResource {
    * ```
    */
   public async createBatch(
-    data: CreateDiscountRule[]
+    data: CreateDiscountRule[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DiscountRule>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -427,7 +614,39 @@ export class DiscountRulesResource {
 
     return this.http.post<CreateDiscountRule[], PaginatedResultType<DiscountRule>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(DiscountRuleSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link DiscountRulesResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of discount rule data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.discountRules.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateDiscountRule[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateDiscountRule, DiscountRule>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateDiscountRuleSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -12,13 +12,33 @@ import {
   TaxScope,
   TaxRateType,
   PaginatedResultType,
-  PaginationRequest,
+  TaxRuleSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing tax rules.
+ */
+export interface TaxRuleFilters {
+  /** Filter by tax scope */
+  scope?: TaxScope;
+  /** Filter by rate type */
+  rateType?: TaxRateType;
+  /** Filter by business location ID */
+  locationId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing tax rules in the WIIL Platform.
  *
@@ -63,10 +83,21 @@ export class TaxRulesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<TaxRulesResource> {
+    return withResponse(this.http, (http) => new TaxRulesResource(http));
+  }
+
   /**
    * Creates a new tax rule.
    *
    * @param data - Tax rule data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created tax rule
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -88,11 +119,12 @@ export class TaxRulesResource {
    * console.log('Created tax rule:', rule.id);
    * ```
    */
-  public async create(data: CreateTaxRule): Promise<TaxRule> {
+  public async create(data: CreateTaxRule, options?: RequestOptions): Promise<TaxRule> {
     return this.http.post<CreateTaxRule, TaxRule>(
       this.resource_path,
       data,
-      CreateTaxRuleSchema
+      CreateTaxRuleSchema,
+      { ...options, responseSchema: TaxRuleSchema }
     );
   }
 
@@ -100,6 +132,7 @@ export class TaxRulesResource {
    * Retrieves a tax rule by ID.
    *
    * @param id - Tax rule ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the tax rule
    *
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
@@ -112,8 +145,11 @@ export class TaxRulesResource {
    * console.log('Rate:', rule.rateValue);
    * ```
    */
-  public async get(id: string): Promise<TaxRule> {
-    return this.http.get<TaxRule>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<TaxRule> {
+    return this.http.get<TaxRule>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: TaxRuleSchema }
+    );
   }
 
   /**
@@ -121,6 +157,7 @@ export class TaxRulesResource {
    *
    * @param locationId - Location ID (null for global rules)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of tax rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -134,16 +171,34 @@ export class TaxRulesResource {
    */
   public async getByLocation(
     locationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TaxRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TaxRule>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-location/${locationId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-location/${locationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<TaxRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TaxRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TaxRule>>(path);
+  /**
+   * Iterates over every page of {@link TaxRulesResource.getByLocation}, yielding each item.
+   *
+   * @param locationId - Location ID (null for global rules)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByLocation(
+    locationId: string,
+    params?: ListParams<TaxRule>,
+    options?: PaginateOptions
+  ): PageIterator<TaxRule> {
+    return paginate((params) => this.getByLocation(locationId, params, options), params, options);
   }
 
   /**
@@ -151,6 +206,7 @@ export class TaxRulesResource {
    *
    * @param scope - Tax scope (ORDER, ITEM, CATEGORY)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of tax rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -164,17 +220,34 @@ export class TaxRulesResource {
    */
   public async getByScope(
     scope: TaxScope,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TaxRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TaxRule>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('scope', scope);
+    const path = `${this.resource_path}/by-scope${buildQueryString(params, { scope })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-scope?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<TaxRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TaxRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TaxRule>>(path);
+  /**
+   * Iterates over every page of {@link TaxRulesResource.getByScope}, yielding each item.
+   *
+   * @param scope - Tax scope (ORDER, ITEM, CATEGORY)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByScope(
+    scope: TaxScope,
+    params?: ListParams<TaxRule>,
+    options?: PaginateOptions
+  ): PageIterator<TaxRule> {
+    return paginate((params) => this.getByScope(scope, params, options), params, options);
   }
 
   /**
@@ -182,6 +255,7 @@ export class TaxRulesResource {
    *
    * @param rateType - Tax rate type (PERCENTAGE, FIXED)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of tax rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -195,23 +269,41 @@ export class TaxRulesResource {
    */
   public async getByRateType(
     rateType: TaxRateType,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TaxRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TaxRule>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('rateType', rateType);
+    const path = `${this.resource_path}/by-rate-type${buildQueryString(params, { rateType })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-rate-type?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<TaxRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TaxRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TaxRule>>(path);
+  /**
+   * Iterates over every page of {@link TaxRulesResource.getByRateType}, yielding each item.
+   *
+   * @param rateType - Tax rate type (PERCENTAGE, FIXED)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByRateType(
+    rateType: TaxRateType,
+    params?: ListParams<TaxRule>,
+    options?: PaginateOptions
+  ): PageIterator<TaxRule> {
+    return paginate((params) => this.getByRateType(rateType, params, options), params, options);
   }
 
   /**
    * Retrieves active tax rules.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active tax rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -224,23 +316,39 @@ export class TaxRulesResource {
    * ```
    */
   public async getActive(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TaxRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TaxRule>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('isActive', 'true');
+    const path = `${this.resource_path}/active${buildQueryString(params, { isActive: true })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/active?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<TaxRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TaxRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TaxRule>>(path);
+  /**
+   * Iterates over every page of {@link TaxRulesResource.getActive}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    params?: ListParams<TaxRule>,
+    options?: PaginateOptions
+  ): PageIterator<TaxRule> {
+    return paginate((params) => this.getActive(params, options), params, options);
   }
 
   /**
    * Updates an existing tax rule.
    *
    * @param data - Tax rule update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated tax rule
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -257,11 +365,12 @@ export class TaxRulesResource {
    * console.log('Updated rate:', updated.rateValue);
    * ```
    */
-  public async update(data: UpdateTaxRule): Promise<TaxRule> {
+  public async update(data: UpdateTaxRule, options?: RequestOptions): Promise<TaxRule> {
     return this.http.patch<UpdateTaxRule, TaxRule>(
       this.resource_path,
       data,
-      UpdateTaxRuleSchema
+      UpdateTaxRuleSchema,
+      { ...options, responseSchema: TaxRuleSchema }
     );
   }
 
@@ -269,6 +378,7 @@ export class TaxRulesResource {
    * Deletes a tax rule.
    *
    * @param id - Tax rule ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
@@ -285,14 +395,16 @@ export class TaxRulesResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists tax rules with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of tax rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -308,22 +420,76 @@ export class TaxRulesResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TaxRule>,
+    filters?: TaxRuleFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TaxRule>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<TaxRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TaxRuleSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link TaxRulesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.taxRules.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<TaxRule>,
+    filters?: TaxRuleFilters,
+    options?: PaginateOptions
+  ): PageIterator<TaxRule> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<TaxRule>>(path);
+  /**
+   * Retrieves every item of {@link TaxRulesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link TaxRulesResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.taxRules.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<TaxRule>,
+    filters?: TaxRuleFilters,
+    options?: PaginateOptions
+  ): Promise<TaxRule[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple tax rules in a single batch request.
    *
    * @param data - Array of tax rule data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created tax rules
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -352,7 +518,8 @@ export class TaxRulesResource {
    * ```
    */
   public async createBatch(
-    data: CreateTaxRule[]
+    data: CreateTaxRule[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TaxRule>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -373,7 +540,39 @@ export class TaxRulesResource {
 
     return this.http.post<CreateTaxRule[], PaginatedResultType<TaxRule>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(TaxRuleSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link TaxRulesResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of tax rule data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.taxRules.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateTaxRule[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateTaxRule, TaxRule>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateTaxRuleSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
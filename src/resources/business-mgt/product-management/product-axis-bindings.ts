@@ -10,9 +10,15 @@ import {
   UpdateProductAxisBinding,
   UpdateProductAxisBindingSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ProductAxisBindingSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 100;
@@ -42,21 +48,33 @@ export class ProductAxisBindingsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ProductAxisBindingsResource> {
+    return withResponse(this.http, (http) => new ProductAxisBindingsResource(http));
+  }
+
   /**
    * Creates a new product axis binding.
    *
    * @param data - Product axis binding data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created binding
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateProductAxisBinding): Promise<ProductAxisBinding> {
+  public async create(data: CreateProductAxisBinding, options?: RequestOptions): Promise<ProductAxisBinding> {
     return this.http.post<CreateProductAxisBinding, ProductAxisBinding>(
       this.resource_path,
       data,
-      CreateProductAxisBindingSchema
+      CreateProductAxisBindingSchema,
+      { ...options, responseSchema: ProductAxisBindingSchema }
     );
   }
 
@@ -64,13 +82,17 @@ export class ProductAxisBindingsResource {
    * Retrieves a product axis binding by ID.
    *
    * @param id - Product axis binding ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the binding
    *
    * @throws {@link WiilAPIError} - When the binding is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<ProductAxisBinding> {
-    return this.http.get<ProductAxisBinding>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ProductAxisBinding> {
+    return this.http.get<ProductAxisBinding>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ProductAxisBindingSchema }
+    );
   }
 
   /**
@@ -78,6 +100,7 @@ export class ProductAxisBindingsResource {
    *
    * @param productId - Product ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of bindings
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -85,16 +108,34 @@ export class ProductAxisBindingsResource {
    */
   public async getByProduct(
     productId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductAxisBinding>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductAxisBinding>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-product/${productId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-product/${productId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ProductAxisBinding>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductAxisBindingSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ProductAxisBinding>>(path);
+  /**
+   * Iterates over every page of {@link ProductAxisBindingsResource.getByProduct}, yielding each item.
+   *
+   * @param productId - Product ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByProduct(
+    productId: string,
+    params?: ListParams<ProductAxisBinding>,
+    options?: PaginateOptions
+  ): PageIterator<ProductAxisBinding> {
+    return paginate((params) => this.getByProduct(productId, params, options), params, options);
   }
 
   /**
@@ -102,6 +143,7 @@ export class ProductAxisBindingsResource {
    *
    * @param axisId - Variant axis ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of bindings
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -109,16 +151,34 @@ export class ProductAxisBindingsResource {
    */
   public async getByAxis(
     axisId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductAxisBinding>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductAxisBinding>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-axis/${axisId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-axis/${axisId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ProductAxisBinding>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductAxisBindingSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ProductAxisBinding>>(path);
+  /**
+   * Iterates over every page of {@link ProductAxisBindingsResource.getByAxis}, yielding each item.
+   *
+   * @param axisId - Variant axis ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByAxis(
+    axisId: string,
+    params?: ListParams<ProductAxisBinding>,
+    options?: PaginateOptions
+  ): PageIterator<ProductAxisBinding> {
+    return paginate((params) => this.getByAxis(axisId, params, options), params, options);
   }
 
   /**
@@ -126,17 +186,23 @@ export class ProductAxisBindingsResource {
    *
    * @param id - Product axis binding ID
    * @param data - Binding update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated binding
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the binding is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateProductAxisBinding): Promise<ProductAxisBinding> {
+  public async update(
+    id: string,
+    data: UpdateProductAxisBinding,
+    options?: RequestOptions
+  ): Promise<ProductAxisBinding> {
     return this.http.patch<UpdateProductAxisBinding, ProductAxisBinding>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateProductAxisBindingSchema
+      UpdateProductAxisBindingSchema,
+      { ...options, responseSchema: ProductAxisBindingSchema }
     );
   }
 
@@ -144,41 +210,80 @@ export class ProductAxisBindingsResource {
    * Deletes a product axis binding.
    *
    * @param id - Product axis binding ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the binding is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists product axis bindings with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of bindings
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductAxisBinding>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductAxisBinding>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ProductAxisBinding>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductAxisBindingSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ProductAxisBindingsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<ProductAxisBinding>,
+    options?: PaginateOptions
+  ): PageIterator<ProductAxisBinding> {
+    return paginate((params) => this.list(params, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ProductAxisBinding>>(path);
+  /**
+   * Retrieves every item of {@link ProductAxisBindingsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ProductAxisBindingsResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<ProductAxisBinding>,
+    options?: PaginateOptions
+  ): Promise<ProductAxisBinding[]> {
+    return this.iterate(params, options).toArray();
   }
 
   /**
    * Creates multiple product axis bindings in a single batch request.
    *
    * @param data - Array of binding data (maximum 100 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created bindings
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -186,7 +291,8 @@ export class ProductAxisBindingsResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateProductAxisBinding[]
+    data: CreateProductAxisBinding[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductAxisBinding>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -207,7 +313,39 @@ export class ProductAxisBindingsResource {
 
     return this.http.post<CreateProductAxisBinding[], PaginatedResultType<ProductAxisBinding>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ProductAxisBindingSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ProductAxisBindingsResource.createBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param data - Array of binding data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.productAxisBindings.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateProductAxisBinding[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateProductAxisBinding, ProductAxisBinding>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateProductAxisBindingSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -10,10 +10,27 @@ import {
   UpdateProductOrder,
   UpdateProductOrderSchema,
   PaginatedResultType,
-  PaginationRequest,
   UpdateProductOrderStatus,
+  ProductOrderSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
+
+/**
+ * Filters for listing product orders.
+ */
+export interface ProductOrderFilters extends DateRangeFilters {
+  /** Filter by order status */
+  status?: ProductOrder['status'];
+  /** Filter by payment status */
+  paymentStatus?: ProductOrder['paymentStatus'];
+  /** Filter by customer ID */
+  customerId?: string;
+}
 
 /**
  * Resource class for managing product orders in the WIIL Platform.
@@ -26,68 +43,118 @@ export class ProductOrdersResource {
     this.http = http;
   }
 
-  public async create(data: CreateProductOrder): Promise<ProductOrder> {
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ProductOrdersResource> {
+    return withResponse(this.http, (http) => new ProductOrdersResource(http));
+  }
+
+  public async create(data: CreateProductOrder, options?: RequestOptions): Promise<ProductOrder> {
     return this.http.post<CreateProductOrder, ProductOrder>(
       this.resource_path,
       data,
-      CreateProductOrderSchema
+      CreateProductOrderSchema,
+      { ...options, responseSchema: ProductOrderSchema }
     );
   }
 
-  public async get(id: string): Promise<ProductOrder> {
-    return this.http.get<ProductOrder>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ProductOrder> {
+    return this.http.get<ProductOrder>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ProductOrderSchema }
+    );
   }
 
   public async getByCustomer(
     customerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductOrder>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductOrder>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-customer/${customerId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-customer/${customerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ProductOrder>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductOrderSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ProductOrder>>(path);
+  public iterateByCustomer(
+    customerId: string,
+    params?: ListParams<ProductOrder>,
+    options?: PaginateOptions
+  ): PageIterator<ProductOrder> {
+    return paginate((params) => this.getByCustomer(customerId, params, options), params, options);
   }
 
-  public async update(data: UpdateProductOrder): Promise<ProductOrder> {
+  public async update(data: UpdateProductOrder, options?: RequestOptions): Promise<ProductOrder> {
     return this.http.patch<UpdateProductOrder, ProductOrder>(
       this.resource_path,
       data,
-      UpdateProductOrderSchema
+      UpdateProductOrderSchema,
+      { ...options, responseSchema: ProductOrderSchema }
     );
   }
 
-  public async updateStatus(id: string, data: UpdateProductOrderStatus): Promise<ProductOrder> {
+  public async updateStatus(
+    id: string,
+    data: UpdateProductOrderStatus,
+    options?: RequestOptions
+  ): Promise<ProductOrder> {
     return this.http.patch<{ status: string }, ProductOrder>(
       `${this.resource_path}/${id}/status`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: ProductOrderSchema }
     );
   }
 
-  public async cancel(id: string, data: { cancelReason: string }): Promise<ProductOrder> {
+  public async cancel(
+    id: string,
+    data: { cancelReason: string },
+    options?: RequestOptions
+  ): Promise<ProductOrder> {
     return this.http.post<{ cancelReason: string }, ProductOrder>(
       `${this.resource_path}/${id}/cancel`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: ProductOrderSchema }
     );
   }
 
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductOrder>,
+    filters?: ProductOrderFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductOrder>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ProductOrder>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductOrderSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  public iterate(
+    params?: ListParams<ProductOrder>,
+    filters?: ProductOrderFilters,
+    options?: PaginateOptions
+  ): PageIterator<ProductOrder> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ProductOrder>>(path);
+  public async listAll(
+    params?: ListParams<ProductOrder>,
+    filters?: ProductOrderFilters,
+    options?: PaginateOptions
+  ): Promise<ProductOrder[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
@@ -10,13 +10,32 @@ import {
   UpdateProductPricingRule,
   UpdateProductPricingRuleSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ProductPricingRuleSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing product pricing rules.
+ */
+export interface ProductPricingRuleFilters {
+  /** Filter by product set ID */
+  productSetId?: string;
+  /** Filter by discount ID */
+  discountId?: string;
+  /** Filter by business location ID */
+  locationId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing product pricing rules in the WIIL Platform.
  *
@@ -42,21 +61,33 @@ export class ProductPricingRulesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ProductPricingRulesResource> {
+    return withResponse(this.http, (http) => new ProductPricingRulesResource(http));
+  }
+
   /**
    * Creates a new product pricing rule.
    *
    * @param data - Product pricing rule data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created pricing rule
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateProductPricingRule): Promise<ProductPricingRule> {
+  public async create(data: CreateProductPricingRule, options?: RequestOptions): Promise<ProductPricingRule> {
     return this.http.post<CreateProductPricingRule, ProductPricingRule>(
       this.resource_path,
       data,
-      CreateProductPricingRuleSchema
+      CreateProductPricingRuleSchema,
+      { ...options, responseSchema: ProductPricingRuleSchema }
     );
   }
 
@@ -64,13 +95,17 @@ export class ProductPricingRulesResource {
    * Retrieves a product pricing rule by ID.
    *
    * @param id - Product pricing rule ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the pricing rule
    *
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<ProductPricingRule> {
-    return this.http.get<ProductPricingRule>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ProductPricingRule> {
+    return this.http.get<ProductPricingRule>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ProductPricingRuleSchema }
+    );
   }
 
   /**
@@ -78,6 +113,7 @@ export class ProductPricingRulesResource {
    *
    * @param productSetId - Product set ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of pricing rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -85,16 +121,34 @@ export class ProductPricingRulesResource {
    */
   public async getByProductSet(
     productSetId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductPricingRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductPricingRule>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-product-set/${productSetId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-product-set/${productSetId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ProductPricingRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductPricingRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ProductPricingRule>>(path);
+  /**
+   * Iterates over every page of {@link ProductPricingRulesResource.getByProductSet}, yielding each item.
+   *
+   * @param productSetId - Product set ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByProductSet(
+    productSetId: string,
+    params?: ListParams<ProductPricingRule>,
+    options?: PaginateOptions
+  ): PageIterator<ProductPricingRule> {
+    return paginate((params) => this.getByProductSet(productSetId, params, options), params, options);
   }
 
   /**
@@ -102,6 +156,7 @@ export class ProductPricingRulesResource {
    *
    * @param discountId - Discount ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of pricing rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -109,16 +164,34 @@ export class ProductPricingRulesResource {
    */
   public async getByDiscount(
     discountId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductPricingRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductPricingRule>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-discount/${discountId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-discount/${discountId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ProductPricingRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductPricingRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ProductPricingRule>>(path);
+  /**
+   * Iterates over every page of {@link ProductPricingRulesResource.getByDiscount}, yielding each item.
+   *
+   * @param discountId - Discount ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByDiscount(
+    discountId: string,
+    params?: ListParams<ProductPricingRule>,
+    options?: PaginateOptions
+  ): PageIterator<ProductPricingRule> {
+    return paginate((params) => this.getByDiscount(discountId, params, options), params, options);
   }
 
   /**
@@ -126,6 +199,7 @@ export class ProductPricingRulesResource {
    *
    * @param timestamp - Unix timestamp to check effectiveness
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active pricing rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -133,17 +207,34 @@ export class ProductPricingRulesResource {
    */
   public async getActive(
     timestamp?: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductPricingRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductPricingRule>> {
-    const queryParams = new URLSearchParams();
-
-    if (timestamp) queryParams.append('effectiveAt', timestamp.toString());
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/active${buildQueryString(params, { effectiveAt: timestamp })}`;
 
-    const path = `${this.resource_path}/active${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ProductPricingRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductPricingRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ProductPricingRule>>(path);
+  /**
+   * Iterates over every page of {@link ProductPricingRulesResource.getActive}, yielding each item.
+   *
+   * @param timestamp - Unix timestamp to check effectiveness
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    timestamp?: number,
+    params?: ListParams<ProductPricingRule>,
+    options?: PaginateOptions
+  ): PageIterator<ProductPricingRule> {
+    return paginate((params) => this.getActive(timestamp, params, options), params, options);
   }
 
   /**
@@ -151,17 +242,23 @@ export class ProductPricingRulesResource {
    *
    * @param id - Product pricing rule ID
    * @param data - Pricing rule update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated pricing rule
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateProductPricingRule): Promise<ProductPricingRule> {
+  public async update(
+    id: string,
+    data: UpdateProductPricingRule,
+    options?: RequestOptions
+  ): Promise<ProductPricingRule> {
     return this.http.patch<UpdateProductPricingRule, ProductPricingRule>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateProductPricingRuleSchema
+      UpdateProductPricingRuleSchema,
+      { ...options, responseSchema: ProductPricingRuleSchema }
     );
   }
 
@@ -169,35 +266,79 @@ export class ProductPricingRulesResource {
    * Deletes a product pricing rule.
    *
    * @param id - Product pricing rule ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists product pricing rules with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of pricing rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductPricingRule>,
+    filters?: ProductPricingRuleFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductPricingRule>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ProductPricingRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductPricingRuleSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ProductPricingRulesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<ProductPricingRule>,
+    filters?: ProductPricingRuleFilters,
+    options?: PaginateOptions
+  ): PageIterator<ProductPricingRule> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ProductPricingRule>>(path);
+  /**
+   * Retrieves every item of {@link ProductPricingRulesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ProductPricingRulesResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<ProductPricingRule>,
+    filters?: ProductPricingRuleFilters,
+    options?: PaginateOptions
+  ): Promise<ProductPricingRule[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   // /**
@@ -10,13 +10,27 @@ import {
   UpdateProductSet,
   UpdateProductSetSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ProductSetSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing product sets.
+ */
+export interface ProductSetFilters {
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing product sets in the WIIL Platform.
  *
@@ -42,21 +56,33 @@ export class ProductSetsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ProductSetsResource> {
+    return withResponse(this.http, (http) => new ProductSetsResource(http));
+  }
+
   /**
    * Creates a new product set.
    *
    * @param data - Product set data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created product set
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateProductSet): Promise<ProductSet> {
+  public async create(data: CreateProductSet, options?: RequestOptions): Promise<ProductSet> {
     return this.http.post<CreateProductSet, ProductSet>(
       this.resource_path,
       data,
-      CreateProductSetSchema
+      CreateProductSetSchema,
+      { ...options, responseSchema: ProductSetSchema }
     );
   }
 
@@ -64,48 +90,73 @@ export class ProductSetsResource {
    * Retrieves a product set by ID.
    *
    * @param id - Product set ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the product set
    *
    * @throws {@link WiilAPIError} - When the set is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<ProductSet> {
-    return this.http.get<ProductSet>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ProductSet> {
+    return this.http.get<ProductSet>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ProductSetSchema }
+    );
   }
 
   /**
    * Retrieves a product set by code.
    *
    * @param code - Product set code
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the product set or null if not found
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getByCode(code: string): Promise<ProductSet | null> {
-    return this.http.get<ProductSet | null>(`${this.resource_path}/code/${encodeURIComponent(code)}`);
+  public async getByCode(code: string, options?: RequestOptions): Promise<ProductSet | null> {
+    return this.http.get<ProductSet | null>(
+      `${this.resource_path}/code/${encodeURIComponent(code)}`,
+      { ...options, responseSchema: ProductSetSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves active product sets.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active product sets
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async getActive(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductSet>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductSet>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/active${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/active${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ProductSet>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductSetSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ProductSet>>(path);
+  /**
+   * Iterates over every page of {@link ProductSetsResource.getActive}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    params?: ListParams<ProductSet>,
+    options?: PaginateOptions
+  ): PageIterator<ProductSet> {
+    return paginate((params) => this.getActive(params, options), params, options);
   }
 
   /**
@@ -113,17 +164,23 @@ export class ProductSetsResource {
    *
    * @param id - Product set ID
    * @param data - Product set update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated product set
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the set is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateProductSet): Promise<ProductSet> {
+  public async update(
+    id: string,
+    data: UpdateProductSet,
+    options?: RequestOptions
+  ): Promise<ProductSet> {
     return this.http.patch<UpdateProductSet, ProductSet>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateProductSetSchema
+      UpdateProductSetSchema,
+      { ...options, responseSchema: ProductSetSchema }
     );
   }
 
@@ -131,41 +188,86 @@ export class ProductSetsResource {
    * Deletes a product set.
    *
    * @param id - Product set ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the set is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists product sets with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of product sets
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductSet>,
+    filters?: ProductSetFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductSet>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ProductSet>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductSetSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ProductSetsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<ProductSet>,
+    filters?: ProductSetFilters,
+    options?: PaginateOptions
+  ): PageIterator<ProductSet> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ProductSet>>(path);
+  /**
+   * Retrieves every item of {@link ProductSetsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ProductSetsResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<ProductSet>,
+    filters?: ProductSetFilters,
+    options?: PaginateOptions
+  ): Promise<ProductSet[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple product sets in a single batch request.
    *
    * @param data - Array of product set data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created product sets
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -173,7 +275,8 @@ export class ProductSetsResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateProductSet[]
+    data: CreateProductSet[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductSet>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -194,7 +297,39 @@ export class ProductSetsResource {
 
     return this.http.post<CreateProductSet[], PaginatedResultType<ProductSet>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ProductSetSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ProductSetsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of product set data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.productSets.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateProductSet[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateProductSet, ProductSet>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateProductSetSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
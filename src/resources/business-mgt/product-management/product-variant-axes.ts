@@ -10,9 +10,15 @@ import {
   UpdateVariantAxis,
   UpdateVariantAxisSchema,
   PaginatedResultType,
-  PaginationRequest,
+  VariantAxisSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
@@ -42,21 +48,33 @@ export class ProductVariantAxesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ProductVariantAxesResource> {
+    return withResponse(this.http, (http) => new ProductVariantAxesResource(http));
+  }
+
   /**
    * Creates a new variant axis.
    *
    * @param data - Variant axis data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created variant axis
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateVariantAxis): Promise<VariantAxis> {
+  public async create(data: CreateVariantAxis, options?: RequestOptions): Promise<VariantAxis> {
     return this.http.post<CreateVariantAxis, VariantAxis>(
       this.resource_path,
       data,
-      CreateVariantAxisSchema
+      CreateVariantAxisSchema,
+      { ...options, responseSchema: VariantAxisSchema }
     );
   }
 
@@ -64,26 +82,34 @@ export class ProductVariantAxesResource {
    * Retrieves a variant axis by ID.
    *
    * @param id - Variant axis ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the variant axis
    *
    * @throws {@link WiilAPIError} - When the axis is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<VariantAxis> {
-    return this.http.get<VariantAxis>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<VariantAxis> {
+    return this.http.get<VariantAxis>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: VariantAxisSchema }
+    );
   }
 
   /**
    * Retrieves a variant axis by name.
    *
    * @param name - Variant axis name
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the variant axis or null if not found
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getByName(name: string): Promise<VariantAxis | null> {
-    return this.http.get<VariantAxis | null>(`${this.resource_path}/by-name/${encodeURIComponent(name)}`);
+  public async getByName(name: string, options?: RequestOptions): Promise<VariantAxis | null> {
+    return this.http.get<VariantAxis | null>(
+      `${this.resource_path}/by-name/${encodeURIComponent(name)}`,
+      { ...options, responseSchema: VariantAxisSchema.nullable() }
+    );
   }
 
   /**
@@ -91,17 +117,23 @@ export class ProductVariantAxesResource {
    *
    * @param id - Variant axis ID
    * @param data - Variant axis update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated variant axis
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the axis is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateVariantAxis): Promise<VariantAxis> {
+  public async update(
+    id: string,
+    data: UpdateVariantAxis,
+    options?: RequestOptions
+  ): Promise<VariantAxis> {
     return this.http.patch<UpdateVariantAxis, VariantAxis>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateVariantAxisSchema
+      UpdateVariantAxisSchema,
+      { ...options, responseSchema: VariantAxisSchema }
     );
   }
 
@@ -109,41 +141,80 @@ export class ProductVariantAxesResource {
    * Deletes a variant axis.
    *
    * @param id - Variant axis ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the axis is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists variant axes with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of variant axes
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<VariantAxis>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<VariantAxis>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<VariantAxis>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(VariantAxisSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ProductVariantAxesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<VariantAxis>,
+    options?: PaginateOptions
+  ): PageIterator<VariantAxis> {
+    return paginate((params) => this.list(params, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<VariantAxis>>(path);
+  /**
+   * Retrieves every item of {@link ProductVariantAxesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ProductVariantAxesResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<VariantAxis>,
+    options?: PaginateOptions
+  ): Promise<VariantAxis[]> {
+    return this.iterate(params, options).toArray();
   }
 
   /**
    * Creates multiple variant axes in a single batch request.
    *
    * @param data - Array of variant axis data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created variant axes
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -151,7 +222,8 @@ export class ProductVariantAxesResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateVariantAxis[]
+    data: CreateVariantAxis[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<VariantAxis>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -172,7 +244,39 @@ export class ProductVariantAxesResource {
 
     return this.http.post<CreateVariantAxis[], PaginatedResultType<VariantAxis>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(VariantAxisSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ProductVariantAxesResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of variant axis data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.productVariantAxes.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateVariantAxis[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateVariantAxis, VariantAxis>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateVariantAxisSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -10,8 +10,13 @@ import {
   UpdateProductVariant,
   UpdateProductVariantSchema,
   PaginatedResultType,
+  ProductVariantSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 100;
@@ -41,21 +46,33 @@ export class ProductVariantsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ProductVariantsResource> {
+    return withResponse(this.http, (http) => new ProductVariantsResource(http));
+  }
+
   /**
    * Creates a new product variant.
    *
    * @param data - Product variant data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created product variant
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateProductVariant): Promise<ProductVariant> {
+  public async create(data: CreateProductVariant, options?: RequestOptions): Promise<ProductVariant> {
     return this.http.post<CreateProductVariant, ProductVariant>(
       this.resource_path,
       data,
-      CreateProductVariantSchema
+      CreateProductVariantSchema,
+      { ...options, responseSchema: ProductVariantSchema }
     );
   }
 
@@ -63,39 +80,54 @@ export class ProductVariantsResource {
    * Retrieves a product variant by ID.
    *
    * @param id - Product variant ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the product variant
    *
    * @throws {@link WiilAPIError} - When the variant is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<ProductVariant> {
-    return this.http.get<ProductVariant>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ProductVariant> {
+    return this.http.get<ProductVariant>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ProductVariantSchema }
+    );
   }
 
   /**
    * Retrieves a product variant by SKU.
    *
    * @param sku - Stock Keeping Unit identifier
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the product variant or null if not found
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getBySku(sku: string): Promise<ProductVariant | null> {
-    return this.http.get<ProductVariant | null>(`${this.resource_path}/by-sku/${sku}`);
+  public async getBySku(sku: string, options?: RequestOptions): Promise<ProductVariant | null> {
+    return this.http.get<ProductVariant | null>(
+      `${this.resource_path}/by-sku/${sku}`,
+      { ...options, responseSchema: ProductVariantSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves the default variant for a product.
    *
    * @param productId - Parent product ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default variant or null if none set
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getDefault(productId: string): Promise<ProductVariant | null> {
-    return this.http.get<ProductVariant | null>(`${this.resource_path}/default/${productId}`);
+  public async getDefault(
+    productId: string,
+    options?: RequestOptions
+  ): Promise<ProductVariant | null> {
+    return this.http.get<ProductVariant | null>(
+      `${this.resource_path}/default/${productId}`,
+      { ...options, responseSchema: ProductVariantSchema.nullable() }
+    );
   }
 
   /**
@@ -103,17 +135,23 @@ export class ProductVariantsResource {
    *
    * @param id - Product variant ID
    * @param data - Product variant update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated product variant
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the variant is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateProductVariant): Promise<ProductVariant> {
+  public async update(
+    id: string,
+    data: UpdateProductVariant,
+    options?: RequestOptions
+  ): Promise<ProductVariant> {
     return this.http.patch<UpdateProductVariant, ProductVariant>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateProductVariantSchema
+      UpdateProductVariantSchema,
+      { ...options, responseSchema: ProductVariantSchema }
     );
   }
 
@@ -121,19 +159,21 @@ export class ProductVariantsResource {
    * Deletes a product variant.
    *
    * @param id - Product variant ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the variant is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Creates multiple product variants in a single batch request.
    *
    * @param data - Array of product variant data (maximum 100 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created product variants
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -141,7 +181,8 @@ export class ProductVariantsResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateProductVariant[]
+    data: CreateProductVariant[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductVariant>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -162,7 +203,39 @@ export class ProductVariantsResource {
 
     return this.http.post<CreateProductVariant[], PaginatedResultType<ProductVariant>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ProductVariantSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ProductVariantsResource.createBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param data - Array of product variant data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.productVariants.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateProductVariant[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateProductVariant, ProductVariant>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateProductVariantSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -16,14 +16,32 @@ import {
   UpdateBusinessProductSchema,
   ProductDisplay,
   PaginatedResultType,
-  PaginationRequest,
+  BusinessProductSchema,
+  ProductCategorySchema,
+  ProductDisplaySchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const CATEGORY_BATCH_LIMIT = 50;
 const PRODUCT_BATCH_LIMIT = 100;
 
+/**
+ * Filters for listing products.
+ */
+export interface ProductFilters {
+  /** Filter by product category ID */
+  categoryId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing products in the WIIL Platform.
  */
@@ -35,139 +53,227 @@ export class ProductsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ProductsResource> {
+    return withResponse(this.http, (http) => new ProductsResource(http));
+  }
+
   // =============== Product Category Methods ===============
 
-  public async createCategory(data: CreateProductCategory): Promise<ProductCategory> {
+  public async createCategory(
+    data: CreateProductCategory,
+    options?: RequestOptions
+  ): Promise<ProductCategory> {
     return this.http.post<CreateProductCategory, ProductCategory>(
       `${this.resource_path}/categories`,
       data,
-      CreateProductCategorySchema
+      CreateProductCategorySchema,
+      { ...options, responseSchema: ProductCategorySchema }
     );
   }
 
-  public async getCategory(id: string): Promise<ProductCategory> {
-    return this.http.get<ProductCategory>(`${this.resource_path}/categories/${id}`);
+  public async getCategory(id: string, options?: RequestOptions): Promise<ProductCategory> {
+    return this.http.get<ProductCategory>(
+      `${this.resource_path}/categories/${id}`,
+      { ...options, responseSchema: ProductCategorySchema }
+    );
   }
 
   public async listCategories(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ProductCategory>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductCategory>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/categories${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/categories${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ProductCategory>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ProductCategorySchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ProductCategory>>(path);
+  public iterateCategories(
+    params?: ListParams<ProductCategory>,
+    options?: PaginateOptions
+  ): PageIterator<ProductCategory> {
+    return paginate((params) => this.listCategories(params, options), params, options);
   }
 
-  public async updateCategory(data: UpdateProductCategory): Promise<ProductCategory> {
+  public async updateCategory(
+    data: UpdateProductCategory,
+    options?: RequestOptions
+  ): Promise<ProductCategory> {
     return this.http.patch<UpdateProductCategory, ProductCategory>(
       `${this.resource_path}/categories`,
       data,
-      UpdateProductCategorySchema
+      UpdateProductCategorySchema,
+      { ...options, responseSchema: ProductCategorySchema }
     );
   }
 
-  public async deleteCategory(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/categories/${id}`);
+  public async deleteCategory(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/categories/${id}`, options);
   }
 
   /**
    * Sets the display order for a product category.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async setCategoryDisplayOrder(id: string, displayOrder: number): Promise<ProductCategory> {
+  public async setCategoryDisplayOrder(
+    id: string,
+    displayOrder: number,
+    options?: RequestOptions
+  ): Promise<ProductCategory> {
     return this.http.patch<{ displayOrder: number }, ProductCategory>(
       `${this.resource_path}/categories/${id}/display-order`,
-      { displayOrder }
+      { displayOrder },
+      undefined,
+      { ...options, responseSchema: ProductCategorySchema }
     );
   }
 
   // =============== Product Methods ===============
 
-  public async create(data: CreateBusinessProduct): Promise<ProductDisplay> {
+  public async create(
+    data: CreateBusinessProduct,
+    options?: RequestOptions
+  ): Promise<ProductDisplay> {
     return this.http.post<CreateBusinessProduct, ProductDisplay>(
       `${this.resource_path}/products`,
       data,
-      CreateBusinessProductSchema
+      CreateBusinessProductSchema,
+      { ...options, responseSchema: ProductDisplaySchema }
     );
   }
 
-  public async get(id: string): Promise<BusinessProduct> {
-    return this.http.get<BusinessProduct>(`${this.resource_path}/products/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<BusinessProduct> {
+    return this.http.get<BusinessProduct>(
+      `${this.resource_path}/products/${id}`,
+      { ...options, responseSchema: BusinessProductSchema }
+    );
   }
 
-  public async getBySku(sku: string): Promise<BusinessProduct> {
-    return this.http.get<BusinessProduct>(`${this.resource_path}/products/by-sku/${sku}`);
+  public async getBySku(sku: string, options?: RequestOptions): Promise<BusinessProduct> {
+    return this.http.get<BusinessProduct>(
+      `${this.resource_path}/products/by-sku/${sku}`,
+      { ...options, responseSchema: BusinessProductSchema }
+    );
   }
 
-  public async getByBarcode(barcode: string): Promise<BusinessProduct> {
-    return this.http.get<BusinessProduct>(`${this.resource_path}/products/by-barcode/${barcode}`);
+  public async getByBarcode(barcode: string, options?: RequestOptions): Promise<BusinessProduct> {
+    return this.http.get<BusinessProduct>(
+      `${this.resource_path}/products/by-barcode/${barcode}`,
+      { ...options, responseSchema: BusinessProductSchema }
+    );
   }
 
   public async list(
-    params?: Partial<PaginationRequest & { includeDeleted?: boolean }>
+    params?: ListParams<BusinessProduct> & { includeDeleted?: boolean },
+    filters?: ProductFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessProduct>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/products${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-    if (params?.includeDeleted !== undefined) queryParams.append('includeDeleted', params.includeDeleted.toString());
+    return this.http.get<PaginatedResultType<BusinessProduct>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(BusinessProductSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}/products${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  public iterate(
+    params?: ListParams<BusinessProduct> & { includeDeleted?: boolean },
+    filters?: ProductFilters,
+    options?: PaginateOptions
+  ): PageIterator<BusinessProduct> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<BusinessProduct>>(path);
+  public async listAll(
+    params?: ListParams<BusinessProduct> & { includeDeleted?: boolean },
+    filters?: ProductFilters,
+    options?: PaginateOptions
+  ): Promise<BusinessProduct[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   public async getByCategory(
     categoryId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<BusinessProduct>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessProduct>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/products/by-category/${categoryId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/products/by-category/${categoryId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<BusinessProduct>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(BusinessProductSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<BusinessProduct>>(path);
+  public iterateByCategory(
+    categoryId: string,
+    params?: ListParams<BusinessProduct>,
+    options?: PaginateOptions
+  ): PageIterator<BusinessProduct> {
+    return paginate((params) => this.getByCategory(categoryId, params, options), params, options);
   }
 
   public async search(
     query: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<BusinessProduct>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessProduct>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('query', query);
+    const path = `${this.resource_path}/products/search${buildQueryString(params, { query })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/products/search?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<BusinessProduct>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(BusinessProductSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<BusinessProduct>>(path);
+  public iterateSearch(
+    query: string,
+    params?: ListParams<BusinessProduct>,
+    options?: PaginateOptions
+  ): PageIterator<BusinessProduct> {
+    return paginate((params) => this.search(query, params, options), params, options);
   }
 
-  public async update(data: UpdateBusinessProduct): Promise<BusinessProduct> {
+  public async update(
+    data: UpdateBusinessProduct,
+    options?: RequestOptions
+  ): Promise<BusinessProduct> {
     return this.http.patch<UpdateBusinessProduct, BusinessProduct>(
       `${this.resource_path}/products`,
       data,
-      UpdateBusinessProductSchema
+      UpdateBusinessProductSchema,
+      { ...options, responseSchema: BusinessProductSchema }
     );
   }
 
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/products/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/products/${id}`, options);
   }
 
   /**
    * Updates the status of a product (active/inactive).
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async updateStatus(id: string, isActive: boolean): Promise<BusinessProduct> {
+  public async updateStatus(
+    id: string,
+    isActive: boolean,
+    options?: RequestOptions
+  ): Promise<BusinessProduct> {
     return this.http.patch<{ isActive: boolean }, BusinessProduct>(
       `${this.resource_path}/products/${id}/status`,
-      { isActive }
+      { isActive },
+      undefined,
+      { ...options, responseSchema: BusinessProductSchema }
     );
   }
 
@@ -175,6 +281,7 @@ export class ProductsResource {
    * Creates multiple product categories in a single batch request.
    *
    * @param data - Array of product category data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created product categories
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -182,7 +289,8 @@ export class ProductsResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createCategoryBatch(
-    data: CreateProductCategory[]
+    data: CreateProductCategory[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ProductCategory>> {
     if (data.length > CATEGORY_BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -203,7 +311,39 @@ export class ProductsResource {
 
     return this.http.post<CreateProductCategory[], PaginatedResultType<ProductCategory>>(
       `${this.resource_path}/categories/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ProductCategorySchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ProductsResource.createCategoryBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of product category data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.products.createCategoryBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createCategoryBatchChunked(
+    data: CreateProductCategory[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateProductCategory, ProductCategory>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: CATEGORY_BATCH_LIMIT,
+        schema: CreateProductCategorySchema,
+        send: (chunk, chunkOptions) => this.createCategoryBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 
@@ -211,6 +351,7 @@ export class ProductsResource {
    * Creates multiple products in a single batch request.
    *
    * @param data - Array of product data (maximum 100 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created products
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -218,7 +359,8 @@ export class ProductsResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateBusinessProduct[]
+    data: CreateBusinessProduct[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessProduct>> {
     if (data.length > PRODUCT_BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -239,7 +381,39 @@ export class ProductsResource {
 
     return this.http.post<CreateBusinessProduct[], PaginatedResultType<BusinessProduct>>(
       `${this.resource_path}/products/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(BusinessProductSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ProductsResource.createBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param data - Array of product data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.products.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateBusinessProduct[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateBusinessProduct, BusinessProduct>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: PRODUCT_BATCH_LIMIT,
+        schema: CreateBusinessProductSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -20,13 +20,37 @@ import {
   UpdateProperty,
   UpdatePropertySchema,
   PaginatedResultType,
-  PaginationRequest,
+  PropertyAddressSchema,
+  PropertyCategorySchema,
+  PropertySchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing properties.
+ */
+export interface PropertyFilters {
+  /** Filter by property category ID */
+  categoryId?: string;
+  /** Filter by property type */
+  propertyType?: Property['propertyType'];
+  /** Filter by listing type */
+  listingType?: Property['listingType'];
+  /** Filter by listing status */
+  listingStatus?: Property['listingStatus'];
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing property configurations in the WIIL Platform.
  */
@@ -38,168 +62,251 @@ export class PropertyConfigResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<PropertyConfigResource> {
+    return withResponse(this.http, (http) => new PropertyConfigResource(http));
+  }
+
   // =============== Property Category Methods ===============
 
-  public async createCategory(data: CreatePropertyCategory): Promise<PropertyCategory> {
+  public async createCategory(
+    data: CreatePropertyCategory,
+    options?: RequestOptions
+  ): Promise<PropertyCategory> {
     return this.http.post<CreatePropertyCategory, PropertyCategory>(
       `${this.resource_path}/categories`,
       data,
-      CreatePropertyCategorySchema
+      CreatePropertyCategorySchema,
+      { ...options, responseSchema: PropertyCategorySchema }
     );
   }
 
-  public async getCategory(id: string): Promise<PropertyCategory> {
-    return this.http.get<PropertyCategory>(`${this.resource_path}/categories/${id}`);
+  public async getCategory(id: string, options?: RequestOptions): Promise<PropertyCategory> {
+    return this.http.get<PropertyCategory>(
+      `${this.resource_path}/categories/${id}`,
+      { ...options, responseSchema: PropertyCategorySchema }
+    );
   }
 
   public async listCategories(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<PropertyCategory>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<PropertyCategory>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/categories${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/categories${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<PropertyCategory>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(PropertyCategorySchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<PropertyCategory>>(path);
+  public iterateCategories(
+    params?: ListParams<PropertyCategory>,
+    options?: PaginateOptions
+  ): PageIterator<PropertyCategory> {
+    return paginate((params) => this.listCategories(params, options), params, options);
   }
 
-  public async updateCategory(data: UpdatePropertyCategory): Promise<PropertyCategory> {
+  public async updateCategory(
+    data: UpdatePropertyCategory,
+    options?: RequestOptions
+  ): Promise<PropertyCategory> {
     return this.http.patch<UpdatePropertyCategory, PropertyCategory>(
       `${this.resource_path}/categories`,
       data,
-      UpdatePropertyCategorySchema
+      UpdatePropertyCategorySchema,
+      { ...options, responseSchema: PropertyCategorySchema }
     );
   }
 
-  public async deleteCategory(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/categories/${id}`);
+  public async deleteCategory(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/categories/${id}`, options);
   }
 
   // =============== Property Address Methods ===============
 
-  public async createAddress(data: CreatePropertyAddress): Promise<PropertyAddress> {
+  public async createAddress(
+    data: CreatePropertyAddress,
+    options?: RequestOptions
+  ): Promise<PropertyAddress> {
     return this.http.post<CreatePropertyAddress, PropertyAddress>(
       `${this.resource_path}/addresses`,
       data,
-      CreatePropertyAddressSchema
+      CreatePropertyAddressSchema,
+      { ...options, responseSchema: PropertyAddressSchema }
     );
   }
 
-  public async getAddress(id: string): Promise<PropertyAddress> {
-    return this.http.get<PropertyAddress>(`${this.resource_path}/addresses/${id}`);
+  public async getAddress(id: string, options?: RequestOptions): Promise<PropertyAddress> {
+    return this.http.get<PropertyAddress>(
+      `${this.resource_path}/addresses/${id}`,
+      { ...options, responseSchema: PropertyAddressSchema }
+    );
   }
 
   public async listAddresses(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<PropertyAddress>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<PropertyAddress>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/addresses${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/addresses${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<PropertyAddress>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(PropertyAddressSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<PropertyAddress>>(path);
+  public iterateAddresses(
+    params?: ListParams<PropertyAddress>,
+    options?: PaginateOptions
+  ): PageIterator<PropertyAddress> {
+    return paginate((params) => this.listAddresses(params, options), params, options);
   }
 
-  public async updateAddress(data: UpdatePropertyAddress): Promise<PropertyAddress> {
+  public async updateAddress(
+    data: UpdatePropertyAddress,
+    options?: RequestOptions
+  ): Promise<PropertyAddress> {
     return this.http.patch<UpdatePropertyAddress, PropertyAddress>(
       `${this.resource_path}/addresses`,
       data,
-      UpdatePropertyAddressSchema
+      UpdatePropertyAddressSchema,
+      { ...options, responseSchema: PropertyAddressSchema }
     );
   }
 
-  public async deleteAddress(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/addresses/${id}`);
+  public async deleteAddress(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/addresses/${id}`, options);
   }
 
-  public async verifyAddress(id: string): Promise<PropertyAddress> {
+  public async verifyAddress(id: string, options?: RequestOptions): Promise<PropertyAddress> {
     return this.http.post<Record<string, never>, PropertyAddress>(
       `${this.resource_path}/addresses/${id}/verify`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: PropertyAddressSchema }
     );
   }
 
   // =============== Property Methods ===============
 
-  public async create(data: CreateProperty): Promise<Property> {
+  public async create(data: CreateProperty, options?: RequestOptions): Promise<Property> {
     return this.http.post<CreateProperty, Property>(
       `${this.resource_path}/properties`,
       data,
-      CreatePropertySchema
+      CreatePropertySchema,
+      { ...options, responseSchema: PropertySchema }
     );
   }
 
-  public async get(id: string): Promise<Property> {
-    return this.http.get<Property>(`${this.resource_path}/properties/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<Property> {
+    return this.http.get<Property>(
+      `${this.resource_path}/properties/${id}`,
+      { ...options, responseSchema: PropertySchema }
+    );
   }
 
   public async list(
-    params?: Partial<PaginationRequest & { includeDeleted?: boolean }>
+    params?: ListParams<Property> & { includeDeleted?: boolean },
+    filters?: PropertyFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Property>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/properties${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-    if (params?.includeDeleted !== undefined) queryParams.append('includeDeleted', params.includeDeleted.toString());
+    return this.http.get<PaginatedResultType<Property>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(PropertySchema) }
+    );
+  }
 
-    const path = `${this.resource_path}/properties${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  public iterate(
+    params?: ListParams<Property> & { includeDeleted?: boolean },
+    filters?: PropertyFilters,
+    options?: PaginateOptions
+  ): PageIterator<Property> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<Property>>(path);
+  public async listAll(
+    params?: ListParams<Property> & { includeDeleted?: boolean },
+    filters?: PropertyFilters,
+    options?: PaginateOptions
+  ): Promise<Property[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   public async getByCategory(
     categoryId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<Property>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Property>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/properties/by-category/${categoryId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/properties/by-category/${categoryId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<Property>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(PropertySchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<Property>>(path);
+  public iterateByCategory(
+    categoryId: string,
+    params?: ListParams<Property>,
+    options?: PaginateOptions
+  ): PageIterator<Property> {
+    return paginate((params) => this.getByCategory(categoryId, params, options), params, options);
   }
 
-  public async getByAddress(addressId: string): Promise<Property> {
-    return this.http.get<Property>(`${this.resource_path}/properties/by-address/${addressId}`);
+  public async getByAddress(addressId: string, options?: RequestOptions): Promise<Property> {
+    return this.http.get<Property>(
+      `${this.resource_path}/properties/by-address/${addressId}`,
+      { ...options, responseSchema: PropertySchema }
+    );
   }
 
   public async search(
     query: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<Property>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Property>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('query', query);
+    const path = `${this.resource_path}/properties/search${buildQueryString(params, { query })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/properties/search?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<Property>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(PropertySchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<Property>>(path);
+  public iterateSearch(
+    query: string,
+    params?: ListParams<Property>,
+    options?: PaginateOptions
+  ): PageIterator<Property> {
+    return paginate((params) => this.search(query, params, options), params, options);
   }
 
-  public async update(data: UpdateProperty): Promise<Property> {
+  public async update(data: UpdateProperty, options?: RequestOptions): Promise<Property> {
     return this.http.patch<UpdateProperty, Property>(
       `${this.resource_path}/properties`,
       data,
-      UpdatePropertySchema
+      UpdatePropertySchema,
+      { ...options, responseSchema: PropertySchema }
     );
   }
 
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/properties/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/properties/${id}`, options);
   }
 
   /**
    * Creates multiple property categories in a single batch request.
    *
    * @param data - Array of property category data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created property categories
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -207,7 +314,8 @@ export class PropertyConfigResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createCategoryBatch(
-    data: CreatePropertyCategory[]
+    data: CreatePropertyCategory[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<PropertyCategory>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -228,7 +336,39 @@ export class PropertyConfigResource {
 
     return this.http.post<CreatePropertyCategory[], PaginatedResultType<PropertyCategory>>(
       `${this.resource_path}/categories/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(PropertyCategorySchema) }
+    );
+  }
+
+  /**
+   * Runs {@link PropertyConfigResource.createCategoryBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of property category data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.propertyConfig.createCategoryBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createCategoryBatchChunked(
+    data: CreatePropertyCategory[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreatePropertyCategory, PropertyCategory>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreatePropertyCategorySchema,
+        send: (chunk, chunkOptions) => this.createCategoryBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 
@@ -236,6 +376,7 @@ export class PropertyConfigResource {
    * Creates multiple property addresses in a single batch request.
    *
    * @param data - Array of property address data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created property addresses
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -243,7 +384,8 @@ export class PropertyConfigResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createAddressBatch(
-    data: CreatePropertyAddress[]
+    data: CreatePropertyAddress[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<PropertyAddress>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -264,7 +406,39 @@ export class PropertyConfigResource {
 
     return this.http.post<CreatePropertyAddress[], PaginatedResultType<PropertyAddress>>(
       `${this.resource_path}/addresses/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(PropertyAddressSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link PropertyConfigResource.createAddressBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of property address data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.propertyConfig.createAddressBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createAddressBatchChunked(
+    data: CreatePropertyAddress[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreatePropertyAddress, PropertyAddress>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreatePropertyAddressSchema,
+        send: (chunk, chunkOptions) => this.createAddressBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 
@@ -272,6 +446,7 @@ export class PropertyConfigResource {
    * Creates multiple properties in a single batch request.
    *
    * @param data - Array of property data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created properties
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -279,7 +454,8 @@ export class PropertyConfigResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateProperty[]
+    data: CreateProperty[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Property>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -300,7 +476,39 @@ export class PropertyConfigResource {
 
     return this.http.post<CreateProperty[], PaginatedResultType<Property>>(
       `${this.resource_path}/properties/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(PropertySchema) }
+    );
+  }
+
+  /**
+   * Runs {@link PropertyConfigResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of property data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.propertyConfig.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateProperty[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateProperty, Property>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreatePropertySchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
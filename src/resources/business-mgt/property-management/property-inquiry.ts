@@ -12,10 +12,30 @@ import {
   UpdatePropertyInquiryStatus,
   UpdatePropertyInquiryStatusSchema,
   PaginatedResultType,
-  PaginationRequest,
   ServiceSlotQueryResponse,
+  PropertyInquirySchema,
+  ServiceSlotQueryResponseSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
+
+/**
+ * Filters for listing property inquiries.
+ */
+export interface PropertyInquiryFilters {
+  /** Filter by inquiry status */
+  status?: PropertyInquiry['status'];
+  /** Filter by property ID */
+  propertyId?: string;
+  /** Filter by customer ID */
+  customerId?: string;
+  /** Filter by assigned agent ID */
+  assignedAgentId?: string;
+}
 
 /**
  * Resource class for managing property inquiries in the WIIL Platform.
@@ -28,11 +48,25 @@ export class PropertyInquiryResource {
     this.http = http;
   }
 
-  public async create(data: CreatePropertyInquiry): Promise<PropertyInquiry> {
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<PropertyInquiryResource> {
+    return withResponse(this.http, (http) => new PropertyInquiryResource(http));
+  }
+
+  public async create(
+    data: CreatePropertyInquiry,
+    options?: RequestOptions
+  ): Promise<PropertyInquiry> {
     return this.http.post<CreatePropertyInquiry, PropertyInquiry>(
       this.resource_path,
       data,
-      CreatePropertyInquirySchema
+      CreatePropertyInquirySchema,
+      { ...options, responseSchema: PropertyInquirySchema }
     );
   }
 
@@ -40,78 +74,123 @@ export class PropertyInquiryResource {
    * Get available viewing slots for a property on a specific date.
    * @param propertyId - The property ID to get viewing slots for
    * @param localDate - Business local date in YYYY-MM-DD format
+   * @param options - Optional request options such as an abort signal
    */
   public async getViewingSlots(
     propertyId: string,
-    localDate: string
+    localDate: string,
+    options?: RequestOptions
   ): Promise<ServiceSlotQueryResponse> {
     return this.http.get<ServiceSlotQueryResponse>(
-      `${this.resource_path}/viewing-slots/${propertyId}?localDate=${localDate}`
+      `${this.resource_path}/viewing-slots/${propertyId}?localDate=${localDate}`,
+      { ...options, responseSchema: ServiceSlotQueryResponseSchema }
     );
   }
 
-  public async get(id: string): Promise<PropertyInquiry> {
-    return this.http.get<PropertyInquiry>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<PropertyInquiry> {
+    return this.http.get<PropertyInquiry>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: PropertyInquirySchema }
+    );
   }
 
   public async getByProperty(
     propertyId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<PropertyInquiry>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<PropertyInquiry>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-property/${propertyId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-property/${propertyId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<PropertyInquiry>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(PropertyInquirySchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<PropertyInquiry>>(path);
+  public iterateByProperty(
+    propertyId: string,
+    params?: ListParams<PropertyInquiry>,
+    options?: PaginateOptions
+  ): PageIterator<PropertyInquiry> {
+    return paginate((params) => this.getByProperty(propertyId, params, options), params, options);
   }
 
   public async getByCustomer(
     customerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<PropertyInquiry>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<PropertyInquiry>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-customer/${customerId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-customer/${customerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<PropertyInquiry>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(PropertyInquirySchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<PropertyInquiry>>(path);
+  public iterateByCustomer(
+    customerId: string,
+    params?: ListParams<PropertyInquiry>,
+    options?: PaginateOptions
+  ): PageIterator<PropertyInquiry> {
+    return paginate((params) => this.getByCustomer(customerId, params, options), params, options);
   }
 
-  public async update(data: UpdatePropertyInquiry): Promise<PropertyInquiry> {
+  public async update(
+    data: UpdatePropertyInquiry,
+    options?: RequestOptions
+  ): Promise<PropertyInquiry> {
     return this.http.patch<UpdatePropertyInquiry, PropertyInquiry>(
       this.resource_path,
       data,
-      UpdatePropertyInquirySchema
+      UpdatePropertyInquirySchema,
+      { ...options, responseSchema: PropertyInquirySchema }
     );
   }
 
-  public async updateStatus(id: string, data: UpdatePropertyInquiryStatus): Promise<PropertyInquiry> {
+  public async updateStatus(
+    id: string,
+    data: UpdatePropertyInquiryStatus,
+    options?: RequestOptions
+  ): Promise<PropertyInquiry> {
     return this.http.patch<UpdatePropertyInquiryStatus, PropertyInquiry>(
       `${this.resource_path}/${id}/status`,
       data,
-      UpdatePropertyInquiryStatusSchema
+      UpdatePropertyInquiryStatusSchema,
+      { ...options, responseSchema: PropertyInquirySchema }
     );
   }
 
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<PropertyInquiry>,
+    filters?: PropertyInquiryFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<PropertyInquiry>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<PropertyInquiry>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(PropertyInquirySchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  public iterate(
+    params?: ListParams<PropertyInquiry>,
+    filters?: PropertyInquiryFilters,
+    options?: PaginateOptions
+  ): PageIterator<PropertyInquiry> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<PropertyInquiry>>(path);
+  public async listAll(
+    params?: ListParams<PropertyInquiry>,
+    filters?: PropertyInquiryFilters,
+    options?: PaginateOptions
+  ): Promise<PropertyInquiry[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
@@ -7,9 +7,26 @@ import {
   RentalAssignment,
   RentalAssignmentStatus,
   PaginatedResultType,
-  PaginationRequest,
+  RentalAssignmentSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../../client/response';
+import { RequestOptions } from '../../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../../client/query';
+import { paginatedResultSchema } from '../../../../client/validation';
+
+/**
+ * Filters for listing rental assignments.
+ */
+export interface RentalAssignmentFilters {
+  /** Filter by assignment status */
+  status?: RentalAssignmentStatus;
+  /** Filter by reservation ID */
+  reservationId?: string;
+  /** Filter by business location ID */
+  locationId?: string;
+}
 
 /**
  * Resource class for reading rental assignments in the WIIL Platform.
@@ -45,10 +62,21 @@ export class RentalAssignmentsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<RentalAssignmentsResource> {
+    return withResponse(this.http, (http) => new RentalAssignmentsResource(http));
+  }
+
   /**
    * Retrieves a rental assignment by ID.
    *
    * @param id - Rental assignment ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the rental assignment
    *
    * @throws {@link WiilAPIError} - When the assignment is not found or API returns an error
@@ -61,8 +89,11 @@ export class RentalAssignmentsResource {
    * console.log('Status:', assignment.status);
    * ```
    */
-  public async get(id: string): Promise<RentalAssignment> {
-    return this.http.get<RentalAssignment>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<RentalAssignment> {
+    return this.http.get<RentalAssignment>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: RentalAssignmentSchema }
+    );
   }
 
   /**
@@ -70,6 +101,7 @@ export class RentalAssignmentsResource {
    *
    * @param reservationId - Reservation ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of rental assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -83,16 +115,34 @@ export class RentalAssignmentsResource {
    */
   public async getByReservation(
     reservationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalAssignment>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-reservation/${reservationId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-reservation/${reservationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RentalAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RentalAssignment>>(path);
+  /**
+   * Iterates over every page of {@link RentalAssignmentsResource.getByReservation}, yielding each item.
+   *
+   * @param reservationId - Reservation ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByReservation(
+    reservationId: string,
+    params?: ListParams<RentalAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<RentalAssignment> {
+    return paginate((params) => this.getByReservation(reservationId, params, options), params, options);
   }
 
   /**
@@ -100,6 +150,7 @@ export class RentalAssignmentsResource {
    *
    * @param rentalInstanceId - Rental instance ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of rental assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -113,16 +164,34 @@ export class RentalAssignmentsResource {
    */
   public async getByRentalInstance(
     rentalInstanceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalAssignment>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-rental-instance/${rentalInstanceId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-rental-instance/${rentalInstanceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RentalAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RentalAssignment>>(path);
+  /**
+   * Iterates over every page of {@link RentalAssignmentsResource.getByRentalInstance}, yielding each item.
+   *
+   * @param rentalInstanceId - Rental instance ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByRentalInstance(
+    rentalInstanceId: string,
+    params?: ListParams<RentalAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<RentalAssignment> {
+    return paginate((params) => this.getByRentalInstance(rentalInstanceId, params, options), params, options);
   }
 
   /**
@@ -130,6 +199,7 @@ export class RentalAssignmentsResource {
    *
    * @param status - Assignment status
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of rental assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -143,23 +213,41 @@ export class RentalAssignmentsResource {
    */
   public async getByStatus(
     status: RentalAssignmentStatus,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalAssignment>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('status', status);
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-status${buildQueryString(params, { status })}`;
 
-    const path = `${this.resource_path}/by-status?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<RentalAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RentalAssignment>>(path);
+  /**
+   * Iterates over every page of {@link RentalAssignmentsResource.getByStatus}, yielding each item.
+   *
+   * @param status - Assignment status
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByStatus(
+    status: RentalAssignmentStatus,
+    params?: ListParams<RentalAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<RentalAssignment> {
+    return paginate((params) => this.getByStatus(status, params, options), params, options);
   }
 
   /**
    * Retrieves active rental assignments.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active rental assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -172,22 +260,39 @@ export class RentalAssignmentsResource {
    * ```
    */
   public async getActive(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalAssignment>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/active${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/active${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RentalAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RentalAssignment>>(path);
+  /**
+   * Iterates over every page of {@link RentalAssignmentsResource.getActive}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    params?: ListParams<RentalAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<RentalAssignment> {
+    return paginate((params) => this.getActive(params, options), params, options);
   }
 
   /**
    * Retrieves rental assignments with damage reported.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of rental assignments with damage
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -200,23 +305,40 @@ export class RentalAssignmentsResource {
    * ```
    */
   public async getWithDamage(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalAssignment>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('damageReported', 'true');
+    const path = `${this.resource_path}/with-damage${buildQueryString(params, { damageReported: true })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/with-damage?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<RentalAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RentalAssignment>>(path);
+  /**
+   * Iterates over every page of {@link RentalAssignmentsResource.getWithDamage}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateWithDamage(
+    params?: ListParams<RentalAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<RentalAssignment> {
+    return paginate((params) => this.getWithDamage(params, options), params, options);
   }
 
   /**
    * Lists rental assignments with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of rental assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -229,15 +351,68 @@ export class RentalAssignmentsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalAssignment>,
+    filters?: RentalAssignmentFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalAssignment>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<RentalAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalAssignmentSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link RentalAssignmentsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.rentalAssignments.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<RentalAssignment>,
+    filters?: RentalAssignmentFilters,
+    options?: PaginateOptions
+  ): PageIterator<RentalAssignment> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<RentalAssignment>>(path);
+  /**
+   * Retrieves every item of {@link RentalAssignmentsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link RentalAssignmentsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.rentalAssignments.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<RentalAssignment>,
+    filters?: RentalAssignmentFilters,
+    options?: PaginateOptions
+  ): Promise<RentalAssignment[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
@@ -7,9 +7,26 @@ import {
   RoomAssignment,
   RoomAssignmentStatus,
   PaginatedResultType,
-  PaginationRequest,
+  RoomAssignmentSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../../client/response';
+import { RequestOptions } from '../../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../../client/query';
+import { paginatedResultSchema } from '../../../../client/validation';
+
+/**
+ * Filters for listing room assignments.
+ */
+export interface RoomAssignmentFilters {
+  /** Filter by assignment status */
+  status?: RoomAssignmentStatus;
+  /** Filter by reservation ID */
+  reservationId?: string;
+  /** Filter by business location ID */
+  locationId?: string;
+}
 
 /**
  * Resource class for reading room assignments in the WIIL Platform.
@@ -45,10 +62,21 @@ export class RoomAssignmentsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<RoomAssignmentsResource> {
+    return withResponse(this.http, (http) => new RoomAssignmentsResource(http));
+  }
+
   /**
    * Retrieves a room assignment by ID.
    *
    * @param id - Room assignment ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the room assignment
    *
    * @throws {@link WiilAPIError} - When the assignment is not found or API returns an error
@@ -61,8 +89,11 @@ export class RoomAssignmentsResource {
    * console.log('Status:', assignment.status);
    * ```
    */
-  public async get(id: string): Promise<RoomAssignment> {
-    return this.http.get<RoomAssignment>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<RoomAssignment> {
+    return this.http.get<RoomAssignment>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: RoomAssignmentSchema }
+    );
   }
 
   /**
@@ -70,6 +101,7 @@ export class RoomAssignmentsResource {
    *
    * @param reservationId - Reservation ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of room assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -83,16 +115,34 @@ export class RoomAssignmentsResource {
    */
   public async getByReservation(
     reservationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RoomAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RoomAssignment>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-reservation/${reservationId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-reservation/${reservationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RoomAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RoomAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RoomAssignment>>(path);
+  /**
+   * Iterates over every page of {@link RoomAssignmentsResource.getByReservation}, yielding each item.
+   *
+   * @param reservationId - Reservation ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByReservation(
+    reservationId: string,
+    params?: ListParams<RoomAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<RoomAssignment> {
+    return paginate((params) => this.getByReservation(reservationId, params, options), params, options);
   }
 
   /**
@@ -100,6 +150,7 @@ export class RoomAssignmentsResource {
    *
    * @param roomInstanceId - Room instance ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of room assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -113,16 +164,34 @@ export class RoomAssignmentsResource {
    */
   public async getByRoomInstance(
     roomInstanceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RoomAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RoomAssignment>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-room-instance/${roomInstanceId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-room-instance/${roomInstanceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RoomAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RoomAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RoomAssignment>>(path);
+  /**
+   * Iterates over every page of {@link RoomAssignmentsResource.getByRoomInstance}, yielding each item.
+   *
+   * @param roomInstanceId - Room instance ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByRoomInstance(
+    roomInstanceId: string,
+    params?: ListParams<RoomAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<RoomAssignment> {
+    return paginate((params) => this.getByRoomInstance(roomInstanceId, params, options), params, options);
   }
 
   /**
@@ -130,6 +199,7 @@ export class RoomAssignmentsResource {
    *
    * @param status - Assignment status
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of room assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -143,23 +213,41 @@ export class RoomAssignmentsResource {
    */
   public async getByStatus(
     status: RoomAssignmentStatus,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RoomAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RoomAssignment>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('status', status);
+    const path = `${this.resource_path}/by-status${buildQueryString(params, { status })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-status?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<RoomAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RoomAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RoomAssignment>>(path);
+  /**
+   * Iterates over every page of {@link RoomAssignmentsResource.getByStatus}, yielding each item.
+   *
+   * @param status - Assignment status
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByStatus(
+    status: RoomAssignmentStatus,
+    params?: ListParams<RoomAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<RoomAssignment> {
+    return paginate((params) => this.getByStatus(status, params, options), params, options);
   }
 
   /**
    * Retrieves active room assignments.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active room assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -172,22 +260,40 @@ export class RoomAssignmentsResource {
    * ```
    */
   public async getActive(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RoomAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RoomAssignment>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/active${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/active${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RoomAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RoomAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RoomAssignment>>(path);
+  /**
+   * Iterates over every page of {@link RoomAssignmentsResource.getActive}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    params?: ListParams<RoomAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<RoomAssignment> {
+    return paginate((params) => this.getActive(params, options), params, options);
   }
 
   /**
    * Lists room assignments with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of room assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -200,15 +306,68 @@ export class RoomAssignmentsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RoomAssignment>,
+    filters?: RoomAssignmentFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RoomAssignment>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<RoomAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RoomAssignmentSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link RoomAssignmentsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.roomAssignments.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<RoomAssignment>,
+    filters?: RoomAssignmentFilters,
+    options?: PaginateOptions
+  ): PageIterator<RoomAssignment> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<RoomAssignment>>(path);
+  /**
+   * Retrieves every item of {@link RoomAssignmentsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link RoomAssignmentsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.roomAssignments.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<RoomAssignment>,
+    filters?: RoomAssignmentFilters,
+    options?: PaginateOptions
+  ): Promise<RoomAssignment[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
@@ -7,9 +7,28 @@ import {
   TableAssignment,
   TableAssignmentStatus,
   PaginatedResultType,
-  PaginationRequest,
+  TableAssignmentSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../../client/response';
+import { RequestOptions } from '../../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../../client/query';
+import { paginatedResultSchema } from '../../../../client/validation';
+
+/**
+ * Filters for listing table assignments.
+ */
+export interface TableAssignmentFilters {
+  /** Filter by assignment status */
+  status?: TableAssignmentStatus;
+  /** Filter by reservation ID */
+  reservationId?: string;
+  /** Filter by business location ID */
+  locationId?: string;
+  /** Filter by floor plan ID */
+  floorPlanId?: string;
+}
 
 /**
  * Resource class for reading table assignments in the WIIL Platform.
@@ -45,10 +64,21 @@ export class TableAssignmentsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<TableAssignmentsResource> {
+    return withResponse(this.http, (http) => new TableAssignmentsResource(http));
+  }
+
   /**
    * Retrieves a table assignment by ID.
    *
    * @param id - Table assignment ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the table assignment
    *
    * @throws {@link WiilAPIError} - When the assignment is not found or API returns an error
@@ -61,8 +91,11 @@ export class TableAssignmentsResource {
    * console.log('Status:', assignment.status);
    * ```
    */
-  public async get(id: string): Promise<TableAssignment> {
-    return this.http.get<TableAssignment>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<TableAssignment> {
+    return this.http.get<TableAssignment>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: TableAssignmentSchema }
+    );
   }
 
   /**
@@ -70,6 +103,7 @@ export class TableAssignmentsResource {
    *
    * @param reservationId - Reservation ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of table assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -83,16 +117,34 @@ export class TableAssignmentsResource {
    */
   public async getByReservation(
     reservationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TableAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TableAssignment>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-reservation/${reservationId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-reservation/${reservationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<TableAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TableAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TableAssignment>>(path);
+  /**
+   * Iterates over every page of {@link TableAssignmentsResource.getByReservation}, yielding each item.
+   *
+   * @param reservationId - Reservation ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByReservation(
+    reservationId: string,
+    params?: ListParams<TableAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<TableAssignment> {
+    return paginate((params) => this.getByReservation(reservationId, params, options), params, options);
   }
 
   /**
@@ -100,6 +152,7 @@ export class TableAssignmentsResource {
    *
    * @param tableInstanceId - Table instance ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of table assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -113,16 +166,34 @@ export class TableAssignmentsResource {
    */
   public async getByTableInstance(
     tableInstanceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TableAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TableAssignment>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-table-instance/${tableInstanceId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-table-instance/${tableInstanceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<TableAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TableAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TableAssignment>>(path);
+  /**
+   * Iterates over every page of {@link TableAssignmentsResource.getByTableInstance}, yielding each item.
+   *
+   * @param tableInstanceId - Table instance ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByTableInstance(
+    tableInstanceId: string,
+    params?: ListParams<TableAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<TableAssignment> {
+    return paginate((params) => this.getByTableInstance(tableInstanceId, params, options), params, options);
   }
 
   /**
@@ -130,6 +201,7 @@ export class TableAssignmentsResource {
    *
    * @param status - Assignment status
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of table assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -143,23 +215,41 @@ export class TableAssignmentsResource {
    */
   public async getByStatus(
     status: TableAssignmentStatus,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TableAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TableAssignment>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('status', status);
+    const path = `${this.resource_path}/by-status${buildQueryString(params, { status })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-status?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<TableAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TableAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TableAssignment>>(path);
+  /**
+   * Iterates over every page of {@link TableAssignmentsResource.getByStatus}, yielding each item.
+   *
+   * @param status - Assignment status
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByStatus(
+    status: TableAssignmentStatus,
+    params?: ListParams<TableAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<TableAssignment> {
+    return paginate((params) => this.getByStatus(status, params, options), params, options);
   }
 
   /**
    * Retrieves active table assignments.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active table assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -172,22 +262,40 @@ export class TableAssignmentsResource {
    * ```
    */
   public async getActive(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TableAssignment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TableAssignment>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/active${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/active${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<TableAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TableAssignmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TableAssignment>>(path);
+  /**
+   * Iterates over every page of {@link TableAssignmentsResource.getActive}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    params?: ListParams<TableAssignment>,
+    options?: PaginateOptions
+  ): PageIterator<TableAssignment> {
+    return paginate((params) => this.getActive(params, options), params, options);
   }
 
   /**
    * Lists table assignments with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of table assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -200,15 +308,68 @@ export class TableAssignmentsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TableAssignment>,
+    filters?: TableAssignmentFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TableAssignment>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<TableAssignment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TableAssignmentSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link TableAssignmentsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.tableAssignments.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<TableAssignment>,
+    filters?: TableAssignmentFilters,
+    options?: PaginateOptions
+  ): PageIterator<TableAssignment> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<TableAssignment>>(path);
+  /**
+   * Retrieves every item of {@link TableAssignmentsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link TableAssignmentsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.tableAssignments.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<TableAssignment>,
+    filters?: TableAssignmentFilters,
+    options?: PaginateOptions
+  ): Promise<TableAssignment[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
@@ -15,9 +15,27 @@ import {
   UpdateTablePlacement,
   UpdateTablePlacementSchema,
   PaginatedResultType,
-  PaginationRequest,
+  SectionSchema,
+  TablePlacementSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
+
+/**
+ * Filters for listing floor plan sections.
+ */
+export interface FloorPlanSectionFilters {
+  /** Filter by floor plan ID */
+  floorPlanId?: string;
+  /** Filter by business location ID */
+  locationId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
 
 /**
  * Resource class for managing floor plan sections in the WIIL Platform.
@@ -58,10 +76,21 @@ export class FloorPlanSectionsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<FloorPlanSectionsResource> {
+    return withResponse(this.http, (http) => new FloorPlanSectionsResource(http));
+  }
+
   /**
    * Creates a new floor plan section.
    *
    * @param data - Section data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created section
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -80,11 +109,12 @@ export class FloorPlanSectionsResource {
    * });
    * ```
    */
-  public async create(data: CreateSection): Promise<Section> {
+  public async create(data: CreateSection, options?: RequestOptions): Promise<Section> {
     return this.http.post<CreateSection, Section>(
       this.resource_path,
       data,
-      CreateSectionSchema
+      CreateSectionSchema,
+      { ...options, responseSchema: SectionSchema }
     );
   }
 
@@ -92,6 +122,7 @@ export class FloorPlanSectionsResource {
    * Retrieves a section by ID.
    *
    * @param id - Section ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the section with table placements
    *
    * @throws {@link WiilAPIError} - When the section is not found or API returns an error
@@ -104,8 +135,11 @@ export class FloorPlanSectionsResource {
    * console.log('Tables:', section.tables.length);
    * ```
    */
-  public async get(id: string): Promise<Section> {
-    return this.http.get<Section>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<Section> {
+    return this.http.get<Section>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: SectionSchema }
+    );
   }
 
   /**
@@ -113,6 +147,7 @@ export class FloorPlanSectionsResource {
    *
    * @param floorPlanId - Floor plan ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of sections
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -126,16 +161,34 @@ export class FloorPlanSectionsResource {
    */
   public async getByFloorPlan(
     floorPlanId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<Section>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Section>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-floor-plan/${floorPlanId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-floor-plan/${floorPlanId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<Section>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(SectionSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<Section>>(path);
+  /**
+   * Iterates over every page of {@link FloorPlanSectionsResource.getByFloorPlan}, yielding each item.
+   *
+   * @param floorPlanId - Floor plan ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByFloorPlan(
+    floorPlanId: string,
+    params?: ListParams<Section>,
+    options?: PaginateOptions
+  ): PageIterator<Section> {
+    return paginate((params) => this.getByFloorPlan(floorPlanId, params, options), params, options);
   }
 
   /**
@@ -143,6 +196,7 @@ export class FloorPlanSectionsResource {
    *
    * @param locationId - Location ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of sections
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -156,22 +210,41 @@ export class FloorPlanSectionsResource {
    */
   public async getByLocation(
     locationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<Section>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Section>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-location/${locationId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-location/${locationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<Section>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(SectionSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<Section>>(path);
+  /**
+   * Iterates over every page of {@link FloorPlanSectionsResource.getByLocation}, yielding each item.
+   *
+   * @param locationId - Location ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByLocation(
+    locationId: string,
+    params?: ListParams<Section>,
+    options?: PaginateOptions
+  ): PageIterator<Section> {
+    return paginate((params) => this.getByLocation(locationId, params, options), params, options);
   }
 
   /**
    * Updates an existing section.
    *
    * @param data - Section update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated section
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -187,11 +260,12 @@ export class FloorPlanSectionsResource {
    * });
    * ```
    */
-  public async update(data: UpdateSection): Promise<Section> {
+  public async update(data: UpdateSection, options?: RequestOptions): Promise<Section> {
     return this.http.patch<UpdateSection, Section>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateSectionSchema
+      UpdateSectionSchema,
+      { ...options, responseSchema: SectionSchema }
     );
   }
 
@@ -199,6 +273,7 @@ export class FloorPlanSectionsResource {
    * Deletes a section.
    *
    * @param id - Section ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the section is not found or API returns an error
@@ -212,14 +287,16 @@ export class FloorPlanSectionsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists sections with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of sections
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -232,16 +309,69 @@ export class FloorPlanSectionsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<Section>,
+    filters?: FloorPlanSectionFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Section>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<Section>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(SectionSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link FloorPlanSectionsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.floorPlanSections.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<Section>,
+    filters?: FloorPlanSectionFilters,
+    options?: PaginateOptions
+  ): PageIterator<Section> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<Section>>(path);
+  /**
+   * Retrieves every item of {@link FloorPlanSectionsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link FloorPlanSectionsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.floorPlanSections.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<Section>,
+    filters?: FloorPlanSectionFilters,
+    options?: PaginateOptions
+  ): Promise<Section[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   // ============================================================
@@ -253,6 +383,7 @@ export class FloorPlanSectionsResource {
    *
    * @param sectionId - Section ID
    * @param data - Table placement data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the created table placement
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -277,12 +408,14 @@ export class FloorPlanSectionsResource {
    */
   public async addTablePlacement(
     sectionId: string,
-    data: CreateTablePlacement
+    data: CreateTablePlacement,
+    options?: RequestOptions
   ): Promise<TablePlacement> {
     return this.http.post<CreateTablePlacement, TablePlacement>(
       `${this.resource_path}/${sectionId}/tables`,
       data,
-      CreateTablePlacementSchema
+      CreateTablePlacementSchema,
+      { ...options, responseSchema: TablePlacementSchema }
     );
   }
 
@@ -291,6 +424,7 @@ export class FloorPlanSectionsResource {
    *
    * @param sectionId - Section ID
    * @param placementId - Table placement ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the table placement
    *
    * @throws {@link WiilAPIError} - When the placement is not found or API returns an error
@@ -304,10 +438,12 @@ export class FloorPlanSectionsResource {
    */
   public async getTablePlacement(
     sectionId: string,
-    placementId: string
+    placementId: string,
+    options?: RequestOptions
   ): Promise<TablePlacement> {
     return this.http.get<TablePlacement>(
-      `${this.resource_path}/${sectionId}/tables/${placementId}`
+      `${this.resource_path}/${sectionId}/tables/${placementId}`,
+      { ...options, responseSchema: TablePlacementSchema }
     );
   }
 
@@ -316,6 +452,7 @@ export class FloorPlanSectionsResource {
    *
    * @param sectionId - Section ID
    * @param data - Table placement update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated table placement
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -334,12 +471,14 @@ export class FloorPlanSectionsResource {
    */
   public async updateTablePlacement(
     sectionId: string,
-    data: UpdateTablePlacement
+    data: UpdateTablePlacement,
+    options?: RequestOptions
   ): Promise<TablePlacement> {
     return this.http.patch<UpdateTablePlacement, TablePlacement>(
       `${this.resource_path}/${sectionId}/tables`,
       data,
-      UpdateTablePlacementSchema
+      UpdateTablePlacementSchema,
+      { ...options, responseSchema: TablePlacementSchema }
     );
   }
 
@@ -348,6 +487,7 @@ export class FloorPlanSectionsResource {
    *
    * @param sectionId - Section ID
    * @param placementId - Table placement ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the placement is not found or API returns an error
@@ -363,10 +503,12 @@ export class FloorPlanSectionsResource {
    */
   public async removeTablePlacement(
     sectionId: string,
-    placementId: string
+    placementId: string,
+    options?: RequestOptions
   ): Promise<boolean> {
     return this.http.delete<boolean>(
-      `${this.resource_path}/${sectionId}/tables/${placementId}`
+      `${this.resource_path}/${sectionId}/tables/${placementId}`,
+      options
     );
   }
 }
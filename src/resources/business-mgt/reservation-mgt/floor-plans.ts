@@ -13,9 +13,25 @@ import {
   CreateFloorPlanDefinitionSchema,
   FloorPlanDefinition,
   PaginatedResultType,
-  PaginationRequest,
+  FloorPlanDefinitionSchema,
+  FloorPlanSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
+
+/**
+ * Filters for listing floor plans.
+ */
+export interface FloorPlanFilters {
+  /** Filter by business location ID */
+  locationId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
 
 /**
  * Resource class for managing floor plans in the WIIL Platform.
@@ -56,10 +72,21 @@ export class FloorPlansResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<FloorPlansResource> {
+    return withResponse(this.http, (http) => new FloorPlansResource(http));
+  }
+
   /**
    * Creates a new floor plan.
    *
    * @param data - Floor plan data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created floor plan
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -78,11 +105,12 @@ export class FloorPlansResource {
    * });
    * ```
    */
-  public async create(data: CreateFloorPlan): Promise<FloorPlan> {
+  public async create(data: CreateFloorPlan, options?: RequestOptions): Promise<FloorPlan> {
     return this.http.post<CreateFloorPlan, FloorPlan>(
       this.resource_path,
       data,
-      CreateFloorPlanSchema
+      CreateFloorPlanSchema,
+      { ...options, responseSchema: FloorPlanSchema }
     );
   }
 
@@ -91,6 +119,7 @@ export class FloorPlansResource {
    * in a single request.
    *
    * @param data - Floor plan definition data including nested sections and tables
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the fully hydrated floor plan definition
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -118,11 +147,12 @@ export class FloorPlansResource {
    * });
    * ```
    */
-  public async createDefinition(data: CreateFloorPlanDefinition): Promise<FloorPlanDefinition> {
+  public async createDefinition(data: CreateFloorPlanDefinition, options?: RequestOptions): Promise<FloorPlanDefinition> {
     return this.http.post<CreateFloorPlanDefinition, FloorPlanDefinition>(
       this.definition_path,
       data,
-      CreateFloorPlanDefinitionSchema
+      CreateFloorPlanDefinitionSchema,
+      { ...options, responseSchema: FloorPlanDefinitionSchema }
     );
   }
 
@@ -130,6 +160,7 @@ export class FloorPlansResource {
    * Retrieves a fully hydrated floor plan definition by ID.
    *
    * @param id - Floor plan ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the floor plan definition with nested sections and tables
    *
    * @throws {@link WiilAPIError} - When the floor plan is not found or API returns an error
@@ -141,14 +172,18 @@ export class FloorPlansResource {
    * console.log('Sections:', definition.sections.length);
    * ```
    */
-  public async getDefinition(id: string): Promise<FloorPlanDefinition> {
-    return this.http.get<FloorPlanDefinition>(`${this.definition_path}/${id}`);
+  public async getDefinition(id: string, options?: RequestOptions): Promise<FloorPlanDefinition> {
+    return this.http.get<FloorPlanDefinition>(
+      `${this.definition_path}/${id}`,
+      { ...options, responseSchema: FloorPlanDefinitionSchema }
+    );
   }
 
   /**
    * Lists all floor plan definitions with optional pagination.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of floor plan definitions
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -161,22 +196,39 @@ export class FloorPlansResource {
    * ```
    */
   public async listDefinitions(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<FloorPlanDefinition>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<FloorPlanDefinition>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.definition_path}${buildQueryString(params)}`;
 
-    const path = `${this.definition_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<FloorPlanDefinition>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(FloorPlanDefinitionSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<FloorPlanDefinition>>(path);
+  /**
+   * Iterates over every page of {@link FloorPlansResource.listDefinitions}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateDefinitions(
+    params?: ListParams<FloorPlanDefinition>,
+    options?: PaginateOptions
+  ): PageIterator<FloorPlanDefinition> {
+    return paginate((params) => this.listDefinitions(params, options), params, options);
   }
 
   /**
    * Retrieves a floor plan by ID.
    *
    * @param id - Floor plan ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the floor plan
    *
    * @throws {@link WiilAPIError} - When the floor plan is not found or API returns an error
@@ -189,8 +241,11 @@ export class FloorPlansResource {
    * console.log('Capacity:', floorPlan.capacity);
    * ```
    */
-  public async get(id: string): Promise<FloorPlan> {
-    return this.http.get<FloorPlan>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<FloorPlan> {
+    return this.http.get<FloorPlan>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: FloorPlanSchema }
+    );
   }
 
   /**
@@ -198,6 +253,7 @@ export class FloorPlansResource {
    *
    * @param locationId - Location ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of floor plans
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -211,22 +267,41 @@ export class FloorPlansResource {
    */
   public async getByLocation(
     locationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<FloorPlan>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<FloorPlan>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-location/${locationId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-location/${locationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<FloorPlan>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(FloorPlanSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<FloorPlan>>(path);
+  /**
+   * Iterates over every page of {@link FloorPlansResource.getByLocation}, yielding each item.
+   *
+   * @param locationId - Location ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByLocation(
+    locationId: string,
+    params?: ListParams<FloorPlan>,
+    options?: PaginateOptions
+  ): PageIterator<FloorPlan> {
+    return paginate((params) => this.getByLocation(locationId, params, options), params, options);
   }
 
   /**
    * Retrieves active floor plans.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active floor plans
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -239,23 +314,39 @@ export class FloorPlansResource {
    * ```
    */
   public async getActive(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<FloorPlan>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<FloorPlan>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('isActive', 'true');
+    const path = `${this.resource_path}/active${buildQueryString(params, { isActive: true })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/active?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<FloorPlan>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(FloorPlanSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<FloorPlan>>(path);
+  /**
+   * Iterates over every page of {@link FloorPlansResource.getActive}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    params?: ListParams<FloorPlan>,
+    options?: PaginateOptions
+  ): PageIterator<FloorPlan> {
+    return paginate((params) => this.getActive(params, options), params, options);
   }
 
   /**
    * Updates an existing floor plan.
    *
    * @param data - Floor plan update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated floor plan
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -271,11 +362,12 @@ export class FloorPlansResource {
    * });
    * ```
    */
-  public async update(data: UpdateFloorPlan): Promise<FloorPlan> {
+  public async update(data: UpdateFloorPlan, options?: RequestOptions): Promise<FloorPlan> {
     return this.http.patch<UpdateFloorPlan, FloorPlan>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateFloorPlanSchema
+      UpdateFloorPlanSchema,
+      { ...options, responseSchema: FloorPlanSchema }
     );
   }
 
@@ -283,6 +375,7 @@ export class FloorPlansResource {
    * Deletes a floor plan.
    *
    * @param id - Floor plan ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the floor plan is not found or API returns an error
@@ -296,14 +389,16 @@ export class FloorPlansResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists floor plans with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of floor plans
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -316,15 +411,68 @@ export class FloorPlansResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<FloorPlan>,
+    filters?: FloorPlanFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<FloorPlan>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<FloorPlan>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(FloorPlanSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link FloorPlansResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.floorPlans.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<FloorPlan>,
+    filters?: FloorPlanFilters,
+    options?: PaginateOptions
+  ): PageIterator<FloorPlan> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<FloorPlan>>(path);
+  /**
+   * Retrieves every item of {@link FloorPlansResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link FloorPlansResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.floorPlans.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<FloorPlan>,
+    filters?: FloorPlanFilters,
+    options?: PaginateOptions
+  ): Promise<FloorPlan[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
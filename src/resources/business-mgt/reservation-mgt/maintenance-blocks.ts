@@ -10,13 +10,29 @@ import {
   UpdateMaintenanceBlock,
   UpdateMaintenanceBlockSchema,
   PaginatedResultType,
-  PaginationRequest,
+  MaintenanceBlockSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing maintenance blocks.
+ */
+export interface MaintenanceBlockFilters extends DateRangeFilters {
+  /** Filter by resource instance ID */
+  resourceInstanceId?: string;
+  /** Filter by business location ID */
+  locationId?: string;
+}
+
 /**
  * Resource class for managing maintenance blocks in the WIIL Platform.
  *
@@ -54,10 +70,21 @@ export class MaintenanceBlocksResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<MaintenanceBlocksResource> {
+    return withResponse(this.http, (http) => new MaintenanceBlocksResource(http));
+  }
+
   /**
    * Creates a new maintenance block.
    *
    * @param data - Maintenance block data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created maintenance block
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -75,11 +102,12 @@ export class MaintenanceBlocksResource {
    * });
    * ```
    */
-  public async create(data: CreateMaintenanceBlock): Promise<MaintenanceBlock> {
+  public async create(data: CreateMaintenanceBlock, options?: RequestOptions): Promise<MaintenanceBlock> {
     return this.http.post<CreateMaintenanceBlock, MaintenanceBlock>(
       this.resource_path,
       data,
-      CreateMaintenanceBlockSchema
+      CreateMaintenanceBlockSchema,
+      { ...options, responseSchema: MaintenanceBlockSchema }
     );
   }
 
@@ -87,6 +115,7 @@ export class MaintenanceBlocksResource {
    * Retrieves a maintenance block by ID.
    *
    * @param id - Maintenance block ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the maintenance block
    *
    * @throws {@link WiilAPIError} - When the block is not found or API returns an error
@@ -98,8 +127,11 @@ export class MaintenanceBlocksResource {
    * console.log('Reason:', block.reason);
    * ```
    */
-  public async get(id: string): Promise<MaintenanceBlock> {
-    return this.http.get<MaintenanceBlock>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<MaintenanceBlock> {
+    return this.http.get<MaintenanceBlock>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: MaintenanceBlockSchema }
+    );
   }
 
   /**
@@ -107,6 +139,7 @@ export class MaintenanceBlocksResource {
    *
    * @param resourceInstanceId - Resource instance ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of maintenance blocks
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -120,16 +153,34 @@ export class MaintenanceBlocksResource {
    */
   public async getByResourceInstance(
     resourceInstanceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MaintenanceBlock>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MaintenanceBlock>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-resource/${resourceInstanceId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-resource/${resourceInstanceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MaintenanceBlock>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MaintenanceBlockSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MaintenanceBlock>>(path);
+  /**
+   * Iterates over every page of {@link MaintenanceBlocksResource.getByResourceInstance}, yielding each item.
+   *
+   * @param resourceInstanceId - Resource instance ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByResourceInstance(
+    resourceInstanceId: string,
+    params?: ListParams<MaintenanceBlock>,
+    options?: PaginateOptions
+  ): PageIterator<MaintenanceBlock> {
+    return paginate((params) => this.getByResourceInstance(resourceInstanceId, params, options), params, options);
   }
 
   /**
@@ -137,6 +188,7 @@ export class MaintenanceBlocksResource {
    *
    * @param locationId - Location ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of maintenance blocks
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -150,16 +202,34 @@ export class MaintenanceBlocksResource {
    */
   public async getByLocation(
     locationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MaintenanceBlock>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MaintenanceBlock>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-location/${locationId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-location/${locationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<MaintenanceBlock>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MaintenanceBlockSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MaintenanceBlock>>(path);
+  /**
+   * Iterates over every page of {@link MaintenanceBlocksResource.getByLocation}, yielding each item.
+   *
+   * @param locationId - Location ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByLocation(
+    locationId: string,
+    params?: ListParams<MaintenanceBlock>,
+    options?: PaginateOptions
+  ): PageIterator<MaintenanceBlock> {
+    return paginate((params) => this.getByLocation(locationId, params, options), params, options);
   }
 
   /**
@@ -168,6 +238,7 @@ export class MaintenanceBlocksResource {
    * @param startDate - Range start timestamp
    * @param endDate - Range end timestamp
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of maintenance blocks
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -183,24 +254,43 @@ export class MaintenanceBlocksResource {
   public async getByDateRange(
     startDate: number,
     endDate: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MaintenanceBlock>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MaintenanceBlock>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('startDate', startDate.toString());
-    queryParams.append('endDate', endDate.toString());
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-date-range${buildQueryString(params, { startDate, endDate })}`;
 
-    const path = `${this.resource_path}/by-date-range?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<MaintenanceBlock>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MaintenanceBlockSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<MaintenanceBlock>>(path);
+  /**
+   * Iterates over every page of {@link MaintenanceBlocksResource.getByDateRange}, yielding each item.
+   *
+   * @param startDate - Range start timestamp
+   * @param endDate - Range end timestamp
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByDateRange(
+    startDate: number,
+    endDate: number,
+    params?: ListParams<MaintenanceBlock>,
+    options?: PaginateOptions
+  ): PageIterator<MaintenanceBlock> {
+    return paginate((params) => this.getByDateRange(startDate, endDate, params, options), params, options);
   }
 
   /**
    * Updates an existing maintenance block.
    *
    * @param data - Maintenance block update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated maintenance block
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -216,11 +306,15 @@ export class MaintenanceBlocksResource {
    * });
    * ```
    */
-  public async update(data: UpdateMaintenanceBlock): Promise<MaintenanceBlock> {
+  public async update(
+    data: UpdateMaintenanceBlock,
+    options?: RequestOptions
+  ): Promise<MaintenanceBlock> {
     return this.http.patch<UpdateMaintenanceBlock, MaintenanceBlock>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateMaintenanceBlockSchema
+      UpdateMaintenanceBlockSchema,
+      { ...options, responseSchema: MaintenanceBlockSchema }
     );
   }
 
@@ -228,6 +322,7 @@ export class MaintenanceBlocksResource {
    * Deletes a maintenance block.
    *
    * @param id - Maintenance block ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the block is not found or API returns an error
@@ -241,14 +336,16 @@ export class MaintenanceBlocksResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists maintenance blocks with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of maintenance blocks
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -261,22 +358,76 @@ export class MaintenanceBlocksResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<MaintenanceBlock>,
+    filters?: MaintenanceBlockFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MaintenanceBlock>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<MaintenanceBlock>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(MaintenanceBlockSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link MaintenanceBlocksResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.maintenanceBlocks.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<MaintenanceBlock>,
+    filters?: MaintenanceBlockFilters,
+    options?: PaginateOptions
+  ): PageIterator<MaintenanceBlock> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<MaintenanceBlock>>(path);
+  /**
+   * Retrieves every item of {@link MaintenanceBlocksResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link MaintenanceBlocksResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.maintenanceBlocks.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<MaintenanceBlock>,
+    filters?: MaintenanceBlockFilters,
+    options?: PaginateOptions
+  ): Promise<MaintenanceBlock[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple maintenance blocks in a single batch request.
    *
    * @param data - Array of maintenance block data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created maintenance blocks
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -293,7 +444,8 @@ export class MaintenanceBlocksResource {
    * ```
    */
   public async createBatch(
-    data: CreateMaintenanceBlock[]
+    data: CreateMaintenanceBlock[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<MaintenanceBlock>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -314,7 +466,39 @@ export class MaintenanceBlocksResource {
 
     return this.http.post<CreateMaintenanceBlock[], PaginatedResultType<MaintenanceBlock>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(MaintenanceBlockSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link MaintenanceBlocksResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of maintenance block data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.maintenanceBlocks.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateMaintenanceBlock[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateMaintenanceBlock, MaintenanceBlock>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateMaintenanceBlockSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
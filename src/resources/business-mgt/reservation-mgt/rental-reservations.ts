@@ -10,15 +10,36 @@ import {
   UpdateRentalReservation,
   UpdateRentalReservationSchema,
   PaginatedResultType,
-  PaginationRequest,
   RentalReservationSlotQueryRequest,
   RentalReservationSlotQueryResponse,
+  RentalReservationSchema,
+  RentalReservationSlotQueryResponseSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing rental reservations.
+ */
+export interface RentalReservationFilters extends DateRangeFilters {
+  /** Filter by reservation status */
+  status?: RentalReservation['status'];
+  /** Filter by customer ID */
+  customerId?: string;
+  /** Filter by rental resource ID */
+  resourceId?: string;
+  /** Filter by business location ID */
+  locationId?: string;
+}
+
 /**
  * Resource class for managing rental reservations in the WIIL Platform.
  *
@@ -44,21 +65,33 @@ export class RentalReservationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<RentalReservationsResource> {
+    return withResponse(this.http, (http) => new RentalReservationsResource(http));
+  }
+
   /**
    * Creates a new rental reservation.
    *
    * @param data - Rental reservation data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created reservation
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateRentalReservation): Promise<RentalReservation> {
+  public async create(data: CreateRentalReservation, options?: RequestOptions): Promise<RentalReservation> {
     return this.http.post<CreateRentalReservation, RentalReservation>(
       this.resource_path,
       data,
-      CreateRentalReservationSchema
+      CreateRentalReservationSchema,
+      { ...options, responseSchema: RentalReservationSchema }
     );
   }
 
@@ -66,13 +99,17 @@ export class RentalReservationsResource {
    * Retrieves a rental reservation by ID.
    *
    * @param id - Rental reservation ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the reservation
    *
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<RentalReservation> {
-    return this.http.get<RentalReservation>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<RentalReservation> {
+    return this.http.get<RentalReservation>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: RentalReservationSchema }
+    );
   }
 
   /**
@@ -80,6 +117,7 @@ export class RentalReservationsResource {
    *
    * @param customerId - Customer ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -87,16 +125,34 @@ export class RentalReservationsResource {
    */
   public async getByCustomer(
     customerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalReservation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalReservation>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-customer/${customerId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-customer/${customerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RentalReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalReservationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RentalReservation>>(path);
+  /**
+   * Iterates over every page of {@link RentalReservationsResource.getByCustomer}, yielding each item.
+   *
+   * @param customerId - Customer ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByCustomer(
+    customerId: string,
+    params?: ListParams<RentalReservation>,
+    options?: PaginateOptions
+  ): PageIterator<RentalReservation> {
+    return paginate((params) => this.getByCustomer(customerId, params, options), params, options);
   }
 
   /**
@@ -104,6 +160,7 @@ export class RentalReservationsResource {
    *
    * @param resourceId - Rental resource ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -111,16 +168,34 @@ export class RentalReservationsResource {
    */
   public async getByResource(
     resourceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalReservation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalReservation>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-resource/${resourceId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-resource/${resourceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RentalReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalReservationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RentalReservation>>(path);
+  /**
+   * Iterates over every page of {@link RentalReservationsResource.getByResource}, yielding each item.
+   *
+   * @param resourceId - Rental resource ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByResource(
+    resourceId: string,
+    params?: ListParams<RentalReservation>,
+    options?: PaginateOptions
+  ): PageIterator<RentalReservation> {
+    return paginate((params) => this.getByResource(resourceId, params, options), params, options);
   }
 
   /**
@@ -128,6 +203,7 @@ export class RentalReservationsResource {
    *
    * @param tierId - Rental tier ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -135,16 +211,34 @@ export class RentalReservationsResource {
    */
   public async getByTier(
     tierId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalReservation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalReservation>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-tier/${tierId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-tier/${tierId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RentalReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalReservationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RentalReservation>>(path);
+  /**
+   * Iterates over every page of {@link RentalReservationsResource.getByTier}, yielding each item.
+   *
+   * @param tierId - Rental tier ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByTier(
+    tierId: string,
+    params?: ListParams<RentalReservation>,
+    options?: PaginateOptions
+  ): PageIterator<RentalReservation> {
+    return paginate((params) => this.getByTier(tierId, params, options), params, options);
   }
 
   /**
@@ -153,6 +247,7 @@ export class RentalReservationsResource {
    * @param startAt - Start timestamp filter
    * @param endAt - End timestamp filter
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -161,18 +256,36 @@ export class RentalReservationsResource {
   public async getByDateRange(
     startAt: number,
     endAt: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalReservation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalReservation>> {
-    const queryParams = new URLSearchParams();
-
-    queryParams.append('startAt', startAt.toString());
-    queryParams.append('endAt', endAt.toString());
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-date-range${buildQueryString(params, { startAt, endAt })}`;
 
-    const path = `${this.resource_path}/by-date-range?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<RentalReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalReservationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RentalReservation>>(path);
+  /**
+   * Iterates over every page of {@link RentalReservationsResource.getByDateRange}, yielding each item.
+   *
+   * @param startAt - Start timestamp filter
+   * @param endAt - End timestamp filter
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByDateRange(
+    startAt: number,
+    endAt: number,
+    params?: ListParams<RentalReservation>,
+    options?: PaginateOptions
+  ): PageIterator<RentalReservation> {
+    return paginate((params) => this.getByDateRange(startAt, endAt, params, options), params, options);
   }
 
   /**
@@ -180,17 +293,23 @@ export class RentalReservationsResource {
    *
    * @param id - Rental reservation ID
    * @param data - Reservation update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated reservation
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateRentalReservation): Promise<RentalReservation> {
+  public async update(
+    id: string,
+    data: UpdateRentalReservation,
+    options?: RequestOptions
+  ): Promise<RentalReservation> {
     return this.http.patch<UpdateRentalReservation, RentalReservation>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateRentalReservationSchema
+      UpdateRentalReservationSchema,
+      { ...options, responseSchema: RentalReservationSchema }
     );
   }
 
@@ -199,15 +318,22 @@ export class RentalReservationsResource {
    *
    * @param id - Rental reservation ID
    * @param returnAt - Actual return timestamp
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated reservation
    *
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async recordReturn(id: string, returnAt: number): Promise<RentalReservation> {
+  public async recordReturn(
+    id: string,
+    returnAt: number,
+    options?: RequestOptions
+  ): Promise<RentalReservation> {
     return this.http.post<{ actualReturnAt: number }, RentalReservation>(
       `${this.resource_path}/${id}/return`,
-      { actualReturnAt: returnAt }
+      { actualReturnAt: returnAt },
+      undefined,
+      { ...options, responseSchema: RentalReservationSchema }
     );
   }
 
@@ -216,15 +342,22 @@ export class RentalReservationsResource {
    *
    * @param id - Rental reservation ID
    * @param reason - Optional cancellation reason
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the cancelled reservation
    *
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async cancel(id: string, reason?: string): Promise<RentalReservation> {
+  public async cancel(
+    id: string,
+    reason?: string,
+    options?: RequestOptions
+  ): Promise<RentalReservation> {
     return this.http.post<{ reason?: string }, RentalReservation>(
       `${this.resource_path}/${id}/cancel`,
-      { reason }
+      { reason },
+      undefined,
+      { ...options, responseSchema: RentalReservationSchema }
     );
   }
 
@@ -232,48 +365,94 @@ export class RentalReservationsResource {
    * Deletes a rental reservation.
    *
    * @param id - Rental reservation ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists rental reservations with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RentalReservation>,
+    filters?: RentalReservationFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalReservation>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<RentalReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RentalReservationSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link RentalReservationsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<RentalReservation>,
+    filters?: RentalReservationFilters,
+    options?: PaginateOptions
+  ): PageIterator<RentalReservation> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<RentalReservation>>(path);
+  /**
+   * Retrieves every item of {@link RentalReservationsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link RentalReservationsResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<RentalReservation>,
+    filters?: RentalReservationFilters,
+    options?: PaginateOptions
+  ): Promise<RentalReservation[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Retrieves available rental reservation time slots for a given date.
    *
    * @param request - Slot query request parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to available rental slots
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async getAvailableSlots(
-    request: RentalReservationSlotQueryRequest
+    request: RentalReservationSlotQueryRequest,
+    options?: RequestOptions
   ): Promise<RentalReservationSlotQueryResponse> {
     const queryParams = new URLSearchParams();
     queryParams.append('resourceType', request.resourceType);
@@ -286,7 +465,8 @@ export class RentalReservationsResource {
     if (request.durationMinutes) queryParams.append('durationMinutes', request.durationMinutes.toString());
 
     return this.http.get<RentalReservationSlotQueryResponse>(
-      `${this.resource_path}/available-slots?${queryParams.toString()}`
+      `${this.resource_path}/available-slots?${queryParams.toString()}`,
+      { ...options, responseSchema: RentalReservationSlotQueryResponseSchema }
     );
   }
 
@@ -294,6 +474,7 @@ export class RentalReservationsResource {
    * Creates multiple rental reservations in a single batch request.
    *
    * @param data - Array of reservation data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created reservations
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -301,7 +482,8 @@ export class RentalReservationsResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateRentalReservation[]
+    data: CreateRentalReservation[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RentalReservation>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -322,7 +504,39 @@ export class RentalReservationsResource {
 
     return this.http.post<CreateRentalReservation[], PaginatedResultType<RentalReservation>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(RentalReservationSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link RentalReservationsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of reservation data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.rentalReservations.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateRentalReservation[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateRentalReservation, RentalReservation>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateRentalReservationSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
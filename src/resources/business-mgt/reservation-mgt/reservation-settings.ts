@@ -10,9 +10,24 @@ import {
   UpdateReservationSettings,
   UpdateReservationSettingsSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ReservationSettingsSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
+
+/**
+ * Filters for listing reservation settings.
+ */
+export interface ReservationSettingsFilters {
+  /** Filter by setting type */
+  settingType?: ReservationSettings['settingType'];
+  /** Filter by business location ID */
+  locationId?: string;
+}
 
 /**
  * Resource class for managing reservation settings in the WIIL Platform.
@@ -55,10 +70,21 @@ export class ReservationSettingsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ReservationSettingsResource> {
+    return withResponse(this.http, (http) => new ReservationSettingsResource(http));
+  }
+
   /**
    * Creates new reservation settings.
    *
    * @param data - Reservation settings data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created reservation settings
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -84,11 +110,12 @@ export class ReservationSettingsResource {
    * });
    * ```
    */
-  public async create(data: CreateReservationSettings): Promise<ReservationSettings> {
+  public async create(data: CreateReservationSettings, options?: RequestOptions): Promise<ReservationSettings> {
     return this.http.post<CreateReservationSettings, ReservationSettings>(
       this.resource_path,
       data,
-      CreateReservationSettingsSchema
+      CreateReservationSettingsSchema,
+      { ...options, responseSchema: ReservationSettingsSchema }
     );
   }
 
@@ -96,6 +123,7 @@ export class ReservationSettingsResource {
    * Retrieves reservation settings by ID.
    *
    * @param id - Reservation settings ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the reservation settings
    *
    * @throws {@link WiilAPIError} - When the settings are not found or API returns an error
@@ -107,14 +135,18 @@ export class ReservationSettingsResource {
    * console.log('Table duration:', settings.table?.defaultDurationMinutes);
    * ```
    */
-  public async get(id: string): Promise<ReservationSettings> {
-    return this.http.get<ReservationSettings>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ReservationSettings> {
+    return this.http.get<ReservationSettings>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ReservationSettingsSchema }
+    );
   }
 
   /**
    * Retrieves reservation settings by location.
    *
    * @param locationId - Location ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the reservation settings for the location
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -128,14 +160,21 @@ export class ReservationSettingsResource {
    * }
    * ```
    */
-  public async getByLocation(locationId: string): Promise<ReservationSettings> {
-    return this.http.get<ReservationSettings>(`${this.resource_path}/by-location/${locationId}`);
+  public async getByLocation(
+    locationId: string,
+    options?: RequestOptions
+  ): Promise<ReservationSettings> {
+    return this.http.get<ReservationSettings>(
+      `${this.resource_path}/by-location/${locationId}`,
+      { ...options, responseSchema: ReservationSettingsSchema }
+    );
   }
 
   /**
    * Updates existing reservation settings.
    *
    * @param data - Reservation settings update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated reservation settings
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -153,11 +192,15 @@ export class ReservationSettingsResource {
    * });
    * ```
    */
-  public async update(data: UpdateReservationSettings): Promise<ReservationSettings> {
+  public async update(
+    data: UpdateReservationSettings,
+    options?: RequestOptions
+  ): Promise<ReservationSettings> {
     return this.http.patch<UpdateReservationSettings, ReservationSettings>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateReservationSettingsSchema
+      UpdateReservationSettingsSchema,
+      { ...options, responseSchema: ReservationSettingsSchema }
     );
   }
 
@@ -165,6 +208,7 @@ export class ReservationSettingsResource {
    * Deletes reservation settings.
    *
    * @param id - Reservation settings ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the settings are not found or API returns an error
@@ -178,14 +222,16 @@ export class ReservationSettingsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists reservation settings with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservation settings
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -198,15 +244,68 @@ export class ReservationSettingsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ReservationSettings>,
+    filters?: ReservationSettingsFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ReservationSettings>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ReservationSettings>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ReservationSettingsSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ReservationSettingsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.reservationSettings.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<ReservationSettings>,
+    filters?: ReservationSettingsFilters,
+    options?: PaginateOptions
+  ): PageIterator<ReservationSettings> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ReservationSettings>>(path);
+  /**
+   * Retrieves every item of {@link ReservationSettingsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ReservationSettingsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.reservationSettings.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<ReservationSettings>,
+    filters?: ReservationSettingsFilters,
+    options?: PaginateOptions
+  ): Promise<ReservationSettings[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
@@ -10,13 +10,27 @@ import {
   UpdateResource,
   UpdateResourceSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ResourceSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../../client/batch';
+import { WithResponse, withResponse } from '../../../../client/response';
+import { RequestOptions } from '../../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../../client/query';
+import { paginatedResultSchema } from '../../../../client/validation';
 import { WiilValidationError } from '../../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing reservation resources.
+ */
+export interface ReservationResourceFilters {
+  /** Filter by resource type */
+  resourceType?: Resource['resourceType'];
+}
+
 /**
  * Resource class for managing reservation resources in the WIIL Platform.
  *
@@ -79,10 +93,21 @@ export class ReservationResourcesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ReservationResourcesResource> {
+    return withResponse(this.http, (http) => new ReservationResourcesResource(http));
+  }
+
   /**
    * Creates a new reservation resource.
    *
    * @param data - Reservation resource data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created reservation resource
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -104,11 +129,12 @@ export class ReservationResourcesResource {
    * console.log('Created resource:', resource.id);
    * ```
    */
-  public async create(data: CreateResource): Promise<Resource> {
+  public async create(data: CreateResource, options?: RequestOptions): Promise<Resource> {
     return this.http.post<CreateResource, Resource>(
       this.resource_path,
       data,
-      CreateResourceSchema
+      CreateResourceSchema,
+      { ...options, responseSchema: ResourceSchema }
     );
   }
 
@@ -116,6 +142,7 @@ export class ReservationResourcesResource {
    * Retrieves a reservation resource by ID.
    *
    * @param id - Reservation resource ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the reservation resource
    *
    * @throws {@link WiilAPIError} - When the resource is not found or API returns an error
@@ -129,8 +156,11 @@ export class ReservationResourcesResource {
    * console.log('Capacity:', resource.capacity);
    * ```
    */
-  public async get(id: string): Promise<Resource> {
-    return this.http.get<Resource>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<Resource> {
+    return this.http.get<Resource>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ResourceSchema }
+    );
   }
 
   /**
@@ -138,6 +168,7 @@ export class ReservationResourcesResource {
    *
    * @param type - Resource type (e.g., 'TABLE', 'ROOM', 'EQUIPMENT', 'STAFF')
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of resources
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -158,22 +189,41 @@ export class ReservationResourcesResource {
    */
   public async getByType(
     type: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<Resource>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Resource>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-type/${type}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-type/${type}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<Resource>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ResourceSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<Resource>>(path);
+  /**
+   * Iterates over every page of {@link ReservationResourcesResource.getByType}, yielding each item.
+   *
+   * @param type - Resource type (e.g., 'TABLE', 'ROOM', 'EQUIPMENT', 'STAFF')
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByType(
+    type: string,
+    params?: ListParams<Resource>,
+    options?: PaginateOptions
+  ): PageIterator<Resource> {
+    return paginate((params) => this.getByType(type, params, options), params, options);
   }
 
   /**
    * Updates an existing reservation resource.
    *
    * @param data - Reservation resource update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated reservation resource
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -194,11 +244,12 @@ export class ReservationResourcesResource {
    * console.log('Updated resource:', updated.name);
    * ```
    */
-  public async update(data: UpdateResource): Promise<Resource> {
+  public async update(data: UpdateResource, options?: RequestOptions): Promise<Resource> {
     return this.http.patch<UpdateResource, Resource>(
       this.resource_path,
       data,
-      UpdateResourceSchema
+      UpdateResourceSchema,
+      { ...options, responseSchema: ResourceSchema }
     );
   }
 
@@ -206,6 +257,7 @@ export class ReservationResourcesResource {
    * Deletes a reservation resource.
    *
    * @param id - Reservation resource ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the resource is not found or API returns an error
@@ -223,14 +275,16 @@ export class ReservationResourcesResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists reservation resources with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservation resources
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -255,22 +309,76 @@ export class ReservationResourcesResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<Resource>,
+    filters?: ReservationResourceFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Resource>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<Resource>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ResourceSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ReservationResourcesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.reservationResources.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<Resource>,
+    filters?: ReservationResourceFilters,
+    options?: PaginateOptions
+  ): PageIterator<Resource> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<Resource>>(path);
+  /**
+   * Retrieves every item of {@link ReservationResourcesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ReservationResourcesResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.reservationResources.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<Resource>,
+    filters?: ReservationResourceFilters,
+    options?: PaginateOptions
+  ): Promise<Resource[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple reservation resources in a single batch request.
    *
    * @param data - Array of reservation resource data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created reservation resources
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -287,7 +395,8 @@ export class ReservationResourcesResource {
    * ```
    */
   public async createBatch(
-    data: CreateResource[]
+    data: CreateResource[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<Resource>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -308,7 +417,39 @@ export class ReservationResourcesResource {
 
     return this.http.post<CreateResource[], PaginatedResultType<Resource>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ResourceSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ReservationResourcesResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of reservation resource data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.reservationResources.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateResource[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateResource, Resource>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateResourceSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -10,13 +10,31 @@ import {
   UpdateResourceCategory,
   UpdateResourceCategorySchema,
   PaginatedResultType,
-  PaginationRequest,
+  ResourceCategorySchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../../client/batch';
+import { WithResponse, withResponse } from '../../../../client/response';
+import { RequestOptions } from '../../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../../client/query';
+import { paginatedResultSchema } from '../../../../client/validation';
 import { WiilValidationError } from '../../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing resource categories.
+ */
+export interface ResourceCategoryFilters {
+  /** Filter by resource type */
+  resourceType?: ResourceCategory['resourceType'];
+  /** Filter by business location ID */
+  locationId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing resource categories in the WIIL Platform.
  *
@@ -41,21 +59,33 @@ export class ResourceCategoriesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ResourceCategoriesResource> {
+    return withResponse(this.http, (http) => new ResourceCategoriesResource(http));
+  }
+
   /**
    * Creates a new resource category.
    *
    * @param data - Resource category data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created category
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateResourceCategory): Promise<ResourceCategory> {
+  public async create(data: CreateResourceCategory, options?: RequestOptions): Promise<ResourceCategory> {
     return this.http.post<CreateResourceCategory, ResourceCategory>(
       this.resource_path,
       data,
-      CreateResourceCategorySchema
+      CreateResourceCategorySchema,
+      { ...options, responseSchema: ResourceCategorySchema }
     );
   }
 
@@ -63,13 +93,17 @@ export class ResourceCategoriesResource {
    * Retrieves a resource category by ID.
    *
    * @param id - Resource category ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the category
    *
    * @throws {@link WiilAPIError} - When the category is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<ResourceCategory> {
-    return this.http.get<ResourceCategory>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ResourceCategory> {
+    return this.http.get<ResourceCategory>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ResourceCategorySchema }
+    );
   }
 
   /**
@@ -77,6 +111,7 @@ export class ResourceCategoriesResource {
    *
    * @param resourceType - Resource type filter
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of categories
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -84,38 +119,73 @@ export class ResourceCategoriesResource {
    */
   public async getByResourceType(
     resourceType: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ResourceCategory>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ResourceCategory>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-type/${resourceType}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-type/${resourceType}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ResourceCategory>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ResourceCategorySchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ResourceCategory>>(path);
+  /**
+   * Iterates over every page of {@link ResourceCategoriesResource.getByResourceType}, yielding each item.
+   *
+   * @param resourceType - Resource type filter
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByResourceType(
+    resourceType: string,
+    params?: ListParams<ResourceCategory>,
+    options?: PaginateOptions
+  ): PageIterator<ResourceCategory> {
+    return paginate((params) => this.getByResourceType(resourceType, params, options), params, options);
   }
 
   /**
    * Retrieves active resource categories.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of active categories
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async getActive(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ResourceCategory>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ResourceCategory>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/active${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/active${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ResourceCategory>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ResourceCategorySchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ResourceCategory>>(path);
+  /**
+   * Iterates over every page of {@link ResourceCategoriesResource.getActive}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateActive(
+    params?: ListParams<ResourceCategory>,
+    options?: PaginateOptions
+  ): PageIterator<ResourceCategory> {
+    return paginate((params) => this.getActive(params, options), params, options);
   }
 
   /**
@@ -123,17 +193,23 @@ export class ResourceCategoriesResource {
    *
    * @param id - Resource category ID
    * @param data - Category update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated category
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the category is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateResourceCategory): Promise<ResourceCategory> {
+  public async update(
+    id: string,
+    data: UpdateResourceCategory,
+    options?: RequestOptions
+  ): Promise<ResourceCategory> {
     return this.http.patch<UpdateResourceCategory, ResourceCategory>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateResourceCategorySchema
+      UpdateResourceCategorySchema,
+      { ...options, responseSchema: ResourceCategorySchema }
     );
   }
 
@@ -141,41 +217,86 @@ export class ResourceCategoriesResource {
    * Deletes a resource category.
    *
    * @param id - Resource category ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the category is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists resource categories with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of categories
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ResourceCategory>,
+    filters?: ResourceCategoryFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ResourceCategory>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ResourceCategory>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ResourceCategorySchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ResourceCategoriesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<ResourceCategory>,
+    filters?: ResourceCategoryFilters,
+    options?: PaginateOptions
+  ): PageIterator<ResourceCategory> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ResourceCategory>>(path);
+  /**
+   * Retrieves every item of {@link ResourceCategoriesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ResourceCategoriesResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<ResourceCategory>,
+    filters?: ResourceCategoryFilters,
+    options?: PaginateOptions
+  ): Promise<ResourceCategory[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple resource categories in a single batch request.
    *
    * @param data - Array of category data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created categories
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -183,7 +304,8 @@ export class ResourceCategoriesResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateResourceCategory[]
+    data: CreateResourceCategory[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ResourceCategory>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -204,7 +326,39 @@ export class ResourceCategoriesResource {
 
     return this.http.post<CreateResourceCategory[], PaginatedResultType<ResourceCategory>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ResourceCategorySchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ResourceCategoriesResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of category data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.resourceCategories.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateResourceCategory[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateResourceCategory, ResourceCategory>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateResourceCategorySchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
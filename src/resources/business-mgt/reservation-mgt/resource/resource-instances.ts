@@ -10,13 +10,31 @@ import {
   UpdateResourceInstance,
   UpdateResourceInstanceSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ResourceInstanceSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../../client/batch';
+import { WithResponse, withResponse } from '../../../../client/response';
+import { RequestOptions } from '../../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../../client/query';
+import { paginatedResultSchema } from '../../../../client/validation';
 import { WiilValidationError } from '../../../../errors/WiilError';
 
 const BATCH_LIMIT = 100;
 
+/**
+ * Filters for listing resource instances.
+ */
+export interface ResourceInstanceFilters {
+  /** Filter by resource ID */
+  resourceId?: string;
+  /** Filter by instance status */
+  status?: ResourceInstance['status'];
+  /** Filter by business location ID */
+  locationId?: string;
+}
+
 /**
  * Resource class for managing resource instances in the WIIL Platform.
  *
@@ -42,21 +60,33 @@ export class ResourceInstancesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ResourceInstancesResource> {
+    return withResponse(this.http, (http) => new ResourceInstancesResource(http));
+  }
+
   /**
    * Creates a new resource instance.
    *
    * @param data - Resource instance data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created instance
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateResourceInstance): Promise<ResourceInstance> {
+  public async create(data: CreateResourceInstance, options?: RequestOptions): Promise<ResourceInstance> {
     return this.http.post<CreateResourceInstance, ResourceInstance>(
       this.resource_path,
       data,
-      CreateResourceInstanceSchema
+      CreateResourceInstanceSchema,
+      { ...options, responseSchema: ResourceInstanceSchema }
     );
   }
 
@@ -64,13 +94,17 @@ export class ResourceInstancesResource {
    * Retrieves a resource instance by ID.
    *
    * @param id - Resource instance ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the instance
    *
    * @throws {@link WiilAPIError} - When the instance is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<ResourceInstance> {
-    return this.http.get<ResourceInstance>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ResourceInstance> {
+    return this.http.get<ResourceInstance>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ResourceInstanceSchema }
+    );
   }
 
   /**
@@ -78,6 +112,7 @@ export class ResourceInstancesResource {
    *
    * @param resourceId - Parent resource ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of instances
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -85,16 +120,34 @@ export class ResourceInstancesResource {
    */
   public async getByResource(
     resourceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ResourceInstance>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ResourceInstance>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-resource/${resourceId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-resource/${resourceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ResourceInstance>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ResourceInstanceSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ResourceInstance>>(path);
+  /**
+   * Iterates over every page of {@link ResourceInstancesResource.getByResource}, yielding each item.
+   *
+   * @param resourceId - Parent resource ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByResource(
+    resourceId: string,
+    params?: ListParams<ResourceInstance>,
+    options?: PaginateOptions
+  ): PageIterator<ResourceInstance> {
+    return paginate((params) => this.getByResource(resourceId, params, options), params, options);
   }
 
   /**
@@ -102,6 +155,7 @@ export class ResourceInstancesResource {
    *
    * @param status - Operational status filter
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of instances
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -109,38 +163,73 @@ export class ResourceInstancesResource {
    */
   public async getByStatus(
     status: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ResourceInstance>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ResourceInstance>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-status/${status}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-status/${status}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ResourceInstance>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ResourceInstanceSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ResourceInstance>>(path);
+  /**
+   * Iterates over every page of {@link ResourceInstancesResource.getByStatus}, yielding each item.
+   *
+   * @param status - Operational status filter
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByStatus(
+    status: string,
+    params?: ListParams<ResourceInstance>,
+    options?: PaginateOptions
+  ): PageIterator<ResourceInstance> {
+    return paginate((params) => this.getByStatus(status, params, options), params, options);
   }
 
   /**
    * Retrieves available resource instances.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of available instances
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async getAvailable(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ResourceInstance>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ResourceInstance>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/available${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/available${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ResourceInstance>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ResourceInstanceSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ResourceInstance>>(path);
+  /**
+   * Iterates over every page of {@link ResourceInstancesResource.getAvailable}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateAvailable(
+    params?: ListParams<ResourceInstance>,
+    options?: PaginateOptions
+  ): PageIterator<ResourceInstance> {
+    return paginate((params) => this.getAvailable(params, options), params, options);
   }
 
   /**
@@ -148,17 +237,23 @@ export class ResourceInstancesResource {
    *
    * @param id - Resource instance ID
    * @param data - Instance update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated instance
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the instance is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateResourceInstance): Promise<ResourceInstance> {
+  public async update(
+    id: string,
+    data: UpdateResourceInstance,
+    options?: RequestOptions
+  ): Promise<ResourceInstance> {
     return this.http.patch<UpdateResourceInstance, ResourceInstance>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateResourceInstanceSchema
+      UpdateResourceInstanceSchema,
+      { ...options, responseSchema: ResourceInstanceSchema }
     );
   }
 
@@ -167,15 +262,22 @@ export class ResourceInstancesResource {
    *
    * @param id - Resource instance ID
    * @param status - New operational status
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated instance
    *
    * @throws {@link WiilAPIError} - When the instance is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async updateStatus(id: string, status: string): Promise<ResourceInstance> {
+  public async updateStatus(
+    id: string,
+    status: string,
+    options?: RequestOptions
+  ): Promise<ResourceInstance> {
     return this.http.patch<{ status: string }, ResourceInstance>(
       `${this.resource_path}/${id}/status`,
-      { status }
+      { status },
+      undefined,
+      { ...options, responseSchema: ResourceInstanceSchema }
     );
   }
 
@@ -183,41 +285,86 @@ export class ResourceInstancesResource {
    * Deletes a resource instance.
    *
    * @param id - Resource instance ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the instance is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists resource instances with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of instances
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ResourceInstance>,
+    filters?: ResourceInstanceFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ResourceInstance>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ResourceInstance>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ResourceInstanceSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ResourceInstancesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<ResourceInstance>,
+    filters?: ResourceInstanceFilters,
+    options?: PaginateOptions
+  ): PageIterator<ResourceInstance> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ResourceInstance>>(path);
+  /**
+   * Retrieves every item of {@link ResourceInstancesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ResourceInstancesResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<ResourceInstance>,
+    filters?: ResourceInstanceFilters,
+    options?: PaginateOptions
+  ): Promise<ResourceInstance[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple resource instances in a single batch request.
    *
    * @param data - Array of instance data (maximum 100 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created instances
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -225,7 +372,8 @@ export class ResourceInstancesResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateResourceInstance[]
+    data: CreateResourceInstance[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ResourceInstance>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -246,7 +394,39 @@ export class ResourceInstancesResource {
 
     return this.http.post<CreateResourceInstance[], PaginatedResultType<ResourceInstance>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ResourceInstanceSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ResourceInstancesResource.createBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param data - Array of instance data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.resourceInstances.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateResourceInstance[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateResourceInstance, ResourceInstance>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateResourceInstanceSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -10,15 +10,36 @@ import {
   UpdateRoomReservation,
   UpdateRoomReservationSchema,
   PaginatedResultType,
-  PaginationRequest,
   RoomReservationSlotQueryRequest,
   RoomReservationSlotQueryResponse,
+  RoomReservationSchema,
+  RoomReservationSlotQueryResponseSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing room reservations.
+ */
+export interface RoomReservationFilters extends DateRangeFilters {
+  /** Filter by reservation status */
+  status?: RoomReservation['status'];
+  /** Filter by guest ID */
+  guestId?: string;
+  /** Filter by room resource ID */
+  resourceId?: string;
+  /** Filter by business location ID */
+  locationId?: string;
+}
+
 /**
  * Resource class for managing room reservations in the WIIL Platform.
  *
@@ -43,21 +64,33 @@ export class RoomReservationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<RoomReservationsResource> {
+    return withResponse(this.http, (http) => new RoomReservationsResource(http));
+  }
+
   /**
    * Creates a new room reservation.
    *
    * @param data - Room reservation data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created reservation
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateRoomReservation): Promise<RoomReservation> {
+  public async create(data: CreateRoomReservation, options?: RequestOptions): Promise<RoomReservation> {
     return this.http.post<CreateRoomReservation, RoomReservation>(
       this.resource_path,
       data,
-      CreateRoomReservationSchema
+      CreateRoomReservationSchema,
+      { ...options, responseSchema: RoomReservationSchema }
     );
   }
 
@@ -65,13 +98,17 @@ export class RoomReservationsResource {
    * Retrieves a room reservation by ID.
    *
    * @param id - Room reservation ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the reservation
    *
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<RoomReservation> {
-    return this.http.get<RoomReservation>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<RoomReservation> {
+    return this.http.get<RoomReservation>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: RoomReservationSchema }
+    );
   }
 
   /**
@@ -79,6 +116,7 @@ export class RoomReservationsResource {
    *
    * @param guestId - Guest ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -86,16 +124,34 @@ export class RoomReservationsResource {
    */
   public async getByGuest(
     guestId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RoomReservation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RoomReservation>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-guest/${guestId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-guest/${guestId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RoomReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RoomReservationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RoomReservation>>(path);
+  /**
+   * Iterates over every page of {@link RoomReservationsResource.getByGuest}, yielding each item.
+   *
+   * @param guestId - Guest ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByGuest(
+    guestId: string,
+    params?: ListParams<RoomReservation>,
+    options?: PaginateOptions
+  ): PageIterator<RoomReservation> {
+    return paginate((params) => this.getByGuest(guestId, params, options), params, options);
   }
 
   /**
@@ -103,6 +159,7 @@ export class RoomReservationsResource {
    *
    * @param resourceId - Room resource ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -110,16 +167,34 @@ export class RoomReservationsResource {
    */
   public async getByResource(
     resourceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RoomReservation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RoomReservation>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-resource/${resourceId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-resource/${resourceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<RoomReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RoomReservationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RoomReservation>>(path);
+  /**
+   * Iterates over every page of {@link RoomReservationsResource.getByResource}, yielding each item.
+   *
+   * @param resourceId - Room resource ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByResource(
+    resourceId: string,
+    params?: ListParams<RoomReservation>,
+    options?: PaginateOptions
+  ): PageIterator<RoomReservation> {
+    return paginate((params) => this.getByResource(resourceId, params, options), params, options);
   }
 
   /**
@@ -128,6 +203,7 @@ export class RoomReservationsResource {
    * @param startDate - Start timestamp for check-in filter
    * @param endDate - End timestamp for check-in filter
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -136,18 +212,36 @@ export class RoomReservationsResource {
   public async getByCheckInRange(
     startDate: number,
     endDate: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RoomReservation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RoomReservation>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-check-in-range${buildQueryString(params, { checkInStart: startDate, checkInEnd: endDate })}`;
 
-    queryParams.append('checkInStart', startDate.toString());
-    queryParams.append('checkInEnd', endDate.toString());
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-check-in-range?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<RoomReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RoomReservationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<RoomReservation>>(path);
+  /**
+   * Iterates over every page of {@link RoomReservationsResource.getByCheckInRange}, yielding each item.
+   *
+   * @param startDate - Start timestamp for check-in filter
+   * @param endDate - End timestamp for check-in filter
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByCheckInRange(
+    startDate: number,
+    endDate: number,
+    params?: ListParams<RoomReservation>,
+    options?: PaginateOptions
+  ): PageIterator<RoomReservation> {
+    return paginate((params) => this.getByCheckInRange(startDate, endDate, params, options), params, options);
   }
 
   /**
@@ -155,17 +249,23 @@ export class RoomReservationsResource {
    *
    * @param id - Room reservation ID
    * @param data - Reservation update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated reservation
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateRoomReservation): Promise<RoomReservation> {
+  public async update(
+    id: string,
+    data: UpdateRoomReservation,
+    options?: RequestOptions
+  ): Promise<RoomReservation> {
     return this.http.patch<UpdateRoomReservation, RoomReservation>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateRoomReservationSchema
+      UpdateRoomReservationSchema,
+      { ...options, responseSchema: RoomReservationSchema }
     );
   }
 
@@ -174,15 +274,22 @@ export class RoomReservationsResource {
    *
    * @param id - Room reservation ID
    * @param reason - Optional cancellation reason
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the cancelled reservation
    *
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async cancel(id: string, reason?: string): Promise<RoomReservation> {
+  public async cancel(
+    id: string,
+    reason?: string,
+    options?: RequestOptions
+  ): Promise<RoomReservation> {
     return this.http.post<{ reason?: string }, RoomReservation>(
       `${this.resource_path}/${id}/cancel`,
-      { reason }
+      { reason },
+      undefined,
+      { ...options, responseSchema: RoomReservationSchema }
     );
   }
 
@@ -190,48 +297,94 @@ export class RoomReservationsResource {
    * Deletes a room reservation.
    *
    * @param id - Room reservation ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists room reservations with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<RoomReservation>,
+    filters?: RoomReservationFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RoomReservation>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<RoomReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(RoomReservationSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link RoomReservationsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<RoomReservation>,
+    filters?: RoomReservationFilters,
+    options?: PaginateOptions
+  ): PageIterator<RoomReservation> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<RoomReservation>>(path);
+  /**
+   * Retrieves every item of {@link RoomReservationsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link RoomReservationsResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<RoomReservation>,
+    filters?: RoomReservationFilters,
+    options?: PaginateOptions
+  ): Promise<RoomReservation[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Retrieves available room reservation slots for a given check-in date.
    *
    * @param request - Slot query request parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to available room slots
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async getAvailableSlots(
-    request: RoomReservationSlotQueryRequest
+    request: RoomReservationSlotQueryRequest,
+    options?: RequestOptions
   ): Promise<RoomReservationSlotQueryResponse> {
     const queryParams = new URLSearchParams();
     queryParams.append('resourceType', request.resourceType);
@@ -243,7 +396,8 @@ export class RoomReservationsResource {
     if (request.occupancy) queryParams.append('occupancy', request.occupancy.toString());
 
     return this.http.get<RoomReservationSlotQueryResponse>(
-      `${this.resource_path}/available-slots?${queryParams.toString()}`
+      `${this.resource_path}/available-slots?${queryParams.toString()}`,
+      { ...options, responseSchema: RoomReservationSlotQueryResponseSchema }
     );
   }
 
@@ -251,6 +405,7 @@ export class RoomReservationsResource {
    * Creates multiple room reservations in a single batch request.
    *
    * @param data - Array of reservation data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created reservations
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -258,7 +413,8 @@ export class RoomReservationsResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateRoomReservation[]
+    data: CreateRoomReservation[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<RoomReservation>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -279,7 +435,39 @@ export class RoomReservationsResource {
 
     return this.http.post<CreateRoomReservation[], PaginatedResultType<RoomReservation>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(RoomReservationSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link RoomReservationsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of reservation data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.roomReservations.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateRoomReservation[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateRoomReservation, RoomReservation>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateRoomReservationSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
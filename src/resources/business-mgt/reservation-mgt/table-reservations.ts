@@ -10,15 +10,36 @@ import {
   UpdateTableReservation,
   UpdateTableReservationSchema,
   PaginatedResultType,
-  PaginationRequest,
   TableReservationSlotQueryRequest,
   TableReservationSlotQueryResponse,
+  TableReservationSchema,
+  TableReservationSlotQueryResponseSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing table reservations.
+ */
+export interface TableReservationFilters extends DateRangeFilters {
+  /** Filter by reservation status */
+  status?: TableReservation['status'];
+  /** Filter by customer ID */
+  customerId?: string;
+  /** Filter by table resource ID */
+  resourceId?: string;
+  /** Filter by business location ID */
+  locationId?: string;
+}
+
 /**
  * Resource class for managing table reservations in the WIIL Platform.
  *
@@ -43,21 +64,33 @@ export class TableReservationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<TableReservationsResource> {
+    return withResponse(this.http, (http) => new TableReservationsResource(http));
+  }
+
   /**
    * Creates a new table reservation.
    *
    * @param data - Table reservation data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created reservation
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateTableReservation): Promise<TableReservation> {
+  public async create(data: CreateTableReservation, options?: RequestOptions): Promise<TableReservation> {
     return this.http.post<CreateTableReservation, TableReservation>(
       this.resource_path,
       data,
-      CreateTableReservationSchema
+      CreateTableReservationSchema,
+      { ...options, responseSchema: TableReservationSchema }
     );
   }
 
@@ -65,13 +98,17 @@ export class TableReservationsResource {
    * Retrieves a table reservation by ID.
    *
    * @param id - Table reservation ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the reservation
    *
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<TableReservation> {
-    return this.http.get<TableReservation>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<TableReservation> {
+    return this.http.get<TableReservation>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: TableReservationSchema }
+    );
   }
 
   /**
@@ -79,6 +116,7 @@ export class TableReservationsResource {
    *
    * @param customerId - Customer ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -86,16 +124,34 @@ export class TableReservationsResource {
    */
   public async getByCustomer(
     customerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TableReservation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TableReservation>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-customer/${customerId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-customer/${customerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<TableReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TableReservationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TableReservation>>(path);
+  /**
+   * Iterates over every page of {@link TableReservationsResource.getByCustomer}, yielding each item.
+   *
+   * @param customerId - Customer ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByCustomer(
+    customerId: string,
+    params?: ListParams<TableReservation>,
+    options?: PaginateOptions
+  ): PageIterator<TableReservation> {
+    return paginate((params) => this.getByCustomer(customerId, params, options), params, options);
   }
 
   /**
@@ -103,6 +159,7 @@ export class TableReservationsResource {
    *
    * @param resourceId - Table resource ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -110,16 +167,34 @@ export class TableReservationsResource {
    */
   public async getByResource(
     resourceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TableReservation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TableReservation>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-resource/${resourceId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-resource/${resourceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<TableReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TableReservationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TableReservation>>(path);
+  /**
+   * Iterates over every page of {@link TableReservationsResource.getByResource}, yielding each item.
+   *
+   * @param resourceId - Table resource ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByResource(
+    resourceId: string,
+    params?: ListParams<TableReservation>,
+    options?: PaginateOptions
+  ): PageIterator<TableReservation> {
+    return paginate((params) => this.getByResource(resourceId, params, options), params, options);
   }
 
   /**
@@ -128,6 +203,7 @@ export class TableReservationsResource {
    * @param startTime - Start timestamp
    * @param endTime - End timestamp
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -136,18 +212,36 @@ export class TableReservationsResource {
   public async getByDateRange(
     startTime: number,
     endTime: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TableReservation>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TableReservation>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-date-range${buildQueryString(params, { startTime, endTime })}`;
 
-    queryParams.append('startTime', startTime.toString());
-    queryParams.append('endTime', endTime.toString());
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-date-range?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<TableReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TableReservationSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<TableReservation>>(path);
+  /**
+   * Iterates over every page of {@link TableReservationsResource.getByDateRange}, yielding each item.
+   *
+   * @param startTime - Start timestamp
+   * @param endTime - End timestamp
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByDateRange(
+    startTime: number,
+    endTime: number,
+    params?: ListParams<TableReservation>,
+    options?: PaginateOptions
+  ): PageIterator<TableReservation> {
+    return paginate((params) => this.getByDateRange(startTime, endTime, params, options), params, options);
   }
 
   /**
@@ -155,17 +249,23 @@ export class TableReservationsResource {
    *
    * @param id - Table reservation ID
    * @param data - Reservation update data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated reservation
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(id: string, data: UpdateTableReservation): Promise<TableReservation> {
+  public async update(
+    id: string,
+    data: UpdateTableReservation,
+    options?: RequestOptions
+  ): Promise<TableReservation> {
     return this.http.patch<UpdateTableReservation, TableReservation>(
       `${this.resource_path}/${id}`,
       data,
-      UpdateTableReservationSchema
+      UpdateTableReservationSchema,
+      { ...options, responseSchema: TableReservationSchema }
     );
   }
 
@@ -174,15 +274,22 @@ export class TableReservationsResource {
    *
    * @param id - Table reservation ID
    * @param reason - Optional cancellation reason
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the cancelled reservation
    *
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async cancel(id: string, reason?: string): Promise<TableReservation> {
+  public async cancel(
+    id: string,
+    reason?: string,
+    options?: RequestOptions
+  ): Promise<TableReservation> {
     return this.http.post<{ reason?: string }, TableReservation>(
       `${this.resource_path}/${id}/cancel`,
-      { reason }
+      { reason },
+      undefined,
+      { ...options, responseSchema: TableReservationSchema }
     );
   }
 
@@ -190,48 +297,94 @@ export class TableReservationsResource {
    * Deletes a table reservation.
    *
    * @param id - Table reservation ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the reservation is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists table reservations with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of reservations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TableReservation>,
+    filters?: TableReservationFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TableReservation>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<TableReservation>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TableReservationSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link TableReservationsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterate(
+    params?: ListParams<TableReservation>,
+    filters?: TableReservationFilters,
+    options?: PaginateOptions
+  ): PageIterator<TableReservation> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<TableReservation>>(path);
+  /**
+   * Retrieves every item of {@link TableReservationsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link TableReservationsResource.iterate} to process large lists incrementally.
+   */
+  public async listAll(
+    params?: ListParams<TableReservation>,
+    filters?: TableReservationFilters,
+    options?: PaginateOptions
+  ): Promise<TableReservation[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Retrieves available table reservation time slots for a given date.
    *
    * @param request - Slot query request parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to available table slots
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async getAvailableSlots(
-    request: TableReservationSlotQueryRequest
+    request: TableReservationSlotQueryRequest,
+    options?: RequestOptions
   ): Promise<TableReservationSlotQueryResponse> {
     const queryParams = new URLSearchParams();
     queryParams.append('resourceType', request.resourceType);
@@ -244,7 +397,8 @@ export class TableReservationsResource {
     if (request.floorPlanSectionId) queryParams.append('floorPlanSectionId', request.floorPlanSectionId);
 
     return this.http.get<TableReservationSlotQueryResponse>(
-      `${this.resource_path}/available-slots?${queryParams.toString()}`
+      `${this.resource_path}/available-slots?${queryParams.toString()}`,
+      { ...options, responseSchema: TableReservationSlotQueryResponseSchema }
     );
   }
 
@@ -252,6 +406,7 @@ export class TableReservationsResource {
    * Creates multiple table reservations in a single batch request.
    *
    * @param data - Array of reservation data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created reservations
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -259,7 +414,8 @@ export class TableReservationsResource {
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async createBatch(
-    data: CreateTableReservation[]
+    data: CreateTableReservation[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TableReservation>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -280,7 +436,39 @@ export class TableReservationsResource {
 
     return this.http.post<CreateTableReservation[], PaginatedResultType<TableReservation>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(TableReservationSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link TableReservationsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of reservation data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.tableReservations.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateTableReservation[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateTableReservation, TableReservation>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateTableReservationSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -10,9 +10,26 @@ import {
   UpdateAppointmentAdditionalInfo,
   UpdateAppointmentAdditionalInfoSchema,
   PaginatedResultType,
-  PaginationRequest,
+  AppointmentAdditionalInfoSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
+
+/**
+ * Filters for listing appointment additional info records.
+ */
+export interface AppointmentAdditionalInfoFilters {
+  /** Filter by appointment ID */
+  appointmentId?: string;
+  /** Filter by customer ID */
+  customerId?: string;
+  /** Filter by business service ID */
+  businessServiceId?: string;
+}
 
 /**
  * Resource class for managing appointment additional info in the WIIL Platform.
@@ -55,10 +72,21 @@ export class AppointmentAdditionalInfoResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<AppointmentAdditionalInfoResource> {
+    return withResponse(this.http, (http) => new AppointmentAdditionalInfoResource(http));
+  }
+
   /**
    * Creates new appointment additional info.
    *
    * @param data - Appointment additional info data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created appointment additional info
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -78,11 +106,12 @@ export class AppointmentAdditionalInfoResource {
    * });
    * ```
    */
-  public async create(data: CreateAppointmentAdditionalInfo): Promise<AppointmentAdditionalInfo> {
+  public async create(data: CreateAppointmentAdditionalInfo, options?: RequestOptions): Promise<AppointmentAdditionalInfo> {
     return this.http.post<CreateAppointmentAdditionalInfo, AppointmentAdditionalInfo>(
       this.resource_path,
       data,
-      CreateAppointmentAdditionalInfoSchema
+      CreateAppointmentAdditionalInfoSchema,
+      { ...options, responseSchema: AppointmentAdditionalInfoSchema }
     );
   }
 
@@ -90,6 +119,7 @@ export class AppointmentAdditionalInfoResource {
    * Retrieves appointment additional info by ID.
    *
    * @param id - Appointment additional info ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the appointment additional info
    *
    * @throws {@link WiilAPIError} - When the info is not found or API returns an error
@@ -101,14 +131,18 @@ export class AppointmentAdditionalInfoResource {
    * console.log('Custom data:', info.data);
    * ```
    */
-  public async get(id: string): Promise<AppointmentAdditionalInfo> {
-    return this.http.get<AppointmentAdditionalInfo>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<AppointmentAdditionalInfo> {
+    return this.http.get<AppointmentAdditionalInfo>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: AppointmentAdditionalInfoSchema }
+    );
   }
 
   /**
    * Retrieves appointment additional info by appointment.
    *
    * @param appointmentId - Appointment ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the appointment additional info
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -120,9 +154,13 @@ export class AppointmentAdditionalInfoResource {
    * console.log('Allergies:', info.data.allergies);
    * ```
    */
-  public async getByAppointment(appointmentId: string): Promise<AppointmentAdditionalInfo> {
+  public async getByAppointment(
+    appointmentId: string,
+    options?: RequestOptions
+  ): Promise<AppointmentAdditionalInfo> {
     return this.http.get<AppointmentAdditionalInfo>(
-      `${this.resource_path}/by-appointment/${appointmentId}`
+      `${this.resource_path}/by-appointment/${appointmentId}`,
+      { ...options, responseSchema: AppointmentAdditionalInfoSchema }
     );
   }
 
@@ -131,6 +169,7 @@ export class AppointmentAdditionalInfoResource {
    *
    * @param customerId - Customer ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of appointment additional info
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -144,16 +183,34 @@ export class AppointmentAdditionalInfoResource {
    */
   public async getByCustomer(
     customerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<AppointmentAdditionalInfo>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<AppointmentAdditionalInfo>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-customer/${customerId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-customer/${customerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<AppointmentAdditionalInfo>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(AppointmentAdditionalInfoSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<AppointmentAdditionalInfo>>(path);
+  /**
+   * Iterates over every page of {@link AppointmentAdditionalInfoResource.getByCustomer}, yielding each item.
+   *
+   * @param customerId - Customer ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByCustomer(
+    customerId: string,
+    params?: ListParams<AppointmentAdditionalInfo>,
+    options?: PaginateOptions
+  ): PageIterator<AppointmentAdditionalInfo> {
+    return paginate((params) => this.getByCustomer(customerId, params, options), params, options);
   }
 
   /**
@@ -161,6 +218,7 @@ export class AppointmentAdditionalInfoResource {
    *
    * @param businessServiceId - Business service ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of appointment additional info
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -174,22 +232,41 @@ export class AppointmentAdditionalInfoResource {
    */
   public async getByBusinessService(
     businessServiceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<AppointmentAdditionalInfo>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<AppointmentAdditionalInfo>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-business-service/${businessServiceId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-business-service/${businessServiceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<AppointmentAdditionalInfo>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(AppointmentAdditionalInfoSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<AppointmentAdditionalInfo>>(path);
+  /**
+   * Iterates over every page of {@link AppointmentAdditionalInfoResource.getByBusinessService}, yielding each item.
+   *
+   * @param businessServiceId - Business service ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByBusinessService(
+    businessServiceId: string,
+    params?: ListParams<AppointmentAdditionalInfo>,
+    options?: PaginateOptions
+  ): PageIterator<AppointmentAdditionalInfo> {
+    return paginate((params) => this.getByBusinessService(businessServiceId, params, options), params, options);
   }
 
   /**
    * Updates existing appointment additional info.
    *
    * @param data - Appointment additional info update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated appointment additional info
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -207,11 +284,15 @@ export class AppointmentAdditionalInfoResource {
    * });
    * ```
    */
-  public async update(data: UpdateAppointmentAdditionalInfo): Promise<AppointmentAdditionalInfo> {
+  public async update(
+    data: UpdateAppointmentAdditionalInfo,
+    options?: RequestOptions
+  ): Promise<AppointmentAdditionalInfo> {
     return this.http.patch<UpdateAppointmentAdditionalInfo, AppointmentAdditionalInfo>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateAppointmentAdditionalInfoSchema
+      UpdateAppointmentAdditionalInfoSchema,
+      { ...options, responseSchema: AppointmentAdditionalInfoSchema }
     );
   }
 
@@ -219,6 +300,7 @@ export class AppointmentAdditionalInfoResource {
    * Deletes appointment additional info.
    *
    * @param id - Appointment additional info ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the info is not found or API returns an error
@@ -232,14 +314,16 @@ export class AppointmentAdditionalInfoResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists appointment additional info with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of appointment additional info
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -252,15 +336,68 @@ export class AppointmentAdditionalInfoResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<AppointmentAdditionalInfo>,
+    filters?: AppointmentAdditionalInfoFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<AppointmentAdditionalInfo>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<AppointmentAdditionalInfo>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(AppointmentAdditionalInfoSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link AppointmentAdditionalInfoResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.appointmentAdditionalInfo.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<AppointmentAdditionalInfo>,
+    filters?: AppointmentAdditionalInfoFilters,
+    options?: PaginateOptions
+  ): PageIterator<AppointmentAdditionalInfo> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<AppointmentAdditionalInfo>>(path);
+  /**
+   * Retrieves every item of {@link AppointmentAdditionalInfoResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link AppointmentAdditionalInfoResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.appointmentAdditionalInfo.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<AppointmentAdditionalInfo>,
+    filters?: AppointmentAdditionalInfoFilters,
+    options?: PaginateOptions
+  ): Promise<AppointmentAdditionalInfo[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
@@ -10,9 +10,14 @@ import {
   UpdateAppointmentFieldConfig,
   UpdateAppointmentFieldConfigSchema,
   PaginatedResultType,
-  PaginationRequest,
+  AppointmentFieldConfigSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 
 /**
  * Resource class for managing appointment field configurations in the WIIL Platform.
@@ -58,10 +63,21 @@ export class AppointmentFieldConfigsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<AppointmentFieldConfigsResource> {
+    return withResponse(this.http, (http) => new AppointmentFieldConfigsResource(http));
+  }
+
   /**
    * Creates a new appointment field configuration.
    *
    * @param data - Appointment field config data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created appointment field config
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -83,11 +99,12 @@ export class AppointmentFieldConfigsResource {
    * });
    * ```
    */
-  public async create(data: CreateAppointmentFieldConfig): Promise<AppointmentFieldConfig> {
+  public async create(data: CreateAppointmentFieldConfig, options?: RequestOptions): Promise<AppointmentFieldConfig> {
     return this.http.post<CreateAppointmentFieldConfig, AppointmentFieldConfig>(
       this.resource_path,
       data,
-      CreateAppointmentFieldConfigSchema
+      CreateAppointmentFieldConfigSchema,
+      { ...options, responseSchema: AppointmentFieldConfigSchema }
     );
   }
 
@@ -95,6 +112,7 @@ export class AppointmentFieldConfigsResource {
    * Retrieves an appointment field configuration by ID.
    *
    * @param id - Appointment field config ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the appointment field config
    *
    * @throws {@link WiilAPIError} - When the config is not found or API returns an error
@@ -107,14 +125,18 @@ export class AppointmentFieldConfigsResource {
    * console.log('Reuse details:', config.reuseDetails);
    * ```
    */
-  public async get(id: string): Promise<AppointmentFieldConfig> {
-    return this.http.get<AppointmentFieldConfig>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<AppointmentFieldConfig> {
+    return this.http.get<AppointmentFieldConfig>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: AppointmentFieldConfigSchema }
+    );
   }
 
   /**
    * Retrieves appointment field configurations with email requirement.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of appointment field configs
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -127,23 +149,39 @@ export class AppointmentFieldConfigsResource {
    * ```
    */
   public async getWithEmailRequired(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<AppointmentFieldConfig>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<AppointmentFieldConfig>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('ensureEmail', 'true');
+    const path = `${this.resource_path}/with-email-required${buildQueryString(params, { ensureEmail: true })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/with-email-required?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<AppointmentFieldConfig>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(AppointmentFieldConfigSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<AppointmentFieldConfig>>(path);
+  /**
+   * Iterates over every page of {@link AppointmentFieldConfigsResource.getWithEmailRequired}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateWithEmailRequired(
+    params?: ListParams<AppointmentFieldConfig>,
+    options?: PaginateOptions
+  ): PageIterator<AppointmentFieldConfig> {
+    return paginate((params) => this.getWithEmailRequired(params, options), params, options);
   }
 
   /**
    * Retrieves appointment field configurations with phone requirement.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of appointment field configs
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -156,23 +194,39 @@ export class AppointmentFieldConfigsResource {
    * ```
    */
   public async getWithPhoneRequired(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<AppointmentFieldConfig>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<AppointmentFieldConfig>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('ensurePhone', 'true');
+    const path = `${this.resource_path}/with-phone-required${buildQueryString(params, { ensurePhone: true })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/with-phone-required?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<AppointmentFieldConfig>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(AppointmentFieldConfigSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<AppointmentFieldConfig>>(path);
+  /**
+   * Iterates over every page of {@link AppointmentFieldConfigsResource.getWithPhoneRequired}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateWithPhoneRequired(
+    params?: ListParams<AppointmentFieldConfig>,
+    options?: PaginateOptions
+  ): PageIterator<AppointmentFieldConfig> {
+    return paginate((params) => this.getWithPhoneRequired(params, options), params, options);
   }
 
   /**
    * Retrieves appointment field configurations with reuse details enabled.
    *
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of appointment field configs
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -185,23 +239,39 @@ export class AppointmentFieldConfigsResource {
    * ```
    */
   public async getWithReuseEnabled(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<AppointmentFieldConfig>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<AppointmentFieldConfig>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('reuseDetails', 'true');
+    const path = `${this.resource_path}/with-reuse-enabled${buildQueryString(params, { reuseDetails: true })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/with-reuse-enabled?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<AppointmentFieldConfig>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(AppointmentFieldConfigSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<AppointmentFieldConfig>>(path);
+  /**
+   * Iterates over every page of {@link AppointmentFieldConfigsResource.getWithReuseEnabled}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateWithReuseEnabled(
+    params?: ListParams<AppointmentFieldConfig>,
+    options?: PaginateOptions
+  ): PageIterator<AppointmentFieldConfig> {
+    return paginate((params) => this.getWithReuseEnabled(params, options), params, options);
   }
 
   /**
    * Updates an existing appointment field configuration.
    *
    * @param data - Appointment field config update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated appointment field config
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -219,11 +289,15 @@ export class AppointmentFieldConfigsResource {
    * });
    * ```
    */
-  public async update(data: UpdateAppointmentFieldConfig): Promise<AppointmentFieldConfig> {
+  public async update(
+    data: UpdateAppointmentFieldConfig,
+    options?: RequestOptions
+  ): Promise<AppointmentFieldConfig> {
     return this.http.patch<UpdateAppointmentFieldConfig, AppointmentFieldConfig>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateAppointmentFieldConfigSchema
+      UpdateAppointmentFieldConfigSchema,
+      { ...options, responseSchema: AppointmentFieldConfigSchema }
     );
   }
 
@@ -231,6 +305,7 @@ export class AppointmentFieldConfigsResource {
    * Deletes an appointment field configuration.
    *
    * @param id - Appointment field config ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the config is not found or API returns an error
@@ -244,14 +319,15 @@ export class AppointmentFieldConfigsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists appointment field configurations with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of appointment field configs
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -264,15 +340,63 @@ export class AppointmentFieldConfigsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<AppointmentFieldConfig>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<AppointmentFieldConfig>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<AppointmentFieldConfig>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(AppointmentFieldConfigSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link AppointmentFieldConfigsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.appointmentFieldConfigs.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<AppointmentFieldConfig>,
+    options?: PaginateOptions
+  ): PageIterator<AppointmentFieldConfig> {
+    return paginate((params) => this.list(params, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<AppointmentFieldConfig>>(path);
+  /**
+   * Retrieves every item of {@link AppointmentFieldConfigsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link AppointmentFieldConfigsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.appointmentFieldConfigs.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<AppointmentFieldConfig>,
+    options?: PaginateOptions
+  ): Promise<AppointmentFieldConfig[]> {
+    return this.iterate(params, options).toArray();
   }
 }
@@ -11,13 +11,28 @@ import {
   UpdateBusinessServiceSchema,
   BusinessServiceCatalog,
   PaginatedResultType,
-  PaginationRequest,
+  BusinessServiceCatalogSchema,
+  BusinessServiceSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing business services.
+ */
+export interface BusinessServiceFilters {
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing business services in the WIIL Platform.
  *
@@ -78,10 +93,21 @@ export class BusinessServicesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<BusinessServicesResource> {
+    return withResponse(this.http, (http) => new BusinessServicesResource(http));
+  }
+
   /**
    * Creates a new business service.
    *
    * @param data - Business service data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created business service
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -103,11 +129,12 @@ export class BusinessServicesResource {
    * console.log('Created service:', service.id);
    * ```
    */
-  public async create(data: CreateBusinessService): Promise<BusinessService> {
+  public async create(data: CreateBusinessService, options?: RequestOptions): Promise<BusinessService> {
     return this.http.post<CreateBusinessService, BusinessService>(
       this.resource_path,
       data,
-      CreateBusinessServiceSchema
+      CreateBusinessServiceSchema,
+      { ...options, responseSchema: BusinessServiceSchema }
     );
   }
 
@@ -115,6 +142,7 @@ export class BusinessServicesResource {
    * Retrieves a business service by ID.
    *
    * @param id - Business service ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the business service
    *
    * @throws {@link WiilAPIError} - When the service is not found or API returns an error
@@ -128,14 +156,18 @@ export class BusinessServicesResource {
    * console.log('Price:', service.price);
    * ```
    */
-  public async get(id: string): Promise<BusinessService> {
-    return this.http.get<BusinessService>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<BusinessService> {
+    return this.http.get<BusinessService>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: BusinessServiceSchema }
+    );
   }
 
   /**
    * Updates an existing business service.
    *
    * @param data - Business service update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated business service
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -156,11 +188,15 @@ export class BusinessServicesResource {
    * console.log('Updated service:', updated.name);
    * ```
    */
-  public async update(data: UpdateBusinessService): Promise<BusinessService> {
+  public async update(
+    data: UpdateBusinessService,
+    options?: RequestOptions
+  ): Promise<BusinessService> {
     return this.http.patch<UpdateBusinessService, BusinessService>(
       this.resource_path,
       data,
-      UpdateBusinessServiceSchema
+      UpdateBusinessServiceSchema,
+      { ...options, responseSchema: BusinessServiceSchema }
     );
   }
 
@@ -168,6 +204,7 @@ export class BusinessServicesResource {
    * Deletes a business service.
    *
    * @param id - Business service ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the service is not found or API returns an error
@@ -185,14 +222,16 @@ export class BusinessServicesResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists business services with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of business services
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -217,21 +256,75 @@ export class BusinessServicesResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<BusinessService>,
+    filters?: BusinessServiceFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessService>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<BusinessService>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(BusinessServiceSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link BusinessServicesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.businessServices.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<BusinessService>,
+    filters?: BusinessServiceFilters,
+    options?: PaginateOptions
+  ): PageIterator<BusinessService> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<BusinessService>>(path);
+  /**
+   * Retrieves every item of {@link BusinessServicesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link BusinessServicesResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.businessServices.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<BusinessService>,
+    filters?: BusinessServiceFilters,
+    options?: PaginateOptions
+  ): Promise<BusinessService[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Retrieves the complete service catalog organized by categories.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the service catalog with categories and services
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -252,14 +345,18 @@ export class BusinessServicesResource {
    * });
    * ```
    */
-  public async getCatalog(): Promise<BusinessServiceCatalog> {
-    return this.http.get<BusinessServiceCatalog>(`${this.resource_path}/catalog`);
+  public async getCatalog(options?: RequestOptions): Promise<BusinessServiceCatalog> {
+    return this.http.get<BusinessServiceCatalog>(
+      `${this.resource_path}/catalog`,
+      { ...options, responseSchema: BusinessServiceCatalogSchema }
+    );
   }
 
   /**
    * Creates multiple business services in a single batch request.
    *
    * @param data - Array of business service data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created business services
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -276,7 +373,8 @@ export class BusinessServicesResource {
    * ```
    */
   public async createBatch(
-    data: CreateBusinessService[]
+    data: CreateBusinessService[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessService>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -297,7 +395,39 @@ export class BusinessServicesResource {
 
     return this.http.post<CreateBusinessService[], PaginatedResultType<BusinessService>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(BusinessServiceSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link BusinessServicesResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of business service data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.businessServices.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateBusinessService[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateBusinessService, BusinessService>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateBusinessServiceSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
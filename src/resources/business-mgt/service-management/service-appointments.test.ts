@@ -70,6 +70,41 @@ describe('ServiceAppointmentsResource', () => {
       expect(result.totalPrice).toBe(79.99);
     });
 
+    it('should send a caller-provided idempotency key', async () => {
+      const input = {
+        businessServiceId: 'service_123',
+        customerId: 'cust_456',
+        startTime: Date.now(),
+        endTime: Date.now() + 60 * 60 * 1000,
+        duration: 60,
+        totalPrice: 79.99,
+        depositPaid: 0,
+        status: AppointmentStatus.PENDING,
+      };
+
+      const mockResponse: ServiceAppointment = {
+        id: 'appointment_123',
+        ...input,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+
+      nock(BASE_URL)
+        .post('/service-appointments', input)
+        .matchHeader('Idempotency-Key', 'booking-42')
+        .reply(200, {
+          success: true,
+          data: mockResponse,
+          metadata: { timestamp: Date.now(), version: 'v1' },
+        });
+
+      const result = await client.serviceAppointments.create(input, {
+        idempotencyKey: 'booking-42',
+      });
+
+      expect(result.id).toBe('appointment_123');
+    });
+
     it('should create an appointment with deposit and assigned service person', async () => {
       const input = {
         businessServiceId: 'service_456',
@@ -776,5 +811,42 @@ describe('ServiceAppointmentsResource', () => {
       expect(result.meta.pageSize).toBe(25);
       expect(result.meta.hasPreviousPage).toBe(true);
     });
+
+    it('should send sorting and filters as query parameters', async () => {
+      const mockResponse: PaginatedResultType<ServiceAppointment> = {
+        data: [],
+        meta: {
+          page: 1,
+          pageSize: 20,
+          totalCount: 0,
+          totalPages: 0,
+          hasNextPage: false,
+          hasPreviousPage: false,
+        },
+      };
+
+      nock(BASE_URL)
+        .get('/service-appointments')
+        .query({
+          sortBy: 'startTime',
+          sortDirection: 'desc',
+          status: AppointmentStatus.CONFIRMED,
+          customerId: 'cust_1',
+          startDate: '1700000000000',
+        })
+        .matchHeader('X-Wiil-Api-Key', API_KEY)
+        .reply(200, {
+          success: true,
+          data: mockResponse,
+          metadata: { timestamp: Date.now(), version: 'v1' },
+        });
+
+      const result = await client.serviceAppointments.list(
+        { sortBy: 'startTime', sortDirection: 'desc' },
+        { status: AppointmentStatus.CONFIRMED, customerId: 'cust_1', startDate: 1700000000000, endDate: undefined }
+      );
+
+      expect(result.data).toHaveLength(0);
+    });
   });
 });
@@ -13,13 +13,34 @@ import {
   ServiceSlotQueryRequest,
   ServiceSlotQueryResponse,
   PaginatedResultType,
-  PaginationRequest,
+  ServiceAppointmentSchema,
+  ServiceSlotQueryResponseSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing service appointments.
+ */
+export interface ServiceAppointmentFilters extends DateRangeFilters {
+  /** Filter by appointment status */
+  status?: AppointmentStatus;
+  /** Filter by customer ID */
+  customerId?: string;
+  /** Filter by business service ID */
+  businessServiceId?: string;
+  /** Filter by business location ID */
+  locationId?: string;
+}
+
 /**
  * Resource class for managing service appointments in the WIIL Platform.
  *
@@ -44,21 +65,33 @@ export class ServiceAppointmentsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ServiceAppointmentsResource> {
+    return withResponse(this.http, (http) => new ServiceAppointmentsResource(http));
+  }
+
   /**
    * Creates a new service appointment.
    *
    * @param data - Service appointment data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created service appointment
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateServiceAppointment): Promise<ServiceAppointment> {
+  public async create(data: CreateServiceAppointment, options?: RequestOptions): Promise<ServiceAppointment> {
     return this.http.post<CreateServiceAppointment, ServiceAppointment>(
       this.resource_path,
       data,
-      CreateServiceAppointmentSchema
+      CreateServiceAppointmentSchema,
+      { ...options, responseSchema: ServiceAppointmentSchema }
     );
   }
 
@@ -66,13 +99,17 @@ export class ServiceAppointmentsResource {
    * Retrieves a service appointment by ID.
    *
    * @param id - Service appointment ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the service appointment
    *
    * @throws {@link WiilAPIError} - When the appointment is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<ServiceAppointment> {
-    return this.http.get<ServiceAppointment>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ServiceAppointment> {
+    return this.http.get<ServiceAppointment>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ServiceAppointmentSchema }
+    );
   }
 
   /**
@@ -80,6 +117,7 @@ export class ServiceAppointmentsResource {
    *
    * @param customerId - Customer ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of service appointments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -87,16 +125,34 @@ export class ServiceAppointmentsResource {
    */
   public async getByCustomer(
     customerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceAppointment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceAppointment>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-customer/${customerId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-customer/${customerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ServiceAppointment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceAppointmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ServiceAppointment>>(path);
+  /**
+   * Iterates over every page of {@link ServiceAppointmentsResource.getByCustomer}, yielding each item.
+   *
+   * @param customerId - Customer ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByCustomer(
+    customerId: string,
+    params?: ListParams<ServiceAppointment>,
+    options?: PaginateOptions
+  ): PageIterator<ServiceAppointment> {
+    return paginate((params) => this.getByCustomer(customerId, params, options), params, options);
   }
 
   /**
@@ -104,6 +160,7 @@ export class ServiceAppointmentsResource {
    *
    * @param serviceId - Service ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of service appointments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -111,16 +168,34 @@ export class ServiceAppointmentsResource {
    */
   public async getByService(
     serviceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceAppointment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceAppointment>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-service/${serviceId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-service/${serviceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ServiceAppointment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceAppointmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ServiceAppointment>>(path);
+  /**
+   * Iterates over every page of {@link ServiceAppointmentsResource.getByService}, yielding each item.
+   *
+   * @param serviceId - Service ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByService(
+    serviceId: string,
+    params?: ListParams<ServiceAppointment>,
+    options?: PaginateOptions
+  ): PageIterator<ServiceAppointment> {
+    return paginate((params) => this.getByService(serviceId, params, options), params, options);
   }
 
   /**
@@ -128,6 +203,7 @@ export class ServiceAppointmentsResource {
    *
    * @param providerId - Provider ID (ServicePerson ID)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of service appointments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -135,16 +211,34 @@ export class ServiceAppointmentsResource {
    */
   public async getByProvider(
     providerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceAppointment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceAppointment>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-provider/${providerId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-provider/${providerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ServiceAppointment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceAppointmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ServiceAppointment>>(path);
+  /**
+   * Iterates over every page of {@link ServiceAppointmentsResource.getByProvider}, yielding each item.
+   *
+   * @param providerId - Provider ID (ServicePerson ID)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByProvider(
+    providerId: string,
+    params?: ListParams<ServiceAppointment>,
+    options?: PaginateOptions
+  ): PageIterator<ServiceAppointment> {
+    return paginate((params) => this.getByProvider(providerId, params, options), params, options);
   }
 
   /**
@@ -153,6 +247,7 @@ export class ServiceAppointmentsResource {
    * @param startDate - Range start timestamp
    * @param endDate - Range end timestamp
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of service appointments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -161,35 +256,58 @@ export class ServiceAppointmentsResource {
   public async getByDateRange(
     startDate: number,
     endDate: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceAppointment>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceAppointment>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('startDate', startDate.toString());
-    queryParams.append('endDate', endDate.toString());
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-date-range${buildQueryString(params, { startDate, endDate })}`;
 
-    const path = `${this.resource_path}/by-date-range?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<ServiceAppointment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceAppointmentSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ServiceAppointment>>(path);
+  /**
+   * Iterates over every page of {@link ServiceAppointmentsResource.getByDateRange}, yielding each item.
+   *
+   * @param startDate - Range start timestamp
+   * @param endDate - Range end timestamp
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByDateRange(
+    startDate: number,
+    endDate: number,
+    params?: ListParams<ServiceAppointment>,
+    options?: PaginateOptions
+  ): PageIterator<ServiceAppointment> {
+    return paginate((params) => this.getByDateRange(startDate, endDate, params, options), params, options);
   }
 
   /**
    * Updates an existing service appointment.
    *
    * @param data - Service appointment update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated service appointment
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the appointment is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(data: UpdateServiceAppointment): Promise<ServiceAppointment> {
+  public async update(
+    data: UpdateServiceAppointment,
+    options?: RequestOptions
+  ): Promise<ServiceAppointment> {
     return this.http.patch<UpdateServiceAppointment, ServiceAppointment>(
       this.resource_path,
       data,
-      UpdateServiceAppointmentSchema
+      UpdateServiceAppointmentSchema,
+      { ...options, responseSchema: ServiceAppointmentSchema }
     );
   }
 
@@ -198,16 +316,23 @@ export class ServiceAppointmentsResource {
    *
    * @param id - Appointment ID
    * @param status - New appointment status
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated appointment
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the appointment is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async updateStatus(id: string, status: AppointmentStatus): Promise<ServiceAppointment> {
+  public async updateStatus(
+    id: string,
+    status: AppointmentStatus,
+    options?: RequestOptions
+  ): Promise<ServiceAppointment> {
     return this.http.patch<{ status: AppointmentStatus }, ServiceAppointment>(
       `${this.resource_path}/${id}/status`,
-      { status }
+      { status },
+      undefined,
+      { ...options, responseSchema: ServiceAppointmentSchema }
     );
   }
 
@@ -216,15 +341,22 @@ export class ServiceAppointmentsResource {
    *
    * @param id - Appointment ID
    * @param data - Cancellation data
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the cancelled appointment
    *
    * @throws {@link WiilAPIError} - When the appointment is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async cancel(id: string, data: { cancelReason?: string }): Promise<ServiceAppointment> {
+  public async cancel(
+    id: string,
+    data: { cancelReason?: string },
+    options?: RequestOptions
+  ): Promise<ServiceAppointment> {
     return this.http.post<{ cancelReason?: string }, ServiceAppointment>(
       `${this.resource_path}/${id}/cancel`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: ServiceAppointmentSchema }
     );
   }
 
@@ -233,6 +365,7 @@ export class ServiceAppointmentsResource {
    *
    * @param id - Appointment ID
    * @param data - New scheduling data with timestamps
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the rescheduled appointment
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -241,11 +374,14 @@ export class ServiceAppointmentsResource {
    */
   public async reschedule(
     id: string,
-    data: { startTime: number; endTime?: number; businessServiceId?: string }
+    data: { startTime: number; endTime?: number; businessServiceId?: string },
+    options?: RequestOptions
   ): Promise<ServiceAppointment> {
     return this.http.post<{ startTime: number; endTime?: number; businessServiceId?: string }, ServiceAppointment>(
       `${this.resource_path}/${id}/reschedule`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: ServiceAppointmentSchema }
     );
   }
 
@@ -253,41 +389,98 @@ export class ServiceAppointmentsResource {
    * Deletes a service appointment.
    *
    * @param id - Appointment ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the appointment is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists service appointments with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of service appointments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceAppointment>,
+    filters?: ServiceAppointmentFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceAppointment>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ServiceAppointment>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceAppointmentSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ServiceAppointmentsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.serviceAppointments.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<ServiceAppointment>,
+    filters?: ServiceAppointmentFilters,
+    options?: PaginateOptions
+  ): PageIterator<ServiceAppointment> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ServiceAppointment>>(path);
+  /**
+   * Retrieves every item of {@link ServiceAppointmentsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ServiceAppointmentsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.serviceAppointments.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<ServiceAppointment>,
+    filters?: ServiceAppointmentFilters,
+    options?: PaginateOptions
+  ): Promise<ServiceAppointment[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple service appointments in a single batch request.
    *
    * @param data - Array of service appointment data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created service appointments
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -304,7 +497,8 @@ export class ServiceAppointmentsResource {
    * ```
    */
   public async createBatch(
-    data: CreateServiceAppointment[]
+    data: CreateServiceAppointment[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceAppointment>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -325,7 +519,39 @@ export class ServiceAppointmentsResource {
 
     return this.http.post<CreateServiceAppointment[], PaginatedResultType<ServiceAppointment>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ServiceAppointmentSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ServiceAppointmentsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of service appointment data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.serviceAppointments.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateServiceAppointment[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateServiceAppointment, ServiceAppointment>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateServiceAppointmentSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 
@@ -333,6 +559,7 @@ export class ServiceAppointmentsResource {
    * Retrieves available appointment slots for a service.
    *
    * @param request - Slot query request parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to available appointment slots
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -354,7 +581,8 @@ export class ServiceAppointmentsResource {
    * ```
    */
   public async getAvailableSlots(
-    request: ServiceSlotQueryRequest
+    request: ServiceSlotQueryRequest,
+    options?: RequestOptions
   ): Promise<ServiceSlotQueryResponse> {
     const queryParams = new URLSearchParams();
     queryParams.append('serviceId', request.serviceId);
@@ -364,7 +592,8 @@ export class ServiceAppointmentsResource {
     if (request.maxResults) queryParams.append('maxResults', request.maxResults.toString());
 
     return this.http.get<ServiceSlotQueryResponse>(
-      `${this.resource_path}/available-slots?${queryParams.toString()}`
+      `${this.resource_path}/available-slots?${queryParams.toString()}`,
+      { ...options, responseSchema: ServiceSlotQueryResponseSchema }
     );
   }
 }
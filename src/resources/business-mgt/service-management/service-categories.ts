@@ -10,13 +10,27 @@ import {
   UpdateServiceCategory,
   UpdateServiceCategorySchema,
   PaginatedResultType,
-  PaginationRequest,
+  ServiceCategorySchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing service categories.
+ */
+export interface ServiceCategoryFilters {
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing service categories in the WIIL Platform.
  *
@@ -65,10 +79,21 @@ export class ServiceCategoriesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ServiceCategoriesResource> {
+    return withResponse(this.http, (http) => new ServiceCategoriesResource(http));
+  }
+
   /**
    * Creates a new service category.
    *
    * @param data - Service category data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created service category
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -87,11 +112,12 @@ export class ServiceCategoriesResource {
    * console.log('Created category:', category.id);
    * ```
    */
-  public async create(data: CreateServiceCategory): Promise<ServiceCategory> {
+  public async create(data: CreateServiceCategory, options?: RequestOptions): Promise<ServiceCategory> {
     return this.http.post<CreateServiceCategory, ServiceCategory>(
       this.resource_path,
       data,
-      CreateServiceCategorySchema
+      CreateServiceCategorySchema,
+      { ...options, responseSchema: ServiceCategorySchema }
     );
   }
 
@@ -99,6 +125,7 @@ export class ServiceCategoriesResource {
    * Retrieves a service category by ID.
    *
    * @param id - Service category ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the service category
    *
    * @throws {@link WiilAPIError} - When the category is not found or API returns an error
@@ -111,14 +138,18 @@ export class ServiceCategoriesResource {
    * console.log('Services count:', category.displayOrder);
    * ```
    */
-  public async get(id: string): Promise<ServiceCategory> {
-    return this.http.get<ServiceCategory>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ServiceCategory> {
+    return this.http.get<ServiceCategory>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ServiceCategorySchema }
+    );
   }
 
   /**
    * Updates an existing service category.
    *
    * @param data - Service category update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated service category
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -135,11 +166,15 @@ export class ServiceCategoriesResource {
    * console.log('Updated category:', updated.name);
    * ```
    */
-  public async update(data: UpdateServiceCategory): Promise<ServiceCategory> {
+  public async update(
+    data: UpdateServiceCategory,
+    options?: RequestOptions
+  ): Promise<ServiceCategory> {
     return this.http.patch<UpdateServiceCategory, ServiceCategory>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateServiceCategorySchema
+      UpdateServiceCategorySchema,
+      { ...options, responseSchema: ServiceCategorySchema }
     );
   }
 
@@ -147,6 +182,7 @@ export class ServiceCategoriesResource {
    * Deletes a service category.
    *
    * @param id - Service category ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the category is not found or API returns an error
@@ -164,17 +200,21 @@ export class ServiceCategoriesResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Toggles the active status of a service category.
+   *
+   * @param options - Optional request options such as an abort signal
    */
-  public async toggleActive(id: string): Promise<ServiceCategory> {
+  public async toggleActive(id: string, options?: RequestOptions): Promise<ServiceCategory> {
     return this.http.post<Record<string, never>, ServiceCategory>(
       `${this.resource_path}/${id}/toggle-active`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: ServiceCategorySchema }
     );
   }
 
@@ -182,6 +222,8 @@ export class ServiceCategoriesResource {
    * Lists service categories with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of service categories
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -197,22 +239,76 @@ export class ServiceCategoriesResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceCategory>,
+    filters?: ServiceCategoryFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceCategory>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ServiceCategory>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceCategorySchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ServiceCategoriesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.serviceCategories.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<ServiceCategory>,
+    filters?: ServiceCategoryFilters,
+    options?: PaginateOptions
+  ): PageIterator<ServiceCategory> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ServiceCategory>>(path);
+  /**
+   * Retrieves every item of {@link ServiceCategoriesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ServiceCategoriesResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.serviceCategories.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<ServiceCategory>,
+    filters?: ServiceCategoryFilters,
+    options?: PaginateOptions
+  ): Promise<ServiceCategory[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple service categories in a single batch request.
    *
    * @param data - Array of service category data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created service categories
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -229,7 +325,8 @@ export class ServiceCategoriesResource {
    * ```
    */
   public async createBatch(
-    data: CreateServiceCategory[]
+    data: CreateServiceCategory[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceCategory>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -250,7 +347,39 @@ export class ServiceCategoriesResource {
 
     return this.http.post<CreateServiceCategory[], PaginatedResultType<ServiceCategory>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ServiceCategorySchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ServiceCategoriesResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of service category data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.serviceCategories.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateServiceCategory[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateServiceCategory, ServiceCategory>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateServiceCategorySchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
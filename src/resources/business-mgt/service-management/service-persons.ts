@@ -10,13 +10,29 @@ import {
   UpdateServicePerson,
   UpdateServicePersonSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ServicePersonSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing service persons.
+ */
+export interface ServicePersonFilters {
+  /** Filter by business location ID */
+  locationId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing service persons (staff/providers) in the WIIL Platform.
  *
@@ -66,10 +82,21 @@ export class ServicePersonsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ServicePersonsResource> {
+    return withResponse(this.http, (http) => new ServicePersonsResource(http));
+  }
+
   /**
    * Creates a new service person.
    *
    * @param data - Service person data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created service person
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -91,11 +118,12 @@ export class ServicePersonsResource {
    * console.log('Created person:', person.id);
    * ```
    */
-  public async create(data: CreateServicePerson): Promise<ServicePerson> {
+  public async create(data: CreateServicePerson, options?: RequestOptions): Promise<ServicePerson> {
     return this.http.post<CreateServicePerson, ServicePerson>(
       this.resource_path,
       data,
-      CreateServicePersonSchema
+      CreateServicePersonSchema,
+      { ...options, responseSchema: ServicePersonSchema }
     );
   }
 
@@ -103,6 +131,7 @@ export class ServicePersonsResource {
    * Retrieves a service person by ID.
    *
    * @param id - Service person ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the service person
    *
    * @throws {@link WiilAPIError} - When the person is not found or API returns an error
@@ -115,8 +144,11 @@ export class ServicePersonsResource {
    * console.log('Commission:', person.commissionPercent, '%');
    * ```
    */
-  public async get(id: string): Promise<ServicePerson> {
-    return this.http.get<ServicePerson>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ServicePerson> {
+    return this.http.get<ServicePerson>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ServicePersonSchema }
+    );
   }
 
   /**
@@ -124,6 +156,7 @@ export class ServicePersonsResource {
    *
    * @param locationId - Location ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of service persons
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -137,22 +170,41 @@ export class ServicePersonsResource {
    */
   public async getByLocation(
     locationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServicePerson>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServicePerson>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-location/${locationId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-location/${locationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ServicePerson>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServicePersonSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ServicePerson>>(path);
+  /**
+   * Iterates over every page of {@link ServicePersonsResource.getByLocation}, yielding each item.
+   *
+   * @param locationId - Location ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByLocation(
+    locationId: string,
+    params?: ListParams<ServicePerson>,
+    options?: PaginateOptions
+  ): PageIterator<ServicePerson> {
+    return paginate((params) => this.getByLocation(locationId, params, options), params, options);
   }
 
   /**
    * Updates an existing service person.
    *
    * @param data - Service person update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated service person
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -169,11 +221,12 @@ export class ServicePersonsResource {
    * console.log('Updated person:', updated.name);
    * ```
    */
-  public async update(data: UpdateServicePerson): Promise<ServicePerson> {
+  public async update(data: UpdateServicePerson, options?: RequestOptions): Promise<ServicePerson> {
     return this.http.patch<UpdateServicePerson, ServicePerson>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateServicePersonSchema
+      UpdateServicePersonSchema,
+      { ...options, responseSchema: ServicePersonSchema }
     );
   }
 
@@ -181,6 +234,7 @@ export class ServicePersonsResource {
    * Deletes a service person.
    *
    * @param id - Service person ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the person is not found or API returns an error
@@ -197,14 +251,16 @@ export class ServicePersonsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists service persons with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of service persons
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -220,22 +276,76 @@ export class ServicePersonsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServicePerson>,
+    filters?: ServicePersonFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServicePerson>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ServicePerson>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServicePersonSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ServicePersonsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.servicePersons.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<ServicePerson>,
+    filters?: ServicePersonFilters,
+    options?: PaginateOptions
+  ): PageIterator<ServicePerson> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ServicePerson>>(path);
+  /**
+   * Retrieves every item of {@link ServicePersonsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ServicePersonsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.servicePersons.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<ServicePerson>,
+    filters?: ServicePersonFilters,
+    options?: PaginateOptions
+  ): Promise<ServicePerson[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple service persons in a single batch request.
    *
    * @param data - Array of service person data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created service persons
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -252,7 +362,8 @@ export class ServicePersonsResource {
    * ```
    */
   public async createBatch(
-    data: CreateServicePerson[]
+    data: CreateServicePerson[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServicePerson>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -273,7 +384,39 @@ export class ServicePersonsResource {
 
     return this.http.post<CreateServicePerson[], PaginatedResultType<ServicePerson>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ServicePersonSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ServicePersonsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of service person data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.servicePersons.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateServicePerson[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateServicePerson, ServicePerson>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateServicePersonSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -10,13 +10,29 @@ import {
   UpdateServicePricingRule,
   UpdateServicePricingRuleSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ServicePricingRuleSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing service pricing rules.
+ */
+export interface ServicePricingRuleFilters {
+  /** Filter by business location ID */
+  locationId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
+
 /**
  * Resource class for managing service pricing rules in the WIIL Platform.
  *
@@ -64,10 +80,21 @@ export class ServicePricingRulesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ServicePricingRulesResource> {
+    return withResponse(this.http, (http) => new ServicePricingRulesResource(http));
+  }
+
   /**
    * Creates a new service pricing rule.
    *
    * @param data - Service pricing rule data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created pricing rule
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -95,11 +122,12 @@ export class ServicePricingRulesResource {
    * console.log('Created rule:', rule.id);
    * ```
    */
-  public async create(data: CreateServicePricingRule): Promise<ServicePricingRule> {
+  public async create(data: CreateServicePricingRule, options?: RequestOptions): Promise<ServicePricingRule> {
     return this.http.post<CreateServicePricingRule, ServicePricingRule>(
       this.resource_path,
       data,
-      CreateServicePricingRuleSchema
+      CreateServicePricingRuleSchema,
+      { ...options, responseSchema: ServicePricingRuleSchema }
     );
   }
 
@@ -107,6 +135,7 @@ export class ServicePricingRulesResource {
    * Retrieves a service pricing rule by ID.
    *
    * @param id - Service pricing rule ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the pricing rule
    *
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
@@ -119,8 +148,11 @@ export class ServicePricingRulesResource {
    * console.log('Priority:', rule.priority);
    * ```
    */
-  public async get(id: string): Promise<ServicePricingRule> {
-    return this.http.get<ServicePricingRule>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ServicePricingRule> {
+    return this.http.get<ServicePricingRule>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ServicePricingRuleSchema }
+    );
   }
 
   /**
@@ -128,6 +160,7 @@ export class ServicePricingRulesResource {
    *
    * @param locationId - Location ID (null for global rules)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of pricing rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -141,22 +174,41 @@ export class ServicePricingRulesResource {
    */
   public async getByLocation(
     locationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServicePricingRule>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServicePricingRule>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-location/${locationId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-location/${locationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ServicePricingRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServicePricingRuleSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ServicePricingRule>>(path);
+  /**
+   * Iterates over every page of {@link ServicePricingRulesResource.getByLocation}, yielding each item.
+   *
+   * @param locationId - Location ID (null for global rules)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByLocation(
+    locationId: string,
+    params?: ListParams<ServicePricingRule>,
+    options?: PaginateOptions
+  ): PageIterator<ServicePricingRule> {
+    return paginate((params) => this.getByLocation(locationId, params, options), params, options);
   }
 
   /**
    * Updates an existing service pricing rule.
    *
    * @param data - Service pricing rule update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated pricing rule
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -176,11 +228,15 @@ export class ServicePricingRulesResource {
    * console.log('Updated rule:', updated.name);
    * ```
    */
-  public async update(data: UpdateServicePricingRule): Promise<ServicePricingRule> {
+  public async update(
+    data: UpdateServicePricingRule,
+    options?: RequestOptions
+  ): Promise<ServicePricingRule> {
     return this.http.patch<UpdateServicePricingRule, ServicePricingRule>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateServicePricingRuleSchema
+      UpdateServicePricingRuleSchema,
+      { ...options, responseSchema: ServicePricingRuleSchema }
     );
   }
 
@@ -188,6 +244,7 @@ export class ServicePricingRulesResource {
    * Deletes a service pricing rule.
    *
    * @param id - Service pricing rule ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the rule is not found or API returns an error
@@ -204,14 +261,16 @@ export class ServicePricingRulesResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists service pricing rules with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of pricing rules
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -227,22 +286,76 @@ export class ServicePricingRulesResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServicePricingRule>,
+    filters?: ServicePricingRuleFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServicePricingRule>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ServicePricingRule>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServicePricingRuleSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ServicePricingRulesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.servicePricingRules.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<ServicePricingRule>,
+    filters?: ServicePricingRuleFilters,
+    options?: PaginateOptions
+  ): PageIterator<ServicePricingRule> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ServicePricingRule>>(path);
+  /**
+   * Retrieves every item of {@link ServicePricingRulesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ServicePricingRulesResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.servicePricingRules.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<ServicePricingRule>,
+    filters?: ServicePricingRuleFilters,
+    options?: PaginateOptions
+  ): Promise<ServicePricingRule[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple service pricing rules in a single batch request.
    *
    * @param data - Array of pricing rule data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created pricing rules
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -267,7 +380,8 @@ export class ServicePricingRulesResource {
    * ```
    */
   public async createBatch(
-    data: CreateServicePricingRule[]
+    data: CreateServicePricingRule[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServicePricingRule>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -288,7 +402,39 @@ export class ServicePricingRulesResource {
 
     return this.http.post<CreateServicePricingRule[], PaginatedResultType<ServicePricingRule>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ServicePricingRuleSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ServicePricingRulesResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of pricing rule data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.servicePricingRules.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateServicePricingRule[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateServicePricingRule, ServicePricingRule>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateServicePricingRuleSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
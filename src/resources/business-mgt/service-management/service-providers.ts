@@ -10,13 +10,29 @@ import {
   UpdateServiceProvider,
   UpdateServiceProviderSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ServiceProviderSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 100;
 
+/**
+ * Filters for listing service providers.
+ */
+export interface ServiceProviderFilters {
+  /** Filter by business service ID */
+  serviceId?: string;
+  /** Filter by provider (ServicePerson) ID */
+  providerId?: string;
+}
+
 /**
  * Resource class for managing service provider assignments in the WIIL Platform.
  *
@@ -60,10 +76,21 @@ export class ServiceProvidersResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ServiceProvidersResource> {
+    return withResponse(this.http, (http) => new ServiceProvidersResource(http));
+  }
+
   /**
    * Creates a new service provider assignment.
    *
    * @param data - Service provider assignment data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created assignment
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -82,11 +109,12 @@ export class ServiceProvidersResource {
    * console.log('Created assignment:', assignment.id);
    * ```
    */
-  public async create(data: CreateServiceProvider): Promise<ServiceProvider> {
+  public async create(data: CreateServiceProvider, options?: RequestOptions): Promise<ServiceProvider> {
     return this.http.post<CreateServiceProvider, ServiceProvider>(
       this.resource_path,
       data,
-      CreateServiceProviderSchema
+      CreateServiceProviderSchema,
+      { ...options, responseSchema: ServiceProviderSchema }
     );
   }
 
@@ -94,6 +122,7 @@ export class ServiceProvidersResource {
    * Retrieves a service provider assignment by ID.
    *
    * @param id - Service provider assignment ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the assignment
    *
    * @throws {@link WiilAPIError} - When the assignment is not found or API returns an error
@@ -106,8 +135,11 @@ export class ServiceProvidersResource {
    * console.log('Provider:', assignment.providerId);
    * ```
    */
-  public async get(id: string): Promise<ServiceProvider> {
-    return this.http.get<ServiceProvider>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ServiceProvider> {
+    return this.http.get<ServiceProvider>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ServiceProviderSchema }
+    );
   }
 
   /**
@@ -115,6 +147,7 @@ export class ServiceProvidersResource {
    *
    * @param serviceId - Service ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -128,16 +161,34 @@ export class ServiceProvidersResource {
    */
   public async getByService(
     serviceId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceProvider>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceProvider>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-service/${serviceId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-service/${serviceId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ServiceProvider>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceProviderSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ServiceProvider>>(path);
+  /**
+   * Iterates over every page of {@link ServiceProvidersResource.getByService}, yielding each item.
+   *
+   * @param serviceId - Service ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByService(
+    serviceId: string,
+    params?: ListParams<ServiceProvider>,
+    options?: PaginateOptions
+  ): PageIterator<ServiceProvider> {
+    return paginate((params) => this.getByService(serviceId, params, options), params, options);
   }
 
   /**
@@ -145,6 +196,7 @@ export class ServiceProvidersResource {
    *
    * @param providerId - Provider ID (ServicePerson ID)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -158,22 +210,41 @@ export class ServiceProvidersResource {
    */
   public async getByProvider(
     providerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceProvider>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceProvider>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-provider/${providerId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-provider/${providerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ServiceProvider>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceProviderSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ServiceProvider>>(path);
+  /**
+   * Iterates over every page of {@link ServiceProvidersResource.getByProvider}, yielding each item.
+   *
+   * @param providerId - Provider ID (ServicePerson ID)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByProvider(
+    providerId: string,
+    params?: ListParams<ServiceProvider>,
+    options?: PaginateOptions
+  ): PageIterator<ServiceProvider> {
+    return paginate((params) => this.getByProvider(providerId, params, options), params, options);
   }
 
   /**
    * Updates an existing service provider assignment.
    *
    * @param data - Service provider update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated assignment
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -190,11 +261,15 @@ export class ServiceProvidersResource {
    * console.log('Updated assignment:', updated.id);
    * ```
    */
-  public async update(data: UpdateServiceProvider): Promise<ServiceProvider> {
+  public async update(
+    data: UpdateServiceProvider,
+    options?: RequestOptions
+  ): Promise<ServiceProvider> {
     return this.http.patch<UpdateServiceProvider, ServiceProvider>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateServiceProviderSchema
+      UpdateServiceProviderSchema,
+      { ...options, responseSchema: ServiceProviderSchema }
     );
   }
 
@@ -202,6 +277,7 @@ export class ServiceProvidersResource {
    * Deletes a service provider assignment.
    *
    * @param id - Service provider assignment ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the assignment is not found or API returns an error
@@ -219,14 +295,16 @@ export class ServiceProvidersResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists service provider assignments with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of assignments
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -239,22 +317,76 @@ export class ServiceProvidersResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceProvider>,
+    filters?: ServiceProviderFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceProvider>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ServiceProvider>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceProviderSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ServiceProvidersResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.serviceProviders.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<ServiceProvider>,
+    filters?: ServiceProviderFilters,
+    options?: PaginateOptions
+  ): PageIterator<ServiceProvider> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ServiceProvider>>(path);
+  /**
+   * Retrieves every item of {@link ServiceProvidersResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ServiceProvidersResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.serviceProviders.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<ServiceProvider>,
+    filters?: ServiceProviderFilters,
+    options?: PaginateOptions
+  ): Promise<ServiceProvider[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple service provider assignments in a single batch request.
    *
    * @param data - Array of assignment data (maximum 100 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created assignments
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -272,7 +404,8 @@ export class ServiceProvidersResource {
    * ```
    */
   public async createBatch(
-    data: CreateServiceProvider[]
+    data: CreateServiceProvider[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceProvider>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -293,7 +426,39 @@ export class ServiceProvidersResource {
 
     return this.http.post<CreateServiceProvider[], PaginatedResultType<ServiceProvider>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ServiceProviderSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ServiceProvidersResource.createBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param data - Array of assignment data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.serviceProviders.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateServiceProvider[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateServiceProvider, ServiceProvider>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateServiceProviderSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
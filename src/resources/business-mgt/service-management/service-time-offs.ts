@@ -10,13 +10,29 @@ import {
   UpdateServiceProviderTimeOff,
   UpdateServiceProviderTimeOffSchema,
   PaginatedResultType,
-  PaginationRequest,
+  ServiceProviderTimeOffSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../../client/batch';
+import { WithResponse, withResponse } from '../../../client/response';
+import { RequestOptions } from '../../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../../client/query';
+import { paginatedResultSchema } from '../../../client/validation';
 import { WiilValidationError } from '../../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing service time offs.
+ */
+export interface ServiceTimeOffFilters extends DateRangeFilters {
+  /** Filter by provider (ServicePerson) ID */
+  providerId?: string;
+  /** Filter by time off status */
+  status?: ServiceProviderTimeOff['status'];
+}
+
 /**
  * Resource class for managing service provider time off in the WIIL Platform.
  *
@@ -61,10 +77,21 @@ export class ServiceTimeOffsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ServiceTimeOffsResource> {
+    return withResponse(this.http, (http) => new ServiceTimeOffsResource(http));
+  }
+
   /**
    * Creates a new service provider time off record.
    *
    * @param data - Time off data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created time off record
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -93,11 +120,12 @@ export class ServiceTimeOffsResource {
    * });
    * ```
    */
-  public async create(data: CreateServiceProviderTimeOff): Promise<ServiceProviderTimeOff> {
+  public async create(data: CreateServiceProviderTimeOff, options?: RequestOptions): Promise<ServiceProviderTimeOff> {
     return this.http.post<CreateServiceProviderTimeOff, ServiceProviderTimeOff>(
       this.resource_path,
       data,
-      CreateServiceProviderTimeOffSchema
+      CreateServiceProviderTimeOffSchema,
+      { ...options, responseSchema: ServiceProviderTimeOffSchema }
     );
   }
 
@@ -105,6 +133,7 @@ export class ServiceTimeOffsResource {
    * Retrieves a service provider time off record by ID.
    *
    * @param id - Time off record ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the time off record
    *
    * @throws {@link WiilAPIError} - When the record is not found or API returns an error
@@ -118,8 +147,11 @@ export class ServiceTimeOffsResource {
    * console.log('Status:', timeOff.status);
    * ```
    */
-  public async get(id: string): Promise<ServiceProviderTimeOff> {
-    return this.http.get<ServiceProviderTimeOff>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ServiceProviderTimeOff> {
+    return this.http.get<ServiceProviderTimeOff>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ServiceProviderTimeOffSchema }
+    );
   }
 
   /**
@@ -127,6 +159,7 @@ export class ServiceTimeOffsResource {
    *
    * @param providerId - Provider ID (ServicePerson ID)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of time off records
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -143,16 +176,34 @@ export class ServiceTimeOffsResource {
    */
   public async getByProvider(
     providerId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceProviderTimeOff>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceProviderTimeOff>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-provider/${providerId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-provider/${providerId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<ServiceProviderTimeOff>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceProviderTimeOffSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ServiceProviderTimeOff>>(path);
+  /**
+   * Iterates over every page of {@link ServiceTimeOffsResource.getByProvider}, yielding each item.
+   *
+   * @param providerId - Provider ID (ServicePerson ID)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByProvider(
+    providerId: string,
+    params?: ListParams<ServiceProviderTimeOff>,
+    options?: PaginateOptions
+  ): PageIterator<ServiceProviderTimeOff> {
+    return paginate((params) => this.getByProvider(providerId, params, options), params, options);
   }
 
   /**
@@ -162,6 +213,7 @@ export class ServiceTimeOffsResource {
    * @param startDate - Range start timestamp
    * @param endDate - Range end timestamp
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of time off records
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -178,24 +230,45 @@ export class ServiceTimeOffsResource {
     providerId: string,
     startDate: number,
     endDate: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceProviderTimeOff>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceProviderTimeOff>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('startDate', startDate.toString());
-    queryParams.append('endDate', endDate.toString());
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-date-range/${providerId}${buildQueryString(params, { startDate, endDate })}`;
 
-    const path = `${this.resource_path}/by-date-range/${providerId}?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<ServiceProviderTimeOff>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceProviderTimeOffSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<ServiceProviderTimeOff>>(path);
+  /**
+   * Iterates over every page of {@link ServiceTimeOffsResource.getByDateRange}, yielding each item.
+   *
+   * @param providerId - Provider ID (ServicePerson ID)
+   * @param startDate - Range start timestamp
+   * @param endDate - Range end timestamp
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByDateRange(
+    providerId: string,
+    startDate: number,
+    endDate: number,
+    params?: ListParams<ServiceProviderTimeOff>,
+    options?: PaginateOptions
+  ): PageIterator<ServiceProviderTimeOff> {
+    return paginate((params) => this.getByDateRange(providerId, startDate, endDate, params, options), params, options);
   }
 
   /**
    * Updates an existing service provider time off record.
    *
    * @param data - Time off update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated time off record
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -212,11 +285,15 @@ export class ServiceTimeOffsResource {
    * console.log('Updated time off:', updated.id);
    * ```
    */
-  public async update(data: UpdateServiceProviderTimeOff): Promise<ServiceProviderTimeOff> {
+  public async update(
+    data: UpdateServiceProviderTimeOff,
+    options?: RequestOptions
+  ): Promise<ServiceProviderTimeOff> {
     return this.http.patch<UpdateServiceProviderTimeOff, ServiceProviderTimeOff>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateServiceProviderTimeOffSchema
+      UpdateServiceProviderTimeOffSchema,
+      { ...options, responseSchema: ServiceProviderTimeOffSchema }
     );
   }
 
@@ -224,6 +301,7 @@ export class ServiceTimeOffsResource {
    * Approves a pending time off request.
    *
    * @param id - Time off record ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the approved time off record
    *
    * @throws {@link WiilAPIError} - When the record is not found or API returns an error
@@ -235,10 +313,12 @@ export class ServiceTimeOffsResource {
    * console.log('Approved time off for:', approved.providerId);
    * ```
    */
-  public async approve(id: string): Promise<ServiceProviderTimeOff> {
+  public async approve(id: string, options?: RequestOptions): Promise<ServiceProviderTimeOff> {
     return this.http.post<Record<string, never>, ServiceProviderTimeOff>(
       `${this.resource_path}/${id}/approve`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: ServiceProviderTimeOffSchema }
     );
   }
 
@@ -247,6 +327,7 @@ export class ServiceTimeOffsResource {
    *
    * @param id - Time off record ID
    * @param reason - Optional rejection reason
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the rejected time off record
    *
    * @throws {@link WiilAPIError} - When the record is not found or API returns an error
@@ -258,10 +339,16 @@ export class ServiceTimeOffsResource {
    * console.log('Rejected time off:', rejected.id);
    * ```
    */
-  public async reject(id: string, reason?: string): Promise<ServiceProviderTimeOff> {
+  public async reject(
+    id: string,
+    reason?: string,
+    options?: RequestOptions
+  ): Promise<ServiceProviderTimeOff> {
     return this.http.post<{ reason?: string }, ServiceProviderTimeOff>(
       `${this.resource_path}/${id}/reject`,
-      { reason }
+      { reason },
+      undefined,
+      { ...options, responseSchema: ServiceProviderTimeOffSchema }
     );
   }
 
@@ -269,6 +356,7 @@ export class ServiceTimeOffsResource {
    * Deletes a service provider time off record.
    *
    * @param id - Time off record ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the record is not found or API returns an error
@@ -286,14 +374,16 @@ export class ServiceTimeOffsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists service provider time off records with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of time off records
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -309,22 +399,76 @@ export class ServiceTimeOffsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceProviderTimeOff>,
+    filters?: ServiceTimeOffFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceProviderTimeOff>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ServiceProviderTimeOff>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceProviderTimeOffSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ServiceTimeOffsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.serviceTimeOffs.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<ServiceProviderTimeOff>,
+    filters?: ServiceTimeOffFilters,
+    options?: PaginateOptions
+  ): PageIterator<ServiceProviderTimeOff> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ServiceProviderTimeOff>>(path);
+  /**
+   * Retrieves every item of {@link ServiceTimeOffsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ServiceTimeOffsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.serviceTimeOffs.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<ServiceProviderTimeOff>,
+    filters?: ServiceTimeOffFilters,
+    options?: PaginateOptions
+  ): Promise<ServiceProviderTimeOff[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple time off records in a single batch request.
    *
    * @param data - Array of time off data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created time off records
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -341,7 +485,8 @@ export class ServiceTimeOffsResource {
    * ```
    */
   public async createBatch(
-    data: CreateServiceProviderTimeOff[]
+    data: CreateServiceProviderTimeOff[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceProviderTimeOff>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -362,7 +507,39 @@ export class ServiceTimeOffsResource {
 
     return this.http.post<CreateServiceProviderTimeOff[], PaginatedResultType<ServiceProviderTimeOff>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(ServiceProviderTimeOffSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link ServiceTimeOffsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of time off data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.serviceTimeOffs.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateServiceProviderTimeOff[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateServiceProviderTimeOff, ServiceProviderTimeOff>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateServiceProviderTimeOffSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -13,13 +13,30 @@ import {
   CallRequestStatus,
   ScheduleType,
   PaginatedResultType,
-  PaginationRequest,
+  BusinessCallRequestSchema,
+  CallRequestResultSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../client/batch';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
 import { WiilValidationError } from '../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing call requests.
+ */
+export interface OutboundCallFilters extends DateRangeFilters {
+  /** Filter by call request status */
+  status?: CallRequestStatus;
+  /** Filter by agent configuration ID */
+  agentConfigurationId?: string;
+}
+
 /**
  * Resource class for managing outbound call requests in the WIIL Platform.
  *
@@ -66,10 +83,21 @@ export class OutboundCallsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<OutboundCallsResource> {
+    return withResponse(this.http, (http) => new OutboundCallsResource(http));
+  }
+
   /**
    * Creates a new outbound call request.
    *
    * @param data - Call request data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the call request result
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -89,11 +117,12 @@ export class OutboundCallsResource {
    * console.log('Call initiated:', result.request?.id);
    * ```
    */
-  public async create(data: CreateCallRequest): Promise<CallRequestResult> {
+  public async create(data: CreateCallRequest, options?: RequestOptions): Promise<CallRequestResult> {
     return this.http.post<CreateCallRequest, CallRequestResult>(
       this.resource_path,
       data,
-      CreateCallRequestSchema
+      CreateCallRequestSchema,
+      { ...options, responseSchema: CallRequestResultSchema }
     );
   }
 
@@ -101,6 +130,7 @@ export class OutboundCallsResource {
    * Retrieves a call request by ID.
    *
    * @param id - Call request ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the call request
    *
    * @throws {@link WiilAPIError} - When the call request is not found or API returns an error
@@ -113,8 +143,11 @@ export class OutboundCallsResource {
    * console.log('Scheduled at:', call.scheduledAt);
    * ```
    */
-  public async get(id: string): Promise<BusinessCallRequest> {
-    return this.http.get<BusinessCallRequest>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<BusinessCallRequest> {
+    return this.http.get<BusinessCallRequest>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: BusinessCallRequestSchema }
+    );
   }
 
   /**
@@ -122,6 +155,7 @@ export class OutboundCallsResource {
    *
    * @param agentConfigurationId - Agent configuration ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of call requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -135,16 +169,34 @@ export class OutboundCallsResource {
    */
   public async getByAgent(
     agentConfigurationId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<BusinessCallRequest>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessCallRequest>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-agent/${agentConfigurationId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-agent/${agentConfigurationId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<BusinessCallRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(BusinessCallRequestSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<BusinessCallRequest>>(path);
+  /**
+   * Iterates over every page of {@link OutboundCallsResource.getByAgent}, yielding each item.
+   *
+   * @param agentConfigurationId - Agent configuration ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByAgent(
+    agentConfigurationId: string,
+    params?: ListParams<BusinessCallRequest>,
+    options?: PaginateOptions
+  ): PageIterator<BusinessCallRequest> {
+    return paginate((params) => this.getByAgent(agentConfigurationId, params, options), params, options);
   }
 
   /**
@@ -152,6 +204,7 @@ export class OutboundCallsResource {
    *
    * @param status - Call request status
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of call requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -165,17 +218,34 @@ export class OutboundCallsResource {
    */
   public async getByStatus(
     status: CallRequestStatus,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<BusinessCallRequest>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessCallRequest>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('status', status);
+    const path = `${this.resource_path}/by-status${buildQueryString(params, { status })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-status?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<BusinessCallRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(BusinessCallRequestSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<BusinessCallRequest>>(path);
+  /**
+   * Iterates over every page of {@link OutboundCallsResource.getByStatus}, yielding each item.
+   *
+   * @param status - Call request status
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByStatus(
+    status: CallRequestStatus,
+    params?: ListParams<BusinessCallRequest>,
+    options?: PaginateOptions
+  ): PageIterator<BusinessCallRequest> {
+    return paginate((params) => this.getByStatus(status, params, options), params, options);
   }
 
   /**
@@ -184,6 +254,7 @@ export class OutboundCallsResource {
    * @param startDate - Range start timestamp
    * @param endDate - Range end timestamp
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of call requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -199,24 +270,43 @@ export class OutboundCallsResource {
   public async getByDateRange(
     startDate: number,
     endDate: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<BusinessCallRequest>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessCallRequest>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('startDate', startDate.toString());
-    queryParams.append('endDate', endDate.toString());
+    const path = `${this.resource_path}/by-date-range${buildQueryString(params, { startDate, endDate })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-date-range?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<BusinessCallRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(BusinessCallRequestSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<BusinessCallRequest>>(path);
+  /**
+   * Iterates over every page of {@link OutboundCallsResource.getByDateRange}, yielding each item.
+   *
+   * @param startDate - Range start timestamp
+   * @param endDate - Range end timestamp
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByDateRange(
+    startDate: number,
+    endDate: number,
+    params?: ListParams<BusinessCallRequest>,
+    options?: PaginateOptions
+  ): PageIterator<BusinessCallRequest> {
+    return paginate((params) => this.getByDateRange(startDate, endDate, params, options), params, options);
   }
 
   /**
    * Updates an existing call request.
    *
    * @param data - Call request update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated call request
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -232,11 +322,15 @@ export class OutboundCallsResource {
    * console.log('Rescheduled to:', updated.scheduledAt);
    * ```
    */
-  public async update(data: UpdateCallRequest): Promise<BusinessCallRequest> {
+  public async update(
+    data: UpdateCallRequest,
+    options?: RequestOptions
+  ): Promise<BusinessCallRequest> {
     return this.http.patch<UpdateCallRequest, BusinessCallRequest>(
       this.resource_path,
       data,
-      UpdateCallRequestSchema
+      UpdateCallRequestSchema,
+      { ...options, responseSchema: BusinessCallRequestSchema }
     );
   }
 
@@ -245,6 +339,7 @@ export class OutboundCallsResource {
    *
    * @param id - Call request ID
    * @param status - New call request status
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated call request
    *
    * @throws {@link WiilAPIError} - When the call request is not found or API returns an error
@@ -256,10 +351,16 @@ export class OutboundCallsResource {
    * console.log('Call cancelled:', updated.status);
    * ```
    */
-  public async updateStatus(id: string, status: CallRequestStatus): Promise<BusinessCallRequest> {
+  public async updateStatus(
+    id: string,
+    status: CallRequestStatus,
+    options?: RequestOptions
+  ): Promise<BusinessCallRequest> {
     return this.http.patch<{ status: CallRequestStatus }, BusinessCallRequest>(
       `${this.resource_path}/${id}/status`,
-      { status }
+      { status },
+      undefined,
+      { ...options, responseSchema: BusinessCallRequestSchema }
     );
   }
 
@@ -268,6 +369,7 @@ export class OutboundCallsResource {
    *
    * @param id - Call request ID
    * @param reason - Optional cancellation reason
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the cancelled call request
    *
    * @throws {@link WiilAPIError} - When the call request is not found or API returns an error
@@ -279,10 +381,16 @@ export class OutboundCallsResource {
    * console.log('Call cancelled:', cancelled.id);
    * ```
    */
-  public async cancel(id: string, reason?: string): Promise<BusinessCallRequest> {
+  public async cancel(
+    id: string,
+    reason?: string,
+    options?: RequestOptions
+  ): Promise<BusinessCallRequest> {
     return this.http.post<{ reason?: string }, BusinessCallRequest>(
       `${this.resource_path}/${id}/cancel`,
-      { reason }
+      { reason },
+      undefined,
+      { ...options, responseSchema: BusinessCallRequestSchema }
     );
   }
 
@@ -290,6 +398,7 @@ export class OutboundCallsResource {
    * Retries a failed call request.
    *
    * @param id - Call request ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the call request result
    *
    * @throws {@link WiilAPIError} - When the call request is not found or API returns an error
@@ -301,10 +410,12 @@ export class OutboundCallsResource {
    * console.log('Retry initiated:', result.success);
    * ```
    */
-  public async retry(id: string): Promise<CallRequestResult> {
+  public async retry(id: string, options?: RequestOptions): Promise<CallRequestResult> {
     return this.http.post<Record<string, never>, CallRequestResult>(
       `${this.resource_path}/${id}/retry`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: CallRequestResultSchema }
     );
   }
 
@@ -312,6 +423,7 @@ export class OutboundCallsResource {
    * Deletes a call request.
    *
    * @param id - Call request ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the call request is not found or API returns an error
@@ -325,14 +437,16 @@ export class OutboundCallsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists call requests with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of call requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -348,22 +462,76 @@ export class OutboundCallsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<BusinessCallRequest>,
+    filters?: OutboundCallFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessCallRequest>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<BusinessCallRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(BusinessCallRequestSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link OutboundCallsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.outboundCalls.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<BusinessCallRequest>,
+    filters?: OutboundCallFilters,
+    options?: PaginateOptions
+  ): PageIterator<BusinessCallRequest> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<BusinessCallRequest>>(path);
+  /**
+   * Retrieves every item of {@link OutboundCallsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link OutboundCallsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.outboundCalls.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<BusinessCallRequest>,
+    filters?: OutboundCallFilters,
+    options?: PaginateOptions
+  ): Promise<BusinessCallRequest[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple call requests in a single batch request.
    *
    * @param data - Array of call request data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created call requests
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -380,7 +548,8 @@ export class OutboundCallsResource {
    * ```
    */
   public async createBatch(
-    data: CreateCallRequest[]
+    data: CreateCallRequest[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessCallRequest>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -401,7 +570,39 @@ export class OutboundCallsResource {
 
     return this.http.post<CreateCallRequest[], PaginatedResultType<BusinessCallRequest>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(BusinessCallRequestSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link OutboundCallsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of call request data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.outboundCalls.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateCallRequest[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateCallRequest, BusinessCallRequest>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateCallRequestSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
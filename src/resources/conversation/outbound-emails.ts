@@ -13,13 +13,31 @@ import {
   EmailRecord,
   EmailStatus,
   PaginatedResultType,
-  PaginationRequest,
+  EmailRecordSchema,
+  EmailRequestResultSchema,
+  EmailRequestSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../client/batch';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
 import { WiilValidationError } from '../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing email requests.
+ */
+export interface OutboundEmailFilters extends DateRangeFilters {
+  /** Filter by email status */
+  status?: EmailStatus;
+  /** Filter by template ID */
+  templateId?: string;
+}
+
 /**
  * Resource class for managing outbound email requests in the WIIL Platform.
  *
@@ -63,10 +81,21 @@ export class OutboundEmailsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<OutboundEmailsResource> {
+    return withResponse(this.http, (http) => new OutboundEmailsResource(http));
+  }
+
   /**
    * Creates a new outbound email request.
    *
    * @param data - Email request data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the email request result
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -86,11 +115,12 @@ export class OutboundEmailsResource {
    * console.log('Email sent:', result.request?.id);
    * ```
    */
-  public async create(data: CreateEmailRequest): Promise<EmailRequestResult> {
+  public async create(data: CreateEmailRequest, options?: RequestOptions): Promise<EmailRequestResult> {
     return this.http.post<CreateEmailRequest, EmailRequestResult>(
       this.resource_path,
       data,
-      CreateEmailRequestSchema
+      CreateEmailRequestSchema,
+      { ...options, responseSchema: EmailRequestResultSchema }
     );
   }
 
@@ -98,6 +128,7 @@ export class OutboundEmailsResource {
    * Retrieves an email request by ID.
    *
    * @param id - Email request ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the email request
    *
    * @throws {@link WiilAPIError} - When the email request is not found or API returns an error
@@ -110,8 +141,11 @@ export class OutboundEmailsResource {
    * console.log('Subject:', email.subject);
    * ```
    */
-  public async get(id: string): Promise<EmailRequest> {
-    return this.http.get<EmailRequest>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<EmailRequest> {
+    return this.http.get<EmailRequest>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: EmailRequestSchema }
+    );
   }
 
   /**
@@ -119,6 +153,7 @@ export class OutboundEmailsResource {
    *
    * @param status - Email status
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of email requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -132,17 +167,34 @@ export class OutboundEmailsResource {
    */
   public async getByStatus(
     status: EmailStatus,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<EmailRequest>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<EmailRequest>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('status', status);
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-status${buildQueryString(params, { status })}`;
 
-    const path = `${this.resource_path}/by-status?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<EmailRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(EmailRequestSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<EmailRequest>>(path);
+  /**
+   * Iterates over every page of {@link OutboundEmailsResource.getByStatus}, yielding each item.
+   *
+   * @param status - Email status
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByStatus(
+    status: EmailStatus,
+    params?: ListParams<EmailRequest>,
+    options?: PaginateOptions
+  ): PageIterator<EmailRequest> {
+    return paginate((params) => this.getByStatus(status, params, options), params, options);
   }
 
   /**
@@ -150,6 +202,7 @@ export class OutboundEmailsResource {
    *
    * @param templateId - Template ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of email requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -163,16 +216,34 @@ export class OutboundEmailsResource {
    */
   public async getByTemplate(
     templateId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<EmailRequest>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<EmailRequest>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-template/${templateId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-template/${templateId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<EmailRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(EmailRequestSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<EmailRequest>>(path);
+  /**
+   * Iterates over every page of {@link OutboundEmailsResource.getByTemplate}, yielding each item.
+   *
+   * @param templateId - Template ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByTemplate(
+    templateId: string,
+    params?: ListParams<EmailRequest>,
+    options?: PaginateOptions
+  ): PageIterator<EmailRequest> {
+    return paginate((params) => this.getByTemplate(templateId, params, options), params, options);
   }
 
   /**
@@ -181,6 +252,7 @@ export class OutboundEmailsResource {
    * @param startDate - Range start timestamp
    * @param endDate - Range end timestamp
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of email requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -196,24 +268,43 @@ export class OutboundEmailsResource {
   public async getByDateRange(
     startDate: number,
     endDate: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<EmailRequest>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<EmailRequest>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('startDate', startDate.toString());
-    queryParams.append('endDate', endDate.toString());
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-date-range${buildQueryString(params, { startDate, endDate })}`;
 
-    const path = `${this.resource_path}/by-date-range?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<EmailRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(EmailRequestSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<EmailRequest>>(path);
+  /**
+   * Iterates over every page of {@link OutboundEmailsResource.getByDateRange}, yielding each item.
+   *
+   * @param startDate - Range start timestamp
+   * @param endDate - Range end timestamp
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByDateRange(
+    startDate: number,
+    endDate: number,
+    params?: ListParams<EmailRequest>,
+    options?: PaginateOptions
+  ): PageIterator<EmailRequest> {
+    return paginate((params) => this.getByDateRange(startDate, endDate, params, options), params, options);
   }
 
   /**
    * Updates an existing email request.
    *
    * @param data - Email request update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated email request
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -229,11 +320,12 @@ export class OutboundEmailsResource {
    * console.log('Updated subject:', updated.subject);
    * ```
    */
-  public async update(data: UpdateEmailRequest): Promise<EmailRequest> {
+  public async update(data: UpdateEmailRequest, options?: RequestOptions): Promise<EmailRequest> {
     return this.http.patch<UpdateEmailRequest, EmailRequest>(
       this.resource_path,
       data,
-      UpdateEmailRequestSchema
+      UpdateEmailRequestSchema,
+      { ...options, responseSchema: EmailRequestSchema }
     );
   }
 
@@ -242,6 +334,7 @@ export class OutboundEmailsResource {
    *
    * @param id - Email request ID
    * @param reason - Optional cancellation reason
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the cancelled email request
    *
    * @throws {@link WiilAPIError} - When the email request is not found or API returns an error
@@ -253,10 +346,16 @@ export class OutboundEmailsResource {
    * console.log('Email cancelled:', cancelled.id);
    * ```
    */
-  public async cancel(id: string, reason?: string): Promise<EmailRequest> {
+  public async cancel(
+    id: string,
+    reason?: string,
+    options?: RequestOptions
+  ): Promise<EmailRequest> {
     return this.http.post<{ reason?: string }, EmailRequest>(
       `${this.resource_path}/${id}/cancel`,
-      { reason }
+      { reason },
+      undefined,
+      { ...options, responseSchema: EmailRequestSchema }
     );
   }
 
@@ -264,6 +363,7 @@ export class OutboundEmailsResource {
    * Retries a failed email request.
    *
    * @param id - Email request ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the email request result
    *
    * @throws {@link WiilAPIError} - When the email request is not found or API returns an error
@@ -275,10 +375,12 @@ export class OutboundEmailsResource {
    * console.log('Retry initiated:', result.success);
    * ```
    */
-  public async retry(id: string): Promise<EmailRequestResult> {
+  public async retry(id: string, options?: RequestOptions): Promise<EmailRequestResult> {
     return this.http.post<Record<string, never>, EmailRequestResult>(
       `${this.resource_path}/${id}/retry`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: EmailRequestResultSchema }
     );
   }
 
@@ -287,6 +389,7 @@ export class OutboundEmailsResource {
    *
    * @param id - Email request ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of email records
    *
    * @throws {@link WiilAPIError} - When the email request is not found or API returns an error
@@ -302,22 +405,41 @@ export class OutboundEmailsResource {
    */
   public async getRecords(
     id: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<EmailRecord>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<EmailRecord>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/${id}/records${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/${id}/records${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<EmailRecord>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(EmailRecordSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<EmailRecord>>(path);
+  /**
+   * Iterates over every page of {@link OutboundEmailsResource.getRecords}, yielding each item.
+   *
+   * @param id - Email request ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateRecords(
+    id: string,
+    params?: ListParams<EmailRecord>,
+    options?: PaginateOptions
+  ): PageIterator<EmailRecord> {
+    return paginate((params) => this.getRecords(id, params, options), params, options);
   }
 
   /**
    * Deletes an email request.
    *
    * @param id - Email request ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the email request is not found or API returns an error
@@ -331,14 +453,16 @@ export class OutboundEmailsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists email requests with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of email requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -354,22 +478,76 @@ export class OutboundEmailsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<EmailRequest>,
+    filters?: OutboundEmailFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<EmailRequest>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<EmailRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(EmailRequestSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link OutboundEmailsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.outboundEmails.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<EmailRequest>,
+    filters?: OutboundEmailFilters,
+    options?: PaginateOptions
+  ): PageIterator<EmailRequest> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<EmailRequest>>(path);
+  /**
+   * Retrieves every item of {@link OutboundEmailsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link OutboundEmailsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.outboundEmails.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<EmailRequest>,
+    filters?: OutboundEmailFilters,
+    options?: PaginateOptions
+  ): Promise<EmailRequest[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple email requests in a single batch request.
    *
    * @param data - Array of email request data (maximum 50 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created email requests
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -386,7 +564,8 @@ export class OutboundEmailsResource {
    * ```
    */
   public async createBatch(
-    data: CreateEmailRequest[]
+    data: CreateEmailRequest[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<EmailRequest>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -407,7 +586,39 @@ export class OutboundEmailsResource {
 
     return this.http.post<CreateEmailRequest[], PaginatedResultType<EmailRequest>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(EmailRequestSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link OutboundEmailsResource.createBatch} for any number of items, split into batch
+   * requests of up to 50 items.
+   *
+   * @param data - Array of email request data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.outboundEmails.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateEmailRequest[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateEmailRequest, EmailRequest>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateEmailRequestSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
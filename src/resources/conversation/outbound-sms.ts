@@ -12,13 +12,32 @@ import {
   SmsRequestResult,
   SmsStatus,
   PaginatedResultType,
-  PaginationRequest,
+  SmsRequestResultSchema,
+  SmsRequestSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../client/batch';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { DateRangeFilters, ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
 import { WiilValidationError } from '../../errors/WiilError';
 
 const BATCH_LIMIT = 100;
 
+/**
+ * Filters for listing SMS requests.
+ */
+export interface OutboundSmsFilters extends DateRangeFilters {
+  /** Filter by SMS status */
+  status?: SmsStatus;
+  /** Filter by template ID */
+  templateId?: string;
+  /** Filter by recipient phone number */
+  to?: string;
+}
+
 /**
  * Resource class for managing outbound SMS requests in the WIIL Platform.
  *
@@ -60,10 +79,21 @@ export class OutboundSmsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<OutboundSmsResource> {
+    return withResponse(this.http, (http) => new OutboundSmsResource(http));
+  }
+
   /**
    * Creates a new outbound SMS request.
    *
    * @param data - SMS request data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the SMS request result
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -81,11 +111,12 @@ export class OutboundSmsResource {
    * console.log('SMS sent:', result.request?.id);
    * ```
    */
-  public async create(data: CreateSmsRequest): Promise<SmsRequestResult> {
+  public async create(data: CreateSmsRequest, options?: RequestOptions): Promise<SmsRequestResult> {
     return this.http.post<CreateSmsRequest, SmsRequestResult>(
       this.resource_path,
       data,
-      CreateSmsRequestSchema
+      CreateSmsRequestSchema,
+      { ...options, responseSchema: SmsRequestResultSchema }
     );
   }
 
@@ -93,6 +124,7 @@ export class OutboundSmsResource {
    * Retrieves an SMS request by ID.
    *
    * @param id - SMS request ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the SMS request
    *
    * @throws {@link WiilAPIError} - When the SMS request is not found or API returns an error
@@ -105,8 +137,11 @@ export class OutboundSmsResource {
    * console.log('Body:', sms.body);
    * ```
    */
-  public async get(id: string): Promise<SmsRequest> {
-    return this.http.get<SmsRequest>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<SmsRequest> {
+    return this.http.get<SmsRequest>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: SmsRequestSchema }
+    );
   }
 
   /**
@@ -114,6 +149,7 @@ export class OutboundSmsResource {
    *
    * @param status - SMS status
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of SMS requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -127,17 +163,34 @@ export class OutboundSmsResource {
    */
   public async getByStatus(
     status: SmsStatus,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<SmsRequest>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<SmsRequest>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('status', status);
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-status${buildQueryString(params, { status })}`;
 
-    const path = `${this.resource_path}/by-status?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<SmsRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(SmsRequestSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<SmsRequest>>(path);
+  /**
+   * Iterates over every page of {@link OutboundSmsResource.getByStatus}, yielding each item.
+   *
+   * @param status - SMS status
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByStatus(
+    status: SmsStatus,
+    params?: ListParams<SmsRequest>,
+    options?: PaginateOptions
+  ): PageIterator<SmsRequest> {
+    return paginate((params) => this.getByStatus(status, params, options), params, options);
   }
 
   /**
@@ -145,6 +198,7 @@ export class OutboundSmsResource {
    *
    * @param phoneNumber - Recipient phone number in E.164 format
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of SMS requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -158,17 +212,34 @@ export class OutboundSmsResource {
    */
   public async getByRecipient(
     phoneNumber: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<SmsRequest>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<SmsRequest>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('to', phoneNumber);
+    const path = `${this.resource_path}/by-recipient${buildQueryString(params, { to: phoneNumber })}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-recipient?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<SmsRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(SmsRequestSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<SmsRequest>>(path);
+  /**
+   * Iterates over every page of {@link OutboundSmsResource.getByRecipient}, yielding each item.
+   *
+   * @param phoneNumber - Recipient phone number in E.164 format
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByRecipient(
+    phoneNumber: string,
+    params?: ListParams<SmsRequest>,
+    options?: PaginateOptions
+  ): PageIterator<SmsRequest> {
+    return paginate((params) => this.getByRecipient(phoneNumber, params, options), params, options);
   }
 
   /**
@@ -176,6 +247,7 @@ export class OutboundSmsResource {
    *
    * @param templateId - Template ID
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of SMS requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -189,16 +261,34 @@ export class OutboundSmsResource {
    */
   public async getByTemplate(
     templateId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<SmsRequest>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<SmsRequest>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-template/${templateId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-template/${templateId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<SmsRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(SmsRequestSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<SmsRequest>>(path);
+  /**
+   * Iterates over every page of {@link OutboundSmsResource.getByTemplate}, yielding each item.
+   *
+   * @param templateId - Template ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByTemplate(
+    templateId: string,
+    params?: ListParams<SmsRequest>,
+    options?: PaginateOptions
+  ): PageIterator<SmsRequest> {
+    return paginate((params) => this.getByTemplate(templateId, params, options), params, options);
   }
 
   /**
@@ -207,6 +297,7 @@ export class OutboundSmsResource {
    * @param startDate - Range start timestamp
    * @param endDate - Range end timestamp
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of SMS requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -222,24 +313,43 @@ export class OutboundSmsResource {
   public async getByDateRange(
     startDate: number,
     endDate: number,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<SmsRequest>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<SmsRequest>> {
-    const queryParams = new URLSearchParams();
-    queryParams.append('startDate', startDate.toString());
-    queryParams.append('endDate', endDate.toString());
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-date-range${buildQueryString(params, { startDate, endDate })}`;
 
-    const path = `${this.resource_path}/by-date-range?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<SmsRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(SmsRequestSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<SmsRequest>>(path);
+  /**
+   * Iterates over every page of {@link OutboundSmsResource.getByDateRange}, yielding each item.
+   *
+   * @param startDate - Range start timestamp
+   * @param endDate - Range end timestamp
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByDateRange(
+    startDate: number,
+    endDate: number,
+    params?: ListParams<SmsRequest>,
+    options?: PaginateOptions
+  ): PageIterator<SmsRequest> {
+    return paginate((params) => this.getByDateRange(startDate, endDate, params, options), params, options);
   }
 
   /**
    * Updates an existing SMS request.
    *
    * @param data - SMS request update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated SMS request
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -255,11 +365,12 @@ export class OutboundSmsResource {
    * console.log('Updated body:', updated.body);
    * ```
    */
-  public async update(data: UpdateSmsRequest): Promise<SmsRequest> {
+  public async update(data: UpdateSmsRequest, options?: RequestOptions): Promise<SmsRequest> {
     return this.http.patch<UpdateSmsRequest, SmsRequest>(
       this.resource_path,
       data,
-      UpdateSmsRequestSchema
+      UpdateSmsRequestSchema,
+      { ...options, responseSchema: SmsRequestSchema }
     );
   }
 
@@ -268,6 +379,7 @@ export class OutboundSmsResource {
    *
    * @param id - SMS request ID
    * @param reason - Optional cancellation reason
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the cancelled SMS request
    *
    * @throws {@link WiilAPIError} - When the SMS request is not found or API returns an error
@@ -279,10 +391,12 @@ export class OutboundSmsResource {
    * console.log('SMS cancelled:', cancelled.id);
    * ```
    */
-  public async cancel(id: string, reason?: string): Promise<SmsRequest> {
+  public async cancel(id: string, reason?: string, options?: RequestOptions): Promise<SmsRequest> {
     return this.http.post<{ reason?: string }, SmsRequest>(
       `${this.resource_path}/${id}/cancel`,
-      { reason }
+      { reason },
+      undefined,
+      { ...options, responseSchema: SmsRequestSchema }
     );
   }
 
@@ -290,6 +404,7 @@ export class OutboundSmsResource {
    * Retries a failed SMS request.
    *
    * @param id - SMS request ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the SMS request result
    *
    * @throws {@link WiilAPIError} - When the SMS request is not found or API returns an error
@@ -301,10 +416,12 @@ export class OutboundSmsResource {
    * console.log('Retry initiated:', result.success);
    * ```
    */
-  public async retry(id: string): Promise<SmsRequestResult> {
+  public async retry(id: string, options?: RequestOptions): Promise<SmsRequestResult> {
     return this.http.post<Record<string, never>, SmsRequestResult>(
       `${this.resource_path}/${id}/retry`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: SmsRequestResultSchema }
     );
   }
 
@@ -312,6 +429,7 @@ export class OutboundSmsResource {
    * Deletes an SMS request.
    *
    * @param id - SMS request ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the SMS request is not found or API returns an error
@@ -325,14 +443,16 @@ export class OutboundSmsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists SMS requests with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of SMS requests
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -348,22 +468,76 @@ export class OutboundSmsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<SmsRequest>,
+    filters?: OutboundSmsFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<SmsRequest>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<SmsRequest>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(SmsRequestSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link OutboundSmsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.outboundSms.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<SmsRequest>,
+    filters?: OutboundSmsFilters,
+    options?: PaginateOptions
+  ): PageIterator<SmsRequest> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<SmsRequest>>(path);
+  /**
+   * Retrieves every item of {@link OutboundSmsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link OutboundSmsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.outboundSms.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<SmsRequest>,
+    filters?: OutboundSmsFilters,
+    options?: PaginateOptions
+  ): Promise<SmsRequest[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
    * Creates multiple SMS requests in a single batch request.
    *
    * @param data - Array of SMS request data (maximum 100 items)
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to paginated result of created SMS requests
    *
    * @throws {@link WiilValidationError} - When input validation fails or batch limit exceeded
@@ -380,7 +554,8 @@ export class OutboundSmsResource {
    * ```
    */
   public async createBatch(
-    data: CreateSmsRequest[]
+    data: CreateSmsRequest[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<SmsRequest>> {
     if (data.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -401,7 +576,39 @@ export class OutboundSmsResource {
 
     return this.http.post<CreateSmsRequest[], PaginatedResultType<SmsRequest>>(
       `${this.resource_path}/batch`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(SmsRequestSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link OutboundSmsResource.createBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param data - Array of SMS request data
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `data`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await client.outboundSms.createBatchChunked(data);
+   * const retry = result.failures.map((failure) => data[failure.index]);
+   * ```
+   */
+  public async createBatchChunked(
+    data: CreateSmsRequest[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateSmsRequest, SmsRequest>> {
+    return runBatch(
+      data,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateSmsRequestSchema,
+        send: (chunk, chunkOptions) => this.createBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -22,13 +22,31 @@ import {
   UpdateWhatsappTemplateSchema,
   OutboundTemplateChannel,
   PaginatedResultType,
-  PaginationRequest,
+  EmailTemplateSchema,
+  OutboundTemplateSchema,
+  SmsTemplateSchema,
+  WhatsappTemplateSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
 import { WiilValidationError } from '../../errors/WiilError';
 
 const BATCH_LIMIT = 50;
 
+/**
+ * Filters for listing outbound templates.
+ */
+export interface OutboundTemplateFilters {
+  /** Filter by channel */
+  channel?: OutboundTemplateChannel;
+  /** Filter by tags; matches templates with any of the tags */
+  tags?: string[];
+}
+
 /**
  * Resource class for managing outbound message templates in the WIIL Platform.
  *
@@ -77,10 +95,21 @@ export class OutboundTemplatesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<OutboundTemplatesResource> {
+    return withResponse(this.http, (http) => new OutboundTemplatesResource(http));
+  }
+
   /**
    * Creates a new email template.
    *
    * @param data - Email template data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created email template
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -99,11 +128,12 @@ export class OutboundTemplatesResource {
    * });
    * ```
    */
-  public async createEmailTemplate(data: CreateEmailTemplate): Promise<EmailTemplate> {
+  public async createEmailTemplate(data: CreateEmailTemplate, options?: RequestOptions): Promise<EmailTemplate> {
     return this.http.post<CreateEmailTemplate, EmailTemplate>(
       `${this.resource_path}/email`,
       data,
-      CreateEmailTemplateSchema
+      CreateEmailTemplateSchema,
+      { ...options, responseSchema: EmailTemplateSchema }
     );
   }
 
@@ -111,6 +141,7 @@ export class OutboundTemplatesResource {
    * Creates a new SMS template.
    *
    * @param data - SMS template data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created SMS template
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -131,11 +162,12 @@ export class OutboundTemplatesResource {
    * });
    * ```
    */
-  public async createSmsTemplate(data: CreateSmsTemplate): Promise<SmsTemplate> {
+  public async createSmsTemplate(data: CreateSmsTemplate, options?: RequestOptions): Promise<SmsTemplate> {
     return this.http.post<CreateSmsTemplate, SmsTemplate>(
       `${this.resource_path}/sms`,
       data,
-      CreateSmsTemplateSchema
+      CreateSmsTemplateSchema,
+      { ...options, responseSchema: SmsTemplateSchema }
     );
   }
 
@@ -143,6 +175,7 @@ export class OutboundTemplatesResource {
    * Creates a new WhatsApp template.
    *
    * @param data - WhatsApp template data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created WhatsApp template
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -163,11 +196,12 @@ export class OutboundTemplatesResource {
    * });
    * ```
    */
-  public async createWhatsappTemplate(data: CreateWhatsappTemplate): Promise<WhatsappTemplate> {
+  public async createWhatsappTemplate(data: CreateWhatsappTemplate, options?: RequestOptions): Promise<WhatsappTemplate> {
     return this.http.post<CreateWhatsappTemplate, WhatsappTemplate>(
       `${this.resource_path}/whatsapp`,
       data,
-      CreateWhatsappTemplateSchema
+      CreateWhatsappTemplateSchema,
+      { ...options, responseSchema: WhatsappTemplateSchema }
     );
   }
 
@@ -175,6 +209,7 @@ export class OutboundTemplatesResource {
    * Retrieves a template by ID.
    *
    * @param id - Template ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the template
    *
    * @throws {@link WiilAPIError} - When the template is not found or API returns an error
@@ -187,14 +222,18 @@ export class OutboundTemplatesResource {
    * console.log('Channel:', template.channel);
    * ```
    */
-  public async get(id: string): Promise<OutboundTemplate> {
-    return this.http.get<OutboundTemplate>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<OutboundTemplate> {
+    return this.http.get<OutboundTemplate>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: OutboundTemplateSchema }
+    );
   }
 
   /**
    * Retrieves a template by code.
    *
    * @param code - Template code identifier
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the template
    *
    * @throws {@link WiilAPIError} - When the template is not found or API returns an error
@@ -206,8 +245,11 @@ export class OutboundTemplatesResource {
    * console.log('Template:', template.name);
    * ```
    */
-  public async getByCode(code: string): Promise<OutboundTemplate> {
-    return this.http.get<OutboundTemplate>(`${this.resource_path}/by-code/${code}`);
+  public async getByCode(code: string, options?: RequestOptions): Promise<OutboundTemplate> {
+    return this.http.get<OutboundTemplate>(
+      `${this.resource_path}/by-code/${code}`,
+      { ...options, responseSchema: OutboundTemplateSchema }
+    );
   }
 
   /**
@@ -215,6 +257,7 @@ export class OutboundTemplatesResource {
    *
    * @param channel - Template channel (EMAIL, SMS, WHATSAPP)
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of templates
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -228,16 +271,34 @@ export class OutboundTemplatesResource {
    */
   public async getByChannel(
     channel: OutboundTemplateChannel,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<OutboundTemplate>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<OutboundTemplate>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-channel/${channel}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-channel/${channel}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<OutboundTemplate>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(OutboundTemplateSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<OutboundTemplate>>(path);
+  /**
+   * Iterates over every page of {@link OutboundTemplatesResource.getByChannel}, yielding each item.
+   *
+   * @param channel - Template channel (EMAIL, SMS, WHATSAPP)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByChannel(
+    channel: OutboundTemplateChannel,
+    params?: ListParams<OutboundTemplate>,
+    options?: PaginateOptions
+  ): PageIterator<OutboundTemplate> {
+    return paginate((params) => this.getByChannel(channel, params, options), params, options);
   }
 
   /**
@@ -245,6 +306,7 @@ export class OutboundTemplatesResource {
    *
    * @param tags - Array of tags to filter by
    * @param params - Optional pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of templates
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -258,23 +320,41 @@ export class OutboundTemplatesResource {
    */
   public async getByTags(
     tags: string[],
-    params?: Partial<PaginationRequest>
+    params?: ListParams<OutboundTemplate>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<OutboundTemplate>> {
-    const queryParams = new URLSearchParams();
-    tags.forEach(tag => queryParams.append('tags', tag));
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-tags${buildQueryString(params, { tags })}`;
 
-    const path = `${this.resource_path}/by-tags?${queryParams.toString()}`;
+    return this.http.get<PaginatedResultType<OutboundTemplate>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(OutboundTemplateSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<OutboundTemplate>>(path);
+  /**
+   * Iterates over every page of {@link OutboundTemplatesResource.getByTags}, yielding each item.
+   *
+   * @param tags - Array of tags to filter by
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByTags(
+    tags: string[],
+    params?: ListParams<OutboundTemplate>,
+    options?: PaginateOptions
+  ): PageIterator<OutboundTemplate> {
+    return paginate((params) => this.getByTags(tags, params, options), params, options);
   }
 
   /**
    * Updates an existing email template.
    *
    * @param data - Email template update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated email template
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -289,11 +369,15 @@ export class OutboundTemplatesResource {
    * });
    * ```
    */
-  public async updateEmailTemplate(data: UpdateEmailTemplate): Promise<EmailTemplate> {
+  public async updateEmailTemplate(
+    data: UpdateEmailTemplate,
+    options?: RequestOptions
+  ): Promise<EmailTemplate> {
     return this.http.patch<UpdateEmailTemplate, EmailTemplate>(
       `${this.resource_path}/email/${data.id}`,
       data,
-      UpdateEmailTemplateSchema
+      UpdateEmailTemplateSchema,
+      { ...options, responseSchema: EmailTemplateSchema }
     );
   }
 
@@ -301,6 +385,7 @@ export class OutboundTemplatesResource {
    * Updates an existing SMS template.
    *
    * @param data - SMS template update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated SMS template
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -315,11 +400,15 @@ export class OutboundTemplatesResource {
    * });
    * ```
    */
-  public async updateSmsTemplate(data: UpdateSmsTemplate): Promise<SmsTemplate> {
+  public async updateSmsTemplate(
+    data: UpdateSmsTemplate,
+    options?: RequestOptions
+  ): Promise<SmsTemplate> {
     return this.http.patch<UpdateSmsTemplate, SmsTemplate>(
       `${this.resource_path}/sms/${data.id}`,
       data,
-      UpdateSmsTemplateSchema
+      UpdateSmsTemplateSchema,
+      { ...options, responseSchema: SmsTemplateSchema }
     );
   }
 
@@ -327,6 +416,7 @@ export class OutboundTemplatesResource {
    * Updates an existing WhatsApp template.
    *
    * @param data - WhatsApp template update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated WhatsApp template
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -341,11 +431,15 @@ export class OutboundTemplatesResource {
    * });
    * ```
    */
-  public async updateWhatsappTemplate(data: UpdateWhatsappTemplate): Promise<WhatsappTemplate> {
+  public async updateWhatsappTemplate(
+    data: UpdateWhatsappTemplate,
+    options?: RequestOptions
+  ): Promise<WhatsappTemplate> {
     return this.http.patch<UpdateWhatsappTemplate, WhatsappTemplate>(
       `${this.resource_path}/whatsapp/${data.id}`,
       data,
-      UpdateWhatsappTemplateSchema
+      UpdateWhatsappTemplateSchema,
+      { ...options, responseSchema: WhatsappTemplateSchema }
     );
   }
 
@@ -353,6 +447,7 @@ export class OutboundTemplatesResource {
    * Activates a template.
    *
    * @param id - Template ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the activated template
    *
    * @throws {@link WiilAPIError} - When the template is not found or API returns an error
@@ -364,10 +459,12 @@ export class OutboundTemplatesResource {
    * console.log('Template activated:', template.isActive);
    * ```
    */
-  public async activate(id: string): Promise<OutboundTemplate> {
+  public async activate(id: string, options?: RequestOptions): Promise<OutboundTemplate> {
     return this.http.post<Record<string, never>, OutboundTemplate>(
       `${this.resource_path}/${id}/activate`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: OutboundTemplateSchema }
     );
   }
 
@@ -375,6 +472,7 @@ export class OutboundTemplatesResource {
    * Deactivates a template.
    *
    * @param id - Template ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the deactivated template
    *
    * @throws {@link WiilAPIError} - When the template is not found or API returns an error
@@ -386,10 +484,12 @@ export class OutboundTemplatesResource {
    * console.log('Template deactivated:', !template.isActive);
    * ```
    */
-  public async deactivate(id: string): Promise<OutboundTemplate> {
+  public async deactivate(id: string, options?: RequestOptions): Promise<OutboundTemplate> {
     return this.http.post<Record<string, never>, OutboundTemplate>(
       `${this.resource_path}/${id}/deactivate`,
-      {}
+      {},
+      undefined,
+      { ...options, responseSchema: OutboundTemplateSchema }
     );
   }
 
@@ -398,6 +498,7 @@ export class OutboundTemplatesResource {
    *
    * @param id - Template ID
    * @param variables - Variable values for rendering
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to rendered content
    *
    * @throws {@link WiilAPIError} - When the template is not found or API returns an error
@@ -414,18 +515,25 @@ export class OutboundTemplatesResource {
    */
   public async render(
     id: string,
-    variables: Record<string, string>
+    variables: Record<string, string>,
+    options?: RequestOptions
   ): Promise<{ subject?: string; bodyHtml?: string; bodyText?: string; body?: string }> {
     return this.http.post<
       { variables: Record<string, string> },
       { subject?: string; bodyHtml?: string; bodyText?: string; body?: string }
-    >(`${this.resource_path}/${id}/render`, { variables });
+    >(
+      `${this.resource_path}/${id}/render`,
+      { variables },
+      undefined,
+      options
+    );
   }
 
   /**
    * Deletes a template.
    *
    * @param id - Template ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the template is not found or API returns an error
@@ -439,14 +547,16 @@ export class OutboundTemplatesResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists templates with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of templates
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -462,15 +572,68 @@ export class OutboundTemplatesResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<OutboundTemplate>,
+    filters?: OutboundTemplateFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<OutboundTemplate>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<OutboundTemplate>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(OutboundTemplateSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link OutboundTemplatesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.outboundTemplates.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<OutboundTemplate>,
+    filters?: OutboundTemplateFilters,
+    options?: PaginateOptions
+  ): PageIterator<OutboundTemplate> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<OutboundTemplate>>(path);
+  /**
+   * Retrieves every item of {@link OutboundTemplatesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link OutboundTemplatesResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.outboundTemplates.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<OutboundTemplate>,
+    filters?: OutboundTemplateFilters,
+    options?: PaginateOptions
+  ): Promise<OutboundTemplate[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
@@ -9,9 +9,25 @@ import {
   CreateAgentConfiguration,
   UpdateAgentConfiguration,
   PaginatedResultType,
-  PaginationRequest,
+  AgentConfigurationSchema,
+  AgentGraphSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
+
+/**
+ * Filters for listing agent configurations.
+ */
+export interface AgentConfigurationFilters {
+  /** Filter by assistant type */
+  assistantType?: AgentConfiguration['assistantType'];
+  /** Filter by model ID */
+  modelId?: string;
+}
 
 /**
  * Resource class for managing agent configurations in the WIIL Platform.
@@ -68,10 +84,21 @@ export class AgentConfigurationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<AgentConfigurationsResource> {
+    return withResponse(this.http, (http) => new AgentConfigurationsResource(http));
+  }
+
   /**
    * Creates a new agent configuration.
    *
    * @param data - Agent configuration data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created agent configuration
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -90,10 +117,12 @@ export class AgentConfigurationsResource {
    * console.log('Created agent:', agentConfig.id);
    * ```
    */
-  public async create(data: CreateAgentConfiguration): Promise<AgentConfiguration> {
+  public async create(data: CreateAgentConfiguration, options?: RequestOptions): Promise<AgentConfiguration> {
     return this.http.post<CreateAgentConfiguration, AgentConfiguration>(
       this.resource_path,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: AgentConfigurationSchema }
     );
   }
 
@@ -101,6 +130,7 @@ export class AgentConfigurationsResource {
    * Retrieves an agent configuration by ID.
    *
    * @param id - Agent configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the agent configuration
    *
    * @throws {@link WiilAPIError} - When the agent configuration is not found or API returns an error
@@ -113,14 +143,18 @@ export class AgentConfigurationsResource {
    * console.log('Model:', agentConfig.modelId);
    * ```
    */
-  public async get(id: string): Promise<AgentConfiguration> {
-    return this.http.get<AgentConfiguration>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<AgentConfiguration> {
+    return this.http.get<AgentConfiguration>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: AgentConfigurationSchema }
+    );
   }
 
   /**
    * Retrieves the full agent graph for an agent configuration.
    *
    * @param id - Agent configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the full agent graph with all related entities
    *
    * @remarks
@@ -136,14 +170,18 @@ export class AgentConfigurationsResource {
    * console.log('Deployments:', graph.deployments.length);
    * ```
    */
-  public async getGraph(id: string): Promise<AgentGraph> {
-    return this.http.get<AgentGraph>(`${this.resource_path}/${id}/graph`);
+  public async getGraph(id: string, options?: RequestOptions): Promise<AgentGraph> {
+    return this.http.get<AgentGraph>(
+      `${this.resource_path}/${id}/graph`,
+      { ...options, responseSchema: AgentGraphSchema }
+    );
   }
 
   /**
    * Updates an existing agent configuration.
    *
    * @param data - Agent configuration update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated agent configuration
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -160,10 +198,15 @@ export class AgentConfigurationsResource {
    * console.log('Updated agent:', updated.name);
    * ```
    */
-  public async update(data: UpdateAgentConfiguration): Promise<AgentConfiguration> {
+  public async update(
+    data: UpdateAgentConfiguration,
+    options?: RequestOptions
+  ): Promise<AgentConfiguration> {
     return this.http.patch<UpdateAgentConfiguration, AgentConfiguration>(
       this.resource_path,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: AgentConfigurationSchema }
     );
   }
 
@@ -171,6 +214,7 @@ export class AgentConfigurationsResource {
    * Deletes an agent configuration.
    *
    * @param id - Agent configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the agent configuration is not found or API returns an error
@@ -189,14 +233,16 @@ export class AgentConfigurationsResource {
    * }
    * ```
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists agent configurations with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of agent configurations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -223,15 +269,68 @@ export class AgentConfigurationsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<AgentConfiguration>,
+    filters?: AgentConfigurationFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<AgentConfiguration>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<AgentConfiguration>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(AgentConfigurationSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link AgentConfigurationsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.agents.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<AgentConfiguration>,
+    filters?: AgentConfigurationFilters,
+    options?: PaginateOptions
+  ): PageIterator<AgentConfiguration> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<AgentConfiguration>>(path);
+  /**
+   * Retrieves every item of {@link AgentConfigurationsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link AgentConfigurationsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.agents.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<AgentConfiguration>,
+    filters?: AgentConfigurationFilters,
+    options?: PaginateOptions
+  ): Promise<AgentConfiguration[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
@@ -6,9 +6,14 @@
 import {
   ServiceConversationConfigType,
   PaginatedResultType,
-  PaginationRequest,
+  ServiceConversationConfigTypeSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
 
 /**
  * Resource class for managing conversation configurations in the WIIL Platform.
@@ -48,10 +53,21 @@ export class ConversationConfigurationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ConversationConfigurationsResource> {
+    return withResponse(this.http, (http) => new ConversationConfigurationsResource(http));
+  }
+
   /**
    * Retrieves a conversation configuration by ID.
    *
    * @param id - Conversation configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the conversation configuration
    *
    * @throws {@link WiilAPIError} - When the conversation configuration is not found or API returns an error
@@ -65,14 +81,18 @@ export class ConversationConfigurationsResource {
    * console.log('Context Window:', config.contextWindow);
    * ```
    */
-  public async get(id: string): Promise<ServiceConversationConfigType> {
-    return this.http.get<ServiceConversationConfigType>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<ServiceConversationConfigType> {
+    return this.http.get<ServiceConversationConfigType>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: ServiceConversationConfigTypeSchema }
+    );
   }
 
   /**
    * Lists conversation configurations with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of conversation configurations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -99,15 +119,63 @@ export class ConversationConfigurationsResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<ServiceConversationConfigType>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<ServiceConversationConfigType>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<ServiceConversationConfigType>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(ServiceConversationConfigTypeSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ConversationConfigurationsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.conversationConfigs.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<ServiceConversationConfigType>,
+    options?: PaginateOptions
+  ): PageIterator<ServiceConversationConfigType> {
+    return paginate((params) => this.list(params, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<ServiceConversationConfigType>>(path);
+  /**
+   * Retrieves every item of {@link ConversationConfigurationsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ConversationConfigurationsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.conversationConfigs.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<ServiceConversationConfigType>,
+    options?: PaginateOptions
+  ): Promise<ServiceConversationConfigType[]> {
+    return this.iterate(params, options).toArray();
   }
 }
@@ -9,16 +9,21 @@ import {
   CreateDeploymentChannel,
   DeploymentChannelUpdateRequest,
   PaginatedResultType,
-  PaginationRequest,
   UpdateDeploymentChannel,
   DeploymentType,
+  DeploymentChannelSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
 
 /**
  * Options for deleting a deployment channel.
  */
-export interface DeleteDeploymentChannelOptions {
+export interface DeleteDeploymentChannelOptions extends RequestOptions {
   /**
    * Whether to also delete the associated phone configuration.
    * @default false
@@ -26,6 +31,14 @@ export interface DeleteDeploymentChannelOptions {
   deletePhoneConfig?: boolean;
 }
 
+/**
+ * Filters for listing deployment channels.
+ */
+export interface DeploymentChannelFilters {
+  /** Filter by deployment type */
+  deploymentType?: DeploymentType;
+}
+
 /**
  * Resource class for managing deployment channels in the WIIL Platform.
  *
@@ -68,21 +81,33 @@ export class DeploymentChannelsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<DeploymentChannelsResource> {
+    return withResponse(this.http, (http) => new DeploymentChannelsResource(http));
+  }
+
   /**
    * Creates a new deployment channel.
    *
    * @param data - Deployment channel data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created deployment channel
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateDeploymentChannel): Promise<DeploymentChannel> {
+  public async create(data: CreateDeploymentChannel, options?: RequestOptions): Promise<DeploymentChannel> {
     return this.http.post<CreateDeploymentChannel, DeploymentChannel>(
       this.resource_path,
       data,
-      CreateDeploymentChannelSchema
+      CreateDeploymentChannelSchema,
+      { ...options, responseSchema: DeploymentChannelSchema }
     );
   }
 
@@ -90,13 +115,17 @@ export class DeploymentChannelsResource {
    * Retrieves a deployment channel by ID.
    *
    * @param id - Deployment channel ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the deployment channel
    *
    * @throws {@link WiilAPIError} - When the deployment channel is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<DeploymentChannel> {
-    return this.http.get<DeploymentChannel>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<DeploymentChannel> {
+    return this.http.get<DeploymentChannel>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: DeploymentChannelSchema }
+    );
   }
 
   /**
@@ -104,14 +133,20 @@ export class DeploymentChannelsResource {
    *
    * @param identifier - Channel identifier (phone number, URL, etc.)
    * @param type - Deployment type
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the deployment channel
    *
    * @throws {@link WiilAPIError} - When the deployment channel is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getByIdentifier(identifier: string, type: DeploymentType): Promise<DeploymentChannel> {
+  public async getByIdentifier(
+    identifier: string,
+    type: DeploymentType,
+    options?: RequestOptions
+  ): Promise<DeploymentChannel> {
     return this.http.get<DeploymentChannel>(
-      `${this.resource_path}/by-identifier/${encodeURIComponent(identifier)}?type=${type}`
+      `${this.resource_path}/by-identifier/${encodeURIComponent(identifier)}?type=${type}`,
+      { ...options, responseSchema: DeploymentChannelSchema }
     );
   }
 
@@ -119,16 +154,22 @@ export class DeploymentChannelsResource {
    * Updates an existing deployment channel.
    *
    * @param data - Deployment channel update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated deployment channel
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the deployment channel is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(data: UpdateDeploymentChannel): Promise<DeploymentChannel> {
+  public async update(
+    data: UpdateDeploymentChannel,
+    options?: RequestOptions
+  ): Promise<DeploymentChannel> {
     return this.http.patch<UpdateDeploymentChannel, DeploymentChannel>(
       this.resource_path,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: DeploymentChannelSchema }
     );
   }
 
@@ -160,29 +201,84 @@ export class DeploymentChannelsResource {
 
     const path = `${this.resource_path}/${id}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
 
-    return this.http.delete<boolean>(path);
+    return this.http.delete<boolean>(path, options);
   }
 
   /**
    * Lists deployment channels with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of deployment channels
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DeploymentChannel>,
+    filters?: DeploymentChannelFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DeploymentChannel>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<DeploymentChannel>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DeploymentChannelSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link DeploymentChannelsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.channels.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<DeploymentChannel>,
+    filters?: DeploymentChannelFilters,
+    options?: PaginateOptions
+  ): PageIterator<DeploymentChannel> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<DeploymentChannel>>(path);
+  /**
+   * Retrieves every item of {@link DeploymentChannelsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link DeploymentChannelsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.channels.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<DeploymentChannel>,
+    filters?: DeploymentChannelFilters,
+    options?: PaginateOptions
+  ): Promise<DeploymentChannel[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
@@ -190,6 +286,7 @@ export class DeploymentChannelsResource {
    *
    * @param type - Deployment type (CALLS, SMS, WEB, MOBILE)
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of deployment channels
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -197,15 +294,33 @@ export class DeploymentChannelsResource {
    */
   public async listByType(
     type: DeploymentType,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DeploymentChannel>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DeploymentChannel>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-type/${type}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-type/${type}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<DeploymentChannel>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DeploymentChannelSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<DeploymentChannel>>(path);
+  /**
+   * Iterates over every page of {@link DeploymentChannelsResource.listByType}, yielding each item.
+   *
+   * @param type - Deployment type (CALLS, SMS, WEB, MOBILE)
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByType(
+    type: DeploymentType,
+    params?: ListParams<DeploymentChannel>,
+    options?: PaginateOptions
+  ): PageIterator<DeploymentChannel> {
+    return paginate((params) => this.listByType(type, params, options), params, options);
   }
 }
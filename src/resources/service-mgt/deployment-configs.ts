@@ -13,9 +13,28 @@ import {
   UpdateDeploymentConfigurationSchema,
   UpdateDeploymentConfiguration,
   PaginatedResultType,
-  PaginationRequest,
+  DeploymentConfigurationResultSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
+
+/**
+ * Filters for listing deployment configurations.
+ */
+export interface DeploymentConfigurationFilters {
+  /** Filter by project ID */
+  projectId?: string;
+  /** Filter by agent configuration ID */
+  agentConfigurationId?: string;
+  /** Filter by instruction configuration ID */
+  instructionConfigurationId?: string;
+  /** Filter by active state */
+  isActive?: boolean;
+}
 
 /**
  * Resource class for managing deployment configurations in the WIIL Platform.
@@ -60,21 +79,33 @@ export class DeploymentConfigurationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<DeploymentConfigurationsResource> {
+    return withResponse(this.http, (http) => new DeploymentConfigurationsResource(http));
+  }
+
   /**
    * Creates a new deployment configuration.
    *
    * @param data - Deployment configuration data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created deployment configuration
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateDeploymentConfiguration): Promise<DeploymentConfigurationResult> {
+  public async create(data: CreateDeploymentConfiguration, options?: RequestOptions): Promise<DeploymentConfigurationResult> {
     return this.http.post<CreateDeploymentConfiguration, DeploymentConfigurationResult>(
       this.resource_path,
       data,
-      CreateDeploymentConfigurationSchema
+      CreateDeploymentConfigurationSchema,
+      { ...options, responseSchema: DeploymentConfigurationResultSchema }
     );
   }
 
@@ -82,17 +113,19 @@ export class DeploymentConfigurationsResource {
    * Creates a chained deployment configuration.
    *
    * @param data - Chain deployment configuration data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created deployment configuration
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async createChain(data: CreateChainDeploymentConfiguration): Promise<DeploymentConfigurationResult> {
+  public async createChain(data: CreateChainDeploymentConfiguration, options?: RequestOptions): Promise<DeploymentConfigurationResult> {
     return this.http.post<CreateChainDeploymentConfiguration, DeploymentConfigurationResult>(
       this.resource_path,
       data,
-      CreateChainDeploymentConfigurationSchema
+      CreateChainDeploymentConfigurationSchema,
+      { ...options, responseSchema: DeploymentConfigurationResultSchema }
     );
   }
 
@@ -100,43 +133,59 @@ export class DeploymentConfigurationsResource {
    * Retrieves a deployment configuration by ID.
    *
    * @param id - Deployment configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the deployment configuration
    *
    * @throws {@link WiilAPIError} - When the deployment configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<DeploymentConfigurationResult> {
-    return this.http.get<DeploymentConfigurationResult>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<DeploymentConfigurationResult> {
+    return this.http.get<DeploymentConfigurationResult>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: DeploymentConfigurationResultSchema }
+    );
   }
 
   /**
    * Retrieves a deployment configuration by channel ID.
    *
    * @param channelId - Deployment channel ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the deployment configuration
    *
    * @throws {@link WiilAPIError} - When the deployment configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getByChannel(channelId: string): Promise<DeploymentConfigurationResult> {
-    return this.http.get<DeploymentConfigurationResult>(`${this.resource_path}/by-channel/${channelId}`);
+  public async getByChannel(
+    channelId: string,
+    options?: RequestOptions
+  ): Promise<DeploymentConfigurationResult> {
+    return this.http.get<DeploymentConfigurationResult>(
+      `${this.resource_path}/by-channel/${channelId}`,
+      { ...options, responseSchema: DeploymentConfigurationResultSchema }
+    );
   }
 
   /**
    * Updates an existing deployment configuration.
    *
    * @param data - Deployment configuration update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated deployment configuration
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the deployment configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(data: UpdateDeploymentConfiguration): Promise<DeploymentConfigurationResult> {
+  public async update(
+    data: UpdateDeploymentConfiguration,
+    options?: RequestOptions
+  ): Promise<DeploymentConfigurationResult> {
     return this.http.patch<UpdateDeploymentConfiguration, DeploymentConfigurationResult>(
       this.resource_path,
       data,
-      UpdateDeploymentConfigurationSchema
+      UpdateDeploymentConfigurationSchema,
+      { ...options, responseSchema: DeploymentConfigurationResultSchema }
     );
   }
 
@@ -144,35 +193,91 @@ export class DeploymentConfigurationsResource {
    * Deletes a deployment configuration.
    *
    * @param id - Deployment configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the deployment configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists deployment configurations with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of deployment configurations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DeploymentConfigurationResult>,
+    filters?: DeploymentConfigurationFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DeploymentConfigurationResult>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<DeploymentConfigurationResult>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DeploymentConfigurationResultSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link DeploymentConfigurationsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.deployments.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<DeploymentConfigurationResult>,
+    filters?: DeploymentConfigurationFilters,
+    options?: PaginateOptions
+  ): PageIterator<DeploymentConfigurationResult> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<DeploymentConfigurationResult>>(path);
+  /**
+   * Retrieves every item of {@link DeploymentConfigurationsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link DeploymentConfigurationsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.deployments.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<DeploymentConfigurationResult>,
+    filters?: DeploymentConfigurationFilters,
+    options?: PaginateOptions
+  ): Promise<DeploymentConfigurationResult[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
@@ -180,6 +285,7 @@ export class DeploymentConfigurationsResource {
    *
    * @param projectId - Project ID
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of deployment configurations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -187,16 +293,34 @@ export class DeploymentConfigurationsResource {
    */
   public async listByProject(
     projectId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DeploymentConfigurationResult>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DeploymentConfigurationResult>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-project/${projectId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-project/${projectId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<DeploymentConfigurationResult>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DeploymentConfigurationResultSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<DeploymentConfigurationResult>>(path);
+  /**
+   * Iterates over every page of {@link DeploymentConfigurationsResource.listByProject}, yielding each item.
+   *
+   * @param projectId - Project ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByProject(
+    projectId: string,
+    params?: ListParams<DeploymentConfigurationResult>,
+    options?: PaginateOptions
+  ): PageIterator<DeploymentConfigurationResult> {
+    return paginate((params) => this.listByProject(projectId, params, options), params, options);
   }
 
   /**
@@ -204,6 +328,7 @@ export class DeploymentConfigurationsResource {
    *
    * @param agentId - Agent configuration ID
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of deployment configurations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -211,16 +336,34 @@ export class DeploymentConfigurationsResource {
    */
   public async listByAgent(
     agentId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DeploymentConfigurationResult>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DeploymentConfigurationResult>> {
-    const queryParams = new URLSearchParams();
-
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    const path = `${this.resource_path}/by-agent/${agentId}${buildQueryString(params)}`;
 
-    const path = `${this.resource_path}/by-agent/${agentId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<DeploymentConfigurationResult>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DeploymentConfigurationResultSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<DeploymentConfigurationResult>>(path);
+  /**
+   * Iterates over every page of {@link DeploymentConfigurationsResource.listByAgent}, yielding each item.
+   *
+   * @param agentId - Agent configuration ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByAgent(
+    agentId: string,
+    params?: ListParams<DeploymentConfigurationResult>,
+    options?: PaginateOptions
+  ): PageIterator<DeploymentConfigurationResult> {
+    return paginate((params) => this.listByAgent(agentId, params, options), params, options);
   }
 
   /**
@@ -228,6 +371,7 @@ export class DeploymentConfigurationsResource {
    *
    * @param instructionId - Instruction configuration ID
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of deployment configurations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -235,15 +379,33 @@ export class DeploymentConfigurationsResource {
    */
   public async listByInstruction(
     instructionId: string,
-    params?: Partial<PaginationRequest>
+    params?: ListParams<DeploymentConfigurationResult>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<DeploymentConfigurationResult>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/by-instruction/${instructionId}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-
-    const path = `${this.resource_path}/by-instruction/${instructionId}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+    return this.http.get<PaginatedResultType<DeploymentConfigurationResult>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(DeploymentConfigurationResultSchema) }
+    );
+  }
 
-    return this.http.get<PaginatedResultType<DeploymentConfigurationResult>>(path);
+  /**
+   * Iterates over every page of {@link DeploymentConfigurationsResource.listByInstruction}, yielding each item.
+   *
+   * @param instructionId - Instruction configuration ID
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public iterateByInstruction(
+    instructionId: string,
+    params?: ListParams<DeploymentConfigurationResult>,
+    options?: PaginateOptions
+  ): PageIterator<DeploymentConfigurationResult> {
+    return paginate((params) => this.listByInstruction(instructionId, params, options), params, options);
   }
 }
@@ -10,6 +10,9 @@ import {
   DynamicAgentProcessingState,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { sleep } from '../../client/abort';
 
 /**
  * Options for configuring long-polling behavior.
@@ -18,8 +21,9 @@ import { HttpClient } from '../../client/HttpClient';
  * @property {number} [interval] - Polling interval in milliseconds (default: 2000)
  * @property {number} [timeout] - Maximum wait time in milliseconds (default: 120000)
  * @property {function} [onProgress] - Callback invoked on each poll with current state
+ * @property {AbortSignal} [signal] - Signal that stops polling when aborted
  */
-export interface PollOptions {
+export interface PollOptions extends Pick<RequestOptions, 'signal' | 'headers'> {
   /**
    * Polling interval in milliseconds.
    * @default 2000
@@ -41,11 +45,13 @@ export interface PollOptions {
 
 /**
  * Error thrown when polling times out before completion.
+ *
+ * @typeParam TState - Type of the last polled state
  */
-export class PollTimeoutError extends Error {
-  public readonly lastState: DynamicAgentProcessingState;
+export class PollTimeoutError<TState = DynamicAgentProcessingState> extends Error {
+  public readonly lastState: TState;
 
-  constructor(message: string, lastState: DynamicAgentProcessingState) {
+  constructor(message: string, lastState: TState) {
     super(message);
     this.name = 'PollTimeoutError';
     this.lastState = lastState;
@@ -99,10 +105,21 @@ export class DynamicAgentStatusResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<DynamicAgentStatusResource> {
+    return withResponse(this.http, (http) => new DynamicAgentStatusResource(http));
+  }
+
   /**
    * Retrieves the current status of a dynamic agent setup operation.
    *
    * @param id - Dynamic agent setup ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the setup result (base, web, or phone agent type)
    *
    * @throws {@link WiilAPIError} - When the setup ID is not found or API returns an error
@@ -129,8 +146,14 @@ export class DynamicAgentStatusResource {
    * }
    * ```
    */
-  public async get(id: string): Promise<DynamicAgentSetupResult | DynamicWebAgentSetupResult | DynamicPhoneAgentSetupResult> {
-    return this.http.get<DynamicAgentSetupResult | DynamicWebAgentSetupResult | DynamicPhoneAgentSetupResult>(`${this.resource_path}/${id}`);
+  public async get(
+    id: string,
+    options?: RequestOptions
+  ): Promise<DynamicAgentSetupResult | DynamicWebAgentSetupResult | DynamicPhoneAgentSetupResult> {
+    return this.http.get<DynamicAgentSetupResult | DynamicWebAgentSetupResult | DynamicPhoneAgentSetupResult>(
+      `${this.resource_path}/${id}`,
+      options
+    );
   }
 
   /**
@@ -141,13 +164,16 @@ export class DynamicAgentStatusResource {
    * @returns Promise resolving to the final setup result (base, web, or phone agent type)
    *
    * @throws {@link PollTimeoutError} - When polling times out before completion
+   * @throws {@link WiilAbortError} - When the signal is aborted
    * @throws {@link WiilAPIError} - When the setup ID is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    *
    * @remarks
    * This method will continuously poll the API until the processing state reaches
    * 'completed' or 'failed'. If the timeout is reached before completion, a
-   * PollTimeoutError is thrown containing the last known state.
+   * PollTimeoutError is thrown containing the last known state. Aborting
+   * `options.signal` stops polling immediately, including during the wait
+   * between polls.
    *
    * The returned type depends on the agent type that was created. Use property
    * checking to narrow the type and access specialized properties.
@@ -190,12 +216,13 @@ export class DynamicAgentStatusResource {
     const interval = options?.interval ?? 5000; // Default to 5 seconds
     const timeout = options?.timeout ?? 120000; // Default to 2 minutes
     const onProgress = options?.onProgress;
+    const requestOptions: RequestOptions = { signal: options?.signal, headers: options?.headers };
 
     const startTime = Date.now();
     let lastState: DynamicAgentProcessingState | null = null;
 
     while (true) {
-      const result = await this.get(id);
+      const result = await this.get(id, requestOptions);
       lastState = result.processingState;
 
       // Invoke progress callback if provided
@@ -221,19 +248,7 @@ export class DynamicAgentStatusResource {
       }
 
       // Wait before next poll
-      await this.sleep(interval);
+      await sleep(interval, options?.signal);
     }
   }
-
-  /**
-   * Utility method to sleep for a specified duration.
-   *
-   * @param ms - Duration to sleep in milliseconds
-   * @returns Promise that resolves after the specified duration
-   *
-   * @private
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
@@ -10,15 +10,19 @@ import {
   DynamicAgentProcessingState,
   DynamicSTTModelConfiguration,
   DynamicTTSModelConfiguration,
+  DynamicPhoneAgentSetupResultSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { sleep } from '../../client/abort';
 import { WiilValidationError } from '../../errors/WiilError';
 import { PollTimeoutError } from './dynamic-agent-status';
 
 /**
  * Options for configuring agent creation behavior.
  */
-export interface PhoneAgentCreateOptions {
+export interface PhoneAgentCreateOptions extends RequestOptions {
   /**
    * Whether to poll until setup completes. When true, the method will wait
    * for the agent to be fully provisioned before returning.
@@ -44,7 +48,7 @@ export interface PhoneAgentCreateOptions {
   onProgress?: (state: DynamicAgentProcessingState) => void;
 
   /**
-   * Whether to suppress console logging. When false, progress is logged to console.
+   * Whether to suppress progress logging. When false, progress is logged through the client `logger`.
    * @default false
    */
   silent?: boolean;
@@ -96,17 +100,28 @@ export class DynamicPhoneAgentResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<DynamicPhoneAgentResource> {
+    return withResponse(this.http, (http) => new DynamicPhoneAgentResource(http));
+  }
+
   /**
    * Creates and provisions a new dynamic phone agent.
    *
    * @param data - Phone agent configuration data
-   * @param options - Creation options for polling and logging behavior
+   * @param options - Creation options for polling, logging, idempotency, and cancellation behavior
    * @returns Promise resolving to the setup result including provisioned phone number
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    * @throws {@link PollTimeoutError} - When polling times out before completion
+   * @throws {@link WiilAbortError} - When the signal is aborted
    *
    * @example
    * ```typescript
@@ -149,12 +164,21 @@ export class DynamicPhoneAgentResource {
     const pollTimeout = options?.pollTimeout ?? 120000;
     const onProgress = options?.onProgress;
     const silent = options?.silent ?? false;
+    const requestOptions: RequestOptions = {
+      signal: options?.signal,
+      timeout: options?.timeout,
+      headers: options?.headers,
+    };
 
     const startTime = Date.now();
     const agentName = data.assistantName;
 
     // Validate model configurations before proceeding
-    await this.validateModelConfigurations(data.sttConfiguration, data.ttsConfiguration);
+    await this.validateModelConfigurations(
+      data.sttConfiguration,
+      data.ttsConfiguration,
+      requestOptions
+    );
 
     // Log initial creation
     if (!silent) {
@@ -164,7 +188,13 @@ export class DynamicPhoneAgentResource {
     // Create the agent
     const initialResult = await this.http.post<DynamicPhoneAgentSetup, DynamicPhoneAgentSetupResult>(
       this.resource_path,
-      data
+      data,
+      undefined,
+      {
+        ...requestOptions,
+        idempotencyKey: options?.idempotencyKey,
+        responseSchema: DynamicPhoneAgentSetupResultSchema,
+      }
     );
 
     // If not polling, return immediately
@@ -189,7 +219,8 @@ export class DynamicPhoneAgentResource {
 
     while (true) {
       const result = await this.http.get<DynamicPhoneAgentSetupResult>(
-        `${this.status_path}/${initialResult.id}`
+        `${this.status_path}/${initialResult.id}`,
+        { ...requestOptions, responseSchema: DynamicPhoneAgentSetupResultSchema }
       );
       lastState = result.processingState;
 
@@ -222,7 +253,7 @@ export class DynamicPhoneAgentResource {
       }
 
       // Wait before next poll
-      await this.sleep(pollInterval);
+      await sleep(pollInterval, options?.signal);
     }
   }
 
@@ -230,6 +261,7 @@ export class DynamicPhoneAgentResource {
    * Updates an existing dynamic phone agent configuration.
    *
    * @param data - Phone agent update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated phone agent setup result
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -246,13 +278,18 @@ export class DynamicPhoneAgentResource {
    * console.log('Updated agent:', updated.agentConfigurationId);
    * ```
    */
-  public async update(data: UpdateDynamicPhoneAgent): Promise<DynamicPhoneAgentSetupResult> {
+  public async update(
+    data: UpdateDynamicPhoneAgent,
+    options?: RequestOptions
+  ): Promise<DynamicPhoneAgentSetupResult> {
     // Validate model configurations before proceeding
-    await this.validateModelConfigurations(data.sttConfiguration, data.ttsConfiguration);
+    await this.validateModelConfigurations(data.sttConfiguration, data.ttsConfiguration, options);
 
     return this.http.patch<UpdateDynamicPhoneAgent, DynamicPhoneAgentSetupResult>(
       this.resource_path,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: DynamicPhoneAgentSetupResultSchema }
     );
   }
 
@@ -260,7 +297,7 @@ export class DynamicPhoneAgentResource {
    * Logs a message with agent context.
    */
   private log(message: string): void {
-    console.log(`[Phone Agent] ${message}`);
+    this.http.logger.info(`[Phone Agent] ${message}`);
   }
 
   /**
@@ -269,7 +306,7 @@ export class DynamicPhoneAgentResource {
   private logProgress(state: DynamicAgentProcessingState): void {
     const progressBar = this.createProgressBar(state.progressPercentage);
     const statusMsg = state.message || this.getStatusMessage(state.status);
-    console.log(`[Phone Agent] ${progressBar} ${state.progressPercentage}% | ${statusMsg}`);
+    this.http.logger.info(`[Phone Agent] ${progressBar} ${state.progressPercentage}% | ${statusMsg}`);
   }
 
   /**
@@ -286,21 +323,21 @@ export class DynamicPhoneAgentResource {
     const duration = this.formatDuration(elapsed);
 
     if (result.processingState.status === 'completed' && result.success) {
-      console.log(`[Phone Agent] ${this.createProgressBar(100)} 100% | Setup complete`);
-      console.log(`[Phone Agent] ✓ Ready in ${duration}`);
+      this.http.logger.info(`[Phone Agent] ${this.createProgressBar(100)} 100% | Setup complete`);
+      this.http.logger.info(`[Phone Agent] ✓ Ready in ${duration}`);
       if (result.phoneNumber) {
-        console.log(`  → Phone: ${result.phoneNumber}`);
+        this.http.logger.info(`  → Phone: ${result.phoneNumber}`);
       }
       if (result.agentConfigurationId) {
-        console.log(`  → Agent ID: ${result.agentConfigurationId}`);
+        this.http.logger.info(`  → Agent ID: ${result.agentConfigurationId}`);
       }
       if (result.instructionConfigurationId) {
-        console.log(`  → Instruction ID: ${result.instructionConfigurationId}`);
+        this.http.logger.info(`  → Instruction ID: ${result.instructionConfigurationId}`);
       }
     } else {
-      console.log(`[Phone Agent] ✗ Setup failed after ${duration}`);
+      this.http.logger.error(`[Phone Agent] ✗ Setup failed after ${duration}`);
       if (result.errorMessage) {
-        console.log(`  → Error: ${result.errorMessage}`);
+        this.http.logger.error(`  → Error: ${result.errorMessage}`);
       }
     }
   }
@@ -344,18 +381,12 @@ export class DynamicPhoneAgentResource {
     return `${seconds}s`;
   }
 
-  /**
-   * Sleeps for the specified duration.
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   /**
    * Validates STT and TTS model configurations against the support registry.
    *
    * @param sttConfig - Optional STT configuration to validate
    * @param ttsConfig - Optional TTS configuration to validate
+   * @param options - Optional request options such as an abort signal
    *
    * @throws {@link WiilValidationError} - When a model is not supported
    *
@@ -363,7 +394,8 @@ export class DynamicPhoneAgentResource {
    */
   private async validateModelConfigurations(
     sttConfig?: DynamicSTTModelConfiguration | null,
-    ttsConfig?: DynamicTTSModelConfiguration | null
+    ttsConfig?: DynamicTTSModelConfiguration | null,
+    options?: RequestOptions
   ): Promise<void> {
     const validationPromises: Promise<void>[] = [];
 
@@ -372,7 +404,8 @@ export class DynamicPhoneAgentResource {
         this.validateModel(
           sttConfig.providerType,
           sttConfig.providerModelId,
-          'STT'
+          'STT',
+          options
         )
       );
     }
@@ -382,7 +415,8 @@ export class DynamicPhoneAgentResource {
         this.validateModel(
           ttsConfig.providerType,
           ttsConfig.providerModelId,
-          'TTS'
+          'TTS',
+          options
         )
       );
     }
@@ -396,6 +430,7 @@ export class DynamicPhoneAgentResource {
    * @param providerType - The model provider (e.g., 'Deepgram', 'ElevenLabs')
    * @param providerModelId - The provider-specific model identifier
    * @param modelType - Label for error messages ('STT' or 'TTS')
+   * @param options - Optional request options such as an abort signal
    *
    * @throws {@link WiilValidationError} - When the model is not supported
    *
@@ -404,10 +439,12 @@ export class DynamicPhoneAgentResource {
   private async validateModel(
     providerType: string,
     providerModelId: string,
-    modelType: string
+    modelType: string,
+    options?: RequestOptions
   ): Promise<void> {
     const isSupported = await this.http.get<boolean>(
-      `/support-models/supports/${providerType}/${providerModelId}`
+      `/support-models/supports/${providerType}/${providerModelId}`,
+      options
     );
 
     if (!isSupported) {
@@ -10,15 +10,19 @@ import {
   DynamicAgentProcessingState,
   DynamicSTTModelConfiguration,
   DynamicTTSModelConfiguration,
+  DynamicWebAgentSetupResultSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { sleep } from '../../client/abort';
 import { WiilValidationError } from '../../errors/WiilError';
 import { PollTimeoutError } from './dynamic-agent-status';
 
 /**
  * Options for configuring agent creation behavior.
  */
-export interface WebAgentCreateOptions {
+export interface WebAgentCreateOptions extends RequestOptions {
   /**
    * Whether to poll until setup completes. When true, the method will wait
    * for the agent to be fully provisioned before returning.
@@ -44,7 +48,7 @@ export interface WebAgentCreateOptions {
   onProgress?: (state: DynamicAgentProcessingState) => void;
 
   /**
-   * Whether to suppress console logging. When false, progress is logged to console.
+   * Whether to suppress progress logging. When false, progress is logged through the client `logger`.
    * @default false
    */
   silent?: boolean;
@@ -101,17 +105,28 @@ export class DynamicWebAgentResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<DynamicWebAgentResource> {
+    return withResponse(this.http, (http) => new DynamicWebAgentResource(http));
+  }
+
   /**
    * Creates and provisions a new dynamic web agent.
    *
    * @param data - Web agent configuration data
-   * @param options - Creation options for polling and logging behavior
+   * @param options - Creation options for polling, logging, idempotency, and cancellation behavior
    * @returns Promise resolving to the setup result including integration snippets
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    * @throws {@link PollTimeoutError} - When polling times out before completion
+   * @throws {@link WiilAbortError} - When the signal is aborted
    *
    * @example
    * ```typescript
@@ -160,12 +175,21 @@ export class DynamicWebAgentResource {
     const pollTimeout = options?.pollTimeout ?? 120000;
     const onProgress = options?.onProgress;
     const silent = options?.silent ?? false;
+    const requestOptions: RequestOptions = {
+      signal: options?.signal,
+      timeout: options?.timeout,
+      headers: options?.headers,
+    };
 
     const startTime = Date.now();
     const agentName = data.assistantName;
 
     // Validate model configurations before proceeding
-    await this.validateModelConfigurations(data.sttConfiguration, data.ttsConfiguration);
+    await this.validateModelConfigurations(
+      data.sttConfiguration,
+      data.ttsConfiguration,
+      requestOptions
+    );
 
     // Log initial creation
     if (!silent) {
@@ -175,7 +199,13 @@ export class DynamicWebAgentResource {
     // Create the agent
     const initialResult = await this.http.post<DynamicWebAgentSetup, DynamicWebAgentSetupResult>(
       this.resource_path,
-      data
+      data,
+      undefined,
+      {
+        ...requestOptions,
+        idempotencyKey: options?.idempotencyKey,
+        responseSchema: DynamicWebAgentSetupResultSchema,
+      }
     );
 
     // If not polling, return immediately
@@ -200,7 +230,8 @@ export class DynamicWebAgentResource {
 
     while (true) {
       const result = await this.http.get<DynamicWebAgentSetupResult>(
-        `${this.status_path}/${initialResult.id}`
+        `${this.status_path}/${initialResult.id}`,
+        { ...requestOptions, responseSchema: DynamicWebAgentSetupResultSchema }
       );
       lastState = result.processingState;
 
@@ -233,7 +264,7 @@ export class DynamicWebAgentResource {
       }
 
       // Wait before next poll
-      await this.sleep(pollInterval);
+      await sleep(pollInterval, options?.signal);
     }
   }
 
@@ -241,6 +272,7 @@ export class DynamicWebAgentResource {
    * Updates an existing dynamic web agent configuration.
    *
    * @param data - Web agent update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated web agent setup result
    *
    * @throws {@link WiilValidationError} - When input validation fails
@@ -257,13 +289,18 @@ export class DynamicWebAgentResource {
    * console.log('Updated agent:', updated.agentConfigurationId);
    * ```
    */
-  public async update(data: UpdateDynamicWebAgent): Promise<DynamicWebAgentSetupResult> {
+  public async update(
+    data: UpdateDynamicWebAgent,
+    options?: RequestOptions
+  ): Promise<DynamicWebAgentSetupResult> {
     // Validate model configurations before proceeding
-    await this.validateModelConfigurations(data.sttConfiguration, data.ttsConfiguration);
+    await this.validateModelConfigurations(data.sttConfiguration, data.ttsConfiguration, options);
 
     return this.http.patch<UpdateDynamicWebAgent, DynamicWebAgentSetupResult>(
       this.resource_path,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: DynamicWebAgentSetupResultSchema }
     );
   }
 
@@ -271,7 +308,7 @@ export class DynamicWebAgentResource {
    * Logs a message with agent context.
    */
   private log(message: string): void {
-    console.log(`[Web Agent] ${message}`);
+    this.http.logger.info(`[Web Agent] ${message}`);
   }
 
   /**
@@ -280,7 +317,7 @@ export class DynamicWebAgentResource {
   private logProgress(state: DynamicAgentProcessingState): void {
     const progressBar = this.createProgressBar(state.progressPercentage);
     const statusMsg = state.message || this.getStatusMessage(state.status);
-    console.log(`[Web Agent] ${progressBar} ${state.progressPercentage}% | ${statusMsg}`);
+    this.http.logger.info(`[Web Agent] ${progressBar} ${state.progressPercentage}% | ${statusMsg}`);
   }
 
   /**
@@ -297,21 +334,21 @@ export class DynamicWebAgentResource {
     const duration = this.formatDuration(elapsed);
 
     if (result.processingState.status === 'completed' && result.success) {
-      console.log(`[Web Agent] ${this.createProgressBar(100)} 100% | Setup complete`);
-      console.log(`[Web Agent] ✓ Ready in ${duration}`);
+      this.http.logger.info(`[Web Agent] ${this.createProgressBar(100)} 100% | Setup complete`);
+      this.http.logger.info(`[Web Agent] ✓ Ready in ${duration}`);
       if (result.agentConfigurationId) {
-        console.log(`  → Agent ID: ${result.agentConfigurationId}`);
+        this.http.logger.info(`  → Agent ID: ${result.agentConfigurationId}`);
       }
       if (result.instructionConfigurationId) {
-        console.log(`  → Instruction ID: ${result.instructionConfigurationId}`);
+        this.http.logger.info(`  → Instruction ID: ${result.instructionConfigurationId}`);
       }
       if (result.integrationSnippets && result.integrationSnippets.length > 0) {
-        console.log(`  → Integration snippets: ${result.integrationSnippets.length} available`);
+        this.http.logger.info(`  → Integration snippets: ${result.integrationSnippets.length} available`);
       }
     } else {
-      console.log(`[Web Agent] ✗ Setup failed after ${duration}`);
+      this.http.logger.error(`[Web Agent] ✗ Setup failed after ${duration}`);
       if (result.errorMessage) {
-        console.log(`  → Error: ${result.errorMessage}`);
+        this.http.logger.error(`  → Error: ${result.errorMessage}`);
       }
     }
   }
@@ -355,18 +392,12 @@ export class DynamicWebAgentResource {
     return `${seconds}s`;
   }
 
-  /**
-   * Sleeps for the specified duration.
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   /**
    * Validates STT and TTS model configurations against the support registry.
    *
    * @param sttConfig - Optional STT configuration to validate
    * @param ttsConfig - Optional TTS configuration to validate
+   * @param options - Optional request options such as an abort signal
    *
    * @throws {@link WiilValidationError} - When a model is not supported
    *
@@ -374,7 +405,8 @@ export class DynamicWebAgentResource {
    */
   private async validateModelConfigurations(
     sttConfig?: DynamicSTTModelConfiguration | null,
-    ttsConfig?: DynamicTTSModelConfiguration | null
+    ttsConfig?: DynamicTTSModelConfiguration | null,
+    options?: RequestOptions
   ): Promise<void> {
     const validationPromises: Promise<void>[] = [];
 
@@ -383,7 +415,8 @@ export class DynamicWebAgentResource {
         this.validateModel(
           sttConfig.providerType,
           sttConfig.providerModelId,
-          'STT'
+          'STT',
+          options
         )
       );
     }
@@ -393,7 +426,8 @@ export class DynamicWebAgentResource {
         this.validateModel(
           ttsConfig.providerType,
           ttsConfig.providerModelId,
-          'TTS'
+          'TTS',
+          options
         )
       );
     }
@@ -407,6 +441,7 @@ export class DynamicWebAgentResource {
    * @param providerType - The model provider (e.g., 'Deepgram', 'ElevenLabs')
    * @param providerModelId - The provider-specific model identifier
    * @param modelType - Label for error messages ('STT' or 'TTS')
+   * @param options - Optional request options such as an abort signal
    *
    * @throws {@link WiilValidationError} - When the model is not supported
    *
@@ -415,10 +450,12 @@ export class DynamicWebAgentResource {
   private async validateModel(
     providerType: string,
     providerModelId: string,
-    modelType: string
+    modelType: string,
+    options?: RequestOptions
   ): Promise<void> {
     const isSupported = await this.http.get<boolean>(
-      `/support-models/supports/${providerType}/${providerModelId}`
+      `/support-models/supports/${providerType}/${providerModelId}`,
+      options
     );
 
     if (!isSupported) {
@@ -12,6 +12,7 @@ export * from './provisioning-configs';
 export * from './conversation-configs';
 export * from './knowledge-sources';
 export * from './support-models';
+export * from './model-capabilities';
 export * from './telephony-provider';
 export * from './dynamic-phone-agent';
 export * from './dynamic-web-agent';
@@ -10,9 +10,14 @@ import {
   UpdateInstructionConfigurationSchema,
   UpdateInstructionConfiguration,
   PaginatedResultType,
-  PaginationRequest,
+  InstructionConfigurationSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
 
 /**
  * Resource class for managing instruction configurations in the WIIL Platform.
@@ -68,21 +73,33 @@ export class InstructionConfigurationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<InstructionConfigurationsResource> {
+    return withResponse(this.http, (http) => new InstructionConfigurationsResource(http));
+  }
+
   /**
    * Creates a new instruction configuration.
    *
    * @param data - Instruction configuration data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created instruction configuration
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateInstructionConfiguration): Promise<InstructionConfiguration> {
+  public async create(data: CreateInstructionConfiguration, options?: RequestOptions): Promise<InstructionConfiguration> {
     return this.http.post<CreateInstructionConfiguration, InstructionConfiguration>(
       this.resource_path,
       data,
-      CreateInstructionConfigurationSchema
+      CreateInstructionConfigurationSchema,
+      { ...options, responseSchema: InstructionConfigurationSchema }
     );
   }
 
@@ -90,30 +107,39 @@ export class InstructionConfigurationsResource {
    * Retrieves an instruction configuration by ID.
    *
    * @param id - Instruction configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the instruction configuration
    *
    * @throws {@link WiilAPIError} - When the instruction configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<InstructionConfiguration> {
-    return this.http.get<InstructionConfiguration>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<InstructionConfiguration> {
+    return this.http.get<InstructionConfiguration>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: InstructionConfigurationSchema }
+    );
   }
 
   /**
    * Updates an existing instruction configuration.
    *
    * @param data - Instruction configuration update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated instruction configuration
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the instruction configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(data: UpdateInstructionConfiguration): Promise<InstructionConfiguration> {
+  public async update(
+    data: UpdateInstructionConfiguration,
+    options?: RequestOptions
+  ): Promise<InstructionConfiguration> {
     return this.http.patch<UpdateInstructionConfiguration, InstructionConfiguration>(
       this.resource_path,
       data,
-      UpdateInstructionConfigurationSchema
+      UpdateInstructionConfigurationSchema,
+      { ...options, responseSchema: InstructionConfigurationSchema }
     );
   }
 
@@ -121,40 +147,91 @@ export class InstructionConfigurationsResource {
    * Deletes an instruction configuration.
    *
    * @param id - Instruction configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the instruction configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists instruction configurations with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of instruction configurations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<InstructionConfiguration>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<InstructionConfiguration>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<InstructionConfiguration>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(InstructionConfigurationSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link InstructionConfigurationsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.instructions.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<InstructionConfiguration>,
+    options?: PaginateOptions
+  ): PageIterator<InstructionConfiguration> {
+    return paginate((params) => this.list(params, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<InstructionConfiguration>>(path);
+  /**
+   * Retrieves every item of {@link InstructionConfigurationsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link InstructionConfigurationsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.instructions.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<InstructionConfiguration>,
+    options?: PaginateOptions
+  ): Promise<InstructionConfiguration[]> {
+    return this.iterate(params, options).toArray();
   }
 
   /**
    * Retrieves the list of supported instruction templates.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to array of supported instruction template configurations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -169,7 +246,12 @@ export class InstructionConfigurationsResource {
    * });
    * ```
    */
-  public async getSupportedTemplates(): Promise<InstructionConfiguration[]> {
-    return this.http.get<InstructionConfiguration[]>(`${this.resource_path}/supported-templates`);
+  public async getSupportedTemplates(
+    options?: RequestOptions
+  ): Promise<InstructionConfiguration[]> {
+    return this.http.get<InstructionConfiguration[]>(
+      `${this.resource_path}/supported-templates`,
+      { ...options, responseSchema: InstructionConfigurationSchema.array() }
+    );
   }
 }
@@ -4,9 +4,15 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import nock from 'nock';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
 import { WiilClient } from '../../client/WiilClient';
 import { KnowledgeSource, PaginatedResultType, KnowledgeTypes, KnowledgeBaseProcessingStatus, StorageTier } from 'wiil-core-js';
-import { WiilAPIError } from '../../errors/WiilError';
+import { WiilAPIError, WiilConfigurationError, WiilValidationError } from '../../errors/WiilError';
+import { PollTimeoutError } from './dynamic-agent-status';
+import { chunkDocument, hashContent } from './knowledge-sync';
 
 const BASE_URL = 'https://api.wiil.io/v1';
 const API_KEY = 'test-api-key';
@@ -132,4 +138,289 @@ describe('KnowledgeSourcesResource', () => {
       expect(result.meta.page).toBe(1);
     });
   });
+
+  const source = (overrides: Partial<KnowledgeSource> = {}): KnowledgeSource => ({
+    id: 'ks_123',
+    name: 'Returns Policy',
+    sourceType: KnowledgeTypes.DOCUMENT,
+    request_success: true,
+    processingStatus: 'processing' as KnowledgeSource['processingStatus'],
+    storage_tier: StorageTier.FIRESTORE,
+    access_count: 0,
+    is_compressed: false,
+    metadata: {},
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...overrides,
+  });
+
+  const reply = (data: unknown) => ({
+    success: true,
+    data,
+    metadata: { timestamp: Date.now(), version: 'v1' },
+  });
+
+  describe('createFromFile', () => {
+    it('should upload a file from a path as multipart form data', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'wiil-ks-'));
+      const path = join(dir, 'returns-policy.md');
+      await writeFile(path, '# Returns\nItems can be returned within 30 days.');
+
+      nock(BASE_URL)
+        .post(
+          '/knowledge-sources/file',
+          (body: string) =>
+            body.includes('filename="returns-policy.md"') &&
+            body.includes('Content-Type: text/markdown') &&
+            body.includes('Items can be returned within 30 days.') &&
+            body.includes('{"category":"policies"}')
+        )
+        .matchHeader('Content-Type', /^multipart\/form-data/)
+        .reply(200, reply(source()));
+
+      try {
+        const result = await client.knowledgeSources.createFromFile({
+          file: path,
+          metadata: { category: 'policies' },
+        });
+        expect(result.id).toBe('ks_123');
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should upload Buffers and streams with the given file name', async () => {
+      nock(BASE_URL)
+        .post('/knowledge-sources/file', (body: string) => body.includes('name="name"') && body.includes('Prices'))
+        .times(2)
+        .reply(200, reply(source({ name: 'Prices' })));
+
+      await client.knowledgeSources.createFromFile({
+        name: 'Prices',
+        file: Buffer.from('sku,price\nA1,10'),
+        fileName: 'prices.csv',
+      });
+      await client.knowledgeSources.createFromFile({
+        name: 'Prices',
+        file: Readable.from([Buffer.from('sku,price\n'), Buffer.from('A1,10')]),
+        fileName: 'prices.csv',
+      });
+
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should reject unsupported file types and missing file names', async () => {
+      await expect(
+        client.knowledgeSources.createFromFile({ file: Buffer.from('data'), fileName: 'notes.txt' })
+      ).rejects.toThrow(WiilValidationError);
+      await expect(
+        client.knowledgeSources.createFromFile({ file: Buffer.from('data') })
+      ).rejects.toThrow(WiilValidationError);
+    });
+  });
+
+  describe('createFromUrl', () => {
+    it('should create a knowledge source from a URL', async () => {
+      const input = { name: 'Help Center', url: 'https://help.example.com/faq' };
+
+      nock(BASE_URL)
+        .post('/knowledge-sources/url', input)
+        .reply(200, reply(source({ name: 'Help Center', sourceType: KnowledgeTypes.URL })));
+
+      const result = await client.knowledgeSources.createFromUrl(input);
+
+      expect(result.name).toBe('Help Center');
+    });
+
+    it('should reject non-http URLs', async () => {
+      await expect(
+        client.knowledgeSources.createFromUrl({ name: 'Help Center', url: 'ftp://help.example.com/faq' })
+      ).rejects.toThrow(WiilValidationError);
+    });
+  });
+
+  describe('update', () => {
+    it('should update a knowledge source', async () => {
+      const input = { id: 'ks_123', url: 'https://help.example.com/faq-v2' };
+
+      nock(BASE_URL).patch('/knowledge-sources', input).reply(200, reply(source()));
+
+      const result = await client.knowledgeSources.update(input);
+
+      expect(result.id).toBe('ks_123');
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete a knowledge source', async () => {
+      nock(BASE_URL).delete('/knowledge-sources/ks_123').reply(200, reply(true));
+
+      const result = await client.knowledgeSources.delete('ks_123');
+
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('poll', () => {
+    it('should poll until ingestion completes', async () => {
+      nock(BASE_URL).get('/knowledge-sources/ks_123').reply(200, reply(source()));
+      nock(BASE_URL)
+        .get('/knowledge-sources/ks_123')
+        .reply(200, reply(source({ processingStatus: KnowledgeBaseProcessingStatus.COMPLETED })));
+
+      const statuses: string[] = [];
+      const result = await client.knowledgeSources.poll('ks_123', {
+        interval: 1,
+        onProgress: (current) => statuses.push(current.processingStatus as string),
+      });
+
+      expect(result.processingStatus).toBe(KnowledgeBaseProcessingStatus.COMPLETED);
+      expect(statuses).toEqual(['processing', KnowledgeBaseProcessingStatus.COMPLETED]);
+    });
+
+    it('should throw PollTimeoutError with the last polled source', async () => {
+      nock(BASE_URL).get('/knowledge-sources/ks_123').reply(200, reply(source()));
+
+      const error = await client.knowledgeSources.poll('ks_123', { timeout: 0 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PollTimeoutError);
+      expect(error.lastState.id).toBe('ks_123');
+    });
+  });
+
+  describe('syncDirectory', () => {
+    const policy = `# Returns\n\nItems can be returned within 30 days. ${'Policy details. '.repeat(80)}`;
+    const shipping = `# Shipping\n\nOrders ship within two business days. ${'Shipping details. '.repeat(80)}`;
+    const timestamps = { createdAt: 1700000000000, updatedAt: 1700000000000 };
+    const syncMetadata = async (path: string, content: string) => ({
+      syncId: 'agent_123',
+      syncPath: path,
+      syncChunk: 0,
+      syncHash: await hashContent(chunkDocument(content)[0]),
+    });
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'wiil-sync-'));
+      await writeFile(join(dir, 'returns.md'), policy);
+      await writeFile(join(dir, 'shipping.md'), shipping);
+      await writeFile(join(dir, 'draft.md'), '# Draft\n\nTODO');
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    const mockAgent = (knowledgeSources: KnowledgeSource[], knowledgeSourceIds: string[]) => {
+      nock(BASE_URL)
+        .get('/agent-configurations/agent_123')
+        .reply(200, reply({ id: 'agent_123', name: 'Support Agent', modelId: 'model_123', instructionConfigurationId: 'instr_123', ...timestamps }));
+      nock(BASE_URL)
+        .get('/instruction-configurations/instr_123')
+        .reply(
+          200,
+          reply({
+            id: 'instr_123',
+            instructionName: 'support',
+            role: 'Support',
+            introductionMessage: 'Hello!',
+            instructions: 'Help customers.',
+            guardrails: 'Be polite.',
+            supportedServices: [],
+            knowledgeSourceIds,
+            ...timestamps,
+          })
+        );
+      nock(BASE_URL)
+        .get('/knowledge-sources')
+        .query(true)
+        .reply(
+          200,
+          reply({
+            data: knowledgeSources,
+            meta: { page: 1, pageSize: 100, totalCount: knowledgeSources.length, totalPages: 1, hasNextPage: false, hasPreviousPage: false },
+          })
+        );
+    };
+
+    it('should upload new chunks, link them, and delete removed ones', async () => {
+      mockAgent(
+        [
+          source({ id: 'ks_manual', name: 'Manual FAQ' }),
+          source({ id: 'ks_old', name: 'old.md', metadata: await syncMetadata('old.md', policy) }),
+        ],
+        ['ks_manual', 'ks_old']
+      );
+      nock(BASE_URL)
+        .post('/knowledge-sources/text', (body) => body.name === 'returns.md' && body.metadata.syncPath === 'returns.md')
+        .reply(200, reply(source({ id: 'ks_returns', name: 'returns.md' })));
+      nock(BASE_URL)
+        .post('/knowledge-sources/text', (body) => body.name === 'shipping.md')
+        .reply(200, reply(source({ id: 'ks_shipping', name: 'shipping.md' })));
+      nock(BASE_URL)
+        .patch('/instruction-configurations', { id: 'instr_123', knowledgeSourceIds: ['ks_manual', 'ks_returns', 'ks_shipping'] })
+        .reply(200, reply({ id: 'instr_123' }));
+      nock(BASE_URL).delete('/knowledge-sources/ks_old').reply(200, reply(true));
+
+      const report = await client.knowledgeSources.syncDirectory(dir, { agentConfigurationId: 'agent_123' });
+
+      expect(report.created.map((entry) => entry.id)).toEqual(['ks_returns', 'ks_shipping']);
+      expect(report.deleted).toEqual([{ path: 'old.md', chunk: 0, name: 'old.md', id: 'ks_old' }]);
+      expect(report.skipped).toEqual([{ path: 'draft.md', reason: 'Shorter than 1000 characters' }]);
+      expect(report.instructionUpdated).toBe(true);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should only upload chunks whose content changed', async () => {
+      mockAgent(
+        [
+          source({ id: 'ks_returns', name: 'returns.md', metadata: await syncMetadata('returns.md', policy) }),
+          source({ id: 'ks_shipping', name: 'shipping.md', metadata: await syncMetadata('shipping.md', policy) }),
+        ],
+        ['ks_returns', 'ks_shipping']
+      );
+      nock(BASE_URL)
+        .patch('/knowledge-sources', (body) => body.id === 'ks_shipping' && body.content.startsWith('# Shipping'))
+        .reply(200, reply(source({ id: 'ks_shipping', name: 'shipping.md' })));
+
+      const report = await client.knowledgeSources.syncDirectory(dir, { agentConfigurationId: 'agent_123' });
+
+      expect(report.unchanged.map((entry) => entry.id)).toEqual(['ks_returns']);
+      expect(report.updated.map((entry) => entry.id)).toEqual(['ks_shipping']);
+      expect(report.created).toEqual([]);
+      expect(report.instructionUpdated).toBe(false);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should report changes without making them on a dry run', async () => {
+      mockAgent([source({ id: 'ks_old', name: 'old.md', metadata: await syncMetadata('old.md', policy) })], ['ks_old']);
+
+      const report = await client.knowledgeSources.syncDirectory(dir, { agentConfigurationId: 'agent_123', dryRun: true });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.created).toEqual([
+        { path: 'returns.md', chunk: 0, name: 'returns.md', id: undefined },
+        { path: 'shipping.md', chunk: 0, name: 'shipping.md', id: undefined },
+      ]);
+      expect(report.deleted.map((entry) => entry.id)).toEqual(['ks_old']);
+      expect(report.instructionUpdated).toBe(true);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should throw WiilConfigurationError when the agent has no instruction', async () => {
+      nock(BASE_URL)
+        .get('/agent-configurations/agent_123')
+        .reply(200, reply({ id: 'agent_123', name: 'Support Agent', modelId: 'model_123', ...timestamps }));
+
+      await expect(
+        client.knowledgeSources.syncDirectory(dir, { agentConfigurationId: 'agent_123' })
+      ).rejects.toThrow(WiilConfigurationError);
+    });
+
+    it('should reject a maximum chunk size below twice the API minimum', async () => {
+      await expect(
+        client.knowledgeSources.syncDirectory(dir, { agentConfigurationId: 'agent_123', maxChunkSize: 1500 })
+      ).rejects.toThrow(WiilValidationError);
+    });
+  });
 });
@@ -7,19 +7,232 @@ import {
   KnowledgeSource,
   CreateTextKnowledgeSource,
   CreateTextKnowledgeSourceSchema,
+  KnowledgeBaseProcessingStatus,
   PaginatedResultType,
-  PaginationRequest,
+  KnowledgeSourceSchema,
 } from 'wiil-core-js';
+import { z } from 'zod';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
+import { sleep } from '../../client/abort';
+import { WiilConfigurationError, WiilValidationError } from '../../errors/WiilError';
+import { AgentConfigurationsResource } from './agent-configs';
+import { PollOptions, PollTimeoutError } from './dynamic-agent-status';
+import { InstructionConfigurationsResource } from './instruction-configs';
+import {
+  DEFAULT_MAX_CHUNK_SIZE,
+  MIN_KNOWLEDGE_CONTENT_LENGTH,
+  chunkDocument,
+  hashContent,
+  listDocuments,
+} from './knowledge-sync';
+
+/**
+ * Content types of the documents accepted by {@link KnowledgeSourcesResource.createFromFile},
+ * by file extension.
+ */
+export const KNOWLEDGE_FILE_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  csv: 'text/csv',
+};
+
+/**
+ * Schema for creating a knowledge source from a web page.
+ */
+export const CreateUrlKnowledgeSourceSchema = z.object({
+  name: z.string().min(1).describe('Knowledge source name.'),
+  url: z.url({ protocol: /^https?$/ }).describe('Page to ingest.'),
+  metadata: z.record(z.string(), z.unknown()).optional().describe('Custom metadata.'),
+});
+
+/**
+ * Schema for updating a knowledge source.
+ */
+export const UpdateKnowledgeSourceSchema = z.object({
+  id: z.string().min(1).describe('Knowledge source ID.'),
+  name: z.string().min(1).optional().describe('Knowledge source name.'),
+  metadata: z.record(z.string(), z.unknown()).optional().describe('Custom metadata.'),
+  content: z
+    .string()
+    .min(MIN_KNOWLEDGE_CONTENT_LENGTH)
+    .optional()
+    .describe(
+      `Replacement content for text sources; triggers re-ingestion. At least ${MIN_KNOWLEDGE_CONTENT_LENGTH} characters, the same minimum the API applies when text sources are created.`
+    ),
+  url: z.url({ protocol: /^https?$/ }).optional().describe('Replacement page for URL sources; triggers re-ingestion.'),
+});
+
+export type CreateUrlKnowledgeSource = z.infer<typeof CreateUrlKnowledgeSourceSchema>;
+export type UpdateKnowledgeSource = z.infer<typeof UpdateKnowledgeSourceSchema>;
+
+/**
+ * Document to ingest as a knowledge source.
+ */
+export interface CreateFileKnowledgeSource {
+  /**
+   * Knowledge source name. Defaults to the file name.
+   */
+  name?: string;
+
+  /**
+   * Path of the file to upload, or its contents as a Buffer, Blob, or stream.
+   */
+  file: string | Uint8Array | Blob | AsyncIterable<Uint8Array | string>;
+
+  /**
+   * File name sent with the upload. Required unless `file` is a path.
+   */
+  fileName?: string;
+
+  /**
+   * Content type of the file. Defaults to the type for the file extension.
+   */
+  contentType?: string;
+
+  /**
+   * Custom metadata.
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Options for {@link KnowledgeSourcesResource.poll}.
+ */
+export interface KnowledgeSourcePollOptions extends Omit<PollOptions, 'onProgress'> {
+  /**
+   * Callback invoked on each poll with the current knowledge source.
+   */
+  onProgress?: (source: KnowledgeSource) => void;
+}
+
+/**
+ * Filters for listing knowledge sources.
+ */
+export interface KnowledgeSourceFilters {
+  /** Filter by source type */
+  sourceType?: KnowledgeSource['sourceType'];
+  /** Filter by processing status */
+  processingStatus?: KnowledgeSource['processingStatus'];
+}
+
+/**
+ * Options for {@link KnowledgeSourcesResource.syncDirectory}.
+ */
+export interface SyncDirectoryOptions extends Pick<RequestOptions, 'signal'> {
+  /**
+   * Agent whose instruction the synced knowledge sources are linked to.
+   */
+  agentConfigurationId: string;
+
+  /**
+   * Identifies the knowledge sources owned by this sync. Sources created by a
+   * sync with a different ID are never changed.
+   * @default agentConfigurationId
+   */
+  syncId?: string;
+
+  /**
+   * File extensions to sync.
+   * @default ['.md', '.markdown']
+   */
+  extensions?: string[];
+
+  /**
+   * Maximum chunk length in characters, at least 2000 (twice the API minimum).
+   * @default 16000
+   */
+  maxChunkSize?: number;
+
+  /**
+   * Report the changes without making them.
+   * @default false
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * Document chunk handled by a directory sync.
+ */
+export interface KnowledgeSyncEntry {
+  /**
+   * File path relative to the synced directory.
+   */
+  path: string;
+
+  /**
+   * Position of the chunk in the file, starting at 0.
+   */
+  chunk: number;
+
+  /**
+   * Knowledge source name.
+   */
+  name: string;
+
+  /**
+   * Knowledge source ID. Not set for sources a dry run would create.
+   */
+  id?: string;
+}
+
+/**
+ * Outcome of {@link KnowledgeSourcesResource.syncDirectory}.
+ */
+export interface KnowledgeSyncReport {
+  /**
+   * Whether the sync was a dry run.
+   */
+  dryRun: boolean;
+
+  /**
+   * Chunks uploaded as new knowledge sources.
+   */
+  created: KnowledgeSyncEntry[];
+
+  /**
+   * Chunks whose content or name changed.
+   */
+  updated: KnowledgeSyncEntry[];
+
+  /**
+   * Knowledge sources whose file or chunk no longer exists.
+   */
+  deleted: KnowledgeSyncEntry[];
+
+  /**
+   * Chunks that match their knowledge source.
+   */
+  unchanged: KnowledgeSyncEntry[];
+
+  /**
+   * Files that were not synced, with the reason.
+   */
+  skipped: { path: string; reason: string }[];
+
+  /**
+   * Whether the instruction's knowledge source links changed.
+   */
+  instructionUpdated: boolean;
+}
 
 /**
  * Resource class for managing knowledge sources in the WIIL Platform.
  *
  * @remarks
- * Provides methods for retrieving and listing knowledge sources.
- * Knowledge sources represent repositories of information that AI agents
- * can access for context and factual grounding. This is a read-only resource.
- * All methods require proper authentication via API key.
+ * Provides methods for creating, retrieving, updating, deleting, and listing
+ * knowledge sources. Knowledge sources represent repositories of information
+ * that AI agents can access for context and factual grounding. They are
+ * ingested asynchronously; use {@link KnowledgeSourcesResource.poll} to wait
+ * until a source is ready. All methods require proper authentication via API key.
  *
  * @example
  * ```typescript
@@ -50,10 +263,21 @@ export class KnowledgeSourcesResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<KnowledgeSourcesResource> {
+    return withResponse(this.http, (http) => new KnowledgeSourcesResource(http));
+  }
+
   /**
    * Retrieves a knowledge source by ID.
    *
    * @param id - Knowledge source ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the knowledge source
    *
    * @throws {@link WiilAPIError} - When the knowledge source is not found or API returns an error
@@ -67,14 +291,19 @@ export class KnowledgeSourcesResource {
    * console.log('Type:', source.type);
    * ```
    */
-  public async get(id: string): Promise<KnowledgeSource> {
-    return this.http.get<KnowledgeSource>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<KnowledgeSource> {
+    return this.http.get<KnowledgeSource>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: KnowledgeSourceSchema }
+    );
   }
 
   /**
    * Lists knowledge sources with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of knowledge sources
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -99,16 +328,69 @@ export class KnowledgeSourcesResource {
    * ```
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<KnowledgeSource>,
+    filters?: KnowledgeSourceFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<KnowledgeSource>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<KnowledgeSource>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(KnowledgeSourceSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link KnowledgeSourcesResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.knowledgeSources.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<KnowledgeSource>,
+    filters?: KnowledgeSourceFilters,
+    options?: PaginateOptions
+  ): PageIterator<KnowledgeSource> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<KnowledgeSource>>(path);
+  /**
+   * Retrieves every item of {@link KnowledgeSourcesResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link KnowledgeSourcesResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.knowledgeSources.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<KnowledgeSource>,
+    filters?: KnowledgeSourceFilters,
+    options?: PaginateOptions
+  ): Promise<KnowledgeSource[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 
   /**
@@ -118,6 +400,7 @@ export class KnowledgeSourcesResource {
    * The content must be at least 1000 characters.
    *
    * @param data - Text knowledge source creation data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created knowledge source
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -135,11 +418,371 @@ export class KnowledgeSourcesResource {
    * console.log('Processing status:', source.processingStatus);
    * ```
    */
-  public async createText(data: CreateTextKnowledgeSource): Promise<KnowledgeSource> {
+  public async createText(data: CreateTextKnowledgeSource, options?: RequestOptions): Promise<KnowledgeSource> {
     return this.http.post<CreateTextKnowledgeSource, KnowledgeSource>(
       `${this.resource_path}/text`,
       data,
-      CreateTextKnowledgeSourceSchema
+      CreateTextKnowledgeSourceSchema,
+      { ...options, responseSchema: KnowledgeSourceSchema }
+    );
+  }
+
+  /**
+   * Creates a knowledge source from a PDF, DOCX, Markdown, HTML, or CSV document.
+   *
+   * @param data - File and knowledge source details
+   * @param options - Optional request options such as an idempotency key
+   * @returns Promise resolving to the created knowledge source, usually still processing
+   *
+   * @throws {@link WiilValidationError} - When the file type is not supported or no file name is given
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * The file is uploaded as `multipart/form-data`. Streams are read into
+   * memory first so the upload can be retried. Reading from a path requires
+   * Node.js.
+   *
+   * @example
+   * ```typescript
+   * const source = await client.knowledgeSources.createFromFile({
+   *   file: './docs/returns-policy.pdf',
+   *   metadata: { category: 'policies' }
+   * });
+   * const ready = await client.knowledgeSources.poll(source.id);
+   * ```
+   */
+  public async createFromFile(data: CreateFileKnowledgeSource, options?: RequestOptions): Promise<KnowledgeSource> {
+    const fileName = data.fileName ?? (typeof data.file === 'string' ? data.file.split(/[\\/]/).pop() : undefined);
+    if (!fileName) {
+      throw new WiilValidationError('fileName is required when file is not a path');
+    }
+
+    const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+    const contentType = data.contentType ?? KNOWLEDGE_FILE_TYPES[extension];
+    if (!contentType) {
+      throw new WiilValidationError(
+        `Unsupported knowledge file type "${fileName}". Supported extensions: ${Object.keys(KNOWLEDGE_FILE_TYPES).join(', ')}`
+      );
+    }
+
+    const form = new FormData();
+    form.append('name', data.name ?? fileName);
+    form.append('file', await readFileInput(data.file, contentType), fileName);
+    if (data.metadata) {
+      form.append('metadata', JSON.stringify(data.metadata));
+    }
+
+    return this.http.postForm<KnowledgeSource>(
+      `${this.resource_path}/file`,
+      form,
+      { ...options, responseSchema: KnowledgeSourceSchema }
+    );
+  }
+
+  /**
+   * Creates a knowledge source from a web page.
+   *
+   * @param data - Page URL and knowledge source details
+   * @param options - Optional request options such as an idempotency key
+   * @returns Promise resolving to the created knowledge source, usually still processing
+   *
+   * @throws {@link WiilValidationError} - When the URL is not an http or https URL
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * const source = await client.knowledgeSources.createFromUrl({
+   *   name: 'Help Center',
+   *   url: 'https://help.example.com/faq'
+   * });
+   * ```
+   */
+  public async createFromUrl(data: CreateUrlKnowledgeSource, options?: RequestOptions): Promise<KnowledgeSource> {
+    return this.http.post<CreateUrlKnowledgeSource, KnowledgeSource>(
+      `${this.resource_path}/url`,
+      data,
+      CreateUrlKnowledgeSourceSchema,
+      { ...options, responseSchema: KnowledgeSourceSchema }
+    );
+  }
+
+  /**
+   * Updates a knowledge source.
+   *
+   * @param data - Knowledge source update data (must include id)
+   * @param options - Optional request options such as an abort signal
+   * @returns Promise resolving to the updated knowledge source
+   *
+   * @throws {@link WiilValidationError} - When input validation fails
+   * @throws {@link WiilAPIError} - When the knowledge source is not found or API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Passing `content` (text sources) or `url` (URL sources) re-ingests the
+   * source; poll it until processing completes.
+   *
+   * @example
+   * ```typescript
+   * await client.knowledgeSources.update({ id: 'ks_123', url: 'https://help.example.com/faq' });
+   * await client.knowledgeSources.poll('ks_123');
+   * ```
+   */
+  public async update(data: UpdateKnowledgeSource, options?: RequestOptions): Promise<KnowledgeSource> {
+    return this.http.patch<UpdateKnowledgeSource, KnowledgeSource>(
+      this.resource_path,
+      data,
+      UpdateKnowledgeSourceSchema,
+      { ...options, responseSchema: KnowledgeSourceSchema }
     );
   }
+
+  /**
+   * Deletes a knowledge source.
+   *
+   * @param id - Knowledge source ID
+   * @param options - Optional request options such as an abort signal
+   * @returns Promise resolving to boolean indicating deletion success
+   *
+   * @throws {@link WiilAPIError} - When the knowledge source is not found or API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   */
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
+  }
+
+  /**
+   * Polls a knowledge source until ingestion completes or fails.
+   *
+   * @param id - Knowledge source ID
+   * @param options - Polling configuration options
+   * @returns Promise resolving to the knowledge source in its final state
+   *
+   * @throws {@link PollTimeoutError} - When polling times out before ingestion finishes
+   * @throws {@link WiilAbortError} - When the signal is aborted
+   * @throws {@link WiilAPIError} - When the knowledge source is not found or API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Polls until `processingStatus` is `completed` or `failed`; check the
+   * status of the returned source. On timeout, the error's `lastState` holds
+   * the last polled knowledge source.
+   *
+   * @example
+   * ```typescript
+   * const source = await client.knowledgeSources.poll('ks_123', {
+   *   onProgress: (source) => console.log('Status:', source.processingStatus)
+   * });
+   * ```
+   */
+  public async poll(id: string, options?: KnowledgeSourcePollOptions): Promise<KnowledgeSource> {
+    const interval = options?.interval ?? 5000;
+    const timeout = options?.timeout ?? 120000;
+    const requestOptions: RequestOptions = { signal: options?.signal, headers: options?.headers };
+
+    const startTime = Date.now();
+
+    while (true) {
+      const source = await this.get(id, requestOptions);
+      options?.onProgress?.(source);
+
+      const status = source.processingStatus;
+      if (status === KnowledgeBaseProcessingStatus.COMPLETED || status === KnowledgeBaseProcessingStatus.FAILED) {
+        return source;
+      }
+
+      if (Date.now() - startTime >= timeout) {
+        throw new PollTimeoutError(
+          `Polling timed out after ${timeout}ms. Last status: ${status}`,
+          source
+        );
+      }
+
+      await sleep(interval, options?.signal);
+    }
+  }
+
+  /**
+   * Syncs a directory of documents to knowledge sources linked to an agent,
+   * uploading only what changed.
+   *
+   * @param path - Directory to sync
+   * @param options - Agent to link to, file selection, and dry-run mode
+   * @returns Report of the created, updated, deleted, unchanged, and skipped documents
+   *
+   * @throws {@link WiilValidationError} - When `maxChunkSize` is less than twice the API minimum
+   * @throws {@link WiilConfigurationError} - When the agent has no instruction configuration
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Files are split into chunks locally (Markdown is split at headings), and
+   * each chunk becomes a text knowledge source. The chunk's path, position and
+   * SHA-256 hash are stored in the source's metadata, so later syncs update
+   * only chunks whose content changed, re-upload chunks whose processing
+   * failed, and delete sources whose file or chunk was removed. New sources
+   * are linked to the agent's instruction before removed ones are deleted.
+   * Files shorter than the 1000-character API minimum are skipped.
+   *
+   * Running the sync again after a failure picks up where it stopped, so it
+   * is safe to run on every commit in CI. Requires Node.js.
+   *
+   * @example
+   * ```typescript
+   * const report = await client.knowledgeSources.syncDirectory('./docs', {
+   *   agentConfigurationId: 'agent_123'
+   * });
+   * console.log(`${report.created.length} created, ${report.updated.length} updated, ${report.deleted.length} deleted`);
+   * ```
+   */
+  public async syncDirectory(path: string, options: SyncDirectoryOptions): Promise<KnowledgeSyncReport> {
+    const requestOptions: RequestOptions = { signal: options.signal };
+    const syncId = options.syncId ?? options.agentConfigurationId;
+    const dryRun = options.dryRun ?? false;
+    const maxChunkSize = options.maxChunkSize ?? DEFAULT_MAX_CHUNK_SIZE;
+    if (maxChunkSize < 2 * MIN_KNOWLEDGE_CONTENT_LENGTH) {
+      throw new WiilValidationError(
+        `maxChunkSize must be at least ${2 * MIN_KNOWLEDGE_CONTENT_LENGTH} characters, twice the API minimum`
+      );
+    }
+    const report: KnowledgeSyncReport = {
+      dryRun,
+      created: [],
+      updated: [],
+      deleted: [],
+      unchanged: [],
+      skipped: [],
+      instructionUpdated: false,
+    };
+
+    const agent = await new AgentConfigurationsResource(this.http).get(options.agentConfigurationId, requestOptions);
+    if (!agent.instructionConfigurationId) {
+      throw new WiilConfigurationError(
+        `Agent ${options.agentConfigurationId} has no instruction configuration to link knowledge sources to`
+      );
+    }
+    const instructions = new InstructionConfigurationsResource(this.http);
+    const instruction = await instructions.get(agent.instructionConfigurationId, requestOptions);
+
+    const existing = new Map<string, KnowledgeSource>();
+    for (const source of await this.listAll(undefined, undefined, requestOptions)) {
+      const metadata = (source.metadata ?? {}) as Record<string, unknown>;
+      if (metadata[SYNC_METADATA.id] === syncId) {
+        existing.set(`${metadata[SYNC_METADATA.path]}#${metadata[SYNC_METADATA.chunk]}`, source);
+      }
+    }
+
+    const documents = await listDocuments(path, options.extensions ?? ['.md', '.markdown']);
+    for (const document of documents) {
+      const chunks = chunkDocument(document.content, maxChunkSize);
+      if (chunks.length === 0) {
+        report.skipped.push({ path: document.path, reason: 'Shorter than 1000 characters' });
+        continue;
+      }
+
+      for (const [chunk, content] of chunks.entries()) {
+        const key = `${document.path}#${chunk}`;
+        const name = chunks.length === 1 ? document.path : `${document.path} [${chunk + 1}/${chunks.length}]`;
+        const metadata = {
+          [SYNC_METADATA.id]: syncId,
+          [SYNC_METADATA.path]: document.path,
+          [SYNC_METADATA.chunk]: chunk,
+          [SYNC_METADATA.hash]: await hashContent(content),
+        };
+        const source = existing.get(key);
+        existing.delete(key);
+
+        if (!source) {
+          const created = dryRun ? undefined : await this.createText({ name, content, metadata }, requestOptions);
+          report.created.push({ path: document.path, chunk, name, id: created?.id });
+        } else if (
+          (source.metadata as Record<string, unknown>)[SYNC_METADATA.hash] === metadata[SYNC_METADATA.hash] &&
+          source.name === name &&
+          source.processingStatus !== KnowledgeBaseProcessingStatus.FAILED
+        ) {
+          report.unchanged.push({ path: document.path, chunk, name, id: source.id });
+        } else {
+          if (!dryRun) {
+            await this.update({ id: source.id, name, content, metadata }, requestOptions);
+          }
+          report.updated.push({ path: document.path, chunk, name, id: source.id });
+        }
+      }
+    }
+
+    for (const source of existing.values()) {
+      const metadata = source.metadata as Record<string, unknown>;
+      report.deleted.push({
+        path: String(metadata[SYNC_METADATA.path]),
+        chunk: Number(metadata[SYNC_METADATA.chunk]),
+        name: source.name,
+        id: source.id,
+      });
+    }
+
+    const deletedIds = new Set(report.deleted.map((entry) => entry.id));
+    const linked: string[] = instruction.knowledgeSourceIds ?? [];
+    const knowledgeSourceIds = [
+      ...linked.filter((id) => !deletedIds.has(id)),
+      ...[...report.created, ...report.updated, ...report.unchanged]
+        .map((entry) => entry.id)
+        .filter((id): id is string => id !== undefined && !linked.includes(id)),
+    ];
+    report.instructionUpdated =
+      knowledgeSourceIds.length !== linked.length ||
+      knowledgeSourceIds.some((id) => !linked.includes(id)) ||
+      (dryRun && report.created.length > 0);
+
+    if (!dryRun) {
+      if (report.instructionUpdated) {
+        await instructions.update({ id: instruction.id, knowledgeSourceIds }, requestOptions);
+      }
+      for (const entry of report.deleted) {
+        await this.delete(entry.id!, requestOptions);
+      }
+    }
+
+    return report;
+  }
+}
+
+/**
+ * Metadata fields that record which sync chunk a knowledge source holds.
+ *
+ * @internal
+ */
+const SYNC_METADATA = {
+  id: 'syncId',
+  path: 'syncPath',
+  chunk: 'syncChunk',
+  hash: 'syncHash',
+} as const;
+
+/**
+ * Loads a file input into a Blob for upload.
+ *
+ * @param file - Path, bytes, Blob, or stream
+ * @param contentType - Content type of the file
+ * @returns File contents
+ */
+async function readFileInput(file: CreateFileKnowledgeSource['file'], contentType: string): Promise<Blob> {
+  if (file instanceof Blob) {
+    return file.type ? file : new Blob([file], { type: contentType });
+  }
+  if (typeof file === 'string') {
+    const { readFile } = await import('node:fs/promises');
+    return new Blob([new Uint8Array(await readFile(file))], { type: contentType });
+  }
+  // Blob parts must be backed by an ArrayBuffer, so views that may share a
+  // SharedArrayBuffer are copied.
+  if (file instanceof Uint8Array) {
+    return new Blob([new Uint8Array(file)], { type: contentType });
+  }
+
+  const chunks: BlobPart[] = [];
+  for await (const chunk of file) {
+    chunks.push(typeof chunk === 'string' ? chunk : new Uint8Array(chunk));
+  }
+  return new Blob(chunks, { type: contentType });
 }
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Tests for knowledge source sync helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { chunkDocument, hashContent, listDocuments } from './knowledge-sync';
+
+const paragraph = (label: string, length: number) => `${label} ${'x'.repeat(length - label.length - 1)}`;
+
+describe('knowledge sync helpers', () => {
+  describe('chunkDocument', () => {
+    it('should return nothing for documents under the API minimum', () => {
+      expect(chunkDocument('# Short\n\nToo short to upload.')).toEqual([]);
+    });
+
+    it('should keep a document that fits in one chunk whole', () => {
+      const text = `# Returns\n\n${paragraph('Returns', 1200)}\n`;
+
+      expect(chunkDocument(text)).toEqual([text.trim()]);
+    });
+
+    it('should pack Markdown sections into chunks at headings', () => {
+      const sections = ['A', 'B', 'C'].map((label) => `## ${label}\n\n${paragraph(label, 1500)}`);
+
+      const chunks = chunkDocument(sections.join('\n\n'), 3500);
+
+      expect(chunks).toEqual([`${sections[0]}\n\n${sections[1]}`, sections[2]]);
+    });
+
+    it('should not split at headings inside code fences', () => {
+      const fenced = `# Setup\n\n\`\`\`bash\n# install\nnpm install\n\`\`\`\n\n${paragraph('Setup', 1200)}`;
+      const next = `# Usage\n\n${paragraph('Usage', 1200)}`;
+
+      const chunks = chunkDocument(`${fenced}\n\n${next}`, 1500);
+
+      expect(chunks).toEqual([fenced, next]);
+    });
+
+    it('should split long sections at paragraphs and merge a short tail', () => {
+      const long = ['# Guide', paragraph('one', 1800), paragraph('two', 1800), paragraph('three', 300)].join('\n\n');
+
+      const chunks = chunkDocument(long, 2000);
+
+      expect(chunks).toHaveLength(3);
+      expect(chunks[0].startsWith('# Guide')).toBe(true);
+      expect(chunks[2].endsWith(paragraph('three', 300))).toBe(true);
+      expect(chunks.join('').replace(/\n/g, '')).toBe(long.replace(/\n/g, ''));
+      expect(chunks.every((chunk) => chunk.length >= 1000 && chunk.length <= 2000)).toBe(true);
+    });
+
+    it('should keep a short section followed by a maximum-size section within the limit', () => {
+      const short = `# Intro\n\n${paragraph('Intro', 500)}`;
+      const full = paragraph('Full', 2000);
+
+      const text = `${short}\n\n${full}`;
+
+      const chunks = chunkDocument(text, 2000);
+
+      expect(chunks.join('').replace(/\n/g, '')).toBe(text.replace(/\n/g, ''));
+      expect(chunks.every((chunk) => chunk.length >= 1000 && chunk.length <= 2000)).toBe(true);
+    });
+
+    it('should produce the same chunks for Windows line endings', () => {
+      const text = `# Returns\n\n${paragraph('Returns', 1200)}`;
+
+      expect(chunkDocument(text.replace(/\n/g, '\r\n'))).toEqual(chunkDocument(text));
+    });
+  });
+
+  describe('hashContent', () => {
+    it('should return a stable SHA-256 hex digest', async () => {
+      expect(await hashContent('hello')).toBe('2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824');
+    });
+  });
+
+  describe('listDocuments', () => {
+    it('should list matching files recursively in path order, skipping hidden entries', async () => {
+      const root = await mkdtemp(join(tmpdir(), 'wiil-sync-'));
+      try {
+        await mkdir(join(root, 'guides'));
+        await mkdir(join(root, '.git'));
+        await writeFile(join(root, 'README.md'), 'readme');
+        await writeFile(join(root, 'guides', 'returns.markdown'), 'returns');
+        await writeFile(join(root, 'guides', 'image.png'), 'png');
+        await writeFile(join(root, '.git', 'HEAD.md'), 'hidden');
+
+        const documents = await listDocuments(root, ['.md', '.markdown']);
+
+        expect(documents).toEqual([
+          { path: 'README.md', content: 'readme' },
+          { path: 'guides/returns.markdown', content: 'returns' },
+        ]);
+      } finally {
+        await rm(root, { recursive: true, force: true });
+      }
+    });
+  });
+});
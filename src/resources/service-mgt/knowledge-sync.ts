@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Local document discovery, chunking, and hashing for knowledge source sync.
+ * @module resources/service-mgt/knowledge-sync
+ */
+
+/**
+ * Minimum length of a text knowledge source accepted by the API.
+ *
+ * @internal
+ */
+export const MIN_KNOWLEDGE_CONTENT_LENGTH = 1000;
+
+/**
+ * Default maximum chunk length in characters.
+ *
+ * @internal
+ */
+export const DEFAULT_MAX_CHUNK_SIZE = 16000;
+
+/**
+ * Document found in a synced directory.
+ *
+ * @internal
+ */
+export interface LocalDocument {
+  /**
+   * Path relative to the synced directory, with `/` separators.
+   */
+  path: string;
+
+  /**
+   * File contents.
+   */
+  content: string;
+}
+
+/**
+ * Reads the documents under a directory, in a stable order.
+ *
+ * @param root - Directory to read
+ * @param extensions - File extensions to include, such as `.md`
+ * @returns Documents sorted by path
+ *
+ * @remarks
+ * Hidden files and directories (names starting with `.`) and `node_modules`
+ * are skipped. Requires Node.js.
+ *
+ * @internal
+ */
+export async function listDocuments(root: string, extensions: string[]): Promise<LocalDocument[]> {
+  const { readdir, readFile } = await import('node:fs/promises');
+  const { join } = await import('node:path');
+  const wanted = extensions.map((extension) => extension.toLowerCase());
+  const documents: LocalDocument[] = [];
+
+  const walk = async (relative: string): Promise<void> => {
+    const entries = await readdir(join(root, relative), { withFileTypes: true });
+    for (const entry of entries) {
+      if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+        continue;
+      }
+      const path = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await walk(path);
+      } else if (entry.isFile() && wanted.some((extension) => entry.name.toLowerCase().endsWith(extension))) {
+        documents.push({ path, content: await readFile(join(root, path), 'utf8') });
+      }
+    }
+  };
+
+  await walk('');
+  return documents.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+/**
+ * Splits a document into chunks of `maxChunkSize` characters or fewer.
+ *
+ * @param content - Document text
+ * @param maxChunkSize - Maximum chunk length, at least twice the API minimum
+ * @returns Chunks in document order; empty when the document is shorter than the API minimum
+ *
+ * @remarks
+ * Markdown sections (split at headings outside code fences) are packed into
+ * chunks whole where possible. Longer sections are split at blank lines, then
+ * at the size limit. A chunk shorter than the API minimum is merged with the
+ * next piece, or filled up to the minimum from its start when the whole piece
+ * does not fit. A short final chunk is merged with the one before it, and the
+ * two are split again at the size limit when needed.
+ *
+ * @internal
+ */
+export function chunkDocument(content: string, maxChunkSize: number = DEFAULT_MAX_CHUNK_SIZE): string[] {
+  const text = content.replace(/\r\n?/g, '\n').trim();
+  if (text.length < MIN_KNOWLEDGE_CONTENT_LENGTH) {
+    return [];
+  }
+
+  const pieces = splitSections(text).flatMap((section) => splitToSize(section, maxChunkSize));
+  const chunks: string[] = [];
+  let current = '';
+  for (let piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChunkSize) {
+      if (current.length < MIN_KNOWLEDGE_CONTENT_LENGTH) {
+        const needed = Math.max(MIN_KNOWLEDGE_CONTENT_LENGTH - current.length - 2, 1);
+        current = `${current}\n\n${piece.slice(0, needed)}`;
+        piece = piece.slice(needed);
+      }
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  if (chunks.length > 1 && chunks[chunks.length - 1].length < MIN_KNOWLEDGE_CONTENT_LENGTH) {
+    const last = chunks.pop()!;
+    const merged = `${chunks.pop()!}\n\n${last}`;
+    if (merged.length <= maxChunkSize) {
+      chunks.push(merged);
+    } else {
+      const split = Math.min(maxChunkSize, merged.length - MIN_KNOWLEDGE_CONTENT_LENGTH);
+      chunks.push(merged.slice(0, split), merged.slice(split));
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Returns the SHA-256 hash of a chunk.
+ *
+ * @param content - Chunk text
+ * @returns Hex-encoded hash
+ *
+ * @remarks
+ * Uses the Web Crypto API when it is available, and Node's `crypto` module otherwise.
+ *
+ * @internal
+ */
+export async function hashContent(content: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle) {
+    const digest = new Uint8Array(await subtle.digest('SHA-256', new TextEncoder().encode(content)));
+    return Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  const { createHash } = await import('node:crypto');
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Splits Markdown at headings that are not inside code fences.
+ *
+ * @param text - Markdown text
+ * @returns Sections, each starting with its heading
+ */
+function splitSections(text: string): string[] {
+  const sections: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  for (const line of text.split('\n')) {
+    if (/^(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    if (!inFence && /^#{1,6}\s/.test(line) && lines.some((existing) => existing.trim())) {
+      sections.push(lines.join('\n').trim());
+      lines = [];
+    }
+    lines.push(line);
+  }
+  sections.push(lines.join('\n').trim());
+
+  return sections.filter((section) => section.length > 0);
+}
+
+/**
+ * Splits text longer than the limit at blank lines, then at the limit.
+ *
+ * @param text - Text to split
+ * @param maxChunkSize - Maximum piece length
+ * @returns Pieces of at most `maxChunkSize` characters
+ */
+function splitToSize(text: string, maxChunkSize: number): string[] {
+  if (text.length <= maxChunkSize) {
+    return [text];
+  }
+
+  const pieces: string[] = [];
+  for (const paragraph of text.split(/\n{2,}/)) {
+    for (let start = 0; start < paragraph.length; start += maxChunkSize) {
+      pieces.push(paragraph.slice(start, start + maxChunkSize));
+    }
+  }
+  return pieces;
+}
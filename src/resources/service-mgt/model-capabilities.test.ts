@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Tests for the model capability matrix.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WiilSupportModel, LLMType, SupportedProprietor } from 'wiil-core-js';
+import { ModelCapabilityMatrix } from './model-capabilities';
+
+const english = { languageId: 'en-us', name: 'English (United States)', code: 'en-US', isDefault: true, isExperimental: false };
+const spanish = { languageId: 'es-es', name: 'Spanish (Spain)', code: 'es-ES', isDefault: false, isExperimental: false };
+
+const nova: WiilSupportModel = {
+  modelId: 'model_stt',
+  name: 'Deepgram Nova 2',
+  provider_model_id: 'nova-2',
+  proprietor: SupportedProprietor.DEEPGRAM,
+  description: 'Speech-to-text',
+  type: LLMType.STT,
+  discontinued: false,
+  supportedVoices: null,
+  supportLanguages: [english, spanish],
+};
+
+const eleven: WiilSupportModel = {
+  modelId: 'model_tts',
+  name: 'ElevenLabs Turbo',
+  provider_model_id: 'eleven_turbo_v2',
+  proprietor: SupportedProprietor.ELEVENLABS,
+  description: 'Text-to-speech',
+  type: LLMType.TTS,
+  discontinued: false,
+  supportedVoices: [
+    { voiceId: 'adam', name: 'Adam', description: 'Male voice', gender: 'male' as const, language: 'en-US', isDefault: true },
+    { voiceId: 'lucia', name: 'Lucia', description: 'Female voice', gender: 'female' as const, language: 'es-ES', isDefault: false },
+  ],
+  supportLanguages: [english, spanish],
+};
+
+const legacy: WiilSupportModel = {
+  modelId: 'model_legacy',
+  name: 'Legacy GPT',
+  provider_model_id: 'gpt-3.5-turbo',
+  proprietor: SupportedProprietor.OPENAI,
+  description: 'Discontinued model',
+  type: LLMType.MULTI_MODE,
+  discontinued: true,
+  supportedVoices: null,
+  supportLanguages: [english],
+};
+
+const translator: WiilSupportModel = { ...nova, modelId: 'model_translate', name: 'Translator', provider_model_id: 'nova-translate' };
+
+const matrix = new ModelCapabilityMatrix([nova, eleven, legacy], { stt: nova, translationSTT: translator, tts: null });
+
+describe('ModelCapabilityMatrix', () => {
+  describe('lookups', () => {
+    it('should index active models by type, proprietor, and language', () => {
+      expect(matrix.byType(LLMType.TTS)).toEqual([eleven]);
+      expect(matrix.byType(LLMType.MULTI_MODE)).toEqual([]);
+      expect(matrix.byType('translation')).toEqual([translator]);
+      expect(matrix.byProprietor(SupportedProprietor.DEEPGRAM)).toEqual([nova, translator]);
+      expect(matrix.byLanguage('ES-es').map((model) => model.modelId)).toEqual(['model_stt', 'model_tts', 'model_translate']);
+    });
+
+    it('should find models, defaults, and voices', () => {
+      expect(matrix.find(SupportedProprietor.ELEVENLABS, 'eleven_turbo_v2')).toBe(eleven);
+      expect(matrix.get('model_legacy')).toBe(legacy);
+      expect(matrix.getDefault('stt')).toBe(nova);
+      expect(matrix.getDefault('tts')).toBeUndefined();
+      expect(matrix.voices('model_tts', 'es-ES').map((voice) => voice.voiceId)).toEqual(['lucia']);
+      expect(matrix.voices('model_unknown')).toEqual([]);
+    });
+  });
+
+  describe('check', () => {
+    it('should accept a compatible configuration', () => {
+      const report = matrix.check({
+        language: 'es-ES',
+        sttConfiguration: { providerType: SupportedProprietor.DEEPGRAM, providerModelId: 'nova-2', languageId: 'es-ES' },
+        ttsConfiguration: { providerType: SupportedProprietor.ELEVENLABS, providerModelId: 'eleven_turbo_v2', languageId: 'es-ES', voiceId: 'lucia' },
+      });
+
+      expect(report).toEqual({ valid: true, issues: [] });
+    });
+
+    it('should explain a voice that does not speak the chosen language', () => {
+      const report = matrix.check({
+        language: 'es-ES',
+        ttsConfiguration: { providerType: SupportedProprietor.ELEVENLABS, providerModelId: 'eleven_turbo_v2', voiceId: 'adam' },
+      });
+
+      expect(report.valid).toBe(false);
+      expect(report.issues).toEqual([
+        {
+          severity: 'error',
+          code: 'VOICE_LANGUAGE_MISMATCH',
+          field: 'ttsConfiguration.voiceId',
+          message: 'Voice Adam (adam) speaks en-US, not es-ES. es-ES voices: lucia.',
+        },
+      ]);
+    });
+
+    it('should report unknown models, wrong model types, unsupported languages, and unknown voices', () => {
+      const report = matrix.check({
+        modelId: 'model_missing',
+        sttConfiguration: { providerType: SupportedProprietor.ELEVENLABS, providerModelId: 'eleven_turbo_v2', languageId: 'fr-FR' },
+        ttsConfiguration: { providerType: SupportedProprietor.ELEVENLABS, providerModelId: 'eleven_turbo_v2', languageId: 'en-US', voiceId: 'zoe' },
+      });
+
+      expect(report.valid).toBe(false);
+      expect(report.issues.map((issue) => `${issue.code} ${issue.field}`)).toEqual([
+        'MODEL_NOT_FOUND modelId',
+        'MODEL_TYPE_MISMATCH sttConfiguration.providerModelId',
+        'LANGUAGE_NOT_SUPPORTED sttConfiguration.languageId',
+        'VOICE_NOT_FOUND ttsConfiguration.voiceId',
+        'LANGUAGE_MISMATCH ttsConfiguration.languageId',
+      ]);
+    });
+
+    it('should only warn about discontinued models', () => {
+      const report = matrix.check({ modelId: 'model_legacy', language: 'en-US' });
+
+      expect(report.valid).toBe(true);
+      expect(report.issues.map((issue) => issue.code)).toEqual(['MODEL_DISCONTINUED']);
+    });
+  });
+});
@@ -0,0 +1,446 @@
+/**
+ * @fileoverview Capability matrix of support models and agent model compatibility checks.
+ * @module resources/service-mgt/model-capabilities
+ */
+
+import {
+  DynamicSTTModelConfiguration,
+  DynamicTTSModelConfiguration,
+  LLMType,
+  WiilSupportModel,
+} from 'wiil-core-js';
+
+/**
+ * Default model roles served by the support model registry.
+ */
+export type ModelRole =
+  | 'multiMode'
+  | 'sts'
+  | 'tts'
+  | 'stt'
+  | 'transcribe'
+  | 'batch'
+  | 'translationSTT'
+  | 'translationTTS';
+
+/**
+ * Model categories that can be looked up in a {@link ModelCapabilityMatrix}.
+ *
+ * @remarks
+ * `translation` covers the registry's default translation STT and TTS models,
+ * since translation is not a model type of its own.
+ */
+export type ModelCapabilityType = LLMType | 'translation';
+
+/**
+ * Voice offered by a text-to-speech model.
+ */
+export type SupportModelVoice = NonNullable<WiilSupportModel['supportedVoices']>[number];
+
+/**
+ * Language supported by a model.
+ */
+export type SupportModelLanguage = NonNullable<WiilSupportModel['supportLanguages']>[number];
+
+/**
+ * Model choices of an agent, as accepted by dynamic agent setup.
+ *
+ * @remarks
+ * `DynamicPhoneAgentSetup` and `DynamicWebAgentSetup` objects can be passed
+ * as is.
+ */
+export interface AgentModelConfiguration {
+  /**
+   * WIIL model ID of the agent's language model.
+   */
+  modelId?: string;
+
+  /**
+   * Language the agent speaks, such as `en-US`. Used when the STT or TTS
+   * configuration does not set its own language.
+   */
+  language?: string;
+
+  /**
+   * Speech-to-text model configuration.
+   */
+  sttConfiguration?: DynamicSTTModelConfiguration | null;
+
+  /**
+   * Text-to-speech model configuration.
+   */
+  ttsConfiguration?: DynamicTTSModelConfiguration | null;
+}
+
+/**
+ * Problem found by {@link ModelCapabilityMatrix.check}.
+ */
+export interface ModelCompatibilityIssue {
+  /**
+   * `error` when the configuration will be rejected or cannot work,
+   * `warning` when it works but is likely a mistake.
+   */
+  severity: 'error' | 'warning';
+
+  /**
+   * Machine-readable issue code, such as `VOICE_LANGUAGE_MISMATCH`.
+   */
+  code: string;
+
+  /**
+   * Configuration field the issue refers to, such as `ttsConfiguration.voiceId`.
+   */
+  field: string;
+
+  /**
+   * Explanation of the problem and how to fix it.
+   */
+  message: string;
+}
+
+/**
+ * Outcome of an agent model compatibility check.
+ */
+export interface ModelCompatibilityReport {
+  /**
+   * Whether the configuration has no errors. Warnings do not affect this.
+   */
+  valid: boolean;
+
+  /**
+   * Errors and warnings, in configuration order.
+   */
+  issues: ModelCompatibilityIssue[];
+}
+
+/**
+ * Model types accepted for each speech configuration.
+ *
+ * @internal
+ */
+const SPEECH_MODEL_TYPES = {
+  sttConfiguration: [LLMType.STT, LLMType.TRANSCRIBE] as string[],
+  ttsConfiguration: [LLMType.TTS] as string[],
+};
+
+/**
+ * Support models indexed by type, proprietor, language, and voice.
+ *
+ * @remarks
+ * Returned by {@link SupportModelsResource.capabilities}. Lookups are local and
+ * make no requests. Language codes are compared case-insensitively, so `en-US`
+ * and `en-us` match.
+ *
+ * @example
+ * ```typescript
+ * const matrix = await client.supportModels.capabilities();
+ *
+ * const spanishTTS = matrix.byType(LLMType.TTS).filter((model) => matrix.supportsLanguage(model, 'es-ES'));
+ * const voices = matrix.voices(spanishTTS[0].modelId, 'es-ES');
+ * ```
+ */
+export class ModelCapabilityMatrix {
+  /**
+   * All models in the registry, including discontinued ones.
+   */
+  public readonly models: WiilSupportModel[];
+
+  /**
+   * Time the matrix was built, in milliseconds since the epoch.
+   */
+  public readonly fetchedAt: number;
+
+  private readonly defaults: Partial<Record<ModelRole, WiilSupportModel>>;
+
+  /**
+   * Creates a new ModelCapabilityMatrix instance.
+   *
+   * @param models - Models from the registry
+   * @param defaults - Default model for each role
+   *
+   * @internal
+   */
+  constructor(models: WiilSupportModel[], defaults: Partial<Record<ModelRole, WiilSupportModel | null>> = {}) {
+    this.models = [...models];
+    this.defaults = {};
+    for (const [role, model] of Object.entries(defaults) as [ModelRole, WiilSupportModel | null][]) {
+      if (!model) {
+        continue;
+      }
+      if (!this.models.some((existing) => existing.modelId === model.modelId)) {
+        this.models.push(model);
+      }
+      this.defaults[role] = model;
+    }
+    this.fetchedAt = Date.now();
+  }
+
+  /**
+   * Retrieves a model by WIIL model ID.
+   *
+   * @param modelId - WIIL model ID
+   * @returns The model, or undefined when it is not in the registry
+   */
+  public get(modelId: string): WiilSupportModel | undefined {
+    return this.models.find((model) => model.modelId === modelId);
+  }
+
+  /**
+   * Retrieves a model by proprietor and provider model ID, as used in STT and
+   * TTS configurations.
+   *
+   * @param proprietor - Model proprietor, such as `Deepgram`
+   * @param providerModelId - Provider-specific model identifier, such as `nova-2`
+   * @returns The model, or undefined when it is not in the registry
+   */
+  public find(proprietor: string, providerModelId: string): WiilSupportModel | undefined {
+    return this.models.find(
+      (model) => model.proprietor === proprietor && model.provider_model_id === providerModelId
+    );
+  }
+
+  /**
+   * Retrieves the registry's default model for a role.
+   *
+   * @param role - Model role
+   * @returns The default model, or undefined when the role has none
+   */
+  public getDefault(role: ModelRole): WiilSupportModel | undefined {
+    return this.defaults[role];
+  }
+
+  /**
+   * Lists the models of a type that are not discontinued.
+   *
+   * @param type - Model type, or `translation` for the translation models
+   * @returns Matching models
+   */
+  public byType(type: ModelCapabilityType): WiilSupportModel[] {
+    if (type === 'translation') {
+      return this.active().filter(
+        (model) =>
+          model.modelId === this.defaults.translationSTT?.modelId ||
+          model.modelId === this.defaults.translationTTS?.modelId
+      );
+    }
+    return this.active().filter((model) => model.type === type);
+  }
+
+  /**
+   * Lists the models of a proprietor that are not discontinued.
+   *
+   * @param proprietor - Model proprietor, such as `ElevenLabs`
+   * @returns Matching models
+   */
+  public byProprietor(proprietor: string): WiilSupportModel[] {
+    return this.active().filter((model) => model.proprietor === proprietor);
+  }
+
+  /**
+   * Lists the models that support a language and are not discontinued.
+   *
+   * @param language - Language code or language ID, such as `es-ES`
+   * @returns Matching models
+   */
+  public byLanguage(language: string): WiilSupportModel[] {
+    return this.active().filter((model) => this.supportsLanguage(model, language));
+  }
+
+  /**
+   * Checks whether a model supports a language.
+   *
+   * @param model - Model to check
+   * @param language - Language code or language ID, such as `es-ES`
+   * @returns True when the language is listed for the model
+   */
+  public supportsLanguage(model: WiilSupportModel, language: string): boolean {
+    const wanted = language.toLowerCase();
+    return (model.supportLanguages ?? []).some(
+      (supported: SupportModelLanguage) => supported.code.toLowerCase() === wanted || supported.languageId.toLowerCase() === wanted
+    );
+  }
+
+  /**
+   * Lists the voices of a text-to-speech model.
+   *
+   * @param modelId - WIIL model ID
+   * @param language - Optional language code to filter by
+   * @returns Voices of the model; empty when the model is unknown or has none
+   */
+  public voices(modelId: string, language?: string): SupportModelVoice[] {
+    const voices = this.get(modelId)?.supportedVoices ?? [];
+    return language ? voices.filter((voice: SupportModelVoice) => sameLanguage(voice.language, language)) : voices;
+  }
+
+  /**
+   * Explains why an agent's model choices will not work together.
+   *
+   * @param config - Model choices of the agent
+   * @returns Report listing errors and warnings
+   *
+   * @remarks
+   * Checks that each model exists and is not discontinued, that STT and TTS
+   * configurations use speech models of the right type, that the chosen
+   * languages are supported, and that the TTS voice exists and speaks the
+   * TTS language. Configurations that the registry has no data for, such as a
+   * model without a voice list, are not flagged.
+   *
+   * @example
+   * ```typescript
+   * const report = matrix.check({
+   *   language: 'es-ES',
+   *   ttsConfiguration: { providerType: 'ElevenLabs', providerModelId: 'eleven_turbo_v2', voiceId: 'adam' }
+   * });
+   * report.issues.forEach((issue) => console.log(`${issue.field}: ${issue.message}`));
+   * ```
+   */
+  public check(config: AgentModelConfiguration): ModelCompatibilityReport {
+    const issues: ModelCompatibilityIssue[] = [];
+
+    if (config.modelId) {
+      const model = this.get(config.modelId);
+      if (!model) {
+        issues.push({
+          severity: 'error',
+          code: 'MODEL_NOT_FOUND',
+          field: 'modelId',
+          message: `Model ${config.modelId} is not in the support model registry.`,
+        });
+      } else {
+        this.checkDiscontinued(model, 'modelId', issues);
+        if (config.language && model.supportLanguages?.length && !this.supportsLanguage(model, config.language)) {
+          issues.push({
+            severity: 'warning',
+            code: 'LANGUAGE_NOT_SUPPORTED',
+            field: 'language',
+            message: `${model.name} does not list ${config.language} among its languages (${languageList(model)}).`,
+          });
+        }
+      }
+    }
+
+    const languages: Partial<Record<keyof typeof SPEECH_MODEL_TYPES, string>> = {};
+    for (const field of ['sttConfiguration', 'ttsConfiguration'] as const) {
+      const speech = config[field];
+      if (!speech?.providerType || !speech.providerModelId) {
+        continue;
+      }
+
+      const model = this.find(speech.providerType, speech.providerModelId);
+      if (!model) {
+        issues.push({
+          severity: 'error',
+          code: 'MODEL_NOT_FOUND',
+          field: `${field}.providerModelId`,
+          message: `${speech.providerType}/${speech.providerModelId} is not in the support model registry.`,
+        });
+        continue;
+      }
+
+      this.checkDiscontinued(model, `${field}.providerModelId`, issues);
+      if (!SPEECH_MODEL_TYPES[field].includes(model.type)) {
+        issues.push({
+          severity: 'error',
+          code: 'MODEL_TYPE_MISMATCH',
+          field: `${field}.providerModelId`,
+          message: `${model.name} is a ${model.type} model; ${field} needs a ${SPEECH_MODEL_TYPES[field].join(' or ')} model.`,
+        });
+      }
+
+      const language = speech.languageId ?? config.language;
+      if (language) {
+        languages[field] = language;
+        if (model.supportLanguages?.length && !this.supportsLanguage(model, language)) {
+          issues.push({
+            severity: 'error',
+            code: 'LANGUAGE_NOT_SUPPORTED',
+            field: speech.languageId ? `${field}.languageId` : 'language',
+            message: `${model.name} does not support ${language}. Supported languages: ${languageList(model)}.`,
+          });
+        }
+      }
+
+      const voiceId = field === 'ttsConfiguration' ? config.ttsConfiguration?.voiceId : undefined;
+      if (voiceId && model.supportedVoices?.length) {
+        const voice = model.supportedVoices.find((candidate: SupportModelVoice) => candidate.voiceId === voiceId);
+        if (!voice) {
+          issues.push({
+            severity: 'error',
+            code: 'VOICE_NOT_FOUND',
+            field: 'ttsConfiguration.voiceId',
+            message: `${model.name} has no voice ${voiceId}. Available voices: ${model.supportedVoices.map((candidate: SupportModelVoice) => candidate.voiceId).join(', ')}.`,
+          });
+        } else if (language && voice.language && !sameLanguage(voice.language, language)) {
+          const alternatives = model.supportedVoices.filter((candidate: SupportModelVoice) => sameLanguage(candidate.language, language));
+          issues.push({
+            severity: 'error',
+            code: 'VOICE_LANGUAGE_MISMATCH',
+            field: 'ttsConfiguration.voiceId',
+            message:
+              `Voice ${voice.name} (${voiceId}) speaks ${voice.language}, not ${language}. ` +
+              (alternatives.length
+                ? `${language} voices: ${alternatives.map((candidate: SupportModelVoice) => candidate.voiceId).join(', ')}.`
+                : `${model.name} has no ${language} voices.`),
+          });
+        }
+      }
+    }
+
+    if (
+      languages.sttConfiguration &&
+      languages.ttsConfiguration &&
+      !sameLanguage(languages.sttConfiguration, languages.ttsConfiguration)
+    ) {
+      issues.push({
+        severity: 'warning',
+        code: 'LANGUAGE_MISMATCH',
+        field: 'ttsConfiguration.languageId',
+        message: `The agent listens in ${languages.sttConfiguration} but speaks ${languages.ttsConfiguration}.`,
+      });
+    }
+
+    return { valid: !issues.some((issue) => issue.severity === 'error'), issues };
+  }
+
+  /**
+   * Models that are not discontinued.
+   */
+  private active(): WiilSupportModel[] {
+    return this.models.filter((model) => !model.discontinued);
+  }
+
+  /**
+   * Adds a warning when a model is discontinued.
+   */
+  private checkDiscontinued(model: WiilSupportModel, field: string, issues: ModelCompatibilityIssue[]): void {
+    if (model.discontinued) {
+      issues.push({
+        severity: 'warning',
+        code: 'MODEL_DISCONTINUED',
+        field,
+        message: `${model.name} is discontinued; choose another ${model.type} model.`,
+      });
+    }
+  }
+}
+
+/**
+ * Compares language codes case-insensitively.
+ *
+ * @param a - Language code, if any
+ * @param b - Language code
+ * @returns True when both codes are the same
+ */
+function sameLanguage(a: string | undefined, b: string): boolean {
+  return a?.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Formats the language codes of a model for messages.
+ *
+ * @param model - Model to describe
+ * @returns Comma-separated language codes
+ */
+function languageList(model: WiilSupportModel): string {
+  return (model.supportLanguages ?? []).map((language: SupportModelLanguage) => language.code).join(', ');
+}
@@ -11,9 +11,24 @@ import {
   UpdatePhoneConfigurationSchema,
   UpdatePhoneConfiguration,
   PaginatedResultType,
-  PaginationRequest,
+  PhoneConfigurationSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
+
+/**
+ * Filters for listing phone configurations.
+ */
+export interface PhoneConfigurationFilters {
+  /** Filter by phone configuration status */
+  status?: PhoneConfiguration['status'];
+  /** Filter by telephony provider */
+  providerType?: PhoneConfiguration['providerType'];
+}
 
 /**
  * Resource class for managing phone configurations in the WIIL Platform.
@@ -56,6 +71,16 @@ export class PhoneConfigurationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<PhoneConfigurationsResource> {
+    return withResponse(this.http, (http) => new PhoneConfigurationsResource(http));
+  }
+
   // /**
   //  * Purchases a new phone number and creates a phone configuration.
   //  *
@@ -78,56 +103,79 @@ export class PhoneConfigurationsResource {
    * Retrieves a phone configuration by ID.
    *
    * @param id - Phone configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the phone configuration
    *
    * @throws {@link WiilAPIError} - When the phone configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<PhoneConfiguration> {
-    return this.http.get<PhoneConfiguration>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<PhoneConfiguration> {
+    return this.http.get<PhoneConfiguration>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: PhoneConfigurationSchema }
+    );
   }
 
   /**
    * Retrieves a phone configuration by phone number.
    *
    * @param phoneNumber - Phone number
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the phone configuration
    *
    * @throws {@link WiilAPIError} - When the phone configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getByPhoneNumber(phoneNumber: string): Promise<PhoneConfiguration> {
-    return this.http.get<PhoneConfiguration>(`${this.resource_path}/by-phone-number/${encodeURIComponent(phoneNumber)}`);
+  public async getByPhoneNumber(
+    phoneNumber: string,
+    options?: RequestOptions
+  ): Promise<PhoneConfiguration> {
+    return this.http.get<PhoneConfiguration>(
+      `${this.resource_path}/by-phone-number/${encodeURIComponent(phoneNumber)}`,
+      { ...options, responseSchema: PhoneConfigurationSchema }
+    );
   }
 
   /**
    * Retrieves a phone configuration by request ID.
    *
    * @param requestId - Phone request ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the phone configuration
    *
    * @throws {@link WiilAPIError} - When the phone configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getByRequestId(requestId: string): Promise<PhoneConfiguration> {
-    return this.http.get<PhoneConfiguration>(`${this.resource_path}/by-request/${requestId}`);
+  public async getByRequestId(
+    requestId: string,
+    options?: RequestOptions
+  ): Promise<PhoneConfiguration> {
+    return this.http.get<PhoneConfiguration>(
+      `${this.resource_path}/by-request/${requestId}`,
+      { ...options, responseSchema: PhoneConfigurationSchema }
+    );
   }
 
   /**
    * Updates an existing phone configuration.
    *
    * @param data - Phone configuration update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated phone configuration
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the phone configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(data: UpdatePhoneConfiguration): Promise<PhoneConfiguration> {
+  public async update(
+    data: UpdatePhoneConfiguration,
+    options?: RequestOptions
+  ): Promise<PhoneConfiguration> {
     return this.http.patch<UpdatePhoneConfiguration, PhoneConfiguration>(
       this.resource_path,
       data,
-      UpdatePhoneConfigurationSchema
+      UpdatePhoneConfigurationSchema,
+      { ...options, responseSchema: PhoneConfigurationSchema }
     );
   }
 
@@ -135,34 +183,90 @@ export class PhoneConfigurationsResource {
    * Deletes a phone configuration.
    *
    * @param id - Phone configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the phone configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists phone configurations with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param filters - Optional filters to narrow the results
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of phone configurations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<PhoneConfiguration>,
+    filters?: PhoneConfigurationFilters,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<PhoneConfiguration>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}${buildQueryString(params, filters)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<PhoneConfiguration>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(PhoneConfigurationSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link PhoneConfigurationsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.phoneConfigs.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<PhoneConfiguration>,
+    filters?: PhoneConfigurationFilters,
+    options?: PaginateOptions
+  ): PageIterator<PhoneConfiguration> {
+    return paginate((params) => this.list(params, filters, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<PhoneConfiguration>>(path);
+  /**
+   * Retrieves every item of {@link PhoneConfigurationsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param filters - Optional filters to narrow the results
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link PhoneConfigurationsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.phoneConfigs.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<PhoneConfiguration>,
+    filters?: PhoneConfigurationFilters,
+    options?: PaginateOptions
+  ): Promise<PhoneConfiguration[]> {
+    return this.iterate(params, filters, options).toArray();
   }
 }
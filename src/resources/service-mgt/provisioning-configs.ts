@@ -10,9 +10,14 @@ import {
   UpdateTranslationChainConfigSchema,
   UpdateTranslationChainConfig,
   PaginatedResultType,
-  PaginationRequest,
+  TranslationChainConfigSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { paginatedResultSchema } from '../../client/validation';
 import { WiilValidationError } from '../../errors/WiilError';
 
 /**
@@ -70,17 +75,28 @@ export class ProvisioningConfigurationsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<ProvisioningConfigurationsResource> {
+    return withResponse(this.http, (http) => new ProvisioningConfigurationsResource(http));
+  }
+
   /**
    * Creates a new translation chain configuration.
    *
    * @param data - Translation chain configuration data
+   * @param options - Optional request options such as an idempotency key
    * @returns Promise resolving to the created translation chain configuration
    *
    * @throws {@link WiilValidationError} - When input validation fails or model is not supported
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async create(data: CreateTranslationChainConfig): Promise<TranslationChainConfig> {
+  public async create(data: CreateTranslationChainConfig, options?: RequestOptions): Promise<TranslationChainConfig> {
     await this.validateModelConfigurations(
       data.sttConfig,
       data.processingConfig,
@@ -90,7 +106,8 @@ export class ProvisioningConfigurationsResource {
     return this.http.post<CreateTranslationChainConfig, TranslationChainConfig>(
       this.resource_path,
       data,
-      CreateTranslationChainConfigSchema
+      CreateTranslationChainConfigSchema,
+      { ...options, responseSchema: TranslationChainConfigSchema }
     );
   }
 
@@ -98,39 +115,54 @@ export class ProvisioningConfigurationsResource {
    * Retrieves a translation chain configuration by ID.
    *
    * @param id - Translation chain configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the translation chain configuration
    *
    * @throws {@link WiilAPIError} - When the configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async get(id: string): Promise<TranslationChainConfig> {
-    return this.http.get<TranslationChainConfig>(`${this.resource_path}/${id}`);
+  public async get(id: string, options?: RequestOptions): Promise<TranslationChainConfig> {
+    return this.http.get<TranslationChainConfig>(
+      `${this.resource_path}/${id}`,
+      { ...options, responseSchema: TranslationChainConfigSchema }
+    );
   }
 
   /**
    * Retrieves a translation chain configuration by chain name.
    *
    * @param chainName - Chain name
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the translation chain configuration
    *
    * @throws {@link WiilAPIError} - When the configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async getByChainName(chainName: string): Promise<TranslationChainConfig> {
-    return this.http.get<TranslationChainConfig>(`${this.resource_path}/by-chain-name/${chainName}`);
+  public async getByChainName(
+    chainName: string,
+    options?: RequestOptions
+  ): Promise<TranslationChainConfig> {
+    return this.http.get<TranslationChainConfig>(
+      `${this.resource_path}/by-chain-name/${chainName}`,
+      { ...options, responseSchema: TranslationChainConfigSchema }
+    );
   }
 
   /**
    * Updates an existing translation chain configuration.
    *
    * @param data - Translation chain update data (must include id)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the updated translation chain configuration
    *
    * @throws {@link WiilValidationError} - When input validation fails or model is not supported
    * @throws {@link WiilAPIError} - When the configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async update(data: UpdateTranslationChainConfig): Promise<TranslationChainConfig> {
+  public async update(
+    data: UpdateTranslationChainConfig,
+    options?: RequestOptions
+  ): Promise<TranslationChainConfig> {
     await this.validateModelConfigurations(
       data.sttConfig,
       data.processingConfig,
@@ -140,7 +172,8 @@ export class ProvisioningConfigurationsResource {
     return this.http.patch<UpdateTranslationChainConfig, TranslationChainConfig>(
       `${this.resource_path}/${data.id}`,
       data,
-      UpdateTranslationChainConfigSchema
+      UpdateTranslationChainConfigSchema,
+      { ...options, responseSchema: TranslationChainConfigSchema }
     );
   }
 
@@ -148,35 +181,85 @@ export class ProvisioningConfigurationsResource {
    * Deletes a translation chain configuration.
    *
    * @param id - Translation chain configuration ID
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to boolean indicating deletion success
    *
    * @throws {@link WiilAPIError} - When the configuration is not found or API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
-  public async delete(id: string): Promise<boolean> {
-    return this.http.delete<boolean>(`${this.resource_path}/${id}`);
+  public async delete(id: string, options?: RequestOptions): Promise<boolean> {
+    return this.http.delete<boolean>(`${this.resource_path}/${id}`, options);
   }
 
   /**
    * Lists translation chain configurations with optional pagination.
    *
    * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to paginated list of translation chain configurations
    *
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
    */
   public async list(
-    params?: Partial<PaginationRequest>
+    params?: ListParams<TranslationChainConfig>,
+    options?: RequestOptions
   ): Promise<PaginatedResultType<TranslationChainConfig>> {
-    const queryParams = new URLSearchParams();
+    const path = `${this.resource_path}/translations${buildQueryString(params)}`;
 
-    if (params?.page) queryParams.append('page', params.page.toString());
-    if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
+    return this.http.get<PaginatedResultType<TranslationChainConfig>>(
+      path,
+      { ...options, responseSchema: paginatedResultSchema(TranslationChainConfigSchema) }
+    );
+  }
 
-    const path = `${this.resource_path}/translations${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
+  /**
+   * Iterates over every page of {@link ProvisioningConfigurationsResource.list}, yielding each item.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every item, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const item of client.provisioningConfigs.iterate({ pageSize: 100 })) {
+   *   console.log(item.id);
+   * }
+   * ```
+   */
+  public iterate(
+    params?: ListParams<TranslationChainConfig>,
+    options?: PaginateOptions
+  ): PageIterator<TranslationChainConfig> {
+    return paginate((params) => this.list(params, options), params, options);
+  }
 
-    return this.http.get<PaginatedResultType<TranslationChainConfig>>(path);
+  /**
+   * Retrieves every item of {@link ProvisioningConfigurationsResource.list} across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Promise resolving to all items
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Loads the entire list into memory. Use {@link ProvisioningConfigurationsResource.iterate} to process large lists incrementally.
+   *
+   * @example
+   * ```typescript
+   * const all = await client.provisioningConfigs.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(
+    params?: ListParams<TranslationChainConfig>,
+    options?: PaginateOptions
+  ): Promise<TranslationChainConfig[]> {
+    return this.iterate(params, options).toArray();
   }
 
   /**
@@ -6,7 +6,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import nock from 'nock';
 import { WiilClient } from '../../client/WiilClient';
 import { WiilSupportModel, LLMType, SupportedProprietor } from 'wiil-core-js';
-import { WiilAPIError } from '../../errors/WiilError';
+import { WiilAbortError, WiilAPIError } from '../../errors/WiilError';
 
 const BASE_URL = 'https://api.wiil.io/v1';
 const API_KEY = 'test-api-key';
@@ -462,4 +462,171 @@ describe('SupportModelsResource', () => {
       expect(result?.proprietor).toBe(SupportedProprietor.GOOGLE);
     });
   });
+
+  describe('capabilities', () => {
+    const tts: WiilSupportModel = {
+      modelId: 'model_tts',
+      name: 'ElevenLabs TTS',
+      provider_model_id: 'eleven_turbo_v2',
+      proprietor: SupportedProprietor.ELEVENLABS,
+      description: 'ElevenLabs text-to-speech model',
+      type: LLMType.TTS,
+      discontinued: false,
+      supportedVoices: [
+        { voiceId: 'adam', name: 'Adam', description: 'Deep, authoritative male voice', gender: 'male' as const, language: 'en-US', isDefault: true },
+      ],
+      supportLanguages: [
+        { languageId: 'en-us', name: 'English (United States)', code: 'en-US', isDefault: true, isExperimental: false },
+        { languageId: 'es-es', name: 'Spanish (Spain)', code: 'es-ES', isDefault: false, isExperimental: false },
+      ],
+    };
+
+    const reply = (data: unknown) => ({
+      success: true,
+      data,
+      metadata: { timestamp: Date.now(), version: 'v1' },
+    });
+
+    const mockRegistry = (times = 1) => {
+      nock(BASE_URL)
+        .get('/support-models')
+        .query(true)
+        .times(times)
+        .reply(200, reply({
+          data: [tts],
+          meta: { page: 1, pageSize: 20, totalCount: 1, totalPages: 1, hasNextPage: false, hasPreviousPage: false },
+        }));
+      nock(BASE_URL).get('/support-models/defaults/tts').times(times).reply(200, reply(tts));
+      for (const role of ['multi-mode', 'sts', 'stt', 'transcribe', 'batch', 'translation-stt', 'translation-tts']) {
+        nock(BASE_URL).get(`/support-models/defaults/${role}`).times(times).reply(200, reply(null));
+      }
+    };
+
+    it('should build the matrix once and cache it', async () => {
+      mockRegistry();
+
+      const [matrix, again] = await Promise.all([
+        client.supportModels.capabilities(),
+        client.supportModels.capabilities(),
+      ]);
+
+      expect(again).toBe(matrix);
+      expect(await client.supportModels.capabilities()).toBe(matrix);
+      expect(matrix.byType(LLMType.TTS)).toEqual([tts]);
+      expect(matrix.getDefault('tts')).toEqual(tts);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should read every page of the registry', async () => {
+      const stt: WiilSupportModel = { ...tts, modelId: 'model_stt', type: LLMType.STT };
+      const meta = { pageSize: 100, totalCount: 2, totalPages: 2 };
+      nock(BASE_URL)
+        .get('/support-models')
+        .query({ page: '1', pageSize: '100' })
+        .reply(200, reply({ data: [tts], meta: { ...meta, page: 1, hasNextPage: true, hasPreviousPage: false } }))
+        .get('/support-models')
+        .query({ page: '2', pageSize: '100' })
+        .reply(200, reply({ data: [stt], meta: { ...meta, page: 2, hasNextPage: false, hasPreviousPage: true } }));
+      nock(BASE_URL).get(/\/support-models\/defaults\/.*/).times(8).reply(200, reply(null));
+
+      const matrix = await client.supportModels.capabilities();
+
+      expect(matrix.models).toEqual([tts, stt]);
+    });
+
+    it('should stop waiting when a caller aborts without cancelling the shared fetch', async () => {
+      nock(BASE_URL)
+        .get('/support-models')
+        .query(true)
+        .delay(30)
+        .reply(200, reply({
+          data: [tts],
+          meta: { page: 1, pageSize: 100, totalCount: 1, totalPages: 1, hasNextPage: false, hasPreviousPage: false },
+        }));
+      nock(BASE_URL).get(/\/support-models\/defaults\/.*/).times(8).reply(200, reply(null));
+
+      const controller = new AbortController();
+      const aborted = client.supportModels.capabilities({ signal: controller.signal });
+      const waiting = client.supportModels.capabilities();
+      controller.abort();
+
+      await expect(aborted).rejects.toBeInstanceOf(WiilAbortError);
+      expect((await waiting).models).toEqual([tts]);
+    });
+
+    it('should fetch the registry again when refreshing', async () => {
+      mockRegistry(2);
+
+      const matrix = await client.supportModels.capabilities();
+      const refreshed = await client.supportModels.capabilities({ refresh: true });
+
+      expect(refreshed).not.toBe(matrix);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should not cache a failed fetch', async () => {
+      nock(BASE_URL)
+        .get(/\/support-models.*/)
+        .times(9)
+        .reply(500, {
+          success: false,
+          error: { code: 'INTERNAL_ERROR', message: 'Registry unavailable' },
+          metadata: { timestamp: Date.now(), version: 'v1' },
+        });
+
+      await expect(client.supportModels.capabilities()).rejects.toThrow(WiilAPIError);
+
+      nock.cleanAll();
+      mockRegistry();
+      const matrix = await client.supportModels.capabilities();
+      expect(matrix.models).toEqual([tts]);
+    });
+  });
+
+  describe('validateAgentModels', () => {
+    it('should explain incompatible model choices', async () => {
+      nock(BASE_URL)
+        .get('/support-models')
+        .query(true)
+        .reply(200, {
+          success: true,
+          data: [
+            {
+              modelId: 'model_tts',
+              name: 'ElevenLabs TTS',
+              provider_model_id: 'eleven_turbo_v2',
+              proprietor: SupportedProprietor.ELEVENLABS,
+              description: 'ElevenLabs text-to-speech model',
+              type: LLMType.TTS,
+              discontinued: false,
+              supportedVoices: [
+                { voiceId: 'adam', name: 'Adam', description: 'Male voice', gender: 'male' as const, language: 'en-US', isDefault: true },
+              ],
+              supportLanguages: [
+                { languageId: 'en-us', name: 'English (United States)', code: 'en-US', isDefault: true, isExperimental: false },
+                { languageId: 'es-es', name: 'Spanish (Spain)', code: 'es-ES', isDefault: false, isExperimental: false },
+              ],
+            },
+          ],
+          metadata: { timestamp: Date.now(), version: 'v1' },
+        });
+      nock(BASE_URL)
+        .get(/\/support-models\/defaults\/.*/)
+        .times(8)
+        .reply(200, { success: true, data: null, metadata: { timestamp: Date.now(), version: 'v1' } });
+
+      const report = await client.supportModels.validateAgentModels({
+        language: 'es-ES',
+        ttsConfiguration: {
+          providerType: SupportedProprietor.ELEVENLABS,
+          providerModelId: 'eleven_turbo_v2',
+          voiceId: 'adam',
+        },
+      });
+
+      expect(report.valid).toBe(false);
+      expect(report.issues[0].code).toBe('VOICE_LANGUAGE_MISMATCH');
+      expect(report.issues[0].message).toContain('has no es-ES voices');
+    });
+  });
 });
@@ -6,8 +6,38 @@
 import {
   WiilSupportModel,
   PaginatedResultType,
+  WiilSupportModelSchema,
 } from 'wiil-core-js';
+import { z } from 'zod';
+import { waitFor } from '../../client/abort';
 import { HttpClient } from '../../client/HttpClient';
+import { PageIterator, PaginateOptions, paginate } from '../../client/pagination';
+import { ListParams, buildQueryString } from '../../client/query';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { paginatedResultSchema } from '../../client/validation';
+import {
+  AgentModelConfiguration,
+  ModelCapabilityMatrix,
+  ModelCompatibilityReport,
+} from './model-capabilities';
+
+/**
+ * Options for {@link SupportModelsResource.capabilities}.
+ */
+export interface CapabilitiesOptions {
+  /**
+   * Fetch the registry again instead of using the cached matrix.
+   * @default false
+   */
+  refresh?: boolean;
+
+  /**
+   * Signal that stops waiting for the matrix. The fetch itself is shared with
+   * other callers, so it keeps running.
+   */
+  signal?: AbortSignal;
+}
 
 /**
  * Resource class for accessing support model configurations in the WIIL Platform.
@@ -37,6 +67,7 @@ import { HttpClient } from '../../client/HttpClient';
 export class SupportModelsResource {
   private readonly http: HttpClient;
   private readonly resource_path = '/support-models';
+  private capabilitiesCache?: Promise<ModelCapabilityMatrix>;
 
   /**
    * Creates a new SupportModelsResource instance.
@@ -49,10 +80,21 @@ export class SupportModelsResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<SupportModelsResource> {
+    return withResponse(this.http, (http) => new SupportModelsResource(http));
+  }
+
   /**
    * Retrieves a support model by Wiil model ID.
    *
    * @param modelId - Wiil unique model identifier (not the provider's model ID)
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the support model configuration
    *
    * @throws {@link WiilAPIError} - When the model is not found or API returns an error
@@ -69,13 +111,17 @@ export class SupportModelsResource {
    * console.log('Discontinued:', model.discontinued);
    * ```
    */
-  public async get(modelId: string): Promise<WiilSupportModel> {
-    return this.http.get<WiilSupportModel>(`${this.resource_path}/${modelId}`);
+  public async get(modelId: string, options?: RequestOptions): Promise<WiilSupportModel> {
+    return this.http.get<WiilSupportModel>(
+      `${this.resource_path}/${modelId}`,
+      { ...options, responseSchema: WiilSupportModelSchema }
+    );
   }
 
   /**
    * Lists all support models in the registry.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to array of all support models
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -90,13 +136,57 @@ export class SupportModelsResource {
    * });
    * ```
    */
-  public async list(): Promise<PaginatedResultType<WiilSupportModel>> {
-    return this.http.get<PaginatedResultType<WiilSupportModel>>(this.resource_path);
+  public async list(options?: RequestOptions): Promise<PaginatedResultType<WiilSupportModel>> {
+    return this.http.get<PaginatedResultType<WiilSupportModel>>(
+      this.resource_path,
+      { ...options, responseSchema: paginatedResultSchema(WiilSupportModelSchema) }
+    );
+  }
+
+  /**
+   * Iterates over every page of the support model registry, yielding each model.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as the number of pages to prefetch or an abort signal
+   * @returns Iterator over every model, usable with `for await` or `toArray()`
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * for await (const model of client.supportModels.iterate({ pageSize: 100 })) {
+   *   console.log(model.name);
+   * }
+   * ```
+   */
+  public iterate(params?: ListParams<WiilSupportModel>, options?: PaginateOptions): PageIterator<WiilSupportModel> {
+    return paginate((params) => this.listPage(params, options), params, options);
+  }
+
+  /**
+   * Retrieves every model in the support model registry across all pages.
+   *
+   * @param params - Pagination parameters; `page` sets the starting page and `pageSize` the page size
+   * @param options - Iteration and request options such as an abort signal
+   * @returns Promise resolving to every model
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @example
+   * ```typescript
+   * const models = await client.supportModels.listAll({ pageSize: 100 });
+   * ```
+   */
+  public async listAll(params?: ListParams<WiilSupportModel>, options?: PaginateOptions): Promise<WiilSupportModel[]> {
+    return this.iterate(params, options).toArray();
   }
 
   /**
    * Retrieves the default multi-mode model.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default multi-mode model or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -110,13 +200,17 @@ export class SupportModelsResource {
    * }
    * ```
    */
-  public async getDefaultMultiMode(): Promise<WiilSupportModel | null> {
-    return this.http.get<WiilSupportModel | null>(`${this.resource_path}/defaults/multi-mode`);
+  public async getDefaultMultiMode(options?: RequestOptions): Promise<WiilSupportModel | null> {
+    return this.http.get<WiilSupportModel | null>(
+      `${this.resource_path}/defaults/multi-mode`,
+      { ...options, responseSchema: WiilSupportModelSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves the default Speech-to-Speech model.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default STS model or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -130,13 +224,17 @@ export class SupportModelsResource {
    * }
    * ```
    */
-  public async getDefaultSTS(): Promise<WiilSupportModel | null> {
-    return this.http.get<WiilSupportModel | null>(`${this.resource_path}/defaults/sts`);
+  public async getDefaultSTS(options?: RequestOptions): Promise<WiilSupportModel | null> {
+    return this.http.get<WiilSupportModel | null>(
+      `${this.resource_path}/defaults/sts`,
+      { ...options, responseSchema: WiilSupportModelSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves the default Text-to-Speech model.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default TTS model or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -151,13 +249,17 @@ export class SupportModelsResource {
    * }
    * ```
    */
-  public async getDefaultTTS(): Promise<WiilSupportModel | null> {
-    return this.http.get<WiilSupportModel | null>(`${this.resource_path}/defaults/tts`);
+  public async getDefaultTTS(options?: RequestOptions): Promise<WiilSupportModel | null> {
+    return this.http.get<WiilSupportModel | null>(
+      `${this.resource_path}/defaults/tts`,
+      { ...options, responseSchema: WiilSupportModelSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves the default Speech-to-Text model.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default STT model or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -172,13 +274,17 @@ export class SupportModelsResource {
    * }
    * ```
    */
-  public async getDefaultSTT(): Promise<WiilSupportModel | null> {
-    return this.http.get<WiilSupportModel | null>(`${this.resource_path}/defaults/stt`);
+  public async getDefaultSTT(options?: RequestOptions): Promise<WiilSupportModel | null> {
+    return this.http.get<WiilSupportModel | null>(
+      `${this.resource_path}/defaults/stt`,
+      { ...options, responseSchema: WiilSupportModelSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves the default Transcription model.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default transcription model or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -192,13 +298,17 @@ export class SupportModelsResource {
    * }
    * ```
    */
-  public async getDefaultTranscribe(): Promise<WiilSupportModel | null> {
-    return this.http.get<WiilSupportModel | null>(`${this.resource_path}/defaults/transcribe`);
+  public async getDefaultTranscribe(options?: RequestOptions): Promise<WiilSupportModel | null> {
+    return this.http.get<WiilSupportModel | null>(
+      `${this.resource_path}/defaults/transcribe`,
+      { ...options, responseSchema: WiilSupportModelSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves the default Batch processing model.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default batch model or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -212,13 +322,17 @@ export class SupportModelsResource {
    * }
    * ```
    */
-  public async getDefaultBatch(): Promise<WiilSupportModel | null> {
-    return this.http.get<WiilSupportModel | null>(`${this.resource_path}/defaults/batch`);
+  public async getDefaultBatch(options?: RequestOptions): Promise<WiilSupportModel | null> {
+    return this.http.get<WiilSupportModel | null>(
+      `${this.resource_path}/defaults/batch`,
+      { ...options, responseSchema: WiilSupportModelSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves the default Translation Speech-to-Text model.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default translation STT model or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -232,13 +346,19 @@ export class SupportModelsResource {
    * }
    * ```
    */
-  public async getDefaultTranslationSTT(): Promise<WiilSupportModel | null> {
-    return this.http.get<WiilSupportModel | null>(`${this.resource_path}/defaults/translation-stt`);
+  public async getDefaultTranslationSTT(
+    options?: RequestOptions
+  ): Promise<WiilSupportModel | null> {
+    return this.http.get<WiilSupportModel | null>(
+      `${this.resource_path}/defaults/translation-stt`,
+      { ...options, responseSchema: WiilSupportModelSchema.nullable() }
+    );
   }
 
   /**
    * Retrieves the default Translation Text-to-Speech model.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the default translation TTS model or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -252,8 +372,13 @@ export class SupportModelsResource {
    * }
    * ```
    */
-  public async getDefaultTranslationTTS(): Promise<WiilSupportModel | null> {
-    return this.http.get<WiilSupportModel | null>(`${this.resource_path}/defaults/translation-tts`);
+  public async getDefaultTranslationTTS(
+    options?: RequestOptions
+  ): Promise<WiilSupportModel | null> {
+    return this.http.get<WiilSupportModel | null>(
+      `${this.resource_path}/defaults/translation-tts`,
+      { ...options, responseSchema: WiilSupportModelSchema.nullable() }
+    );
   }
 
   /**
@@ -261,6 +386,7 @@ export class SupportModelsResource {
    *
    * @param type - LLM type (e.g., 'TEXT', 'VOICE', 'MULTI_MODE')
    * @param proprietor - Model proprietor (e.g., 'OpenAI', 'Anthropic', 'Google')
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the matching model or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -276,10 +402,12 @@ export class SupportModelsResource {
    */
   public async getByTypeAndProprietor(
     type: string,
-    proprietor: string
+    proprietor: string,
+    options?: RequestOptions
   ): Promise<WiilSupportModel | null> {
     return this.http.get<WiilSupportModel | null>(
-      `${this.resource_path}/lookup/type-proprietor/${type}/${proprietor}`
+      `${this.resource_path}/lookup/type-proprietor/${type}/${proprietor}`,
+      { ...options, responseSchema: WiilSupportModelSchema.nullable() }
     );
   }
 
@@ -288,6 +416,7 @@ export class SupportModelsResource {
    *
    * @param proprietor - Model proprietor (e.g., 'OpenAI', 'Anthropic', 'Google')
    * @param providerModelId - Provider-specific model identifier (e.g., 'gpt-4-1106-preview')
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the matching model or null
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -307,18 +436,92 @@ export class SupportModelsResource {
    */
   public async getByProprietorAndProviderModelId(
     proprietor: string,
-    providerModelId: string
+    providerModelId: string,
+    options?: RequestOptions
   ): Promise<WiilSupportModel | null> {
     return this.http.get<WiilSupportModel | null>(
-      `${this.resource_path}/lookup/proprietor-provider/${proprietor}/${providerModelId}`
+      `${this.resource_path}/lookup/proprietor-provider/${proprietor}/${providerModelId}`,
+      { ...options, responseSchema: WiilSupportModelSchema.nullable() }
     );
   }
 
+  /**
+   * Builds a capability matrix of every model in the registry, indexed by
+   * type, proprietor, language, and voice.
+   *
+   * @param options - Whether to refresh the cached matrix, and an abort signal
+   * @returns Promise resolving to the capability matrix
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   * @throws {@link WiilAbortError} - When the signal is aborted before the matrix is ready
+   *
+   * @remarks
+   * The matrix is built from every page of the registry and the default model
+   * endpoints, then cached on this resource, so later calls make no requests.
+   * Concurrent calls share one fetch, and a failed fetch is not cached. A
+   * caller's signal only stops that caller's wait, never the shared fetch.
+   * Pass `refresh: true` to pick up registry changes.
+   *
+   * @example
+   * ```typescript
+   * const matrix = await client.supportModels.capabilities();
+   *
+   * for (const model of matrix.byType(LLMType.TTS)) {
+   *   console.log(model.name, matrix.voices(model.modelId, 'en-US').map((voice) => voice.name));
+   * }
+   * ```
+   */
+  public async capabilities(options?: CapabilitiesOptions): Promise<ModelCapabilityMatrix> {
+    if (!this.capabilitiesCache || options?.refresh) {
+      const pending = this.fetchCapabilities();
+      this.capabilitiesCache = pending;
+      pending.catch(() => {
+        if (this.capabilitiesCache === pending) {
+          this.capabilitiesCache = undefined;
+        }
+      });
+    }
+    return waitFor(this.capabilitiesCache, options?.signal);
+  }
+
+  /**
+   * Explains incompatibilities between an agent's model choices before they
+   * are submitted.
+   *
+   * @param config - Model choices of the agent, such as a dynamic phone agent setup
+   * @param options - Optional abort signal for waiting on the capability matrix
+   * @returns Promise resolving to a report of errors and warnings
+   *
+   * @throws {@link WiilAPIError} - When the API returns an error
+   * @throws {@link WiilNetworkError} - When network communication fails
+   *
+   * @remarks
+   * Uses the cached {@link SupportModelsResource.capabilities} matrix; see
+   * {@link ModelCapabilityMatrix.check} for the checks made.
+   *
+   * @example
+   * ```typescript
+   * const report = await client.supportModels.validateAgentModels(setup);
+   * if (!report.valid) {
+   *   report.issues.forEach((issue) => console.error(`${issue.field}: ${issue.message}`));
+   * }
+   * ```
+   */
+  public async validateAgentModels(
+    config: AgentModelConfiguration,
+    options?: Pick<RequestOptions, 'signal'>
+  ): Promise<ModelCompatibilityReport> {
+    const matrix = await this.capabilities({ signal: options?.signal });
+    return matrix.check(config);
+  }
+
   /**
    * Checks if a model is supported by proprietor and provider model ID.
    *
    * @param proprietor - Model proprietor (e.g., 'OpenAI', 'Anthropic', 'Google', 'Deepgram')
    * @param providerModelId - Provider-specific model identifier (e.g., 'gpt-4-turbo', 'nova-2')
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to true if the model is supported, false otherwise
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -341,10 +544,92 @@ export class SupportModelsResource {
    */
   public async isSupported(
     proprietor: string,
-    providerModelId: string
+    providerModelId: string,
+    options?: RequestOptions
   ): Promise<boolean> {
     return this.http.get<boolean>(
-      `${this.resource_path}/supports/${proprietor}/${providerModelId}`
+      `${this.resource_path}/supports/${proprietor}/${providerModelId}`,
+      options
+    );
+  }
+
+  /**
+   * Fetches a single page of the registry.
+   *
+   * @param params - Pagination parameters
+   * @param options - Optional request options such as an abort signal
+   * @returns Promise resolving to the page
+   */
+  private async listPage(
+    params: ListParams<WiilSupportModel>,
+    options?: RequestOptions
+  ): Promise<PaginatedResultType<WiilSupportModel>> {
+    const result = await this.http.get<PaginatedResultType<WiilSupportModel> | WiilSupportModel[]>(
+      `${this.resource_path}${buildQueryString(params)}`,
+      {
+        ...options,
+        responseSchema: z.union([paginatedResultSchema(WiilSupportModelSchema), z.array(WiilSupportModelSchema)]),
+      }
     );
+
+    // The registry may return a plain array rather than a page of models
+    if (!Array.isArray(result)) {
+      return result;
+    }
+    return {
+      data: result,
+      meta: {
+        page: 1,
+        pageSize: result.length,
+        totalCount: result.length,
+        totalPages: 1,
+        hasNextPage: false,
+        hasPreviousPage: false,
+      },
+    };
+  }
+
+  /**
+   * Fetches the registry and default models for {@link SupportModelsResource.capabilities}.
+   *
+   * @returns Promise resolving to the capability matrix
+   *
+   * @remarks
+   * Requests are sent without a signal, because the fetch is shared by every
+   * caller waiting for the matrix.
+   */
+  private async fetchCapabilities(): Promise<ModelCapabilityMatrix> {
+    const [
+      models,
+      multiMode,
+      sts,
+      tts,
+      stt,
+      transcribe,
+      batch,
+      translationSTT,
+      translationTTS,
+    ] = await Promise.all([
+      this.listAll({ pageSize: 100 }),
+      this.getDefaultMultiMode(),
+      this.getDefaultSTS(),
+      this.getDefaultTTS(),
+      this.getDefaultSTT(),
+      this.getDefaultTranscribe(),
+      this.getDefaultBatch(),
+      this.getDefaultTranslationSTT(),
+      this.getDefaultTranslationTTS(),
+    ]);
+
+    return new ModelCapabilityMatrix(models, {
+      multiMode,
+      sts,
+      tts,
+      stt,
+      transcribe,
+      batch,
+      translationSTT,
+      translationTTS,
+    });
   }
 }
@@ -11,8 +11,16 @@ import {
   PhoneNumberPurchase,
   PhonePurchaseStatus,
   PaginatedResultType,
+  BasePhoneNumberInfoSchema,
+  PhoneNumberPricingSchema,
+  PhoneNumberPurchaseSchema,
 } from 'wiil-core-js';
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { buildQueryString } from '../../client/query';
+import { sleep } from '../../client/abort';
+import { paginatedResultSchema } from '../../client/validation';
 
 /**
  * Options for searching available phone numbers.
@@ -66,6 +74,16 @@ export class TelephonyProviderResource {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<TelephonyProviderResource> {
+    return withResponse(this.http, (http) => new TelephonyProviderResource(http));
+  }
+
   // /**
   //  * Retrieves available regions for phone numbers by provider.
   //  *
@@ -96,6 +114,7 @@ export class TelephonyProviderResource {
    * Retrieves available phone numbers.
    *
    * @param options - Optional search filters
+   * @param requestOptions - Optional request options such as an abort signal
    * @returns Promise resolving to array of available phone numbers
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -117,23 +136,19 @@ export class TelephonyProviderResource {
    * ```
    */
   public async getPhoneNumbers(
-    options?: PhoneNumberSearchOptions
+    options?: PhoneNumberSearchOptions,
+    requestOptions?: RequestOptions
   ): Promise<PaginatedResultType<BasePhoneNumberInfo>> {
-    const queryParams = new URLSearchParams();
-
-    if (options?.areaCode) queryParams.append('areaCode', options.areaCode);
-    if (options?.contains) queryParams.append('contains', options.contains);
-    if (options?.postalCode) queryParams.append('postalCode', options.postalCode);
-
-    const query = queryParams.toString();
     return this.http.get<PaginatedResultType<BasePhoneNumberInfo>>(
-      `${this.resource_path}/numbers${query ? `?${query}` : ''}`
+      `${this.resource_path}/numbers${buildQueryString(options)}`,
+      { ...requestOptions, responseSchema: paginatedResultSchema(BasePhoneNumberInfoSchema) }
     );
   }
 
   /**
    * Retrieves pricing information for phone numbers.
    *
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to array of pricing information
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -148,9 +163,12 @@ export class TelephonyProviderResource {
    * });
    * ```
    */
-  public async getPricing(): Promise<PaginatedResultType<PhoneNumberPricing>> {
+  public async getPricing(
+    options?: RequestOptions
+  ): Promise<PaginatedResultType<PhoneNumberPricing>> {
     return this.http.get<PaginatedResultType<PhoneNumberPricing>>(
-      `${this.resource_path}/pricing`
+      `${this.resource_path}/pricing`,
+      { ...options, responseSchema: paginatedResultSchema(PhoneNumberPricingSchema) }
     );
   }
 
@@ -158,17 +176,20 @@ export class TelephonyProviderResource {
    * Purchases a phone number and polls until the purchase completes.
    *
    * @param data - Phone number purchase request data
+   * @param options - Optional request options such as an idempotency key or abort signal
    * @returns Promise resolving to the completed phone number purchase result
    *
    * @throws {@link WiilValidationError} - When input validation fails
    * @throws {@link WiilAPIError} - When the API returns an error
    * @throws {@link WiilNetworkError} - When network communication fails
+   * @throws {@link WiilAbortError} - When the signal is aborted
    * @throws {@link Error} - When polling times out before completion
    *
    * @remarks
    * This method initiates a phone number purchase and automatically polls
    * until the purchase reaches a terminal state (completed, failed, or cancelled).
    * The polling interval is 5 seconds with a maximum timeout of 2 minutes.
+   * Aborting `options.signal` stops polling; the purchase itself may still complete.
    *
    * @example
    * ```typescript
@@ -180,14 +201,17 @@ export class TelephonyProviderResource {
    * ```
    */
   public async purchase(
-    data: BusinessPhoneNumberPurchaseRequest
+    data: BusinessPhoneNumberPurchaseRequest,
+    options?: RequestOptions
   ): Promise<PhoneNumberPurchase> {
     const POLL_INTERVAL = 5000; // 5 seconds
     const POLL_TIMEOUT = 120000; // 2 minutes
 
     const initialResult = await this.http.post<BusinessPhoneNumberPurchaseRequest, PhoneNumberPurchase>(
       `${this.resource_path}/purchase`,
-      data
+      data,
+      undefined,
+      { ...options, responseSchema: PhoneNumberPurchaseSchema }
     );
 
     const terminalStates = [
@@ -202,10 +226,16 @@ export class TelephonyProviderResource {
 
     const startTime = Date.now();
 
+    const pollOptions: RequestOptions = {
+      signal: options?.signal,
+      timeout: options?.timeout,
+      headers: options?.headers,
+    };
+
     while (Date.now() - startTime < POLL_TIMEOUT) {
-      await this.sleep(POLL_INTERVAL);
+      await sleep(POLL_INTERVAL, options?.signal);
 
-      const status = await this.getPurchaseStatus(initialResult.id);
+      const status = await this.getPurchaseStatus(initialResult.id, pollOptions);
 
       if (terminalStates.includes(status.status as PhonePurchaseStatus)) {
         return status;
@@ -217,18 +247,11 @@ export class TelephonyProviderResource {
     );
   }
 
-  /**
-   * Utility method to sleep for a specified duration.
-   * @private
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   /**
    * Retrieves the status of a phone number purchase request.
    *
    * @param requestId - The purchase request ID returned from the purchase() method
+   * @param options - Optional request options such as an abort signal
    * @returns Promise resolving to the phone number purchase details
    *
    * @throws {@link WiilAPIError} - When the API returns an error
@@ -246,9 +269,13 @@ export class TelephonyProviderResource {
    * console.log('Purchase status:', status.status);
    * ```
    */
-  public async getPurchaseStatus(requestId: string): Promise<PhoneNumberPurchase> {
+  public async getPurchaseStatus(
+    requestId: string,
+    options?: RequestOptions
+  ): Promise<PhoneNumberPurchase> {
     return this.http.get<PhoneNumberPurchase>(
-      `${this.resource_path}/purchase-request/${requestId}`
+      `${this.resource_path}/purchase-request/${requestId}`,
+      { ...options, responseSchema: PhoneNumberPurchaseSchema }
     );
   }
 }
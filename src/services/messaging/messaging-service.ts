@@ -4,6 +4,10 @@
  */
 
 import { HttpClient } from '../../client/HttpClient';
+import { BatchOptions, BatchResult, runBatch } from '../../client/batch';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
+import { paginatedResultSchema } from '../../client/validation';
 import { WiilValidationError } from '../../errors/WiilError';
 import {
   BusinessCallRequest,
@@ -41,6 +45,16 @@ export class MessagingService {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<MessagingService> {
+    return withResponse(this.http, (http) => new MessagingService(http));
+  }
+
   /**
    * Requests an outbound AI-powered phone call.
    *
@@ -56,6 +70,7 @@ export class MessagingService {
    *   - `callingHours` - Optional permitted calling window for TCPA compliance
    *   - `maxRetries` - Optional retry attempts if call fails (0-5)
    *   - `scheduledAt` - Optional Unix timestamp (ms) for scheduled execution
+   * @param options - Optional request options such as an idempotency key
    *
    * @returns The created business call request record with assigned ID and status
    *
@@ -77,12 +92,14 @@ export class MessagingService {
    * ```
    */
   public async requestCall(
-    request: CreateCallRequest
+    request: CreateCallRequest,
+    options?: RequestOptions
   ): Promise<BusinessCallRequest> {
     const response = await this.http.post<CreateCallRequest, BusinessCallRequest>(
       CALL_REQUEST_RESOURCE_PATH,
       request,
-      CreateCallRequestSchema
+      CreateCallRequestSchema,
+      options
     );
 
     const parsed = BusinessCallRequestSchema.safeParse(response);
@@ -110,6 +127,7 @@ export class MessagingService {
    *   - `templateId` - Optional pre-defined SMS template ID
    *   - `variables` - Optional template variable substitutions (e.g., `{firstName: 'John'}`)
    *   - `scheduledAt` - Optional Unix timestamp (ms) for scheduled delivery
+   * @param options - Optional request options such as an idempotency key
    *
    * @returns The created SMS request record with assigned ID and delivery status
    *
@@ -125,12 +143,14 @@ export class MessagingService {
    * ```
    */
   public async sendSms(
-    request: CreateSmsRequest
+    request: CreateSmsRequest,
+    options?: RequestOptions
   ): Promise<SmsRequest> {
     const response = await this.http.post<CreateSmsRequest, SmsRequest>(
       SMS_REQUEST_RESOURCE_PATH,
       request,
-      CreateSmsRequestSchema
+      CreateSmsRequestSchema,
+      options
     );
 
     const parsed = SmsRequestSchema.safeParse(response);
@@ -163,6 +183,7 @@ export class MessagingService {
    *   - `variables` - Optional template variable substitutions
    *   - `attachments` - Optional file attachments (base64-encoded, max 25MB total)
    *   - `scheduledAt` - Optional Unix timestamp (ms) for scheduled delivery
+   * @param options - Optional request options such as an idempotency key
    *
    * @returns The created email request record with assigned ID and delivery status
    *
@@ -179,12 +200,14 @@ export class MessagingService {
    * ```
    */
   public async sendEmail(
-    request: CreateEmailRequest
+    request: CreateEmailRequest,
+    options?: RequestOptions
   ): Promise<EmailRequest> {
     const response = await this.http.post<CreateEmailRequest, EmailRequest>(
       EMAIL_REQUEST_RESOURCE_PATH,
       request,
-      CreateEmailRequestSchema
+      CreateEmailRequestSchema,
+      options
     );
 
     const parsed = EmailRequestSchema.safeParse(response);
@@ -205,6 +228,7 @@ export class MessagingService {
    * Useful for campaign launches, bulk notifications, or scheduled outreach programs.
    *
    * @param requests - Array of call request configurations (max 100 items)
+   * @param options - Optional request options such as an idempotency key
    *
    * @returns Paginated result containing created call request records
    *
@@ -220,7 +244,8 @@ export class MessagingService {
    * ```
    */
   public async requestCallBatch(
-    requests: CreateCallRequest[]
+    requests: CreateCallRequest[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<BusinessCallRequest>> {
     if (requests.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -241,7 +266,39 @@ export class MessagingService {
 
     return this.http.post<CreateCallRequest[], PaginatedResultType<BusinessCallRequest>>(
       `${CALL_REQUEST_RESOURCE_PATH}/batch`,
-      requests
+      requests,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(BusinessCallRequestSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link MessagingService.requestCallBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param requests - Array of call request configurations
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `requests`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await service.messaging.requestCallBatchChunked(requests);
+   * const retry = result.failures.map((failure) => requests[failure.index]);
+   * ```
+   */
+  public async requestCallBatchChunked(
+    requests: CreateCallRequest[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateCallRequest, BusinessCallRequest>> {
+    return runBatch(
+      requests,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateCallRequestSchema,
+        send: (chunk, chunkOptions) => this.requestCallBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 
@@ -252,6 +309,7 @@ export class MessagingService {
    * bulk notifications, marketing campaigns, or scheduled reminders.
    *
    * @param requests - Array of SMS request configurations (max 100 items)
+   * @param options - Optional request options such as an idempotency key
    *
    * @returns Paginated result containing created SMS request records
    *
@@ -267,7 +325,8 @@ export class MessagingService {
    * ```
    */
   public async sendSmsBatch(
-    requests: CreateSmsRequest[]
+    requests: CreateSmsRequest[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<SmsRequest>> {
     if (requests.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -288,7 +347,39 @@ export class MessagingService {
 
     return this.http.post<CreateSmsRequest[], PaginatedResultType<SmsRequest>>(
       `${SMS_REQUEST_RESOURCE_PATH}/batch`,
-      requests
+      requests,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(SmsRequestSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link MessagingService.sendSmsBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param requests - Array of SMS request configurations
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `requests`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await service.messaging.sendSmsBatchChunked(requests);
+   * const retry = result.failures.map((failure) => requests[failure.index]);
+   * ```
+   */
+  public async sendSmsBatchChunked(
+    requests: CreateSmsRequest[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateSmsRequest, SmsRequest>> {
+    return runBatch(
+      requests,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateSmsRequestSchema,
+        send: (chunk, chunkOptions) => this.sendSmsBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 
@@ -299,6 +390,7 @@ export class MessagingService {
    * bulk communications, newsletters, or transactional email campaigns.
    *
    * @param requests - Array of email request configurations (max 100 items)
+   * @param options - Optional request options such as an idempotency key
    *
    * @returns Paginated result containing created email request records
    *
@@ -314,7 +406,8 @@ export class MessagingService {
    * ```
    */
   public async sendEmailBatch(
-    requests: CreateEmailRequest[]
+    requests: CreateEmailRequest[],
+    options?: RequestOptions
   ): Promise<PaginatedResultType<EmailRequest>> {
     if (requests.length > BATCH_LIMIT) {
       throw new WiilValidationError(
@@ -335,7 +428,39 @@ export class MessagingService {
 
     return this.http.post<CreateEmailRequest[], PaginatedResultType<EmailRequest>>(
       `${EMAIL_REQUEST_RESOURCE_PATH}/batch`,
-      requests
+      requests,
+      undefined,
+      { ...options, responseSchema: paginatedResultSchema(EmailRequestSchema) }
+    );
+  }
+
+  /**
+   * Runs {@link MessagingService.sendEmailBatch} for any number of items, split into batch
+   * requests of up to 100 items.
+   *
+   * @param requests - Array of email request configurations
+   * @param options - Optional concurrency, progress, and request options
+   * @returns Promise resolving to the outcome of every item with its index in `requests`;
+   * failed items are reported instead of rejecting the call
+   *
+   * @example
+   * ```typescript
+   * const result = await service.messaging.sendEmailBatchChunked(requests);
+   * const retry = result.failures.map((failure) => requests[failure.index]);
+   * ```
+   */
+  public async sendEmailBatchChunked(
+    requests: CreateEmailRequest[],
+    options?: BatchOptions
+  ): Promise<BatchResult<CreateEmailRequest, EmailRequest>> {
+    return runBatch(
+      requests,
+      {
+        chunkSize: BATCH_LIMIT,
+        schema: CreateEmailRequestSchema,
+        send: (chunk, chunkOptions) => this.sendEmailBatch(chunk, chunkOptions),
+      },
+      options
     );
   }
 }
@@ -4,6 +4,8 @@
  */
 
 import { HttpClient } from '../../client/HttpClient';
+import { WithResponse, withResponse } from '../../client/response';
+import { RequestOptions } from '../../client/types';
 import { WiilValidationError } from '../../errors/WiilError';
 import {
   OttChatConnectionConfig,
@@ -32,14 +34,26 @@ export class OttService {
     this.http = http;
   }
 
+  /**
+   * Returns a view of this resource whose methods resolve to the data together
+   * with the response status, headers, metadata, and request ID.
+   *
+   * @returns Resource view resolving to {@link WiilResponse} objects
+   */
+  public withResponse(): WithResponse<OttService> {
+    return withResponse(this.http, (http) => new OttService(http));
+  }
+
   /**
    * Fetches chat connection configuration.
    *
    * @param request - Configuration request parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Chat connection configuration with WebSocket URL and tokens
    */
   public async getChatConnectionConfiguration(
-    request: GetOttConfigurationRequest
+    request: GetOttConfigurationRequest,
+    options?: RequestOptions
   ): Promise<OttChatConnectionConfig> {
     const requestParse = GetOttConfigurationRequestSchema.safeParse(request);
     if (!requestParse.success) {
@@ -52,7 +66,7 @@ export class OttService {
     const validatedRequest = requestParse.data;
     const path = this.buildConfigPath(CHAT_CONFIG_PATH, validatedRequest);
 
-    const response = await this.http.get<OttChatConnectionConfig>(path);
+    const response = await this.http.get<OttChatConnectionConfig>(path, options);
 
     const responseParse = OttChatConnectionConfigSchema.safeParse(response);
     if (!responseParse.success) {
@@ -69,10 +83,12 @@ export class OttService {
    * Fetches voice connection configuration.
    *
    * @param request - Configuration request parameters
+   * @param options - Optional request options such as an abort signal
    * @returns Voice connection configuration with channel tokens and identifiers
    */
   public async getVoiceConnectionConfiguration(
-    request: GetOttConfigurationRequest
+    request: GetOttConfigurationRequest,
+    options?: RequestOptions
   ): Promise<OttVoiceConnectionConfig> {
     const requestParse = GetOttConfigurationRequestSchema.safeParse(request);
     if (!requestParse.success) {
@@ -85,7 +101,7 @@ export class OttService {
     const validatedRequest = requestParse.data;
     const path = this.buildConfigPath(VOICE_CONFIG_PATH, validatedRequest);
 
-    const response = await this.http.get<OttVoiceConnectionConfig>(path);
+    const response = await this.http.get<OttVoiceConnectionConfig>(path, options);
 
     const responseParse = OttVoiceConnectionConfigSchema.safeParse(response);
     if (!responseParse.success) {
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Applies an agent stack plan.
+ * @module stacks/apply
+ */
+
+import {
+  CreateAgentConfiguration,
+  CreateDeploymentChannel,
+  CreateDeploymentConfiguration,
+  CreateInstructionConfiguration,
+  CreateTextKnowledgeSource,
+  UpdateAgentConfiguration,
+  UpdateDeploymentChannel,
+  UpdateDeploymentConfiguration,
+  UpdateInstructionConfiguration,
+} from 'wiil-core-js';
+import { WiilClient } from '../client/WiilClient';
+import { UpdateKnowledgeSource } from '../resources/service-mgt/knowledge-sources';
+import { desiredFields, knowledgeMetadata } from './plan';
+import { AgentStackAction, AgentStackPlan, AgentStackState } from './spec';
+
+/**
+ * Options for {@link applyAgentStack}.
+ */
+export interface ApplyAgentStackOptions {
+  /**
+   * Signal that aborts the remaining requests.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called after each action succeeds, with the ID of the resource it affected.
+   */
+  onAction?: (action: AgentStackAction, id: string) => void;
+}
+
+/**
+ * Result of applying an agent stack plan.
+ */
+export interface AgentStackApplyResult {
+  /**
+   * IDs of the resources that make up the stack after the plan was applied.
+   */
+  state: AgentStackState;
+
+  /**
+   * Actions that were performed, in order.
+   */
+  applied: AgentStackAction[];
+}
+
+/**
+ * Performs the actions of a plan, threading the IDs of created resources into
+ * the resources that depend on them.
+ *
+ * @param client - Client used to make the changes
+ * @param plan - Plan returned by {@link planAgentStack}
+ * @param options - Progress callback and request options
+ * @returns IDs of the stack's resources and the actions performed
+ *
+ * @throws {@link WiilValidationError} - When a payload fails validation
+ * @throws {@link WiilAPIError} - When the API returns an error
+ * @throws {@link WiilNetworkError} - When network communication fails
+ *
+ * @remarks
+ * Actions run one at a time and stop at the first error. Resources created
+ * before the error are kept; record them with `onAction`, or plan again with
+ * the new agent ID once the agent exists.
+ *
+ * @example
+ * ```typescript
+ * const plan = await planAgentStack(client, spec, { agentId: 'agent_123' });
+ * const { state } = await applyAgentStack(client, plan, {
+ *   onAction: (action, id) => console.log(`${action.type} ${action.resource} ${id}`)
+ * });
+ * console.log('Agent:', state.agentId);
+ * ```
+ */
+export async function applyAgentStack(
+  client: WiilClient,
+  plan: AgentStackPlan,
+  options: ApplyAgentStackOptions = {}
+): Promise<AgentStackApplyResult> {
+  const state: AgentStackState = {
+    ...plan.state,
+    knowledgeSourceIds: { ...plan.state.knowledgeSourceIds },
+    channelIds: { ...plan.state.channelIds },
+    deploymentIds: { ...plan.state.deploymentIds },
+  };
+  const applied: AgentStackAction[] = [];
+
+  for (const action of plan.actions) {
+    const id = await perform(client, plan, state, action, options.signal);
+    applied.push(action);
+    options.onAction?.(action, id);
+  }
+
+  return { state, applied };
+}
+
+/**
+ * Performs one action and records the affected resource's ID in the state.
+ *
+ * @param client - Client used to make the change
+ * @param plan - Plan being applied
+ * @param state - IDs known so far; updated in place
+ * @param action - Action to perform
+ * @param signal - Abort signal
+ * @returns ID of the affected resource
+ */
+async function perform(
+  client: WiilClient,
+  plan: AgentStackPlan,
+  state: AgentStackState,
+  action: AgentStackAction,
+  signal: AbortSignal | undefined
+): Promise<string> {
+  const requestOptions = { signal };
+
+  if (action.type === 'delete') {
+    const id = action.id as string;
+    if (action.resource === 'deployment') {
+      await client.deploymentConfigs.delete(id, requestOptions);
+    } else if (action.resource === 'knowledgeSource') {
+      await client.knowledgeSources.delete(id, requestOptions);
+    } else {
+      await client.deploymentChannels.delete(id, requestOptions);
+    }
+    return id;
+  }
+
+  const fields = desiredFields(action.resource, action.key, plan.spec, state);
+
+  if (action.type === 'update') {
+    const changed = Object.fromEntries((action.changes ?? []).map((field) => [field, fields[field]]));
+    const data = { id: action.id, ...changed };
+    switch (action.resource) {
+      case 'knowledgeSource': {
+        const metadata = await knowledgeMetadata(fields as CreateTextKnowledgeSource, plan.spec);
+        await client.knowledgeSources.update({ ...data, metadata } as UpdateKnowledgeSource, requestOptions);
+        break;
+      }
+      case 'instruction':
+        await client.instructionConfigs.update(data as UpdateInstructionConfiguration, requestOptions);
+        break;
+      case 'agent':
+        await client.agentConfigs.update(data as UpdateAgentConfiguration, requestOptions);
+        break;
+      case 'channel':
+        await client.deploymentChannels.update(data as UpdateDeploymentChannel, requestOptions);
+        break;
+      case 'deployment':
+        await client.deploymentConfigs.update(data as UpdateDeploymentConfiguration, requestOptions);
+        break;
+    }
+    return action.id as string;
+  }
+
+  switch (action.resource) {
+    case 'knowledgeSource': {
+      const source = fields as CreateTextKnowledgeSource;
+      const metadata = await knowledgeMetadata(source, plan.spec);
+      const created = await client.knowledgeSources.createText({ ...source, metadata }, requestOptions);
+      return (state.knowledgeSourceIds[action.key] = created.id);
+    }
+    case 'instruction': {
+      const created = await client.instructionConfigs.create(fields as CreateInstructionConfiguration, requestOptions);
+      return (state.instructionId = created.id);
+    }
+    case 'agent': {
+      const created = await client.agentConfigs.create(fields as CreateAgentConfiguration, requestOptions);
+      return (state.agentId = created.id);
+    }
+    case 'channel': {
+      const created = await client.deploymentChannels.create(fields as CreateDeploymentChannel, requestOptions);
+      return (state.channelIds[action.key] = created.id);
+    }
+    case 'deployment': {
+      const created = await client.deploymentConfigs.create(fields as CreateDeploymentConfiguration, requestOptions);
+      return (state.deploymentIds[action.key] = created.id);
+    }
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Tests for agent bundle export and import.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import nock from 'nock';
+import { DeploymentProvisioningType, DeploymentStatus, DeploymentType } from 'wiil-core-js';
+import { WiilClient } from '../client/WiilClient';
+import { WiilConfigurationError, WiilConflictError, WiilValidationError } from '../errors/WiilError';
+import { AgentBundle, exportAgent, importAgent } from './bundle';
+
+const BASE_URL = 'https://api.wiil.io/v1';
+const API_KEY = 'test-api-key';
+
+const envelope = (data: unknown) => ({
+  success: true,
+  data,
+  metadata: { timestamp: Date.now(), version: 'v1' },
+});
+
+const page = (data: unknown[]) =>
+  envelope({
+    data,
+    meta: { page: 1, pageSize: 20, totalCount: data.length, totalPages: 1, hasNextPage: false, hasPreviousPage: false },
+  });
+
+const timestamps = { createdAt: 1700000000000, updatedAt: 1700000000000 };
+
+const instruction = {
+  instructionName: 'customer-support-agent',
+  role: 'Customer Support Specialist',
+  introductionMessage: 'Hello! How can I help you today?',
+  instructions: 'You are a helpful customer support agent.',
+  guardrails: 'Never share sensitive customer data.',
+  supportedServices: [],
+};
+
+const agent = { name: 'Support Agent', modelId: 'model_123' };
+
+const channel = {
+  deploymentType: DeploymentType.CALLS,
+  channelName: 'Support Line',
+  recordingEnabled: true,
+  configuration: { phoneConfigurationId: 'phone_staging' },
+};
+
+const liveChannel = { id: 'channel_staging', ...channel, channelIdentifier: '+12125551234', status: 'active', ...timestamps };
+
+const deployment = {
+  deploymentName: 'Phone Support',
+  isActive: true,
+  deploymentStatus: DeploymentStatus.PENDING,
+  provisioningType: DeploymentProvisioningType.DIRECT,
+};
+
+const bundle: AgentBundle = {
+  format: 'wiil.agent-bundle',
+  version: 1,
+  exportedAt: '2030-01-01T00:00:00.000Z',
+  instruction,
+  agent,
+  knowledge: ['Product FAQ'],
+  channels: [{ key: 'Support Line', ...channel }],
+  deployments: [{ channel: 'Support Line', ...deployment }],
+  source: {
+    agentId: 'agent_staging',
+    instructionId: 'instr_staging',
+    knowledgeSourceIds: { 'Product FAQ': 'ks_staging' },
+    channelIds: { 'Support Line': 'channel_staging' },
+    deploymentIds: { 'Support Line': 'deploy_staging' },
+  },
+};
+
+describe('agent bundles', () => {
+  let client: WiilClient;
+
+  beforeEach(() => {
+    client = new WiilClient({
+      apiKey: API_KEY,
+      baseUrl: BASE_URL,
+    });
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  describe('exportAgent', () => {
+    it('should strip IDs and make references symbolic', async () => {
+      nock(BASE_URL)
+        .get('/agent-configurations/agent_staging/graph')
+        .reply(
+          200,
+          envelope({
+            agent: { id: 'agent_staging', ...agent, instructionConfigurationId: 'instr_staging', ...timestamps },
+            instruction: { id: 'instr_staging', ...instruction, knowledgeSourceIds: ['ks_staging'], ...timestamps },
+            knowledgeSources: [{ id: 'ks_staging', name: 'Product FAQ', ...timestamps }],
+            deployments: [
+              {
+                id: 'deploy_staging',
+                projectId: 'proj_staging',
+                deploymentChannelId: 'channel_staging',
+                agentConfigurationId: 'agent_staging',
+                instructionConfigurationId: 'instr_staging',
+                ...deployment,
+                ...timestamps,
+              },
+            ],
+          })
+        );
+      nock(BASE_URL)
+        .get('/deployment-channels/channel_staging')
+        .reply(200, envelope(liveChannel));
+
+      const exported = await exportAgent(client, 'agent_staging');
+
+      expect({ ...exported, exportedAt: bundle.exportedAt }).toEqual(bundle);
+    });
+
+    it('should reject agents without an instruction', async () => {
+      nock(BASE_URL)
+        .get('/agent-configurations/agent_staging/graph')
+        .reply(200, envelope({ agent: { id: 'agent_staging', ...agent, ...timestamps }, knowledgeSources: [], deployments: [] }));
+
+      await expect(exportAgent(client, 'agent_staging')).rejects.toThrow(WiilConfigurationError);
+    });
+  });
+
+  describe('importAgent', () => {
+    it('should plan without making changes on a dry run', async () => {
+      nock(BASE_URL).get('/agent-configurations').query(true).reply(200, page([]));
+      nock(BASE_URL).get('/knowledge-sources').query(true).times(2).reply(200, page([]));
+      nock(BASE_URL).get('/deployment-channels').query(true).reply(200, page([]));
+
+      const report = await importAgent(client, bundle, {
+        projectId: 'proj_production',
+        channels: { 'Support Line': { channelIdentifier: '+12125550100' } },
+        dryRun: true,
+      });
+
+      expect(report.status).toBe('planned');
+      expect(report.missingKnowledge).toEqual(['Product FAQ']);
+      expect(report.plan?.actions.map((action) => `${action.type} ${action.resource}`)).toEqual([
+        'create instruction',
+        'create agent',
+        'create channel',
+        'create deployment',
+      ]);
+      expect(report.idMap).toEqual({});
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should recreate the agent with remapped IDs and channel overrides', async () => {
+      nock(BASE_URL).get('/agent-configurations').query(true).reply(200, page([]));
+      nock(BASE_URL)
+        .get('/knowledge-sources')
+        .query(true)
+        .times(2)
+        .reply(200, page([{ id: 'ks_production', name: 'Product FAQ', ...timestamps }]));
+      nock(BASE_URL).get('/deployment-channels').query(true).reply(200, page([]));
+      nock(BASE_URL)
+        .post('/instruction-configurations', (body) => body.knowledgeSourceIds[0] === 'ks_production')
+        .reply(200, envelope({ id: 'instr_production', ...instruction, ...timestamps }));
+      nock(BASE_URL)
+        .post('/agent-configurations', (body) => body.instructionConfigurationId === 'instr_production')
+        .reply(200, envelope({ id: 'agent_production', ...agent, ...timestamps }));
+      nock(BASE_URL)
+        .post(
+          '/deployment-channels',
+          (body) =>
+            body.channelIdentifier === '+12125550100' && body.configuration.phoneConfigurationId === 'phone_production'
+        )
+        .reply(200, envelope({ id: 'channel_production', ...channel, channelIdentifier: '+12125550100', ...timestamps }));
+      nock(BASE_URL)
+        .post('/deployment-configurations', (body) => body.projectId === 'proj_production')
+        .reply(200, envelope({ id: 'deploy_production', ...deployment, ...timestamps }));
+
+      const report = await importAgent(client, bundle, {
+        projectId: 'proj_production',
+        channels: {
+          'Support Line': { channelIdentifier: '+12125550100', configuration: { phoneConfigurationId: 'phone_production' } },
+        },
+      });
+
+      expect(report.status).toBe('applied');
+      expect(report.missingKnowledge).toEqual([]);
+      expect(report.idMap).toEqual({
+        agent_staging: 'agent_production',
+        instr_staging: 'instr_production',
+        ks_staging: 'ks_production',
+        channel_staging: 'channel_production',
+        deploy_staging: 'deploy_production',
+      });
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should fail or skip when an agent with the same name exists', async () => {
+      nock(BASE_URL)
+        .get('/agent-configurations')
+        .query(true)
+        .times(2)
+        .reply(200, page([{ id: 'agent_production', ...agent, ...timestamps }]));
+
+      const options = { projectId: 'proj_production', channels: { 'Support Line': { channelIdentifier: '+12125550100' } } };
+      await expect(importAgent(client, bundle, options)).rejects.toThrow(WiilConflictError);
+
+      const report = await importAgent(client, bundle, { ...options, conflict: 'skip' });
+      expect(report).toEqual({ status: 'skipped', existingAgentId: 'agent_production', missingKnowledge: [], idMap: {} });
+    });
+
+    it('should reject unsupported bundles', async () => {
+      await expect(
+        importAgent(client, { ...bundle, version: 2 }, { projectId: 'proj_production' })
+      ).rejects.toThrow(WiilValidationError);
+      await expect(
+        importAgent(client, bundle, { projectId: 'proj_production', channels: { web: {} } })
+      ).rejects.toThrow(WiilValidationError);
+      await expect(importAgent(client, bundle, { projectId: 'proj_production' })).rejects.toThrow(
+        'Channels need a channelIdentifier override for the target project: Support Line'
+      );
+    });
+  });
+});
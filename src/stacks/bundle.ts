@@ -0,0 +1,465 @@
+/**
+ * @fileoverview Portable agent bundles for copying agents between projects.
+ * @module stacks/bundle
+ */
+
+import { CreateDeploymentChannel } from 'wiil-core-js';
+import { WiilClient } from '../client/WiilClient';
+import { WiilConfigurationError, WiilConflictError, WiilValidationError } from '../errors/WiilError';
+import { applyAgentStack } from './apply';
+import { planAgentStack, readAgentStack } from './plan';
+import {
+  AgentStackChannelSpec,
+  AgentStackDeploymentSpec,
+  AgentStackPlan,
+  AgentStackSpec,
+  AgentStackState,
+} from './spec';
+
+/**
+ * Format identifier written to every agent bundle.
+ */
+export const AGENT_BUNDLE_FORMAT = 'wiil.agent-bundle';
+
+/**
+ * Latest agent bundle version this SDK reads and writes.
+ */
+export const AGENT_BUNDLE_VERSION = 1;
+
+/**
+ * Fields set by the platform, which are not copied into bundles.
+ *
+ * @internal
+ */
+const SERVER_FIELDS = ['id', 'createdAt', 'updatedAt', 'projectId', 'organizationId'];
+
+/**
+ * Channel fields copied into bundles. The channel identifier and status
+ * fields belong to one environment, so they are left out.
+ *
+ * @internal
+ */
+const PORTABLE_CHANNEL_FIELDS = ['deploymentType', 'channelName', 'recordingEnabled', 'configuration'];
+
+/**
+ * Channel in an agent bundle.
+ *
+ * @remarks
+ * Exported channels have no `channelIdentifier`, such as a phone number or
+ * website URL. Set it for the target environment with
+ * {@link ImportAgentOptions.channels}.
+ */
+export type AgentBundleChannel = Omit<AgentStackChannelSpec, 'channelIdentifier'> &
+  Partial<Pick<AgentStackChannelSpec, 'channelIdentifier'>>;
+
+/**
+ * Portable copy of an agent with its instruction, knowledge source links,
+ * channels, and deployments.
+ *
+ * @remarks
+ * Bundles contain no IDs of the copied resources: channels are referred to by
+ * key and knowledge sources by name. The IDs in the source project are kept in
+ * `source` so that an import can report how they were remapped. Bundles are
+ * plain JSON.
+ */
+export interface AgentBundle {
+  /**
+   * Always {@link AGENT_BUNDLE_FORMAT}.
+   */
+  format: typeof AGENT_BUNDLE_FORMAT;
+
+  /**
+   * Bundle version.
+   */
+  version: number;
+
+  /**
+   * When the bundle was exported, as an ISO 8601 timestamp.
+   */
+  exportedAt: string;
+
+  /**
+   * Instruction configuration.
+   */
+  instruction: AgentStackSpec['instruction'];
+
+  /**
+   * Agent configuration.
+   */
+  agent: AgentStackSpec['agent'];
+
+  /**
+   * Names of the knowledge sources linked to the instruction.
+   */
+  knowledge: string[];
+
+  /**
+   * Channels the agent is deployed to, keyed by channel name.
+   */
+  channels: AgentBundleChannel[];
+
+  /**
+   * Deployments of the agent.
+   */
+  deployments: AgentStackDeploymentSpec[];
+
+  /**
+   * IDs of the exported resources in the source project.
+   */
+  source: AgentStackState;
+}
+
+/**
+ * How {@link importAgent} handles an agent with the same name in the target project.
+ *
+ * - `fail`: throw a {@link WiilConflictError}
+ * - `update`: update the existing agent to match the bundle
+ * - `skip`: leave the existing agent unchanged
+ */
+export type AgentImportConflict = 'fail' | 'update' | 'skip';
+
+/**
+ * Options for {@link importAgent}.
+ */
+export interface ImportAgentOptions {
+  /**
+   * Project to import into.
+   */
+  projectId: string;
+
+  /**
+   * How to handle an agent with the same name in the target project.
+   *
+   * @defaultValue 'fail'
+   */
+  conflict?: AgentImportConflict;
+
+  /**
+   * Plan the import without making changes.
+   *
+   * @defaultValue false
+   */
+  dryRun?: boolean;
+
+  /**
+   * Channel fields to replace, by channel key, such as a different phone
+   * number or phone configuration in the target environment. Every channel
+   * needs a `channelIdentifier`, because exported bundles do not include one.
+   */
+  channels?: Record<string, Partial<CreateDeploymentChannel>>;
+
+  /**
+   * Signal that aborts the remaining requests.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome of {@link importAgent}.
+ */
+export interface AgentImportReport {
+  /**
+   * `planned` for dry runs, `applied` when changes were made (or none were
+   * needed), and `skipped` when an agent with the same name exists and
+   * `conflict` is `skip`.
+   */
+  status: 'planned' | 'applied' | 'skipped';
+
+  /**
+   * Agent with the same name that already existed in the target project.
+   */
+  existingAgentId?: string;
+
+  /**
+   * Changes the import makes, or made. Not set when skipped.
+   */
+  plan?: AgentStackPlan;
+
+  /**
+   * Knowledge sources in the bundle with no source of the same name in the
+   * target project. They are not linked.
+   */
+  missingKnowledge: string[];
+
+  /**
+   * IDs of the imported resources in the target project. Only IDs that are
+   * already known are set on dry runs.
+   */
+  state?: AgentStackState;
+
+  /**
+   * Target IDs by source ID, for every resource whose target ID is known.
+   */
+  idMap: Record<string, string>;
+}
+
+/**
+ * Exports an agent as a portable bundle.
+ *
+ * @param client - Client scoped to the source project
+ * @param agentId - Agent configuration ID
+ * @param options - Request options
+ * @returns Bundle to pass to {@link importAgent}
+ *
+ * @throws {@link WiilConfigurationError} - When the agent has no instruction configuration
+ * @throws {@link WiilAPIError} - When the agent is not found or the API returns an error
+ * @throws {@link WiilNetworkError} - When network communication fails
+ *
+ * @remarks
+ * Knowledge sources are exported by name only, because their content cannot
+ * be read back through the API. Create them in the target project before
+ * importing. Channels are exported without their identifiers and status.
+ *
+ * @example
+ * ```typescript
+ * const bundle = await exportAgent(client.forProject('proj_staging'), 'agent_123');
+ * await writeFile('support-agent.json', JSON.stringify(bundle, null, 2));
+ * ```
+ */
+export async function exportAgent(
+  client: WiilClient,
+  agentId: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<AgentBundle> {
+  const { graph, channels } = await readAgentStack(client, agentId, options.signal);
+  if (!graph.instruction) {
+    throw new WiilConfigurationError(
+      `Agent ${agentId} has no instruction configuration; link one before exporting the agent`
+    );
+  }
+  const source: AgentStackState = {
+    agentId: graph.agent.id,
+    instructionId: graph.instruction.id,
+    knowledgeSourceIds: {},
+    channelIds: {},
+    deploymentIds: {},
+  };
+
+  for (const knowledgeSource of graph.knowledgeSources) {
+    source.knowledgeSourceIds[knowledgeSource.name] = knowledgeSource.id;
+  }
+
+  const channelSpecs: AgentBundleChannel[] = [];
+  const deploymentSpecs: AgentStackDeploymentSpec[] = [];
+  graph.deployments.forEach((deployment: Record<string, unknown> & { id: string }, index: number) => {
+    const channel = channels[index];
+    let key = channel.channelName;
+    for (let suffix = 2; source.channelIds[key] !== undefined; suffix++) {
+      key = `${channel.channelName}-${suffix}`;
+    }
+    source.channelIds[key] = channel.id;
+    source.deploymentIds[key] = deployment.id;
+    channelSpecs.push({ key, ...pick(channel, PORTABLE_CHANNEL_FIELDS) } as AgentBundleChannel);
+    deploymentSpecs.push({
+      channel: key,
+      ...strip(deployment, ['deploymentChannelId', 'agentConfigurationId', 'instructionConfigurationId']),
+    } as AgentStackDeploymentSpec);
+  });
+
+  return {
+    format: AGENT_BUNDLE_FORMAT,
+    version: AGENT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    instruction: strip(graph.instruction, ['knowledgeSourceIds']) as AgentStackSpec['instruction'],
+    agent: strip(graph.agent, ['instructionConfigurationId']) as AgentStackSpec['agent'],
+    knowledge: Object.keys(source.knowledgeSourceIds),
+    channels: channelSpecs,
+    deployments: deploymentSpecs,
+    source,
+  };
+}
+
+/**
+ * Recreates an exported agent in another project, mapping its references to
+ * the new resources.
+ *
+ * @param client - Client for the target environment
+ * @param bundle - Bundle returned by {@link exportAgent}
+ * @param options - Target project, conflict handling, and dry-run mode
+ * @returns Report of what was planned or changed
+ *
+ * @throws {@link WiilValidationError} - When the bundle is not a supported agent bundle, a channel
+ * override names an unknown channel, or a channel has no identifier
+ * @throws {@link WiilConflictError} - When an agent with the same name exists and `conflict` is `fail`
+ * @throws {@link WiilAPIError} - When the API returns an error
+ * @throws {@link WiilNetworkError} - When network communication fails
+ *
+ * @remarks
+ * Knowledge sources are linked by name to sources in the target project;
+ * names with no match are listed in `missingKnowledge`. The import is planned
+ * and applied with {@link planAgentStack} and {@link applyAgentStack}, so
+ * importing the same bundle again only applies what changed.
+ *
+ * @example
+ * ```typescript
+ * const report = await importAgent(client, bundle, {
+ *   projectId: 'proj_production',
+ *   conflict: 'update',
+ *   channels: { 'Support Line': { channelIdentifier: '+12125550100' } },
+ *   dryRun: true
+ * });
+ * console.log(describeAgentStackPlan(report.plan!));
+ * ```
+ */
+export async function importAgent(
+  client: WiilClient,
+  bundle: AgentBundle,
+  options: ImportAgentOptions
+): Promise<AgentImportReport> {
+  validateBundle(bundle, options);
+
+  const target = client.forProject(options.projectId);
+  const requestOptions = { signal: options.signal };
+  const conflict = options.conflict ?? 'fail';
+
+  const agents = await target.agentConfigs.listAll(undefined, undefined, requestOptions);
+  const existing = agents.find((agent) => agent.name === bundle.agent.name);
+  if (existing && conflict === 'fail') {
+    throw new WiilConflictError(
+      `Agent "${bundle.agent.name}" already exists in project ${options.projectId} (${existing.id})`,
+      undefined,
+      'AGENT_EXISTS',
+      { agentId: existing.id }
+    );
+  }
+  if (existing && conflict === 'skip') {
+    return { status: 'skipped', existingAgentId: existing.id, missingKnowledge: [], idMap: {} };
+  }
+
+  const knowledgeSourceIds: Record<string, string> = {};
+  if (bundle.knowledge.length > 0) {
+    for (const knowledgeSource of await target.knowledgeSources.listAll(undefined, undefined, requestOptions)) {
+      knowledgeSourceIds[knowledgeSource.name] ??= knowledgeSource.id;
+    }
+  }
+  const missingKnowledge = bundle.knowledge.filter((name) => knowledgeSourceIds[name] === undefined);
+
+  const spec: AgentStackSpec = {
+    projectId: options.projectId,
+    knowledgeSourceIds: bundle.knowledge
+      .map((name) => knowledgeSourceIds[name])
+      .filter((id): id is string => id !== undefined),
+    instruction: bundle.instruction,
+    agent: bundle.agent,
+    channels: bundle.channels.map(
+      (channel) => ({ ...channel, ...options.channels?.[channel.key] }) as AgentStackChannelSpec
+    ),
+    deployments: bundle.deployments,
+  };
+
+  const plan = await planAgentStack(target, spec, { agentId: existing?.id, signal: options.signal });
+  if (options.dryRun) {
+    return {
+      status: 'planned',
+      existingAgentId: existing?.id,
+      plan,
+      missingKnowledge,
+      state: plan.state,
+      idMap: mapIds(bundle, plan.state, knowledgeSourceIds),
+    };
+  }
+
+  const { state } = await applyAgentStack(target, plan, { signal: options.signal });
+  return {
+    status: 'applied',
+    existingAgentId: existing?.id,
+    plan,
+    missingKnowledge,
+    state,
+    idMap: mapIds(bundle, state, knowledgeSourceIds),
+  };
+}
+
+/**
+ * Checks that a bundle can be imported with the given options.
+ *
+ * @param bundle - Bundle to check
+ * @param options - Import options
+ *
+ * @throws {@link WiilValidationError} - When the bundle format or version is not supported, a channel override
+ * is unknown, or a channel has no identifier
+ */
+function validateBundle(bundle: AgentBundle, options: ImportAgentOptions): void {
+  if (bundle?.format !== AGENT_BUNDLE_FORMAT) {
+    throw new WiilValidationError(`Not an agent bundle: expected format "${AGENT_BUNDLE_FORMAT}"`);
+  }
+  if (bundle.version > AGENT_BUNDLE_VERSION) {
+    throw new WiilValidationError(
+      `Agent bundle version ${bundle.version} is newer than this SDK supports (${AGENT_BUNDLE_VERSION})`
+    );
+  }
+
+  const keys = bundle.channels.map((channel) => channel.key);
+  const unknown = Object.keys(options.channels ?? {}).filter((key) => !keys.includes(key));
+  if (unknown.length > 0) {
+    throw new WiilValidationError(`Channel overrides name unknown channels: ${unknown.join(', ')}`, unknown);
+  }
+
+  const unidentified = bundle.channels
+    .filter((channel) => !(options.channels?.[channel.key]?.channelIdentifier ?? channel.channelIdentifier))
+    .map((channel) => channel.key);
+  if (unidentified.length > 0) {
+    throw new WiilValidationError(
+      `Channels need a channelIdentifier override for the target project: ${unidentified.join(', ')}`,
+      unidentified
+    );
+  }
+}
+
+/**
+ * Pairs the source IDs recorded in a bundle with the IDs in the target project.
+ *
+ * @param bundle - Imported bundle
+ * @param state - IDs in the target project
+ * @param knowledgeSourceIds - Target knowledge source IDs by name
+ * @returns Target IDs by source ID
+ */
+function mapIds(
+  bundle: AgentBundle,
+  state: AgentStackState,
+  knowledgeSourceIds: Record<string, string>
+): Record<string, string> {
+  const pairs: [string | undefined, string | undefined][] = [
+    [bundle.source.agentId, state.agentId],
+    [bundle.source.instructionId, state.instructionId],
+    ...Object.entries(bundle.source.knowledgeSourceIds).map(
+      ([name, id]): [string, string | undefined] => [id, knowledgeSourceIds[name]]
+    ),
+    ...Object.entries(bundle.source.channelIds).map(
+      ([key, id]): [string, string | undefined] => [id, state.channelIds[key]]
+    ),
+    ...Object.entries(bundle.source.deploymentIds).map(
+      ([key, id]): [string, string | undefined] => [id, state.deploymentIds[key]]
+    ),
+  ];
+  return Object.fromEntries(pairs.filter((pair): pair is [string, string] => !!pair[0] && !!pair[1]));
+}
+
+/**
+ * Copies the given fields of a resource that have a value.
+ *
+ * @param resource - Live resource
+ * @param fields - Fields to copy
+ * @returns Copy with only the given fields
+ */
+function pick(resource: object, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(resource).filter(([field, value]) => fields.includes(field) && value !== undefined && value !== null)
+  );
+}
+
+/**
+ * Copies a resource without platform-set fields, references, and empty values.
+ *
+ * @param resource - Live resource
+ * @param references - Fields holding IDs of other resources
+ * @returns Portable copy of the resource
+ */
+function strip(resource: object, references: string[] = []): Record<string, unknown> {
+  const omitted = [...SERVER_FIELDS, ...references];
+  return Object.fromEntries(
+    Object.entries(resource).filter(
+      ([field, value]) => !omitted.includes(field) && value !== undefined && value !== null
+    )
+  );
+}
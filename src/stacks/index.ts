@@ -0,0 +1,10 @@
+/**
+ * @fileoverview Declarative agent stacks: diff a spec against live state, apply the changes, and copy agents between projects.
+ * @module stacks
+ */
+
+export * from './spec';
+export { planAgentStack, describeAgentStackPlan } from './plan';
+export type { PlanAgentStackOptions } from './plan';
+export * from './apply';
+export * from './bundle';
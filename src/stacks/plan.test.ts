@@ -0,0 +1,410 @@
+/**
+ * @fileoverview Tests for agent stack planning and apply.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import nock from 'nock';
+import {
+  AssistantType,
+  BusinessSupportServices,
+  DeploymentProvisioningType,
+  DeploymentStatus,
+  DeploymentType,
+} from 'wiil-core-js';
+import { WiilClient } from '../client/WiilClient';
+import { WiilConfigurationError, WiilValidationError } from '../errors/WiilError';
+import { AgentStackSpec } from './spec';
+import { describeAgentStackPlan, planAgentStack } from './plan';
+import { applyAgentStack } from './apply';
+
+const BASE_URL = 'https://api.wiil.io/v1';
+const API_KEY = 'test-api-key';
+
+const envelope = (data: unknown) => ({
+  success: true,
+  data,
+  metadata: { timestamp: Date.now(), version: 'v1' },
+});
+
+const page = (data: unknown[]) =>
+  envelope({
+    data,
+    meta: { page: 1, pageSize: 100, totalCount: data.length, totalPages: 1, hasNextPage: false, hasPreviousPage: false },
+  });
+
+const faq = 'x'.repeat(1000);
+
+const stackMetadata = (content: string) => ({
+  stackInstruction: 'customer-support-agent',
+  stackHash: createHash('sha256').update(content).digest('hex'),
+});
+
+const instruction = {
+  instructionName: 'customer-support-agent',
+  role: 'Customer Support Specialist',
+  introductionMessage: 'Hello! How can I help you today?',
+  instructions: 'You are a helpful customer support agent.',
+  guardrails: 'Never share sensitive customer data.',
+  supportedServices: [BusinessSupportServices.APPOINTMENT_MANAGEMENT],
+};
+
+const webChannel = {
+  deploymentType: DeploymentType.WEB,
+  channelName: 'Website Chat',
+  recordingEnabled: false,
+  channelIdentifier: 'https://example.com',
+  configuration: {},
+};
+
+const spec: AgentStackSpec = {
+  projectId: 'proj_123',
+  knowledge: [{ name: 'Product FAQ', content: faq }],
+  instruction,
+  agent: { name: 'Support Agent', modelId: 'model_123', assistantType: AssistantType.GENERAL },
+  channels: [{ key: 'web', ...webChannel }],
+  deployments: [
+    {
+      channel: 'web',
+      deploymentName: 'Website Support',
+      isActive: true,
+      deploymentStatus: DeploymentStatus.PENDING,
+      provisioningType: DeploymentProvisioningType.DIRECT,
+    },
+  ],
+};
+
+const timestamps = { createdAt: 1700000000000, updatedAt: 1700000000000 };
+
+const liveGraph = {
+  agent: {
+    id: 'agent_1',
+    name: 'Support Agent',
+    modelId: 'model_123',
+    assistantType: AssistantType.GENERAL,
+    instructionConfigurationId: 'instr_1',
+    ...timestamps,
+  },
+  instruction: { id: 'instr_1', ...instruction, knowledgeSourceIds: ['ks_1'], ...timestamps },
+  knowledgeSources: [{ id: 'ks_1', name: 'Product FAQ', metadata: stackMetadata(faq), ...timestamps }],
+  deployments: [
+    {
+      id: 'deploy_1',
+      projectId: 'proj_123',
+      deploymentChannelId: 'channel_1',
+      agentConfigurationId: 'agent_1',
+      instructionConfigurationId: 'instr_1',
+      deploymentName: 'Website Support',
+      isActive: true,
+      deploymentStatus: DeploymentStatus.PENDING,
+      provisioningType: DeploymentProvisioningType.DIRECT,
+      ...timestamps,
+    },
+  ],
+};
+
+describe('agent stacks', () => {
+  let client: WiilClient;
+
+  beforeEach(() => {
+    client = new WiilClient({
+      apiKey: API_KEY,
+      baseUrl: BASE_URL,
+    });
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  const mockChannels = (channels: unknown[] = []) =>
+    nock(BASE_URL)
+      .get('/deployment-channels')
+      .query((query) => query.deploymentType === DeploymentType.WEB)
+      .reply(200, page(channels));
+
+  const mockKnowledge = (sources: unknown[] = []) =>
+    nock(BASE_URL).get('/knowledge-sources').query(true).reply(200, page(sources));
+
+  const mockDeployments = (deployments: unknown[] = liveGraph.deployments) =>
+    nock(BASE_URL).get('/deployment-configurations').query(true).reply(200, page(deployments));
+
+  describe('planAgentStack', () => {
+    it('should plan every resource as a create when no agent is given', async () => {
+      mockChannels();
+      mockKnowledge();
+
+      const plan = await planAgentStack(client, spec);
+
+      expect(plan.actions.map((action) => `${action.type} ${action.resource}`)).toEqual([
+        'create knowledgeSource',
+        'create instruction',
+        'create agent',
+        'create channel',
+        'create deployment',
+      ]);
+      expect(plan.warnings).toEqual([]);
+    });
+
+    it('should report no changes when live state matches the spec', async () => {
+      nock(BASE_URL).get('/agent-configurations/agent_1/graph').reply(200, envelope(liveGraph));
+      nock(BASE_URL).get('/deployment-channels/channel_1').reply(200, envelope({ id: 'channel_1', ...webChannel, ...timestamps }));
+      mockChannels([{ id: 'channel_1', ...webChannel, ...timestamps }]);
+      mockKnowledge(liveGraph.knowledgeSources);
+      mockDeployments();
+
+      const plan = await planAgentStack(client, spec, { agentId: 'agent_1' });
+
+      expect(plan.actions).toEqual([]);
+      expect(plan.state).toEqual({
+        agentId: 'agent_1',
+        instructionId: 'instr_1',
+        knowledgeSourceIds: { 'Product FAQ': 'ks_1' },
+        channelIds: { web: 'channel_1' },
+        deploymentIds: { web: 'deploy_1' },
+      });
+      expect(describeAgentStackPlan(plan)).toBe('No changes');
+    });
+
+    it('should update changed fields and replace channels that no longer match', async () => {
+      nock(BASE_URL).get('/agent-configurations/agent_1/graph').reply(200, envelope(liveGraph));
+      nock(BASE_URL)
+        .get('/deployment-channels/channel_1')
+        .reply(200, envelope({ id: 'channel_1', ...webChannel, channelIdentifier: 'https://old.example.com', ...timestamps }));
+      mockChannels([{ id: 'channel_1', ...webChannel, channelIdentifier: 'https://old.example.com', ...timestamps }]);
+      mockKnowledge(liveGraph.knowledgeSources);
+      mockDeployments();
+
+      const plan = await planAgentStack(
+        client,
+        { ...spec, knowledge: [], agent: { ...spec.agent, modelId: 'model_456' } },
+        { agentId: 'agent_1' }
+      );
+
+      expect(plan.actions).toEqual([
+        { type: 'delete', resource: 'deployment', key: 'Website Chat', id: 'deploy_1' },
+        { type: 'delete', resource: 'channel', key: 'Website Chat', id: 'channel_1' },
+        { type: 'update', resource: 'instruction', key: 'customer-support-agent', id: 'instr_1', changes: ['knowledgeSourceIds'] },
+        { type: 'update', resource: 'agent', key: 'Support Agent', id: 'agent_1', changes: ['modelId'] },
+        { type: 'create', resource: 'channel', key: 'web' },
+        { type: 'create', resource: 'deployment', key: 'web' },
+        { type: 'delete', resource: 'knowledgeSource', key: 'Product FAQ', id: 'ks_1' },
+      ]);
+      expect(plan.warnings).toEqual([]);
+    });
+
+    it('should reuse a matching channel in the project when no agent is given', async () => {
+      mockChannels([
+        { id: 'channel_other', ...webChannel, channelIdentifier: 'https://other.example.com', ...timestamps },
+        { id: 'channel_9', ...webChannel, channelName: 'Old Chat', ...timestamps },
+      ]);
+      mockKnowledge();
+      mockDeployments([]);
+
+      const plan = await planAgentStack(client, spec);
+
+      expect(plan.state.channelIds).toEqual({ web: 'channel_9' });
+      expect(plan.actions.map((action) => `${action.type} ${action.resource}`)).toEqual([
+        'create knowledgeSource',
+        'create instruction',
+        'create agent',
+        'update channel',
+        'create deployment',
+      ]);
+      expect(plan.actions[3].changes).toEqual(['channelName']);
+    });
+
+    it('should update changed knowledge and only delete sources the stack created', async () => {
+      nock(BASE_URL)
+        .get('/agent-configurations/agent_1/graph')
+        .reply(
+          200,
+          envelope({
+            ...liveGraph,
+            instruction: { ...liveGraph.instruction, knowledgeSourceIds: ['ks_1', 'ks_2', 'ks_3'] },
+            knowledgeSources: [
+              { id: 'ks_1', name: 'Product FAQ', metadata: stackMetadata('y'.repeat(1000)), ...timestamps },
+              { id: 'ks_2', name: 'Old Guide', metadata: stackMetadata(faq), ...timestamps },
+              { id: 'ks_3', name: 'Shared Policies', metadata: {}, ...timestamps },
+            ],
+          })
+        );
+      nock(BASE_URL).get('/deployment-channels/channel_1').reply(200, envelope({ id: 'channel_1', ...webChannel, ...timestamps }));
+      mockChannels([{ id: 'channel_1', ...webChannel, ...timestamps }]);
+      mockKnowledge();
+      mockDeployments();
+
+      const plan = await planAgentStack(client, spec, { agentId: 'agent_1' });
+
+      expect(plan.actions).toEqual([
+        { type: 'update', resource: 'knowledgeSource', key: 'Product FAQ', id: 'ks_1', changes: ['content', 'metadata'] },
+        { type: 'update', resource: 'instruction', key: 'customer-support-agent', id: 'instr_1', changes: ['knowledgeSourceIds'] },
+        { type: 'delete', resource: 'knowledgeSource', key: 'Old Guide', id: 'ks_2' },
+      ]);
+      expect(plan.warnings).toEqual([
+        'Knowledge source "Shared Policies" (ks_3) is no longer in the spec; it will be unlinked but not deleted',
+      ]);
+    });
+
+    it('should reuse and delete sources the stack created but never linked', async () => {
+      mockChannels();
+      mockKnowledge([
+        { id: 'ks_9', name: 'Product FAQ', metadata: stackMetadata(faq), ...timestamps },
+        { id: 'ks_8', name: 'Old Guide', metadata: stackMetadata(faq), ...timestamps },
+        { id: 'ks_7', name: 'Shared Policies', metadata: {}, ...timestamps },
+      ]);
+
+      const plan = await planAgentStack(client, spec);
+
+      expect(plan.state.knowledgeSourceIds).toEqual({ 'Product FAQ': 'ks_9' });
+      expect(plan.actions.map((action) => `${action.type} ${action.resource} ${action.id ?? action.key}`)).toEqual([
+        'create instruction customer-support-agent',
+        'create agent Support Agent',
+        'create channel web',
+        'create deployment web',
+        'delete knowledgeSource ks_8',
+      ]);
+      expect(plan.warnings).toEqual([]);
+    });
+
+    it('should keep channels that other deployments use', async () => {
+      const otherDeployment = { ...liveGraph.deployments[0], id: 'deploy_2', agentConfigurationId: 'agent_2' };
+      nock(BASE_URL).get('/agent-configurations/agent_1/graph').reply(200, envelope(liveGraph));
+      nock(BASE_URL).get('/deployment-channels/channel_1').reply(200, envelope({ id: 'channel_1', ...webChannel, ...timestamps }));
+      mockKnowledge(liveGraph.knowledgeSources);
+      mockDeployments([...liveGraph.deployments, otherDeployment]);
+
+      const removed = await planAgentStack(client, { ...spec, channels: [], deployments: [] }, { agentId: 'agent_1' });
+
+      expect(removed.actions).toEqual([{ type: 'delete', resource: 'deployment', key: 'Website Chat', id: 'deploy_1' }]);
+      expect(removed.warnings).toEqual([
+        'Channel "Website Chat" (channel_1) is no longer in the spec but other deployments use it; only the agent\'s deployment will be deleted',
+      ]);
+
+      mockChannels([{ id: 'channel_1', ...webChannel, channelName: 'Old Chat', ...timestamps }]);
+      mockKnowledge();
+      mockDeployments([otherDeployment]);
+
+      const reused = await planAgentStack(client, spec);
+
+      expect(reused.state.channelIds).toEqual({ web: 'channel_1' });
+      expect(reused.actions.map((action) => `${action.type} ${action.resource}`)).not.toContain('update channel');
+      expect(reused.warnings).toEqual([
+        'Channel "web" (channel_1) is used by other deployments; it will not be updated (channelName)',
+      ]);
+    });
+
+    it('should reject specs that do not match the schema', async () => {
+      const loaded = JSON.parse(JSON.stringify({ ...spec, knowledge: [{ name: 'Product FAQ' }] }));
+
+      await expect(planAgentStack(client, loaded)).rejects.toThrow('Invalid agent stack spec');
+      await expect(planAgentStack(client, { ...spec, channels: [{ ...webChannel }] } as never)).rejects.toThrow(
+        WiilValidationError
+      );
+    });
+
+    it('should reject deployments to unknown channels', async () => {
+      const invalid = { ...spec, deployments: [{ ...spec.deployments![0], channel: 'phone' }] };
+
+      await expect(planAgentStack(client, invalid)).rejects.toThrow(WiilValidationError);
+    });
+
+    it('should require a project to create deployments', async () => {
+      mockChannels();
+      mockKnowledge();
+
+      await expect(planAgentStack(client, { ...spec, projectId: undefined })).rejects.toThrow(
+        WiilConfigurationError
+      );
+    });
+  });
+
+  describe('applyAgentStack', () => {
+    it('should create resources in order and thread their IDs', async () => {
+      mockChannels();
+      mockKnowledge();
+      nock(BASE_URL)
+        .post('/knowledge-sources/text', (body) => body.metadata.stackHash === stackMetadata(faq).stackHash)
+        .reply(200, envelope({ id: 'ks_new', name: 'Product FAQ', ...timestamps }));
+      nock(BASE_URL)
+        .post('/instruction-configurations', (body) => body.knowledgeSourceIds[0] === 'ks_new')
+        .reply(200, envelope({ id: 'instr_new', ...instruction, knowledgeSourceIds: ['ks_new'], ...timestamps }));
+      nock(BASE_URL)
+        .post('/agent-configurations', (body) => body.instructionConfigurationId === 'instr_new')
+        .reply(200, envelope({ id: 'agent_new', ...spec.agent, instructionConfigurationId: 'instr_new', ...timestamps }));
+      nock(BASE_URL)
+        .post('/deployment-channels', (body) => body.key === undefined)
+        .reply(200, envelope({ id: 'channel_new', ...webChannel, ...timestamps }));
+      nock(BASE_URL)
+        .post(
+          '/deployment-configurations',
+          (body) =>
+            body.projectId === 'proj_123' &&
+            body.deploymentChannelId === 'channel_new' &&
+            body.agentConfigurationId === 'agent_new' &&
+            body.instructionConfigurationId === 'instr_new'
+        )
+        .reply(200, envelope({ ...liveGraph.deployments[0], id: 'deploy_new' }));
+
+      const performed: string[] = [];
+      const plan = await planAgentStack(client, spec);
+      const result = await applyAgentStack(client, plan, {
+        onAction: (action, id) => performed.push(`${action.resource}:${id}`),
+      });
+
+      expect(performed).toEqual([
+        'knowledgeSource:ks_new',
+        'instruction:instr_new',
+        'agent:agent_new',
+        'channel:channel_new',
+        'deployment:deploy_new',
+      ]);
+      expect(result.state).toEqual({
+        agentId: 'agent_new',
+        instructionId: 'instr_new',
+        knowledgeSourceIds: { 'Product FAQ': 'ks_new' },
+        channelIds: { web: 'channel_new' },
+        deploymentIds: { web: 'deploy_new' },
+      });
+      expect(nock.isDone()).toBe(true);
+    });
+
+    it('should send only changed fields in updates and delete removed resources', async () => {
+      const updated = 'y'.repeat(1000);
+      nock(BASE_URL).delete('/deployment-configurations/deploy_1').reply(200, envelope(true));
+      nock(BASE_URL)
+        .patch('/knowledge-sources', { id: 'ks_1', content: updated, metadata: stackMetadata(updated) })
+        .reply(200, envelope({ ...liveGraph.knowledgeSources[0], metadata: stackMetadata(updated) }));
+      nock(BASE_URL)
+        .patch('/agent-configurations', { id: 'agent_1', modelId: 'model_456' })
+        .reply(200, envelope({ ...liveGraph.agent, modelId: 'model_456' }));
+      nock(BASE_URL).delete('/knowledge-sources/ks_2').reply(200, envelope(true));
+
+      const result = await applyAgentStack(client, {
+        spec: {
+          ...spec,
+          knowledge: [{ name: 'Product FAQ', content: updated }],
+          agent: { ...spec.agent, modelId: 'model_456' },
+          deployments: [],
+        },
+        actions: [
+          { type: 'delete', resource: 'deployment', key: 'web', id: 'deploy_1' },
+          { type: 'update', resource: 'knowledgeSource', key: 'Product FAQ', id: 'ks_1', changes: ['content'] },
+          { type: 'update', resource: 'agent', key: 'Support Agent', id: 'agent_1', changes: ['modelId'] },
+          { type: 'delete', resource: 'knowledgeSource', key: 'Old Guide', id: 'ks_2' },
+        ],
+        warnings: [],
+        state: {
+          agentId: 'agent_1',
+          instructionId: 'instr_1',
+          knowledgeSourceIds: {},
+          channelIds: { web: 'channel_1' },
+          deploymentIds: {},
+        },
+      });
+
+      expect(result.applied).toHaveLength(4);
+      expect(nock.isDone()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,548 @@
+/**
+ * @fileoverview Diffs an agent stack spec against live state.
+ * @module stacks/plan
+ */
+
+import {
+  AgentGraph,
+  CreateTextKnowledgeSource,
+  DeploymentChannel,
+  DeploymentConfiguration,
+  KnowledgeSource,
+} from 'wiil-core-js';
+import { WiilClient } from '../client/WiilClient';
+import { WiilConfigurationError, WiilValidationError } from '../errors/WiilError';
+import { hashContent } from '../resources/service-mgt/knowledge-sync';
+import {
+  AgentStackAction,
+  AgentStackChannelSpec,
+  AgentStackPlan,
+  AgentStackResource,
+  AgentStackSpec,
+  AgentStackSpecSchema,
+  AgentStackState,
+} from './spec';
+
+/**
+ * Options for {@link planAgentStack}.
+ */
+export interface PlanAgentStackOptions {
+  /**
+   * Agent configuration the spec manages. When omitted, the plan creates a
+   * new agent and everything it depends on.
+   */
+  agentId?: string;
+
+  /**
+   * Signal that aborts the requests made while reading live state.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Metadata fields that mark the knowledge sources a stack created.
+ *
+ * @remarks
+ * `owner` holds the spec's instruction name and `hash` the content's SHA-256 hash.
+ *
+ * @internal
+ */
+export const STACK_METADATA = {
+  owner: 'stackInstruction',
+  hash: 'stackHash',
+} as const;
+
+/**
+ * Compares a spec with the live agent and returns the actions needed to make
+ * them match.
+ *
+ * @param client - Client used to read live state
+ * @param spec - Desired stack
+ * @param options - Agent to compare against and request options
+ * @returns Plan to pass to {@link applyAgentStack}
+ *
+ * @throws {@link WiilValidationError} - When the spec does not match {@link AgentStackSpecSchema},
+ * has duplicate names, or refers to a missing channel
+ * @throws {@link WiilConfigurationError} - When deployments must be created but the spec has no `projectId`
+ * @throws {@link WiilAPIError} - When the agent is not found or the API returns an error
+ * @throws {@link WiilNetworkError} - When network communication fails
+ *
+ * @remarks
+ * Live state is read with {@link AgentConfigurationsResource.getGraph}, plus
+ * one request per deployed channel and lists of the project's channels,
+ * deployments, and knowledge sources. Existing channels and the knowledge
+ * sources the stack created are reused, so applying a spec again after a
+ * partial failure does not create duplicates.
+ *
+ * Knowledge sources are matched by name. The stack records its instruction
+ * name and a hash of each source's content in the source's metadata, and
+ * updates sources whose content changed. Sources the spec no longer lists are
+ * deleted when the stack created them, and otherwise only unlinked and
+ * reported in `warnings`.
+ *
+ * Deployments the spec no longer lists are deleted. Channels belong to the
+ * project, so a channel that other agents' deployments use is never updated
+ * or deleted; the difference is reported in `warnings` instead.
+ *
+ * @example
+ * ```typescript
+ * const plan = await planAgentStack(client, spec, { agentId: 'agent_123' });
+ * console.log(describeAgentStackPlan(plan));
+ * ```
+ */
+export async function planAgentStack(
+  client: WiilClient,
+  spec: AgentStackSpec,
+  options: PlanAgentStackOptions = {}
+): Promise<AgentStackPlan> {
+  validateSpec(spec);
+
+  const state: AgentStackState = { knowledgeSourceIds: {}, channelIds: {}, deploymentIds: {} };
+  const warnings: string[] = [];
+  const deletes: AgentStackAction[] = [];
+  const actions: AgentStackAction[] = [];
+  const knowledgeDeletes: AgentStackAction[] = [];
+
+  let graph: AgentGraph | undefined;
+  let deployedChannels: DeploymentChannel[] = [];
+  if (options.agentId) {
+    ({ graph, channels: deployedChannels } = await readAgentStack(client, options.agentId, options.signal));
+    state.agentId = graph.agent.id;
+    state.instructionId = graph.instruction?.id;
+  }
+
+  const scoped = spec.projectId ? client.forProject(spec.projectId) : client;
+  const [projectChannels, projectSources] = await Promise.all([
+    listProjectChannels(scoped, spec, options.signal),
+    listStackKnowledgeSources(scoped, spec, options.signal),
+  ]);
+
+  // Sources linked to the instruction come first, then sources the stack created
+  // but never linked, such as after an apply that failed part-way.
+  const linkedSources: KnowledgeSource[] = graph?.knowledgeSources ?? [];
+  const linkedIds = new Set(linkedSources.map((source) => source.id));
+  const liveSources = [...linkedSources, ...projectSources.filter((source) => !linkedIds.has(source.id))];
+  const knowledgeNames = new Set((spec.knowledge ?? []).map((source) => source.name));
+  for (const source of liveSources) {
+    if (knowledgeNames.has(source.name) && state.knowledgeSourceIds[source.name] === undefined) {
+      state.knowledgeSourceIds[source.name] = source.id;
+    } else if (spec.knowledgeSourceIds?.includes(source.id)) {
+      continue;
+    } else if (source.metadata?.[STACK_METADATA.owner] === spec.instruction.instructionName) {
+      knowledgeDeletes.push({ type: 'delete', resource: 'knowledgeSource', key: source.name, id: source.id });
+    } else {
+      warnings.push(
+        `Knowledge source "${source.name}" (${source.id}) is no longer in the spec; it will be unlinked but not deleted`
+      );
+    }
+  }
+
+  // Prefer the channels the agent is deployed to, then any matching channel in the project.
+  const channels = spec.channels ?? [];
+  const candidates = [...deployedChannels, ...projectChannels];
+  const claimed = new Set<string>();
+  for (const channel of channels) {
+    const match = candidates.find((live) => !claimed.has(live.id) && sameChannel(channel, live));
+    if (match) {
+      state.channelIds[channel.key] = match.id;
+      claimed.add(match.id);
+    }
+  }
+
+  // Channels belong to the project, so ones other deployments use are never changed.
+  const agentDeploymentIds = (graph?.deployments ?? []).map((deployment: DeploymentConfiguration) => deployment.id);
+  const sharedChannels =
+    candidates.length > 0 ? await listSharedChannelIds(scoped, agentDeploymentIds, options.signal) : new Set<string>();
+
+  const deploymentChannels = new Set((spec.deployments ?? []).map((deployment) => deployment.channel));
+  const removedChannels = new Set<string>();
+  graph?.deployments.forEach((deployment: DeploymentConfiguration, index: number) => {
+    const live = deployedChannels[index];
+    const key = channels.find((channel) => state.channelIds[channel.key] === live.id)?.key;
+    if (key && deploymentChannels.has(key) && state.deploymentIds[key] === undefined) {
+      state.deploymentIds[key] = deployment.id;
+      return;
+    }
+    if (!key && !removedChannels.has(live.id)) {
+      removedChannels.add(live.id);
+      if (sharedChannels.has(live.id)) {
+        warnings.push(
+          `Channel "${live.channelName}" (${live.id}) is no longer in the spec but other deployments use it; ` +
+            `only the agent's deployment will be deleted`
+        );
+      } else {
+        deletes.push({ type: 'delete', resource: 'channel', key: live.channelName, id: live.id });
+      }
+    }
+    deletes.unshift({ type: 'delete', resource: 'deployment', key: key ?? live.channelName, id: deployment.id });
+  });
+
+  for (const source of spec.knowledge ?? []) {
+    const id = state.knowledgeSourceIds[source.name];
+    const live = liveSources.find((candidate) => candidate.id === id);
+    await diffKnowledgeSource(actions, source, live, spec);
+  }
+
+  diff(actions, 'instruction', spec.instruction.instructionName, state.instructionId, graph?.instruction, spec, state);
+  diff(actions, 'agent', spec.agent.name, state.agentId, graph?.agent, spec, state);
+
+  for (const channel of channels) {
+    const id = state.channelIds[channel.key];
+    const live = candidates.find((candidate) => candidate.id === id);
+    const pending: AgentStackAction[] = [];
+    diff(pending, 'channel', channel.key, id, live, spec, state);
+    if (id && sharedChannels.has(id) && pending.length > 0) {
+      warnings.push(
+        `Channel "${channel.key}" (${id}) is used by other deployments; ` +
+          `it will not be updated (${pending[0].changes?.join(', ')})`
+      );
+    } else {
+      actions.push(...pending);
+    }
+  }
+
+  for (const deployment of spec.deployments ?? []) {
+    const id = state.deploymentIds[deployment.channel];
+    const live = graph?.deployments.find((candidate: DeploymentConfiguration) => candidate.id === id);
+    if (!live && !spec.projectId) {
+      throw new WiilConfigurationError('AgentStackSpec.projectId is required to create deployments');
+    }
+    diff(actions, 'deployment', deployment.channel, id, live, spec, state);
+  }
+
+  return { spec, actions: [...deletes, ...actions, ...knowledgeDeletes], warnings, state };
+}
+
+/**
+ * Formats a plan as one line per action, for review before applying.
+ *
+ * @param plan - Plan returned by {@link planAgentStack}
+ * @returns Text describing the plan, or `No changes` when there is nothing to do
+ *
+ * @example
+ * ```typescript
+ * console.log(describeAgentStackPlan(plan));
+ * // + create knowledgeSource "Product FAQ"
+ * // ~ update instruction "support-agent" (knowledgeSourceIds)
+ * ```
+ */
+export function describeAgentStackPlan(plan: AgentStackPlan): string {
+  const symbols = { create: '+', update: '~', delete: '-' };
+  const lines = plan.actions.map((action) => {
+    const target = action.id ? ` [${action.id}]` : '';
+    const changes = action.changes ? ` (${action.changes.join(', ')})` : '';
+    return `${symbols[action.type]} ${action.type} ${action.resource} "${action.key}"${target}${changes}`;
+  });
+  const warnings = plan.warnings.map((warning) => `! ${warning}`);
+  return [...(lines.length > 0 ? lines : ['No changes']), ...warnings].join('\n');
+}
+
+/**
+ * Reads the live graph of an agent together with the channels it is deployed to.
+ *
+ * @param client - Client used to read live state
+ * @param agentId - Agent configuration ID
+ * @param signal - Abort signal
+ * @returns Agent graph, and the channel of each deployment in the same order
+ *
+ * @internal
+ */
+export async function readAgentStack(
+  client: WiilClient,
+  agentId: string,
+  signal?: AbortSignal
+): Promise<{ graph: AgentGraph; channels: DeploymentChannel[] }> {
+  const graph = await client.agentConfigs.getGraph(agentId, { signal });
+  const channels = await Promise.all(
+    graph.deployments.map((deployment: DeploymentConfiguration) =>
+      client.deploymentChannels.get(deployment.deploymentChannelId, { signal })
+    )
+  );
+  return { graph, channels };
+}
+
+/**
+ * Builds the metadata stored on a knowledge source created by a stack.
+ *
+ * @param source - Knowledge source in the spec
+ * @param spec - Desired stack
+ * @returns The source's metadata plus the stack's owner and content hash fields
+ *
+ * @internal
+ */
+export async function knowledgeMetadata(
+  source: CreateTextKnowledgeSource,
+  spec: AgentStackSpec
+): Promise<Record<string, unknown>> {
+  return {
+    ...(source.metadata ?? {}),
+    [STACK_METADATA.owner]: spec.instruction.instructionName,
+    [STACK_METADATA.hash]: await hashContent(source.content),
+  };
+}
+
+/**
+ * Lists the project's channels of each deployment type used by the spec.
+ *
+ * @param client - Client scoped to the spec's project
+ * @param spec - Desired stack
+ * @param signal - Abort signal
+ * @returns Live channels that spec channels may match
+ */
+async function listProjectChannels(
+  client: WiilClient,
+  spec: AgentStackSpec,
+  signal: AbortSignal | undefined
+): Promise<DeploymentChannel[]> {
+  const types = [...new Set((spec.channels ?? []).map((channel) => channel.deploymentType))];
+  const lists = await Promise.all(
+    types.map((deploymentType) => client.deploymentChannels.listAll({ pageSize: 100 }, { deploymentType }, { signal }))
+  );
+  return lists.flat();
+}
+
+/**
+ * Lists the project's knowledge sources that this stack created.
+ *
+ * @param client - Client scoped to the spec's project
+ * @param spec - Desired stack
+ * @param signal - Abort signal
+ * @returns Sources whose owner marker names the spec's instruction
+ */
+async function listStackKnowledgeSources(
+  client: WiilClient,
+  spec: AgentStackSpec,
+  signal: AbortSignal | undefined
+): Promise<KnowledgeSource[]> {
+  const sources = await client.knowledgeSources.listAll({ pageSize: 100 }, undefined, { signal });
+  return sources.filter(
+    (source: KnowledgeSource) => source.metadata?.[STACK_METADATA.owner] === spec.instruction.instructionName
+  );
+}
+
+/**
+ * Finds the channels that deployments of other agents use.
+ *
+ * @param client - Client scoped to the spec's project
+ * @param agentDeploymentIds - Deployments of the agent the spec manages
+ * @param signal - Abort signal
+ * @returns IDs of channels referenced by any other deployment
+ */
+async function listSharedChannelIds(
+  client: WiilClient,
+  agentDeploymentIds: string[],
+  signal: AbortSignal | undefined
+): Promise<Set<string>> {
+  const deployments = await client.deploymentConfigs.listAll({ pageSize: 100 }, undefined, { signal });
+  return new Set(
+    deployments
+      .filter((deployment: DeploymentConfiguration) => !agentDeploymentIds.includes(deployment.id))
+      .map((deployment: DeploymentConfiguration) => deployment.deploymentChannelId)
+  );
+}
+
+/**
+ * Builds the create payload for a resource from the spec, filling references
+ * from the IDs known so far.
+ *
+ * @param resource - Kind of resource
+ * @param key - Name of the resource in the spec
+ * @param spec - Desired stack
+ * @param state - Known IDs; references that are not known yet are `undefined`
+ * @returns Payload for the resource's create method
+ *
+ * @internal
+ */
+export function desiredFields(
+  resource: AgentStackResource,
+  key: string,
+  spec: AgentStackSpec,
+  state: AgentStackState
+): Record<string, unknown> {
+  switch (resource) {
+    case 'knowledgeSource':
+      return compact(spec.knowledge?.find((source) => source.name === key) ?? {});
+    case 'instruction':
+      return {
+        ...compact(spec.instruction),
+        knowledgeSourceIds: [
+          ...(spec.knowledge ?? []).map((source) => state.knowledgeSourceIds[source.name]),
+          ...(spec.knowledgeSourceIds ?? []),
+        ],
+      };
+    case 'agent':
+      return { ...compact(spec.agent), instructionConfigurationId: state.instructionId };
+    case 'channel': {
+      const { key: _key, ...channel } = spec.channels?.find((candidate) => candidate.key === key) ?? { key };
+      return compact(channel);
+    }
+    case 'deployment': {
+      const { channel, ...deployment } = spec.deployments?.find((candidate) => candidate.channel === key) ?? {
+        channel: key,
+      };
+      return {
+        ...compact(deployment),
+        ...(spec.projectId !== undefined ? { projectId: spec.projectId } : {}),
+        deploymentChannelId: state.channelIds[channel],
+        agentConfigurationId: state.agentId,
+        instructionConfigurationId: state.instructionId,
+      };
+    }
+  }
+}
+
+/**
+ * Adds a create action when a knowledge source does not exist, or an update
+ * action when its content, metadata, or other fields differ from the spec.
+ *
+ * @param actions - Actions to add to
+ * @param source - Knowledge source in the spec
+ * @param live - Live knowledge source with the same name
+ * @param spec - Desired stack
+ *
+ * @remarks
+ * The API does not return a source's content, so content is compared by the
+ * hash stored in its metadata.
+ */
+async function diffKnowledgeSource(
+  actions: AgentStackAction[],
+  source: CreateTextKnowledgeSource,
+  live: KnowledgeSource | undefined,
+  spec: AgentStackSpec
+): Promise<void> {
+  if (!live) {
+    actions.push({ type: 'create', resource: 'knowledgeSource', key: source.name });
+    return;
+  }
+
+  const { content: _content, metadata: _metadata, ...fields } = compact(source);
+  const metadata = await knowledgeMetadata(source, spec);
+  const changes = Object.keys(fields).filter(
+    (field) => stableStringify(fields[field]) !== stableStringify((live as Record<string, unknown>)[field])
+  );
+  if (live.metadata?.[STACK_METADATA.hash] !== metadata[STACK_METADATA.hash]) {
+    changes.push('content');
+  }
+  if (stableStringify(live.metadata ?? {}) !== stableStringify(metadata)) {
+    changes.push('metadata');
+  }
+  if (changes.length > 0) {
+    actions.push({ type: 'update', resource: 'knowledgeSource', key: source.name, id: live.id, changes });
+  }
+}
+
+/**
+ * Adds a create action when a resource does not exist, or an update action
+ * listing the fields that differ from the spec.
+ *
+ * @param actions - Actions to add to
+ * @param resource - Kind of resource
+ * @param key - Name of the resource in the spec
+ * @param id - ID of the live resource
+ * @param live - Live resource
+ * @param spec - Desired stack
+ * @param state - Known IDs
+ */
+function diff(
+  actions: AgentStackAction[],
+  resource: AgentStackResource,
+  key: string,
+  id: string | undefined,
+  live: Record<string, unknown> | undefined,
+  spec: AgentStackSpec,
+  state: AgentStackState
+): void {
+  if (!id || !live) {
+    actions.push({ type: 'create', resource, key });
+    return;
+  }
+
+  const desired = desiredFields(resource, key, spec, state);
+  const current =
+    resource === 'instruction'
+      ? { ...live, knowledgeSourceIds: [...((live.knowledgeSourceIds as string[] | undefined) ?? [])].sort() }
+      : live;
+  if (resource === 'instruction') {
+    desired.knowledgeSourceIds = [...(desired.knowledgeSourceIds as (string | undefined)[])].sort();
+  }
+
+  // References to resources created by this plan are undefined until apply.
+  const changes = Object.keys(desired).filter(
+    (field) => desired[field] === undefined || stableStringify(desired[field]) !== stableStringify(current[field])
+  );
+  if (changes.length > 0) {
+    actions.push({ type: 'update', resource, key, id, changes });
+  }
+}
+
+/**
+ * Checks the spec against {@link AgentStackSpecSchema}, then checks that names
+ * are unique and that deployments refer to channels in the spec.
+ *
+ * @param spec - Spec to check, possibly loaded from JSON or YAML
+ *
+ * @throws {@link WiilValidationError} - When the spec is invalid or inconsistent
+ */
+function validateSpec(spec: AgentStackSpec): void {
+  const validation = AgentStackSpecSchema.safeParse(spec);
+  if (!validation.success) {
+    throw new WiilValidationError('Invalid agent stack spec', validation.error.issues);
+  }
+
+  const problems: string[] = [];
+  const duplicates = (names: string[]) => names.filter((name, index) => names.indexOf(name) !== index);
+
+  for (const name of duplicates((spec.knowledge ?? []).map((source) => source.name))) {
+    problems.push(`duplicate knowledge source "${name}"`);
+  }
+  const channelKeys = (spec.channels ?? []).map((channel) => channel.key);
+  for (const key of duplicates(channelKeys)) {
+    problems.push(`duplicate channel "${key}"`);
+  }
+  const deploymentChannels = (spec.deployments ?? []).map((deployment) => deployment.channel);
+  for (const key of duplicates(deploymentChannels)) {
+    problems.push(`more than one deployment to channel "${key}"`);
+  }
+  for (const key of deploymentChannels.filter((channel) => !channelKeys.includes(channel))) {
+    problems.push(`deployment refers to unknown channel "${key}"`);
+  }
+
+  if (problems.length > 0) {
+    throw new WiilValidationError(`Invalid agent stack spec: ${problems.join('; ')}`, problems);
+  }
+}
+
+/**
+ * Checks whether a live channel is the one described by a spec channel.
+ *
+ * @param spec - Spec channel
+ * @param live - Live channel
+ * @returns True when the deployment type and channel identifier match
+ */
+function sameChannel(spec: AgentStackChannelSpec, live: DeploymentChannel): boolean {
+  return spec.deploymentType === live.deploymentType && spec.channelIdentifier === live.channelIdentifier;
+}
+
+/**
+ * Removes fields whose value is `undefined`.
+ *
+ * @param value - Object to copy
+ * @returns Copy without undefined fields
+ */
+function compact(value: object): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined));
+}
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal values compare equal.
+ *
+ * @param value - Value to serialize
+ * @returns JSON text
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, fieldValue: unknown) =>
+    typeof fieldValue === 'object' && fieldValue !== null && !Array.isArray(fieldValue)
+      ? Object.fromEntries(Object.entries(fieldValue).sort(([a], [b]) => a.localeCompare(b)))
+      : fieldValue
+  );
+}
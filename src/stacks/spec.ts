@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Declarative agent stack specification and plan types.
+ * @module stacks/spec
+ */
+
+import { z } from 'zod';
+import {
+  CreateAgentConfiguration,
+  CreateAgentConfigurationSchema,
+  CreateDeploymentChannel,
+  CreateDeploymentChannelSchema,
+  CreateDeploymentConfiguration,
+  CreateDeploymentConfigurationSchema,
+  CreateInstructionConfiguration,
+  CreateInstructionConfigurationSchema,
+  CreateTextKnowledgeSource,
+  CreateTextKnowledgeSourceSchema,
+} from 'wiil-core-js';
+
+/**
+ * Deployment channel in an agent stack.
+ *
+ * @remarks
+ * Live channels in the project are matched to the spec by `deploymentType`
+ * and `channelIdentifier`, so existing channels are reused. Changing either
+ * replaces the channel.
+ */
+export type AgentStackChannelSpec = CreateDeploymentChannel & {
+  /**
+   * Name that deployments use to refer to the channel.
+   */
+  key: string;
+};
+
+/**
+ * Deployment of the stack's agent to one of its channels.
+ *
+ * @remarks
+ * The project, channel, agent and instruction IDs are filled in from the rest
+ * of the stack.
+ */
+export type AgentStackDeploymentSpec = Omit<
+  CreateDeploymentConfiguration,
+  'projectId' | 'deploymentChannelId' | 'agentConfigurationId' | 'instructionConfigurationId'
+> & {
+  /**
+   * Key of the channel to deploy to.
+   */
+  channel: string;
+};
+
+/**
+ * Declarative description of an agent and everything it depends on.
+ *
+ * @remarks
+ * A spec is a plain object, so it can be written in TypeScript or loaded from
+ * JSON or YAML; it is checked against {@link AgentStackSpecSchema} when
+ * planned. Resources refer to each other by name: knowledge sources by
+ * `name` and channels by `key`.
+ *
+ * @example
+ * ```typescript
+ * const spec: AgentStackSpec = {
+ *   projectId: 'proj_123',
+ *   knowledge: [{ name: 'Product FAQ', content: faqText }],
+ *   instruction: {
+ *     instructionName: 'support-agent',
+ *     role: 'Customer Support Specialist',
+ *     introductionMessage: 'Hello! How can I help you today?',
+ *     instructions: 'You are a helpful support agent.',
+ *     guardrails: 'Never share customer data.',
+ *     supportedServices: [],
+ *   },
+ *   agent: { name: 'Support Agent', modelId: 'model_123' },
+ *   channels: [{
+ *     key: 'web',
+ *     deploymentType: DeploymentType.WEB,
+ *     channelName: 'Website Chat',
+ *     channelIdentifier: 'https://example.com',
+ *     recordingEnabled: false,
+ *     configuration: { communicationType: OttCommunicationType.UNIFIED },
+ *   }],
+ *   deployments: [{
+ *     channel: 'web',
+ *     deploymentName: 'Website Support',
+ *     isActive: true,
+ *     deploymentStatus: DeploymentStatus.PENDING,
+ *     provisioningType: DeploymentProvisioningType.DIRECT,
+ *   }],
+ * };
+ * ```
+ */
+export interface AgentStackSpec {
+  /**
+   * Project that deployments belong to. Required when the spec has deployments.
+   */
+  projectId?: string;
+
+  /**
+   * Text knowledge sources linked to the instruction.
+   */
+  knowledge?: CreateTextKnowledgeSource[];
+
+  /**
+   * Existing knowledge sources to link to the instruction without managing them.
+   */
+  knowledgeSourceIds?: string[];
+
+  /**
+   * Instruction configuration used by the agent.
+   */
+  instruction: Omit<CreateInstructionConfiguration, 'knowledgeSourceIds'>;
+
+  /**
+   * Agent configuration.
+   */
+  agent: Omit<CreateAgentConfiguration, 'instructionConfigurationId'>;
+
+  /**
+   * Channels the agent is deployed to.
+   */
+  channels?: AgentStackChannelSpec[];
+
+  /**
+   * Deployments of the agent, at most one per channel.
+   */
+  deployments?: AgentStackDeploymentSpec[];
+}
+
+/**
+ * Schema for {@link AgentStackSpec}.
+ *
+ * @remarks
+ * Specs loaded from JSON or YAML are checked against it before planning.
+ * References between resources, such as a deployment's channel key, are
+ * checked by {@link planAgentStack}.
+ */
+export const AgentStackSpecSchema = z.object({
+  projectId: z.string().min(1).optional(),
+  knowledge: z.array(CreateTextKnowledgeSourceSchema).optional(),
+  knowledgeSourceIds: z.array(z.string().min(1)).optional(),
+  instruction: CreateInstructionConfigurationSchema.omit({ knowledgeSourceIds: true }),
+  agent: CreateAgentConfigurationSchema.omit({ instructionConfigurationId: true }),
+  channels: z.array(CreateDeploymentChannelSchema.safeExtend({ key: z.string().min(1) })).optional(),
+  deployments: z
+    .array(
+      CreateDeploymentConfigurationSchema.omit({
+        projectId: true,
+        deploymentChannelId: true,
+        agentConfigurationId: true,
+        instructionConfigurationId: true,
+      }).safeExtend({ channel: z.string().min(1) })
+    )
+    .optional(),
+});
+
+/**
+ * Kind of resource managed by an agent stack.
+ */
+export type AgentStackResource = 'knowledgeSource' | 'instruction' | 'agent' | 'channel' | 'deployment';
+
+/**
+ * Change made to a single resource when a plan is applied.
+ */
+export interface AgentStackAction {
+  /**
+   * Operation to perform.
+   */
+  type: 'create' | 'update' | 'delete';
+
+  /**
+   * Kind of resource.
+   */
+  resource: AgentStackResource;
+
+  /**
+   * Name of the resource in the spec: the knowledge source name, instruction
+   * name, agent name, or channel key. Deployments use their channel key.
+   */
+  key: string;
+
+  /**
+   * ID of the live resource, for updates and deletes.
+   */
+  id?: string;
+
+  /**
+   * Fields that differ from the spec, for updates.
+   */
+  changes?: string[];
+}
+
+/**
+ * IDs of the live resources that make up a stack, by spec name.
+ */
+export interface AgentStackState {
+  /**
+   * Agent configuration ID.
+   */
+  agentId?: string;
+
+  /**
+   * Instruction configuration ID.
+   */
+  instructionId?: string;
+
+  /**
+   * Knowledge source IDs by name.
+   */
+  knowledgeSourceIds: Record<string, string>;
+
+  /**
+   * Deployment channel IDs by key.
+   */
+  channelIds: Record<string, string>;
+
+  /**
+   * Deployment configuration IDs by channel key.
+   */
+  deploymentIds: Record<string, string>;
+}
+
+/**
+ * Changes needed to bring live state in line with a spec.
+ */
+export interface AgentStackPlan {
+  /**
+   * Spec the plan was made from.
+   */
+  spec: AgentStackSpec;
+
+  /**
+   * Actions in the order they are applied: deployment and channel deletes
+   * first, then creates and updates in dependency order, then deletes of
+   * knowledge sources the instruction no longer links to.
+   */
+  actions: AgentStackAction[];
+
+  /**
+   * Problems that applying the plan does not fix, such as knowledge sources
+   * that were not created by the stack and are no longer referenced.
+   */
+  warnings: string[];
+
+  /**
+   * IDs of the live resources the spec matched when the plan was made.
+   */
+  state: AgentStackState;
+}
@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Tests for the mock WIIL server.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AppointmentStatus } from 'wiil-core-js';
+import { WiilClient } from '../client/WiilClient';
+import {
+  WiilNetworkError,
+  isAuthenticationError,
+  isNotFoundError,
+} from '../errors/WiilError';
+import { MockWiilServer } from './MockWiilServer';
+
+const API_KEY = 'test-api-key';
+
+const customer = (index: number) => ({
+  phone_number: `+1212555${String(index).padStart(4, '0')}`,
+  firstname: `Customer${index}`,
+  lastname: 'Doe',
+  email: `customer${index}@example.com`,
+});
+
+describe('MockWiilServer', () => {
+  let server: MockWiilServer;
+  let client: WiilClient;
+
+  beforeEach(() => {
+    server = new MockWiilServer();
+    client = new WiilClient({ apiKey: API_KEY, transport: server.transport });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should create, read, update, and delete records', async () => {
+    const created = await client.customers.create(customer(1));
+    expect(created.id).toMatch(/^cust_/);
+
+    const fetched = await client.customers.get(created.id);
+    expect(fetched.email).toBe('customer1@example.com');
+
+    const updated = await client.customers.update(created.id, { firstname: 'Jane' });
+    expect(updated.firstname).toBe('Jane');
+    expect(server.records('customers')[0].firstname).toBe('Jane');
+
+    await expect(client.customers.delete(created.id)).resolves.toBe(true);
+    expect(server.records('customers')).toHaveLength(0);
+  });
+
+  it('should paginate, sort, and filter lists', async () => {
+    server.seed(
+      'customers',
+      Array.from({ length: 25 }, (_, index) => customer(index + 1))
+    );
+
+    const page = await client.customers.list({
+      page: 2,
+      pageSize: 10,
+      sortBy: 'firstname',
+      sortDirection: 'desc',
+    });
+
+    expect(page.data).toHaveLength(10);
+    expect(page.meta).toMatchObject({
+      page: 2,
+      pageSize: 10,
+      totalCount: 25,
+      totalPages: 3,
+      hasNextPage: true,
+      hasPreviousPage: true,
+    });
+
+    const all = await client.customers.listAll({ pageSize: 10 }).toArray();
+    expect(all).toHaveLength(25);
+  });
+
+  it('should serve lookups and cancellation', async () => {
+    const [appointment] = server.seed('serviceAppointments', [
+      { customerId: 'cust_1', businessServiceId: 'svc_1', startTime: Date.now() },
+      { customerId: 'cust_2', businessServiceId: 'svc_1', startTime: Date.now() },
+    ]);
+
+    const byCustomer = await client.serviceAppointments.getByCustomer('cust_1');
+    expect(byCustomer.data.map((item) => item.id)).toEqual([appointment.id]);
+    expect(byCustomer.data[0].status).toBe(AppointmentStatus.PENDING);
+
+    const cancelled = await client.serviceAppointments.cancel(appointment.id as string, 'Customer request');
+    expect(cancelled.status).toBe(AppointmentStatus.CANCELLED);
+  });
+
+  it('should answer missing records with the API error envelope', async () => {
+    const error = await client.customers.get('cust_missing').catch((caught: unknown) => caught);
+
+    expect(isNotFoundError(error)).toBe(true);
+    expect(error).toMatchObject({ code: 'NOT_FOUND', requestId: expect.stringMatching(/^req_mock_/) });
+  });
+
+  it('should reject requests with the wrong API key', async () => {
+    const strict = new MockWiilServer({ apiKey: 'expected-key' });
+    const other = new WiilClient({ apiKey: 'wrong-key', transport: strict.transport });
+
+    const error = await other.customers.list().catch((caught: unknown) => caught);
+
+    expect(isAuthenticationError(error)).toBe(true);
+  });
+
+  it('should inject status faults that the client retries', async () => {
+    const retrying = new WiilClient({
+      apiKey: API_KEY,
+      transport: server.transport,
+      retry: { maxAttempts: 2, baseDelayMs: 1 },
+    });
+    server.injectFault({ method: 'GET', path: '/customers', status: 503, code: 'SERVICE_UNAVAILABLE' });
+
+    const page = await retrying.customers.list();
+
+    expect(page.meta.totalCount).toBe(0);
+    expect(server.requests.filter((request) => request.path === '/customers')).toHaveLength(2);
+  });
+
+  it('should inject network faults', async () => {
+    server.injectFault({ path: /^\/customers/, networkError: 'ECONNRESET' });
+
+    await expect(client.customers.list()).rejects.toThrow(WiilNetworkError);
+    await expect(client.customers.list()).resolves.toMatchObject({ data: [] });
+  });
+
+  it('should serve the same API over HTTP', async () => {
+    const baseUrl = await server.listen();
+    const http = new WiilClient({ apiKey: API_KEY, baseUrl, transport: 'fetch' });
+
+    const created = await http.customers.create(customer(1));
+    const fetched = await client.customers.get(created.id);
+
+    expect(fetched.id).toBe(created.id);
+    expect(server.requests[0]).toMatchObject({ method: 'POST', path: '/customers' });
+  });
+});
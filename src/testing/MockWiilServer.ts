@@ -0,0 +1,811 @@
+/**
+ * @fileoverview In-memory fake of the WIIL API for tests.
+ * @module testing/MockWiilServer
+ */
+
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Transport, TransportRequest, TransportResponse } from '../client/transport';
+import { HttpMethod } from '../client/types';
+import { MOCK_ROUTES, MockResourceName, MockRoute } from './routes';
+
+/**
+ * API version prefix stripped from request paths.
+ *
+ * @internal
+ */
+const VERSION_PREFIX = /^\/v1(?=\/|$)/;
+
+/**
+ * Query parameters that control paging and sorting rather than filtering.
+ *
+ * @internal
+ */
+const PAGING_PARAMS = ['page', 'pageSize', 'sortBy', 'sortDirection'];
+
+/**
+ * Default number of records per page.
+ *
+ * @internal
+ */
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Record stored by the mock server.
+ */
+export type MockRecord = Record<string, unknown>;
+
+/**
+ * Options for {@link MockWiilServer}.
+ */
+export interface MockWiilServerOptions {
+  /**
+   * API key the server accepts.
+   *
+   * @defaultValue undefined (any non-empty key is accepted)
+   */
+  apiKey?: string;
+}
+
+/**
+ * Request received by the mock server.
+ */
+export interface MockRequest {
+  /**
+   * HTTP method.
+   */
+  method: HttpMethod;
+
+  /**
+   * Request path without the `/v1` prefix or query string, such as `/customers/cust_1`.
+   */
+  path: string;
+
+  /**
+   * Query parameters.
+   */
+  query: URLSearchParams;
+
+  /**
+   * Request headers with lower-cased names.
+   */
+  headers: Record<string, string>;
+
+  /**
+   * Parsed JSON body.
+   */
+  body?: unknown;
+}
+
+/**
+ * Failure injected into matching requests.
+ *
+ * @remarks
+ * A fault with a `status` answers with an API error envelope, and one with a
+ * `networkError` fails without a response. A fault with only `delayMs` slows
+ * matching requests down and then handles them normally.
+ *
+ * @example
+ * ```typescript
+ * // Fail the next customer creation with a retryable error
+ * server.injectFault({ method: 'POST', path: '/customers', status: 503, code: 'SERVICE_UNAVAILABLE' });
+ *
+ * // Drop the connection for the next two requests to any outbound endpoint
+ * server.injectFault({ path: /^\/outbound-/, networkError: 'ECONNRESET', times: 2 });
+ * ```
+ */
+export interface MockFault {
+  /**
+   * Method the fault applies to.
+   *
+   * @defaultValue undefined (every method)
+   */
+  method?: HttpMethod;
+
+  /**
+   * Path the fault applies to, without the `/v1` prefix; a string must match exactly.
+   *
+   * @defaultValue undefined (every path)
+   */
+  path?: string | RegExp;
+
+  /**
+   * HTTP status of the error response.
+   */
+  status?: number;
+
+  /**
+   * Error code of the error response.
+   *
+   * @defaultValue 'MOCK_FAULT'
+   */
+  code?: string;
+
+  /**
+   * Error message of the error response.
+   *
+   * @defaultValue 'Injected fault'
+   */
+  message?: string;
+
+  /**
+   * Additional response headers, such as `retry-after`.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Network error code, such as `ECONNRESET`, to fail with instead of responding.
+   */
+  networkError?: string;
+
+  /**
+   * Time in milliseconds to wait before responding.
+   */
+  delayMs?: number;
+
+  /**
+   * Number of matching requests the fault applies to.
+   *
+   * @defaultValue 1
+   */
+  times?: number;
+}
+
+/**
+ * Outcome of handling a request: a response, or a network error code.
+ *
+ * @internal
+ */
+type MockOutcome = TransportResponse | { networkError: string };
+
+/**
+ * In-memory fake of the WIIL API with stateful storage.
+ *
+ * @remarks
+ * Serves create, get, update, delete, list, and batch create for customers,
+ * business services, service appointments, table and room reservations, menu
+ * and product orders, and outbound calls, emails, and SMS, including their
+ * `by-*` lookups, status updates, and cancellation. Lists are paginated,
+ * sorted, and filtered by query parameters like the real API, and errors use
+ * the API error envelope.
+ *
+ * Use {@link MockWiilServer.transport} to run it in-process, or
+ * {@link MockWiilServer.listen} to serve it over HTTP.
+ *
+ * @example
+ * ```typescript
+ * import { WiilClient } from 'wiil-js';
+ * import { MockWiilServer } from 'wiil-js/testing';
+ *
+ * const server = new MockWiilServer();
+ * const client = new WiilClient({ apiKey: 'test-key', transport: server.transport });
+ *
+ * server.seed('customers', [{ firstname: 'Jane', phone_number: '+14155551234' }]);
+ *
+ * const page = await client.customers.list();
+ * expect(page.meta.totalCount).toBe(1);
+ * ```
+ */
+export class MockWiilServer {
+  /**
+   * Transport that sends client requests to this server in-process.
+   */
+  public readonly transport: Transport;
+
+  /**
+   * Requests received since the server was created or last reset, in order.
+   */
+  public readonly requests: MockRequest[] = [];
+
+  private readonly apiKey?: string;
+  private readonly stores = new Map<MockResourceName, Map<string, MockRecord>>();
+  private faults: MockFault[] = [];
+  private nextId = 1;
+  private server?: Server;
+
+  /**
+   * Creates a new MockWiilServer instance.
+   *
+   * @param options - Server options
+   */
+  constructor(options: MockWiilServerOptions = {}) {
+    this.apiKey = options.apiKey;
+    this.transport = { request: (request) => this.handleTransportRequest(request) };
+  }
+
+  /**
+   * Adds records to a resource.
+   *
+   * @param resource - Resource name, matching its property on the client
+   * @param records - Records to add; an `id` is generated when missing
+   * @returns The stored records
+   *
+   * @example
+   * ```typescript
+   * const [appointment] = server.seed('serviceAppointments', [
+   *   { customerId: 'cust_1', businessServiceId: 'svc_1', startTime: Date.now() }
+   * ]);
+   * ```
+   */
+  public seed(resource: MockResourceName, records: MockRecord[]): MockRecord[] {
+    return records.map((record) => this.insert(resource, record));
+  }
+
+  /**
+   * Returns the records of a resource.
+   *
+   * @param resource - Resource name, matching its property on the client
+   * @returns Copies of the stored records, in creation order
+   */
+  public records(resource: MockResourceName): MockRecord[] {
+    return [...this.store(resource).values()].map((record) => ({ ...record }));
+  }
+
+  /**
+   * Makes matching requests fail, or slows them down.
+   *
+   * @param fault - Requests to match and how they fail
+   *
+   * @remarks
+   * Faults are checked in the order they were injected; the first match applies.
+   */
+  public injectFault(fault: MockFault): void {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  /**
+   * Removes all records, faults, and recorded requests.
+   */
+  public reset(): void {
+    this.stores.clear();
+    this.faults = [];
+    this.requests.length = 0;
+    this.nextId = 1;
+  }
+
+  /**
+   * Serves the mock API over HTTP on the loopback interface.
+   *
+   * @param port - Port to listen on; 0 picks a free port
+   * @returns Promise resolving to the base URL to configure on the client
+   *
+   * @example
+   * ```typescript
+   * const baseUrl = await server.listen();
+   * const client = new WiilClient({ apiKey: 'test-key', baseUrl });
+   *
+   * // After the tests
+   * await server.close();
+   * ```
+   */
+  public async listen(port = 0): Promise<string> {
+    const server = createServer((req, res) => void this.serve(req, res));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', resolve);
+    });
+
+    this.server = server;
+    const address = server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}/v1`;
+  }
+
+  /**
+   * Stops serving over HTTP.
+   *
+   * @returns Promise resolving once the server is closed
+   */
+  public async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  /**
+   * Handles a request sent through {@link MockWiilServer.transport}.
+   *
+   * @param request - Request from the HTTP client
+   * @returns Promise resolving to the response
+   */
+  private async handleTransportRequest(request: TransportRequest): Promise<TransportResponse> {
+    if (request.signal?.aborted) {
+      throw networkError('ERR_CANCELED', 'Request aborted');
+    }
+
+    const url = new URL(request.url);
+    const outcome = await this.respond({
+      method: request.method,
+      path: url.pathname,
+      query: url.searchParams,
+      headers: Object.fromEntries(
+        Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value])
+      ),
+      body: request.body,
+    });
+
+    if ('networkError' in outcome) {
+      throw networkError(outcome.networkError, `Mock network error ${outcome.networkError}`);
+    }
+    return outcome;
+  }
+
+  /**
+   * Handles a request received over HTTP.
+   *
+   * @param req - Incoming request
+   * @param res - Response to write
+   */
+  private async serve(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf8');
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      return this.write(res, this.error(400, 'INVALID_JSON', 'Request body is not valid JSON'));
+    }
+
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    const outcome = await this.respond({
+      method: (req.method ?? 'GET') as HttpMethod,
+      path: url.pathname,
+      query: url.searchParams,
+      headers: Object.fromEntries(
+        Object.entries(req.headers).map(([name, value]) => [
+          name,
+          Array.isArray(value) ? value.join(', ') : (value ?? ''),
+        ])
+      ),
+      body,
+    });
+
+    if ('networkError' in outcome) {
+      req.socket.destroy();
+      return;
+    }
+    this.write(res, outcome);
+  }
+
+  /**
+   * Writes a response to an HTTP connection.
+   *
+   * @param res - Response to write
+   * @param response - Response to send
+   */
+  private write(res: ServerResponse, response: TransportResponse): void {
+    res.writeHead(response.status, response.headers);
+    res.end(JSON.stringify(response.data));
+  }
+
+  /**
+   * Records a request, applies faults and authentication, and routes it.
+   *
+   * @param request - Request with the full URL path
+   * @returns Promise resolving to the response or network error
+   */
+  private async respond(request: MockRequest): Promise<MockOutcome> {
+    const received = { ...request, path: request.path.replace(VERSION_PREFIX, '') || '/' };
+    this.requests.push(received);
+
+    const fault = this.takeFault(received);
+    if (fault?.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+    }
+    if (fault?.networkError) {
+      return { networkError: fault.networkError };
+    }
+    if (fault?.status !== undefined) {
+      const response = this.error(
+        fault.status,
+        fault.code ?? 'MOCK_FAULT',
+        fault.message ?? 'Injected fault'
+      );
+      return { ...response, headers: { ...response.headers, ...fault.headers } };
+    }
+
+    const apiKey = received.headers['x-wiil-api-key'];
+    if (!apiKey || (this.apiKey !== undefined && apiKey !== this.apiKey)) {
+      return this.error(401, 'UNAUTHORIZED', 'Invalid API key');
+    }
+
+    return this.route(received);
+  }
+
+  /**
+   * Finds the first fault matching a request and uses up one of its applications.
+   *
+   * @param request - Received request
+   * @returns Matching fault, if any
+   */
+  private takeFault(request: MockRequest): MockFault | undefined {
+    const fault = this.faults.find(
+      (candidate) =>
+        (candidate.method === undefined || candidate.method === request.method) &&
+        (candidate.path === undefined ||
+          (typeof candidate.path === 'string'
+            ? candidate.path === request.path
+            : candidate.path.test(request.path)))
+    );
+
+    if (fault) {
+      fault.times = (fault.times ?? 1) - 1;
+      if (fault.times <= 0) {
+        this.faults = this.faults.filter((candidate) => candidate !== fault);
+      }
+    }
+    return fault;
+  }
+
+  /**
+   * Dispatches a request to the resource operation it addresses.
+   *
+   * @param request - Authenticated request
+   * @returns Response
+   */
+  private route(request: MockRequest): TransportResponse {
+    const [base, ...segments] = request.path.split('/').filter(Boolean);
+    const entry = (Object.entries(MOCK_ROUTES) as [MockResourceName, MockRoute][]).find(
+      ([, route]) => route.path === `/${base}`
+    );
+    if (!entry) {
+      return this.error(404, 'ROUTE_NOT_FOUND', `No mock route for ${request.method} ${request.path}`);
+    }
+
+    const [resource, route] = entry;
+    const [first, second] = segments.map(decodeURIComponent);
+    const { method } = request;
+
+    if (segments.length === 0) {
+      if (method === 'GET') return this.ok(this.list(this.records(resource), request.query));
+      if (method === 'POST') return this.create(resource, request.body);
+      if ((method === 'PATCH' || method === 'PUT') && !route.updateById) {
+        return this.update(resource, (request.body as MockRecord | undefined)?.id, request.body);
+      }
+    }
+
+    if (method === 'POST' && segments.length === 1 && first === 'batch') {
+      return this.createBatch(resource, request.body);
+    }
+
+    if (method === 'GET' && first?.startsWith('by-')) {
+      return this.lookup(resource, route, first.slice('by-'.length), second, request.query);
+    }
+
+    if (method === 'GET' && segments.length === 2 && route.findBy?.[first]) {
+      const field = route.findBy[first];
+      const match = this.records(resource).find((record) => String(record[field]) === second);
+      return this.ok(match ?? null);
+    }
+
+    if (segments.length === 1) {
+      if (method === 'GET') return this.get(resource, first);
+      if (method === 'DELETE') return this.remove(resource, first);
+      if ((method === 'PATCH' || method === 'PUT') && route.updateById) {
+        return this.update(resource, first, request.body);
+      }
+    }
+
+    if (segments.length === 2 && method === 'PATCH' && second === 'status') {
+      return this.update(resource, first, { status: (request.body as MockRecord | undefined)?.status });
+    }
+
+    if (segments.length === 2 && method === 'POST' && second === 'cancel' && route.cancelledStatus) {
+      const body = (request.body ?? {}) as MockRecord;
+      const reason = body.cancelReason ?? body.reason;
+      return this.update(resource, first, {
+        status: route.cancelledStatus,
+        ...(reason !== undefined ? { cancelReason: reason } : {}),
+      });
+    }
+
+    return this.error(404, 'ROUTE_NOT_FOUND', `No mock route for ${request.method} ${request.path}`);
+  }
+
+  /**
+   * Serves a `by-*` lookup.
+   *
+   * @param resource - Resource name
+   * @param route - Resource route
+   * @param name - Lookup name, such as `customer` or `status`
+   * @param value - Path value of the lookup, if any
+   * @param query - Query parameters
+   * @returns Paginated response
+   */
+  private lookup(
+    resource: MockResourceName,
+    route: MockRoute,
+    name: string,
+    value: string | undefined,
+    query: URLSearchParams
+  ): TransportResponse {
+    let records = this.records(resource);
+
+    if (value !== undefined) {
+      const field = route.lookups?.[name];
+      if (!field) {
+        return this.error(404, 'ROUTE_NOT_FOUND', `No mock route for ${route.path}/by-${name}/${value}`);
+      }
+      records = records.filter((record) => String(record[field]) === value);
+      return this.ok(this.list(records, query));
+    }
+
+    if (name === 'date-range' && route.dateRange) {
+      const { field, start, end } = route.dateRange;
+      const from = Number(query.get(start) ?? -Infinity);
+      const to = Number(query.get(end) ?? Infinity);
+      records = records.filter((record) => {
+        const time = Number(record[field]);
+        return time >= from && time <= to;
+      });
+      return this.ok(this.list(records, query, [start, end]));
+    }
+
+    // Lookups such as by-status take their value from the query string
+    return this.ok(this.list(records, query));
+  }
+
+  /**
+   * Filters, sorts, and paginates records.
+   *
+   * @param records - Records to list
+   * @param query - Query parameters with paging, sorting, and field filters
+   * @param ignored - Query parameters that are not field filters
+   * @returns Paginated result
+   */
+  private list(records: MockRecord[], query: URLSearchParams, ignored: string[] = []): unknown {
+    const filters = [...new Set(query.keys())].filter(
+      (name) => !PAGING_PARAMS.includes(name) && !ignored.includes(name)
+    );
+    const matching = records.filter((record) =>
+      filters.every((name) => query.getAll(name).includes(String(record[name])))
+    );
+
+    const sortBy = query.get('sortBy');
+    if (sortBy) {
+      const direction = query.get('sortDirection') === 'desc' ? -1 : 1;
+      matching.sort((a, b) => compare(a[sortBy], b[sortBy]) * direction);
+    }
+
+    const page = Math.max(1, Number(query.get('page') ?? 1));
+    const pageSize = Math.max(1, Number(query.get('pageSize') ?? DEFAULT_PAGE_SIZE));
+    const totalPages = Math.ceil(matching.length / pageSize);
+
+    return {
+      data: matching.slice((page - 1) * pageSize, page * pageSize),
+      meta: {
+        page,
+        pageSize,
+        totalCount: matching.length,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Creates a record from a request body.
+   *
+   * @param resource - Resource name
+   * @param body - Request body
+   * @returns Created response, or an error when the body is invalid or the ID is taken
+   */
+  private create(resource: MockResourceName, body: unknown): TransportResponse {
+    if (!isRecord(body)) {
+      return this.error(400, 'VALIDATION_ERROR', 'Request body must be an object');
+    }
+    if (typeof body.id === 'string' && this.store(resource).has(body.id)) {
+      return this.error(409, 'CONFLICT', `${resource} ${body.id} already exists`);
+    }
+    return this.ok(this.insert(resource, body), 201);
+  }
+
+  /**
+   * Creates records from a batch request body.
+   *
+   * @param resource - Resource name
+   * @param body - Request body
+   * @returns Created response with a paginated result, or an error when the body is invalid
+   */
+  private createBatch(resource: MockResourceName, body: unknown): TransportResponse {
+    if (!Array.isArray(body) || !body.every(isRecord)) {
+      return this.error(400, 'VALIDATION_ERROR', 'Request body must be an array of objects');
+    }
+
+    const created = this.seed(resource, body);
+    return this.ok(this.list(created, new URLSearchParams({ pageSize: String(created.length || 1) })), 201);
+  }
+
+  /**
+   * Returns a record by ID.
+   *
+   * @param resource - Resource name
+   * @param id - Record ID
+   * @returns Response with the record, or a not-found error
+   */
+  private get(resource: MockResourceName, id: string): TransportResponse {
+    const record = this.store(resource).get(id);
+    return record ? this.ok({ ...record }) : this.notFound(resource, id);
+  }
+
+  /**
+   * Merges changes into a record.
+   *
+   * @param resource - Resource name
+   * @param id - Record ID
+   * @param changes - Fields to change
+   * @returns Response with the updated record, or an error
+   */
+  private update(resource: MockResourceName, id: unknown, changes: unknown): TransportResponse {
+    if (typeof id !== 'string') {
+      return this.error(400, 'VALIDATION_ERROR', 'Record id is required');
+    }
+    if (!isRecord(changes)) {
+      return this.error(400, 'VALIDATION_ERROR', 'Request body must be an object');
+    }
+
+    const store = this.store(resource);
+    const record = store.get(id);
+    if (!record) {
+      return this.notFound(resource, id);
+    }
+
+    const updated = { ...record, ...changes, id, createdAt: record.createdAt, updatedAt: Date.now() };
+    store.set(id, updated);
+    return this.ok({ ...updated });
+  }
+
+  /**
+   * Deletes a record.
+   *
+   * @param resource - Resource name
+   * @param id - Record ID
+   * @returns Response with `true`, or a not-found error
+   */
+  private remove(resource: MockResourceName, id: string): TransportResponse {
+    return this.store(resource).delete(id) ? this.ok(true) : this.notFound(resource, id);
+  }
+
+  /**
+   * Stores a record, filling in its ID, initial status, and timestamps.
+   *
+   * @param resource - Resource name
+   * @param record - Record to store
+   * @returns Copy of the stored record
+   */
+  private insert(resource: MockResourceName, record: MockRecord): MockRecord {
+    const route: MockRoute = MOCK_ROUTES[resource];
+    const now = Date.now();
+    const stored: MockRecord = {
+      ...(route.initialStatus !== undefined ? { status: route.initialStatus } : {}),
+      createdAt: now,
+      updatedAt: now,
+      ...record,
+      id: typeof record.id === 'string' ? record.id : `${route.idPrefix}_${this.nextId++}`,
+    };
+
+    this.store(resource).set(stored.id as string, stored);
+    return { ...stored };
+  }
+
+  /**
+   * Returns the storage of a resource, creating it on first use.
+   *
+   * @param resource - Resource name
+   * @returns Records keyed by ID
+   */
+  private store(resource: MockResourceName): Map<string, MockRecord> {
+    let store = this.stores.get(resource);
+    if (!store) {
+      store = new Map();
+      this.stores.set(resource, store);
+    }
+    return store;
+  }
+
+  /**
+   * Builds a successful response envelope.
+   *
+   * @param data - Response data
+   * @param status - HTTP status
+   * @returns Response
+   */
+  private ok(data: unknown, status = 200): TransportResponse {
+    return {
+      status,
+      headers: this.headers(),
+      data: { success: true, data, metadata: { timestamp: Date.now(), version: 'v1' } },
+    };
+  }
+
+  /**
+   * Builds an API error envelope.
+   *
+   * @param status - HTTP status
+   * @param code - Error code
+   * @param message - Error message
+   * @returns Response
+   */
+  private error(status: number, code: string, message: string): TransportResponse {
+    return {
+      status,
+      headers: this.headers(),
+      data: { success: false, status, code, message, timestamp: new Date().toISOString() },
+    };
+  }
+
+  /**
+   * Builds a not-found error for a record.
+   *
+   * @param resource - Resource name
+   * @param id - Record ID
+   * @returns Response
+   */
+  private notFound(resource: MockResourceName, id: string): TransportResponse {
+    return this.error(404, 'NOT_FOUND', `${resource} ${id} not found`);
+  }
+
+  /**
+   * Builds the headers sent with every response.
+   *
+   * @returns Response headers
+   */
+  private headers(): Record<string, string> {
+    return {
+      'content-type': 'application/json',
+      'x-request-id': `req_mock_${this.requests.length}`,
+    };
+  }
+}
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - Value to check
+ * @returns True if the value is a non-array object
+ *
+ * @internal
+ */
+function isRecord(value: unknown): value is MockRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compares two field values for sorting.
+ *
+ * @param a - First value
+ * @param b - Second value
+ * @returns Negative, zero, or positive like `Array.prototype.sort` comparators
+ *
+ * @internal
+ */
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+/**
+ * Creates an error like the ones Node.js reports when no response is received.
+ *
+ * @param code - Error code, such as `ECONNRESET`
+ * @param message - Error message
+ * @returns Error with the code
+ *
+ * @internal
+ */
+function networkError(code: string, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
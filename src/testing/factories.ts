@@ -0,0 +1,365 @@
+/**
+ * @fileoverview Fixture factories for the objects accepted by WIIL resources.
+ * @module testing/factories
+ */
+
+import { ZodType } from 'zod';
+import {
+  CreateAppointmentAdditionalInfoSchema,
+  CreateAppointmentFieldConfigSchema,
+  CreateBusinessLocationSchema,
+  CreateBusinessMenuItemSchema,
+  CreateBusinessProductSchema,
+  CreateBusinessServiceSchema,
+  CreateCallRequestSchema,
+  CreateChainDeploymentConfigurationSchema,
+  CreateCustomerGroupSchema,
+  CreateCustomerSchema,
+  CreateDeploymentChannelSchema,
+  CreateDeploymentConfigurationSchema,
+  CreateDiscountRuleSchema,
+  CreateEmailRequestSchema,
+  CreateEmailTemplateSchema,
+  CreateFloorPlanDefinitionSchema,
+  CreateFloorPlanSchema,
+  CreateInstructionConfigurationSchema,
+  CreateItemModifierBindingSchema,
+  CreateMaintenanceBlockSchema,
+  CreateMenuCategorySchema,
+  CreateMenuItemVariantSchema,
+  CreateMenuOrderSchema,
+  CreateMenuPricingRuleSchema,
+  CreateMenuSetSchema,
+  CreateModifierGroupSchema,
+  CreateModifierOptionSchema,
+  CreatePhoneNumberPurchaseSchema,
+  CreateProductAxisBindingSchema,
+  CreateProductCategorySchema,
+  CreateProductOrderSchema,
+  CreateProductPricingRuleSchema,
+  CreateProductSetSchema,
+  CreateProductVariantSchema,
+  CreateProjectSchema,
+  CreatePropertyAddressSchema,
+  CreatePropertyCategorySchema,
+  CreatePropertyInquirySchema,
+  CreatePropertySchema,
+  CreateRentalReservationSchema,
+  CreateReservationSettingsSchema,
+  CreateResourceCategorySchema,
+  CreateResourceInstanceSchema,
+  CreateResourceSchema,
+  CreateRoomReservationSchema,
+  CreateSectionSchema,
+  CreateServiceAppointmentSchema,
+  CreateServiceCategorySchema,
+  CreateServicePersonSchema,
+  CreateServicePricingRuleSchema,
+  CreateServiceProviderSchema,
+  CreateServiceProviderTimeOffSchema,
+  CreateShippingAddressSchema,
+  CreateSmsRequestSchema,
+  CreateSmsTemplateSchema,
+  CreateTablePlacementSchema,
+  CreateTableReservationSchema,
+  CreateTaxRuleSchema,
+  CreateTextKnowledgeSourceSchema,
+  CreateTranslationChainConfigSchema,
+  CreateVariantAxisSchema,
+  CreateWhatsappTemplateSchema,
+  UpdateAppointmentAdditionalInfoSchema,
+  UpdateAppointmentFieldConfigSchema,
+  UpdateBusinessLocationSchema,
+  UpdateBusinessMenuItemSchema,
+  UpdateBusinessProductSchema,
+  UpdateBusinessServiceSchema,
+  UpdateCallRequestSchema,
+  UpdateCustomerGroupSchema,
+  UpdateCustomerSchema,
+  UpdateDeploymentConfigurationSchema,
+  UpdateDiscountRuleSchema,
+  UpdateEmailRequestSchema,
+  UpdateEmailTemplateSchema,
+  UpdateFloorPlanSchema,
+  UpdateInstructionConfigurationSchema,
+  UpdateItemModifierBindingSchema,
+  UpdateMaintenanceBlockSchema,
+  UpdateMenuCategorySchema,
+  UpdateMenuItemVariantSchema,
+  UpdateMenuOrderSchema,
+  UpdateMenuPricingRuleSchema,
+  UpdateMenuSetSchema,
+  UpdateModifierGroupSchema,
+  UpdateModifierOptionSchema,
+  UpdatePhoneConfigurationSchema,
+  UpdateProductAxisBindingSchema,
+  UpdateProductCategorySchema,
+  UpdateProductOrderSchema,
+  UpdateProductPricingRuleSchema,
+  UpdateProductSetSchema,
+  UpdateProductVariantSchema,
+  UpdateProjectSchema,
+  UpdatePropertyAddressSchema,
+  UpdatePropertyCategorySchema,
+  UpdatePropertyInquirySchema,
+  UpdatePropertyInquiryStatusSchema,
+  UpdatePropertySchema,
+  UpdateRentalReservationSchema,
+  UpdateReservationSettingsSchema,
+  UpdateResourceCategorySchema,
+  UpdateResourceInstanceSchema,
+  UpdateResourceSchema,
+  UpdateRoomReservationSchema,
+  UpdateSectionSchema,
+  UpdateServiceAppointmentSchema,
+  UpdateServiceCategorySchema,
+  UpdateServicePersonSchema,
+  UpdateServicePricingRuleSchema,
+  UpdateServiceProviderSchema,
+  UpdateServiceProviderTimeOffSchema,
+  UpdateShippingAddressSchema,
+  UpdateSmsRequestSchema,
+  UpdateSmsTemplateSchema,
+  UpdateTablePlacementSchema,
+  UpdateTableReservationSchema,
+  UpdateTaxRuleSchema,
+  UpdateTranslationChainConfigSchema,
+  UpdateVariantAxisSchema,
+  UpdateWhatsappTemplateSchema,
+} from 'wiil-core-js';
+import { Factory, FactoryContext, FactoryRelation } from './factory';
+
+/**
+ * Seed used when none is given.
+ *
+ * @internal
+ */
+const DEFAULT_SEED = 1;
+
+/**
+ * Options for creating a set of fixture factories.
+ */
+export interface FactoryOptions {
+  /**
+   * Seed for generated values. The same seed and build order always produce
+   * the same objects.
+   *
+   * @defaultValue 1
+   */
+  seed?: number;
+
+  /**
+   * Whether optional fields are filled in. When false, built objects only
+   * contain required fields and overrides.
+   *
+   * @defaultValue false
+   */
+  includeOptional?: boolean;
+}
+
+/**
+ * Creates a set of fixture factories sharing one seeded random sequence.
+ *
+ * @param options - Seed and generation options
+ * @returns Factories for every create and update payload, keyed by payload name
+ *
+ * @remarks
+ * Create payloads are keyed by resource name (`CreateCustomer` is `customer`)
+ * and update payloads by their type name (`UpdateCustomer` is
+ * `updateCustomer`). Call `reset()` to restart the sequence, for example in
+ * `beforeEach`.
+ *
+ * @example
+ * ```typescript
+ * import { createFactories } from 'wiil-js/testing';
+ *
+ * const factories = createFactories({ seed: 42 });
+ * const { data: appointment, related } = factories.serviceAppointment.buildWithRelations();
+ * // appointment.customerId === related.customer.id
+ * ```
+ */
+export function createFactories(options: FactoryOptions = {}) {
+  const context = new FactoryContext(options.seed ?? DEFAULT_SEED, options.includeOptional ?? false);
+  const define = <S extends ZodType, R extends string = never>(
+    name: string,
+    schema: S,
+    relations?: Record<R, FactoryRelation>
+  ) => new Factory<S, R>(name, schema, context, relations);
+  const link =
+    (name: 'customer' | 'businessService' | 'resource') =>
+    (): Factory<ZodType, string> =>
+      registry[name];
+
+  const registry = {
+    // Create payloads
+    appointmentAdditionalInfo: define('appointmentAdditionalInfo', CreateAppointmentAdditionalInfoSchema),
+    appointmentFieldConfig: define('appointmentFieldConfig', CreateAppointmentFieldConfigSchema),
+    businessLocation: define('businessLocation', CreateBusinessLocationSchema),
+    businessMenuItem: define('businessMenuItem', CreateBusinessMenuItemSchema),
+    businessProduct: define('businessProduct', CreateBusinessProductSchema),
+    businessService: define('businessService', CreateBusinessServiceSchema),
+    callRequest: define('callRequest', CreateCallRequestSchema, {
+      agentConfiguration: { field: 'agentConfigurationId' },
+    }),
+    chainDeploymentConfiguration: define('chainDeploymentConfiguration', CreateChainDeploymentConfigurationSchema),
+    customerGroup: define('customerGroup', CreateCustomerGroupSchema),
+    customer: define('customer', CreateCustomerSchema),
+    deploymentChannel: define('deploymentChannel', CreateDeploymentChannelSchema),
+    deploymentConfiguration: define('deploymentConfiguration', CreateDeploymentConfigurationSchema),
+    discountRule: define('discountRule', CreateDiscountRuleSchema),
+    emailRequest: define('emailRequest', CreateEmailRequestSchema),
+    emailTemplate: define('emailTemplate', CreateEmailTemplateSchema),
+    floorPlanDefinition: define('floorPlanDefinition', CreateFloorPlanDefinitionSchema),
+    floorPlan: define('floorPlan', CreateFloorPlanSchema),
+    instructionConfiguration: define('instructionConfiguration', CreateInstructionConfigurationSchema),
+    itemModifierBinding: define('itemModifierBinding', CreateItemModifierBindingSchema),
+    maintenanceBlock: define('maintenanceBlock', CreateMaintenanceBlockSchema),
+    menuCategory: define('menuCategory', CreateMenuCategorySchema),
+    menuItemVariant: define('menuItemVariant', CreateMenuItemVariantSchema),
+    menuOrder: define('menuOrder', CreateMenuOrderSchema, {
+      customer: { field: 'customerId', factory: link('customer') },
+    }),
+    menuPricingRule: define('menuPricingRule', CreateMenuPricingRuleSchema),
+    menuSet: define('menuSet', CreateMenuSetSchema),
+    modifierGroup: define('modifierGroup', CreateModifierGroupSchema),
+    modifierOption: define('modifierOption', CreateModifierOptionSchema),
+    phoneNumberPurchase: define('phoneNumberPurchase', CreatePhoneNumberPurchaseSchema),
+    productAxisBinding: define('productAxisBinding', CreateProductAxisBindingSchema),
+    productCategory: define('productCategory', CreateProductCategorySchema),
+    productOrder: define('productOrder', CreateProductOrderSchema, {
+      customer: { field: 'customerId', factory: link('customer') },
+    }),
+    productPricingRule: define('productPricingRule', CreateProductPricingRuleSchema),
+    productSet: define('productSet', CreateProductSetSchema),
+    productVariant: define('productVariant', CreateProductVariantSchema),
+    project: define('project', CreateProjectSchema),
+    propertyAddress: define('propertyAddress', CreatePropertyAddressSchema),
+    propertyCategory: define('propertyCategory', CreatePropertyCategorySchema),
+    propertyInquiry: define('propertyInquiry', CreatePropertyInquirySchema),
+    property: define('property', CreatePropertySchema),
+    rentalReservation: define('rentalReservation', CreateRentalReservationSchema),
+    reservationSettings: define('reservationSettings', CreateReservationSettingsSchema),
+    resourceCategory: define('resourceCategory', CreateResourceCategorySchema),
+    resourceInstance: define('resourceInstance', CreateResourceInstanceSchema),
+    resource: define('resource', CreateResourceSchema),
+    roomReservation: define('roomReservation', CreateRoomReservationSchema, {
+      guest: { field: 'guestId', factory: link('customer') },
+      resource: { field: 'resourceId', factory: link('resource') },
+    }),
+    section: define('section', CreateSectionSchema),
+    serviceAppointment: define('serviceAppointment', CreateServiceAppointmentSchema, {
+      customer: { field: 'customerId', factory: link('customer') },
+      businessService: { field: 'businessServiceId', factory: link('businessService') },
+    }),
+    serviceCategory: define('serviceCategory', CreateServiceCategorySchema),
+    servicePerson: define('servicePerson', CreateServicePersonSchema),
+    servicePricingRule: define('servicePricingRule', CreateServicePricingRuleSchema),
+    serviceProvider: define('serviceProvider', CreateServiceProviderSchema),
+    serviceProviderTimeOff: define('serviceProviderTimeOff', CreateServiceProviderTimeOffSchema),
+    shippingAddress: define('shippingAddress', CreateShippingAddressSchema, {
+      customer: { field: 'customerId', factory: link('customer') },
+    }),
+    smsRequest: define('smsRequest', CreateSmsRequestSchema),
+    smsTemplate: define('smsTemplate', CreateSmsTemplateSchema),
+    tablePlacement: define('tablePlacement', CreateTablePlacementSchema),
+    tableReservation: define('tableReservation', CreateTableReservationSchema, {
+      customer: { field: 'customerId', factory: link('customer') },
+      resource: { field: 'resourceId', factory: link('resource') },
+    }),
+    taxRule: define('taxRule', CreateTaxRuleSchema),
+    textKnowledgeSource: define('textKnowledgeSource', CreateTextKnowledgeSourceSchema),
+    translationChainConfig: define('translationChainConfig', CreateTranslationChainConfigSchema),
+    variantAxis: define('variantAxis', CreateVariantAxisSchema),
+    whatsappTemplate: define('whatsappTemplate', CreateWhatsappTemplateSchema),
+
+    // Update payloads
+    updateAppointmentAdditionalInfo: define('updateAppointmentAdditionalInfo', UpdateAppointmentAdditionalInfoSchema),
+    updateAppointmentFieldConfig: define('updateAppointmentFieldConfig', UpdateAppointmentFieldConfigSchema),
+    updateBusinessLocation: define('updateBusinessLocation', UpdateBusinessLocationSchema),
+    updateBusinessMenuItem: define('updateBusinessMenuItem', UpdateBusinessMenuItemSchema),
+    updateBusinessProduct: define('updateBusinessProduct', UpdateBusinessProductSchema),
+    updateBusinessService: define('updateBusinessService', UpdateBusinessServiceSchema),
+    updateCallRequest: define('updateCallRequest', UpdateCallRequestSchema),
+    updateCustomerGroup: define('updateCustomerGroup', UpdateCustomerGroupSchema),
+    updateCustomer: define('updateCustomer', UpdateCustomerSchema),
+    updateDeploymentConfiguration: define('updateDeploymentConfiguration', UpdateDeploymentConfigurationSchema),
+    updateDiscountRule: define('updateDiscountRule', UpdateDiscountRuleSchema),
+    updateEmailRequest: define('updateEmailRequest', UpdateEmailRequestSchema),
+    updateEmailTemplate: define('updateEmailTemplate', UpdateEmailTemplateSchema),
+    updateFloorPlan: define('updateFloorPlan', UpdateFloorPlanSchema),
+    updateInstructionConfiguration: define('updateInstructionConfiguration', UpdateInstructionConfigurationSchema),
+    updateItemModifierBinding: define('updateItemModifierBinding', UpdateItemModifierBindingSchema),
+    updateMaintenanceBlock: define('updateMaintenanceBlock', UpdateMaintenanceBlockSchema),
+    updateMenuCategory: define('updateMenuCategory', UpdateMenuCategorySchema),
+    updateMenuItemVariant: define('updateMenuItemVariant', UpdateMenuItemVariantSchema),
+    updateMenuOrder: define('updateMenuOrder', UpdateMenuOrderSchema),
+    updateMenuPricingRule: define('updateMenuPricingRule', UpdateMenuPricingRuleSchema),
+    updateMenuSet: define('updateMenuSet', UpdateMenuSetSchema),
+    updateModifierGroup: define('updateModifierGroup', UpdateModifierGroupSchema),
+    updateModifierOption: define('updateModifierOption', UpdateModifierOptionSchema),
+    updatePhoneConfiguration: define('updatePhoneConfiguration', UpdatePhoneConfigurationSchema),
+    updateProductAxisBinding: define('updateProductAxisBinding', UpdateProductAxisBindingSchema),
+    updateProductCategory: define('updateProductCategory', UpdateProductCategorySchema),
+    updateProductOrder: define('updateProductOrder', UpdateProductOrderSchema),
+    updateProductPricingRule: define('updateProductPricingRule', UpdateProductPricingRuleSchema),
+    updateProductSet: define('updateProductSet', UpdateProductSetSchema),
+    updateProductVariant: define('updateProductVariant', UpdateProductVariantSchema),
+    updateProject: define('updateProject', UpdateProjectSchema),
+    updatePropertyAddress: define('updatePropertyAddress', UpdatePropertyAddressSchema),
+    updatePropertyCategory: define('updatePropertyCategory', UpdatePropertyCategorySchema),
+    updatePropertyInquiry: define('updatePropertyInquiry', UpdatePropertyInquirySchema),
+    updatePropertyInquiryStatus: define('updatePropertyInquiryStatus', UpdatePropertyInquiryStatusSchema),
+    updateProperty: define('updateProperty', UpdatePropertySchema),
+    updateRentalReservation: define('updateRentalReservation', UpdateRentalReservationSchema),
+    updateReservationSettings: define('updateReservationSettings', UpdateReservationSettingsSchema),
+    updateResourceCategory: define('updateResourceCategory', UpdateResourceCategorySchema),
+    updateResourceInstance: define('updateResourceInstance', UpdateResourceInstanceSchema),
+    updateResource: define('updateResource', UpdateResourceSchema),
+    updateRoomReservation: define('updateRoomReservation', UpdateRoomReservationSchema),
+    updateSection: define('updateSection', UpdateSectionSchema),
+    updateServiceAppointment: define('updateServiceAppointment', UpdateServiceAppointmentSchema),
+    updateServiceCategory: define('updateServiceCategory', UpdateServiceCategorySchema),
+    updateServicePerson: define('updateServicePerson', UpdateServicePersonSchema),
+    updateServicePricingRule: define('updateServicePricingRule', UpdateServicePricingRuleSchema),
+    updateServiceProvider: define('updateServiceProvider', UpdateServiceProviderSchema),
+    updateServiceProviderTimeOff: define('updateServiceProviderTimeOff', UpdateServiceProviderTimeOffSchema),
+    updateShippingAddress: define('updateShippingAddress', UpdateShippingAddressSchema),
+    updateSmsRequest: define('updateSmsRequest', UpdateSmsRequestSchema),
+    updateSmsTemplate: define('updateSmsTemplate', UpdateSmsTemplateSchema),
+    updateTablePlacement: define('updateTablePlacement', UpdateTablePlacementSchema),
+    updateTableReservation: define('updateTableReservation', UpdateTableReservationSchema),
+    updateTaxRule: define('updateTaxRule', UpdateTaxRuleSchema),
+    updateTranslationChainConfig: define('updateTranslationChainConfig', UpdateTranslationChainConfigSchema),
+    updateVariantAxis: define('updateVariantAxis', UpdateVariantAxisSchema),
+    updateWhatsappTemplate: define('updateWhatsappTemplate', UpdateWhatsappTemplateSchema),
+  };
+
+  return Object.assign(registry, {
+    /**
+     * Restarts the random sequence and sequence numbers of every factory.
+     *
+     * @param seed - New seed; defaults to the current one
+     */
+    reset: (seed?: number) => context.reset(seed),
+  });
+}
+
+/**
+ * Set of fixture factories returned by {@link createFactories}.
+ */
+export type WiilFactories = ReturnType<typeof createFactories>;
+
+/**
+ * Default fixture factories, seeded with 1.
+ *
+ * @example
+ * ```typescript
+ * import { factories } from 'wiil-js/testing';
+ *
+ * beforeEach(() => factories.reset());
+ *
+ * const customer = factories.customer.build({ overrides: { email: 'ada@example.com' } });
+ * const update = factories.updateCustomer.build({ overrides: { id: customer.id } });
+ * ```
+ */
+export const factories: WiilFactories = createFactories();
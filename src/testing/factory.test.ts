@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Tests for schema-driven fixture factories.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { WiilValidationError } from '../errors/WiilError';
+import { Factory, FactoryContext } from './factory';
+
+const CustomerSchema = z.object({
+  firstname: z.string().min(1).max(50),
+  lastname: z.string().min(1),
+  email: z.email(),
+  phone_number: z.string().regex(/^\+[1-9]\d{1,14}$/),
+  tier: z.enum(['standard', 'gold']),
+  notes: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+});
+
+const ServiceSchema = z.object({
+  name: z.string().min(3),
+  duration: z.number().int().min(15).max(240),
+  price: z.number().nonnegative(),
+});
+
+const AppointmentSchema = z
+  .object({
+    customerId: z.string(),
+    businessServiceId: z.string(),
+    startTime: z.number(),
+    endTime: z.number(),
+    details: z.object({ channel: z.literal('phone'), notes: z.string().nullable() }),
+  })
+  .refine((value) => value.endTime > value.startTime, { path: ['endTime'] });
+
+const createFactories = (seed = 1, includeOptional = false) => {
+  const context = new FactoryContext(seed, includeOptional);
+  const customer = new Factory('customer', CustomerSchema, context);
+  const businessService = new Factory('businessService', ServiceSchema, context);
+  const appointment = new Factory('appointment', AppointmentSchema, context, {
+    customer: { field: 'customerId', factory: () => customer },
+    businessService: { field: 'businessServiceId', factory: () => businessService },
+  });
+  return { context, customer, businessService, appointment };
+};
+
+describe('Factory', () => {
+  it('should build objects that satisfy the schema', () => {
+    const { customer, businessService } = createFactories();
+
+    const built = customer.build();
+
+    expect(CustomerSchema.safeParse(built).success).toBe(true);
+    expect(built.email).toBe('user1@example.com');
+    expect(built.notes).toBeUndefined();
+    expect(built.tags).toEqual([]);
+    expect(businessService.buildList(5).every((item) => ServiceSchema.safeParse(item).success)).toBe(true);
+  });
+
+  it('should produce the same objects for the same seed', () => {
+    const first = createFactories(42);
+    const second = createFactories(42);
+
+    expect(first.customer.buildList(3)).toEqual(second.customer.buildList(3));
+    expect(createFactories(7).customer.buildList(3)).not.toEqual(createFactories(42).customer.buildList(3));
+  });
+
+  it('should restart the sequence on reset', () => {
+    const { context, customer } = createFactories();
+    const before = customer.buildList(2);
+
+    context.reset();
+
+    expect(customer.buildList(2)).toEqual(before);
+  });
+
+  it('should apply nested overrides', () => {
+    const { appointment } = createFactories();
+
+    const built = appointment.build({ overrides: { customerId: 'cust_1', details: { notes: 'Window seat' } } });
+
+    expect(built.customerId).toBe('cust_1');
+    expect(built.details).toEqual({ channel: 'phone', notes: 'Window seat' });
+  });
+
+  it('should fill in optional fields when requested', () => {
+    const { customer } = createFactories(1, true);
+
+    expect(customer.build().notes).toEqual(expect.any(String));
+  });
+
+  it('should link objects to related records', () => {
+    const { appointment } = createFactories();
+
+    const built = appointment.build({ related: { customer: { id: 'cust_42' } } });
+    const { data, related } = appointment.buildWithRelations();
+
+    expect(built.customerId).toBe('cust_42');
+    expect(data.customerId).toBe(related.customer.id);
+    expect(data.businessServiceId).toBe(related.businessService.id);
+    expect(CustomerSchema.safeParse(related.customer).success).toBe(true);
+    expect(ServiceSchema.safeParse(related.businessService).success).toBe(true);
+  });
+
+  it('should name the fields to override when a build is invalid', () => {
+    const { context } = createFactories();
+    const factory = new Factory(
+      'coupon',
+      z.object({ code: z.string().refine((value) => value.startsWith('WIIL-')) }),
+      context
+    );
+
+    expect(() => factory.build()).toThrow(WiilValidationError);
+    expect(() => factory.build()).toThrow(/pass overrides for: code/);
+    expect(factory.build({ overrides: { code: 'WIIL-10' } }).code).toBe('WIIL-10');
+  });
+});
@@ -0,0 +1,513 @@
+/**
+ * @fileoverview Generates values that satisfy zod schemas.
+ * @module testing/generate
+ */
+
+import { ZodType } from 'zod';
+
+/**
+ * Timestamp that generated dates and times start from: 2030-01-01T00:00:00Z.
+ *
+ * @remarks
+ * A fixed point in the future keeps builds deterministic and passes
+ * "must be in the future" rules.
+ *
+ * @internal
+ */
+const BASE_TIME = Date.UTC(2030, 0, 1);
+
+/**
+ * One hour in milliseconds.
+ *
+ * @internal
+ */
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Values tried, in order, for strings that must match a pattern.
+ *
+ * @internal
+ */
+const PATTERN_CANDIDATES = [
+  '+14155550123',
+  '09:00',
+  '09:00:00',
+  '2030-01-01',
+  '2030-01-01T09:00:00.000Z',
+  '#336699',
+  'US',
+  'USD',
+  'en',
+  'en-US',
+  'America/New_York',
+  'https://example.com',
+  'user@example.com',
+  'sample-code',
+  'SAMPLE_CODE',
+  'Sample',
+  'sample',
+  'ABC',
+  'abc',
+  '12345',
+];
+
+/**
+ * Words used for generated names and text.
+ *
+ * @internal
+ */
+const WORDS = ['Alder', 'Birch', 'Cedar', 'Dogwood', 'Elm', 'Fir', 'Ginkgo', 'Hazel', 'Juniper', 'Maple'];
+
+/**
+ * Source of randomness and numbering for a single build.
+ *
+ * @internal
+ */
+export interface GenerateContext {
+  /**
+   * Returns a number in [0, 1) from the seeded sequence.
+   */
+  random: () => number;
+
+  /**
+   * Sequence number of the object being built, starting at 1.
+   */
+  sequence: number;
+
+  /**
+   * Whether optional fields are filled in.
+   */
+  includeOptional: boolean;
+}
+
+/**
+ * Definition of a zod schema, as exposed by zod's internals.
+ *
+ * @internal
+ */
+interface SchemaDef {
+  type: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32).
+ *
+ * @param seed - Seed value
+ * @returns Function returning numbers in [0, 1)
+ *
+ * @internal
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a value for a schema, applying overrides.
+ *
+ * @param schema - Schema the value must satisfy
+ * @param context - Randomness and numbering for the build
+ * @param override - Value or partial object that replaces generated values
+ * @param key - Name of the field being generated, used to pick realistic values
+ * @returns Generated value; `undefined` for schemas that cannot be generated
+ *
+ * @remarks
+ * Generation is best effort: refinements and transforms cannot be inspected,
+ * so callers should validate the result against the schema.
+ *
+ * @internal
+ */
+export function generate(
+  schema: ZodType,
+  context: GenerateContext,
+  override?: unknown,
+  key = ''
+): unknown {
+  const def = schemaDef(schema);
+
+  if (override !== undefined && !(isPlainObject(override) && isObjectLike(def))) {
+    return override;
+  }
+
+  switch (def.type) {
+    case 'object':
+      return generateObject(def, context, override as Record<string, unknown> | undefined);
+    case 'string':
+      return generateString(schema, context, key);
+    case 'number':
+      return generateNumber(schema, context, key);
+    case 'bigint':
+      return BigInt(context.sequence);
+    case 'boolean':
+      return context.random() < 0.5;
+    case 'date':
+      return new Date(BASE_TIME + context.sequence * HOUR_MS);
+    case 'literal':
+      return (def.values as unknown[])[0];
+    case 'enum':
+      return pick(Object.values(def.entries as Record<string, unknown>), context);
+    case 'null':
+      return null;
+    case 'array':
+      return Array.from({ length: arrayLength(schema) }, () =>
+        generate(def.element as ZodType, context, undefined, singular(key))
+      );
+    case 'tuple':
+      return (def.items as ZodType[]).map((item) => generate(item, context, undefined, key));
+    case 'record':
+      return {};
+    case 'union':
+      return generateUnion(def.options as ZodType[], context, override, key);
+    case 'intersection':
+      return {
+        ...(generate(def.left as ZodType, context, override, key) as object),
+        ...(generate(def.right as ZodType, context, override, key) as object),
+      };
+    case 'pipe':
+      return generate(def.in as ZodType, context, override, key);
+    case 'lazy':
+      return generate((def.getter as () => ZodType)(), context, override, key);
+    case 'optional':
+    case 'nullable':
+    case 'default':
+    case 'prefault':
+    case 'catch':
+    case 'readonly':
+    case 'nonoptional':
+      return generate(def.innerType as ZodType, context, override, key);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Generates an object, skipping optional fields unless they are requested or overridden.
+ *
+ * @param def - Object schema definition
+ * @param context - Randomness and numbering for the build
+ * @param override - Partial object that replaces generated fields
+ * @returns Generated object
+ */
+function generateObject(
+  def: SchemaDef,
+  context: GenerateContext,
+  override?: Record<string, unknown>
+): Record<string, unknown> {
+  const shape = def.shape as Record<string, ZodType>;
+  const result: Record<string, unknown> = {};
+
+  for (const [field, fieldSchema] of Object.entries(shape)) {
+    const fieldOverride = override?.[field];
+    if (fieldOverride === undefined && isOptional(fieldSchema) && !context.includeOptional) {
+      continue;
+    }
+
+    const value = generate(fieldSchema, context, fieldOverride, field);
+    if (value !== undefined) {
+      result[field] = value;
+    }
+  }
+
+  // Keep overrides for fields the schema does not declare, such as passthrough objects
+  for (const [field, value] of Object.entries(override ?? {})) {
+    if (!(field in shape)) {
+      result[field] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Generates a value for the first union option that accepts it.
+ *
+ * @param options - Union options
+ * @param context - Randomness and numbering for the build
+ * @param override - Value or partial object that replaces generated values
+ * @param key - Name of the field being generated
+ * @returns Generated value
+ */
+function generateUnion(
+  options: ZodType[],
+  context: GenerateContext,
+  override: unknown,
+  key: string
+): unknown {
+  let first: unknown;
+  for (const option of options) {
+    const value = generate(option, context, override, key);
+    if (option.safeParse(value).success) {
+      return value;
+    }
+    first ??= value;
+  }
+  return first;
+}
+
+/**
+ * Generates a string that satisfies the schema's format, pattern, and length.
+ *
+ * @param schema - String schema
+ * @param context - Randomness and numbering for the build
+ * @param key - Name of the field being generated
+ * @returns Generated string
+ */
+function generateString(schema: ZodType, context: GenerateContext, key: string): string {
+  const bag = schema._zod.bag as {
+    format?: string;
+    minimum?: number;
+    maximum?: number;
+    patterns?: Set<RegExp>;
+  };
+
+  const formatted = bag.format ? formatValue(bag.format, context) : undefined;
+  let value = fitLength(formatted ?? fieldValue(key, context), bag.minimum, bag.maximum);
+
+  const patterns = [...(bag.patterns ?? [])];
+  const matches = (candidate: string) => patterns.every((pattern) => pattern.test(candidate));
+  if (!matches(value)) {
+    value = PATTERN_CANDIDATES.find(matches) ?? value;
+  }
+  return value;
+}
+
+/**
+ * Generates a number within the schema's bounds.
+ *
+ * @param schema - Number schema
+ * @param context - Randomness and numbering for the build
+ * @param key - Name of the field being generated
+ * @returns Generated number
+ */
+function generateNumber(schema: ZodType, context: GenerateContext, key: string): number {
+  const bag = schema._zod.bag as {
+    format?: string;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+  };
+  const integer = bag.format !== undefined && bag.format.includes('int');
+  const step = integer ? 1 : 0.01;
+  const bounded = (value?: number) =>
+    value !== undefined && Math.abs(value) < Number.MAX_SAFE_INTEGER ? value : undefined;
+
+  const min = bounded(bag.minimum) ?? (bag.exclusiveMinimum !== undefined ? bag.exclusiveMinimum + step : undefined);
+  const max = bounded(bag.maximum) ?? (bag.exclusiveMaximum !== undefined ? bag.exclusiveMaximum - step : undefined);
+
+  if (min === undefined && max === undefined && /(time|date|at)$/i.test(key)) {
+    // Timestamps: keep end times after start times
+    return BASE_TIME + context.sequence * HOUR_MS + (/^end|until|to$/i.test(key) ? HOUR_MS : 0);
+  }
+
+  const low = min ?? (max !== undefined ? Math.min(1, max) : 1);
+  const high = max ?? low + 99;
+  let value = low + context.random() * (high - low);
+
+  if (bag.multipleOf) {
+    value = Math.max(low, Math.floor(value / bag.multipleOf) * bag.multipleOf);
+  }
+  return integer ? Math.max(Math.ceil(low), Math.floor(value)) : Math.round(value * 100) / 100;
+}
+
+/**
+ * Returns a value in a well-known string format.
+ *
+ * @param format - zod string format name
+ * @param context - Randomness and numbering for the build
+ * @returns Formatted value, or undefined for formats without a generator
+ */
+function formatValue(format: string, context: GenerateContext): string | undefined {
+  const hex = (length: number) =>
+    Array.from({ length }, () => Math.floor(context.random() * 16).toString(16)).join('');
+  const alphanumeric = (length: number, alphabet = '0123456789abcdefghijklmnopqrstuvwxyz') =>
+    Array.from({ length }, () => alphabet[Math.floor(context.random() * alphabet.length)]).join('');
+
+  switch (format) {
+    case 'email':
+      return `user${context.sequence}@example.com`;
+    case 'url':
+      return `https://example.com/${context.sequence}`;
+    case 'uuid':
+    case 'guid':
+      return `${hex(8)}-${hex(4)}-4${hex(3)}-8${hex(3)}-${hex(12)}`;
+    case 'cuid':
+      return `c${alphanumeric(24)}`;
+    case 'cuid2':
+      return alphanumeric(24, 'abcdefghijklmnopqrstuvwxyz');
+    case 'ulid':
+      return alphanumeric(26, '0123456789ABCDEFGHJKMNPQRSTVWXYZ');
+    case 'nanoid':
+      return alphanumeric(21);
+    case 'datetime':
+      return new Date(BASE_TIME + context.sequence * HOUR_MS).toISOString();
+    case 'date':
+      return new Date(BASE_TIME + context.sequence * 24 * HOUR_MS).toISOString().slice(0, 10);
+    case 'time':
+      return '09:00:00';
+    case 'e164':
+      return `+1415555${String(context.sequence % 10000).padStart(4, '0')}`;
+    case 'ipv4':
+      return '192.0.2.1';
+    case 'ipv6':
+      return '2001:db8::1';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Returns a realistic value for a string field based on its name.
+ *
+ * @param key - Field name
+ * @param context - Randomness and numbering for the build
+ * @returns Generated string
+ */
+function fieldValue(key: string, context: GenerateContext): string {
+  const name = key.toLowerCase().replace(/_/g, '');
+  const word = pick(WORDS, context);
+  const sequence = context.sequence;
+
+  if (name.includes('email')) return `user${sequence}@example.com`;
+  if (name.includes('phone') || name === 'to' || name === 'from') {
+    return `+1415555${String(sequence % 10000).padStart(4, '0')}`;
+  }
+  if (name.includes('url') || name.includes('website') || name.includes('link')) {
+    return `https://example.com/${word.toLowerCase()}`;
+  }
+  if (name.includes('timezone')) return 'America/New_York';
+  if (name.includes('currency')) return 'USD';
+  if (name.includes('country')) return 'US';
+  if (name.includes('language') || name.includes('locale')) return 'en';
+  if (name.includes('postal') || name.includes('zip')) return '10001';
+  if (name === 'state') return 'NY';
+  if (name === 'city') return 'New York';
+  if (name.includes('street') || name.includes('address')) return `${sequence} Main St`;
+  if (name.includes('color')) return '#336699';
+  if (name.endsWith('id')) return `${key.replace(/_?[iI][dD]$/, '') || 'id'}_${sequence}`;
+  if (name.includes('firstname')) return word;
+  if (name.includes('lastname')) return `${pick(WORDS, context)}son`;
+  if (name.includes('code') || name.includes('slug') || name.includes('key')) {
+    return `${word.toLowerCase()}-${sequence}`;
+  }
+  return `${word} ${sequence}`;
+}
+
+/**
+ * Pads or trims a string to satisfy length bounds.
+ *
+ * @param value - String to fit
+ * @param min - Minimum length
+ * @param max - Maximum length
+ * @returns String within the bounds
+ */
+function fitLength(value: string, min?: number, max?: number): string {
+  let result = value;
+  if (min !== undefined && result.length < min) {
+    result = result.padEnd(min, 'x');
+  }
+  if (max !== undefined && result.length > max) {
+    result = result.slice(0, max);
+  }
+  return result;
+}
+
+/**
+ * Returns the number of elements to generate for an array schema.
+ *
+ * @param schema - Array schema
+ * @returns At least one element, within the schema's length bounds
+ */
+function arrayLength(schema: ZodType): number {
+  const bag = schema._zod.bag as { minimum?: number; maximum?: number; length?: number };
+  if (bag.length !== undefined) {
+    return bag.length;
+  }
+  return Math.min(Math.max(bag.minimum ?? 1, 1), bag.maximum ?? Infinity);
+}
+
+/**
+ * Picks an element of a list with the seeded random sequence.
+ *
+ * @param values - Values to pick from
+ * @param context - Randomness and numbering for the build
+ * @returns Picked value
+ */
+function pick<T>(values: T[], context: GenerateContext): T {
+  return values[Math.floor(context.random() * values.length)];
+}
+
+/**
+ * Turns a plural field name into the name of one of its elements.
+ *
+ * @param key - Field name, such as `tags`
+ * @returns Singular name, such as `tag`
+ */
+function singular(key: string): string {
+  return key.endsWith('s') ? key.slice(0, -1) : key;
+}
+
+/**
+ * Returns the internal definition of a schema.
+ *
+ * @param schema - zod schema
+ * @returns Schema definition
+ */
+function schemaDef(schema: ZodType): SchemaDef {
+  return schema._zod.def as unknown as SchemaDef;
+}
+
+/**
+ * Checks whether a field may be left out of its object.
+ *
+ * @param schema - Field schema
+ * @returns True for optional fields and fields with defaults
+ */
+function isOptional(schema: ZodType): boolean {
+  return schema._zod.optin === 'optional';
+}
+
+/**
+ * Checks whether a schema produces objects that overrides can be merged into.
+ *
+ * @param def - Schema definition
+ * @returns True for object, union, intersection, and wrapper schemas
+ */
+function isObjectLike(def: SchemaDef): boolean {
+  return [
+    'object',
+    'union',
+    'intersection',
+    'pipe',
+    'lazy',
+    'optional',
+    'nullable',
+    'default',
+    'prefault',
+    'catch',
+    'readonly',
+    'nonoptional',
+  ].includes(def.type);
+}
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - Value to check
+ * @returns True for objects created with `{}` or `Object.create(null)`
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
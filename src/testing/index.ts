@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Test utilities for code that uses the WIIL SDK.
+ * @module testing
+ *
+ * @remarks
+ * Import from `wiil-js/testing`. These utilities are meant for tests and are
+ * not part of the main SDK entry point.
+ *
+ * @example
+ * ```typescript
+ * import { WiilClient } from 'wiil-js';
+ * import { MockWiilServer, factories } from 'wiil-js/testing';
+ *
+ * const server = new MockWiilServer();
+ * const client = new WiilClient({ apiKey: 'test-key', transport: server.transport });
+ * await client.customers.create(factories.customer.build());
+ * ```
+ */
+
+export { MockWiilServer } from './MockWiilServer';
+export type { MockFault, MockRecord, MockRequest, MockWiilServerOptions } from './MockWiilServer';
+export type { MockResourceName } from './routes';
+export { Factory } from './factory';
+export type { BuildOptions, BuildWithRelationsResult, DeepPartial, RelatedRecord } from './factory';
+export { createFactories, factories } from './factories';
+export type { FactoryOptions, WiilFactories } from './factories';
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Resources served by the mock WIIL server.
+ * @module testing/routes
+ */
+
+import {
+  AppointmentStatus,
+  CallRequestStatus,
+  EmailStatus,
+  OrderStatus,
+  ReservationStatus,
+  SmsStatus,
+} from 'wiil-core-js';
+
+/**
+ * Date range lookup served at `GET /<path>/by-date-range`.
+ *
+ * @internal
+ */
+export interface MockDateRange {
+  /**
+   * Record field holding the timestamp.
+   */
+  field: string;
+
+  /**
+   * Query parameter holding the range start.
+   */
+  start: string;
+
+  /**
+   * Query parameter holding the range end.
+   */
+  end: string;
+}
+
+/**
+ * How the mock server stores and serves a resource.
+ *
+ * @internal
+ */
+export interface MockRoute {
+  /**
+   * API path of the resource, such as `/customers`.
+   */
+  path: string;
+
+  /**
+   * Prefix of generated record IDs.
+   */
+  idPrefix: string;
+
+  /**
+   * Whether updates are sent to `/<path>/:id` rather than to `/<path>` with the ID in the body.
+   */
+  updateById: boolean;
+
+  /**
+   * Record field matched by each `/<path>/by-<name>/:value` lookup.
+   */
+  lookups?: Record<string, string>;
+
+  /**
+   * Record field matched by each `/<path>/<name>/:value` single-record lookup.
+   */
+  findBy?: Record<string, string>;
+
+  /**
+   * Date range lookup.
+   */
+  dateRange?: MockDateRange;
+
+  /**
+   * Status given to created records that do not specify one.
+   */
+  initialStatus?: string;
+
+  /**
+   * Status set by `POST /<path>/:id/cancel`; the resource cannot be cancelled when unset.
+   */
+  cancelledStatus?: string;
+}
+
+/**
+ * Resources served by the mock server, keyed by their client property name.
+ *
+ * @internal
+ */
+export const MOCK_ROUTES = {
+  customers: {
+    path: '/customers',
+    idPrefix: 'cust',
+    updateById: true,
+    findBy: { phone: 'phone_number', email: 'email' },
+  },
+  businessServices: {
+    path: '/business-services',
+    idPrefix: 'svc',
+    updateById: false,
+  },
+  serviceAppointments: {
+    path: '/service-appointments',
+    idPrefix: 'appt',
+    updateById: true,
+    lookups: { customer: 'customerId', service: 'businessServiceId' },
+    dateRange: { field: 'startTime', start: 'startDate', end: 'endDate' },
+    initialStatus: AppointmentStatus.PENDING,
+    cancelledStatus: AppointmentStatus.CANCELLED,
+  },
+  tableReservations: {
+    path: '/table-reservations',
+    idPrefix: 'tres',
+    updateById: true,
+    lookups: { customer: 'customerId', resource: 'resourceId' },
+    dateRange: { field: 'time', start: 'startTime', end: 'endTime' },
+    initialStatus: ReservationStatus.PENDING,
+    cancelledStatus: ReservationStatus.CANCELLED,
+  },
+  roomReservations: {
+    path: '/room-reservations',
+    idPrefix: 'rres',
+    updateById: true,
+    lookups: { guest: 'guestId', resource: 'resourceId' },
+    initialStatus: ReservationStatus.PENDING,
+    cancelledStatus: ReservationStatus.CANCELLED,
+  },
+  menuOrders: {
+    path: '/menu-orders',
+    idPrefix: 'mord',
+    updateById: false,
+    lookups: { customer: 'customerId' },
+    initialStatus: OrderStatus.PENDING,
+    cancelledStatus: OrderStatus.CANCELLED,
+  },
+  productOrders: {
+    path: '/product-orders',
+    idPrefix: 'pord',
+    updateById: false,
+    lookups: { customer: 'customerId' },
+    initialStatus: OrderStatus.PENDING,
+    cancelledStatus: OrderStatus.CANCELLED,
+  },
+  outboundCalls: {
+    path: '/outbound-calls',
+    idPrefix: 'call',
+    updateById: false,
+    lookups: { agent: 'agentConfigurationId' },
+    dateRange: { field: 'createdAt', start: 'startDate', end: 'endDate' },
+    initialStatus: CallRequestStatus.PENDING,
+    cancelledStatus: CallRequestStatus.CANCELLED,
+  },
+  outboundEmails: {
+    path: '/outbound-emails',
+    idPrefix: 'email',
+    updateById: false,
+    lookups: { template: 'templateId' },
+    dateRange: { field: 'createdAt', start: 'startDate', end: 'endDate' },
+    initialStatus: EmailStatus.QUEUED,
+    cancelledStatus: EmailStatus.CANCELLED,
+  },
+  outboundSms: {
+    path: '/outbound-sms',
+    idPrefix: 'sms',
+    updateById: false,
+    lookups: { template: 'templateId' },
+    dateRange: { field: 'createdAt', start: 'startDate', end: 'endDate' },
+    initialStatus: SmsStatus.QUEUED,
+    cancelledStatus: SmsStatus.CANCELLED,
+  },
+} satisfies Record<string, MockRoute>;
+
+/**
+ * Name of a resource served by the mock server, matching its property on {@link WiilClient}.
+ */
+export type MockResourceName = keyof typeof MOCK_ROUTES;
@@ -0,0 +1,272 @@
+/**
+ * @fileoverview Typed webhook events and payload parsing.
+ * @module webhooks/events
+ */
+
+import { z, ZodType } from 'zod';
+import {
+  BusinessCallRequest,
+  BusinessCallRequestSchema,
+  DynamicAgentSetupResult,
+  DynamicPhoneAgentSetupResult,
+  DynamicWebAgentSetupResult,
+  EmailRequest,
+  EmailRequestSchema,
+  MenuOrder,
+  MenuOrderSchema,
+  ProductOrder,
+  ProductOrderSchema,
+  SmsRequest,
+  SmsRequestSchema,
+} from 'wiil-core-js';
+import { WiilValidationError } from '../errors/WiilError';
+import { WebhookPayload, WebhookVerifyOptions, verifyWebhookSignature } from './signature';
+
+/**
+ * Fields shared by every webhook event.
+ *
+ * @typeParam TType - Event type
+ * @typeParam TData - Resource the event describes
+ */
+export interface WiilWebhookEventBase<TType extends string, TData> {
+  /**
+   * Unique event ID. Deliveries can be repeated; use it to skip events that were already handled.
+   */
+  id: string;
+
+  /**
+   * Event type.
+   */
+  type: TType;
+
+  /**
+   * Time the event occurred, in Unix milliseconds.
+   */
+  createdAt: number;
+
+  /**
+   * Project the resource belongs to.
+   */
+  projectId?: string;
+
+  /**
+   * Resource state after the change.
+   */
+  data: TData;
+}
+
+/**
+ * Sent when an outbound call changes status.
+ */
+export type CallStatusChangedEvent = WiilWebhookEventBase<'call.status_changed', BusinessCallRequest>;
+
+/**
+ * Sent when an outbound SMS changes status.
+ */
+export type SmsStatusChangedEvent = WiilWebhookEventBase<'sms.status_changed', SmsRequest>;
+
+/**
+ * Sent when an outbound email changes status.
+ */
+export type EmailStatusChangedEvent = WiilWebhookEventBase<'email.status_changed', EmailRequest>;
+
+/**
+ * Sent when a menu order changes status.
+ */
+export type MenuOrderStatusChangedEvent = WiilWebhookEventBase<'menu_order.status_changed', MenuOrder>;
+
+/**
+ * Sent when a product order changes status.
+ */
+export type ProductOrderStatusChangedEvent = WiilWebhookEventBase<'product_order.status_changed', ProductOrder>;
+
+/**
+ * Sent when a dynamic agent setup changes processing state.
+ */
+export type DynamicSetupStatusChangedEvent = WiilWebhookEventBase<
+  'dynamic_setup.status_changed',
+  DynamicAgentSetupResult | DynamicWebAgentSetupResult | DynamicPhoneAgentSetupResult
+>;
+
+/**
+ * Any webhook event sent by the WIIL Platform, discriminated by `type`.
+ *
+ * @example
+ * ```typescript
+ * switch (event.type) {
+ *   case 'call.status_changed':
+ *     console.log('Call', event.data.id, 'is now', event.data.status);
+ *     break;
+ *   case 'menu_order.status_changed':
+ *     await kitchen.update(event.data);
+ *     break;
+ * }
+ * ```
+ */
+export type WiilWebhookEvent =
+  | CallStatusChangedEvent
+  | SmsStatusChangedEvent
+  | EmailStatusChangedEvent
+  | MenuOrderStatusChangedEvent
+  | ProductOrderStatusChangedEvent
+  | DynamicSetupStatusChangedEvent;
+
+/**
+ * Type of a webhook event.
+ */
+export type WiilWebhookEventType = WiilWebhookEvent['type'];
+
+/**
+ * Event whose type this SDK version does not know yet.
+ *
+ * @remarks
+ * The platform adds event types over time. Webhook handlers acknowledge these
+ * events so they are not delivered again, and pass them to `onUnknownEvent`.
+ * The data is not validated.
+ */
+export type UnknownWebhookEvent = WiilWebhookEventBase<string, Record<string, unknown>>;
+
+/**
+ * Schemas for the data of each event type.
+ *
+ * @remarks
+ * Dynamic setup results are not validated, matching
+ * `DynamicAgentStatusResource.get`.
+ *
+ * @internal
+ */
+const EVENT_DATA_SCHEMAS: Record<WiilWebhookEventType, ZodType | undefined> = {
+  'call.status_changed': BusinessCallRequestSchema,
+  'sms.status_changed': SmsRequestSchema,
+  'email.status_changed': EmailRequestSchema,
+  'menu_order.status_changed': MenuOrderSchema,
+  'product_order.status_changed': ProductOrderSchema,
+  'dynamic_setup.status_changed': undefined,
+};
+
+/**
+ * Schema for the envelope shared by every event.
+ *
+ * @internal
+ */
+const WebhookEnvelopeSchema = z.object({
+  id: z.string().min(1),
+  type: z.string().min(1),
+  createdAt: z.number(),
+  projectId: z.string().optional(),
+  data: z.record(z.string(), z.unknown()),
+});
+
+/**
+ * Parses a webhook payload into a typed event without checking its signature.
+ *
+ * @param payload - Raw request body
+ * @returns Typed webhook event
+ *
+ * @throws {@link WiilValidationError} - When the payload is not JSON, has an
+ * unsupported event type, or its data does not match the event's schema
+ *
+ * @remarks
+ * Only use this for payloads whose signature was already verified. Use
+ * {@link constructWebhookEvent} for requests received from the network.
+ */
+export function parseWebhookEvent(payload: WebhookPayload): WiilWebhookEvent {
+  const event = readWebhookEvent(payload);
+  if (!isKnownEvent(event)) {
+    throw new WiilValidationError(`Unsupported webhook event type: ${event.type}`, { type: event.type });
+  }
+  return event;
+}
+
+/**
+ * Parses a webhook payload, passing event types this SDK does not know through unvalidated.
+ *
+ * @param payload - Raw request body
+ * @returns Typed webhook event, or the envelope of an unknown event type
+ *
+ * @throws {@link WiilValidationError} - When the payload is not JSON, is not an
+ * event envelope, or the data of a known event type does not match its schema
+ *
+ * @internal
+ */
+export function readWebhookEvent(payload: WebhookPayload): WiilWebhookEvent | UnknownWebhookEvent {
+  let body: unknown;
+  try {
+    body = JSON.parse(typeof payload === 'string' ? payload : new TextDecoder().decode(payload));
+  } catch (error) {
+    throw new WiilValidationError('Webhook payload is not valid JSON', error);
+  }
+
+  const envelope = WebhookEnvelopeSchema.safeParse(body);
+  if (!envelope.success) {
+    throw new WiilValidationError('Invalid webhook payload', envelope.error.issues);
+  }
+
+  if (!Object.hasOwn(EVENT_DATA_SCHEMAS, envelope.data.type)) {
+    return envelope.data;
+  }
+
+  const dataSchema = EVENT_DATA_SCHEMAS[envelope.data.type as WiilWebhookEventType];
+  if (dataSchema) {
+    const data = dataSchema.safeParse(envelope.data.data);
+    if (!data.success) {
+      throw new WiilValidationError(`Invalid ${envelope.data.type} webhook data`, data.error.issues);
+    }
+    return { ...envelope.data, data: data.data } as WiilWebhookEvent;
+  }
+  return envelope.data as WiilWebhookEvent;
+}
+
+/**
+ * Checks whether an event has a type this SDK version knows.
+ *
+ * @param event - Parsed webhook event
+ * @returns `true` for events of a {@link WiilWebhookEventType}
+ *
+ * @internal
+ */
+export function isKnownEvent(event: WiilWebhookEvent | UnknownWebhookEvent): event is WiilWebhookEvent {
+  return Object.hasOwn(EVENT_DATA_SCHEMAS, event.type);
+}
+
+/**
+ * Verifies a webhook request's signature and parses its payload into a typed event.
+ *
+ * @param payload - Raw request body
+ * @param signatureHeader - Value of the `X-Wiil-Signature` header
+ * @param secret - Webhook signing secret, or several secrets during rotation
+ * @param options - Verification options
+ * @returns Typed webhook event
+ *
+ * @throws {@link WiilWebhookSignatureError} - When the signature is missing, invalid, or too old
+ * @throws {@link WiilValidationError} - When the payload is not a supported event
+ * @throws {@link WiilConfigurationError} - When no secret is provided
+ *
+ * @remarks
+ * Event types added to the platform after this SDK version are rejected with
+ * a {@link WiilValidationError} whose `details.type` holds the event type.
+ * Acknowledge those with HTTP 200 rather than 400, or the platform delivers
+ * them again; the webhook handlers do this for you.
+ *
+ * @example
+ * ```typescript
+ * const event = constructWebhookEvent(
+ *   rawBody,
+ *   req.headers['x-wiil-signature'],
+ *   process.env.WIIL_WEBHOOK_SECRET!
+ * );
+ *
+ * if (event.type === 'sms.status_changed') {
+ *   console.log('SMS', event.data.id, event.data.status);
+ * }
+ * ```
+ */
+export function constructWebhookEvent(
+  payload: WebhookPayload,
+  signatureHeader: string | string[] | null | undefined,
+  secret: string | string[],
+  options?: WebhookVerifyOptions
+): WiilWebhookEvent {
+  verifyWebhookSignature(payload, signatureHeader, secret, options);
+  return parseWebhookEvent(payload);
+}
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Tests for webhook request handlers.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  createExpressWebhookHandler,
+  createFetchWebhookHandler,
+  createNodeWebhookHandler,
+} from './handlers';
+import { constructWebhookEvent, WiilWebhookEvent } from './events';
+import { signWebhookPayload } from './signature';
+import { WiilConfigurationError, WiilValidationError } from '../errors/WiilError';
+
+const SECRET = 'whsec_test';
+
+const setupEvent = {
+  id: 'evt_1',
+  type: 'dynamic_setup.status_changed',
+  createdAt: 1_900_000_000_000,
+  projectId: 'proj_1',
+  data: { id: 'setup_1', processingState: { status: 'COMPLETED', progressPercentage: 100 } },
+};
+
+const signedRequest = (body: string, secret = SECRET) =>
+  new Request('http://localhost/webhooks', {
+    method: 'POST',
+    body,
+    headers: { 'Content-Type': 'application/json', 'X-Wiil-Signature': signWebhookPayload(body, secret) },
+  });
+
+describe('Webhook handlers', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+    server = undefined;
+  });
+
+  it('should construct typed events from signed payloads', () => {
+    const body = JSON.stringify(setupEvent);
+
+    const event = constructWebhookEvent(body, signWebhookPayload(body, SECRET), SECRET);
+
+    expect(event.type).toBe('dynamic_setup.status_changed');
+    expect(event).toEqual(setupEvent);
+  });
+
+  it('should reject payloads that are not supported events', () => {
+    const invalid = [
+      'not json',
+      JSON.stringify({ ...setupEvent, type: 'unknown.event' }),
+      JSON.stringify({ ...setupEvent, type: 'call.status_changed', data: {} }),
+    ];
+
+    for (const body of invalid) {
+      expect(() => constructWebhookEvent(body, signWebhookPayload(body, SECRET), SECRET)).toThrow(
+        WiilValidationError
+      );
+    }
+  });
+
+  it('should acknowledge verified events with the Fetch handler', async () => {
+    const onEvent = vi.fn<(event: WiilWebhookEvent) => void>();
+    const handler = createFetchWebhookHandler({ secret: SECRET, onEvent });
+
+    const response = await handler(signedRequest(JSON.stringify(setupEvent)));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true });
+    expect(onEvent).toHaveBeenCalledWith(setupEvent);
+  });
+
+  it('should acknowledge event types the SDK does not know', async () => {
+    const onEvent = vi.fn();
+    const onUnknownEvent = vi.fn();
+    const handler = createFetchWebhookHandler({ secret: SECRET, onEvent, onUnknownEvent });
+    const unknownEvent = { ...setupEvent, type: 'agent.renamed', data: { id: 'agent_1' } };
+
+    const response = await handler(signedRequest(JSON.stringify(unknownEvent)));
+
+    expect(response.status).toBe(200);
+    expect(onUnknownEvent).toHaveBeenCalledWith(unknownEvent);
+    expect(onEvent).not.toHaveBeenCalled();
+    expect(await createFetchWebhookHandler({ secret: SECRET, onEvent })(signedRequest(JSON.stringify(unknownEvent))))
+      .toHaveProperty('status', 200);
+  });
+
+  it('should answer 400 for bad signatures and 500 when the callback fails', async () => {
+    const onError = vi.fn();
+    const onEvent = vi.fn().mockRejectedValue(new Error('database down'));
+    const handler = createFetchWebhookHandler({ secret: SECRET, onEvent, onError });
+
+    const rejected = await handler(signedRequest(JSON.stringify(setupEvent), 'whsec_other'));
+    const failed = await handler(signedRequest(JSON.stringify(setupEvent)));
+
+    expect(rejected.status).toBe(400);
+    expect(await rejected.json()).toEqual({ error: 'No webhook signature matches the webhook secret' });
+    expect(failed.status).toBe(500);
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+
+  it('should read the raw body with the Node handler', async () => {
+    const onEvent = vi.fn();
+    server = createServer(createNodeWebhookHandler({ secret: SECRET, onEvent }));
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const request = signedRequest(JSON.stringify(setupEvent));
+    const response = await fetch(`http://127.0.0.1:${port}/webhooks`, {
+      method: 'POST',
+      body: await request.text(),
+      headers: request.headers,
+    });
+
+    expect(response.status).toBe(200);
+    expect(onEvent).toHaveBeenCalledWith(setupEvent);
+  });
+
+  it('should use the raw body set by Express and pass callback errors to next', async () => {
+    const body = Buffer.from(JSON.stringify(setupEvent));
+    const failure = new Error('queue unavailable');
+    const handler = createExpressWebhookHandler({ secret: SECRET, onEvent: vi.fn().mockRejectedValue(failure) });
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+    const next = vi.fn();
+
+    await handler(
+      { headers: { 'x-wiil-signature': signWebhookPayload(body, SECRET) }, body } as never,
+      res,
+      next
+    );
+    await handler({ headers: {}, body: setupEvent, readableEnded: true } as never, res, next);
+
+    expect(next).toHaveBeenNthCalledWith(1, failure);
+    expect(next.mock.calls[1][0]).toBeInstanceOf(WiilConfigurationError);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('should require a secret', () => {
+    expect(() => createFetchWebhookHandler({ secret: '', onEvent: vi.fn() })).toThrow(WiilConfigurationError);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * @fileoverview Webhook request handlers for Node.js http, Express, and Fetch-style runtimes.
+ * @module webhooks/handlers
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import {
+  WiilConfigurationError,
+  WiilValidationError,
+  WiilWebhookSignatureError,
+} from '../errors/WiilError';
+import { UnknownWebhookEvent, WiilWebhookEvent, isKnownEvent, readWebhookEvent } from './events';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookPayload,
+  WebhookVerifyOptions,
+  verifyWebhookSignature,
+  verifyWebhookSignatureAsync,
+} from './signature';
+
+/**
+ * Options for webhook request handlers.
+ */
+export interface WebhookHandlerOptions extends WebhookVerifyOptions {
+  /**
+   * Webhook signing secret, or several secrets during rotation.
+   */
+  secret: string | string[];
+
+  /**
+   * Called with each verified event. The request is acknowledged with HTTP 200
+   * once the returned promise resolves.
+   *
+   * @remarks
+   * When the callback throws, the handler responds with HTTP 500 so the
+   * platform delivers the event again.
+   */
+  onEvent: (event: WiilWebhookEvent) => void | Promise<void>;
+
+  /**
+   * Called with each verified event whose type this SDK version does not know.
+   * The request is acknowledged with HTTP 200 either way, so the platform does
+   * not deliver the event again.
+   *
+   * @remarks
+   * Errors are handled like those thrown by `onEvent`.
+   */
+  onUnknownEvent?: (event: UnknownWebhookEvent) => void | Promise<void>;
+
+  /**
+   * Called when a request is rejected or `onEvent` throws.
+   *
+   * @remarks
+   * Not called by the Express handler for `onEvent` failures, which are passed to `next` instead.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Request shape used by the Express handler.
+ *
+ * @remarks
+ * Declared structurally so the SDK does not depend on Express.
+ */
+export interface ExpressWebhookRequest extends IncomingMessage {
+  /**
+   * Body set by Express body parsers.
+   */
+  body?: unknown;
+}
+
+/**
+ * Response shape used by the Express handler.
+ */
+export interface ExpressWebhookResponse {
+  status(code: number): ExpressWebhookResponse;
+  json(body: unknown): unknown;
+}
+
+/**
+ * Verifies a webhook signature, synchronously or asynchronously.
+ *
+ * @internal
+ */
+type SignatureVerifier = (
+  payload: WebhookPayload,
+  signatureHeader: string | string[] | null | undefined,
+  secret: string | string[],
+  options: WebhookVerifyOptions
+) => void | Promise<void>;
+
+/**
+ * Status and JSON body of a webhook response.
+ *
+ * @internal
+ */
+interface WebhookReply {
+  status: number;
+  body: { received: true } | { error: string };
+}
+
+/**
+ * Creates a request listener for the Node.js `http` module.
+ *
+ * @param options - Secret and event callback
+ * @returns Listener that verifies, parses, and acknowledges webhook requests
+ *
+ * @throws {@link WiilConfigurationError} - When no secret is provided
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ * import { createNodeWebhookHandler } from 'wiil-js';
+ *
+ * createServer(
+ *   createNodeWebhookHandler({
+ *     secret: process.env.WIIL_WEBHOOK_SECRET!,
+ *     onEvent: async (event) => {
+ *       if (event.type === 'call.status_changed') {
+ *         await calls.update(event.data);
+ *       }
+ *     },
+ *   })
+ * ).listen(3000);
+ * ```
+ */
+export function createNodeWebhookHandler(
+  options: WebhookHandlerOptions
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  validateOptions(options);
+
+  return async (req, res) => {
+    let reply: WebhookReply;
+    try {
+      reply = await receive(
+        await readBody(req),
+        req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()],
+        options,
+        verifyWebhookSignature
+      );
+    } catch (error) {
+      options.onError?.(error);
+      reply = { status: 500, body: { error: 'Webhook handler failed' } };
+    }
+
+    res.statusCode = reply.status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(reply.body));
+  };
+}
+
+/**
+ * Creates an Express route handler.
+ *
+ * @param options - Secret and event callback
+ * @returns Route handler that verifies, parses, and acknowledges webhook requests
+ *
+ * @throws {@link WiilConfigurationError} - When no secret is provided
+ *
+ * @remarks
+ * The signature covers the raw body, so mount the route with
+ * `express.raw({ type: 'application/json' })` or before any JSON body parser.
+ * Requests whose body was already parsed into an object are passed to `next`
+ * with a {@link WiilConfigurationError}, as are errors thrown by `onEvent`.
+ *
+ * @example
+ * ```typescript
+ * app.post(
+ *   '/webhooks/wiil',
+ *   express.raw({ type: 'application/json' }),
+ *   createExpressWebhookHandler({
+ *     secret: process.env.WIIL_WEBHOOK_SECRET!,
+ *     onEvent: (event) => queue.publish(event),
+ *   })
+ * );
+ * ```
+ */
+export function createExpressWebhookHandler(
+  options: WebhookHandlerOptions
+): (req: ExpressWebhookRequest, res: ExpressWebhookResponse, next: (error?: unknown) => void) => Promise<void> {
+  validateOptions(options);
+
+  return async (req, res, next) => {
+    try {
+      const reply = await receive(
+        await readBody(req),
+        req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()],
+        options,
+        verifyWebhookSignature
+      );
+      res.status(reply.status).json(reply.body);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Creates a handler for runtimes built on the Fetch API `Request` and `Response`,
+ * such as Cloudflare Workers, Deno, Bun, and Next.js route handlers.
+ *
+ * @param options - Secret and event callback
+ * @returns Handler that verifies, parses, and acknowledges webhook requests
+ *
+ * @throws {@link WiilConfigurationError} - When no secret is provided
+ *
+ * @remarks
+ * Signatures are verified with the Web Crypto API, so no Node.js
+ * compatibility flags are needed.
+ *
+ * @example
+ * ```typescript
+ * export const POST = createFetchWebhookHandler({
+ *   secret: process.env.WIIL_WEBHOOK_SECRET!,
+ *   onEvent: (event) => console.log('Received', event.type),
+ * });
+ * ```
+ */
+export function createFetchWebhookHandler(
+  options: WebhookHandlerOptions
+): (request: Request) => Promise<Response> {
+  validateOptions(options);
+
+  return async (request) => {
+    let reply: WebhookReply;
+    try {
+      const payload = new Uint8Array(await request.arrayBuffer());
+      reply = await receive(
+        payload,
+        request.headers.get(WEBHOOK_SIGNATURE_HEADER),
+        options,
+        verifyWebhookSignatureAsync
+      );
+    } catch (error) {
+      options.onError?.(error);
+      reply = { status: 500, body: { error: 'Webhook handler failed' } };
+    }
+
+    return new Response(JSON.stringify(reply.body), {
+      status: reply.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+/**
+ * Verifies and parses a webhook request and passes the event to the callback.
+ *
+ * @param payload - Raw request body
+ * @param signatureHeader - Value of the signature header
+ * @param options - Handler options
+ * @param verify - Signature verification for the handler's runtime
+ * @returns Response to send; 400 for requests that are not valid signed events
+ *
+ * @throws Errors thrown by `onEvent` or `onUnknownEvent`
+ */
+async function receive(
+  payload: WebhookPayload,
+  signatureHeader: string | string[] | null | undefined,
+  options: WebhookHandlerOptions,
+  verify: SignatureVerifier
+): Promise<WebhookReply> {
+  let event: WiilWebhookEvent | UnknownWebhookEvent;
+  try {
+    await verify(payload, signatureHeader, options.secret, options);
+    event = readWebhookEvent(payload);
+  } catch (error) {
+    if (error instanceof WiilWebhookSignatureError || error instanceof WiilValidationError) {
+      options.onError?.(error);
+      return { status: 400, body: { error: error.message } };
+    }
+    throw error;
+  }
+
+  if (isKnownEvent(event)) {
+    await options.onEvent(event);
+  } else {
+    await options.onUnknownEvent?.(event);
+  }
+  return { status: 200, body: { received: true } };
+}
+
+/**
+ * Reads the raw body of a Node.js request.
+ *
+ * @param req - Incoming request, possibly processed by Express body parsers
+ * @returns Raw request body
+ *
+ * @throws {@link WiilConfigurationError} - When a body parser already replaced the body with an object
+ */
+async function readBody(req: ExpressWebhookRequest): Promise<WebhookPayload> {
+  if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+    return req.body;
+  }
+  if (req.body !== undefined && req.readableEnded) {
+    throw new WiilConfigurationError(
+      "The webhook request body was already parsed. Mount express.raw({ type: 'application/json' }) on the webhook route."
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Validates webhook handler options.
+ *
+ * @param options - Handler options
+ *
+ * @throws {@link WiilConfigurationError} - When no secret is provided
+ */
+function validateOptions(options: WebhookHandlerOptions): void {
+  const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+  if (!secrets.some((secret) => secret?.trim())) {
+    throw new WiilConfigurationError('A webhook secret is required to verify webhook signatures');
+  }
+}
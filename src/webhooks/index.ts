@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Webhook signature verification, typed events, and request handlers.
+ * @module webhooks
+ */
+
+export * from './signature';
+export { constructWebhookEvent, parseWebhookEvent } from './events';
+export type {
+  WiilWebhookEventBase,
+  CallStatusChangedEvent,
+  SmsStatusChangedEvent,
+  EmailStatusChangedEvent,
+  MenuOrderStatusChangedEvent,
+  ProductOrderStatusChangedEvent,
+  DynamicSetupStatusChangedEvent,
+  WiilWebhookEvent,
+  WiilWebhookEventType,
+  UnknownWebhookEvent,
+} from './events';
+export * from './handlers';
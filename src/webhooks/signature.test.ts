@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Tests for webhook signature verification.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { signWebhookPayload, verifyWebhookSignature, verifyWebhookSignatureAsync } from './signature';
+import { WiilConfigurationError, WiilWebhookSignatureError } from '../errors/WiilError';
+
+const SECRET = 'whsec_test';
+const PAYLOAD = JSON.stringify({ id: 'evt_1', type: 'call.status_changed' });
+
+describe('Webhook signatures', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should accept payloads signed with the secret', () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET);
+
+    expect(() => verifyWebhookSignature(PAYLOAD, header, SECRET)).not.toThrow();
+    expect(() => verifyWebhookSignature(Buffer.from(PAYLOAD), header, SECRET)).not.toThrow();
+  });
+
+  it('should reject modified payloads and other secrets', () => {
+    const header = signWebhookPayload(PAYLOAD, SECRET);
+
+    expect(() => verifyWebhookSignature(`${PAYLOAD} `, header, SECRET)).toThrow(WiilWebhookSignatureError);
+    expect(() => verifyWebhookSignature(PAYLOAD, header, 'whsec_other')).toThrow(
+      'No webhook signature matches the webhook secret'
+    );
+  });
+
+  it('should accept any matching secret or signature during rotation', () => {
+    const header = `${signWebhookPayload(PAYLOAD, 'whsec_old', 1_900_000_000)},v1=${
+      signWebhookPayload(PAYLOAD, 'whsec_new', 1_900_000_000).split('v1=')[1]
+    }`;
+
+    expect(() => verifyWebhookSignature(PAYLOAD, header, 'whsec_new', { toleranceSeconds: 0 })).not.toThrow();
+    expect(() =>
+      verifyWebhookSignature(PAYLOAD, signWebhookPayload(PAYLOAD, 'whsec_old'), ['whsec_new', 'whsec_old'])
+    ).not.toThrow();
+  });
+
+  it('should reject signatures outside the timestamp tolerance', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const header = signWebhookPayload(PAYLOAD, SECRET);
+
+    vi.setSystemTime(Date.now() + 301_000);
+    expect(() => verifyWebhookSignature(PAYLOAD, header, SECRET)).toThrow(/tolerance of 300 seconds/);
+    expect(() => verifyWebhookSignature(PAYLOAD, header, SECRET, { toleranceSeconds: 600 })).not.toThrow();
+    expect(() => verifyWebhookSignature(PAYLOAD, header, SECRET, { toleranceSeconds: 0 })).not.toThrow();
+  });
+
+  it('should reject missing and malformed headers', () => {
+    expect(() => verifyWebhookSignature(PAYLOAD, undefined, SECRET)).toThrow('Missing X-Wiil-Signature header');
+    expect(() => verifyWebhookSignature(PAYLOAD, 'v1=abc', SECRET)).toThrow('Malformed X-Wiil-Signature header');
+    expect(() => verifyWebhookSignature(PAYLOAD, 't=123', SECRET)).toThrow('Malformed X-Wiil-Signature header');
+  });
+
+  it('should require a secret', () => {
+    expect(() => verifyWebhookSignature(PAYLOAD, signWebhookPayload(PAYLOAD, SECRET), ' ')).toThrow(
+      WiilConfigurationError
+    );
+  });
+
+  describe('with Web Crypto', () => {
+    it('should accept payloads signed with any of the secrets', async () => {
+      const header = signWebhookPayload(PAYLOAD, SECRET);
+
+      await expect(verifyWebhookSignatureAsync(PAYLOAD, header, SECRET)).resolves.toBeUndefined();
+      await expect(
+        verifyWebhookSignatureAsync(new TextEncoder().encode(PAYLOAD), header, ['whsec_old', SECRET])
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject modified payloads, other secrets, and non-hex signatures', async () => {
+      const header = signWebhookPayload(PAYLOAD, SECRET);
+
+      await expect(verifyWebhookSignatureAsync(`${PAYLOAD} `, header, SECRET)).rejects.toThrow(
+        WiilWebhookSignatureError
+      );
+      await expect(verifyWebhookSignatureAsync(PAYLOAD, header, 'whsec_other')).rejects.toThrow(
+        'No webhook signature matches the webhook secret'
+      );
+      await expect(verifyWebhookSignatureAsync(PAYLOAD, 't=1900000000,v1=zz', SECRET, { toleranceSeconds: 0 })).rejects.toThrow(
+        WiilWebhookSignatureError
+      );
+      await expect(verifyWebhookSignatureAsync(PAYLOAD, undefined, SECRET)).rejects.toThrow(
+        'Missing X-Wiil-Signature header'
+      );
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview Webhook signature signing and verification.
+ * @module webhooks/signature
+ */
+
+import { WiilConfigurationError, WiilWebhookSignatureError } from '../errors/WiilError';
+
+/**
+ * Header carrying the webhook signature.
+ *
+ * @remarks
+ * The value has the form `t=<unix seconds>,v1=<hex signature>`. During secret
+ * rotation the header carries one `v1` entry per active secret.
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Wiil-Signature';
+
+/**
+ * Default maximum age of a signature, in seconds.
+ *
+ * @internal
+ */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Signature scheme accepted by this SDK version.
+ *
+ * @internal
+ */
+const SIGNATURE_SCHEME = 'v1';
+
+/**
+ * Raw webhook request body, exactly as received.
+ *
+ * @remarks
+ * Node.js `Buffer` values are accepted as `Uint8Array`. Do not pass a body that
+ * was parsed and re-serialized; any change to the bytes invalidates the signature.
+ */
+export type WebhookPayload = string | Uint8Array;
+
+/**
+ * Options for verifying webhook signatures.
+ */
+export interface WebhookVerifyOptions {
+  /**
+   * Maximum difference between the signature timestamp and the current time,
+   * in seconds. Older signatures are rejected to prevent replay attacks.
+   *
+   * @defaultValue 300
+   *
+   * @remarks
+   * Set to `0` to disable the timestamp check.
+   */
+  toleranceSeconds?: number;
+}
+
+/**
+ * Signs a webhook payload the way the WIIL Platform does.
+ *
+ * @param payload - Raw request body
+ * @param secret - Webhook signing secret
+ * @param timestamp - Signature time in Unix seconds; defaults to now
+ * @returns Value for the {@link WEBHOOK_SIGNATURE_HEADER} header
+ *
+ * @remarks
+ * Useful for testing webhook handlers with locally built events. Uses Node's
+ * `crypto` module.
+ *
+ * @example
+ * ```typescript
+ * const body = JSON.stringify(event);
+ * const response = await handler(new Request('http://localhost/webhooks', {
+ *   method: 'POST',
+ *   body,
+ *   headers: { 'X-Wiil-Signature': signWebhookPayload(body, secret) },
+ * }));
+ * ```
+ */
+export function signWebhookPayload(
+  payload: WebhookPayload,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},${SIGNATURE_SCHEME}=${computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Verifies that a webhook request was signed by the WIIL Platform.
+ *
+ * @param payload - Raw request body
+ * @param signatureHeader - Value of the {@link WEBHOOK_SIGNATURE_HEADER} header
+ * @param secret - Webhook signing secret, or several secrets during rotation
+ * @param options - Verification options
+ *
+ * @throws {@link WiilWebhookSignatureError} - When the header is missing or malformed,
+ * no signature matches, or the timestamp is outside the tolerance
+ * @throws {@link WiilConfigurationError} - When no secret is provided
+ *
+ * @remarks
+ * Uses Node's `crypto` module. On runtimes without it, such as Cloudflare
+ * Workers, use {@link verifyWebhookSignatureAsync}.
+ *
+ * @example
+ * ```typescript
+ * verifyWebhookSignature(rawBody, req.headers['x-wiil-signature'], process.env.WIIL_WEBHOOK_SECRET!);
+ * ```
+ */
+export function verifyWebhookSignature(
+  payload: WebhookPayload,
+  signatureHeader: string | string[] | null | undefined,
+  secret: string | string[],
+  options: WebhookVerifyOptions = {}
+): void {
+  const { secrets, timestamp, signatures } = checkSignatureHeader(signatureHeader, secret, options);
+  const { timingSafeEqual } = require('node:crypto') as typeof import('node:crypto');
+
+  const matches = secrets.some((candidate) => {
+    const expected = Buffer.from(computeSignature(payload, candidate, timestamp), 'hex');
+    return signatures.some((signature) => {
+      const received = Buffer.from(signature, 'hex');
+      return received.length === expected.length && timingSafeEqual(received, expected);
+    });
+  });
+
+  if (!matches) {
+    throw new WiilWebhookSignatureError('No webhook signature matches the webhook secret');
+  }
+}
+
+/**
+ * Verifies that a webhook request was signed by the WIIL Platform, using the Web Crypto API.
+ *
+ * @param payload - Raw request body
+ * @param signatureHeader - Value of the {@link WEBHOOK_SIGNATURE_HEADER} header
+ * @param secret - Webhook signing secret, or several secrets during rotation
+ * @param options - Verification options
+ * @returns Promise that resolves when a signature matches
+ *
+ * @throws {@link WiilWebhookSignatureError} - When the header is missing or malformed,
+ * no signature matches, or the timestamp is outside the tolerance
+ * @throws {@link WiilConfigurationError} - When no secret is provided
+ *
+ * @remarks
+ * Works on Cloudflare Workers, Deno, Bun, and other runtimes with
+ * `crypto.subtle`, without Node.js compatibility flags. Falls back to
+ * {@link verifyWebhookSignature} on Node.js versions without the global.
+ *
+ * @example
+ * ```typescript
+ * await verifyWebhookSignatureAsync(
+ *   await request.text(),
+ *   request.headers.get('X-Wiil-Signature'),
+ *   env.WIIL_WEBHOOK_SECRET
+ * );
+ * ```
+ */
+export async function verifyWebhookSignatureAsync(
+  payload: WebhookPayload,
+  signatureHeader: string | string[] | null | undefined,
+  secret: string | string[],
+  options: WebhookVerifyOptions = {}
+): Promise<void> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    return verifyWebhookSignature(payload, signatureHeader, secret, options);
+  }
+
+  const { secrets, timestamp, signatures } = checkSignatureHeader(signatureHeader, secret, options);
+  const encoder = new TextEncoder();
+  const prefix = encoder.encode(`${timestamp}.`);
+  const body = typeof payload === 'string' ? encoder.encode(payload) : payload;
+  const message = new Uint8Array(prefix.length + body.length);
+  message.set(prefix);
+  message.set(body, prefix.length);
+
+  const received = signatures.map(decodeHex).filter((signature) => signature !== undefined);
+  for (const candidate of secrets) {
+    const key = await subtle.importKey('raw', encoder.encode(candidate), { name: 'HMAC', hash: 'SHA-256' }, false, [
+      'verify',
+    ]);
+    for (const signature of received) {
+      // HMAC verification in Web Crypto compares in constant time.
+      if (await subtle.verify('HMAC', key, signature, message)) {
+        return;
+      }
+    }
+  }
+
+  throw new WiilWebhookSignatureError('No webhook signature matches the webhook secret');
+}
+
+/**
+ * Checks the secrets, header, and timestamp shared by both verification paths.
+ *
+ * @param signatureHeader - Value of the signature header
+ * @param secret - Webhook signing secret, or several secrets during rotation
+ * @param options - Verification options
+ * @returns Non-empty secrets, the signature timestamp, and the signatures to compare
+ *
+ * @throws {@link WiilWebhookSignatureError} - When the header is missing or malformed,
+ * or the timestamp is outside the tolerance
+ * @throws {@link WiilConfigurationError} - When no secret is provided
+ */
+function checkSignatureHeader(
+  signatureHeader: string | string[] | null | undefined,
+  secret: string | string[],
+  options: WebhookVerifyOptions
+): { secrets: string[]; timestamp: number; signatures: string[] } {
+  const secrets = (Array.isArray(secret) ? secret : [secret]).filter((value) => value?.trim());
+  if (secrets.length === 0) {
+    throw new WiilConfigurationError('A webhook secret is required to verify webhook signatures');
+  }
+
+  const header = Array.isArray(signatureHeader) ? signatureHeader.join(',') : signatureHeader;
+  if (!header) {
+    throw new WiilWebhookSignatureError(`Missing ${WEBHOOK_SIGNATURE_HEADER} header`);
+  }
+
+  const { timestamp, signatures } = parseSignatureHeader(header);
+
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (tolerance > 0 && Math.abs(Date.now() / 1000 - timestamp) > tolerance) {
+    throw new WiilWebhookSignatureError(
+      `Webhook signature timestamp is outside the tolerance of ${tolerance} seconds`
+    );
+  }
+
+  return { secrets, timestamp, signatures };
+}
+
+/**
+ * Parses a signature header into its timestamp and signatures.
+ *
+ * @param header - Value of the signature header
+ * @returns Signature timestamp and the signatures of the supported scheme
+ *
+ * @throws {@link WiilWebhookSignatureError} - When the header has no timestamp or signature
+ */
+function parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } {
+  let timestamp = NaN;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const separator = part.indexOf('=');
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+
+    if (key === 't') {
+      timestamp = /^\d+$/.test(value) ? Number(value) : NaN;
+    } else if (key === SIGNATURE_SCHEME && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (Number.isNaN(timestamp) || signatures.length === 0) {
+    throw new WiilWebhookSignatureError(`Malformed ${WEBHOOK_SIGNATURE_HEADER} header`);
+  }
+  return { timestamp, signatures };
+}
+
+/**
+ * Computes the HMAC-SHA256 signature of a payload.
+ *
+ * @param payload - Raw request body
+ * @param secret - Webhook signing secret
+ * @param timestamp - Signature time in Unix seconds
+ * @returns Hex-encoded signature of `<timestamp>.<payload>`
+ */
+function computeSignature(payload: WebhookPayload, secret: string, timestamp: number): string {
+  const { createHmac } = require('node:crypto') as typeof import('node:crypto');
+  return createHmac('sha256', secret).update(`${timestamp}.`).update(payload).digest('hex');
+}
+
+/**
+ * Decodes a hex-encoded signature.
+ *
+ * @param signature - Hex string from the signature header
+ * @returns Signature bytes, or `undefined` when the value is not hex
+ */
+function decodeHex(signature: string): Uint8Array<ArrayBuffer> | undefined {
+  if (signature.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(signature)) {
+    return undefined;
+  }
+
+  const bytes = new Uint8Array(signature.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(signature.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}